@@ -142,6 +142,8 @@ export class DibsyAdapter implements PaymentAdapter {
       provider: this.provider,
       event,
       data: payload.data || payload,
+      paymentId: payment?.id,
+      status: payment?.status,
       signature: payload.signature || '',
       timestamp: new Date().toISOString(),
       processed: false,
@@ -150,6 +150,8 @@ export class OmanNetAdapter implements PaymentAdapter {
       provider: this.provider,
       event,
       data: payload.data || payload,
+      paymentId: payment?.id,
+      status: payment?.status,
       signature: payload.signature || '',
       timestamp: new Date().toISOString(),
       processed: false,
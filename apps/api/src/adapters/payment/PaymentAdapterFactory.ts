@@ -13,6 +13,15 @@ import { OmanNetAdapter } from './OmanNetAdapter';
 export class PaymentAdapterFactory {
   private static adapters: Map<string, PaymentAdapter> = new Map();
 
+  // Gateways with an adapter and the regions each one can take payments in
+  private static providerRegions: Record<PaymentProvider, string[]> = {
+    razorpay: ['IN'],
+    dibsy: ['QA'],
+    telr: ['AE', 'QA', 'SA', 'OM'],
+    moyasar: ['SA'],
+    oman_net: ['OM'],
+  };
+
   static createAdapter(region: string, config: PaymentConfig): PaymentAdapter {
     const cacheKey = `${region}_${config.provider}_${config.mode}`;
     
@@ -57,11 +66,28 @@ export class PaymentAdapterFactory {
       throw new Error(`Unsupported region: ${region}`);
     }
 
+    return this.getProviderAdapter(regionConfig.paymentProvider, region, mode);
+  }
+
+  /**
+   * A specific gateway's adapter for a region, for routing rules that send
+   * a region's payments somewhere other than its default provider
+   */
+  static getProviderAdapter(provider: PaymentProvider, region: string, mode: 'sandbox' | 'live' = 'sandbox'): PaymentAdapter {
+    const regionConfig = REGION_CONFIGS[region];
+    if (!regionConfig) {
+      throw new Error(`Unsupported region: ${region}`);
+    }
+
+    if (!this.supportsRegion(provider, region)) {
+      throw new Error(`Payment provider ${provider} does not operate in ${region}`);
+    }
+
     const config: PaymentConfig = {
-      provider: regionConfig.paymentProvider,
+      provider,
       region: regionConfig.code,
       mode,
-      credentials: this.getCredentials(regionConfig.paymentProvider, mode),
+      credentials: this.getCredentials(provider, mode),
       settings: {
         timeout: 30000, // 30 seconds
         retryAttempts: 3,
@@ -80,6 +106,10 @@ export class PaymentAdapterFactory {
     return Array.from(new Set(Object.values(REGION_CONFIGS).map(config => config.paymentProvider)));
   }
 
+  static supportsRegion(provider: PaymentProvider, region: string): boolean {
+    return Boolean(this.providerRegions[provider]?.includes(region));
+  }
+
   private static getCredentials(provider: PaymentProvider, mode: 'sandbox' | 'live'): {
     keyId: string;
     keySecret: string;
@@ -208,6 +208,8 @@ export class RazorpayAdapter implements PaymentAdapter {
       provider: this.provider,
       event,
       data: payload.payload,
+      paymentId: payment?.id,
+      status: payment?.status ? this.mapRazorpayStatus(payment.status) : undefined,
       signature: payload.signature || '',
       timestamp: new Date().toISOString(),
       processed: false,
@@ -145,6 +145,8 @@ export class TelrAdapter implements PaymentAdapter {
       provider: this.provider,
       event,
       data: payload.data || payload,
+      paymentId: payment?.id,
+      status: payment?.status,
       signature: payload.signature || '',
       timestamp: new Date().toISOString(),
       processed: false,
@@ -0,0 +1,491 @@
+import crypto from 'crypto';
+import axios, { AxiosInstance } from 'axios';
+import {
+  ShippingConnector,
+  ShippingRequest,
+  ShippingResponse,
+  ShippingUpdate,
+  ShippingWebhook,
+  ShippingConfig,
+  ShippingAddress,
+  ShippingError,
+  ShippingProviderError,
+  ShippingTimeoutError,
+  ShipmentStatus,
+  ShippingMethod,
+  ShippingProvider,
+  ShippingRate,
+  ShippingLabel,
+  LabelFormat,
+} from '@newhill/shared/types/shipping';
+
+// Aramex product types per method, for domestic and international shipments
+const PRODUCT_TYPES: Record<'standard' | 'express', { domestic: string; international: string }> = {
+  standard: { domestic: 'CDS', international: 'DPX' },
+  express: { domestic: 'ONP', international: 'PPX' },
+};
+
+// Aramex does not quote transit times; these are its published service levels
+const TRANSIT_DAYS: Record<'standard' | 'express', { domestic: number; international: number }> = {
+  standard: { domestic: 3, international: 5 },
+  express: { domestic: 1, international: 3 },
+};
+
+export class AramexAdapter implements ShippingConnector {
+  public readonly provider: ShippingProvider = 'aramex';
+  public readonly region: string;
+  private client: AxiosInstance;
+  private config: ShippingConfig;
+
+  constructor(config: ShippingConfig) {
+    this.config = config;
+    this.region = config.region;
+
+    this.client = axios.create({
+      baseURL: config.baseUrl || (config.mode === 'live'
+        ? 'https://ws.aramex.net/ShippingAPI.V2'
+        : 'https://ws.dev.aramex.net/ShippingAPI.V2'),
+      timeout: config.settings.timeout,
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+    });
+  }
+
+  async createShipment(request: ShippingRequest): Promise<ShippingResponse> {
+    try {
+      const international = request.origin.country !== request.destination.country;
+
+      const response = await this.client.post('/Shipping/Service_1_0.svc/json/CreateShipments', {
+        ClientInfo: this.getClientInfo(),
+        LabelInfo: {
+          ReportID: 9729,
+          ReportType: 'URL',
+        },
+        Shipments: [{
+          Reference1: request.orderId,
+          Shipper: {
+            AccountNumber: this.config.credentials.accountNumber,
+            ...this.mapParty(request.origin),
+          },
+          Consignee: this.mapParty(request.destination),
+          ShippingDateTime: this.toAramexDate(new Date()),
+          Comments: request.instructions || 'Handle with care - Spices',
+          Details: {
+            Dimensions: {
+              Length: request.dimensions.length,
+              Width: request.dimensions.width,
+              Height: request.dimensions.height,
+              Unit: 'CM',
+            },
+            ActualWeight: {
+              Unit: 'KG',
+              Value: request.weight / 1000,
+            },
+            ProductGroup: international ? 'EXP' : 'DOM',
+            ProductType: this.getProductType(request.method, international),
+            PaymentType: 'P',
+            NumberOfPieces: 1,
+            DescriptionOfGoods: 'Spices',
+            GoodsOriginCountry: request.origin.country,
+            CustomsValueAmount: international
+              ? { CurrencyCode: request.currency, Value: request.value }
+              : null,
+            Items: request.items.map(item => ({
+              PackageType: 'Box',
+              Quantity: item.quantity,
+              Weight: {
+                Unit: 'KG',
+                Value: (item.weight * item.quantity) / 1000,
+              },
+              Comments: item.name,
+              Reference: item.sku || item.id,
+            })),
+          },
+        }],
+        Transaction: {
+          Reference1: request.orderId,
+        },
+      });
+
+      const data = this.assertNoErrors(response.data);
+      const shipment = data.Shipments?.[0];
+
+      if (!shipment || shipment.HasErrors) {
+        throw new ShippingProviderError(
+          this.provider,
+          this.getNotificationMessage(shipment?.Notifications) || 'Shipment was not created',
+          shipment
+        );
+      }
+
+      return {
+        shipmentId: shipment.ID,
+        trackingNumber: shipment.ID,
+        status: 'pending',
+        provider: this.provider,
+        method: request.method,
+        cost: 0, // Billed to the account; Aramex does not return charges on creation
+        currency: request.currency,
+        estimatedDelivery: this.calculateDeliveryDate(request.method, international),
+        trackingUrl: this.getTrackingUrl(shipment.ID),
+        labelUrl: shipment.ShipmentLabel?.LabelURL,
+        metadata: {
+          aramexShipmentId: shipment.ID,
+          foreignHawb: shipment.ForeignHAWB,
+          productType: this.getProductType(request.method, international),
+        },
+      };
+    } catch (error: any) {
+      throw this.toShippingError(error);
+    }
+  }
+
+  async getShipmentStatus(shipmentId: string): Promise<ShippingResponse> {
+    try {
+      const updates = await this.fetchTracking(shipmentId);
+      const latest = updates[0];
+
+      return {
+        shipmentId,
+        trackingNumber: shipmentId,
+        status: latest ? this.mapAramexStatus(latest.UpdateCode) : 'pending',
+        provider: this.provider,
+        method: 'standard', // Not reported by tracking
+        cost: 0,
+        currency: '',
+        estimatedDelivery: '',
+        trackingUrl: this.getTrackingUrl(shipmentId),
+        metadata: {
+          updateCode: latest?.UpdateCode,
+          updateDescription: latest?.UpdateDescription,
+          updateLocation: latest?.UpdateLocation,
+        },
+      };
+    } catch (error: any) {
+      throw this.toShippingError(error);
+    }
+  }
+
+  async trackShipment(trackingNumber: string): Promise<ShippingUpdate[]> {
+    try {
+      const updates = await this.fetchTracking(trackingNumber);
+
+      return updates.map(update => this.toShippingUpdate(trackingNumber, update));
+    } catch (error: any) {
+      throw this.toShippingError(error);
+    }
+  }
+
+  async cancelShipment(shipmentId: string, reason?: string): Promise<boolean> {
+    try {
+      const response = await this.client.post('/Shipping/Service_1_0.svc/json/CancelShipment', {
+        ClientInfo: this.getClientInfo(),
+        ShipmentNumber: shipmentId,
+        Comments: reason || 'Customer requested cancellation',
+        Transaction: {
+          Reference1: shipmentId,
+        },
+      });
+
+      this.assertNoErrors(response.data);
+
+      return true;
+    } catch (error: any) {
+      throw this.toShippingError(error);
+    }
+  }
+
+  async getShippingRates(request: Partial<ShippingRequest>): Promise<ShippingRate[]> {
+    try {
+      const originCountry = request.origin?.country || this.region;
+      const destinationCountry = request.destination?.country || this.region;
+      const international = originCountry !== destinationCountry;
+      const methods: Array<'standard' | 'express'> = ['standard', 'express'];
+
+      // Aramex quotes one product type per call
+      return await Promise.all(methods.map(async (method) => {
+        const response = await this.client.post('/RateCalculator/Service_1_0.svc/json/CalculateRate', {
+          ClientInfo: this.getClientInfo(),
+          OriginAddress: {
+            City: request.origin?.city || '',
+            PostCode: request.origin?.postalCode || '',
+            CountryCode: originCountry,
+          },
+          DestinationAddress: {
+            City: request.destination?.city || '',
+            PostCode: request.destination?.postalCode || '',
+            CountryCode: destinationCountry,
+          },
+          ShipmentDetails: {
+            ActualWeight: {
+              Unit: 'KG',
+              Value: (request.weight || 1000) / 1000,
+            },
+            ProductGroup: international ? 'EXP' : 'DOM',
+            ProductType: this.getProductType(method, international),
+            PaymentType: 'P',
+            NumberOfPieces: 1,
+          },
+          PreferredCurrencyCode: request.currency,
+        });
+
+        const data = this.assertNoErrors(response.data);
+        const days = TRANSIT_DAYS[method][international ? 'international' : 'domestic'];
+
+        return {
+          method,
+          cost: data.TotalAmount.Value,
+          currency: data.TotalAmount.CurrencyCode,
+          estimatedDays: days,
+          description: `Aramex ${method === 'express' ? 'Priority' : 'Deferred'} - ${days} days`,
+          isAvailable: true,
+        };
+      }));
+    } catch (error: any) {
+      throw this.toShippingError(error);
+    }
+  }
+
+  async getLabel(shipmentId: string, format: LabelFormat): Promise<ShippingLabel | null> {
+    // Aramex only prints PDF labels
+    if (format !== 'pdf') {
+      return null;
+    }
+
+    try {
+      const response = await this.client.post('/Shipping/Service_1_0.svc/json/PrintLabel', {
+        ClientInfo: this.getClientInfo(),
+        ShipmentNumber: shipmentId,
+        LabelInfo: {
+          ReportID: 9729,
+          ReportType: 'URL',
+        },
+      });
+
+      const labelUrl = this.assertNoErrors(response.data).ShipmentLabel?.LabelURL;
+      if (!labelUrl) {
+        return null;
+      }
+
+      const label = await this.client.get(labelUrl, { responseType: 'arraybuffer' });
+
+      return {
+        format: 'pdf',
+        source: 'carrier',
+        content: Buffer.from(label.data),
+      };
+    } catch (error: any) {
+      throw this.toShippingError(error);
+    }
+  }
+
+  validateWebhook(payload: any, signature: string): boolean {
+    try {
+      const expectedSignature = crypto
+        .createHmac('sha256', this.config.credentials.webhookSecret)
+        .update(JSON.stringify(payload))
+        .digest('hex');
+
+      return crypto.timingSafeEqual(
+        Buffer.from(signature, 'utf8'),
+        Buffer.from(expectedSignature, 'utf8')
+      );
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async processWebhook(payload: any): Promise<ShippingWebhook> {
+    return {
+      id: payload.Id || crypto.randomUUID(),
+      provider: this.provider,
+      event: 'shipment.updated',
+      data: {
+        // Same shape as the other carriers so the webhook route can read it
+        shipment: {
+          id: payload.WaybillNumber,
+          status: this.mapAramexStatus(payload.UpdateCode),
+        },
+        // Aramex pushes one tracking update per call
+        updates: payload.UpdateDateTime ? [this.toShippingUpdate(payload.WaybillNumber, payload)] : [],
+        raw: payload,
+      },
+      signature: '',
+      timestamp: payload.UpdateDateTime ? this.fromAramexDate(payload.UpdateDateTime) : new Date().toISOString(),
+      processed: false,
+      retryCount: 0,
+    };
+  }
+
+  private async fetchTracking(trackingNumber: string): Promise<any[]> {
+    const response = await this.client.post('/Tracking/Service_1_0.svc/json/TrackShipments', {
+      ClientInfo: this.getClientInfo(),
+      Shipments: [trackingNumber],
+      GetLastTrackingUpdateOnly: false,
+    });
+
+    const data = this.assertNoErrors(response.data);
+    const result = data.TrackingResults?.find((entry: any) => entry.Key === trackingNumber);
+
+    if (!result) {
+      throw new ShippingError('SHIPMENT_NOT_FOUND', `Aramex has no shipment ${trackingNumber}`, this.provider);
+    }
+
+    // Newest update first
+    return [...result.Value].sort(
+      (a: any, b: any) => this.parseAramexDate(b.UpdateDateTime) - this.parseAramexDate(a.UpdateDateTime)
+    );
+  }
+
+  private getClientInfo() {
+    return {
+      UserName: this.config.credentials.apiKey,
+      Password: this.config.credentials.apiSecret,
+      Version: 'v1.0',
+      AccountNumber: this.config.credentials.accountNumber,
+      AccountPin: this.config.credentials.accountPin,
+      AccountEntity: this.getAccountEntity(),
+      AccountCountryCode: this.region,
+      Source: 24,
+    };
+  }
+
+  private mapParty(address: ShippingAddress) {
+    return {
+      PartyAddress: {
+        Line1: address.address1,
+        Line2: address.address2 || '',
+        City: address.city,
+        StateOrProvinceCode: address.state,
+        PostCode: address.postalCode,
+        CountryCode: address.country,
+      },
+      Contact: {
+        PersonName: address.name,
+        CompanyName: address.company || address.name,
+        PhoneNumber1: address.phone,
+        CellPhone: address.phone,
+        EmailAddress: address.email || '',
+      },
+    };
+  }
+
+  /**
+   * Aramex reports errors in the body with HTTP 200, on the response or on
+   * the individual shipments
+   */
+  private assertNoErrors(data: any): any {
+    if (data?.HasErrors) {
+      const shipmentNotifications = (data.Shipments || [])
+        .flatMap((shipment: any) => shipment?.Notifications || []);
+
+      throw new ShippingProviderError(
+        this.provider,
+        this.getNotificationMessage(data.Notifications)
+          || this.getNotificationMessage(shipmentNotifications)
+          || 'Aramex request failed',
+        data
+      );
+    }
+
+    return data;
+  }
+
+  private getNotificationMessage(notifications?: Array<{ Code: string; Message: string }>): string | undefined {
+    return notifications?.map(notification => `${notification.Code}: ${notification.Message}`).join('; ') || undefined;
+  }
+
+  private toShippingError(error: any): ShippingError {
+    if (error instanceof ShippingError) {
+      return error;
+    }
+
+    if (error.code === 'ECONNABORTED') {
+      return new ShippingTimeoutError(this.provider, this.config.settings.timeout);
+    }
+
+    return new ShippingProviderError(
+      this.provider,
+      this.getNotificationMessage(error.response?.data?.Notifications) || error.message,
+      error.response?.data
+    );
+  }
+
+  private toShippingUpdate(trackingNumber: string, update: any): ShippingUpdate {
+    return {
+      shipmentId: trackingNumber,
+      trackingNumber,
+      status: this.mapAramexStatus(update.UpdateCode),
+      carrierCode: update.UpdateCode,
+      location: update.UpdateLocation || '',
+      timestamp: this.fromAramexDate(update.UpdateDateTime),
+      description: update.UpdateDescription || 'Status update',
+      metadata: {
+        updateCode: update.UpdateCode,
+        comments: update.Comments,
+      },
+    };
+  }
+
+  private mapAramexStatus(updateCode: string): ShipmentStatus {
+    const statusMap: Record<string, ShipmentStatus> = {
+      'SH014': 'pending', // Record created
+      'SH012': 'in_transit', // Picked up
+      'SH047': 'in_transit', // Departed facility
+      'SH002': 'in_transit', // Received at destination
+      'SH003': 'out_for_delivery',
+      'SH005': 'delivered',
+      'SH006': 'delivered', // Collected by consignee
+      'SH008': 'failed', // Shipment lost or destroyed
+      'SH069': 'returned', // Returned to shipper
+    };
+
+    return statusMap[updateCode] || 'in_transit';
+  }
+
+  private getProductType(method: ShippingMethod, international: boolean): string {
+    const product = method === 'standard' || method === 'economy' ? PRODUCT_TYPES.standard : PRODUCT_TYPES.express;
+    return international ? product.international : product.domestic;
+  }
+
+  private getAccountEntity(): string {
+    const entityMap: Record<string, string> = {
+      'AE': 'DXB',
+      'QA': 'DOH',
+      'SA': 'RUH',
+      'OM': 'MCT',
+      'IN': 'BOM',
+    };
+
+    return entityMap[this.region] || 'DXB';
+  }
+
+  private toAramexDate(date: Date): string {
+    return `/Date(${date.getTime()})/`;
+  }
+
+  private parseAramexDate(value: string): number {
+    const match = /\/Date\((-?\d+)/.exec(value || '');
+    return match ? parseInt(match[1], 10) : Date.parse(value) || 0;
+  }
+
+  private fromAramexDate(value: string): string {
+    return new Date(this.parseAramexDate(value)).toISOString();
+  }
+
+  private calculateDeliveryDate(method: ShippingMethod, international: boolean): string {
+    const days = (method === 'standard' || method === 'economy' ? TRANSIT_DAYS.standard : TRANSIT_DAYS.express)[
+      international ? 'international' : 'domestic'
+    ];
+    const deliveryDate = new Date();
+    deliveryDate.setDate(deliveryDate.getDate() + days);
+
+    return deliveryDate.toISOString().split('T')[0];
+  }
+
+  private getTrackingUrl(trackingNumber: string): string {
+    return `https://www.aramex.com/track/results?ShipmentNumber=${trackingNumber}`;
+  }
+}
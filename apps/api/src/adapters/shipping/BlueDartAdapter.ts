@@ -0,0 +1,451 @@
+import crypto from 'crypto';
+import axios, { AxiosInstance } from 'axios';
+import {
+  ShippingConnector,
+  ShippingRequest,
+  ShippingResponse,
+  ShippingUpdate,
+  ShippingWebhook,
+  ShippingConfig,
+  ShippingError,
+  ShippingProviderError,
+  ShippingTimeoutError,
+  ShipmentStatus,
+  ShippingMethod,
+  ShippingProvider,
+  ShippingRate,
+} from '@newhill/shared/types/shipping';
+
+// Blue Dart products: Apex is air express, Surface is ground
+const PRODUCTS: Record<'express' | 'standard', { productCode: string; subProductCode: string; name: string }> = {
+  express: { productCode: 'A', subProductCode: 'P', name: 'Apex' },
+  standard: { productCode: 'E', subProductCode: 'P', name: 'Surface' },
+};
+
+// Blue Dart has no rate API; these are our contracted tariffs per 500 g slab, in INR
+const TARIFFS: Record<'express' | 'standard', { firstSlab: number; additionalSlab: number }> = {
+  express: { firstSlab: 90, additionalSlab: 60 },
+  standard: { firstSlab: 60, additionalSlab: 35 },
+};
+
+export class BlueDartAdapter implements ShippingConnector {
+  public readonly provider: ShippingProvider = 'blue_dart';
+  public readonly region: string;
+  private client: AxiosInstance;
+  private config: ShippingConfig;
+  private accessToken?: string;
+
+  constructor(config: ShippingConfig) {
+    this.config = config;
+    this.region = config.region;
+
+    this.client = axios.create({
+      baseURL: config.baseUrl || (config.mode === 'live'
+        ? 'https://apigateway.bluedart.com/in/transportation'
+        : 'https://apigateway-sandbox.bluedart.com/in/transportation'),
+      timeout: config.settings.timeout,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  async createShipment(request: ShippingRequest): Promise<ShippingResponse> {
+    try {
+      if (!this.accessToken) {
+        await this.authenticate();
+      }
+
+      const product = this.getProduct(request.method);
+
+      const response = await this.client.post('/waybill/v1/GenerateWayBill', {
+        Request: {
+          Consignee: {
+            ConsigneeName: request.destination.name,
+            ConsigneeAddress1: request.destination.address1,
+            ConsigneeAddress2: request.destination.address2 || '',
+            ConsigneeAddress3: `${request.destination.city}, ${request.destination.state}`,
+            ConsigneePincode: request.destination.postalCode,
+            ConsigneeMobile: request.destination.phone,
+            ConsigneeEmailID: request.destination.email || '',
+          },
+          Shipper: {
+            CustomerCode: this.config.credentials.accountNumber,
+            CustomerName: 'Newhill Spices',
+            CustomerAddress1: request.origin.address1,
+            CustomerAddress2: request.origin.address2 || '',
+            CustomerPincode: request.origin.postalCode,
+            CustomerMobile: request.origin.phone,
+            Sender: request.origin.name,
+            IsToPayCustomer: false,
+          },
+          Services: {
+            ProductCode: product.productCode,
+            SubProductCode: product.subProductCode,
+            ActualWeight: request.weight / 1000,
+            PieceCount: 1,
+            DeclaredValue: request.value,
+            CreditReferenceNo: request.orderId,
+            PickupDate: this.toBlueDartDate(new Date()),
+            PickupTime: '1600',
+            SpecialInstruction: request.instructions || 'Handle with care - Spices',
+            Dimensions: [{
+              Length: request.dimensions.length,
+              Breadth: request.dimensions.width,
+              Height: request.dimensions.height,
+              Count: 1,
+            }],
+            itemdtl: request.items.map(item => ({
+              ItemName: item.name,
+              Itemquantity: item.quantity,
+              ItemValue: item.value,
+              SKUNumber: item.sku || item.id,
+              HSCode: '0909', // Spices HSN code
+            })),
+          },
+        },
+        Profile: this.getProfile(),
+      }, {
+        headers: { JWTToken: this.accessToken },
+      });
+
+      const result = response.data.GenerateWayBillResult;
+      this.assertNoErrors(result);
+
+      return {
+        shipmentId: result.AWBNo,
+        trackingNumber: result.AWBNo,
+        status: 'pending',
+        provider: this.provider,
+        method: request.method,
+        cost: this.calculateTariff(request.method, request.weight),
+        currency: 'INR',
+        estimatedDelivery: this.calculateDeliveryDate(request.method),
+        trackingUrl: this.getTrackingUrl(result.AWBNo),
+        metadata: {
+          destinationArea: result.DestinationArea,
+          destinationLocation: result.DestinationLocation,
+          tokenNumber: result.TokenNumber,
+          product: product.name,
+        },
+      };
+    } catch (error: any) {
+      throw this.toShippingError(error);
+    }
+  }
+
+  async getShipmentStatus(shipmentId: string): Promise<ShippingResponse> {
+    try {
+      const shipment = await this.fetchTracking(shipmentId);
+
+      return {
+        shipmentId,
+        trackingNumber: shipment.WaybillNo,
+        status: this.mapBlueDartStatus(shipment.StatusType),
+        provider: this.provider,
+        method: shipment.Prodcode === PRODUCTS.standard.productCode ? 'standard' : 'express',
+        cost: 0,
+        currency: 'INR',
+        estimatedDelivery: shipment.ExpectedDeliveryDate || '',
+        trackingUrl: this.getTrackingUrl(shipment.WaybillNo),
+        metadata: {
+          status: shipment.Status,
+          statusType: shipment.StatusType,
+          receivedBy: shipment.ReceivedBy,
+        },
+      };
+    } catch (error: any) {
+      throw this.toShippingError(error);
+    }
+  }
+
+  async trackShipment(trackingNumber: string): Promise<ShippingUpdate[]> {
+    try {
+      const shipment = await this.fetchTracking(trackingNumber);
+
+      return this.toShippingUpdates(trackingNumber, shipment);
+    } catch (error: any) {
+      throw this.toShippingError(error);
+    }
+  }
+
+  async cancelShipment(shipmentId: string, reason?: string): Promise<boolean> {
+    try {
+      if (!this.accessToken) {
+        await this.authenticate();
+      }
+
+      const response = await this.client.post('/waybill/v1/CancelWaybill', {
+        Request: {
+          AWBNo: shipmentId,
+          Remarks: reason || 'Customer requested cancellation',
+        },
+        Profile: this.getProfile(),
+      }, {
+        headers: { JWTToken: this.accessToken },
+      });
+
+      this.assertNoErrors(response.data.CancelWaybillResult);
+
+      return true;
+    } catch (error: any) {
+      throw this.toShippingError(error);
+    }
+  }
+
+  async getShippingRates(request: Partial<ShippingRequest>): Promise<ShippingRate[]> {
+    try {
+      if (!this.accessToken) {
+        await this.authenticate();
+      }
+
+      const methods: Array<'express' | 'standard'> = ['express', 'standard'];
+      const pickupDate = new Date();
+
+      // Transit times decide whether each product serves the pincode
+      return await Promise.all(methods.map(async (method) => {
+        const product = PRODUCTS[method];
+
+        const response = await this.client.post('/transittime/v1/GetDomesticTransitTimeForPinCodeandProduct', {
+          pPinCodeFrom: request.origin?.postalCode || '400001',
+          pPinCodeTo: request.destination?.postalCode || '400001',
+          pProductCode: product.productCode,
+          pSubProductCode: product.subProductCode,
+          pPudate: this.toBlueDartDate(pickupDate),
+          pPickupTime: '16:00',
+          profile: this.getProfile(),
+        }, {
+          headers: { JWTToken: this.accessToken },
+        });
+
+        const result = response.data.GetDomesticTransitTimeForPinCodeandProductResult;
+        const available = !result.IsError;
+        const days = available ? this.daysUntil(pickupDate, result.ExpectedDateDelivery) : 0;
+
+        return {
+          method,
+          cost: this.calculateTariff(method, request.weight || 1000),
+          currency: 'INR',
+          estimatedDays: days,
+          description: available
+            ? `Blue Dart ${product.name} - ${days} days`
+            : `Blue Dart ${product.name} - ${result.ErrorMessage || 'not serviceable'}`,
+          isAvailable: available,
+        };
+      }));
+    } catch (error: any) {
+      throw this.toShippingError(error);
+    }
+  }
+
+  validateWebhook(payload: any, signature: string): boolean {
+    try {
+      const expectedSignature = crypto
+        .createHmac('sha256', this.config.credentials.webhookSecret)
+        .update(JSON.stringify(payload))
+        .digest('hex');
+
+      return crypto.timingSafeEqual(
+        Buffer.from(signature, 'utf8'),
+        Buffer.from(expectedSignature, 'utf8')
+      );
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async processWebhook(payload: any): Promise<ShippingWebhook> {
+    const shipment = payload.statustracking?.[0]?.Shipment || payload.Shipment || {};
+
+    return {
+      id: payload.id || crypto.randomUUID(),
+      provider: this.provider,
+      event: 'shipment.updated',
+      data: {
+        // Same shape as the other carriers so the webhook route can read it
+        shipment: {
+          id: shipment.WaybillNo,
+          status: this.mapBlueDartStatus(shipment.StatusType),
+        },
+        updates: this.toShippingUpdates(shipment.WaybillNo, shipment),
+        raw: payload,
+      },
+      signature: '',
+      timestamp: new Date().toISOString(),
+      processed: false,
+      retryCount: 0,
+    };
+  }
+
+  private async authenticate(): Promise<void> {
+    try {
+      const response = await this.client.get('/token/v1/login', {
+        headers: {
+          ClientID: this.config.credentials.apiKey,
+          clientSecret: this.config.credentials.apiSecret,
+        },
+      });
+
+      this.accessToken = response.data.JWTToken;
+    } catch (error: any) {
+      throw new ShippingProviderError(
+        this.provider,
+        'Authentication failed',
+        error.response?.data
+      );
+    }
+  }
+
+  private async fetchTracking(trackingNumber: string): Promise<any> {
+    if (!this.accessToken) {
+      await this.authenticate();
+    }
+
+    const response = await this.client.get('/tracking/v1/shipment', {
+      headers: { JWTToken: this.accessToken },
+      params: {
+        handler: 'tnt',
+        action: 'custawbquery',
+        loginid: this.config.credentials.accountNumber,
+        lickey: this.config.credentials.accountPin,
+        awb: 'awb',
+        numbers: trackingNumber,
+        format: 'json',
+        scan: 1,
+        verno: 1,
+      },
+    });
+
+    const shipment = response.data.ShipmentData?.Shipment?.[0];
+    if (!shipment || shipment.StatusType === 'NF') {
+      throw new ShippingError('SHIPMENT_NOT_FOUND', `Blue Dart has no shipment ${trackingNumber}`, this.provider);
+    }
+
+    return shipment;
+  }
+
+  private getProfile() {
+    return {
+      LoginID: this.config.credentials.accountNumber,
+      LicenceKey: this.config.credentials.accountPin,
+      Api_type: 'S',
+    };
+  }
+
+  /**
+   * Blue Dart reports errors in the body with HTTP 200
+   */
+  private assertNoErrors(result: any): void {
+    if (!result || result.IsError) {
+      const message = result?.Status
+        ?.map((status: { StatusCode: string; StatusInformation: string }) => `${status.StatusCode}: ${status.StatusInformation}`)
+        .join('; ');
+
+      throw new ShippingProviderError(this.provider, message || 'Blue Dart request failed', result);
+    }
+  }
+
+  private toShippingError(error: any): ShippingError {
+    if (error instanceof ShippingError) {
+      return error;
+    }
+
+    if (error.code === 'ECONNABORTED') {
+      return new ShippingTimeoutError(this.provider, this.config.settings.timeout);
+    }
+
+    // An expired token is fetched again on the next call
+    if (error.response?.status === 401) {
+      this.accessToken = undefined;
+    }
+
+    return new ShippingProviderError(
+      this.provider,
+      error.response?.data?.title || error.message,
+      error.response?.data
+    );
+  }
+
+  private toShippingUpdates(trackingNumber: string, shipment: any): ShippingUpdate[] {
+    return (shipment.Scans || []).map((entry: any) => {
+      const scan = entry.ScanDetail;
+
+      return {
+        shipmentId: trackingNumber,
+        trackingNumber,
+        status: this.mapBlueDartStatus(scan.ScanType),
+        carrierCode: scan.ScanType,
+        location: scan.ScannedLocation || '',
+        timestamp: this.parseScanTime(scan.ScanDate, scan.ScanTime),
+        description: scan.Scan || 'Status update',
+        metadata: {
+          scanCode: scan.ScanCode,
+        },
+      };
+    });
+  }
+
+  private mapBlueDartStatus(statusType: string): ShipmentStatus {
+    const statusMap: Record<string, ShipmentStatus> = {
+      'PU': 'in_transit', // Picked up
+      'IT': 'in_transit',
+      'UD': 'in_transit', // Undelivered; Blue Dart attempts again
+      'OD': 'out_for_delivery',
+      'DL': 'delivered',
+      'RT': 'returned',
+      'RD': 'returned', // Returned to shipper
+    };
+
+    return statusMap[statusType] || 'pending';
+  }
+
+  private getProduct(method: ShippingMethod) {
+    return method === 'standard' || method === 'economy' ? PRODUCTS.standard : PRODUCTS.express;
+  }
+
+  private calculateTariff(method: ShippingMethod, weight: number): number {
+    const tariff = method === 'standard' || method === 'economy' ? TARIFFS.standard : TARIFFS.express;
+    const slabs = Math.max(1, Math.ceil(weight / 500));
+
+    return tariff.firstSlab + (slabs - 1) * tariff.additionalSlab;
+  }
+
+  private toBlueDartDate(date: Date): string {
+    return `/Date(${date.getTime()})/`;
+  }
+
+  private daysUntil(from: Date, blueDartDate: string): number {
+    const match = /\/Date\((\d+)/.exec(blueDartDate || '');
+    const to = match ? parseInt(match[1], 10) : Date.parse(blueDartDate);
+
+    return Math.max(1, Math.ceil((to - from.getTime()) / (24 * 60 * 60 * 1000)));
+  }
+
+  /**
+   * Scans are reported as "17-Jan-2024" and "14:35" in India time
+   */
+  private parseScanTime(date: string, time: string): string {
+    const parsed = new Date(`${date} ${time} GMT+0530`);
+    return isNaN(parsed.getTime()) ? new Date().toISOString() : parsed.toISOString();
+  }
+
+  private calculateDeliveryDate(method: string): string {
+    const days = {
+      'standard': 4,
+      'express': 2,
+      'overnight': 1,
+      'economy': 5,
+      'priority': 1,
+    };
+
+    const deliveryDays = days[method as keyof typeof days] || 4;
+    const deliveryDate = new Date();
+    deliveryDate.setDate(deliveryDate.getDate() + deliveryDays);
+
+    return deliveryDate.toISOString().split('T')[0];
+  }
+
+  private getTrackingUrl(trackingNumber: string): string {
+    return `https://www.bluedart.com/tracking?trackFor=0&trackNo=${trackingNumber}`;
+  }
+}
@@ -0,0 +1,474 @@
+import crypto from 'crypto';
+import axios, { AxiosInstance } from 'axios';
+import {
+  ShippingConnector,
+  ShippingRequest,
+  ShippingResponse,
+  ShippingUpdate,
+  ShippingWebhook,
+  ShippingConfig,
+  ShippingAddress,
+  ShippingError,
+  ShippingProviderError,
+  ShippingTimeoutError,
+  ShipmentStatus,
+  ShippingMethod,
+  ShippingProvider,
+  ShippingRate,
+  ShippingLabel,
+  LabelFormat,
+} from '@newhill/shared/types/shipping';
+
+// MyDHL product codes: N is domestic express, P is Express Worldwide (non-documents)
+const PRODUCT_METHODS: Record<string, ShippingMethod> = {
+  'N': 'express',
+  'P': 'express',
+  'Y': 'priority', // Express 12:00
+  'K': 'overnight', // Express 9:00
+  'H': 'economy', // Economy Select
+  'W': 'economy',
+};
+
+export class DHLExpressAdapter implements ShippingConnector {
+  public readonly provider: ShippingProvider = 'dhl';
+  public readonly region: string;
+  private client: AxiosInstance;
+  private config: ShippingConfig;
+
+  constructor(config: ShippingConfig) {
+    this.config = config;
+    this.region = config.region;
+
+    this.client = axios.create({
+      baseURL: config.baseUrl || (config.mode === 'live'
+        ? 'https://express.api.dhl.com/mydhlapi'
+        : 'https://express.api.dhl.com/mydhlapi/test'),
+      timeout: config.settings.timeout,
+      auth: {
+        username: config.credentials.apiKey,
+        password: config.credentials.apiSecret,
+      },
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+    });
+  }
+
+  async createShipment(request: ShippingRequest): Promise<ShippingResponse> {
+    try {
+      const international = request.origin.country !== request.destination.country;
+
+      const response = await this.client.post('/shipments', {
+        plannedShippingDateAndTime: this.toDhlDateTime(new Date()),
+        pickup: {
+          isRequested: false,
+        },
+        productCode: this.getProductCode(request.method, international),
+        accounts: [{
+          typeCode: 'shipper',
+          number: this.config.credentials.accountNumber,
+        }],
+        outputImageProperties: {
+          imageOptions: [{
+            typeCode: 'label',
+            templateName: 'ECOM26_84_001',
+          }],
+        },
+        customerDetails: {
+          shipperDetails: this.mapParty(request.origin),
+          receiverDetails: this.mapParty(request.destination),
+        },
+        content: {
+          packages: [{
+            weight: request.weight / 1000,
+            dimensions: {
+              length: request.dimensions.length,
+              width: request.dimensions.width,
+              height: request.dimensions.height,
+            },
+            customerReferences: [{
+              value: request.orderId,
+              typeCode: 'CU',
+            }],
+          }],
+          isCustomsDeclarable: international,
+          declaredValue: request.value,
+          declaredValueCurrency: request.currency,
+          description: 'Spices',
+          incoterm: 'DAP',
+          unitOfMeasurement: 'metric',
+          ...(international && {
+            exportDeclaration: {
+              lineItems: request.items.map((item, index) => ({
+                number: index + 1,
+                description: item.name,
+                price: item.value,
+                quantity: {
+                  value: item.quantity,
+                  unitOfMeasurement: 'PCS',
+                },
+                commodityCodes: [{
+                  typeCode: 'outbound',
+                  value: '0909', // Spices HSN code
+                }],
+                exportReasonType: 'permanent',
+                manufacturerCountry: request.origin.country,
+                weight: {
+                  netValue: (item.weight * item.quantity) / 1000,
+                  grossValue: (item.weight * item.quantity) / 1000,
+                },
+              })),
+            },
+          }),
+        },
+        customerReferences: [{
+          value: request.orderId,
+          typeCode: 'CU',
+        }],
+      });
+
+      const shipment = response.data;
+      const charge = this.getBilledPrice(shipment.shipmentCharges);
+
+      return {
+        shipmentId: shipment.shipmentTrackingNumber,
+        trackingNumber: shipment.shipmentTrackingNumber,
+        status: 'pending',
+        provider: this.provider,
+        method: request.method,
+        cost: charge?.price || 0,
+        currency: charge?.priceCurrency || request.currency,
+        estimatedDelivery: shipment.estimatedDeliveryDate?.estimatedDeliveryDate
+          || this.calculateDeliveryDate(request.method),
+        trackingUrl: shipment.trackingUrl || this.getTrackingUrl(shipment.shipmentTrackingNumber),
+        metadata: {
+          dispatchConfirmationNumber: shipment.dispatchConfirmationNumber,
+          packageTrackingNumbers: shipment.packages?.map((pkg: any) => pkg.trackingNumber),
+          labelFormat: shipment.documents?.find((document: any) => document.typeCode === 'label')?.imageFormat,
+        },
+      };
+    } catch (error: any) {
+      throw this.toShippingError(error);
+    }
+  }
+
+  async getShipmentStatus(shipmentId: string): Promise<ShippingResponse> {
+    try {
+      const shipment = await this.fetchTracking(shipmentId);
+      const events = this.sortEvents(shipment.events || []);
+
+      return {
+        shipmentId,
+        trackingNumber: shipment.shipmentTrackingNumber,
+        status: this.mapDhlStatus(shipment.status, events[0]?.typeCode),
+        provider: this.provider,
+        method: 'express',
+        cost: 0,
+        currency: '',
+        estimatedDelivery: shipment.estimatedDeliveryDate || '',
+        trackingUrl: this.getTrackingUrl(shipment.shipmentTrackingNumber),
+        metadata: {
+          status: shipment.status,
+          lastEvent: events[0]?.description,
+        },
+      };
+    } catch (error: any) {
+      throw this.toShippingError(error);
+    }
+  }
+
+  async trackShipment(trackingNumber: string): Promise<ShippingUpdate[]> {
+    try {
+      const shipment = await this.fetchTracking(trackingNumber);
+
+      return this.sortEvents(shipment.events || []).map((event: any) => this.toShippingUpdate(trackingNumber, event));
+    } catch (error: any) {
+      throw this.toShippingError(error);
+    }
+  }
+
+  async cancelShipment(shipmentId: string, reason?: string): Promise<boolean> {
+    try {
+      await this.client.delete(`/shipments/${shipmentId}`, {
+        params: {
+          requestorName: 'Newhill Spices',
+          reason: reason || 'Customer requested cancellation',
+        },
+      });
+
+      return true;
+    } catch (error: any) {
+      throw this.toShippingError(error);
+    }
+  }
+
+  async getShippingRates(request: Partial<ShippingRequest>): Promise<ShippingRate[]> {
+    try {
+      const originCountry = request.origin?.country || this.region;
+      const destinationCountry = request.destination?.country || this.region;
+
+      const response = await this.client.get('/rates', {
+        params: {
+          accountNumber: this.config.credentials.accountNumber,
+          originCountryCode: originCountry,
+          originPostalCode: request.origin?.postalCode || '',
+          originCityName: request.origin?.city || '',
+          destinationCountryCode: destinationCountry,
+          destinationPostalCode: request.destination?.postalCode || '',
+          destinationCityName: request.destination?.city || '',
+          weight: (request.weight || 1000) / 1000,
+          length: request.dimensions?.length || 30,
+          width: request.dimensions?.width || 20,
+          height: request.dimensions?.height || 15,
+          plannedShippingDate: new Date().toISOString().split('T')[0],
+          isCustomsDeclarable: originCountry !== destinationCountry,
+          unitOfMeasurement: 'metric',
+        },
+      });
+
+      // Several DHL products can map to one method; offer the cheapest of each
+      const byMethod = new Map<ShippingMethod, ShippingRate>();
+
+      for (const product of response.data.products || []) {
+        const method = PRODUCT_METHODS[product.productCode];
+        const price = this.getBilledPrice(product.totalPrice);
+
+        if (!method || !price) {
+          continue;
+        }
+
+        const days = product.deliveryCapabilities?.totalTransitDays || 3;
+        const rate: ShippingRate = {
+          method,
+          cost: price.price,
+          currency: price.priceCurrency,
+          estimatedDays: days,
+          description: `DHL ${product.productName} - ${days} days`,
+          isAvailable: true,
+        };
+
+        const existing = byMethod.get(method);
+        if (!existing || rate.cost < existing.cost) {
+          byMethod.set(method, rate);
+        }
+      }
+
+      return Array.from(byMethod.values());
+    } catch (error: any) {
+      throw this.toShippingError(error);
+    }
+  }
+
+  async getLabel(shipmentId: string, format: LabelFormat): Promise<ShippingLabel | null> {
+    // Shipments are created with PDF labels, so that is the only format DHL holds
+    if (format !== 'pdf') {
+      return null;
+    }
+
+    try {
+      const response = await this.client.get(`/shipments/${shipmentId}/get-image`, {
+        params: {
+          shipperAccountNumber: this.config.credentials.accountNumber,
+          typeCode: 'label',
+          pickupYearAndMonth: new Date().toISOString().slice(0, 7),
+        },
+      });
+
+      const label = response.data.documents?.find((document: any) => document.typeCode === 'label');
+      if (!label?.content) {
+        return null;
+      }
+
+      return {
+        format: 'pdf',
+        source: 'carrier',
+        content: Buffer.from(label.content, 'base64'),
+      };
+    } catch (error: any) {
+      throw this.toShippingError(error);
+    }
+  }
+
+  /**
+   * DHL signs push notifications with a base64 HMAC-SHA256 of the body
+   */
+  validateWebhook(payload: any, signature: string): boolean {
+    try {
+      const expectedSignature = crypto
+        .createHmac('sha256', this.config.credentials.webhookSecret)
+        .update(JSON.stringify(payload))
+        .digest('base64');
+
+      return crypto.timingSafeEqual(
+        Buffer.from(signature, 'utf8'),
+        Buffer.from(expectedSignature, 'utf8')
+      );
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async processWebhook(payload: any): Promise<ShippingWebhook> {
+    const shipment = payload.shipments?.[0] || payload;
+    const events = this.sortEvents(shipment.events || []);
+
+    return {
+      id: payload.id || crypto.randomUUID(),
+      provider: this.provider,
+      event: 'shipment.updated',
+      data: {
+        // Same shape as the other carriers so the webhook route can read it
+        shipment: {
+          id: shipment.shipmentTrackingNumber,
+          status: this.mapDhlStatus(shipment.status, events[0]?.typeCode),
+        },
+        updates: events.map((event: any) => this.toShippingUpdate(shipment.shipmentTrackingNumber, event)),
+        raw: payload,
+      },
+      signature: '',
+      timestamp: new Date().toISOString(),
+      processed: false,
+      retryCount: 0,
+    };
+  }
+
+  private async fetchTracking(trackingNumber: string): Promise<any> {
+    const response = await this.client.get(`/shipments/${trackingNumber}/tracking`, {
+      params: {
+        trackingView: 'all-checkpoints',
+        levelOfDetail: 'all',
+      },
+      // DHL answers 404 for a tracking number it does not know
+      validateStatus: status => status < 400 || status === 404,
+    });
+
+    const shipment = response.data?.shipments?.[0];
+    if (!shipment) {
+      throw new ShippingError('SHIPMENT_NOT_FOUND', `DHL has no shipment ${trackingNumber}`, this.provider);
+    }
+
+    return shipment;
+  }
+
+  private mapParty(address: ShippingAddress) {
+    return {
+      postalAddress: {
+        postalCode: address.postalCode,
+        cityName: address.city,
+        countryCode: address.country,
+        provinceCode: address.state,
+        addressLine1: address.address1,
+        ...(address.address2 && { addressLine2: address.address2 }),
+      },
+      contactInformation: {
+        phone: address.phone,
+        companyName: address.company || address.name,
+        fullName: address.name,
+        ...(address.email && { email: address.email }),
+      },
+    };
+  }
+
+  /**
+   * Newest event first
+   */
+  private sortEvents(events: any[]): any[] {
+    return [...events].sort((a, b) => `${b.date}T${b.time}`.localeCompare(`${a.date}T${a.time}`));
+  }
+
+  /**
+   * The amount billed to our account, out of the charges DHL lists per party
+   */
+  private getBilledPrice(prices?: Array<{ currencyType: string; priceCurrency: string; price: number }>) {
+    return prices?.find(price => price.currencyType === 'BILLC') || prices?.[0];
+  }
+
+  private toShippingError(error: any): ShippingError {
+    if (error instanceof ShippingError) {
+      return error;
+    }
+
+    if (error.code === 'ECONNABORTED') {
+      return new ShippingTimeoutError(this.provider, this.config.settings.timeout);
+    }
+
+    return new ShippingProviderError(
+      this.provider,
+      error.response?.data?.detail || error.message,
+      error.response?.data
+    );
+  }
+
+  private toShippingUpdate(trackingNumber: string, event: any): ShippingUpdate {
+    return {
+      shipmentId: trackingNumber,
+      trackingNumber,
+      status: this.mapDhlStatus(undefined, event.typeCode),
+      carrierCode: event.typeCode,
+      location: event.serviceArea?.[0]?.description || '',
+      timestamp: new Date(`${event.date}T${event.time}`).toISOString(),
+      description: event.description || 'Status update',
+      metadata: {
+        typeCode: event.typeCode,
+      },
+    };
+  }
+
+  private mapDhlStatus(status: string | undefined, lastEventCode: string | undefined): ShipmentStatus {
+    const eventMap: Record<string, ShipmentStatus> = {
+      'PU': 'in_transit', // Picked up
+      'WC': 'out_for_delivery', // With delivery courier
+      'OK': 'delivered',
+      'RT': 'returned',
+    };
+
+    const statusMap: Record<string, ShipmentStatus> = {
+      'pre-transit': 'pending',
+      'transit': 'in_transit',
+      'delivered': 'delivered',
+      'failure': 'failed',
+    };
+
+    return (lastEventCode && eventMap[lastEventCode])
+      || (status && statusMap[status])
+      || (lastEventCode ? 'in_transit' : 'pending');
+  }
+
+  private getProductCode(method: ShippingMethod, international: boolean): string {
+    if (method === 'overnight') {
+      return 'K';
+    }
+
+    if (method === 'priority') {
+      return 'Y';
+    }
+
+    return international ? 'P' : 'N';
+  }
+
+  private toDhlDateTime(date: Date): string {
+    // MyDHL wants local time with an offset; UTC is accepted as GMT+00:00
+    return `${date.toISOString().split('.')[0]} GMT+00:00`;
+  }
+
+  private calculateDeliveryDate(method: string): string {
+    const days = {
+      'standard': 3,
+      'express': 2,
+      'overnight': 1,
+      'economy': 5,
+      'priority': 1,
+    };
+
+    const deliveryDays = days[method as keyof typeof days] || 3;
+    const deliveryDate = new Date();
+    deliveryDate.setDate(deliveryDate.getDate() + deliveryDays);
+
+    return deliveryDate.toISOString().split('T')[0];
+  }
+
+  private getTrackingUrl(trackingNumber: string): string {
+    return `https://www.dhl.com/global-en/home/tracking/tracking-express.html?tracking-id=${trackingNumber}`;
+  }
+}
@@ -2,14 +2,26 @@ import {
   ShippingConnector,
   ShippingConfig,
   ShippingProvider,
-  REGION_CONFIGS,
 } from '@newhill/shared/types/shipping';
+import { REGION_CONFIGS } from '@newhill/shared/types/payment';
 import { ShiprocketAdapter } from './ShiprocketAdapter';
 import { GCCLogisticsAdapter } from './GCCLogisticsAdapter';
+import { AramexAdapter } from './AramexAdapter';
+import { DHLExpressAdapter } from './DHLExpressAdapter';
+import { BlueDartAdapter } from './BlueDartAdapter';
 
 export class ShippingAdapterFactory {
   private static adapters: Map<string, ShippingConnector> = new Map();
 
+  // Carriers with an adapter and the regions each one ships to
+  private static providerRegions: Partial<Record<ShippingProvider, string[]>> = {
+    shiprocket: ['IN'],
+    gcc_logistics: ['QA', 'AE', 'SA', 'OM'],
+    aramex: ['AE', 'QA', 'SA', 'OM', 'IN'],
+    dhl: ['IN', 'QA', 'AE', 'SA', 'OM'],
+    blue_dart: ['IN'],
+  };
+
   static createAdapter(region: string, config: ShippingConfig): ShippingConnector {
     const cacheKey = `${region}_${config.provider}_${config.mode}`;
     
@@ -31,6 +43,15 @@ export class ShippingAdapterFactory {
       case 'gcc_logistics':
         adapter = new GCCLogisticsAdapter(config);
         break;
+      case 'aramex':
+        adapter = new AramexAdapter(config);
+        break;
+      case 'dhl':
+        adapter = new DHLExpressAdapter(config);
+        break;
+      case 'blue_dart':
+        adapter = new BlueDartAdapter(config);
+        break;
       default:
         throw new Error(`Unsupported shipping provider: ${config.provider}`);
     }
@@ -45,11 +66,37 @@ export class ShippingAdapterFactory {
       throw new Error(`Unsupported region: ${region}`);
     }
 
+    return this.getProviderAdapter(regionConfig.shippingProvider as ShippingProvider, region, mode);
+  }
+
+  /**
+   * Every carrier that can ship to a region, starting with the region's
+   * default carrier. Used for rate shopping.
+   */
+  static getAdaptersForRegion(region: string, mode: 'sandbox' | 'live' = 'sandbox'): ShippingConnector[] {
+    const regionConfig = REGION_CONFIGS[region];
+    if (!regionConfig) {
+      throw new Error(`Unsupported region: ${region}`);
+    }
+
+    const providers = (Object.keys(this.providerRegions) as ShippingProvider[])
+      .filter(provider => this.providerRegions[provider]!.includes(region))
+      .sort((a, b) => Number(b === regionConfig.shippingProvider) - Number(a === regionConfig.shippingProvider));
+
+    return providers.map(provider => this.getProviderAdapter(provider, region, mode));
+  }
+
+  static getProviderAdapter(provider: ShippingProvider, region: string, mode: 'sandbox' | 'live' = 'sandbox'): ShippingConnector {
+    const regionConfig = REGION_CONFIGS[region];
+    if (!regionConfig) {
+      throw new Error(`Unsupported region: ${region}`);
+    }
+
     const config: ShippingConfig = {
-      provider: regionConfig.shippingProvider as ShippingProvider,
+      provider,
       region: regionConfig.code,
       mode,
-      credentials: this.getCredentials(regionConfig.shippingProvider as ShippingProvider, mode),
+      credentials: this.getCredentials(provider, mode),
       settings: {
         timeout: 30000, // 30 seconds
         retryAttempts: 3,
@@ -74,11 +121,7 @@ export class ShippingAdapterFactory {
     return Array.from(new Set(Object.values(REGION_CONFIGS).map(config => config.shippingProvider as ShippingProvider)));
   }
 
-  private static getCredentials(provider: ShippingProvider, mode: 'sandbox' | 'live'): {
-    apiKey: string;
-    apiSecret: string;
-    webhookSecret: string;
-  } {
+  private static getCredentials(provider: ShippingProvider, mode: 'sandbox' | 'live'): ShippingConfig['credentials'] {
     const envPrefix = mode === 'live' ? '' : 'SANDBOX_';
     
     switch (provider) {
@@ -94,6 +137,29 @@ export class ShippingAdapterFactory {
           apiSecret: process.env[`${envPrefix}GCC_LOGISTICS_API_SECRET`] || 'gcc_test_api_secret',
           webhookSecret: process.env[`${envPrefix}GCC_LOGISTICS_WEBHOOK_SECRET`] || 'gcc_test_webhook_secret',
         };
+      case 'aramex':
+        return {
+          apiKey: process.env[`${envPrefix}ARAMEX_USERNAME`] || 'testingapi@aramex.com',
+          apiSecret: process.env[`${envPrefix}ARAMEX_PASSWORD`] || 'aramex_test_password',
+          webhookSecret: process.env[`${envPrefix}ARAMEX_WEBHOOK_SECRET`] || 'aramex_test_webhook_secret',
+          accountNumber: process.env[`${envPrefix}ARAMEX_ACCOUNT_NUMBER`] || '20016',
+          accountPin: process.env[`${envPrefix}ARAMEX_ACCOUNT_PIN`] || '331421',
+        };
+      case 'dhl':
+        return {
+          apiKey: process.env[`${envPrefix}DHL_API_KEY`] || 'dhl_test_api_key',
+          apiSecret: process.env[`${envPrefix}DHL_API_SECRET`] || 'dhl_test_api_secret',
+          webhookSecret: process.env[`${envPrefix}DHL_WEBHOOK_SECRET`] || 'dhl_test_webhook_secret',
+          accountNumber: process.env[`${envPrefix}DHL_ACCOUNT_NUMBER`] || '123456789',
+        };
+      case 'blue_dart':
+        return {
+          apiKey: process.env[`${envPrefix}BLUE_DART_CLIENT_ID`] || 'bluedart_test_client_id',
+          apiSecret: process.env[`${envPrefix}BLUE_DART_CLIENT_SECRET`] || 'bluedart_test_client_secret',
+          webhookSecret: process.env[`${envPrefix}BLUE_DART_WEBHOOK_SECRET`] || 'bluedart_test_webhook_secret',
+          accountNumber: process.env[`${envPrefix}BLUE_DART_LOGIN_ID`] || 'BOM00001',
+          accountPin: process.env[`${envPrefix}BLUE_DART_LICENCE_KEY`] || 'bluedart_test_licence_key',
+        };
       default:
         throw new Error(`Unknown shipping provider: ${provider}`);
     }
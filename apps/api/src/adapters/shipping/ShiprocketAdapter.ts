@@ -74,8 +74,9 @@ export class ShiprocketAdapter implements ShippingConnector {
           tax: 0,
           hsn: '0909', // Spices HSN code
         })),
-        payment_method: 'Prepaid',
-        sub_total: request.value,
+        payment_method: request.codAmount ? 'COD' : 'Prepaid',
+        // For COD orders this is what the courier collects from the customer
+        sub_total: request.codAmount || request.value,
         length: request.dimensions.length,
         breadth: request.dimensions.width,
         height: request.dimensions.height,
@@ -191,6 +192,7 @@ export class ShiprocketAdapter implements ShippingConnector {
         shipmentId: trackingData.order_id?.toString() || '',
         trackingNumber,
         status: this.mapShiprocketStatus(update.status),
+        carrierCode: update.status,
         location: update.location || '',
         timestamp: update.time || new Date().toISOString(),
         description: update.status || 'Status update',
@@ -285,6 +287,45 @@ export class ShiprocketAdapter implements ShippingConnector {
     }
   }
 
+  async checkCodServiceability(request: Partial<ShippingRequest>): Promise<boolean> {
+    try {
+      if (!this.accessToken) {
+        await this.authenticate();
+      }
+
+      const response = await this.client.get('/courier/serviceability/', {
+        params: {
+          pickup_postcode: request.origin?.postalCode || '400001',
+          delivery_postcode: request.destination?.postalCode,
+          weight: (request.weight || 1000) / 1000, // Convert to kg
+          cod: 1,
+        },
+        headers: {
+          'Authorization': `Bearer ${this.accessToken}`,
+        },
+      });
+
+      const couriers: any[] = response.data?.data?.available_courier_companies || [];
+
+      return couriers.some(courier => Number(courier.cod) === 1);
+    } catch (error: any) {
+      if (error.code === 'ECONNABORTED') {
+        throw new ShippingTimeoutError(this.provider, this.config.settings.timeout);
+      }
+
+      // Shiprocket answers 404 when no courier serves the pincode pair
+      if (error.response?.status === 404) {
+        return false;
+      }
+
+      throw new ShippingProviderError(
+        this.provider,
+        error.response?.data?.message || error.message,
+        error.response?.data
+      );
+    }
+  }
+
   validateWebhook(payload: any, signature: string): boolean {
     try {
       const expectedSignature = crypto
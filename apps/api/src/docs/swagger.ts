@@ -405,6 +405,55 @@ const options = {
               minimum: 0,
               description: 'Subtotal amount',
             },
+            promotionDiscount: {
+              type: 'number',
+              minimum: 0,
+              description: 'Discount from promotions, taken off before the coupon',
+            },
+            promotions: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/AppliedPromotion',
+              },
+              description: 'Promotions applied, in the order they ran',
+            },
+            freeItems: {
+              type: 'array',
+              description: 'Free samples the promotions add at checkout',
+              items: {
+                type: 'object',
+                properties: {
+                  promotionId: {
+                    type: 'string',
+                  },
+                  productId: {
+                    type: 'string',
+                  },
+                  variantId: {
+                    type: 'string',
+                  },
+                  name: {
+                    type: 'string',
+                  },
+                  quantity: {
+                    type: 'integer',
+                  },
+                  value: {
+                    type: 'number',
+                    description: 'List value of the sample',
+                  },
+                },
+              },
+            },
+            discount: {
+              type: 'number',
+              minimum: 0,
+              description: 'Discount from the applied coupon',
+            },
+            couponCode: {
+              type: 'string',
+              description: 'Applied discount code',
+            },
             tax: {
               type: 'number',
               minimum: 0,
@@ -467,11 +516,88 @@ const options = {
               minimum: 0,
               description: 'Item price',
             },
+            promotionDiscount: {
+              type: 'number',
+              minimum: 0,
+              description: 'Promotion discounts on the line',
+            },
+            promotions: {
+              type: 'array',
+              description: 'Each promotion\'s share of the line discount',
+              items: {
+                type: 'object',
+                properties: {
+                  promotionId: {
+                    type: 'string',
+                  },
+                  name: {
+                    type: 'string',
+                  },
+                  amount: {
+                    type: 'number',
+                  },
+                },
+              },
+            },
             addedAt: {
               type: 'string',
               format: 'date-time',
               description: 'When item was added',
             },
+            name: {
+              type: 'string',
+              description: 'Product name',
+            },
+            weightInGrams: {
+              type: 'integer',
+              description: 'Variant pack weight in grams',
+            },
+            availableQuantity: {
+              type: 'integer',
+              description: 'Units currently in stock',
+            },
+            inStock: {
+              type: 'boolean',
+              description: 'Whether the requested quantity can be fulfilled',
+            },
+          },
+        },
+        CartMergeResult: {
+          type: 'object',
+          properties: {
+            cart: {
+              $ref: '#/components/schemas/Cart',
+            },
+            conflicts: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  productId: {
+                    type: 'string',
+                    description: 'Product ID',
+                  },
+                  variantId: {
+                    type: 'string',
+                    description: 'Variant ID',
+                  },
+                  reason: {
+                    type: 'string',
+                    enum: ['MAX_ORDER_QTY', 'INSUFFICIENT_STOCK', 'UNAVAILABLE'],
+                    description: 'Why the merged quantity differs from the requested quantity',
+                  },
+                  requestedQuantity: {
+                    type: 'integer',
+                    description: 'Combined quantity of the user and guest carts',
+                  },
+                  mergedQuantity: {
+                    type: 'integer',
+                    description: 'Quantity kept in the merged cart',
+                  },
+                },
+              },
+              description: 'Lines adjusted or dropped during the merge',
+            },
           },
         },
         // Order schemas
@@ -530,220 +656,1304 @@ const options = {
               maxLength: 3,
               description: 'Currency code',
             },
-            status: {
+            status: {
+              type: 'string',
+              enum: ['pending', 'confirmed', 'processing', 'partially_shipped', 'shipped', 'partially_delivered', 'delivered', 'cancelled', 'refunded'],
+              description: 'Order status',
+            },
+            paymentStatus: {
+              type: 'string',
+              enum: ['pending', 'paid', 'failed', 'refunded', 'partially_refunded'],
+              description: 'Payment status',
+            },
+            shippingAddress: {
+              $ref: '#/components/schemas/Address',
+            },
+            billingAddress: {
+              $ref: '#/components/schemas/Address',
+            },
+            paymentMethod: {
+              $ref: '#/components/schemas/PaymentMethod',
+            },
+            shippingMethod: {
+              $ref: '#/components/schemas/ShippingMethod',
+            },
+            trackingNumber: {
+              type: 'string',
+              description: 'Tracking number',
+            },
+            notes: {
+              type: 'string',
+              description: 'Order notes',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Creation timestamp',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Last update timestamp',
+            },
+            shippedAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Shipment timestamp',
+            },
+            deliveredAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Delivery timestamp',
+            },
+          },
+        },
+        OrderItem: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Order item ID',
+            },
+            productId: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Product ID',
+            },
+            variantId: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Variant ID',
+            },
+            quantity: {
+              type: 'integer',
+              minimum: 1,
+              description: 'Item quantity',
+            },
+            price: {
+              type: 'number',
+              minimum: 0,
+              description: 'Item price',
+            },
+            total: {
+              type: 'number',
+              minimum: 0,
+              description: 'Item total',
+            },
+            productSnapshot: {
+              type: 'object',
+              description: 'Product snapshot at time of order',
+            },
+          },
+        },
+        Address: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Address ID',
+            },
+            firstName: {
+              type: 'string',
+              description: 'First name',
+            },
+            lastName: {
+              type: 'string',
+              description: 'Last name',
+            },
+            company: {
+              type: 'string',
+              description: 'Company name',
+            },
+            address1: {
+              type: 'string',
+              description: 'Address line 1',
+            },
+            address2: {
+              type: 'string',
+              description: 'Address line 2',
+            },
+            city: {
+              type: 'string',
+              description: 'City',
+            },
+            state: {
+              type: 'string',
+              description: 'State',
+            },
+            postalCode: {
+              type: 'string',
+              description: 'Postal code',
+            },
+            country: {
+              type: 'string',
+              minLength: 2,
+              maxLength: 2,
+              description: 'Country code (ISO 3166-1 alpha-2)',
+            },
+            phone: {
+              type: 'string',
+              description: 'Phone number',
+            },
+            isDefault: {
+              type: 'boolean',
+              description: 'Whether this is the default address',
+            },
+          },
+        },
+        PaymentMethod: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Payment method ID',
+            },
+            type: {
+              type: 'string',
+              enum: ['card', 'upi', 'netbanking', 'wallet', 'cod', 'invoice'],
+              description: 'Payment method type; invoice bills an approved B2B account on its payment terms',
+            },
+            provider: {
+              type: 'string',
+              enum: ['stripe', 'razorpay', 'paypal'],
+              description: 'Payment provider',
+            },
+            last4: {
+              type: 'string',
+              description: 'Last 4 digits of card',
+            },
+            brand: {
+              type: 'string',
+              description: 'Card brand',
+            },
+            expiryMonth: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 12,
+              description: 'Expiry month',
+            },
+            expiryYear: {
+              type: 'integer',
+              description: 'Expiry year',
+            },
+          },
+        },
+        ShippingMethod: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Shipping method ID',
+            },
+            name: {
+              type: 'string',
+              description: 'Shipping method name',
+            },
+            description: {
+              type: 'string',
+              description: 'Shipping method description',
+            },
+            cost: {
+              type: 'number',
+              minimum: 0,
+              description: 'Shipping cost',
+            },
+            estimatedDays: {
+              type: 'integer',
+              minimum: 1,
+              description: 'Estimated delivery days',
+            },
+            isActive: {
+              type: 'boolean',
+              description: 'Whether method is active',
+            },
+          },
+        },
+        ShippingQuote: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              example: 'shiprocket:express',
+              description: 'Quote ID, sent back as the checkout shippingMethod',
+            },
+            provider: {
+              type: 'string',
+              enum: ['shiprocket', 'gcc_logistics', 'aramex', 'dhl', 'blue_dart'],
+              description: 'Carrier offering the rate',
+            },
+            method: {
+              type: 'string',
+              enum: ['standard', 'express', 'overnight', 'economy', 'priority'],
+            },
+            cost: {
+              type: 'number',
+              minimum: 0,
+            },
+            currency: {
+              type: 'string',
+            },
+            estimatedDays: {
+              type: 'integer',
+              description: 'Estimated delivery days',
+            },
+            description: {
+              type: 'string',
+            },
+            isAvailable: {
+              type: 'boolean',
+            },
+          },
+        },
+        RateShoppingResult: {
+          type: 'object',
+          properties: {
+            quotes: {
+              type: 'array',
+              description: 'Quotes from every carrier that ships to the destination, cheapest first',
+              items: {
+                $ref: '#/components/schemas/ShippingQuote',
+              },
+            },
+            cheapest: {
+              $ref: '#/components/schemas/ShippingQuote',
+            },
+            fastest: {
+              $ref: '#/components/schemas/ShippingQuote',
+            },
+            unavailable: {
+              type: 'array',
+              description: 'Carriers that failed or timed out; their quotes are missing',
+              items: {
+                type: 'string',
+              },
+            },
+            cached: {
+              type: 'boolean',
+              description: 'Quotes were reused for the same destination and weight bucket',
+            },
+          },
+        },
+        Invoice: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Invoice ID',
+            },
+            orderId: {
+              type: 'string',
+              description: 'Order ID',
+            },
+            invoiceNumber: {
+              type: 'string',
+              example: 'NH/24-25/000001',
+              description: 'Sequential invoice number, unique per financial year',
+            },
+            financialYear: {
+              type: 'string',
+              example: '24-25',
+              description: 'Indian financial year (April to March)',
+            },
+            supplyType: {
+              type: 'string',
+              enum: ['INTRA_STATE', 'INTER_STATE', 'EXPORT'],
+              description: 'CGST/SGST within the seller state, IGST across states, zero-rated for exports',
+            },
+            sellerGstin: {
+              type: 'string',
+              nullable: true,
+              description: 'Supplier GSTIN',
+            },
+            placeOfSupply: {
+              type: 'string',
+              description: 'GST state code of the destination, or country code for exports',
+            },
+            buyerGstin: {
+              type: 'string',
+              nullable: true,
+              description: 'Recipient GSTIN for approved B2B accounts',
+            },
+            currency: {
+              type: 'string',
+              description: 'Currency code',
+            },
+            taxableValue: {
+              type: 'number',
+              description: 'Sum of line taxable values',
+            },
+            cgstAmount: {
+              type: 'number',
+              description: 'Central GST',
+            },
+            sgstAmount: {
+              type: 'number',
+              description: 'State GST',
+            },
+            igstAmount: {
+              type: 'number',
+              description: 'Integrated GST',
+            },
+            vatAmount: {
+              type: 'number',
+              description: 'Destination VAT for GCC orders',
+            },
+            vatRate: {
+              type: 'number',
+              nullable: true,
+              description: 'VAT rate of the destination rule in force on the order date',
+            },
+            reverseCharge: {
+              type: 'boolean',
+              description: 'VAT is accounted for by a VAT-registered B2B buyer',
+            },
+            totalTax: {
+              type: 'number',
+              description: 'Total GST',
+            },
+            shippingAmount: {
+              type: 'number',
+              description: 'Shipping charged on the order',
+            },
+            codFee: {
+              type: 'number',
+              description: 'Cash on delivery fee, zero for prepaid orders',
+            },
+            totalAmount: {
+              type: 'number',
+              description: 'Invoice total',
+            },
+            issuedAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Invoice date',
+            },
+          },
+        },
+        Return: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Return ID',
+            },
+            rmaNumber: {
+              type: 'string',
+              example: 'RMA-NH-2024-001-1',
+              description: 'Return authorisation number quoted on the parcel',
+            },
+            orderId: {
+              type: 'string',
+              description: 'Order ID',
+            },
+            orderNumber: {
+              type: 'string',
+              description: 'Order number',
+            },
+            status: {
+              type: 'string',
+              enum: ['REQUESTED', 'APPROVED', 'REJECTED', 'RECEIVED', 'REFUNDED'],
+              description: 'Return status',
+            },
+            customerNotes: {
+              type: 'string',
+              nullable: true,
+            },
+            adminNotes: {
+              type: 'string',
+              nullable: true,
+            },
+            rejectionReason: {
+              type: 'string',
+              nullable: true,
+            },
+            refundAmount: {
+              type: 'number',
+              description: 'Amount refunded, set on inspection',
+            },
+            refundReference: {
+              type: 'string',
+              nullable: true,
+              description: 'Provider refund ID',
+            },
+            items: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: {
+                    type: 'string',
+                  },
+                  orderItemId: {
+                    type: 'string',
+                  },
+                  productName: {
+                    type: 'string',
+                  },
+                  weightInGrams: {
+                    type: 'integer',
+                  },
+                  quantity: {
+                    type: 'integer',
+                  },
+                  reason: {
+                    type: 'string',
+                    enum: ['UNOPENED_UNWANTED', 'DAMAGED_IN_TRANSIT', 'WRONG_ITEM', 'NOT_AS_DESCRIBED', 'DEFECTIVE'],
+                  },
+                  notes: {
+                    type: 'string',
+                    nullable: true,
+                  },
+                  photoUrls: {
+                    type: 'array',
+                    items: {
+                      type: 'string',
+                      format: 'uri',
+                    },
+                  },
+                  condition: {
+                    type: 'string',
+                    nullable: true,
+                    enum: ['RESTOCKABLE', 'DAMAGED', 'OPENED'],
+                  },
+                  restockQuantity: {
+                    type: 'integer',
+                  },
+                  restockLotId: {
+                    type: 'string',
+                    nullable: true,
+                  },
+                  refundAmount: {
+                    type: 'number',
+                  },
+                },
+              },
+            },
+            approvedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            receivedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            refundedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        OrderStatusHistory: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+            },
+            fromStatus: {
+              type: 'string',
+              nullable: true,
+              enum: ['PENDING', 'CONFIRMED', 'PROCESSING', 'PARTIALLY_SHIPPED', 'SHIPPED', 'PARTIALLY_DELIVERED', 'DELIVERED', 'CANCELLED', 'REFUNDED'],
+              description: 'Null for the entry written when the order was placed',
+            },
+            toStatus: {
+              type: 'string',
+              enum: ['PENDING', 'CONFIRMED', 'PROCESSING', 'PARTIALLY_SHIPPED', 'SHIPPED', 'PARTIALLY_DELIVERED', 'DELIVERED', 'CANCELLED', 'REFUNDED'],
+            },
+            actorType: {
+              type: 'string',
+              enum: ['CUSTOMER', 'ADMIN', 'SYSTEM', 'WEBHOOK'],
+              description: 'Who made the change',
+            },
+            actorId: {
+              type: 'string',
+              nullable: true,
+            },
+            reason: {
+              type: 'string',
+              nullable: true,
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        OrderShipment: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+            },
+            carrier: {
+              type: 'string',
+              nullable: true,
+            },
+            trackingNumber: {
+              type: 'string',
+              nullable: true,
+            },
+            trackingUrl: {
+              type: 'string',
+              nullable: true,
+              description: 'Carrier tracking page',
+            },
+            status: {
+              type: 'string',
+              enum: ['pending', 'packed', 'in_transit', 'out_for_delivery', 'delivered', 'failed', 'returned'],
+            },
+            shippedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'When the carrier picked the shipment up',
+            },
+            deliveredAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            items: {
+              type: 'array',
+              description: 'Order lines in this shipment',
+              items: {
+                type: 'object',
+                properties: {
+                  orderItemId: {
+                    type: 'string',
+                  },
+                  productName: {
+                    type: 'string',
+                  },
+                  quantity: {
+                    type: 'integer',
+                  },
+                },
+              },
+            },
+          },
+        },
+        WebhookReceipt: {
+          type: 'object',
+          properties: {
+            webhookId: {
+              type: 'string',
+            },
+            eventId: {
+              type: 'string',
+              description: 'The provider event ID, or a payload hash when the provider sends none',
+            },
+            status: {
+              type: 'string',
+              enum: ['RECEIVED', 'PROCESSING', 'PROCESSED', 'FAILED', 'DEAD'],
+            },
+            duplicate: {
+              type: 'boolean',
+              description: 'The event had already been received and was not applied again',
+            },
+            processed: {
+              type: 'boolean',
+            },
+          },
+        },
+        WebhookEvent: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+            },
+            source: {
+              type: 'string',
+              enum: ['PAYMENT', 'SHIPPING'],
+            },
+            provider: {
+              type: 'string',
+            },
+            eventId: {
+              type: 'string',
+            },
+            eventType: {
+              type: 'string',
+            },
+            status: {
+              type: 'string',
+              enum: ['RECEIVED', 'PROCESSING', 'PROCESSED', 'FAILED', 'DEAD'],
+            },
+            attempts: {
+              type: 'integer',
+            },
+            lastError: {
+              type: 'string',
+            },
+            nextAttemptAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            processedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            receivedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            payload: {
+              type: 'object',
+              description: 'Only on a single event',
+            },
+            headers: {
+              type: 'object',
+              description: 'Only on a single event; credentials are not stored',
+            },
+          },
+        },
+        PaymentRoutingRule: {
+          type: 'object',
+          properties: {
+            region: {
+              type: 'string',
+              example: 'AE',
+            },
+            currency: {
+              type: 'string',
+              example: 'AED',
+            },
+            provider: {
+              type: 'string',
+              enum: ['razorpay', 'dibsy', 'telr', 'moyasar', 'oman_net'],
+            },
+            priority: {
+              type: 'integer',
+              description: '1 for the primary provider, higher numbers are failover',
+            },
+            weight: {
+              type: 'integer',
+              description: 'Share of traffic among active rules with the same priority',
+            },
+            isActive: {
+              type: 'boolean',
+            },
+          },
+        },
+        PriceTierBreak: {
+          type: 'object',
+          properties: {
+            minWeightKg: {
+              type: 'number',
+              example: 10,
+            },
+            maxWeightKg: {
+              type: 'number',
+              description: 'Where the next tier starts; absent on the last tier',
+              example: 50,
+            },
+            unitPrice: {
+              type: 'number',
+              example: 265,
+            },
+          },
+        },
+        VariantPriceSheet: {
+          type: 'object',
+          properties: {
+            variantId: {
+              type: 'string',
+            },
+            weightInGrams: {
+              type: 'integer',
+            },
+            currency: {
+              type: 'string',
+              example: 'INR',
+            },
+            listPrice: {
+              type: 'number',
+            },
+            tiers: {
+              type: 'array',
+              description: 'Volume breaks by line weight; only shown to approved B2B accounts',
+              items: {
+                $ref: '#/components/schemas/PriceTierBreak',
+              },
+            },
+            contractPrice: {
+              type: 'number',
+              description: "The buyer's contract price, when their price list covers the variant",
+            },
+            priceListId: {
+              type: 'string',
+            },
+          },
+        },
+        PriceList: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+            },
+            name: {
+              type: 'string',
+              example: 'Gulf Spice Traders 2026',
+            },
+            currency: {
+              type: 'string',
+              example: 'AED',
+            },
+            validFrom: {
+              type: 'string',
+              format: 'date-time',
+            },
+            validUntil: {
+              type: 'string',
+              format: 'date-time',
+            },
+            isActive: {
+              type: 'boolean',
+            },
+            notes: {
+              type: 'string',
+            },
+            items: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  variantId: {
+                    type: 'string',
+                  },
+                  unitPrice: {
+                    type: 'number',
+                  },
+                },
+              },
+            },
+            accountIds: {
+              type: 'array',
+              description: 'B2B applications on this price list',
+              items: {
+                type: 'string',
+              },
+            },
+          },
+        },
+        Promotion: {
+          type: 'object',
+          required: ['name', 'actionType', 'action'],
+          properties: {
+            id: {
+              type: 'string',
+            },
+            name: {
+              type: 'string',
+              example: 'Buy 2 get 1 on whole spices',
+            },
+            description: {
+              type: 'string',
+            },
+            code: {
+              type: 'string',
+              description: 'Code the shopper enters; absent on automatic promotions',
+            },
+            actionType: {
+              type: 'string',
+              enum: ['BUY_X_GET_Y', 'BUNDLE_PRICE', 'TIERED_SPEND', 'FREE_SAMPLE'],
+            },
+            action: {
+              type: 'object',
+              description: 'BUY_X_GET_Y: { buyQuantity, getQuantity, percentOff?, maxApplications? }; BUNDLE_PRICE: { quantity, price, maxApplications? }; TIERED_SPEND: { tiers: [{ minSpend, percentOff | amountOff }] }; FREE_SAMPLE: { variantId, quantity?, minSpend? }',
+              example: { buyQuantity: 2, getQuantity: 1 },
+            },
+            conditions: {
+              type: 'object',
+              description: 'Every condition given must hold. Category, product, variant and weight pick the lines covered.',
+              properties: {
+                categories: {
+                  type: 'array',
+                  items: { type: 'string' },
+                },
+                productIds: {
+                  type: 'array',
+                  items: { type: 'string' },
+                },
+                variantIds: {
+                  type: 'array',
+                  items: { type: 'string' },
+                },
+                minWeightInGrams: {
+                  type: 'integer',
+                },
+                maxWeightInGrams: {
+                  type: 'integer',
+                },
+                customerRoles: {
+                  type: 'array',
+                  items: { type: 'string', enum: ['B2C', 'B2B'] },
+                },
+                regions: {
+                  type: 'array',
+                  description: 'Destination country codes',
+                  items: { type: 'string' },
+                },
+                currencies: {
+                  type: 'array',
+                  items: { type: 'string' },
+                },
+                firstOrderOnly: {
+                  type: 'boolean',
+                },
+              },
+            },
+            currency: {
+              type: 'string',
+              description: 'Currency of the amounts in the action; such promotions only apply to carts in it',
+              example: 'INR',
+            },
+            priority: {
+              type: 'integer',
+              description: 'Higher runs first',
+            },
+            stacking: {
+              type: 'string',
+              enum: ['STACKABLE', 'EXCLUSIVE'],
+            },
+            usageLimit: {
+              type: 'integer',
+            },
+            usedCount: {
+              type: 'integer',
+              readOnly: true,
+            },
+            validFrom: {
+              type: 'string',
+              format: 'date-time',
+            },
+            validUntil: {
+              type: 'string',
+              format: 'date-time',
+            },
+            isActive: {
+              type: 'boolean',
+            },
+          },
+        },
+        AppliedPromotion: {
+          type: 'object',
+          properties: {
+            promotionId: {
+              type: 'string',
+            },
+            name: {
+              type: 'string',
+            },
+            code: {
+              type: 'string',
+            },
+            actionType: {
+              type: 'string',
+            },
+            amount: {
+              type: 'number',
+              description: 'Total discount from the promotion',
+            },
+            lines: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  variantId: {
+                    type: 'string',
+                  },
+                  amount: {
+                    type: 'number',
+                  },
+                },
+              },
+            },
+          },
+        },
+        CodEligibility: {
+          type: 'object',
+          properties: {
+            eligible: {
+              type: 'boolean',
+            },
+            fee: {
+              type: 'number',
+              description: 'Cash on delivery fee added to the order',
+            },
+            currency: {
+              type: 'string',
+            },
+            reasons: {
+              type: 'array',
+              description: 'Why cash on delivery is not offered; empty when eligible',
+              items: {
+                type: 'string',
+                enum: ['REGION', 'ORDER_VALUE', 'PINCODE', 'RTO_HISTORY'],
+              },
+            },
+          },
+        },
+        CreditEligibility: {
+          type: 'object',
+          properties: {
+            eligible: {
+              type: 'boolean',
+            },
+            terms: {
+              type: 'string',
+              enum: ['PREPAID', 'NET_15', 'NET_30', 'NET_60'],
+            },
+            currency: {
+              type: 'string',
+              description: 'Currency of the credit limit',
+            },
+            creditLimit: {
+              type: 'number',
+            },
+            outstanding: {
+              type: 'number',
+              description: 'Open invoices and orders on account not yet invoiced',
+            },
+            available: {
+              type: 'number',
+            },
+            reasons: {
+              type: 'array',
+              description: 'Why the order cannot be billed on account; empty when eligible',
+              items: {
+                type: 'string',
+                enum: ['NOT_B2B', 'NO_TERMS', 'CURRENCY', 'CREDIT_HOLD', 'CREDIT_LIMIT'],
+              },
+            },
+          },
+        },
+        Organization: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+            },
+            name: {
+              type: 'string',
+            },
+            applicationId: {
               type: 'string',
-              enum: ['pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded'],
-              description: 'Order status',
+              description: 'B2B application the organization buys on',
             },
-            paymentStatus: {
+            applicationStatus: {
               type: 'string',
-              enum: ['pending', 'paid', 'failed', 'refunded', 'partially_refunded'],
-              description: 'Payment status',
+              enum: ['PENDING', 'APPROVED', 'REJECTED'],
             },
-            shippingAddress: {
-              $ref: '#/components/schemas/Address',
+            approvalThreshold: {
+              type: 'number',
+              description: 'Orders above this wait for an approver; absent when none do',
             },
-            billingAddress: {
-              $ref: '#/components/schemas/Address',
+            approvalCurrency: {
+              type: 'string',
             },
-            paymentMethod: {
-              $ref: '#/components/schemas/PaymentMethod',
+            memberCount: {
+              type: 'integer',
             },
-            shippingMethod: {
-              $ref: '#/components/schemas/ShippingMethod',
+            role: {
+              type: 'string',
+              enum: ['OWNER', 'BUYER', 'APPROVER', 'FINANCE_VIEWER'],
+              description: "The signed-in member's role",
             },
-            trackingNumber: {
+            createdAt: {
               type: 'string',
-              description: 'Tracking number',
+              format: 'date-time',
             },
-            notes: {
+          },
+        },
+        OrganizationMember: {
+          type: 'object',
+          properties: {
+            id: {
               type: 'string',
-              description: 'Order notes',
             },
-            createdAt: {
+            userId: {
               type: 'string',
-              format: 'date-time',
-              description: 'Creation timestamp',
             },
-            updatedAt: {
+            name: {
               type: 'string',
-              format: 'date-time',
-              description: 'Last update timestamp',
             },
-            shippedAt: {
+            email: {
               type: 'string',
-              format: 'date-time',
-              description: 'Shipment timestamp',
+              format: 'email',
             },
-            deliveredAt: {
+            role: {
+              type: 'string',
+              enum: ['OWNER', 'BUYER', 'APPROVER', 'FINANCE_VIEWER'],
+            },
+            joinedAt: {
               type: 'string',
               format: 'date-time',
-              description: 'Delivery timestamp',
             },
           },
         },
-        OrderItem: {
+        OrganizationInvitation: {
           type: 'object',
           properties: {
             id: {
               type: 'string',
-              format: 'uuid',
-              description: 'Order item ID',
             },
-            productId: {
+            email: {
               type: 'string',
-              format: 'uuid',
-              description: 'Product ID',
+              format: 'email',
             },
-            variantId: {
+            role: {
               type: 'string',
-              format: 'uuid',
-              description: 'Variant ID',
-            },
-            quantity: {
-              type: 'integer',
-              minimum: 1,
-              description: 'Item quantity',
+              enum: ['OWNER', 'BUYER', 'APPROVER', 'FINANCE_VIEWER'],
             },
-            price: {
-              type: 'number',
-              minimum: 0,
-              description: 'Item price',
+            invitedBy: {
+              type: 'string',
             },
-            total: {
-              type: 'number',
-              minimum: 0,
-              description: 'Item total',
+            expiresAt: {
+              type: 'string',
+              format: 'date-time',
             },
-            productSnapshot: {
-              type: 'object',
-              description: 'Product snapshot at time of order',
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
             },
           },
         },
-        Address: {
+        OrderApproval: {
           type: 'object',
           properties: {
             id: {
               type: 'string',
-              format: 'uuid',
-              description: 'Address ID',
             },
-            firstName: {
+            orderId: {
               type: 'string',
-              description: 'First name',
             },
-            lastName: {
+            orderNumber: {
               type: 'string',
-              description: 'Last name',
             },
-            company: {
+            status: {
               type: 'string',
-              description: 'Company name',
+              enum: ['PENDING', 'APPROVED', 'REJECTED'],
             },
-            address1: {
-              type: 'string',
-              description: 'Address line 1',
+            amount: {
+              type: 'number',
             },
-            address2: {
+            currency: {
               type: 'string',
-              description: 'Address line 2',
             },
-            city: {
+            requestedBy: {
               type: 'string',
-              description: 'City',
             },
-            state: {
+            requestedByName: {
               type: 'string',
-              description: 'State',
             },
-            postalCode: {
+            decidedBy: {
               type: 'string',
-              description: 'Postal code',
             },
-            country: {
+            decidedAt: {
               type: 'string',
-              minLength: 2,
-              maxLength: 2,
-              description: 'Country code (ISO 3166-1 alpha-2)',
+              format: 'date-time',
             },
-            phone: {
+            reason: {
               type: 'string',
-              description: 'Phone number',
             },
-            isDefault: {
-              type: 'boolean',
-              description: 'Whether this is the default address',
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
             },
           },
         },
-        PaymentMethod: {
+        OrganizationOrder: {
           type: 'object',
           properties: {
             id: {
               type: 'string',
-              format: 'uuid',
-              description: 'Payment method ID',
             },
-            type: {
+            orderNumber: {
               type: 'string',
-              enum: ['card', 'upi', 'netbanking', 'wallet', 'cod'],
-              description: 'Payment method type',
             },
-            provider: {
+            status: {
               type: 'string',
-              enum: ['stripe', 'razorpay', 'paypal'],
-              description: 'Payment provider',
             },
-            last4: {
+            total: {
+              type: 'number',
+            },
+            currency: {
               type: 'string',
-              description: 'Last 4 digits of card',
             },
-            brand: {
+            placedBy: {
               type: 'string',
-              description: 'Card brand',
+              description: 'User ID of the member who placed the order',
             },
-            expiryMonth: {
-              type: 'integer',
-              minimum: 1,
-              maximum: 12,
-              description: 'Expiry month',
+            placedByName: {
+              type: 'string',
             },
-            expiryYear: {
-              type: 'integer',
-              description: 'Expiry year',
+            quoteNumber: {
+              type: 'string',
+            },
+            approvalStatus: {
+              type: 'string',
+              enum: ['PENDING', 'APPROVED', 'REJECTED'],
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
             },
           },
         },
-        ShippingMethod: {
+        Receivable: {
           type: 'object',
           properties: {
-            id: {
+            invoiceId: {
               type: 'string',
-              format: 'uuid',
-              description: 'Shipping method ID',
             },
-            name: {
+            invoiceNumber: {
               type: 'string',
-              description: 'Shipping method name',
+              example: 'NH/26-27/000042',
             },
-            description: {
+            orderId: {
               type: 'string',
-              description: 'Shipping method description',
             },
-            cost: {
+            orderNumber: {
+              type: 'string',
+            },
+            userId: {
+              type: 'string',
+            },
+            businessName: {
+              type: 'string',
+            },
+            currency: {
+              type: 'string',
+            },
+            totalAmount: {
               type: 'number',
-              minimum: 0,
-              description: 'Shipping cost',
             },
-            estimatedDays: {
+            amountPaid: {
+              type: 'number',
+            },
+            balance: {
+              type: 'number',
+            },
+            issuedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            dueDate: {
+              type: 'string',
+              format: 'date-time',
+            },
+            daysOverdue: {
               type: 'integer',
-              minimum: 1,
-              description: 'Estimated delivery days',
             },
-            isActive: {
-              type: 'boolean',
-              description: 'Whether method is active',
+            bucket: {
+              type: 'string',
+              enum: ['CURRENT', 'DAYS_1_30', 'DAYS_31_60', 'DAYS_61_90', 'DAYS_90_PLUS'],
+            },
+          },
+        },
+        ReceivablesAgeing: {
+          type: 'object',
+          properties: {
+            currency: {
+              type: 'string',
+            },
+            buckets: {
+              type: 'object',
+              description: 'Open balance per ageing bucket',
+              additionalProperties: {
+                type: 'number',
+              },
+            },
+            total: {
+              type: 'number',
+            },
+          },
+        },
+        OrderTracking: {
+          type: 'object',
+          properties: {
+            orderNumber: {
+              type: 'string',
+            },
+            orderStatus: {
+              type: 'string',
+            },
+            placedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            shipments: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  carrier: {
+                    type: 'string',
+                    nullable: true,
+                  },
+                  trackingNumber: {
+                    type: 'string',
+                    nullable: true,
+                  },
+                  trackingUrl: {
+                    type: 'string',
+                    nullable: true,
+                  },
+                  status: {
+                    type: 'string',
+                    enum: ['pending', 'packed', 'in_transit', 'out_for_delivery', 'delivered', 'failed', 'returned'],
+                  },
+                  shippedAt: {
+                    type: 'string',
+                    format: 'date-time',
+                    nullable: true,
+                  },
+                  deliveredAt: {
+                    type: 'string',
+                    format: 'date-time',
+                    nullable: true,
+                  },
+                  events: {
+                    type: 'array',
+                    description: 'Carrier scans, newest first',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        status: {
+                          type: 'string',
+                          enum: ['pending', 'packed', 'in_transit', 'out_for_delivery', 'delivered', 'failed', 'returned'],
+                        },
+                        description: {
+                          type: 'string',
+                        },
+                        location: {
+                          type: 'string',
+                          nullable: true,
+                        },
+                        occurredAt: {
+                          type: 'string',
+                          format: 'date-time',
+                        },
+                      },
+                    },
+                  },
+                },
+              },
             },
           },
         },
@@ -801,6 +2011,10 @@ const options = {
               },
               description: 'Did you mean suggestions',
             },
+            total: {
+              type: 'integer',
+              description: 'Number of matching products across all pages',
+            },
             filters: {
               type: 'object',
               properties: {
@@ -843,6 +2057,38 @@ const options = {
                     },
                   },
                 },
+                weights: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      value: {
+                        type: 'integer',
+                        description: 'Pack weight in grams',
+                      },
+                      count: {
+                        type: 'integer',
+                      },
+                    },
+                  },
+                },
+                priceBuckets: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      min: {
+                        type: 'number',
+                      },
+                      max: {
+                        type: 'number',
+                      },
+                      count: {
+                        type: 'integer',
+                      },
+                    },
+                  },
+                },
               },
             },
           },
@@ -1153,6 +2399,10 @@ const options = {
         name: 'Webhooks',
         description: 'Webhook endpoints for external services',
       },
+      {
+        name: 'Tracking',
+        description: 'Public shipment tracking',
+      },
     ],
   },
   apis: [
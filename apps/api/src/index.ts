@@ -38,7 +38,13 @@ import userV1Routes from './routes/v1/users';
 import addressV1Routes from './routes/v1/addresses';
 import paymentV1Routes from './routes/v1/payments';
 import b2bV1Routes from './routes/v1/b2b';
+import trackingV1Routes from './routes/v1/tracking';
 import { setupSwagger } from './docs/swagger';
+import { schedulePaymentReconciliation } from './jobs/paymentReconciliation';
+import { scheduleShipmentTracking } from './jobs/shipmentTracking';
+import { scheduleWebhookRetry } from './jobs/webhookRetry';
+import { scheduleCreditHolds } from './jobs/creditHolds';
+import { scheduleAbandonedCheckouts } from './jobs/abandonedCheckouts';
 
 // Load environment variables
 dotenv.config();
@@ -155,6 +161,7 @@ app.use('/api/v1/users', userV1Routes);
 app.use('/api/v1/addresses', addressV1Routes);
 app.use('/api/v1/payments', paymentV1Routes);
 app.use('/api/v1/b2b', b2bV1Routes);
+app.use('/api/v1/tracking', trackingV1Routes);
 
 // Legacy API routes (for backward compatibility)
 app.use('/api/products', productRoutes);
@@ -216,6 +223,13 @@ const startServer = async () => {
     await DatabaseService.connect();
     logger.info('Database connection established');
 
+    // Background jobs
+    schedulePaymentReconciliation();
+    scheduleShipmentTracking();
+    scheduleWebhookRetry();
+    scheduleCreditHolds();
+    scheduleAbandonedCheckouts();
+
     // Start Express server
     app.listen(PORT, () => {
       logger.info(`API server running on port ${PORT}`);
@@ -0,0 +1,48 @@
+import cron from 'node-cron';
+import DatabaseService from '../services/database';
+import { OrderStatusService } from '../services/OrderStatusService';
+import { logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+
+// Every minute by default, like the worker's reservation sweep; set to "off" to disable on this instance
+const SCHEDULE = process.env.ABANDONED_CHECKOUT_CRON || '* * * * *';
+
+/**
+ * Cancel orders left without stock once the worker has released their
+ * expired holds. Runs in the API so the cancellation goes through the order
+ * state machine and the customer is told.
+ */
+export function scheduleAbandonedCheckouts(): cron.ScheduledTask | null {
+  if (SCHEDULE === 'off') {
+    logger.info('Abandoned checkout schedule disabled');
+    return null;
+  }
+
+  const orderStatusService = new OrderStatusService(
+    DatabaseService.getInstance(),
+    logger,
+    MetricsCollector
+  );
+  let running = false;
+
+  const task = cron.schedule(SCHEDULE, async () => {
+    if (running) {
+      logger.warn('Abandoned checkout run still in progress, skipping this tick');
+      return;
+    }
+
+    running = true;
+    try {
+      await orderStatusService.cancelAbandonedOrders();
+    } catch (error) {
+      logger.error('Scheduled abandoned checkout run failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      running = false;
+    }
+  });
+
+  logger.info('Abandoned checkouts scheduled', { schedule: SCHEDULE });
+  return task;
+}
@@ -0,0 +1,47 @@
+import cron from 'node-cron';
+import DatabaseService from '../services/database';
+import { CreditService } from '../services/CreditService';
+import { logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+
+// Hourly by default; set to "off" to disable on this instance
+const SCHEDULE = process.env.CREDIT_HOLD_CRON || '0 * * * *';
+
+/**
+ * Put B2B accounts with overdue invoices on credit hold and release those
+ * that have paid up. Idempotent, so every instance may run it.
+ */
+export function scheduleCreditHolds(): cron.ScheduledTask | null {
+  if (SCHEDULE === 'off') {
+    logger.info('Credit hold schedule disabled');
+    return null;
+  }
+
+  const creditService = new CreditService(
+    DatabaseService.getInstance(),
+    logger,
+    MetricsCollector
+  );
+  let running = false;
+
+  const task = cron.schedule(SCHEDULE, async () => {
+    if (running) {
+      logger.warn('Credit hold run still in progress, skipping this tick');
+      return;
+    }
+
+    running = true;
+    try {
+      await creditService.applyCreditHolds();
+    } catch (error) {
+      logger.error('Scheduled credit hold run failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      running = false;
+    }
+  });
+
+  logger.info('Credit holds scheduled', { schedule: SCHEDULE });
+  return task;
+}
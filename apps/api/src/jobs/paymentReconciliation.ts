@@ -0,0 +1,49 @@
+import cron from 'node-cron';
+import DatabaseService from '../services/database';
+import { PaymentReconciliationService } from '../services/PaymentReconciliationService';
+import { logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+
+// Every 5 minutes by default, so stale payments are checked before their stock hold lapses;
+// set to "off" to disable on this instance
+const SCHEDULE = process.env.PAYMENT_RECONCILIATION_CRON || '*/5 * * * *';
+
+/**
+ * Poll providers for payments whose webhook never arrived. Runs inside the
+ * API process because the payment adapters and their credentials live here.
+ */
+export function schedulePaymentReconciliation(): cron.ScheduledTask | null {
+  if (SCHEDULE === 'off') {
+    logger.info('Payment reconciliation schedule disabled');
+    return null;
+  }
+
+  const reconciliationService = new PaymentReconciliationService(
+    DatabaseService.getInstance(),
+    logger,
+    MetricsCollector
+  );
+  let running = false;
+
+  const task = cron.schedule(SCHEDULE, async () => {
+    // A slow provider can make one run overlap the next tick
+    if (running) {
+      logger.warn('Payment reconciliation still running, skipping this tick');
+      return;
+    }
+
+    running = true;
+    try {
+      await reconciliationService.reconcileStalePayments();
+    } catch (error) {
+      logger.error('Scheduled payment reconciliation failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      running = false;
+    }
+  });
+
+  logger.info('Payment reconciliation scheduled', { schedule: SCHEDULE });
+  return task;
+}
@@ -0,0 +1,48 @@
+import cron from 'node-cron';
+import DatabaseService from '../services/database';
+import { ShippingService } from '../services/ShippingService';
+import { logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+
+// Every 30 minutes by default; set to "off" to disable on this instance
+const SCHEDULE = process.env.SHIPMENT_TRACKING_CRON || '*/30 * * * *';
+
+/**
+ * Poll carriers for tracking events on open shipments, so timelines fill in
+ * for carriers that do not push webhooks and for webhooks that were lost.
+ */
+export function scheduleShipmentTracking(): cron.ScheduledTask | null {
+  if (SCHEDULE === 'off') {
+    logger.info('Shipment tracking schedule disabled');
+    return null;
+  }
+
+  const shippingService = new ShippingService(
+    DatabaseService.getInstance(),
+    logger,
+    MetricsCollector
+  );
+  let running = false;
+
+  const task = cron.schedule(SCHEDULE, async () => {
+    // Carrier tracking APIs are slow enough for one run to overlap the next tick
+    if (running) {
+      logger.warn('Shipment tracking still running, skipping this tick');
+      return;
+    }
+
+    running = true;
+    try {
+      await shippingService.pollActiveShipments();
+    } catch (error) {
+      logger.error('Scheduled shipment tracking failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      running = false;
+    }
+  });
+
+  logger.info('Shipment tracking scheduled', { schedule: SCHEDULE });
+  return task;
+}
@@ -0,0 +1,48 @@
+import cron from 'node-cron';
+import DatabaseService from '../services/database';
+import { WebhookInboxService } from '../services/WebhookInboxService';
+import { logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+
+// Every minute by default; set to "off" to disable on this instance
+const SCHEDULE = process.env.WEBHOOK_RETRY_CRON || '* * * * *';
+
+/**
+ * Retry webhook events that failed to apply once their backoff has passed.
+ * Safe to run on every instance: each event is claimed before it is applied.
+ */
+export function scheduleWebhookRetry(): cron.ScheduledTask | null {
+  if (SCHEDULE === 'off') {
+    logger.info('Webhook retry schedule disabled');
+    return null;
+  }
+
+  const webhookInbox = new WebhookInboxService(
+    DatabaseService.getInstance(),
+    logger,
+    MetricsCollector
+  );
+  let running = false;
+
+  const task = cron.schedule(SCHEDULE, async () => {
+    // A batch of slow events can outlast the one-minute tick
+    if (running) {
+      logger.warn('Webhook retry still running, skipping this tick');
+      return;
+    }
+
+    running = true;
+    try {
+      await webhookInbox.retryDue();
+    } catch (error) {
+      logger.error('Scheduled webhook retry failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      running = false;
+    }
+  });
+
+  logger.info('Webhook retry scheduled', { schedule: SCHEDULE });
+  return task;
+}
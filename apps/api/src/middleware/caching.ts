@@ -210,6 +210,9 @@ export const CacheConfigs = {
     ttl: 120,
     keyPrefix: 'search:results:',
     varyBy: ['accept-language', 'x-currency', 'x-region'],
+    // Searches are POSTed, so the body has to be part of the key
+    keyGenerator: (req: Request) =>
+      crypto.createHash('md5').update(`${req.originalUrl}:${JSON.stringify(req.body)}`).digest('hex'),
   },
 
   // Category cache (30 minutes)
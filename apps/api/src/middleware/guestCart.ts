@@ -0,0 +1,105 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+
+// Extend Express Request interface to include the guest cart token
+declare global {
+  namespace Express {
+    interface Request {
+      guestCartToken?: string;
+    }
+  }
+}
+
+/**
+ * Guest Cart Middleware
+ *
+ * Identifies anonymous shoppers with a signed cookie so they can build a cart
+ * before signing in. The cookie value is `<token>.<hmac>`; tampered values are ignored.
+ */
+export class GuestCartMiddleware {
+  static readonly cookieName = 'nh_guest_cart';
+
+  private static secret: string;
+  private static maxAge = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+  static {
+    // A known secret would let anyone forge a cookie for another guest's cart
+    const secret = process.env.GUEST_CART_SECRET || process.env.JWT_SECRET;
+    if (!secret) {
+      throw new Error('GUEST_CART_SECRET environment variable is required for security');
+    }
+    this.secret = secret;
+  }
+
+  /**
+   * Sign a guest cart token
+   */
+  static sign(token: string): string {
+    const signature = crypto
+      .createHmac('sha256', this.secret)
+      .update(token)
+      .digest('hex');
+
+    return `${token}.${signature}`;
+  }
+
+  /**
+   * Verify a signed cookie value and return the token it carries
+   */
+  static unsign(value: string): string | null {
+    const [token, signature] = value.split('.');
+    if (!token || !signature) {
+      return null;
+    }
+
+    const expected = this.sign(token).split('.')[1];
+
+    try {
+      const valid = crypto.timingSafeEqual(
+        Buffer.from(signature, 'hex'),
+        Buffer.from(expected, 'hex')
+      );
+
+      return valid ? token : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Read the guest cart token from the request cookies
+   */
+  static readToken(req: Request): string | null {
+    const value = req.cookies?.[this.cookieName];
+    return typeof value === 'string' ? this.unsign(value) : null;
+  }
+
+  /**
+   * Attach the guest cart token to anonymous requests, issuing a new cookie when needed
+   */
+  static identify = (req: Request, res: Response, next: NextFunction): void => {
+    const token = this.readToken(req);
+
+    if (token) {
+      req.guestCartToken = token;
+    } else if (!req.user) {
+      req.guestCartToken = crypto.randomBytes(24).toString('hex');
+      res.cookie(this.cookieName, this.sign(req.guestCartToken), {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        maxAge: this.maxAge,
+        path: '/',
+      });
+    }
+
+    next();
+  };
+
+  /**
+   * Drop the guest cart cookie once its cart has been merged
+   */
+  static clear(res: Response): void {
+    res.clearCookie(this.cookieName, { path: '/' });
+  }
+}
@@ -95,6 +95,24 @@ export const rateLimitConfigs = {
     },
   }),
 
+  // Public order tracking; strict so order numbers and emails cannot be guessed
+  tracking: rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 10, // limit each IP to 10 lookups per windowMs
+    message: {
+      error: {
+        status: 429,
+        code: 'RATE_LIMIT_EXCEEDED',
+        message: 'Too many tracking lookups, please try again later.',
+      },
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+    handler: (req: Request, res: Response) => {
+      throw new RateLimitError('Too many tracking lookups, please try again later.');
+    },
+  }),
+
   // Webhook endpoints rate limiting
   webhook: rateLimit({
     windowMs: 1 * 60 * 1000, // 1 minute
@@ -333,6 +333,8 @@ export const ProductSchemas = {
     })).optional(),
     certifications: z.array(z.string()).optional(),
     tags: z.array(z.string()).optional(),
+    hsnCode: z.string().regex(/^\d{4}(\d{2}){0,2}$/, 'HSN code must have 4, 6 or 8 digits').optional(),
+    gstRate: z.number().min(0).max(28).optional(),
   }),
 
   // Product update schema
@@ -369,24 +371,24 @@ export const ProductSchemas = {
 export const CartSchemas = {
   // Cart item schema
   item: z.object({
-    productId: z.string().uuid(),
-    variantId: z.string().uuid().optional(),
-    quantity: z.number().min(1).max(100),
+    productId: z.string().min(1),
+    variantId: z.string().min(1).optional(),
+    quantity: z.number().int().min(1).max(100),
   }),
 
   // Cart update schema
   update: z.object({
     items: z.array(z.object({
-      id: z.string().uuid().optional(),
-      productId: z.string().uuid(),
-      variantId: z.string().uuid().optional(),
-      quantity: z.number().min(1).max(100),
+      id: z.string().min(1).optional(),
+      productId: z.string().min(1),
+      variantId: z.string().min(1).optional(),
+      quantity: z.number().int().min(1).max(100),
     })),
   }),
 
-  // Cart merge schema
-  merge: z.object({
-    guestCartId: z.string().uuid(),
+  // Cart coupon schema
+  coupon: z.object({
+    code: z.string().trim().min(1).max(50),
   }),
 };
 
@@ -426,21 +428,181 @@ export const OrderSchemas = {
       phone: z.string().optional(),
     }),
     paymentMethod: z.object({
-      type: z.enum(['card', 'upi', 'netbanking', 'wallet', 'cod']),
+      type: z.enum(['card', 'upi', 'netbanking', 'wallet', 'cod', 'invoice']),
       provider: z.enum(['stripe', 'razorpay', 'paypal']),
       token: z.string().optional(),
     }),
-    shippingMethod: z.string().uuid(),
+    // Buyer's purchase order reference, printed on orders billed on account
+    purchaseOrderNumber: z.string().max(50).optional(),
+    // Quote ID from rate shopping, e.g. "shiprocket:express"
+    shippingMethod: z.string().min(1),
     notes: z.string().optional(),
+    // Code of a promotion the buyer entered in the cart; automatic promotions need none
+    promotionCode: z.string().min(1).max(50).optional(),
     idempotencyKey: z.string().uuid(),
   }),
 
+  // Paying for an order placed earlier: one an approver has signed off, or one converted from a quote
+  resume: z.object({
+    orderId: z.string().min(1),
+    paymentMethod: z.object({
+      type: z.enum(['card', 'upi', 'netbanking', 'wallet', 'invoice']),
+      provider: z.enum(['stripe', 'razorpay', 'paypal']),
+      token: z.string().optional(),
+    }),
+    purchaseOrderNumber: z.string().max(50).optional(),
+    idempotencyKey: z.string().uuid(),
+  }),
+
+  // Cash on delivery check before the payment step
+  codEligibility: z.object({
+    destination: z.object({
+      country: z.string().length(2),
+      postalCode: z.string().min(1),
+    }),
+    orderValue: z.number().positive(),
+    currency: z.string().length(3),
+    weight: z.number().positive(),
+  }),
+
+  // Payment on account eligibility check
+  creditEligibility: z.object({
+    orderValue: z.number().positive(),
+    currency: z.string().length(3),
+  }),
+
   // Order status update schema
   statusUpdate: z.object({
-    status: z.enum(['pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded']),
+    // Admin screens send the upper-case status codes
+    status: z.string().trim().toLowerCase().pipe(z.enum(['pending', 'confirmed', 'processing', 'partially_shipped', 'shipped', 'partially_delivered', 'delivered', 'cancelled', 'refunded'])),
     trackingNumber: z.string().optional(),
     notes: z.string().optional(),
   }),
+
+  // Shipment covering some of an order's lines
+  shipment: z.object({
+    items: z.array(z.object({
+      orderItemId: z.string().min(1),
+      quantity: z.number().int().min(1),
+    })).min(1).optional(),
+    method: z.enum(['standard', 'express', 'overnight', 'economy', 'priority']).default('standard'),
+  }),
+
+  // Orders picked together; documents are printed in this order
+  pickWave: z.object({
+    orderIds: z.array(z.string().min(1)).min(1).max(100),
+  }),
+
+  pickWaveLabels: z.object({
+    orderIds: z.array(z.string().min(1)).min(1).max(100),
+    format: z.enum(['pdf', 'zpl']).default('pdf'),
+  }),
+
+  label: z.object({
+    format: z.enum(['pdf', 'zpl']).default('pdf'),
+  }),
+
+  tracking: z.object({
+    orderNumber: z.string().trim().min(1).max(50),
+    email: z.string().trim().email(),
+  }),
+};
+
+/**
+ * Return (RMA) validation schemas
+ */
+export const ReturnSchemas = {
+  // Customer return request
+  request: z.object({
+    items: z.array(z.object({
+      orderItemId: z.string().min(1),
+      quantity: z.number().int().min(1),
+      reason: z.enum(['UNOPENED_UNWANTED', 'DAMAGED_IN_TRANSIT', 'WRONG_ITEM', 'NOT_AS_DESCRIBED', 'DEFECTIVE']),
+      notes: z.string().max(1000).optional(),
+      photoUrls: z.array(z.string().url()).max(5).optional(),
+    })).min(1),
+    notes: z.string().max(1000).optional(),
+  }),
+
+  // Admin return list filters
+  filters: z.object({
+    status: z.enum(['REQUESTED', 'APPROVED', 'REJECTED', 'RECEIVED', 'REFUNDED']).optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+  }),
+
+  // Approval notes
+  approve: z.object({
+    notes: z.string().max(1000).optional(),
+  }),
+
+  // Rejection reason
+  reject: z.object({
+    reason: z.string().min(1).max(1000),
+  }),
+
+  // Inspection on receipt
+  receive: z.object({
+    items: z.array(z.object({
+      returnItemId: z.string().min(1),
+      condition: z.enum(['RESTOCKABLE', 'DAMAGED', 'OPENED']),
+      restockQuantity: z.number().int().min(0).optional(),
+      lotId: z.string().min(1).optional(),
+      refundAmount: z.number().min(0).optional(),
+    })).min(1),
+    notes: z.string().max(1000).optional(),
+  }),
+};
+
+/**
+ * B2B validation schemas
+ */
+export const B2BSchemas = {
+  // Turning an approved quote into an order; addresses come from the buyer's address book
+  convertQuote: z.object({
+    shippingAddressId: z.string().min(1),
+    billingAddressId: z.string().min(1).optional(),
+    notes: z.string().max(1000).optional(),
+  }),
+
+  // Organization settings; a null threshold means no order waits for approval
+  organization: z.object({
+    name: z.string().trim().min(1).max(200).optional(),
+    approvalThreshold: z.number().positive().nullable().optional(),
+    approvalCurrency: z.string().length(3).optional(),
+  }),
+
+  invitation: z.object({
+    email: z.string().trim().email(),
+    role: z.enum(['OWNER', 'BUYER', 'APPROVER', 'FINANCE_VIEWER']),
+  }),
+
+  acceptInvitation: z.object({
+    token: z.string().min(1).max(200),
+  }),
+
+  memberRole: z.object({
+    role: z.enum(['OWNER', 'BUYER', 'APPROVER', 'FINANCE_VIEWER']),
+  }),
+
+  approvalFilters: z.object({
+    status: z.enum(['PENDING', 'APPROVED', 'REJECTED']).optional(),
+  }),
+
+  // Approvers give a reason when they turn an order down
+  approvalDecision: z.object({
+    reason: z.string().trim().max(1000).optional(),
+  }),
+
+  rejectApproval: z.object({
+    reason: z.string().trim().min(1).max(1000),
+  }),
+
+  orderHistory: z.object({
+    status: z.enum(['pending', 'confirmed', 'processing', 'partially_shipped', 'shipped', 'partially_delivered', 'delivered', 'cancelled', 'refunded']).optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+  }),
 };
 
 /**
@@ -450,13 +612,42 @@ export const SearchSchemas = {
   // Search query schema
   query: z.object({
     q: z.string().min(1).max(100),
-    filters: ProductSchemas.filters.optional(),
+    filters: ProductSchemas.filters.extend({
+      sortBy: z.enum(['relevance', 'name', 'price', 'createdAt', 'popularity']).default('relevance'),
+    }).optional(),
     language: z.string().length(2).default('en'),
     region: z.string().length(2).default('IN'),
     currency: z.string().length(3).default('INR'),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
   }),
 };
 
+// Fields every promotion has, whatever its action
+const promotionFields = {
+  name: z.string().min(1).max(200),
+  description: z.string().max(2000).optional(),
+  code: z.string().min(3).max(50).regex(/^[A-Za-z0-9_-]+$/).nullable().optional(),
+  conditions: z.object({
+    categories: z.array(z.string().min(1)).max(50).optional(),
+    productIds: z.array(z.string().min(1)).max(200).optional(),
+    variantIds: z.array(z.string().min(1)).max(200).optional(),
+    minWeightInGrams: z.number().int().min(0).optional(),
+    maxWeightInGrams: z.number().int().positive().optional(),
+    customerRoles: z.array(z.enum(['B2C', 'B2B'])).optional(),
+    regions: z.array(z.string().length(2).toUpperCase()).optional(),
+    currencies: z.array(z.string().length(3).toUpperCase()).optional(),
+    firstOrderOnly: z.boolean().optional(),
+  }).strict().default({}),
+  currency: z.string().length(3).default('INR'),
+  priority: z.number().int().min(-1000).max(1000).default(0),
+  stacking: z.enum(['STACKABLE', 'EXCLUSIVE']).default('STACKABLE'),
+  usageLimit: z.number().int().positive().nullable().optional(),
+  validFrom: z.string().datetime().optional(),
+  validUntil: z.string().datetime().nullable().optional(),
+  isActive: z.boolean().default(true),
+};
+
 /**
  * Admin validation schemas
  */
@@ -486,6 +677,140 @@ export const AdminSchemas = {
     startDate: z.string().datetime().optional(),
     endDate: z.string().datetime().optional(),
   }),
+
+  // Provider settlement report upload
+  settlementImport: z.object({
+    provider: z.enum(['razorpay', 'dibsy', 'telr', 'moyasar', 'oman_net']),
+    fileName: z.string().min(1).max(255),
+    csv: z.string().min(1),
+    amountsInMinorUnits: z.boolean().default(false),
+  }),
+
+  // Carrier cash on delivery remittance upload
+  codRemittanceImport: z.object({
+    carrier: z.enum(['shiprocket']),
+    fileName: z.string().min(1).max(255),
+    csv: z.string().min(1),
+  }),
+
+  // Webhook inbox filters
+  webhookEventFilters: z.object({
+    source: z.enum(['PAYMENT', 'SHIPPING']).optional(),
+    provider: z.string().max(50).optional(),
+    status: z.enum(['RECEIVED', 'PROCESSING', 'PROCESSED', 'FAILED', 'DEAD']).optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+  }),
+
+  // Gateway routing for one region and currency; replaces the existing rules
+  paymentRouting: z.object({
+    currency: z.string().length(3),
+    rules: z.array(z.object({
+      provider: z.enum(['razorpay', 'dibsy', 'telr', 'moyasar', 'oman_net']),
+      priority: z.number().int().min(1).max(10).default(1),
+      weight: z.number().int().min(0).max(100).default(100),
+      isActive: z.boolean().default(true),
+    })).max(5),
+  }),
+
+  // Volume breaks for one variant and currency; replaces the existing tiers
+  priceTiers: z.object({
+    currency: z.string().length(3),
+    tiers: z.array(z.object({
+      minWeightKg: z.number().min(0),
+      unitPrice: z.number().positive(),
+    })).max(10),
+  }),
+
+  // Contract price list; saving an existing list replaces its window and prices
+  priceList: z.object({
+    name: z.string().min(1).max(200),
+    currency: z.string().length(3),
+    validFrom: z.string().datetime().optional(),
+    validUntil: z.string().datetime().nullable().optional(),
+    isActive: z.boolean().default(true),
+    notes: z.string().max(2000).optional(),
+    items: z.array(z.object({
+      variantId: z.string().min(1),
+      unitPrice: z.number().positive(),
+    })).max(1000),
+  }),
+
+  priceListAssignment: z.object({
+    priceListId: z.string().min(1).nullable(),
+  }),
+
+  // Rule-based promotion: the action's shape depends on actionType
+  promotion: z.discriminatedUnion('actionType', [
+    z.object({
+      ...promotionFields,
+      actionType: z.literal('BUY_X_GET_Y'),
+      action: z.object({
+        buyQuantity: z.number().int().min(1),
+        getQuantity: z.number().int().min(1),
+        percentOff: z.number().min(1).max(100).optional(),
+        maxApplications: z.number().int().min(1).optional(),
+      }),
+    }),
+    z.object({
+      ...promotionFields,
+      actionType: z.literal('BUNDLE_PRICE'),
+      action: z.object({
+        quantity: z.number().int().min(2),
+        price: z.number().positive(),
+        maxApplications: z.number().int().min(1).optional(),
+      }),
+    }),
+    z.object({
+      ...promotionFields,
+      actionType: z.literal('TIERED_SPEND'),
+      action: z.object({
+        tiers: z.array(z.object({
+          minSpend: z.number().min(0),
+          percentOff: z.number().min(1).max(100).optional(),
+          amountOff: z.number().positive().optional(),
+        }).refine(tier => (tier.percentOff === undefined) !== (tier.amountOff === undefined), {
+          message: 'Each tier takes either percentOff or amountOff',
+        })).min(1).max(10),
+      }),
+    }),
+    z.object({
+      ...promotionFields,
+      actionType: z.literal('FREE_SAMPLE'),
+      action: z.object({
+        variantId: z.string().min(1),
+        quantity: z.number().int().min(1).max(10).optional(),
+        minSpend: z.number().positive().optional(),
+      }),
+    }),
+  ]),
+
+  // Payment terms and credit limit of an approved B2B account
+  creditTerms: z.object({
+    paymentTerms: z.enum(['PREPAID', 'NET_15', 'NET_30', 'NET_60']),
+    creditLimit: z.number().min(0).nullable(),
+    creditCurrency: z.string().length(3).default('INR'),
+  }),
+
+  receivableFilters: z.object({
+    userId: z.string().optional(),
+    bucket: z.enum(['CURRENT', 'DAYS_1_30', 'DAYS_31_60', 'DAYS_61_90', 'DAYS_90_PLUS']).optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+  }),
+
+  invoicePayment: z.object({
+    amount: z.number().positive(),
+    method: z.enum(['BANK_TRANSFER', 'CHEQUE', 'CARD', 'CASH', 'OTHER']),
+    reference: z.string().max(100).optional(),
+    receivedAt: z.string().datetime().optional(),
+    notes: z.string().max(1000).optional(),
+  }),
+
+  // Manual payment reconciliation run
+  reconcilePayments: z.object({
+    limit: z.number().int().min(1).max(500).default(100),
+  }),
 };
 
 /**
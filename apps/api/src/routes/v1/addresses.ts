@@ -3,6 +3,7 @@ import { AuthMiddleware } from '../../middleware/auth';
 import { rateLimitConfigs } from '../../middleware/rateLimiter';
 import { PrismaClient } from '@prisma/client';
 import { ApiError } from '../../utils/errors';
+import { accountScope } from '../../services/OrganizationService';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -47,8 +48,9 @@ router.get('/', async (req, res, next) => {
       throw new ApiError('User not found', 404, 'USER_NOT_FOUND');
     }
 
+    // Members of an organization share its address book
     const addresses = await prisma.address.findMany({
-      where: { userId },
+      where: accountScope(userId),
       orderBy: [
         { isDefault: 'desc' },
         { createdAt: 'desc' }
@@ -156,7 +158,7 @@ router.post('/', async (req, res, next) => {
     if (isDefault) {
       await prisma.address.updateMany({
         where: {
-          userId,
+          ...accountScope(userId),
           type: type as 'SHIPPING' | 'BILLING',
           isDefault: true
         },
@@ -164,9 +166,16 @@ router.post('/', async (req, res, next) => {
       });
     }
 
+    // Saved for the whole organization when the user buys for one
+    const membership = await prisma.organizationMember.findUnique({
+      where: { userId },
+      select: { organizationId: true }
+    });
+
     const address = await prisma.address.create({
       data: {
         userId,
+        organizationId: membership?.organizationId,
         type: type as 'SHIPPING' | 'BILLING',
         firstName,
         lastName,
@@ -259,9 +268,9 @@ router.put('/:id', async (req, res, next) => {
       throw new ApiError('User not found', 404, 'USER_NOT_FOUND');
     }
 
-    // Check if address exists and belongs to user
+    // Check if address exists and belongs to the user or their organization
     const existingAddress = await prisma.address.findFirst({
-      where: { id: addressId, userId }
+      where: { id: addressId, ...accountScope(userId) }
     });
 
     if (!existingAddress) {
@@ -287,7 +296,7 @@ router.put('/:id', async (req, res, next) => {
     if (isDefault && type) {
       await prisma.address.updateMany({
         where: {
-          userId,
+          ...accountScope(userId),
           type: type as 'SHIPPING' | 'BILLING',
           isDefault: true,
           id: { not: addressId }
@@ -359,9 +368,9 @@ router.delete('/:id', async (req, res, next) => {
       throw new ApiError('User not found', 404, 'USER_NOT_FOUND');
     }
 
-    // Check if address exists and belongs to user
+    // Check if address exists and belongs to the user or their organization
     const existingAddress = await prisma.address.findFirst({
-      where: { id: addressId, userId }
+      where: { id: addressId, ...accountScope(userId) }
     });
 
     if (!existingAddress) {
@@ -417,9 +426,9 @@ router.post('/:id/default', async (req, res, next) => {
       throw new ApiError('User not found', 404, 'USER_NOT_FOUND');
     }
 
-    // Check if address exists and belongs to user
+    // Check if address exists and belongs to the user or their organization
     const existingAddress = await prisma.address.findFirst({
-      where: { id: addressId, userId }
+      where: { id: addressId, ...accountScope(userId) }
     });
 
     if (!existingAddress) {
@@ -429,7 +438,7 @@ router.post('/:id/default', async (req, res, next) => {
     // Unset other defaults of the same type
     await prisma.address.updateMany({
       where: {
-        userId,
+        ...accountScope(userId),
         type: existingAddress.type,
         isDefault: true,
         id: { not: addressId }
@@ -3,23 +3,83 @@ import { z } from 'zod';
 import { 
   ValidationMiddleware, 
   CommonSchemas, 
-  AdminSchemas 
+  AdminSchemas,
+  OrderSchemas,
+  ProductSchemas,
+  ReturnSchemas
 } from '../../middleware/validation';
-import { CacheMiddleware } from '../../middleware/caching';
+import { CacheMiddleware, CacheInvalidation } from '../../middleware/caching';
 import { rateLimitConfigs } from '../../middleware/rateLimiter';
 import { AuthMiddleware } from '../../middleware/auth';
 import { asyncHandler } from '../../middleware/errorHandler';
+import { ProductService } from '../../services/ProductService';
+import {
+  PaymentReconciliationService,
+  SettlementImportResult,
+  StatusReconciliationResult,
+} from '../../services/PaymentReconciliationService';
+import { PaymentRoutingService } from '../../services/PaymentRoutingService';
+import { PricingService } from '../../services/PricingService';
+import { PromotionService } from '../../services/PromotionService';
+import { CreditService } from '../../services/CreditService';
+import { ReturnService, serializeReturn } from '../../services/ReturnService';
+import { OrderStatusService, OrderTransitionResult } from '../../services/OrderStatusService';
+import { WebhookInboxService } from '../../services/WebhookInboxService';
+import { ShippingService } from '../../services/ShippingService';
+import { LabelService } from '../../services/LabelService';
+import { PackingSlipService } from '../../services/PackingSlipService';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import { MetricsCollector } from '../../utils/metrics';
 import { 
   AdminKPI, 
   AuditLog, 
   SystemToggle, 
   CurrencyRate, 
   ApiResponse, 
-  PaginatedResponse 
+  PaginatedResponse,
+  NotFoundError,
+  ValidationError
 } from '@newhill/shared/types/api';
+import { LabelFormat, OrderShipment, ShippingError } from '@newhill/shared/types/shipping';
+import {
+  InvoicePaymentRecord,
+  PaymentProviderHealth,
+  PaymentRoutingRule,
+  Receivable,
+  ReceivablesAgeing,
+} from '@newhill/shared/types/payment';
+import { WebhookEventDetail, WebhookEventSummary } from '@newhill/shared/types/webhook';
+import { PriceList, PriceTierBreak } from '@newhill/shared/types/pricing';
+import { Promotion } from '@newhill/shared/types/promotion';
+import { OrderStatusHistoryEntry } from '@newhill/shared/types/order';
 
 const router = Router();
 
+// Initialize services
+const prisma = new PrismaClient();
+const metrics = MetricsCollector;
+const productService = new ProductService(prisma, logger, metrics);
+const reconciliationService = new PaymentReconciliationService(prisma, logger, metrics);
+const paymentRoutingService = new PaymentRoutingService(prisma, logger, metrics);
+const pricingService = new PricingService(prisma, logger, metrics);
+const promotionService = new PromotionService(prisma, logger, metrics, pricingService);
+const creditService = new CreditService(prisma, logger, metrics);
+const returnService = new ReturnService(prisma, logger, metrics);
+const orderStatusService = new OrderStatusService(prisma, logger, metrics);
+const shippingService = new ShippingService(prisma, logger, metrics);
+const labelService = new LabelService(prisma, logger, metrics);
+const packingSlipService = new PackingSlipService(prisma, logger, metrics);
+const webhookInbox = new WebhookInboxService(prisma, logger, metrics);
+
+const LABEL_CONTENT_TYPES: Record<LabelFormat, string> = {
+  pdf: 'application/pdf',
+  zpl: 'application/x-zpl',
+};
+
+// Shipping errors caused by the request rather than the carrier
+const SHIPMENT_REQUEST_ERRORS = ['ORDER_NOT_SHIPPABLE', 'NO_ITEMS', 'INVALID_ITEM', 'INVALID_QUANTITY'];
+
 // Apply rate limiting
 router.use(rateLimitConfigs.admin);
 
@@ -295,32 +355,130 @@ router.get(
  */
 router.post(
   '/products',
-  ValidationMiddleware.validateBody(AdminSchemas.toggle), // Using toggle schema as placeholder
+  ValidationMiddleware.validateBody(ProductSchemas.create),
   asyncHandler(async (req: Request, res: Response) => {
     const userId = req.user!.id;
 
-    // Mock product creation - in real implementation, this would:
-    // 1. Validate product data
-    // 2. Create product in database
-    // 3. Log audit trail
-    // 4. Invalidate caches
-
-    const mockProduct = {
-      id: 'new-product-id',
-      slug: 'new-product-slug',
-      name: { en: 'New Product' },
-      description: { en: 'New product description' },
-      price: 299,
-      currency: 'INR',
-      category: 'spices',
-      isActive: true,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
+    const product = await productService.createProduct(req.body, userId);
+    await CacheInvalidation.invalidateProduct(product.id);
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: product,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
     };
 
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/products/{id}:
+ *   patch:
+ *     summary: Update product
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ProductCreate'
+ *     responses:
+ *       200:
+ *         description: Product updated
+ *       400:
+ *         description: Invalid request data
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Product not found
+ */
+router.patch(
+  '/products/:id',
+  ValidationMiddleware.validate({
+    params: z.object({
+      id: z.string().min(1),
+    }),
+    body: ProductSchemas.create.partial(),
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+
+    const product = await productService.updateProduct(req.params.id, req.body, userId);
+    await CacheInvalidation.invalidateProduct(product.id);
+
     const response: ApiResponse<any> = {
       success: true,
-      data: mockProduct,
+      data: product,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/products/{id}:
+ *   delete:
+ *     summary: Delete product
+ *     description: Soft-deletes the product and removes it from search results.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     responses:
+ *       200:
+ *         description: Product deleted
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Product not found
+ */
+router.delete(
+  '/products/:id',
+  ValidationMiddleware.validate({
+    params: z.object({
+      id: z.string().min(1),
+    }),
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+
+    await productService.deleteProduct(req.params.id, userId);
+    await CacheInvalidation.invalidateProduct(req.params.id);
+
+    const response: ApiResponse<{ id: string }> = {
+      success: true,
+      data: { id: req.params.id },
       meta: {
         traceId: req.traceId || 'unknown',
         timestamp: new Date().toISOString(),
@@ -698,5 +856,2129 @@ router.get(
   })
 );
 
+/**
+ * @swagger
+ * /api/v1/admin/payments/reconcile:
+ *   post:
+ *     summary: Check stale pending payments against their providers
+ *     description: Runs the same status check as the scheduled reconciliation job. Payments pending longer than the stale window are updated to the provider's status; amount or currency mismatches, and payments captured on cancelled orders, are recorded as reconciliation issues.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               limit:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 500
+ *                 default: 100
+ *     responses:
+ *       200:
+ *         description: Reconciliation run summary
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     checked:
+ *                       type: integer
+ *                     updated:
+ *                       type: integer
+ *                     issues:
+ *                       type: integer
+ *                     errors:
+ *                       type: integer
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ */
+router.post(
+  '/payments/reconcile',
+  ValidationMiddleware.validateBody(AdminSchemas.reconcilePayments),
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await reconciliationService.reconcileStalePayments(req.body.limit);
+
+    const response: ApiResponse<StatusReconciliationResult> = {
+      success: true,
+      data: result,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/payments/routing:
+ *   get:
+ *     summary: List payment routing rules and provider health
+ *     description: Regions without rules use their default provider. Health is the circuit breaker state of each gateway in this API process; an OPEN gateway is skipped at checkout until its reset timeout passes.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: region
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Routing rules and provider health
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     rules:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/PaymentRoutingRule'
+ *                     health:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           provider:
+ *                             type: string
+ *                           state:
+ *                             type: string
+ *                             enum: [CLOSED, OPEN, HALF_OPEN]
+ *                           failures:
+ *                             type: integer
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ */
+router.get(
+  '/payments/routing',
+  ValidationMiddleware.validate({
+    query: z.object({
+      region: z.string().length(2).optional(),
+    }),
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const rules = await paymentRoutingService.listRules(req.query.region as string | undefined);
+
+    const response: ApiResponse<{ rules: PaymentRoutingRule[]; health: PaymentProviderHealth[] }> = {
+      success: true,
+      data: {
+        rules,
+        health: paymentRoutingService.getProviderHealth(),
+      },
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/payments/routing/{region}:
+ *   put:
+ *     summary: Replace a region's payment routing rules
+ *     description: Replaces every rule for the region and currency. Rules are tried by priority; rules sharing a priority split payments by weight, and the others in that priority become failover. An empty list returns the region to its default provider.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: region
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: AE
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [currency, rules]
+ *             properties:
+ *               currency:
+ *                 type: string
+ *                 example: AED
+ *               rules:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [provider]
+ *                   properties:
+ *                     provider:
+ *                       type: string
+ *                       enum: [razorpay, dibsy, telr, moyasar, oman_net]
+ *                     priority:
+ *                       type: integer
+ *                       default: 1
+ *                     weight:
+ *                       type: integer
+ *                       default: 100
+ *                     isActive:
+ *                       type: boolean
+ *                       default: true
+ *     responses:
+ *       200:
+ *         description: Rules replaced
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PaymentRoutingRule'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       400:
+ *         description: Unsupported region, currency or provider
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ */
+router.put(
+  '/payments/routing/:region',
+  ValidationMiddleware.validate({
+    params: z.object({
+      region: z.string().length(2),
+    }),
+    body: AdminSchemas.paymentRouting,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const rules = await paymentRoutingService.replaceRules(
+      req.params.region.toUpperCase(),
+      req.body.currency,
+      req.body.rules
+    );
+
+    const response: ApiResponse<PaymentRoutingRule[]> = {
+      success: true,
+      data: rules,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/pricing/variants/{variantId}/tiers:
+ *   put:
+ *     summary: Replace a variant's volume price tiers
+ *     description: Replaces every tier for the variant in the currency. A tier's unit price applies to approved B2B accounts once a cart, checkout or quote line reaches its minimum weight in kg. Variants without tiers in a currency use their INR tiers converted. An empty list removes the tiers.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: variantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [currency, tiers]
+ *             properties:
+ *               currency:
+ *                 type: string
+ *                 example: INR
+ *               tiers:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [minWeightKg, unitPrice]
+ *                   properties:
+ *                     minWeightKg:
+ *                       type: number
+ *                       example: 10
+ *                     unitPrice:
+ *                       type: number
+ *                       example: 265
+ *     responses:
+ *       200:
+ *         description: Tiers replaced
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PriceTierBreak'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       400:
+ *         description: Duplicate breaks, or a larger tier priced above a smaller one
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Variant not found
+ */
+router.put(
+  '/pricing/variants/:variantId/tiers',
+  ValidationMiddleware.validate({
+    params: z.object({
+      variantId: z.string().min(1),
+    }),
+    body: AdminSchemas.priceTiers,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tiers = await pricingService.replaceTiers(req.params.variantId, req.body.currency, req.body.tiers);
+
+    const response: ApiResponse<PriceTierBreak[]> = {
+      success: true,
+      data: tiers,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/price-lists:
+ *   get:
+ *     summary: List contract price lists
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Price lists with their prices and assigned accounts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PriceList'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ *   post:
+ *     summary: Create a contract price list
+ *     description: Contract prices apply to the approved B2B accounts assigned to the list, in the list's currency, from validFrom until validUntil.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PriceList'
+ *     responses:
+ *       201:
+ *         description: Price list created
+ *       400:
+ *         description: Invalid window, duplicate or unknown variants
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ */
+router.get(
+  '/price-lists',
+  asyncHandler(async (req: Request, res: Response) => {
+    const lists = await pricingService.listPriceLists();
+
+    const response: ApiResponse<PriceList[]> = {
+      success: true,
+      data: lists,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+router.post(
+  '/price-lists',
+  ValidationMiddleware.validateBody(AdminSchemas.priceList),
+  asyncHandler(async (req: Request, res: Response) => {
+    const list = await pricingService.savePriceList(undefined, req.body);
+
+    const response: ApiResponse<PriceList> = {
+      success: true,
+      data: list,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.status(201).json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/price-lists/{id}:
+ *   put:
+ *     summary: Replace a contract price list
+ *     description: Replaces the list's name, window and every price; assigned accounts stay assigned.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PriceList'
+ *     responses:
+ *       200:
+ *         description: Price list replaced
+ *       400:
+ *         description: Invalid window, duplicate or unknown variants
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Price list not found
+ */
+router.put(
+  '/price-lists/:id',
+  ValidationMiddleware.validate({
+    params: z.object({
+      id: z.string().min(1),
+    }),
+    body: AdminSchemas.priceList,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const list = await pricingService.savePriceList(req.params.id, req.body);
+
+    const response: ApiResponse<PriceList> = {
+      success: true,
+      data: list,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/b2b/applications/{id}/price-list:
+ *   put:
+ *     summary: Assign a contract price list to a B2B account
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: B2B application ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [priceListId]
+ *             properties:
+ *               priceListId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Null takes the account back to tier and list prices
+ *     responses:
+ *       200:
+ *         description: Price list assigned
+ *       400:
+ *         description: The application is not approved
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Application or price list not found
+ */
+router.put(
+  '/b2b/applications/:id/price-list',
+  ValidationMiddleware.validate({
+    params: z.object({
+      id: z.string().min(1),
+    }),
+    body: AdminSchemas.priceListAssignment,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    await pricingService.assignPriceList(req.params.id, req.body.priceListId);
+
+    const response: ApiResponse<{ applicationId: string; priceListId: string | null }> = {
+      success: true,
+      data: {
+        applicationId: req.params.id,
+        priceListId: req.body.priceListId,
+      },
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/promotions:
+ *   get:
+ *     summary: List promotions
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Promotions, active ones first by priority
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Promotion'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ *   post:
+ *     summary: Create a promotion
+ *     description: Promotions without a code apply automatically in the cart and at checkout to buyers and lines that meet every condition. Higher priority runs first and each promotion discounts what the ones before it left; an exclusive promotion only applies when nothing else has, and then stops the rest and any discount code.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Promotion'
+ *     responses:
+ *       201:
+ *         description: Promotion created
+ *       400:
+ *         description: Invalid action, window or free sample variant
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ *       409:
+ *         description: Code already used by another promotion or discount code
+ */
+router.get(
+  '/promotions',
+  asyncHandler(async (req: Request, res: Response) => {
+    const promotions = await promotionService.listPromotions();
+
+    const response: ApiResponse<Promotion[]> = {
+      success: true,
+      data: promotions,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+router.post(
+  '/promotions',
+  ValidationMiddleware.validateBody(AdminSchemas.promotion),
+  asyncHandler(async (req: Request, res: Response) => {
+    const promotion = await promotionService.savePromotion(undefined, req.body);
+
+    const response: ApiResponse<Promotion> = {
+      success: true,
+      data: promotion,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.status(201).json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/promotions/{id}:
+ *   put:
+ *     summary: Replace a promotion
+ *     description: Replaces the promotion's rule, stacking and window; uses so far are kept. Set isActive to false to end it early.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Promotion'
+ *     responses:
+ *       200:
+ *         description: Promotion replaced
+ *       400:
+ *         description: Invalid action, window or free sample variant
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Promotion not found
+ *       409:
+ *         description: Code already used by another promotion or discount code
+ */
+router.put(
+  '/promotions/:id',
+  ValidationMiddleware.validate({
+    params: z.object({
+      id: z.string().min(1),
+    }),
+    body: AdminSchemas.promotion,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const promotion = await promotionService.savePromotion(req.params.id, req.body);
+
+    const response: ApiResponse<Promotion> = {
+      success: true,
+      data: promotion,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/b2b/applications/{id}/credit:
+ *   put:
+ *     summary: Set a B2B account's payment terms and credit limit
+ *     description: Accounts on Net 15/30/60 with a credit limit can order on account at checkout; PREPAID accounts pay online. Lowering the limit below the outstanding balance only stops new orders on account.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: B2B application ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [paymentTerms, creditLimit]
+ *             properties:
+ *               paymentTerms:
+ *                 type: string
+ *                 enum: [PREPAID, NET_15, NET_30, NET_60]
+ *               creditLimit:
+ *                 type: number
+ *                 nullable: true
+ *               creditCurrency:
+ *                 type: string
+ *                 default: INR
+ *     responses:
+ *       200:
+ *         description: Terms updated
+ *       400:
+ *         description: The application is not approved
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Application not found
+ */
+router.put(
+  '/b2b/applications/:id/credit',
+  ValidationMiddleware.validate({
+    params: z.object({
+      id: z.string().min(1),
+    }),
+    body: AdminSchemas.creditTerms,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    await creditService.updateTerms(req.params.id, req.body, req.user!.id);
+
+    const response: ApiResponse<{ applicationId: string; paymentTerms: string; creditLimit: number | null; creditCurrency: string }> = {
+      success: true,
+      data: {
+        applicationId: req.params.id,
+        ...req.body,
+      },
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/finance/receivables:
+ *   get:
+ *     summary: Accounts receivable ledger
+ *     description: Invoices billed on payment terms that are not fully paid, most overdue first, with the open balance of every matching invoice aged by days past due.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: bucket
+ *         schema:
+ *           type: string
+ *           enum: [CURRENT, DAYS_1_30, DAYS_31_60, DAYS_61_90, DAYS_90_PLUS]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Open invoices and ageing
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Receivable'
+ *                     pagination:
+ *                       $ref: '#/components/schemas/PaginationMeta'
+ *                     ageing:
+ *                       type: array
+ *                       description: Not narrowed by the bucket filter
+ *                       items:
+ *                         $ref: '#/components/schemas/ReceivablesAgeing'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ */
+router.get(
+  '/finance/receivables',
+  ValidationMiddleware.validate({
+    query: AdminSchemas.receivableFilters,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const filters = AdminSchemas.receivableFilters.parse(req.query);
+    const { items, total, ageing } = await creditService.listReceivables(filters);
+    const pages = Math.ceil(total / filters.limit);
+    const offset = (filters.page - 1) * filters.limit;
+
+    const response: ApiResponse<PaginatedResponse<Receivable> & { ageing: ReceivablesAgeing[] }> = {
+      success: true,
+      data: {
+        items,
+        pagination: {
+          total,
+          limit: filters.limit,
+          offset,
+          page: filters.page,
+          pages,
+          hasNext: filters.page < pages,
+          hasPrev: filters.page > 1,
+        },
+        ageing,
+      },
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/finance/invoices/{id}/payments:
+ *   post:
+ *     summary: Record a payment against an invoice billed on account
+ *     description: Part payments reduce the open balance; the invoice is settled and the order's payment completed once paid in full. The account comes off credit hold when none of its invoices remain overdue.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Invoice ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [amount, method]
+ *             properties:
+ *               amount:
+ *                 type: number
+ *               method:
+ *                 type: string
+ *                 enum: [BANK_TRANSFER, CHEQUE, CARD, CASH, OTHER]
+ *               reference:
+ *                 type: string
+ *                 description: Bank or cheque reference
+ *               receivedAt:
+ *                 type: string
+ *                 format: date-time
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Payment recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     invoiceId:
+ *                       type: string
+ *                     amount:
+ *                       type: number
+ *                     method:
+ *                       type: string
+ *                     reference:
+ *                       type: string
+ *                     receivedAt:
+ *                       type: string
+ *                       format: date-time
+ *                     balance:
+ *                       type: number
+ *                       description: Open balance left on the invoice
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       400:
+ *         description: Not billed on terms, or more than the open balance
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Invoice not found
+ *       409:
+ *         description: Already paid, or updated by another payment at the same time
+ */
+router.post(
+  '/finance/invoices/:id/payments',
+  ValidationMiddleware.validate({
+    params: z.object({
+      id: z.string().min(1),
+    }),
+    body: AdminSchemas.invoicePayment,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const payment = await creditService.recordPayment(req.params.id, req.body, req.user!.id);
+
+    const response: ApiResponse<InvoicePaymentRecord> = {
+      success: true,
+      data: payment,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.status(201).json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/webhooks:
+ *   get:
+ *     summary: List received webhook events
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: source
+ *         schema:
+ *           type: string
+ *           enum: [PAYMENT, SHIPPING]
+ *       - in: query
+ *         name: provider
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [RECEIVED, PROCESSING, PROCESSED, FAILED, DEAD]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Webhook events, newest first, without payloads
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/WebhookEvent'
+ *                     pagination:
+ *                       $ref: '#/components/schemas/PaginationMeta'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ */
+router.get(
+  '/webhooks',
+  ValidationMiddleware.validate({
+    query: AdminSchemas.webhookEventFilters,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const filters = AdminSchemas.webhookEventFilters.parse(req.query);
+    const { page, limit } = filters;
+    const { items, total } = await webhookInbox.listEvents(filters);
+    const offset = (page - 1) * limit;
+
+    const response: ApiResponse<PaginatedResponse<WebhookEventSummary>> = {
+      success: true,
+      data: {
+        items,
+        pagination: {
+          total,
+          limit,
+          offset,
+          page,
+          pages: Math.ceil(total / limit),
+          hasNext: offset + items.length < total,
+          hasPrev: offset > 0,
+        },
+      },
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/webhooks/{id}:
+ *   get:
+ *     summary: Get a webhook event with its payload and headers
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Webhook event
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/WebhookEvent'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Webhook event not found
+ */
+router.get(
+  '/webhooks/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const event = await webhookInbox.getEvent(req.params.id);
+
+    const response: ApiResponse<WebhookEventDetail> = {
+      success: true,
+      data: event,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/webhooks/{id}/replay:
+ *   post:
+ *     summary: Replay a webhook event
+ *     description: Applies the stored payload again, including events that were already processed or have run out of automatic retries. The signature is not checked again; it was checked when the event was received.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Event replayed; its status shows whether it was applied
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/WebhookEvent'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Webhook event not found
+ *       409:
+ *         description: Event is being processed
+ */
+router.post(
+  '/webhooks/:id/replay',
+  asyncHandler(async (req: Request, res: Response) => {
+    const event = await webhookInbox.replay(req.params.id, req.user!.id);
+
+    const response: ApiResponse<WebhookEventDetail> = {
+      success: true,
+      data: event,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/payments/settlements:
+ *   post:
+ *     summary: Import a provider settlement report
+ *     description: Parses a settlement CSV exported from the provider dashboard and matches each row to a payment by provider payment id. Amount, currency and status mismatches and unknown payments are recorded as reconciliation issues. The same file can only be imported once.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [provider, fileName, csv]
+ *             properties:
+ *               provider:
+ *                 type: string
+ *                 enum: [razorpay, dibsy, telr, moyasar, oman_net]
+ *               fileName:
+ *                 type: string
+ *               csv:
+ *                 type: string
+ *                 description: File contents with a header row
+ *               amountsInMinorUnits:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       201:
+ *         description: Report imported
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     reportId:
+ *                       type: string
+ *                     lineCount:
+ *                       type: integer
+ *                     matchedCount:
+ *                       type: integer
+ *                     mismatchCount:
+ *                       type: integer
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       400:
+ *         description: Invalid or unreadable report
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ *       409:
+ *         description: Report already imported
+ */
+router.post(
+  '/payments/settlements',
+  ValidationMiddleware.validateBody(AdminSchemas.settlementImport),
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await reconciliationService.importSettlementReport(req.body, req.user!.id);
+
+    const response: ApiResponse<SettlementImportResult> = {
+      success: true,
+      data: result,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.status(201).json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/payments/cod-remittances:
+ *   post:
+ *     summary: Import a carrier cash on delivery remittance report
+ *     description: Parses a COD remittance CSV exported from the carrier dashboard. Each row is matched to the cash on delivery payment of the shipment with that AWB, falling back to the order number. A remittance for the amount the shipment collected completes the payment; short or unknown remittances and cash for cancelled orders are recorded as reconciliation issues. The same file can only be imported once.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [carrier, fileName, csv]
+ *             properties:
+ *               carrier:
+ *                 type: string
+ *                 enum: [shiprocket]
+ *               fileName:
+ *                 type: string
+ *               csv:
+ *                 type: string
+ *                 description: File contents with a header row
+ *     responses:
+ *       201:
+ *         description: Report imported
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     reportId:
+ *                       type: string
+ *                     lineCount:
+ *                       type: integer
+ *                     matchedCount:
+ *                       type: integer
+ *                     mismatchCount:
+ *                       type: integer
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       400:
+ *         description: Invalid or unreadable report
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ *       409:
+ *         description: Report already imported
+ */
+router.post(
+  '/payments/cod-remittances',
+  ValidationMiddleware.validateBody(AdminSchemas.codRemittanceImport),
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await reconciliationService.importCodRemittance(req.body, req.user!.id);
+
+    const response: ApiResponse<SettlementImportResult> = {
+      success: true,
+      data: result,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.status(201).json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/returns:
+ *   get:
+ *     summary: List return requests
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [REQUESTED, APPROVED, REJECTED, RECEIVED, REFUNDED]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Returns, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Return'
+ *                     pagination:
+ *                       $ref: '#/components/schemas/PaginationMeta'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ */
+router.get(
+  '/returns',
+  ValidationMiddleware.validate({
+    query: ReturnSchemas.filters,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { status, page, limit } = ReturnSchemas.filters.parse(req.query);
+    const { items, total } = await returnService.listReturns({ status, page, limit });
+    const offset = (page - 1) * limit;
+
+    const response: ApiResponse<PaginatedResponse<any>> = {
+      success: true,
+      data: {
+        items: items.map(serializeReturn),
+        pagination: {
+          total,
+          limit: Number(limit),
+          offset,
+          page: Number(page),
+          pages: Math.ceil(total / limit),
+          hasNext: offset + items.length < total,
+          hasPrev: offset > 0,
+        },
+      },
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/returns/{id}/approve:
+ *   post:
+ *     summary: Approve a return request
+ *     description: Approves the request so the customer can send the items back.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Return ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Updated return
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Return'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Return not found
+ *       409:
+ *         description: Return is not in the expected status
+ */
+router.post(
+  '/returns/:id/approve',
+  ValidationMiddleware.validate({
+    params: z.object({
+      id: z.string().min(1),
+    }),
+    body: ReturnSchemas.approve,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const returnRecord = await returnService.approve(req.params.id, req.user!.id, req.body.notes);
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: serializeReturn(returnRecord),
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/returns/{id}/reject:
+ *   post:
+ *     summary: Reject a return request
+ *     description: Rejects the request with a reason; the items stay with the customer and nothing is refunded.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Return ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 description: Shown to the customer
+ *     responses:
+ *       200:
+ *         description: Updated return
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Return'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Return not found
+ *       409:
+ *         description: Return is not in the expected status
+ */
+router.post(
+  '/returns/:id/reject',
+  ValidationMiddleware.validate({
+    params: z.object({
+      id: z.string().min(1),
+    }),
+    body: ReturnSchemas.reject,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const returnRecord = await returnService.reject(req.params.id, req.user!.id, req.body.reason);
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: serializeReturn(returnRecord),
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/returns/{id}/receive:
+ *   post:
+ *     summary: Record receipt and inspection of returned items
+ *     description: Restockable units are added back to the lot they shipped from with an inventory ledger entry; damaged or opened units are written off in the ledger. Sets the amount to be refunded per line.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Return ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [items]
+ *             properties:
+ *               items:
+ *                 type: array
+ *                 description: One inspection per returned item
+ *                 items:
+ *                   type: object
+ *                   required: [returnItemId, condition]
+ *                   properties:
+ *                     returnItemId:
+ *                       type: string
+ *                     condition:
+ *                       type: string
+ *                       enum: [RESTOCKABLE, DAMAGED, OPENED]
+ *                     restockQuantity:
+ *                       type: integer
+ *                       description: Units going back into stock; defaults to all units when restockable
+ *                     lotId:
+ *                       type: string
+ *                       description: Lot to restock into; must be one the order line shipped from
+ *                     refundAmount:
+ *                       type: number
+ *                       description: Defaults to the full value of the returned units and cannot exceed it
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Updated return
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Return'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       400:
+ *         description: Invalid inspection
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Return not found
+ *       409:
+ *         description: Return is not in the expected status
+ */
+router.post(
+  '/returns/:id/receive',
+  ValidationMiddleware.validate({
+    params: z.object({
+      id: z.string().min(1),
+    }),
+    body: ReturnSchemas.receive,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const returnRecord = await returnService.receive(req.params.id, req.user!.id, req.body);
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: serializeReturn(returnRecord),
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/returns/{id}/refund:
+ *   post:
+ *     summary: Refund a received return
+ *     description: Refunds the inspected amount to the order's original payment. The order is only marked refunded once its payment has been refunded in full.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Return ID
+ *     responses:
+ *       200:
+ *         description: Updated return
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Return'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Return not found
+ *       409:
+ *         description: Return is not in the expected status
+ */
+router.post(
+  '/returns/:id/refund',
+  ValidationMiddleware.validate({
+    params: z.object({
+      id: z.string().min(1),
+    }),
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const returnRecord = await returnService.refund(req.params.id, req.user!.id);
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: serializeReturn(returnRecord),
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/orders/{id}/status:
+ *   patch:
+ *     summary: Change an order's status
+ *     description: Moves the order through the order state machine, recording the change in its status history and running the stock and notification side effects. Setting the current status again changes nothing.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [PENDING, CONFIRMED, PROCESSING, PARTIALLY_SHIPPED, SHIPPED, PARTIALLY_DELIVERED, DELIVERED, CANCELLED, REFUNDED]
+ *               notes:
+ *                 type: string
+ *                 description: Reason recorded in the status history
+ *     responses:
+ *       200:
+ *         description: Transition result and the order's status history
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       400:
+ *         description: Unknown status
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: The transition is not allowed or the order changed concurrently
+ */
+router.patch(
+  '/orders/:id/status',
+  ValidationMiddleware.validate({
+    params: z.object({
+      id: z.string().min(1),
+    }),
+    body: OrderSchemas.statusUpdate,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await orderStatusService.transition(
+      req.params.id,
+      req.body.status,
+      { type: 'ADMIN', id: req.user!.id },
+      { reason: req.body.notes }
+    );
+
+    if (result.changed) {
+      await prisma.auditLog.create({
+        data: {
+          userId: req.user!.id,
+          entity: 'Order',
+          entityId: result.orderId,
+          action: 'STATUS_UPDATE',
+          metadata: {
+            oldStatus: result.from,
+            newStatus: result.to,
+            reason: req.body.notes,
+          },
+        },
+      });
+    }
+
+    const response: ApiResponse<OrderTransitionResult & { history: OrderStatusHistoryEntry[] }> = {
+      success: true,
+      data: {
+        ...result,
+        history: await orderStatusService.getHistory(result.orderId),
+      },
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/orders/{id}/shipments:
+ *   post:
+ *     summary: Ship some of an order's lines
+ *     description: Creates a shipment for the given order lines and quantities, so an order can go out in several parts. Without items, every unit not yet in a shipment is shipped. The order status follows from how much of each line has shipped and been delivered.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - orderItemId
+ *                     - quantity
+ *                   properties:
+ *                     orderItemId:
+ *                       type: string
+ *                     quantity:
+ *                       type: integer
+ *                       minimum: 1
+ *               method:
+ *                 type: string
+ *                 enum: [standard, express, overnight, economy, priority]
+ *                 default: standard
+ *     responses:
+ *       201:
+ *         description: Shipment created; returns all of the order's shipments
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/OrderShipment'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       400:
+ *         description: Order cannot be shipped or quantities exceed what is left to ship
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Order not found
+ */
+router.post(
+  '/orders/:id/shipments',
+  ValidationMiddleware.validate({
+    params: z.object({
+      id: z.string().min(1),
+    }),
+    body: OrderSchemas.shipment,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    try {
+      await shippingService.createOrderShipment(req.params.id, req.body.items, req.body.method);
+    } catch (error) {
+      if (error instanceof ShippingError && error.code === 'ORDER_NOT_FOUND') {
+        throw new NotFoundError('Order');
+      }
+
+      if (error instanceof ShippingError && SHIPMENT_REQUEST_ERRORS.includes(error.code)) {
+        throw new ValidationError(error.message, { code: error.code });
+      }
+
+      throw error;
+    }
+
+    const response: ApiResponse<OrderShipment[]> = {
+      success: true,
+      data: await shippingService.getOrderShipments(req.params.id),
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.status(201).json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/shipments/{id}/label:
+ *   get:
+ *     summary: Download a shipment's 4x6 label
+ *     description: Passes through the carrier's own label when its connector can print one in the requested format. Otherwise returns a generic label with the ship-to address and a Code 128 barcode of the tracking number. The X-Label-Source header says which one was returned.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Shipment ID
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [pdf, zpl]
+ *           default: pdf
+ *         description: PDF for office printers, ZPL for thermal label printers
+ *     responses:
+ *       200:
+ *         description: Label file
+ *         headers:
+ *           X-Label-Source:
+ *             schema:
+ *               type: string
+ *               enum: [carrier, generic]
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/x-zpl:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Shipment has no tracking number yet
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Shipment not found
+ */
+router.get(
+  '/shipments/:id/label',
+  ValidationMiddleware.validate({
+    params: z.object({
+      id: z.string().min(1),
+    }),
+    query: OrderSchemas.label,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const format = req.query.format as LabelFormat;
+    const label = await labelService.getShipmentLabel(req.params.id, format);
+
+    res.setHeader('Content-Type', LABEL_CONTENT_TYPES[label.format]);
+    res.setHeader('Content-Disposition', `attachment; filename="label-${label.trackingNumber}.${label.format}"`);
+    res.setHeader('Content-Length', label.content.length);
+    res.setHeader('X-Label-Source', label.source);
+    res.send(label.content);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/pick-waves/labels:
+ *   post:
+ *     summary: Download the labels for a pick wave
+ *     description: Returns one document with a label for every open shipment of the given orders, in the order the orders are listed. Carrier labels are used where available and generic labels otherwise. Orders without a shipment are skipped.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - orderIds
+ *             properties:
+ *               orderIds:
+ *                 type: array
+ *                 minItems: 1
+ *                 maxItems: 100
+ *                 items:
+ *                   type: string
+ *               format:
+ *                 type: string
+ *                 enum: [pdf, zpl]
+ *                 default: pdf
+ *     responses:
+ *       200:
+ *         description: Labels, one per page (PDF) or one per label block (ZPL)
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/x-zpl:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: None of the orders has a shipment to label
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ */
+router.post(
+  '/pick-waves/labels',
+  ValidationMiddleware.validate({
+    body: OrderSchemas.pickWaveLabels,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const batch = await labelService.getPickWaveLabels(req.body.orderIds, req.body.format);
+
+    res.setHeader('Content-Type', LABEL_CONTENT_TYPES[batch.format]);
+    res.setHeader('Content-Disposition', `attachment; filename="labels-${new Date().toISOString().slice(0, 10)}.${batch.format}"`);
+    res.setHeader('Content-Length', batch.content.length);
+    res.setHeader('X-Label-Count', batch.labelCount);
+    res.send(batch.content);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/pick-waves/packing-slips:
+ *   post:
+ *     summary: Download the packing slips for a pick wave
+ *     description: Returns one PDF with a packing slip per order, in the order the orders are listed. Each slip lists the order lines with the batch codes and best-before dates of the lots allocated to them.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - orderIds
+ *             properties:
+ *               orderIds:
+ *                 type: array
+ *                 minItems: 1
+ *                 maxItems: 100
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Packing slips PDF
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: One of the orders was not found
+ */
+router.post(
+  '/pick-waves/packing-slips',
+  ValidationMiddleware.validate({
+    body: OrderSchemas.pickWave,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { reference, pdf } = await packingSlipService.generate(req.body.orderIds);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="packing-slips-${reference}.pdf"`);
+    res.setHeader('Content-Length', pdf.length);
+    res.send(pdf);
+  })
+);
+
 export default router;
 
@@ -3,9 +3,23 @@ import { AuthMiddleware } from '../../middleware/auth';
 import { rateLimitConfigs } from '../../middleware/rateLimiter';
 import { PrismaClient } from '@prisma/client';
 import { ApiError } from '../../utils/errors';
+import { B2BSchemas, ValidationMiddleware } from '../../middleware/validation';
+import { QuotePdfService } from '../../services/QuotePdfService';
+import { PricingService } from '../../services/PricingService';
+import { QuoteService } from '../../services/QuoteService';
+import { OrganizationService, accountScope, canAct } from '../../services/OrganizationService';
+import { OrganizationRole } from '@newhill/shared/types/organization';
+import { AuthorizationError } from '@newhill/shared/types/api';
+import { logger } from '../../utils/logger';
+import { MetricsCollector } from '../../utils/metrics';
 
 const router = Router();
 const prisma = new PrismaClient();
+const metrics = MetricsCollector;
+const quotePdfService = new QuotePdfService(prisma, logger, metrics);
+const quoteService = new QuoteService(prisma, logger, metrics);
+const pricingService = new PricingService(prisma, logger, metrics);
+const organizationService = new OrganizationService(prisma, logger, metrics);
 
 // Apply rate limiting
 router.use(rateLimitConfigs.general);
@@ -13,6 +27,71 @@ router.use(rateLimitConfigs.general);
 // Require authentication for all B2B routes
 router.use(AuthMiddleware.authenticate);
 
+/**
+ * @swagger
+ * /api/v1/b2b/invitations/accept:
+ *   post:
+ *     summary: Join an organization
+ *     description: Accepts an invitation from the link emailed to the invitee. Open to any signed-in account, since invitees usually do not have B2B access yet; joining grants it. The account's email must match the invitation, and it must not already buy for another B2B profile.
+ *     tags: [B2B]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token]
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Joined the organization
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Organization'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       400:
+ *         description: Invitation is expired, revoked or already used
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Invitation was sent to another email address
+ *       409:
+ *         description: Account already has a B2B profile or organization
+ */
+// Registered ahead of the B2B role check: accepting is how an invitee gets B2B access
+router.post('/invitations/accept', ValidationMiddleware.validateBody(B2BSchemas.acceptInvitation), async (req, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new ApiError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    const organization = await organizationService.acceptInvitation(userId, req.body.token);
+
+    res.json({
+      success: true,
+      data: organization,
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: 'v1'
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Check if user has B2B role
 router.use((req, res, next) => {
   if (req.user?.role !== 'B2B' && req.user?.role !== 'ADMIN') {
@@ -77,22 +156,25 @@ router.get('/stats', async (req, res, next) => {
       throw new ApiError('User not found', 404, 'USER_NOT_FOUND');
     }
 
+    // Quotes are shared across the buyer's organization
+    const scope = accountScope(userId);
+
     const [totalQuotes, pendingQuotes, approvedQuotes, totalValue, averageOrderValue] = await Promise.all([
       prisma.b2BQuote.count({
-        where: { userId }
+        where: scope
       }),
       prisma.b2BQuote.count({
-        where: { userId, status: 'REQUESTED' }
+        where: { ...scope, status: 'REQUESTED' }
       }),
       prisma.b2BQuote.count({
-        where: { userId, status: 'APPROVED' }
+        where: { ...scope, status: 'APPROVED' }
       }),
       prisma.b2BQuote.aggregate({
-        where: { userId },
+        where: scope,
         _sum: { totalAmount: true }
       }),
       prisma.b2BQuote.aggregate({
-        where: { userId },
+        where: scope,
         _avg: { totalAmount: true }
       })
     ]);
@@ -184,7 +266,7 @@ router.get('/quotes', async (req, res, next) => {
     const skip = (page - 1) * limit;
     const status = req.query.status as string;
 
-    const whereClause: any = { userId };
+    const whereClause: any = accountScope(userId);
     if (status) {
       whereClause.status = status;
     }
@@ -280,13 +362,15 @@ router.post('/quotes', async (req, res, next) => {
 
     const { items, customerNotes } = req.body;
 
+    // Quotes are requested for the buyer's organization, by members whose role lets them buy
+    const membership = await organizationService.findMembership(userId);
+    if (membership && !canAct(membership.role as OrganizationRole, 'BUY')) {
+      throw new AuthorizationError('Your role in this organization cannot request quotes');
+    }
+
     // Generate quote number
     const quoteNumber = `B2B-${Date.now()}`;
 
-    // Calculate total amount
-    let totalAmount = 0;
-    const quoteItems = [];
-
     for (const item of items || []) {
       const variant = await prisma.productVariant.findUnique({
         where: { id: item.variantId },
@@ -296,24 +380,34 @@ router.post('/quotes', async (req, res, next) => {
       if (!variant) {
         throw new ApiError(`Product variant not found: ${item.variantId}`, 400, 'VARIANT_NOT_FOUND');
       }
+    }
 
-      const unitPrice = variant.basePriceINR;
-      const totalPrice = unitPrice * item.quantity;
+    // Quotes start from the buyer's own tier and contract prices, not list price
+    const prices = await pricingService.resolve(
+      userId,
+      (items || []).map((item: any) => ({ variantId: item.variantId, quantity: item.quantity })),
+      'INR'
+    );
+
+    let totalAmount = 0;
+    const quoteItems = prices.map((price, index) => {
+      const totalPrice = Math.round(price.unitPrice * price.quantity * 100) / 100;
       totalAmount += totalPrice;
 
-      quoteItems.push({
-        variantId: item.variantId,
-        quantity: item.quantity,
-        unitPrice,
+      return {
+        variantId: price.variantId,
+        quantity: price.quantity,
+        unitPrice: price.unitPrice,
         totalPrice,
-        notes: item.notes
-      });
-    }
+        notes: items[index].notes
+      };
+    });
 
     // Create quote with items
     const quote = await prisma.b2BQuote.create({
       data: {
         userId,
+        organizationId: membership?.organizationId,
         quoteNumber,
         totalAmount,
         customerNotes,
@@ -394,7 +488,7 @@ router.get('/quotes/:id', async (req, res, next) => {
     }
 
     const quote = await prisma.b2BQuote.findFirst({
-      where: { id: quoteId, userId },
+      where: { id: quoteId, ...accountScope(userId) },
       include: {
         items: {
           include: {
@@ -430,6 +524,7 @@ router.get('/quotes/:id', async (req, res, next) => {
  * /api/v1/b2b/quotes/{id}/convert:
  *   post:
  *     summary: Convert quote to order
+ *     description: Creates a pending order at the quoted prices and currency and reserves its stock on lots, first expiry first out, for the reservation window. The order is then paid like any other order. Freight is not added; taxes for the destination are.
  *     tags: [B2B]
  *     security:
  *       - bearerAuth: []
@@ -440,19 +535,66 @@ router.get('/quotes/:id', async (req, res, next) => {
  *         schema:
  *           type: string
  *         description: Quote ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [shippingAddressId]
+ *             properties:
+ *               shippingAddressId:
+ *                 type: string
+ *                 description: One of the buyer's saved addresses, or their organization's
+ *               billingAddressId:
+ *                 type: string
+ *                 description: Defaults to the shipping address
+ *               notes:
+ *                 type: string
  *     responses:
- *       200:
- *         description: Quote converted to order successfully
+ *       201:
+ *         description: Order created from the quote
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     orderId:
+ *                       type: string
+ *                     orderNumber:
+ *                       type: string
+ *                     quoteNumber:
+ *                       type: string
+ *                     currency:
+ *                       type: string
+ *                     subtotal:
+ *                       type: number
+ *                     tax:
+ *                       type: number
+ *                     total:
+ *                       type: number
+ *                     reservationExpiresAt:
+ *                       type: string
+ *                       format: date-time
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
  *       404:
- *         description: Quote not found
+ *         description: Quote or address not found
  *       400:
- *         description: Quote cannot be converted
+ *         description: Quote is not approved, has expired, or its stock is no longer available
  *       401:
  *         description: Authentication required
  *       403:
  *         description: B2B access required
+ *       409:
+ *         description: Quote has already been converted
  */
-router.post('/quotes/:id/convert', async (req, res, next) => {
+router.post('/quotes/:id/convert', ValidationMiddleware.validateBody(B2BSchemas.convertQuote), async (req, res, next) => {
   try {
     const userId = req.user?.id;
     const quoteId = req.params.id;
@@ -461,41 +603,11 @@ router.post('/quotes/:id/convert', async (req, res, next) => {
       throw new ApiError('User not found', 404, 'USER_NOT_FOUND');
     }
 
-    const quote = await prisma.b2BQuote.findFirst({
-      where: { id: quoteId, userId },
-      include: {
-        items: {
-          include: {
-            variant: {
-              include: {
-                product: true
-              }
-            }
-          }
-        }
-      }
-    });
-
-    if (!quote) {
-      throw new ApiError('Quote not found', 404, 'QUOTE_NOT_FOUND');
-    }
-
-    if (quote.status !== 'APPROVED') {
-      throw new ApiError('Only approved quotes can be converted to orders', 400, 'QUOTE_NOT_APPROVED');
-    }
-
-    // Update quote status to converted
-    await prisma.b2BQuote.update({
-      where: { id: quoteId },
-      data: { status: 'CONVERTED' }
-    });
-
-    // In a real implementation, you would create an order here
-    // For now, we'll just return success
+    const result = await quoteService.convertToOrder(quoteId, userId, req.body);
 
-    res.json({
+    res.status(201).json({
       success: true,
-      data: { message: 'Quote converted to order successfully' },
+      data: result,
       meta: {
         timestamp: new Date().toISOString(),
         version: 'v1'
@@ -545,33 +657,710 @@ router.get('/quotes/:id/pdf', async (req, res, next) => {
       throw new ApiError('User not found', 404, 'USER_NOT_FOUND');
     }
 
-    const quote = await prisma.b2BQuote.findFirst({
-      where: { id: quoteId, userId },
-      include: {
-        items: {
-          include: {
-            variant: {
-              include: {
-                product: true
-              }
-            }
-          }
-        }
+    const { quoteNumber, pdf } = await quotePdfService.generate(quoteId, userId);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="quote-${quoteNumber}.pdf"`);
+    res.setHeader('Content-Length', pdf.length);
+    res.send(pdf);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/b2b/organization:
+ *   get:
+ *     summary: Get the buyer's organization
+ *     description: The organization that owns the buyer's B2B profile, with their role in it. An approved account from before organizations existed becomes an organization owned by its applicant on first use.
+ *     tags: [B2B]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The organization
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Organization'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: B2B access required
+ *       404:
+ *         description: The buyer has no approved B2B profile or organization
+ *   put:
+ *     summary: Update organization settings
+ *     description: Owners only. Orders above the approval threshold wait for an owner or approver before they can be paid; orders in another currency than the threshold always do. A null threshold turns approvals off.
+ *     tags: [B2B]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               approvalThreshold:
+ *                 type: number
+ *                 nullable: true
+ *               approvalCurrency:
+ *                 type: string
+ *                 example: INR
+ *     responses:
+ *       200:
+ *         description: Updated organization
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Organization'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       400:
+ *         description: Invalid settings
+ *       403:
+ *         description: Only owners can change settings
+ */
+router.get('/organization', async (req, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new ApiError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    const organization = await organizationService.getOrganization(userId);
+
+    res.json({
+      success: true,
+      data: organization,
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: 'v1'
       }
     });
+  } catch (error) {
+    next(error);
+  }
+});
 
-    if (!quote) {
-      throw new ApiError('Quote not found', 404, 'QUOTE_NOT_FOUND');
+router.put('/organization', ValidationMiddleware.validateBody(B2BSchemas.organization), async (req, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new ApiError('User not found', 404, 'USER_NOT_FOUND');
     }
 
-    // In a real implementation, you would generate a PDF
-    // For now, we'll return a mock response
-    res.setHeader('Content-Type', 'application/pdf');
-    res.setHeader('Content-Disposition', `attachment; filename="quote-${quote.quoteNumber}.pdf"`);
-    
-    // Mock PDF content
-    const mockPdf = Buffer.from('Mock PDF content for quote');
-    res.send(mockPdf);
+    const organization = await organizationService.updateSettings(userId, req.body);
+
+    res.json({
+      success: true,
+      data: organization,
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: 'v1'
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/b2b/organization/members:
+ *   get:
+ *     summary: List organization members
+ *     tags: [B2B]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Members and their roles
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/OrganizationMember'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Organization not found
+ */
+router.get('/organization/members', async (req, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new ApiError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    const members = await organizationService.listMembers(userId);
+
+    res.json({
+      success: true,
+      data: members,
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: 'v1'
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/b2b/organization/members/{id}:
+ *   put:
+ *     summary: Change a member's role
+ *     description: Owners only. Buyers place orders and request quotes, approvers also approve orders over the threshold, finance viewers only see orders, quotes and invoices. The last owner cannot be demoted.
+ *     tags: [B2B]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Member ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [role]
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [OWNER, BUYER, APPROVER, FINANCE_VIEWER]
+ *     responses:
+ *       200:
+ *         description: Role changed
+ *       400:
+ *         description: The organization would be left without an owner
+ *       403:
+ *         description: Only owners can manage members
+ *       404:
+ *         description: Member not found
+ *   delete:
+ *     summary: Remove a member
+ *     description: Owners only. The member loses B2B access unless they have an approved profile of their own. The last owner cannot be removed.
+ *     tags: [B2B]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Member ID
+ *     responses:
+ *       200:
+ *         description: Member removed
+ *       400:
+ *         description: The organization would be left without an owner
+ *       403:
+ *         description: Only owners can manage members
+ *       404:
+ *         description: Member not found
+ */
+router.put('/organization/members/:id', ValidationMiddleware.validateBody(B2BSchemas.memberRole), async (req, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new ApiError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    await organizationService.changeRole(userId, req.params.id, req.body.role);
+
+    res.json({
+      success: true,
+      data: { message: 'Member role updated' },
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: 'v1'
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/organization/members/:id', async (req, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new ApiError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    await organizationService.removeMember(userId, req.params.id);
+
+    res.json({
+      success: true,
+      data: { message: 'Member removed' },
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: 'v1'
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/b2b/organization/invitations:
+ *   get:
+ *     summary: List open invitations
+ *     description: Owners only. Invitations not yet accepted, revoked or expired.
+ *     tags: [B2B]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Open invitations
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/OrganizationInvitation'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       403:
+ *         description: Only owners can manage members
+ *   post:
+ *     summary: Invite a member
+ *     description: Owners only. Emails a link to join with the given role; it expires after ORGANIZATION_INVITE_TTL_DAYS. Inviting the same address again replaces the earlier link.
+ *     tags: [B2B]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email, role]
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               role:
+ *                 type: string
+ *                 enum: [OWNER, BUYER, APPROVER, FINANCE_VIEWER]
+ *     responses:
+ *       201:
+ *         description: Invitation sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/OrganizationInvitation'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       403:
+ *         description: Only owners can manage members
+ *       409:
+ *         description: Already a member
+ */
+router.get('/organization/invitations', async (req, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new ApiError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    const invitations = await organizationService.listInvitations(userId);
+
+    res.json({
+      success: true,
+      data: invitations,
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: 'v1'
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/organization/invitations', ValidationMiddleware.validateBody(B2BSchemas.invitation), async (req, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new ApiError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    const invitation = await organizationService.invite(userId, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: invitation,
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: 'v1'
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/b2b/organization/invitations/{id}:
+ *   delete:
+ *     summary: Revoke an invitation
+ *     tags: [B2B]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Invitation ID
+ *     responses:
+ *       200:
+ *         description: Invitation revoked
+ *       403:
+ *         description: Only owners can manage members
+ *       404:
+ *         description: No open invitation with this ID
+ */
+router.delete('/organization/invitations/:id', async (req, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new ApiError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    await organizationService.revokeInvitation(userId, req.params.id);
+
+    res.json({
+      success: true,
+      data: { message: 'Invitation revoked' },
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: 'v1'
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/b2b/approvals:
+ *   get:
+ *     summary: List order approvals
+ *     description: Orders over the organization's approval threshold, newest first, up to 100.
+ *     tags: [B2B]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, APPROVED, REJECTED]
+ *     responses:
+ *       200:
+ *         description: Approvals
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/OrderApproval'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       404:
+ *         description: Organization not found
+ */
+router.get('/approvals', ValidationMiddleware.validateQuery(B2BSchemas.approvalFilters), async (req, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new ApiError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    const { status } = B2BSchemas.approvalFilters.parse(req.query);
+    const approvals = await organizationService.listApprovals(userId, status);
+
+    res.json({
+      success: true,
+      data: approvals,
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: 'v1'
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/b2b/approvals/{id}/approve:
+ *   post:
+ *     summary: Approve an order
+ *     description: Owners and approvers. The buyer then pays for the order through checkout/resume.
+ *     tags: [B2B]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Approval ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Order approved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/OrderApproval'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       403:
+ *         description: Only owners and approvers can decide
+ *       404:
+ *         description: Approval not found
+ *       409:
+ *         description: Already decided
+ */
+router.post('/approvals/:id/approve', ValidationMiddleware.validateBody(B2BSchemas.approvalDecision), async (req, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new ApiError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    const approval = await organizationService.decide(userId, req.params.id, 'APPROVED', req.body.reason);
+
+    res.json({
+      success: true,
+      data: approval,
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: 'v1'
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/b2b/approvals/{id}/reject:
+ *   post:
+ *     summary: Reject an order
+ *     description: Owners and approvers. The order is cancelled and any stock held for it released.
+ *     tags: [B2B]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Approval ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Order rejected
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/OrderApproval'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       403:
+ *         description: Only owners and approvers can decide
+ *       404:
+ *         description: Approval not found
+ *       409:
+ *         description: Already decided
+ */
+router.post('/approvals/:id/reject', ValidationMiddleware.validateBody(B2BSchemas.rejectApproval), async (req, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new ApiError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    const approval = await organizationService.decide(userId, req.params.id, 'REJECTED', req.body.reason);
+
+    res.json({
+      success: true,
+      data: approval,
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: 'v1'
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/b2b/orders:
+ *   get:
+ *     summary: Get the organization's order history
+ *     description: Orders placed by every member of the buyer's organization, newest first, with who placed them and their approval.
+ *     tags: [B2B]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, confirmed, processing, partially_shipped, shipped, partially_delivered, delivered, cancelled, refunded]
+ *     responses:
+ *       200:
+ *         description: Orders
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/PaginatedResponse'
+ *                     - type: object
+ *                       properties:
+ *                         items:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/OrganizationOrder'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       404:
+ *         description: Organization not found
+ */
+router.get('/orders', ValidationMiddleware.validateQuery(B2BSchemas.orderHistory), async (req, res, next) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new ApiError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    const filters = B2BSchemas.orderHistory.parse(req.query);
+    const { items, total } = await organizationService.listOrders(userId, filters);
+
+    res.json({
+      success: true,
+      data: {
+        items,
+        pagination: {
+          page: filters.page,
+          limit: filters.limit,
+          total,
+          pages: Math.ceil(total / filters.limit)
+        }
+      },
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: 'v1'
+      }
+    });
   } catch (error) {
     next(error);
   }
@@ -8,16 +8,45 @@ import {
 import { CacheMiddleware } from '../../middleware/caching';
 import { rateLimitConfigs } from '../../middleware/rateLimiter';
 import { AuthMiddleware } from '../../middleware/auth';
+import { GuestCartMiddleware } from '../../middleware/guestCart';
 import { asyncHandler } from '../../middleware/errorHandler';
-import { Cart, CartItem, ApiResponse, ConflictError } from '@newhill/shared/types/api';
+import { CartService, CartOwner } from '../../services/CartService';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import { MetricsCollector } from '../../utils/metrics';
+import { Cart, CartMergeResult, ApiResponse } from '@newhill/shared/types/api';
 
 const router = Router();
 
+// Initialize services
+const prisma = new PrismaClient();
+const metrics = MetricsCollector;
+const cartService = new CartService(prisma, logger, metrics);
+
 // Apply rate limiting
 router.use(rateLimitConfigs.general);
 
-// Require authentication for all cart routes
-router.use(AuthMiddleware.authenticate);
+// Signed-in shoppers use their account cart; anonymous shoppers get a guest cart cookie
+router.use(AuthMiddleware.optionalAuth);
+router.use(GuestCartMiddleware.identify);
+
+function getCartOwner(req: Request): CartOwner {
+  if (req.user) {
+    return { userId: req.user.id };
+  }
+
+  return { sessionToken: req.guestCartToken };
+}
+
+// Prices are resolved per request so the cart always reflects the shopper's currency
+function getCartCurrency(req: Request): string {
+  const header = req.headers['x-currency'];
+  const currency = typeof header === 'string' && header.length === 3
+    ? header
+    : req.user?.preferences.currency || 'INR';
+
+  return currency.toUpperCase();
+}
 
 /**
  * @swagger
@@ -27,6 +56,7 @@ router.use(AuthMiddleware.authenticate);
  *     tags: [Cart]
  *     security:
  *       - bearerAuth: []
+ *       - {}
  *     responses:
  *       200:
  *         description: User's cart
@@ -41,8 +71,6 @@ router.use(AuthMiddleware.authenticate);
  *                   $ref: '#/components/schemas/Cart'
  *                 meta:
  *                   $ref: '#/components/schemas/ApiMeta'
- *       401:
- *         description: Authentication required
  */
 router.get(
   '/',
@@ -52,41 +80,11 @@ router.get(
     skipCache: () => true, // Always skip cache for authenticated users
   }),
   asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
-
-    // Mock cart data - in real implementation, this would query the database
-    const mockCart: Cart = {
-      id: 'cart-1',
-      userId,
-      items: [
-        {
-          id: 'item-1',
-          productId: '1',
-          variantId: '1',
-          quantity: 2,
-          price: 299,
-          addedAt: new Date().toISOString(),
-        },
-        {
-          id: 'item-2',
-          productId: '2',
-          quantity: 1,
-          price: 199,
-          addedAt: new Date().toISOString(),
-        },
-      ],
-      subtotal: 797,
-      tax: 143.46,
-      shipping: 50,
-      total: 990.46,
-      currency: 'INR',
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
+    const cart = await cartService.getCart(getCartOwner(req), getCartCurrency(req));
 
     const response: ApiResponse<Cart> = {
       success: true,
-      data: mockCart,
+      data: cart,
       meta: {
         traceId: req.traceId || 'unknown',
         timestamp: new Date().toISOString(),
@@ -106,6 +104,7 @@ router.get(
  *     tags: [Cart]
  *     security:
  *       - bearerAuth: []
+ *       - {}
  *     requestBody:
  *       required: true
  *       content:
@@ -128,50 +127,26 @@ router.get(
  *                   $ref: '#/components/schemas/ApiMeta'
  *       400:
  *         description: Invalid request data
- *       401:
- *         description: Authentication required
+ *       404:
+ *         description: Product or variant not found
  *       409:
- *         description: Item already in cart
+ *         description: Insufficient stock
  */
 router.post(
   '/',
   ValidationMiddleware.validateBody(CartSchemas.item),
   asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
     const { productId, variantId, quantity } = req.body;
 
-    // Mock validation - in real implementation, this would check:
-    // 1. Product exists and is active
-    // 2. Variant exists (if provided)
-    // 3. Stock availability
-    // 4. B2B weight restrictions (5kg rule)
-
-    // Mock cart update - in real implementation, this would update the database
-    const mockCart: Cart = {
-      id: 'cart-1',
-      userId,
-      items: [
-        {
-          id: 'item-1',
-          productId,
-          variantId,
-          quantity,
-          price: 299,
-          addedAt: new Date().toISOString(),
-        },
-      ],
-      subtotal: 299 * quantity,
-      tax: 299 * quantity * 0.18,
-      shipping: 50,
-      total: 299 * quantity + 299 * quantity * 0.18 + 50,
-      currency: 'INR',
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
+    const cart = await cartService.addItem(
+      getCartOwner(req),
+      { productId, variantId, quantity },
+      getCartCurrency(req)
+    );
 
     const response: ApiResponse<Cart> = {
       success: true,
-      data: mockCart,
+      data: cart,
       meta: {
         traceId: req.traceId || 'unknown',
         timestamp: new Date().toISOString(),
@@ -191,6 +166,7 @@ router.post(
  *     tags: [Cart]
  *     security:
  *       - bearerAuth: []
+ *       - {}
  *     requestBody:
  *       required: true
  *       content:
@@ -213,40 +189,18 @@ router.post(
  *                   $ref: '#/components/schemas/ApiMeta'
  *       400:
  *         description: Invalid request data
- *       401:
- *         description: Authentication required
  */
 router.patch(
   '/',
   ValidationMiddleware.validateBody(CartSchemas.update),
   asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
     const { items } = req.body;
 
-    // Mock cart update - in real implementation, this would update the database
-    const mockCart: Cart = {
-      id: 'cart-1',
-      userId,
-      items: items.map((item: any, index: number) => ({
-        id: item.id || `item-${index + 1}`,
-        productId: item.productId,
-        variantId: item.variantId,
-        quantity: item.quantity,
-        price: 299,
-        addedAt: new Date().toISOString(),
-      })),
-      subtotal: items.reduce((sum: number, item: any) => sum + 299 * item.quantity, 0),
-      tax: items.reduce((sum: number, item: any) => sum + 299 * item.quantity * 0.18, 0),
-      shipping: 50,
-      total: items.reduce((sum: number, item: any) => sum + 299 * item.quantity + 299 * item.quantity * 0.18, 0) + 50,
-      currency: 'INR',
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
+    const cart = await cartService.replaceItems(getCartOwner(req), items, getCartCurrency(req));
 
     const response: ApiResponse<Cart> = {
       success: true,
-      data: mockCart,
+      data: cart,
       meta: {
         traceId: req.traceId || 'unknown',
         timestamp: new Date().toISOString(),
@@ -260,22 +214,16 @@ router.patch(
 
 /**
  * @swagger
- * /api/v1/cart/{itemId}:
+ * /api/v1/cart/clear:
  *   delete:
- *     summary: Remove item from cart
+ *     summary: Clear all items from cart
  *     tags: [Cart]
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: itemId
- *         required: true
- *         schema:
- *           type: string
- *         description: Cart item ID
+ *       - {}
  *     responses:
  *       200:
- *         description: Item removed from cart
+ *         description: Cart cleared
  *         content:
  *           application/json:
  *             schema:
@@ -287,39 +235,15 @@ router.patch(
  *                   $ref: '#/components/schemas/Cart'
  *                 meta:
  *                   $ref: '#/components/schemas/ApiMeta'
- *       401:
- *         description: Authentication required
- *       404:
- *         description: Item not found in cart
  */
 router.delete(
-  '/:itemId',
-  ValidationMiddleware.validate({
-    params: z.object({
-      itemId: z.string().uuid(),
-    }),
-  }),
+  '/clear',
   asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
-    const { itemId } = req.params;
-
-    // Mock cart update - in real implementation, this would update the database
-    const mockCart: Cart = {
-      id: 'cart-1',
-      userId,
-      items: [],
-      subtotal: 0,
-      tax: 0,
-      shipping: 0,
-      total: 0,
-      currency: 'INR',
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
+    const cart = await cartService.clearCart(getCartOwner(req), getCartCurrency(req));
 
     const response: ApiResponse<Cart> = {
       success: true,
-      data: mockCart,
+      data: cart,
       meta: {
         traceId: req.traceId || 'unknown',
         timestamp: new Date().toISOString(),
@@ -333,21 +257,27 @@ router.delete(
 
 /**
  * @swagger
- * /api/v1/cart/merge:
+ * /api/v1/cart/coupon:
  *   post:
- *     summary: Merge guest cart with user cart
+ *     summary: Apply a discount code to the cart
+ *     description: Accepts discount codes and promotion codes. A promotion code is only kept when the cart qualifies for the promotion; automatic promotions need no code.
  *     tags: [Cart]
  *     security:
  *       - bearerAuth: []
+ *       - {}
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/CartMerge'
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code:
+ *                 type: string
  *     responses:
  *       200:
- *         description: Cart merged successfully
+ *         description: Discount applied
  *         content:
  *           application/json:
  *             schema:
@@ -360,49 +290,24 @@ router.delete(
  *                 meta:
  *                   $ref: '#/components/schemas/ApiMeta'
  *       400:
- *         description: Invalid request data
- *       401:
- *         description: Authentication required
+ *         description: Invalid, expired or ineligible discount code, or a promotion the cart does not qualify for
  */
 router.post(
-  '/merge',
-  ValidationMiddleware.validateBody(CartSchemas.merge),
+  '/coupon',
+  ValidationMiddleware.validateBody(CartSchemas.coupon),
   asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
-    const { guestCartId } = req.body;
-
-    // Mock cart merge - in real implementation, this would:
-    // 1. Fetch guest cart
-    // 2. Merge items with user cart
-    // 3. Handle conflicts (same product/variant)
-    // 4. Update quantities
-    // 5. Delete guest cart
-
-    const mockCart: Cart = {
-      id: 'cart-1',
-      userId,
-      items: [
-        {
-          id: 'item-1',
-          productId: '1',
-          variantId: '1',
-          quantity: 2,
-          price: 299,
-          addedAt: new Date().toISOString(),
-        },
-      ],
-      subtotal: 598,
-      tax: 107.64,
-      shipping: 50,
-      total: 755.64,
-      currency: 'INR',
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
+    const { code } = req.body;
+
+    const cart = await cartService.applyCoupon(
+      getCartOwner(req),
+      code,
+      getCartCurrency(req),
+      req.user?.role === 'b2b'
+    );
 
     const response: ApiResponse<Cart> = {
       success: true,
-      data: mockCart,
+      data: cart,
       meta: {
         traceId: req.traceId || 'unknown',
         timestamp: new Date().toISOString(),
@@ -416,15 +321,16 @@ router.post(
 
 /**
  * @swagger
- * /api/v1/cart/clear:
+ * /api/v1/cart/coupon:
  *   delete:
- *     summary: Clear all items from cart
+ *     summary: Remove the discount code from the cart
  *     tags: [Cart]
  *     security:
  *       - bearerAuth: []
+ *       - {}
  *     responses:
  *       200:
- *         description: Cart cleared
+ *         description: Discount removed
  *         content:
  *           application/json:
  *             schema:
@@ -436,31 +342,129 @@ router.post(
  *                   $ref: '#/components/schemas/Cart'
  *                 meta:
  *                   $ref: '#/components/schemas/ApiMeta'
- *       401:
- *         description: Authentication required
  */
 router.delete(
-  '/clear',
+  '/coupon',
   asyncHandler(async (req: Request, res: Response) => {
-    const userId = req.user!.id;
-
-    // Mock cart clear - in real implementation, this would clear the database
-    const mockCart: Cart = {
-      id: 'cart-1',
-      userId,
-      items: [],
-      subtotal: 0,
-      tax: 0,
-      shipping: 0,
-      total: 0,
-      currency: 'INR',
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
+    const cart = await cartService.removeCoupon(getCartOwner(req), getCartCurrency(req));
+
+    const response: ApiResponse<Cart> = {
+      success: true,
+      data: cart,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
     };
 
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/cart/{itemId}:
+ *   delete:
+ *     summary: Remove item from cart
+ *     tags: [Cart]
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
+ *     parameters:
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Cart item ID
+ *     responses:
+ *       200:
+ *         description: Item removed from cart
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Cart'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       404:
+ *         description: Item not found in cart
+ */
+router.delete(
+  '/:itemId',
+  ValidationMiddleware.validate({
+    params: z.object({
+      itemId: z.string().min(1),
+    }),
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { itemId } = req.params;
+
+    const cart = await cartService.removeItem(getCartOwner(req), itemId, getCartCurrency(req));
+
     const response: ApiResponse<Cart> = {
       success: true,
-      data: mockCart,
+      data: cart,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/cart/merge:
+ *   post:
+ *     summary: Merge guest cart with user cart
+ *     description: |
+ *       Merges the cart identified by the guest cart cookie into the signed-in user's cart.
+ *       Quantities are summed and clamped to the variant's maximum order quantity and
+ *       available stock; every adjusted or dropped line is reported in `conflicts`.
+ *     tags: [Cart]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Cart merged successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/CartMergeResult'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       401:
+ *         description: Authentication required
+ */
+router.post(
+  '/merge',
+  AuthMiddleware.authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const sessionToken = GuestCartMiddleware.readToken(req);
+
+    const result = sessionToken
+      ? await cartService.mergeGuestCart(req.user!.id, sessionToken, getCartCurrency(req))
+      : { cart: await cartService.getCart(getCartOwner(req), getCartCurrency(req)), conflicts: [] };
+
+    GuestCartMiddleware.clear(res);
+
+    const response: ApiResponse<CartMergeResult> = {
+      success: true,
+      data: result,
       meta: {
         traceId: req.traceId || 'unknown',
         timestamp: new Date().toISOString(),
@@ -10,19 +10,53 @@ import { AuthMiddleware } from '../../middleware/auth';
 import { asyncHandler } from '../../middleware/errorHandler';
 import { PaymentService } from '../../services/PaymentService';
 import { ShippingService } from '../../services/ShippingService';
-import { PrismaClient } from '@prisma/client';
-import { Logger } from '../../utils/logger';
+import { RateShoppingService } from '../../services/RateShoppingService';
+import { InvoiceService } from '../../services/InvoiceService';
+import { OrderStatusService } from '../../services/OrderStatusService';
+import { CodService } from '../../services/CodService';
+import { PricingService } from '../../services/PricingService';
+import { CreditService } from '../../services/CreditService';
+import { OrganizationService, canAct } from '../../services/OrganizationService';
+import { PromotionService } from '../../services/PromotionService';
+import { InventoryService } from '../../services/InventoryService';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { logger } from '../../utils/logger';
 import { MetricsCollector } from '../../utils/metrics';
-import { ApiResponse, ValidationError, NotFoundError } from '@newhill/shared/types/api';
+import { ApiResponse, ValidationError, NotFoundError, ConflictError, AuthorizationError } from '@newhill/shared/types/api';
+import { RateShoppingResult } from '@newhill/shared/types/shipping';
+import { CodEligibility, CreditEligibility, getRegionCurrency } from '@newhill/shared/types/payment';
+import { OrderApproval, OrganizationRole } from '@newhill/shared/types/organization';
 
 const router = Router();
 
 // Initialize services
 const prisma = new PrismaClient();
-const logger = new Logger();
-const metrics = new MetricsCollector();
-const paymentService = new PaymentService(prisma, logger, metrics);
-const shippingService = new ShippingService(prisma, logger, metrics);
+const metrics = MetricsCollector;
+const orderStatusService = new OrderStatusService(prisma, logger, metrics);
+const paymentService = new PaymentService(prisma, logger, metrics, orderStatusService);
+const shippingService = new ShippingService(prisma, logger, metrics, orderStatusService);
+const rateShoppingService = new RateShoppingService(prisma, logger, metrics);
+const invoiceService = new InvoiceService(prisma, logger, metrics);
+const codService = new CodService(prisma, logger, metrics, orderStatusService);
+const pricingService = new PricingService(prisma, logger, metrics);
+const creditService = new CreditService(prisma, logger, metrics, orderStatusService);
+const organizationService = new OrganizationService(prisma, logger, metrics, orderStatusService);
+const promotionService = new PromotionService(prisma, logger, metrics, pricingService);
+const inventoryService = new InventoryService(prisma, logger, metrics);
+
+// Shipping charged when no carrier can quote the order, in INR
+const FLAT_SHIPPING_INR = 50;
+
+// Parcels are rated from the Mumbai warehouse
+const WAREHOUSE_ORIGIN = {
+  name: 'Newhill Spices Warehouse',
+  address1: 'Warehouse Address',
+  city: 'Mumbai',
+  state: 'Maharashtra',
+  country: 'IN',
+  postalCode: '400001',
+  phone: '+91-9876543210',
+};
 
 // Apply rate limiting
 router.use(rateLimitConfigs.checkout);
@@ -35,6 +69,7 @@ router.use(AuthMiddleware.authenticate);
  * /api/v1/checkout/start:
  *   post:
  *     summary: Start checkout process
+ *     description: Automatic promotions are applied again against the shipping address; pass promotionCode for a promotion code entered in the cart. Promotion discounts come off the order lines and free samples are added as lines of their own.
  *     tags: [Checkout]
  *     security:
  *       - bearerAuth: []
@@ -61,6 +96,8 @@ router.use(AuthMiddleware.authenticate);
  *                       $ref: '#/components/schemas/Order'
  *                     payment:
  *                       $ref: '#/components/schemas/PaymentResponse'
+ *                     approval:
+ *                       $ref: '#/components/schemas/OrderApproval'
  *                     shipping:
  *                       $ref: '#/components/schemas/ShippingResponse'
  *                 meta:
@@ -69,73 +106,97 @@ router.use(AuthMiddleware.authenticate);
  *         description: Invalid request data
  *       401:
  *         description: Authentication required
+ *       403:
+ *         description: The buyer's role in their organization cannot place orders
  *       409:
- *         description: Duplicate order (idempotency key)
+ *         description: Duplicate order (idempotency key), or a promotion ran out of uses
  */
 router.post(
   '/start',
   ValidationMiddleware.validateBody(OrderSchemas.checkout),
   asyncHandler(async (req: Request, res: Response) => {
     const userId = req.user!.id;
-    const { items, shippingAddress, billingAddress, paymentMethod, shippingMethod, notes, idempotencyKey } = req.body;
+    const {
+      items,
+      shippingAddress,
+      billingAddress,
+      paymentMethod,
+      purchaseOrderNumber,
+      shippingMethod,
+      notes,
+      promotionCode,
+      idempotencyKey,
+    } = req.body;
 
     try {
-      // 1. Validate and create order
+      // 1. Validate and create order, with the selected shipping quote, taxes and totals
       const order = await createOrder(userId, {
         items,
         shippingAddress,
         billingAddress,
+        shippingMethod,
         notes,
+        promotionCode,
         idempotencyKey,
       });
 
-      // 2. Calculate totals
-      const totals = await calculateOrderTotals(order.id, items);
-
-      // 3. Initiate payment
-      const paymentResponse = await paymentService.initiatePayment({
-        orderId: order.id,
-        amount: totals.total,
-        currency: totals.currency,
-        customer: {
-          id: userId,
-          email: req.user!.email,
-          name: req.user!.name || 'Customer',
-        },
-        billingAddress,
-        shippingAddress,
-        items: items.map(item => ({
-          id: item.productId,
-          name: `Product ${item.productId}`,
-          quantity: item.quantity,
-          unitPrice: item.price || 0,
-          totalPrice: (item.price || 0) * item.quantity,
-        })),
-        idempotencyKey,
-      });
+      let totals = order.totals;
 
-      // 4. Get shipping rates
-      const shippingRates = await shippingService.getShippingRates({
-        origin: {
-          name: 'Newhill Spices Warehouse',
-          address1: 'Warehouse Address',
-          city: 'Mumbai',
-          state: 'Maharashtra',
-          country: 'IN',
-          postalCode: '400001',
-          phone: '+91-9876543210',
-        },
-        destination: shippingAddress,
-        weight: calculateTotalWeight(items),
-        method: shippingMethod,
-        currency: totals.currency,
-      });
+      // 2. Orders over the organization's approval threshold wait for an approver before they are paid
+      const approval = await organizationService.requireApproval(order.id, userId);
+
+      // 3. Initiate payment; cash on delivery and payment on account skip the gateway once their rules allow it
+      let paymentResponse;
+      if (approval) {
+        paymentResponse = null;
+      } else if (paymentMethod.type === 'cod') {
+        const eligibility = await codService.checkEligibility({
+          userId,
+          destination: shippingAddress,
+          orderValue: totals.total,
+          currency: totals.currency,
+          weight: order.weightInGrams,
+        });
+
+        if (!eligibility.eligible) {
+          await orderStatusService.transition(order.id, 'cancelled', { type: 'SYSTEM' }, {
+            reason: 'Cash on delivery not available',
+            metadata: { reasons: eligibility.reasons },
+          });
+
+          throw new ValidationError('Cash on delivery is not available for this order', {
+            reasons: eligibility.reasons,
+          });
+        }
+
+        totals = await prisma.$transaction(tx =>
+          calculateOrderTotals(tx, order.id, totals.shipping, eligibility.fee)
+        );
+        paymentResponse = await codService.placeOrder(order.id, userId);
+      } else {
+        paymentResponse = await payOrder(order.id, req.user!, totals, {
+          paymentMethod,
+          purchaseOrderNumber,
+          billingAddress,
+          shippingAddress,
+          // The order's own lines, at the prices and discounts it was placed at
+          items: order.items.map(item => ({
+            id: item.variant.product.id,
+            name: item.variant.product.name,
+            quantity: item.quantity,
+            unitPrice: Number(item.unitPrice),
+            totalPrice: Number(item.totalPrice),
+          })),
+          idempotencyKey,
+          cancelIfUnavailable: true,
+        });
+      }
 
       const response: ApiResponse<{
         order: any;
         payment: any;
-        shipping: {
-          rates: any[];
+        approval?: OrderApproval;
+        shipping: RateShoppingResult & {
           selectedMethod: string;
         };
       }> = {
@@ -145,22 +206,31 @@ router.post(
             id: order.id,
             orderNumber: order.orderNumber,
             status: order.status,
+            subtotal: totals.subtotal,
+            promotionDiscount: order.promotions.promotionDiscount,
+            promotions: order.promotions.applied,
+            freeItems: order.promotions.freeItems,
+            tax: totals.tax,
+            taxBreakdown: totals.taxBreakdown,
+            shipping: totals.shipping,
+            codFee: totals.codFee,
             total: totals.total,
             currency: totals.currency,
-            items: items.map(item => ({
-              id: item.productId,
+            items: order.items.map(item => ({
+              id: item.variant.product.id,
               variantId: item.variantId,
               quantity: item.quantity,
-              price: item.price || 0,
-              total: (item.price || 0) * item.quantity,
+              price: Number(item.unitPrice),
+              total: Number(item.totalPrice),
             })),
             shippingAddress,
             billingAddress,
             createdAt: order.createdAt,
           },
           payment: paymentResponse,
+          ...(approval && { approval }),
           shipping: {
-            rates: shippingRates,
+            ...order.shippingRates,
             selectedMethod: shippingMethod,
           },
         },
@@ -184,6 +254,147 @@ router.post(
   })
 );
 
+/**
+ * @swagger
+ * /api/v1/checkout/resume:
+ *   post:
+ *     summary: Pay for an order placed earlier
+ *     description: Starts payment for a pending order of the buyer's that an approver has signed off, or that was converted from a quote. An order over the organization's approval threshold that has not been decided yet is returned with its approval instead of a payment. Cash on delivery can only be chosen at checkout.
+ *     tags: [Checkout]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [orderId, paymentMethod, idempotencyKey]
+ *             properties:
+ *               orderId:
+ *                 type: string
+ *               paymentMethod:
+ *                 $ref: '#/components/schemas/PaymentMethod'
+ *               purchaseOrderNumber:
+ *                 type: string
+ *               idempotencyKey:
+ *                 type: string
+ *                 format: uuid
+ *     responses:
+ *       200:
+ *         description: Payment started, or the order is waiting for approval
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     order:
+ *                       $ref: '#/components/schemas/Order'
+ *                     payment:
+ *                       $ref: '#/components/schemas/PaymentResponse'
+ *                     approval:
+ *                       $ref: '#/components/schemas/OrderApproval'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       400:
+ *         description: Invalid request data, the order was rejected, its stock is no longer available, or the payment method is not available
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: The buyer's role in their organization cannot place orders
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: Order is no longer waiting for payment
+ */
+router.post(
+  '/resume',
+  ValidationMiddleware.validateBody(OrderSchemas.resume),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const { orderId, paymentMethod, purchaseOrderNumber, idempotencyKey } = req.body;
+
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, userId },
+      include: {
+        shippingAddress: true,
+        billingAddress: true,
+        items: {
+          include: {
+            variant: {
+              include: {
+                product: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundError('Order');
+    }
+
+    if (order.status !== 'PENDING') {
+      throw new ConflictError('Order is no longer waiting for payment');
+    }
+
+    const approval = await organizationService.requireApproval(order.id, userId);
+    const totals = { total: Number(order.totalAmount), currency: order.currency };
+
+    // Orders keep the totals they were placed or quoted at
+    const paymentResponse = approval
+      ? null
+      : await payOrder(order.id, req.user!, totals, {
+          paymentMethod,
+          purchaseOrderNumber,
+          billingAddress: order.billingAddress,
+          shippingAddress: order.shippingAddress,
+          items: order.items.map(item => ({
+            id: item.variant.product.id,
+            name: item.variant.product.name,
+            quantity: item.quantity,
+            unitPrice: Number(item.unitPrice),
+            totalPrice: Number(item.totalPrice),
+          })),
+          idempotencyKey,
+          cancelIfUnavailable: false,
+        });
+
+    const response: ApiResponse<{
+      order: any;
+      payment: any;
+      approval?: OrderApproval;
+    }> = {
+      success: true,
+      data: {
+        order: {
+          id: order.id,
+          orderNumber: order.orderNumber,
+          status: order.status.toLowerCase(),
+          total: totals.total,
+          currency: totals.currency,
+          createdAt: order.createdAt,
+        },
+        payment: paymentResponse,
+        ...(approval && { approval }),
+      },
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
 /**
  * @swagger
  * /api/v1/checkout/confirm:
@@ -201,7 +412,6 @@ router.post(
  *             properties:
  *               orderId:
  *                 type: string
- *                 format: uuid
  *               paymentId:
  *                 type: string
  *               signature:
@@ -225,6 +435,18 @@ router.post(
  *                       $ref: '#/components/schemas/PaymentResponse'
  *                     shipment:
  *                       $ref: '#/components/schemas/ShippingResponse'
+ *                     invoice:
+ *                       type: object
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                         invoiceNumber:
+ *                           type: string
+ *                           example: NH/24-25/000001
+ *                         dueDate:
+ *                           type: string
+ *                           format: date-time
+ *                           description: Present when the order was billed on account
  *                 meta:
  *                   $ref: '#/components/schemas/ApiMeta'
  *       400:
@@ -237,7 +459,7 @@ router.post(
 router.post(
   '/confirm',
   ValidationMiddleware.validateBody(z.object({
-    orderId: z.string().uuid(),
+    orderId: z.string().min(1),
     paymentId: z.string(),
     signature: z.string().optional(),
   })),
@@ -246,10 +468,23 @@ router.post(
     const { orderId, paymentId, signature } = req.body;
 
     try {
-      // 1. Verify payment
-      const paymentResponse = await paymentService.verifyPayment(paymentId, signature);
+      // 1. Verify payment; cash on delivery is only paid once the carrier remits it,
+      // and orders on account once finance records the buyer's payment
+      const deferredPayment = await prisma.payment.findFirst({
+        where: { providerId: paymentId, orderId, method: { in: ['COD', 'INVOICE'] }, status: 'PENDING' },
+      });
 
-      if (paymentResponse.status !== 'completed') {
+      const paymentResponse = deferredPayment
+        ? {
+            paymentId,
+            method: deferredPayment.method === 'COD' ? 'cod' : 'invoice',
+            status: 'pending',
+            amount: Number(deferredPayment.amount),
+            currency: deferredPayment.currency,
+          }
+        : await paymentService.verifyPayment(paymentId, signature);
+
+      if (!deferredPayment && paymentResponse.status !== 'completed') {
         throw new ValidationError('Payment not completed');
       }
 
@@ -275,69 +510,35 @@ router.post(
         throw new NotFoundError('Order');
       }
 
-      // 3. Create shipment
-      const shipmentResponse = await shippingService.createShipment({
-        orderId: order.id,
-        items: order.items.map(item => ({
-          id: item.id,
-          name: item.variant.product.name,
-          sku: item.variant.id,
-          quantity: item.quantity,
-          weight: item.variant.weightInGrams,
-          value: Number(item.unitPrice),
-          description: `Spice: ${item.variant.product.name}`,
-        })),
-        origin: {
-          name: 'Newhill Spices Warehouse',
-          address1: 'Warehouse Address',
-          city: 'Mumbai',
-          state: 'Maharashtra',
-          country: 'IN',
-          postalCode: '400001',
-          phone: '+91-9876543210',
-        },
-        destination: {
-          name: `${order.shippingAddress.firstName} ${order.shippingAddress.lastName}`,
-          address1: order.shippingAddress.address1,
-          address2: order.shippingAddress.address2,
-          city: order.shippingAddress.city,
-          state: order.shippingAddress.state,
-          country: order.shippingAddress.country,
-          postalCode: order.shippingAddress.postalCode,
-          phone: order.shippingAddress.phone || '',
-        },
-        method: 'standard',
-        weight: order.items.reduce((sum, item) => sum + item.variant.weightInGrams * item.quantity, 0),
-        dimensions: {
-          length: 30,
-          width: 20,
-          height: 15,
-        },
-        value: Number(order.totalAmount),
-        currency: order.currency,
-        instructions: order.notes || 'Handle with care - Spices',
+      // 3. Confirm the order; a no-op when payment verification, the COD order or the order on account already confirmed it
+      await orderStatusService.transition(order.id, 'confirmed', { type: 'CUSTOMER', id: userId }, {
+        reason: 'Payment completed at checkout',
+        metadata: { paymentId },
       });
 
-      // 4. Update order status
-      await prisma.order.update({
-        where: { id: orderId },
-        data: {
-          status: 'CONFIRMED',
-          updatedAt: new Date(),
-        },
-      });
+      // 4. Ship everything on the order; admins split later orders into several shipments
+      const shipmentResponse = await shippingService.createOrderShipment(order.id);
+
+      // 5. Issue the GST invoice; orders on account become receivables due on their terms
+      const invoice = await invoiceService.issueInvoice(order.id);
+      const dueDate = await creditService.openReceivable(order.id);
 
       const response: ApiResponse<{
         order: any;
         payment: any;
         shipment: any;
+        invoice: {
+          id: string;
+          invoiceNumber: string;
+          dueDate?: string;
+        };
       }> = {
         success: true,
         data: {
           order: {
             id: order.id,
             orderNumber: order.orderNumber,
-            status: 'confirmed',
+            status: 'processing',
             total: Number(order.totalAmount),
             currency: order.currency,
             items: order.items.map(item => ({
@@ -354,6 +555,11 @@ router.post(
           },
           payment: paymentResponse,
           shipment: shipmentResponse,
+          invoice: {
+            id: invoice.id,
+            invoiceNumber: invoice.invoiceNumber,
+            ...(dueDate && { dueDate: dueDate.toISOString() }),
+          },
         },
         meta: {
           traceId: req.traceId || 'unknown',
@@ -377,11 +583,148 @@ router.post(
   })
 );
 
+/**
+ * @swagger
+ * /api/v1/checkout/cod-eligibility:
+ *   post:
+ *     summary: Check cash on delivery eligibility
+ *     description: Cash on delivery is offered for Indian orders up to a maximum value, to pincodes where Shiprocket couriers collect cash, and to customers without repeated refused or returned COD deliveries. The fee is an estimate for the order value given; checkout charges it on the final order total.
+ *     tags: [Checkout]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [destination, orderValue, currency, weight]
+ *             properties:
+ *               destination:
+ *                 type: object
+ *                 properties:
+ *                   country:
+ *                     type: string
+ *                     example: IN
+ *                   postalCode:
+ *                     type: string
+ *                     example: '560001'
+ *               orderValue:
+ *                 type: number
+ *               currency:
+ *                 type: string
+ *               weight:
+ *                 type: number
+ *                 description: Parcel weight in grams
+ *     responses:
+ *       200:
+ *         description: Eligibility checked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/CodEligibility'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       400:
+ *         description: Invalid request data
+ *       401:
+ *         description: Authentication required
+ */
+router.post(
+  '/cod-eligibility',
+  ValidationMiddleware.validateBody(OrderSchemas.codEligibility),
+  asyncHandler(async (req: Request, res: Response) => {
+    const eligibility = await codService.checkEligibility({
+      userId: req.user!.id,
+      ...req.body,
+    });
+
+    const response: ApiResponse<CodEligibility> = {
+      success: true,
+      data: eligibility,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/checkout/credit-eligibility:
+ *   post:
+ *     summary: Check whether an order can be billed to the buyer's account
+ *     description: Approved B2B accounts with Net 15/30/60 terms can order on account up to their credit limit, in the limit's currency, while no invoice is overdue. Outstanding includes open invoices and confirmed orders not yet invoiced.
+ *     tags: [Checkout]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [orderValue, currency]
+ *             properties:
+ *               orderValue:
+ *                 type: number
+ *               currency:
+ *                 type: string
+ *                 example: INR
+ *     responses:
+ *       200:
+ *         description: Eligibility checked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/CreditEligibility'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       400:
+ *         description: Invalid request data
+ *       401:
+ *         description: Authentication required
+ */
+router.post(
+  '/credit-eligibility',
+  ValidationMiddleware.validateBody(OrderSchemas.creditEligibility),
+  asyncHandler(async (req: Request, res: Response) => {
+    const eligibility = await creditService.checkEligibility(req.user!.id, req.body.orderValue, req.body.currency);
+
+    const response: ApiResponse<CreditEligibility> = {
+      success: true,
+      data: eligibility,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
 /**
  * @swagger
  * /api/v1/checkout/rates:
  *   post:
  *     summary: Get shipping rates
+ *     description: Quotes every carrier that ships to the destination in parallel and ranks the options by price, then delivery time. Quotes are cached per destination and 500 g weight bucket.
  *     tags: [Checkout]
  *     security:
  *       - bearerAuth: []
@@ -409,9 +752,7 @@ router.post(
  *                 success:
  *                   type: boolean
  *                 data:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/ShippingRate'
+ *                   $ref: '#/components/schemas/RateShoppingResult'
  *                 meta:
  *                   $ref: '#/components/schemas/ApiMeta'
  */
@@ -435,22 +776,14 @@ router.post(
     const { destination, weight, currency } = req.body;
 
     try {
-      const rates = await shippingService.getShippingRates({
-        origin: {
-          name: 'Newhill Spices Warehouse',
-          address1: 'Warehouse Address',
-          city: 'Mumbai',
-          state: 'Maharashtra',
-          country: 'IN',
-          postalCode: '400001',
-          phone: '+91-9876543210',
-        },
+      const rates = await rateShoppingService.shopRates({
+        origin: WAREHOUSE_ORIGIN,
         destination,
         weight,
         currency,
       });
 
-      const response: ApiResponse<any[]> = {
+      const response: ApiResponse<RateShoppingResult> = {
         success: true,
         data: rates,
         meta: {
@@ -478,40 +811,306 @@ router.post(
 // Helper functions
 async function createOrder(userId: string, data: any) {
   const orderNumber = `NH-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
-  
-  return prisma.order.create({
-    data: {
-      userId,
-      orderNumber,
-      status: 'PENDING',
-      totalAmount: 0, // Will be calculated
-      currency: 'INR',
-      shippingAddressId: 'temp', // Will be created
-      billingAddressId: 'temp', // Will be created
-      notes: data.notes,
-    },
+
+  // Members order for their organization, when their role lets them buy
+  const membership = await organizationService.findMembership(userId);
+  if (membership && !canAct(membership.role as OrganizationRole, 'BUY')) {
+    throw new AuthorizationError('Your role in this organization cannot place orders');
+  }
+
+  const currency = getRegionCurrency(data.shippingAddress.country);
+
+  const variants = [];
+  for (const item of data.items) {
+    const variant = await prisma.productVariant.findFirst({
+      where: {
+        productId: item.productId,
+        ...(item.variantId ? { id: item.variantId } : {}),
+        status: 'ACTIVE',
+        softDeleted: false,
+      },
+      orderBy: { weightInGrams: 'asc' },
+      include: { product: true },
+    });
+
+    if (!variant) {
+      throw new NotFoundError('Product variant');
+    }
+
+    variants.push({
+      variantId: variant.id,
+      productId: variant.productId,
+      category: variant.product.category,
+      weightInGrams: variant.weightInGrams,
+      quantity: item.quantity,
+    });
+  }
+
+  // The buyer's volume tiers and contract prices apply as they did in the cart,
+  // in the currency the order is charged in
+  const prices = await pricingService.resolve(userId, variants, currency);
+
+  // Promotions are worked out again against the address the order ships to, in its currency
+  const promotions = await promotionService.evaluate({
+    userId,
+    currency,
+    region: data.shippingAddress.country,
+    codes: data.promotionCode ? [data.promotionCode] : [],
+    lines: variants.map((variant, index) => ({ ...variant, unitPrice: prices[index].unitPrice })),
+  });
+
+  const lines = prices.map((price, index) => {
+    const promotionDiscount = promotions.lines[index].promotionDiscount;
+
+    return {
+      variantId: price.variantId,
+      quantity: price.quantity,
+      unitPrice: price.unitPrice,
+      totalPrice: Math.round((price.unitPrice * price.quantity - promotionDiscount) * 100) / 100,
+      promotionDiscount,
+    };
+  });
+
+  // Free samples ship as lines of their own with their whole value taken off
+  const samples = promotions.freeItems.map(item => ({
+    variantId: item.variantId,
+    quantity: item.quantity,
+    unitPrice: Math.round((item.value / item.quantity) * 100) / 100,
+    totalPrice: 0,
+    promotionDiscount: item.value,
+  }));
+
+  // The parcel weighs what its variants do, free samples included
+  const sampleVariants = samples.length > 0
+    ? await prisma.productVariant.findMany({
+      where: { id: { in: samples.map(sample => sample.variantId) } },
+      select: { id: true, weightInGrams: true },
+    })
+    : [];
+  const sampleWeights = new Map(sampleVariants.map(variant => [variant.id, variant.weightInGrams]));
+  const weightInGrams = variants.reduce((sum, variant) => sum + variant.weightInGrams * variant.quantity, 0)
+    + samples.reduce((sum, sample) => sum + (sampleWeights.get(sample.variantId) || 0) * sample.quantity, 0);
+
+  // Rates are shopped before the order is priced so the quote the buyer chose is what they pay
+  const shippingRates = await rateShoppingService.shopRates({
+    origin: WAREHOUSE_ORIGIN,
+    destination: data.shippingAddress,
+    weight: weightInGrams,
+    method: data.shippingMethod,
+    currency,
+  });
+  const shipping = await selectedShippingCost(shippingRates, data.shippingMethod, currency);
+
+  const reservationExpiresAt = inventoryService.reservationExpiry();
+
+  const { order, totals } = await prisma.$transaction(async tx => {
+    const shippingAddress = await tx.address.create({
+      data: { userId, type: 'SHIPPING', ...data.shippingAddress },
+    });
+    const billingAddress = await tx.address.create({
+      data: { userId, type: 'BILLING', ...data.billingAddress },
+    });
+
+    const created = await tx.order.create({
+      data: {
+        userId,
+        orderNumber,
+        organizationId: membership?.organizationId,
+        status: 'PENDING',
+        totalAmount: 0, // Set below once taxes are known
+        currency,
+        shippingAddressId: shippingAddress.id,
+        billingAddressId: billingAddress.id,
+        notes: data.notes,
+        discountAmount: promotions.promotionDiscount,
+        items: {
+          create: [...lines, ...samples],
+        },
+        statusHistory: {
+          create: {
+            toStatus: 'PENDING',
+            actorType: 'CUSTOMER',
+            actorId: userId,
+            reason: 'Order placed',
+          },
+        },
+      },
+      include: {
+        items: {
+          include: {
+            variant: {
+              include: {
+                product: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    await promotionService.redeem(tx, created.id, promotions.applied);
+
+    // Lots are held FEFO for the destination with the order, or the order is not placed
+    await inventoryService.allocateOrder(tx, created.id, reservationExpiresAt);
+
+    // An address taxes cannot be worked out for (e.g. an unknown Indian state) fails the
+    // whole order rather than leaving one pending without a total
+    return { order: created, totals: await calculateOrderTotals(tx, created.id, shipping) };
+  });
+
+  return {
+    ...order,
+    promotions,
+    totals,
+    shippingRates,
+    weightInGrams,
+    reservationExpiresAt: reservationExpiresAt.toISOString(),
+  };
+}
+
+/**
+ * Cost of the quote the buyer chose, already in the order's currency. When
+ * no carrier could quote the destination the flat charge applies instead.
+ */
+async function selectedShippingCost(
+  rates: RateShoppingResult,
+  shippingMethod: string,
+  currency: string
+): Promise<number> {
+  if (rates.quotes.length === 0) {
+    return flatShippingCost(currency);
+  }
+
+  const selected = rates.quotes.find(quote => quote.id === shippingMethod && quote.isAvailable);
+  if (!selected) {
+    throw new ValidationError('The selected shipping method is not available for this address', {
+      shippingMethod,
+      available: rates.quotes.map(quote => quote.id),
+    });
+  }
+
+  return selected.cost;
+}
+
+/**
+ * Flat shipping charge, set in INR and converted to the order's currency
+ * the way list prices are
+ */
+async function flatShippingCost(currency: string): Promise<number> {
+  if (currency === 'INR') {
+    return FLAT_SHIPPING_INR;
+  }
+
+  const rate = await prisma.currencyRate.findUnique({
+    where: { fromCurrency_toCurrency: { fromCurrency: 'INR', toCurrency: currency } },
   });
+
+  if (!rate) {
+    throw new ValidationError(`Shipping is not available in ${currency}`);
+  }
+
+  return Math.round(FLAT_SHIPPING_INR * Number(rate.rate) * 100) / 100;
 }
 
-async function calculateOrderTotals(orderId: string, items: any[]) {
-  // Mock calculation - in real implementation, this would calculate from database
-  const subtotal = items.reduce((sum, item) => sum + (item.price || 0) * item.quantity, 0);
-  const tax = subtotal * 0.18; // 18% GST
-  const shipping = 50; // Fixed shipping cost
-  const total = subtotal + tax + shipping;
+async function calculateOrderTotals(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  shipping: number,
+  codFee: number = 0
+) {
+  // Destination tax (GST within India, VAT in the GCC) needs shipping and the COD fee on the order first
+  await tx.order.update({
+    where: { id: orderId },
+    data: { shippingAmount: shipping, codFee },
+  });
+
+  const tax = await invoiceService.applyOrderTaxes(orderId, tx);
+  const subtotal = tax.taxableValue;
+  const total = Math.round((subtotal + tax.totalTax + shipping + codFee) * 100) / 100;
+
+  await tx.order.update({
+    where: { id: orderId },
+    data: { totalAmount: total },
+  });
 
   return {
     subtotal,
-    tax,
+    tax: tax.totalTax,
+    taxBreakdown: {
+      rule: tax.ruleId,
+      region: tax.region,
+      supplyType: tax.supplyType,
+      rate: tax.rate,
+      reverseCharge: tax.reverseCharge,
+      cgst: tax.cgstAmount,
+      sgst: tax.sgstAmount,
+      igst: tax.igstAmount,
+      vat: tax.vatAmount,
+    },
     shipping,
+    codFee,
     total,
-    currency: 'INR',
+    currency: tax.currency,
   };
 }
 
-function calculateTotalWeight(items: any[]): number {
-  // Mock calculation - in real implementation, this would get from product variants
-  return items.reduce((sum, item) => sum + (item.weight || 100) * item.quantity, 0);
+/**
+ * Bill the order to the buyer's account or send them to the gateway. An
+ * order just created at checkout is cancelled when it cannot go on account;
+ * one placed earlier stays pending so another method can be tried. The
+ * order's stock is held for another full TTL first, and reserved again if
+ * its hold lapsed while the order waited.
+ */
+async function payOrder(
+  orderId: string,
+  user: { id: string; email: string; name?: string | null },
+  totals: { total: number; currency: string },
+  request: {
+    paymentMethod: { type: string };
+    purchaseOrderNumber?: string;
+    billingAddress: any;
+    shippingAddress: any;
+    items: Array<{ id: string; name: string; quantity: number; unitPrice: number; totalPrice: number }>;
+    idempotencyKey: string;
+    cancelIfUnavailable: boolean;
+  }
+) {
+  await inventoryService.holdForPayment(orderId);
+
+  if (request.paymentMethod.type === 'invoice') {
+    const eligibility = await creditService.checkEligibility(user.id, totals.total, totals.currency);
+
+    if (!eligibility.eligible) {
+      if (request.cancelIfUnavailable) {
+        await orderStatusService.transition(orderId, 'cancelled', { type: 'SYSTEM' }, {
+          reason: 'Payment on account not available',
+          metadata: { reasons: eligibility.reasons },
+        });
+      }
+
+      throw new ValidationError('Payment on account is not available for this order', {
+        reasons: eligibility.reasons,
+        available: eligibility.available,
+      });
+    }
+
+    return creditService.placeOrder(orderId, user.id, request.purchaseOrderNumber);
+  }
+
+  return paymentService.initiatePayment({
+    orderId,
+    amount: totals.total,
+    currency: totals.currency,
+    customer: {
+      id: user.id,
+      email: user.email,
+      name: user.name || 'Customer',
+    },
+    billingAddress: request.billingAddress,
+    shippingAddress: request.shippingAddress,
+    items: request.items,
+    idempotencyKey: request.idempotencyKey,
+  });
 }
 
 export default router;
@@ -3,16 +3,39 @@ import { z } from 'zod';
 import { 
   ValidationMiddleware, 
   CommonSchemas, 
-  OrderSchemas 
+  OrderSchemas,
+  ReturnSchemas
 } from '../../middleware/validation';
 import { CacheMiddleware } from '../../middleware/caching';
 import { rateLimitConfigs } from '../../middleware/rateLimiter';
 import { AuthMiddleware } from '../../middleware/auth';
 import { asyncHandler } from '../../middleware/errorHandler';
-import { Order, ApiResponse, PaginatedResponse, NotFoundError } from '@newhill/shared/types/api';
+import { InvoiceService } from '../../services/InvoiceService';
+import { ReturnService, serializeReturn } from '../../services/ReturnService';
+import { OrderStatusService } from '../../services/OrderStatusService';
+import { PaymentService } from '../../services/PaymentService';
+import { ShippingService } from '../../services/ShippingService';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import { MetricsCollector } from '../../utils/metrics';
+import { Order, ApiResponse, PaginatedResponse, NotFoundError, ConflictError } from '@newhill/shared/types/api';
+import { OrderStatusHistoryEntry } from '@newhill/shared/types/order';
+import { OrderShipment } from '@newhill/shared/types/shipping';
 
 const router = Router();
 
+// Initialize services
+const prisma = new PrismaClient();
+const metrics = MetricsCollector;
+const invoiceService = new InvoiceService(prisma, logger, metrics);
+const orderStatusService = new OrderStatusService(prisma, logger, metrics);
+const paymentService = new PaymentService(prisma, logger, metrics, orderStatusService);
+const returnService = new ReturnService(prisma, logger, metrics, paymentService);
+const shippingService = new ShippingService(prisma, logger, metrics, orderStatusService);
+
+// Customers can cancel until the order is being packed; later cancellations go through support
+const CUSTOMER_CANCELLABLE_STATUSES = ['PENDING', 'CONFIRMED'];
+
 // Apply rate limiting
 router.use(rateLimitConfigs.general);
 
@@ -47,7 +70,7 @@ router.use(AuthMiddleware.authenticate);
  *         name: status
  *         schema:
  *           type: string
- *           enum: [pending, confirmed, processing, shipped, delivered, cancelled, refunded]
+ *           enum: [pending, confirmed, processing, partially_shipped, shipped, partially_delivered, delivered, cancelled, refunded]
  *         description: Filter by order status
  *     responses:
  *       200:
@@ -77,7 +100,7 @@ router.get(
   '/',
   ValidationMiddleware.validate({
     query: CommonSchemas.pagination.merge(z.object({
-      status: z.enum(['pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded']).optional(),
+      status: z.enum(['pending', 'confirmed', 'processing', 'partially_shipped', 'shipped', 'partially_delivered', 'delivered', 'cancelled', 'refunded']).optional(),
     })),
   }),
   CacheMiddleware.cache({
@@ -480,6 +503,7 @@ router.post(
  * /api/v1/orders/{id}/cancel:
  *   post:
  *     summary: Cancel order
+ *     description: Customers can cancel pending and confirmed orders. Reserved stock is released and a completed payment is refunded in full.
  *     tags: [Orders]
  *     security:
  *       - bearerAuth: []
@@ -490,6 +514,14 @@ router.post(
  *         schema:
  *           type: string
  *         description: Order ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
  *     responses:
  *       200:
  *         description: Order cancelled
@@ -501,7 +533,17 @@ router.post(
  *                 success:
  *                   type: boolean
  *                 data:
- *                   $ref: '#/components/schemas/Order'
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     orderNumber:
+ *                       type: string
+ *                     status:
+ *                       type: string
+ *                       enum: [cancelled, refunded]
+ *                     refunded:
+ *                       type: boolean
  *                 meta:
  *                   $ref: '#/components/schemas/ApiMeta'
  *       401:
@@ -514,78 +556,439 @@ router.post(
 router.post(
   '/:id/cancel',
   ValidationMiddleware.validate({
-    params: CommonSchemas.uuidParam,
+    params: z.object({
+      id: z.string().min(1),
+    }),
+    body: z.object({
+      reason: z.string().max(500).optional(),
+    }),
   }),
   asyncHandler(async (req: Request, res: Response) => {
     const userId = req.user!.id;
     const { id } = req.params;
 
-    // Mock order cancellation - in real implementation, this would:
-    // 1. Check if order can be cancelled
-    // 2. Process refund if payment was made
-    // 3. Update order status
-    // 4. Restore inventory
-    // 5. Send cancellation email
+    const order = await prisma.order.findFirst({
+      where: { id, userId },
+      include: { payments: true },
+    });
 
-    const mockOrder: Order = {
-      id,
-      orderNumber: 'NH-2024-002',
-      userId,
-      items: [],
-      subtotal: 0,
-      tax: 0,
-      shipping: 0,
-      discount: 0,
-      total: 0,
-      currency: 'INR',
-      status: 'cancelled',
-      paymentStatus: 'refunded',
-      shippingAddress: {
-        id: 'addr-1',
-        firstName: 'John',
-        lastName: 'Doe',
-        address1: '123 Main St',
-        city: 'Mumbai',
-        state: 'Maharashtra',
-        postalCode: '400001',
-        country: 'IN',
-        phone: '+91-9876543210',
-        isDefault: true,
+    if (!order) {
+      throw new NotFoundError('Order');
+    }
+
+    if (!CUSTOMER_CANCELLABLE_STATUSES.includes(order.status)) {
+      throw new ConflictError(`Order is ${order.status.toLowerCase()} and can no longer be cancelled`);
+    }
+
+    // Releases the order's stock and notifies the customer
+    await orderStatusService.transition(id, 'cancelled', { type: 'CUSTOMER', id: userId }, {
+      reason: req.body.reason || 'Cancelled by customer',
+    });
+
+    // Refunding in full moves the order on to refunded
+    const payment = order.payments.find(entry => entry.status === 'COMPLETED');
+    if (payment) {
+      await paymentService.refundPayment(payment.providerId, undefined, 'Order cancelled by customer');
+    }
+
+    const updated = await prisma.order.findUniqueOrThrow({ where: { id } });
+
+    const response: ApiResponse<{ id: string; orderNumber: string; status: string; refunded: boolean }> = {
+      success: true,
+      data: {
+        id: updated.id,
+        orderNumber: updated.orderNumber,
+        status: updated.status.toLowerCase(),
+        refunded: Boolean(payment),
       },
-      billingAddress: {
-        id: 'addr-1',
-        firstName: 'John',
-        lastName: 'Doe',
-        address1: '123 Main St',
-        city: 'Mumbai',
-        state: 'Maharashtra',
-        postalCode: '400001',
-        country: 'IN',
-        phone: '+91-9876543210',
-        isDefault: true,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
       },
-      paymentMethod: {
-        id: 'pm-1',
-        type: 'card',
-        provider: 'razorpay',
-        last4: '4242',
-        brand: 'visa',
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/orders/{id}/history:
+ *   get:
+ *     summary: Get the status history of an order
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID
+ *     responses:
+ *       200:
+ *         description: Status changes, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/OrderStatusHistory'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Order not found
+ */
+router.get(
+  '/:id/history',
+  ValidationMiddleware.validate({
+    params: z.object({
+      id: z.string().min(1),
+    }),
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const history = await orderStatusService.getHistory(req.params.id, req.user!.id);
+
+    const response: ApiResponse<OrderStatusHistoryEntry[]> = {
+      success: true,
+      // Internal actor ids are not shown to customers
+      data: history.map(entry => ({ ...entry, actorId: null })),
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
       },
-      shippingMethod: {
-        id: 'sm-1',
-        name: 'Standard Shipping',
-        description: '5-7 business days',
-        cost: 50,
-        estimatedDays: 5,
-        isActive: true,
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/orders/{id}/shipments:
+ *   get:
+ *     summary: Get the shipments of an order
+ *     description: An order can ship in several parts; each shipment lists the order lines and quantities it carries and has its own tracking.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID
+ *     responses:
+ *       200:
+ *         description: Shipments, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/OrderShipment'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Order not found
+ */
+router.get(
+  '/:id/shipments',
+  ValidationMiddleware.validate({
+    params: z.object({
+      id: z.string().min(1),
+    }),
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const shipments = await shippingService.getOrderShipments(req.params.id, req.user!.id);
+
+    const response: ApiResponse<OrderShipment[]> = {
+      success: true,
+      data: shipments,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
       },
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
     };
 
-    const response: ApiResponse<Order> = {
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/orders/{id}/invoice:
+ *   get:
+ *     summary: Get the GST invoice for an order
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID
+ *     responses:
+ *       200:
+ *         description: Invoice details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Invoice'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Invoice not issued yet or order not found
+ */
+router.get(
+  '/:id/invoice',
+  ValidationMiddleware.validate({
+    params: z.object({
+      id: z.string().min(1),
+    }),
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const invoice = await invoiceService.getInvoice(req.params.id, req.user!.id);
+
+    const response: ApiResponse<any> = {
       success: true,
-      data: mockOrder,
+      data: {
+        ...invoice,
+        taxableValue: Number(invoice.taxableValue),
+        cgstAmount: Number(invoice.cgstAmount),
+        sgstAmount: Number(invoice.sgstAmount),
+        igstAmount: Number(invoice.igstAmount),
+        vatAmount: Number(invoice.vatAmount),
+        vatRate: invoice.vatRate !== null ? Number(invoice.vatRate) : null,
+        totalTax: Number(invoice.totalTax),
+        shippingAmount: Number(invoice.shippingAmount),
+        codFee: Number(invoice.codFee),
+        totalAmount: Number(invoice.totalAmount),
+      },
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/orders/{id}/invoice/pdf:
+ *   get:
+ *     summary: Download the GST invoice PDF for an order
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID
+ *     responses:
+ *       200:
+ *         description: Invoice PDF
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Invoice not issued yet or order not found
+ */
+router.get(
+  '/:id/invoice/pdf',
+  ValidationMiddleware.validate({
+    params: z.object({
+      id: z.string().min(1),
+    }),
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { invoiceNumber, pdf } = await invoiceService.generatePdf(req.params.id, req.user!.id);
+    const filename = invoiceNumber.replace(/\//g, '-');
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="invoice-${filename}.pdf"`);
+    res.setHeader('Content-Length', pdf.length);
+    res.send(pdf);
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/orders/{id}/returns:
+ *   post:
+ *     summary: Request a return for items of a delivered order
+ *     description: Opens a return (RMA) for some or all units of one or more order lines. Returns must be requested within 30 days of delivery, and each line can only be returned up to the quantity delivered so far.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [items]
+ *             properties:
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [orderItemId, quantity, reason]
+ *                   properties:
+ *                     orderItemId:
+ *                       type: string
+ *                     quantity:
+ *                       type: integer
+ *                       minimum: 1
+ *                     reason:
+ *                       type: string
+ *                       enum: [UNOPENED_UNWANTED, DAMAGED_IN_TRANSIT, WRONG_ITEM, NOT_AS_DESCRIBED, DEFECTIVE]
+ *                     notes:
+ *                       type: string
+ *                     photoUrls:
+ *                       type: array
+ *                       maxItems: 5
+ *                       items:
+ *                         type: string
+ *                         format: uri
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Return requested
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Return'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       400:
+ *         description: Invalid items or quantities
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: Order is not delivered or the return window has closed
+ *   get:
+ *     summary: List returns for an order
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID
+ *     responses:
+ *       200:
+ *         description: Returns for the order, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Return'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       401:
+ *         description: Authentication required
+ */
+router.post(
+  '/:id/returns',
+  ValidationMiddleware.validate({
+    params: z.object({
+      id: z.string().min(1),
+    }),
+    body: ReturnSchemas.request,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const returnRecord = await returnService.requestReturn(req.params.id, req.user!.id, req.body);
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: serializeReturn(returnRecord),
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.status(201).json(response);
+  })
+);
+
+router.get(
+  '/:id/returns',
+  ValidationMiddleware.validate({
+    params: z.object({
+      id: z.string().min(1),
+    }),
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const returns = await returnService.listForOrder(req.params.id, req.user!.id);
+
+    const response: ApiResponse<any[]> = {
+      success: true,
+      data: returns.map(serializeReturn),
       meta: {
         traceId: req.traceId || 'unknown',
         timestamp: new Date().toISOString(),
@@ -9,10 +9,20 @@ import { CacheMiddleware, CacheConfigs } from '../../middleware/caching';
 import { rateLimitConfigs } from '../../middleware/rateLimiter';
 import { AuthMiddleware } from '../../middleware/auth';
 import { asyncHandler } from '../../middleware/errorHandler';
-import { Product, PaginatedResponse, ApiResponse } from '@newhill/shared/types/api';
+import { PricingService } from '../../services/PricingService';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import { MetricsCollector } from '../../utils/metrics';
+import { Product, PaginatedResponse, ApiResponse, NotFoundError } from '@newhill/shared/types/api';
+import { VariantPriceSheet } from '@newhill/shared/types/pricing';
 
 const router = Router();
 
+// Initialize services
+const prisma = new PrismaClient();
+const metrics = MetricsCollector;
+const pricingService = new PricingService(prisma, logger, metrics);
+
 // Apply rate limiting
 router.use(rateLimitConfigs.general);
 
@@ -428,5 +438,99 @@ router.get(
   })
 );
 
+/**
+ * @swagger
+ * /api/v1/products/{id}/prices:
+ *   get:
+ *     summary: Get the signed-in buyer's prices for a product's variants
+ *     description: List price for everyone. Approved B2B accounts also see the volume tier breaks and any contract price from their price list; cart, checkout and quotes charge the lowest price that applies.
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *       - in: header
+ *         name: X-Currency
+ *         schema:
+ *           type: string
+ *           default: INR
+ *         description: Currency preference
+ *     responses:
+ *       200:
+ *         description: Price sheet per variant
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/VariantPriceSheet'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       400:
+ *         description: Prices are not available in the currency
+ *       404:
+ *         description: Product not found
+ */
+router.get(
+  '/:id/prices',
+  ValidationMiddleware.validate({
+    params: z.object({
+      id: z.string().min(1),
+    }),
+    headers: z.object({
+      'x-currency': z.string().length(3).optional(),
+    }),
+  }),
+  // Not cached: prices depend on who is asking
+  AuthMiddleware.optionalAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const currency = ((req.headers['x-currency'] as string) || req.user?.preferences.currency || 'INR').toUpperCase();
+
+    const variants = await prisma.productVariant.findMany({
+      where: {
+        productId: req.params.id,
+        status: 'ACTIVE',
+        softDeleted: false,
+        product: { status: 'ACTIVE', softDeleted: false },
+      },
+      orderBy: { weightInGrams: 'asc' },
+      select: { id: true },
+    });
+
+    if (variants.length === 0) {
+      throw new NotFoundError('Product');
+    }
+
+    const sheets = await pricingService.getPriceSheets(
+      req.user?.id,
+      variants.map(variant => variant.id),
+      currency
+    );
+
+    const response: ApiResponse<VariantPriceSheet[]> = {
+      success: true,
+      data: sheets,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
 export default router;
 
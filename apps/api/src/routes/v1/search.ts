@@ -7,10 +7,25 @@ import {
 import { CacheMiddleware, CacheConfigs } from '../../middleware/caching';
 import { rateLimitConfigs } from '../../middleware/rateLimiter';
 import { asyncHandler } from '../../middleware/errorHandler';
-import { SearchResult, Product, ApiResponse } from '@newhill/shared/types/api';
+import { SearchService } from '../../services/SearchService';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import { BusinessMetrics, MetricsCollector } from '../../utils/metrics';
+import { SearchResult, ApiResponse } from '@newhill/shared/types/api';
 
 const router = Router();
 
+// Initialize services
+const prisma = new PrismaClient();
+const metrics = MetricsCollector;
+const searchService = new SearchService(prisma, logger, metrics);
+
+// Accept-Language may carry a full preference list, e.g. "hi-IN,hi;q=0.9,en;q=0.8"
+function getLanguage(req: Request): string {
+  const header = req.headers['accept-language'];
+  return typeof header === 'string' && header.length >= 2 ? header.slice(0, 2).toLowerCase() : 'en';
+}
+
 // Apply strict rate limiting for search
 router.use(rateLimitConfigs.search);
 
@@ -19,6 +34,10 @@ router.use(rateLimitConfigs.search);
  * /api/v1/search:
  *   post:
  *     summary: Search products with full-text search
+ *     description: |
+ *       Matches product names in every language (en, hi, ar), categories, lot origins and
+ *       descriptions with typo tolerance, and returns facet counts for category,
+ *       certification, weight and price.
  *     tags: [Search]
  *     requestBody:
  *       required: true
@@ -49,6 +68,16 @@ router.use(rateLimitConfigs.search);
  *                     type: boolean
  *                   certification:
  *                     type: string
+ *                   weight:
+ *                     type: number
+ *                     description: Variant pack weight in grams
+ *                   sortBy:
+ *                     type: string
+ *                     enum: [relevance, name, price, createdAt, popularity]
+ *                     default: relevance
+ *                   order:
+ *                     type: string
+ *                     enum: [asc, desc]
  *                   tags:
  *                     type: array
  *                     items:
@@ -62,6 +91,15 @@ router.use(rateLimitConfigs.search);
  *               currency:
  *                 type: string
  *                 default: INR
+ *               page:
+ *                 type: integer
+ *                 minimum: 1
+ *                 default: 1
+ *               limit:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 100
+ *                 default: 20
  *     responses:
  *       200:
  *         description: Search results
@@ -86,103 +124,18 @@ router.post(
   ValidationMiddleware.validateBody(SearchSchemas.query),
   CacheMiddleware.cache(CacheConfigs.searchResults),
   asyncHandler(async (req: Request, res: Response) => {
-    const { q: query, filters, language, region, currency } = req.body;
+    const { q: query, filters, language, currency, page, limit } = req.body;
 
-    // Mock search results - in real implementation, this would use Elasticsearch or similar
-    const mockProducts: Product[] = [
-      {
-        id: '1',
-        slug: 'premium-turmeric-powder',
-        name: { en: 'Premium Turmeric Powder', hi: 'प्रीमियम हल्दी पाउडर' },
-        description: { 
-          en: 'High-quality turmeric powder with excellent color and aroma',
-          hi: 'उत्कृष्ट रंग और सुगंध के साथ उच्च गुणवत्ता वाला हल्दी पाउडर'
-        },
-        shortDescription: { 
-          en: 'Premium turmeric powder',
-          hi: 'प्रीमियम हल्दी पाउडर'
-        },
-        price: 299,
-        currency: 'INR',
-        category: 'spices',
-        subcategory: 'powder',
-        weight: 100,
-        unit: 'g',
-        inStock: true,
-        stockQuantity: 50,
-        images: ['https://example.com/turmeric.jpg'],
-        variants: [],
-        lots: [],
-        certifications: ['organic', 'fssai'],
-        tags: ['turmeric', 'spice', 'powder'],
-        isActive: true,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      },
-      {
-        id: '2',
-        slug: 'organic-cumin-seeds',
-        name: { en: 'Organic Cumin Seeds', hi: 'ऑर्गेनिक जीरा' },
-        description: { 
-          en: 'Premium organic cumin seeds with strong aroma and flavor',
-          hi: 'मजबूत सुगंध और स्वाद के साथ प्रीमियम ऑर्गेनिक जीरा'
-        },
-        shortDescription: { 
-          en: 'Organic cumin seeds',
-          hi: 'ऑर्गेनिक जीरा'
-        },
-        price: 199,
-        currency: 'INR',
-        category: 'spices',
-        subcategory: 'seeds',
-        weight: 100,
-        unit: 'g',
-        inStock: true,
-        stockQuantity: 30,
-        images: ['https://example.com/cumin.jpg'],
-        variants: [],
-        lots: [],
-        certifications: ['organic', 'fssai'],
-        tags: ['cumin', 'spice', 'seeds', 'organic'],
-        isActive: true,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      },
-    ];
+    const searchResult = await searchService.search({
+      query,
+      filters,
+      language,
+      currency,
+      page,
+      limit,
+    });
 
-    // Mock search suggestions
-    const suggestions = [
-      'turmeric powder',
-      'cumin seeds',
-      'coriander powder',
-      'garam masala',
-      'red chili powder',
-    ];
-
-    // Mock "did you mean" suggestions
-    const didYouMean = query.toLowerCase().includes('tumeric') ? ['turmeric'] : undefined;
-
-    // Mock filter options
-    const filterOptions = {
-      categories: [
-        { name: 'Spices', count: 25 },
-        { name: 'Herbs', count: 15 },
-        { name: 'Seasonings', count: 10 },
-      ],
-      priceRange: { min: 99, max: 999 },
-      certifications: [
-        { name: 'Organic', count: 20 },
-        { name: 'FSSAI', count: 35 },
-        { name: 'ISO', count: 15 },
-      ],
-    };
-
-    const searchResult: SearchResult = {
-      products: mockProducts,
-      suggestions,
-      didYouMean,
-      filters: filterOptions,
-    };
+    BusinessMetrics.recordSearch(query, searchResult.total || 0, req.user?.id);
 
     const response: ApiResponse<SearchResult> = {
       success: true,
@@ -265,32 +218,8 @@ router.get(
   }),
   asyncHandler(async (req: Request, res: Response) => {
     const { q: query, limit } = req.query;
-    const language = req.headers['accept-language'] || 'en';
-
-    // Mock suggestions - in real implementation, this would query a search index
-    const allSuggestions = [
-      'turmeric powder',
-      'cumin seeds',
-      'coriander powder',
-      'garam masala',
-      'red chili powder',
-      'black pepper',
-      'cardamom',
-      'cinnamon',
-      'cloves',
-      'bay leaves',
-      'fenugreek seeds',
-      'mustard seeds',
-      'fennel seeds',
-      'star anise',
-      'nutmeg',
-    ];
 
-    const suggestions = allSuggestions
-      .filter(suggestion => 
-        suggestion.toLowerCase().includes(query.toLowerCase())
-      )
-      .slice(0, Number(limit));
+    const suggestions = await searchService.suggest(String(query), getLanguage(req), Number(limit));
 
     const response: ApiResponse<{ suggestions: string[] }> = {
       success: true,
@@ -369,21 +298,8 @@ router.get(
   }),
   asyncHandler(async (req: Request, res: Response) => {
     const { limit } = req.query;
-    const language = req.headers['accept-language'] || 'en';
 
-    // Mock popular search terms - in real implementation, this would come from analytics
-    const popularTerms = [
-      { term: 'turmeric powder', count: 1250 },
-      { term: 'cumin seeds', count: 980 },
-      { term: 'garam masala', count: 850 },
-      { term: 'coriander powder', count: 720 },
-      { term: 'red chili powder', count: 650 },
-      { term: 'black pepper', count: 580 },
-      { term: 'cardamom', count: 520 },
-      { term: 'cinnamon', count: 480 },
-      { term: 'cloves', count: 420 },
-      { term: 'bay leaves', count: 380 },
-    ].slice(0, Number(limit));
+    const popularTerms = searchService.getPopularTerms(Number(limit));
 
     const response: ApiResponse<{ popular: Array<{ term: string; count: number }> }> = {
       success: true,
@@ -0,0 +1,87 @@
+import { Router, Request, Response } from 'express';
+import { ValidationMiddleware, OrderSchemas } from '../../middleware/validation';
+import { rateLimitConfigs } from '../../middleware/rateLimiter';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { ShippingService } from '../../services/ShippingService';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import { MetricsCollector } from '../../utils/metrics';
+import { ApiResponse } from '@newhill/shared/types/api';
+import { OrderTracking } from '@newhill/shared/types/shipping';
+
+const router = Router();
+
+// Initialize services
+const prisma = new PrismaClient();
+const metrics = MetricsCollector;
+const shippingService = new ShippingService(prisma, logger, metrics);
+
+// Public, so every lookup counts against a strict per-IP limit
+router.use(rateLimitConfigs.tracking);
+
+/**
+ * @swagger
+ * /api/v1/tracking:
+ *   post:
+ *     summary: Track an order without logging in
+ *     description: Returns the order's shipments with their carrier scan timelines. The order number and the email address the order was placed with must both match; otherwise the order is reported as not found.
+ *     tags: [Tracking]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - orderNumber
+ *               - email
+ *             properties:
+ *               orderNumber:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Order tracking
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/OrderTracking'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ApiMeta'
+ *       400:
+ *         description: Invalid request data
+ *       404:
+ *         description: No order with this number and email
+ *       429:
+ *         description: Too many tracking lookups
+ */
+router.post(
+  '/',
+  ValidationMiddleware.validate({
+    body: OrderSchemas.tracking,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tracking = await shippingService.getOrderTracking(req.body.orderNumber, req.body.email);
+
+    const response: ApiResponse<OrderTracking> = {
+      success: true,
+      data: tracking,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+export default router;
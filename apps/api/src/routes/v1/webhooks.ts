@@ -5,21 +5,25 @@ import { rateLimitConfigs } from '../../middleware/rateLimiter';
 import { asyncHandler } from '../../middleware/errorHandler';
 import { PaymentService } from '../../services/PaymentService';
 import { ShippingService } from '../../services/ShippingService';
+import { OrderStatusService } from '../../services/OrderStatusService';
+import { WebhookInboxService } from '../../services/WebhookInboxService';
 import { PrismaClient } from '@prisma/client';
-import { Logger } from '../../utils/logger';
+import { logger } from '../../utils/logger';
 import { MetricsCollector } from '../../utils/metrics';
 import { ApiResponse, ValidationError } from '@newhill/shared/types/api';
 import { PaymentProvider } from '@newhill/shared/types/payment';
 import { ShippingProvider } from '@newhill/shared/types/shipping';
+import { WebhookReceipt } from '@newhill/shared/types/webhook';
 
 const router = Router();
 
 // Initialize services
 const prisma = new PrismaClient();
-const logger = new Logger();
-const metrics = new MetricsCollector();
-const paymentService = new PaymentService(prisma, logger, metrics);
-const shippingService = new ShippingService(prisma, logger, metrics);
+const metrics = MetricsCollector;
+const orderStatusService = new OrderStatusService(prisma, logger, metrics);
+const paymentService = new PaymentService(prisma, logger, metrics, orderStatusService);
+const shippingService = new ShippingService(prisma, logger, metrics, orderStatusService);
+const webhookInbox = new WebhookInboxService(prisma, logger, metrics, paymentService, shippingService);
 
 // Apply rate limiting for webhooks
 router.use(rateLimitConfigs.webhooks);
@@ -47,7 +51,7 @@ router.use(rateLimitConfigs.webhooks);
  *             description: Webhook payload from payment provider
  *     responses:
  *       200:
- *         description: Webhook processed successfully
+ *         description: Webhook stored. Events that could not be applied yet are retried by the API, so the provider must not resend them; a redelivered event is acknowledged without being applied again.
  *         content:
  *           application/json:
  *             schema:
@@ -56,12 +60,7 @@ router.use(rateLimitConfigs.webhooks);
  *                 success:
  *                   type: boolean
  *                 data:
- *                   type: object
- *                   properties:
- *                     webhookId:
- *                       type: string
- *                     processed:
- *                       type: boolean
+ *                   $ref: '#/components/schemas/WebhookReceipt'
  *                 meta:
  *                   $ref: '#/components/schemas/ApiMeta'
  *       400:
@@ -89,89 +88,19 @@ router.post(
       throw new ValidationError('Webhook signature is required');
     }
 
-    try {
-      logger.info('Processing payment webhook', {
-        provider,
-        event: req.body.event,
-        traceId: req.traceId,
-      });
-
-      const webhook = await paymentService.processWebhook(
-        provider as PaymentProvider,
-        req.body,
-        signature
-      );
+    const receipt = await webhookInbox.receive('PAYMENT', provider, req.body, req.headers, signature);
 
-      // Update webhook as processed
-      await prisma.payment.updateMany({
-        where: { providerId: webhook.data?.payment?.id || webhook.data?.id },
-        data: {
-          status: webhook.data?.payment?.status?.toUpperCase() || 'PROCESSING',
-          updatedAt: new Date(),
-        },
-      });
+    const response: ApiResponse<WebhookReceipt> = {
+      success: true,
+      data: receipt,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
 
-      // Update order status based on payment status
-      if (webhook.data?.payment?.status === 'completed') {
-        const payment = await prisma.payment.findFirst({
-          where: { providerId: webhook.data.payment.id },
-        });
-
-        if (payment) {
-          await prisma.order.update({
-            where: { id: payment.orderId },
-            data: {
-              status: 'CONFIRMED',
-              updatedAt: new Date(),
-            },
-          });
-        }
-      }
-
-      const response: ApiResponse<{
-        webhookId: string;
-        processed: boolean;
-      }> = {
-        success: true,
-        data: {
-          webhookId: webhook.id,
-          processed: true,
-        },
-        meta: {
-          traceId: req.traceId || 'unknown',
-          timestamp: new Date().toISOString(),
-          version: 'v1',
-        },
-      };
-
-      res.json(response);
-    } catch (error) {
-      logger.error('Payment webhook processing failed', {
-        provider,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        traceId: req.traceId,
-      });
-
-      // Return 200 to prevent webhook retries for certain errors
-      if (error instanceof ValidationError) {
-        res.status(200).json({
-          success: false,
-          error: {
-            status: 400,
-            code: 'VALIDATION_ERROR',
-            message: error.message,
-          },
-          meta: {
-            traceId: req.traceId || 'unknown',
-            timestamp: new Date().toISOString(),
-            version: 'v1',
-          },
-        });
-        return;
-      }
-
-      throw error;
-    }
+    res.json(response);
   })
 );
 
@@ -198,7 +127,7 @@ router.post(
  *             description: Webhook payload from shipping provider
  *     responses:
  *       200:
- *         description: Webhook processed successfully
+ *         description: Webhook stored. Events that could not be applied yet are retried by the API, so the provider must not resend them; a redelivered event is acknowledged without being applied again.
  *         content:
  *           application/json:
  *             schema:
@@ -207,12 +136,7 @@ router.post(
  *                 success:
  *                   type: boolean
  *                 data:
- *                   type: object
- *                   properties:
- *                     webhookId:
- *                       type: string
- *                     processed:
- *                       type: boolean
+ *                   $ref: '#/components/schemas/WebhookReceipt'
  *                 meta:
  *                   $ref: '#/components/schemas/ApiMeta'
  *       400:
@@ -240,104 +164,19 @@ router.post(
       throw new ValidationError('Webhook signature is required');
     }
 
-    try {
-      logger.info('Processing shipping webhook', {
-        provider,
-        event: req.body.event,
-        traceId: req.traceId,
-      });
-
-      const webhook = await shippingService.processWebhook(
-        provider as ShippingProvider,
-        req.body,
-        signature
-      );
-
-      // Update shipment status based on webhook data
-      const shipmentId = webhook.data?.shipment?.id || webhook.data?.order_id;
-      const status = webhook.data?.shipment?.status || webhook.data?.status;
-
-      if (shipmentId && status) {
-        await prisma.shipment.updateMany({
-          where: { 
-            OR: [
-              { id: shipmentId },
-              { trackingNumber: shipmentId },
-            ],
-          },
-          data: {
-            status: status.toUpperCase() as any,
-            updatedAt: new Date(),
-          },
-        });
+    const receipt = await webhookInbox.receive('SHIPPING', provider, req.body, req.headers, signature);
 
-        // Update order status based on shipment status
-        if (status === 'delivered') {
-          const shipment = await prisma.shipment.findFirst({
-            where: { 
-              OR: [
-                { id: shipmentId },
-                { trackingNumber: shipmentId },
-              ],
-            },
-          });
-
-          if (shipment) {
-            await prisma.order.update({
-              where: { id: shipment.orderId },
-              data: {
-                status: 'DELIVERED',
-                updatedAt: new Date(),
-              },
-            });
-          }
-        }
-      }
+    const response: ApiResponse<WebhookReceipt> = {
+      success: true,
+      data: receipt,
+      meta: {
+        traceId: req.traceId || 'unknown',
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    };
 
-      const response: ApiResponse<{
-        webhookId: string;
-        processed: boolean;
-      }> = {
-        success: true,
-        data: {
-          webhookId: webhook.id,
-          processed: true,
-        },
-        meta: {
-          traceId: req.traceId || 'unknown',
-          timestamp: new Date().toISOString(),
-          version: 'v1',
-        },
-      };
-
-      res.json(response);
-    } catch (error) {
-      logger.error('Shipping webhook processing failed', {
-        provider,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        traceId: req.traceId,
-      });
-
-      // Return 200 to prevent webhook retries for certain errors
-      if (error instanceof ValidationError) {
-        res.status(200).json({
-          success: false,
-          error: {
-            status: 400,
-            code: 'VALIDATION_ERROR',
-            message: error.message,
-          },
-          meta: {
-            traceId: req.traceId || 'unknown',
-            timestamp: new Date().toISOString(),
-            version: 'v1',
-          },
-        });
-        return;
-      }
-
-      throw error;
-    }
+    res.json(response);
   })
 );
 
@@ -0,0 +1,679 @@
+import crypto from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  Cart,
+  CartItem,
+  CartMergeConflict,
+  CartMergeResult,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '@newhill/shared/types/api';
+import { resolveGstRate } from './GstTaxEngine';
+import { accountScope } from './OrganizationService';
+import { PricingService } from './PricingService';
+import { PromotionService } from './PromotionService';
+import { Logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+
+// Anonymous carts are kept as long as the guest cart cookie
+const GUEST_CART_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface CartOwner {
+  userId?: string;
+  sessionToken?: string;
+}
+
+export interface CartItemInput {
+  id?: string;
+  productId: string;
+  variantId?: string;
+  quantity: number;
+}
+
+const variantInclude = {
+  product: true,
+  lots: {
+    where: { status: 'ACTIVE' as const },
+  },
+};
+
+const cartInclude = {
+  items: {
+    orderBy: { addedAt: 'asc' as const },
+    include: {
+      variant: {
+        include: variantInclude,
+      },
+    },
+  },
+};
+
+export class CartService {
+  private prisma: PrismaClient;
+  private logger: Logger;
+  private metrics: typeof MetricsCollector;
+  private pricing: PricingService;
+  private promotions: PromotionService;
+
+  constructor(
+    prisma: PrismaClient,
+    logger: Logger,
+    metrics: typeof MetricsCollector,
+    pricing: PricingService = new PricingService(prisma, logger, metrics),
+    promotions: PromotionService = new PromotionService(prisma, logger, metrics, pricing)
+  ) {
+    this.prisma = prisma;
+    this.logger = logger;
+    this.metrics = metrics;
+    this.pricing = pricing;
+    this.promotions = promotions;
+  }
+
+  async getCart(owner: CartOwner, currency: string): Promise<Cart> {
+    const cart = await this.findOrCreateCart(owner, currency);
+    return this.buildCart(cart.id, currency);
+  }
+
+  async addItem(owner: CartOwner, input: CartItemInput, currency: string): Promise<Cart> {
+    const cart = await this.findOrCreateCart(owner, currency);
+    const variant = await this.resolveVariant(input.productId, input.variantId);
+
+    const existingItem = await this.prisma.cartItem.findUnique({
+      where: { cartId_variantId: { cartId: cart.id, variantId: variant.id } },
+    });
+
+    const quantity = (existingItem?.quantity || 0) + input.quantity;
+    this.assertPurchasable(variant, quantity);
+
+    await this.prisma.cartItem.upsert({
+      where: { cartId_variantId: { cartId: cart.id, variantId: variant.id } },
+      create: {
+        cartId: cart.id,
+        variantId: variant.id,
+        quantity,
+      },
+      update: { quantity },
+    });
+
+    this.metrics.incrementCounter('cart.item.added', 1, {
+      currency,
+      guest: owner.userId ? 'false' : 'true',
+    });
+
+    this.logger.info('Cart item added', {
+      cartId: cart.id,
+      variantId: variant.id,
+      quantity,
+    });
+
+    return this.buildCart(cart.id, currency);
+  }
+
+  async replaceItems(owner: CartOwner, items: CartItemInput[], currency: string): Promise<Cart> {
+    const cart = await this.findOrCreateCart(owner, currency);
+
+    // Collapse duplicate variants so the unique (cartId, variantId) constraint holds
+    const quantities = new Map<string, number>();
+    const variants = new Map<string, Awaited<ReturnType<CartService['resolveVariant']>>>();
+
+    for (const item of items) {
+      const variant = await this.resolveVariant(item.productId, item.variantId);
+      variants.set(variant.id, variant);
+      quantities.set(variant.id, (quantities.get(variant.id) || 0) + item.quantity);
+    }
+
+    for (const [variantId, quantity] of quantities) {
+      this.assertPurchasable(variants.get(variantId)!, quantity);
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.cartItem.deleteMany({
+        where: {
+          cartId: cart.id,
+          variantId: { notIn: Array.from(quantities.keys()) },
+        },
+      }),
+      ...Array.from(quantities.entries()).map(([variantId, quantity]) =>
+        this.prisma.cartItem.upsert({
+          where: { cartId_variantId: { cartId: cart.id, variantId } },
+          create: { cartId: cart.id, variantId, quantity },
+          update: { quantity },
+        })
+      ),
+    ]);
+
+    this.metrics.incrementCounter('cart.updated', 1, { currency });
+
+    return this.buildCart(cart.id, currency);
+  }
+
+  async removeItem(owner: CartOwner, itemId: string, currency: string): Promise<Cart> {
+    const cart = await this.findOrCreateCart(owner, currency);
+
+    const item = await this.prisma.cartItem.findFirst({
+      where: { id: itemId, cartId: cart.id },
+    });
+
+    if (!item) {
+      throw new NotFoundError('Cart item');
+    }
+
+    await this.prisma.cartItem.delete({
+      where: { id: item.id },
+    });
+
+    this.metrics.incrementCounter('cart.item.removed', 1, { currency });
+
+    return this.buildCart(cart.id, currency);
+  }
+
+  async clearCart(owner: CartOwner, currency: string): Promise<Cart> {
+    const cart = await this.findOrCreateCart(owner, currency);
+
+    await this.prisma.$transaction([
+      this.prisma.cartItem.deleteMany({
+        where: { cartId: cart.id },
+      }),
+      this.prisma.cart.update({
+        where: { id: cart.id },
+        data: { discountCode: null },
+      }),
+    ]);
+
+    this.metrics.incrementCounter('cart.cleared', 1, { currency });
+
+    return this.buildCart(cart.id, currency);
+  }
+
+  async applyCoupon(owner: CartOwner, code: string, currency: string, isB2B: boolean = false): Promise<Cart> {
+    const cart = await this.findOrCreateCart(owner, currency);
+
+    const discount = await this.prisma.discountCode.findUnique({
+      where: { code },
+    });
+
+    if (!discount) {
+      return this.applyPromotionCode(cart.id, code, currency, isB2B);
+    }
+
+    const invalidReason = this.getDiscountInvalidReason(discount, isB2B);
+    if (invalidReason) {
+      throw new ValidationError(invalidReason);
+    }
+
+    const current = await this.buildCart(cart.id, currency);
+    if (discount.minOrderValue && current.subtotal < Number(discount.minOrderValue)) {
+      throw new ValidationError(`Minimum order value of ${discount.minOrderValue} required`);
+    }
+
+    await this.prisma.cart.update({
+      where: { id: cart.id },
+      data: { discountCode: discount.code },
+    });
+
+    this.metrics.incrementCounter('cart.coupon.applied', 1, { currency });
+
+    return this.buildCart(cart.id, currency, isB2B);
+  }
+
+  /**
+   * Attach a promotion's code, as long as the cart qualifies for it today
+   */
+  private async applyPromotionCode(cartId: string, code: string, currency: string, isB2B: boolean): Promise<Cart> {
+    const promotion = await this.promotions.findByCode(code);
+    if (!promotion) {
+      throw new ValidationError('Invalid discount code');
+    }
+
+    const previous = await this.prisma.cart.findUniqueOrThrow({ where: { id: cartId } });
+    await this.prisma.cart.update({
+      where: { id: cartId },
+      data: { discountCode: promotion.code },
+    });
+
+    const cart = await this.buildCart(cartId, currency, isB2B);
+    if (!cart.promotions?.some(applied => applied.promotionId === promotion.id)) {
+      await this.prisma.cart.update({
+        where: { id: cartId },
+        data: { discountCode: previous.discountCode },
+      });
+
+      throw new ValidationError('Your cart does not qualify for this promotion');
+    }
+
+    this.metrics.incrementCounter('cart.coupon.applied', 1, { currency });
+
+    return cart;
+  }
+
+  async removeCoupon(owner: CartOwner, currency: string): Promise<Cart> {
+    const cart = await this.findOrCreateCart(owner, currency);
+
+    await this.prisma.cart.update({
+      where: { id: cart.id },
+      data: { discountCode: null },
+    });
+
+    return this.buildCart(cart.id, currency);
+  }
+
+  /**
+   * Merge an anonymous cart into the user's cart after sign-in.
+   * Guest lines are applied oldest first; quantities are summed and clamped to
+   * the variant's maxOrderQty and available stock, and every adjustment is reported.
+   */
+  async mergeGuestCart(userId: string, sessionToken: string, currency: string): Promise<CartMergeResult> {
+    const traceId = crypto.randomUUID();
+    const userCart = await this.findOrCreateCart({ userId }, currency);
+
+    const guestCart = await this.prisma.cart.findUnique({
+      where: { sessionToken },
+      include: cartInclude,
+    });
+
+    if (!guestCart || guestCart.id === userCart.id) {
+      return { cart: await this.buildCart(userCart.id, currency), conflicts: [] };
+    }
+
+    try {
+      const userItems = await this.prisma.cartItem.findMany({
+        where: { cartId: userCart.id },
+      });
+      const quantities = new Map(userItems.map(item => [item.variantId, item.quantity]));
+
+      const guestItems = [...guestCart.items].sort(
+        (a, b) => a.addedAt.getTime() - b.addedAt.getTime() || a.id.localeCompare(b.id)
+      );
+
+      const conflicts: CartMergeConflict[] = [];
+      const operations: Prisma.PrismaPromise<unknown>[] = [];
+
+      for (const item of guestItems) {
+        const variant = item.variant;
+        const existingQuantity = quantities.get(variant.id) || 0;
+        const requestedQuantity = existingQuantity + item.quantity;
+
+        if (
+          variant.status !== 'ACTIVE' ||
+          variant.softDeleted ||
+          variant.product.status !== 'ACTIVE' ||
+          variant.product.softDeleted
+        ) {
+          conflicts.push({
+            productId: variant.productId,
+            variantId: variant.id,
+            reason: 'UNAVAILABLE',
+            requestedQuantity,
+            mergedQuantity: existingQuantity,
+          });
+          continue;
+        }
+
+        let mergedQuantity = requestedQuantity;
+        let reason: CartMergeConflict['reason'] | null = null;
+
+        if (variant.maxOrderQty && mergedQuantity > variant.maxOrderQty) {
+          mergedQuantity = variant.maxOrderQty;
+          reason = 'MAX_ORDER_QTY';
+        }
+
+        const available = this.getAvailableQuantity(variant);
+        if (mergedQuantity > available) {
+          mergedQuantity = available;
+          reason = 'INSUFFICIENT_STOCK';
+        }
+
+        // A line that cannot meet the minimum order quantity is left out entirely
+        if (mergedQuantity < variant.minOrderQty) {
+          mergedQuantity = existingQuantity;
+          reason = reason || 'INSUFFICIENT_STOCK';
+        }
+
+        if (reason) {
+          conflicts.push({
+            productId: variant.productId,
+            variantId: variant.id,
+            reason,
+            requestedQuantity,
+            mergedQuantity,
+          });
+        }
+
+        if (mergedQuantity === existingQuantity) {
+          continue;
+        }
+
+        quantities.set(variant.id, mergedQuantity);
+        operations.push(
+          this.prisma.cartItem.upsert({
+            where: { cartId_variantId: { cartId: userCart.id, variantId: variant.id } },
+            create: {
+              cartId: userCart.id,
+              variantId: variant.id,
+              quantity: mergedQuantity,
+              addedAt: item.addedAt,
+            },
+            update: { quantity: mergedQuantity },
+          })
+        );
+      }
+
+      await this.prisma.$transaction([
+        ...operations,
+        ...(guestCart.discountCode && !userCart.discountCode
+          ? [
+              this.prisma.cart.update({
+                where: { id: userCart.id },
+                data: { discountCode: guestCart.discountCode },
+              }),
+            ]
+          : []),
+        this.prisma.cart.delete({
+          where: { id: guestCart.id },
+        }),
+      ]);
+
+      this.metrics.incrementCounter('cart.merged', 1, {
+        currency,
+        conflicts: conflicts.length > 0 ? 'true' : 'false',
+      });
+
+      this.logger.info('Guest cart merged', {
+        traceId,
+        userId,
+        guestCartId: guestCart.id,
+        cartId: userCart.id,
+        mergedItems: operations.length,
+        conflicts: conflicts.length,
+      });
+
+      return { cart: await this.buildCart(userCart.id, currency), conflicts };
+    } catch (error) {
+      this.logger.error('Guest cart merge failed', {
+        traceId,
+        userId,
+        guestCartId: guestCart.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  private async findOrCreateCart(owner: CartOwner, currency: string) {
+    const where = this.getOwnerWhere(owner);
+
+    const cart = await this.prisma.cart.findUnique({ where });
+
+    if (!cart) {
+      return this.prisma.cart.create({
+        data: {
+          ...where,
+          currency,
+          expiresAt: owner.userId ? null : new Date(Date.now() + GUEST_CART_TTL_MS),
+        },
+      });
+    }
+
+    if (cart.currency !== currency) {
+      return this.prisma.cart.update({
+        where: { id: cart.id },
+        data: { currency },
+      });
+    }
+
+    return cart;
+  }
+
+  private getOwnerWhere(owner: CartOwner): { userId: string } | { sessionToken: string } {
+    if (owner.userId) {
+      return { userId: owner.userId };
+    }
+
+    if (owner.sessionToken) {
+      return { sessionToken: owner.sessionToken };
+    }
+
+    throw new ValidationError('Cart owner is required');
+  }
+
+  private async resolveVariant(productId: string, variantId?: string) {
+    const variant = await this.prisma.productVariant.findFirst({
+      where: variantId
+        ? { id: variantId, productId, softDeleted: false }
+        : { productId, status: 'ACTIVE', softDeleted: false },
+      orderBy: { weightInGrams: 'asc' },
+      include: variantInclude,
+    });
+
+    if (!variant) {
+      throw new NotFoundError('Product variant');
+    }
+
+    return variant;
+  }
+
+  private assertPurchasable(variant: any, quantity: number): void {
+    if (
+      variant.status !== 'ACTIVE' ||
+      variant.product.status !== 'ACTIVE' ||
+      variant.product.softDeleted
+    ) {
+      throw new ValidationError('Product variant is not available', { variantId: variant.id });
+    }
+
+    if (quantity < variant.minOrderQty) {
+      throw new ValidationError(`Minimum order quantity is ${variant.minOrderQty}`, {
+        variantId: variant.id,
+        minOrderQty: variant.minOrderQty,
+      });
+    }
+
+    if (variant.maxOrderQty && quantity > variant.maxOrderQty) {
+      throw new ValidationError(`Maximum order quantity is ${variant.maxOrderQty}`, {
+        variantId: variant.id,
+        maxOrderQty: variant.maxOrderQty,
+      });
+    }
+
+    const available = this.getAvailableQuantity(variant);
+    if (available < quantity) {
+      throw new ConflictError(`Only ${available} units of this item are in stock`);
+    }
+  }
+
+  private getAvailableQuantity(variant: any): number {
+    return variant.lots.reduce((sum: number, lot: any) => sum + lot.qtyAvailable, 0);
+  }
+
+  private async buildCart(cartId: string, currency: string, isB2B: boolean = false): Promise<Cart> {
+    const cart = await this.prisma.cart.findUnique({
+      where: { id: cartId },
+      include: cartInclude,
+    });
+
+    if (!cart) {
+      throw new NotFoundError('Cart');
+    }
+
+    // Guest carts pay list prices; account carts get the buyer's tiers and contract prices
+    const prices = await this.pricing.resolve(
+      cart.userId || undefined,
+      cart.items.map(item => ({ variantId: item.variantId, quantity: item.quantity })),
+      currency
+    );
+
+    // Automatic promotions, and the cart's code when it belongs to a promotion, come off before discount codes
+    const promotions = await this.promotions.evaluate({
+      userId: cart.userId || undefined,
+      currency,
+      region: await this.getRegion(cart.userId),
+      codes: cart.discountCode ? [cart.discountCode] : [],
+      lines: cart.items.map((item, index) => ({
+        variantId: item.variantId,
+        productId: item.variant.productId,
+        category: item.variant.product.category,
+        weightInGrams: item.variant.weightInGrams,
+        quantity: item.quantity,
+        unitPrice: prices[index].unitPrice,
+      })),
+    });
+
+    const items: CartItem[] = cart.items.map((item, index) => {
+      const availableQuantity = this.getAvailableQuantity(item.variant);
+
+      return {
+        id: item.id,
+        productId: item.variant.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        price: prices[index].unitPrice,
+        listPrice: prices[index].listPrice,
+        priceSource: prices[index].source,
+        promotionDiscount: promotions.lines[index].promotionDiscount,
+        promotions: promotions.lines[index].promotions,
+        addedAt: item.addedAt.toISOString(),
+        name: item.variant.product.name,
+        weightInGrams: item.variant.weightInGrams,
+        availableQuantity,
+        inStock: availableQuantity >= item.quantity,
+      };
+    });
+
+    const subtotal = this.round(items.reduce((sum, item) => sum + item.price * item.quantity, 0));
+    const promotionDiscount = promotions.promotionDiscount;
+
+    // An exclusive promotion leaves no room for a discount code
+    const { amount: discount, code: discountCode } = promotions.exclusive
+      ? { amount: 0, code: undefined }
+      : await this.calculateDiscount(cart.discountCode, this.round(subtotal - promotionDiscount), isB2B);
+    const couponCode = discountCode ?? promotions.applied.find(applied => applied.code === cart.discountCode)?.code;
+
+    const tax = currency === 'INR' ? this.estimateGst(cart.items, items, discount) : 0;
+    const shipping = 0; // Quoted at checkout once the destination is known
+
+    return {
+      id: cart.id,
+      userId: cart.userId || '',
+      items,
+      subtotal,
+      promotionDiscount,
+      promotions: promotions.applied,
+      freeItems: promotions.freeItems,
+      discount,
+      couponCode,
+      tax,
+      shipping,
+      total: this.round(subtotal - promotionDiscount - discount + tax + shipping),
+      currency,
+      createdAt: cart.createdAt.toISOString(),
+      updatedAt: cart.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Indicative GST at each product's HSN rate, on each line after its
+   * promotion discounts and with the discount code spread across lines pro
+   * rata. CGST+SGST and IGST add up to the same amount, so the destination
+   * only matters for how checkout splits it.
+   */
+  private estimateGst(cartItems: any[], items: CartItem[], discount: number): number {
+    const lineValue = (item: CartItem) => item.price * item.quantity - (item.promotionDiscount || 0);
+    const subtotal = items.reduce((sum, item) => sum + lineValue(item), 0);
+    if (subtotal <= 0) {
+      return 0;
+    }
+
+    const discountFactor = (subtotal - discount) / subtotal;
+
+    return this.round(items.reduce((sum, item, index) => {
+      const product = cartItems[index].variant.product;
+      const rate = resolveGstRate(product.hsnCode, product.gstRate !== null ? Number(product.gstRate) : null);
+      return sum + (lineValue(item) * discountFactor * rate) / 100;
+    }, 0));
+  }
+
+  /**
+   * Regional promotions are shown against the buyer's default shipping
+   * address; checkout checks them again against the address used
+   */
+  private async getRegion(userId: string | null): Promise<string | undefined> {
+    if (!userId) {
+      return undefined;
+    }
+
+    const address = await this.prisma.address.findFirst({
+      where: { ...accountScope(userId), type: 'SHIPPING', isDefault: true },
+      select: { country: true },
+    });
+
+    return address?.country;
+  }
+
+  private async calculateDiscount(
+    code: string | null,
+    subtotal: number,
+    isB2B: boolean
+  ): Promise<{ amount: number; code?: string }> {
+    if (!code || subtotal <= 0) {
+      return { amount: 0 };
+    }
+
+    const discount = await this.prisma.discountCode.findUnique({
+      where: { code },
+    });
+
+    // Codes that lapse after being applied silently stop discounting
+    if (!discount || this.getDiscountInvalidReason(discount, isB2B, false)) {
+      return { amount: 0 };
+    }
+
+    if (discount.minOrderValue && subtotal < Number(discount.minOrderValue)) {
+      return { amount: 0 };
+    }
+
+    let amount = 0;
+    if (discount.type === 'PERCENTAGE') {
+      amount = (subtotal * Number(discount.value)) / 100;
+    } else if (discount.type === 'FIXED_AMOUNT') {
+      amount = Number(discount.value);
+    }
+
+    if (discount.maxDiscountAmount && amount > Number(discount.maxDiscountAmount)) {
+      amount = Number(discount.maxDiscountAmount);
+    }
+
+    // FREE_SHIPPING codes stay attached with a zero amount and are honoured at checkout
+    return { amount: this.round(Math.min(amount, subtotal)), code: discount.code };
+  }
+
+  private getDiscountInvalidReason(discount: any, isB2B: boolean, checkB2B: boolean = true): string | null {
+    const now = new Date();
+
+    if (!discount.isActive) {
+      return 'Discount code is not active';
+    }
+
+    if (discount.validFrom > now) {
+      return 'Discount code is not yet valid';
+    }
+
+    if (discount.validUntil && discount.validUntil < now) {
+      return 'Discount code has expired';
+    }
+
+    if (checkB2B && discount.isB2BOnly && !isB2B) {
+      return 'This discount is only available for business customers';
+    }
+
+    if (discount.usageLimit && discount.usedCount >= discount.usageLimit) {
+      return 'Discount code usage limit reached';
+    }
+
+    return null;
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -0,0 +1,200 @@
+import crypto from 'crypto';
+import { PrismaClient, ShipmentStatus } from '@prisma/client';
+import { NotFoundError, ValidationError } from '@newhill/shared/types/api';
+import { CodEligibility, CodIneligibleReason, PaymentStatus } from '@newhill/shared/types/payment';
+import { ShippingAddress } from '@newhill/shared/types/shipping';
+import { ShippingAdapterFactory } from '../adapters/shipping/ShippingAdapterFactory';
+import { OrderStatusService } from './OrderStatusService';
+import { Logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+
+export interface CodEligibilityRequest {
+  userId: string;
+  destination: Pick<ShippingAddress, 'country' | 'postalCode'>;
+  orderValue: number;
+  currency: string;
+  weight: number; // in grams
+}
+
+// The checkout's view of a COD payment; there is no gateway to redirect to
+export interface CodPayment {
+  paymentId: string;
+  method: 'cod';
+  status: PaymentStatus;
+  amount: number;
+  fee: number;
+  currency: string;
+}
+
+// Cash on delivery is only offered in India, through Shiprocket
+const COD_REGION = 'IN';
+const COD_CURRENCY = 'INR';
+
+// Orders above this value (INR) must be paid online
+const MAX_ORDER_VALUE = parseInt(process.env.COD_MAX_ORDER_VALUE || '10000', 10);
+
+// The fee is a flat amount or a percentage of the order value, whichever is higher
+const FEE_FLAT = parseFloat(process.env.COD_FEE_FLAT || '49');
+const FEE_PERCENT = parseFloat(process.env.COD_FEE_PERCENT || '2');
+
+// Customers with this many refused or returned COD deliveries must pay online
+const RTO_BLOCK_THRESHOLD = parseInt(process.env.COD_RTO_BLOCK_THRESHOLD || '2', 10);
+
+// Shipments that came back to us instead of being paid for
+const RTO_SHIPMENT_STATUSES: ShipmentStatus[] = ['FAILED', 'RETURNED'];
+
+const WAREHOUSE_POSTAL_CODE = '400001';
+
+export function calculateCodFee(orderValue: number): number {
+  return Math.round(Math.max(FEE_FLAT, (orderValue * FEE_PERCENT) / 100) * 100) / 100;
+}
+
+/**
+ * Cash on delivery for Indian orders: decides who may pay on delivery and
+ * records the pending payment that the carrier's remittance later settles
+ */
+export class CodService {
+  private prisma: PrismaClient;
+  private logger: Logger;
+  private metrics: typeof MetricsCollector;
+  private orderStatus: OrderStatusService;
+
+  constructor(
+    prisma: PrismaClient,
+    logger: Logger,
+    metrics: typeof MetricsCollector,
+    orderStatus: OrderStatusService = new OrderStatusService(prisma, logger, metrics)
+  ) {
+    this.prisma = prisma;
+    this.logger = logger;
+    this.metrics = metrics;
+    this.orderStatus = orderStatus;
+  }
+
+  /**
+   * Whether an order may be paid cash on delivery, with every reason it may
+   * not, and the fee that would be added to it
+   */
+  async checkEligibility(request: CodEligibilityRequest): Promise<CodEligibility> {
+    const reasons: CodIneligibleReason[] = [];
+
+    const inRegion = request.destination.country === COD_REGION && request.currency.toUpperCase() === COD_CURRENCY;
+    if (!inRegion) {
+      reasons.push('REGION');
+    }
+
+    if (request.orderValue > MAX_ORDER_VALUE) {
+      reasons.push('ORDER_VALUE');
+    }
+
+    // Only Indian pincodes are worth asking the carrier about
+    if (inRegion && !(await this.isServiceable(request))) {
+      reasons.push('PINCODE');
+    }
+
+    const returned = await this.prisma.shipment.count({
+      where: {
+        codAmount: { not: null },
+        status: { in: RTO_SHIPMENT_STATUSES },
+        order: { userId: request.userId },
+      },
+    });
+
+    if (returned >= RTO_BLOCK_THRESHOLD) {
+      reasons.push('RTO_HISTORY');
+    }
+
+    reasons.forEach(reason => this.metrics.incrementCounter('payment.cod.ineligible', 1, { reason }));
+
+    return {
+      eligible: reasons.length === 0,
+      fee: calculateCodFee(request.orderValue),
+      currency: COD_CURRENCY,
+      reasons,
+    };
+  }
+
+  /**
+   * Record the pending COD payment for an order whose totals include the
+   * fee, and confirm the order so it can ship before it is paid
+   */
+  async placeOrder(orderId: string, userId: string): Promise<CodPayment> {
+    const traceId = crypto.randomUUID();
+
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId, userId },
+      select: { orderNumber: true, totalAmount: true, codFee: true, currency: true },
+    });
+
+    if (!order) {
+      throw new NotFoundError('Order');
+    }
+
+    if (Number(order.codFee) <= 0) {
+      throw new ValidationError('Order totals do not include the cash on delivery fee');
+    }
+
+    const payment = await this.prisma.payment.create({
+      data: {
+        orderId,
+        providerId: `COD-${order.orderNumber}`,
+        amount: order.totalAmount,
+        currency: order.currency,
+        status: 'PENDING',
+        method: 'COD',
+        metadata: {
+          codFee: Number(order.codFee),
+        },
+      },
+    });
+
+    await this.orderStatus.transition(orderId, 'confirmed', { type: 'CUSTOMER', id: userId }, {
+      reason: 'Cash on delivery order placed',
+      metadata: { paymentId: payment.id },
+    });
+
+    this.metrics.incrementCounter('payment.cod.placed', 1, { currency: order.currency });
+    this.logger.info('Cash on delivery order placed', {
+      traceId,
+      orderId,
+      paymentId: payment.id,
+      amount: Number(order.totalAmount),
+    });
+
+    return {
+      paymentId: payment.providerId,
+      method: 'cod',
+      status: 'pending',
+      amount: Number(order.totalAmount),
+      fee: Number(order.codFee),
+      currency: order.currency,
+    };
+  }
+
+  private async isServiceable(request: CodEligibilityRequest): Promise<boolean> {
+    try {
+      const adapter = ShippingAdapterFactory.getProviderAdapter(
+        'shiprocket',
+        COD_REGION,
+        process.env.NODE_ENV === 'production' ? 'live' : 'sandbox'
+      );
+
+      if (!adapter.checkCodServiceability) {
+        return false;
+      }
+
+      return await adapter.checkCodServiceability({
+        origin: { postalCode: WAREHOUSE_POSTAL_CODE } as ShippingAddress,
+        destination: { postalCode: request.destination.postalCode } as ShippingAddress,
+        weight: request.weight,
+      });
+    } catch (error) {
+      // Without an answer from the carrier, do not promise cash collection
+      this.logger.warn('COD serviceability check failed', {
+        postalCode: request.destination.postalCode,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  }
+}
@@ -0,0 +1,604 @@
+import crypto from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ConflictError, NotFoundError, ValidationError } from '@newhill/shared/types/api';
+import {
+  AgeingBucket,
+  CreditEligibility,
+  CreditIneligibleReason,
+  InvoicePaymentRecord,
+  PaymentStatus,
+  PaymentTerms,
+  Receivable,
+  ReceivablesAgeing,
+} from '@newhill/shared/types/payment';
+import { OrderStatusService } from './OrderStatusService';
+import { accountScope } from './OrganizationService';
+import { Logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+
+// The checkout's view of an order billed to the buyer's account
+export interface AccountPayment {
+  paymentId: string;
+  method: 'invoice';
+  status: PaymentStatus;
+  amount: number;
+  currency: string;
+  terms: PaymentTerms;
+  purchaseOrderNumber?: string;
+}
+
+export interface ReceivableFilters {
+  userId?: string;
+  bucket?: AgeingBucket;
+  page: number;
+  limit: number;
+}
+
+export interface CreditTermsInput {
+  paymentTerms: PaymentTerms;
+  creditLimit: number | null;
+  creditCurrency: string;
+}
+
+export interface InvoicePaymentInput {
+  amount: number;
+  method: string;
+  reference?: string;
+  receivedAt?: string;
+  notes?: string;
+}
+
+// Days an invoice may be overdue before the account goes on credit hold
+const HOLD_GRACE_DAYS = parseInt(process.env.CREDIT_HOLD_GRACE_DAYS || '0', 10);
+
+const TERMS_DAYS: Record<PaymentTerms, number> = {
+  PREPAID: 0,
+  NET_15: 15,
+  NET_30: 30,
+  NET_60: 60,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const AGEING_BUCKETS: AgeingBucket[] = ['CURRENT', 'DAYS_1_30', 'DAYS_31_60', 'DAYS_61_90', 'DAYS_90_PLUS'];
+
+// Inclusive range of whole days overdue covered by each bucket
+const BUCKET_DAYS: Record<AgeingBucket, [number, number]> = {
+  CURRENT: [-Infinity, 0],
+  DAYS_1_30: [1, 30],
+  DAYS_31_60: [31, 60],
+  DAYS_61_90: [61, 90],
+  DAYS_90_PLUS: [91, Infinity],
+};
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export function daysOverdue(dueDate: Date, now: Date = new Date()): number {
+  return Math.floor((now.getTime() - dueDate.getTime()) / DAY_MS);
+}
+
+export function ageingBucket(dueDate: Date, now: Date = new Date()): AgeingBucket {
+  const days = daysOverdue(dueDate, now);
+  return AGEING_BUCKETS.find(bucket => days <= BUCKET_DAYS[bucket][1])!;
+}
+
+/**
+ * Payment on account for approved B2B buyers: who may skip the gateway,
+ * the receivables their invoices leave open, payments recorded against
+ * them and the credit holds overdue invoices trigger
+ */
+export class CreditService {
+  private prisma: PrismaClient;
+  private logger: Logger;
+  private metrics: typeof MetricsCollector;
+  private orderStatus: OrderStatusService;
+
+  constructor(
+    prisma: PrismaClient,
+    logger: Logger,
+    metrics: typeof MetricsCollector,
+    orderStatus: OrderStatusService = new OrderStatusService(prisma, logger, metrics)
+  ) {
+    this.prisma = prisma;
+    this.logger = logger;
+    this.metrics = metrics;
+    this.orderStatus = orderStatus;
+  }
+
+  /**
+   * Whether an order of this value may be billed to the buyer's account,
+   * with every reason it may not and the credit left
+   */
+  async checkEligibility(userId: string, orderValue: number, currency: string): Promise<CreditEligibility> {
+    const application = await this.prisma.b2BApplication.findFirst({ where: accountScope(userId) });
+    const reasons: CreditIneligibleReason[] = [];
+
+    if (!application || application.status !== 'APPROVED') {
+      reasons.push('NOT_B2B');
+    }
+
+    const terms = (application?.paymentTerms ?? 'PREPAID') as PaymentTerms;
+    const creditLimit = application?.creditLimit ? Number(application.creditLimit) : 0;
+    const creditCurrency = application?.creditCurrency ?? currency.toUpperCase();
+
+    if (application?.status === 'APPROVED' && (terms === 'PREPAID' || creditLimit <= 0)) {
+      reasons.push('NO_TERMS');
+    }
+
+    if (currency.toUpperCase() !== creditCurrency) {
+      reasons.push('CURRENCY');
+    }
+
+    // The hold job may not have run since an invoice fell overdue
+    const overdue = application ? await this.countOverdue(userId) : 0;
+    if (application?.creditHold || overdue > 0) {
+      reasons.push('CREDIT_HOLD');
+    }
+
+    const outstanding = application ? await this.getOutstanding(userId, creditCurrency) : 0;
+    const available = round(Math.max(0, creditLimit - outstanding));
+
+    if (orderValue > available) {
+      reasons.push('CREDIT_LIMIT');
+    }
+
+    reasons.forEach(reason => this.metrics.incrementCounter('payment.credit.ineligible', 1, { reason }));
+
+    return {
+      eligible: reasons.length === 0,
+      terms,
+      currency: creditCurrency,
+      creditLimit,
+      outstanding,
+      available,
+      reasons,
+    };
+  }
+
+  /**
+   * Set an approved account's payment terms and credit limit. Lowering the
+   * limit below what is outstanding only stops new orders on account.
+   */
+  async updateTerms(applicationId: string, input: CreditTermsInput, adminId: string): Promise<void> {
+    const application = await this.prisma.b2BApplication.findUnique({ where: { id: applicationId } });
+    if (!application) {
+      throw new NotFoundError('B2B application');
+    }
+
+    if (input.paymentTerms !== 'PREPAID' && application.status !== 'APPROVED') {
+      throw new ValidationError('Only approved B2B accounts can have payment terms');
+    }
+
+    await this.prisma.b2BApplication.update({
+      where: { id: applicationId },
+      data: {
+        paymentTerms: input.paymentTerms,
+        creditLimit: input.creditLimit,
+        creditCurrency: input.creditCurrency.toUpperCase(),
+      },
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        userId: adminId,
+        entity: 'B2BApplication',
+        entityId: applicationId,
+        action: 'CREDIT_TERMS_UPDATED',
+        metadata: {
+          from: {
+            paymentTerms: application.paymentTerms,
+            creditLimit: application.creditLimit ? Number(application.creditLimit) : null,
+            creditCurrency: application.creditCurrency,
+          },
+          to: { ...input },
+        },
+      },
+    });
+
+    this.logger.info('Credit terms updated', { applicationId, ...input, adminId });
+  }
+
+  /**
+   * Record the pending payment for an order billed on account and confirm
+   * the order so it ships before it is paid. The credit limit is checked
+   * again with the account row locked, so concurrent checkouts on the same
+   * account cannot together go over it.
+   */
+  async placeOrder(orderId: string, userId: string, purchaseOrderNumber?: string): Promise<AccountPayment> {
+    const traceId = crypto.randomUUID();
+
+    const [order, application] = await Promise.all([
+      this.prisma.order.findUnique({
+        where: { id: orderId, userId },
+        select: { orderNumber: true, totalAmount: true, currency: true },
+      }),
+      this.prisma.b2BApplication.findFirst({ where: accountScope(userId) }),
+    ]);
+
+    if (!order) {
+      throw new NotFoundError('Order');
+    }
+
+    const terms = (application?.paymentTerms ?? 'PREPAID') as PaymentTerms;
+    if (application?.status !== 'APPROVED' || terms === 'PREPAID') {
+      throw new ValidationError('This account does not have payment terms');
+    }
+
+    const payment = await this.prisma.$transaction(async tx => {
+      await tx.$queryRaw`SELECT "id" FROM "B2BApplication" WHERE "id" = ${application.id} FOR UPDATE`;
+
+      const account = await tx.b2BApplication.findUniqueOrThrow({ where: { id: application.id } });
+      if (account.creditHold) {
+        throw new ValidationError('This account is on credit hold');
+      }
+
+      if (order.currency !== account.creditCurrency) {
+        throw new ValidationError(`Orders on account must be in ${account.creditCurrency}`);
+      }
+
+      const creditLimit = account.creditLimit ? Number(account.creditLimit) : 0;
+      const outstanding = await this.getOutstanding(userId, account.creditCurrency, tx);
+      const available = round(Math.max(0, creditLimit - outstanding));
+
+      if (Number(order.totalAmount) > available) {
+        throw new ValidationError('The order exceeds the credit available on this account', {
+          creditLimit,
+          outstanding,
+          available,
+        });
+      }
+
+      return tx.payment.create({
+        data: {
+          orderId,
+          providerId: `PO-${order.orderNumber}`,
+          amount: order.totalAmount,
+          currency: order.currency,
+          status: 'PENDING',
+          method: 'INVOICE',
+          metadata: {
+            // The terms in force when the order was placed set its due date
+            terms,
+            ...(purchaseOrderNumber && { purchaseOrderNumber }),
+          },
+        },
+      });
+    });
+
+    await this.orderStatus.transition(orderId, 'confirmed', { type: 'CUSTOMER', id: userId }, {
+      reason: `Order placed on account (${terms})`,
+      metadata: { paymentId: payment.id, purchaseOrderNumber },
+    });
+
+    this.metrics.incrementCounter('payment.credit.placed', 1, { terms, currency: order.currency });
+    this.logger.info('Order placed on account', {
+      traceId,
+      orderId,
+      paymentId: payment.id,
+      terms,
+      amount: Number(order.totalAmount),
+    });
+
+    return {
+      paymentId: payment.providerId,
+      method: 'invoice',
+      status: 'pending',
+      amount: Number(order.totalAmount),
+      currency: order.currency,
+      terms,
+      ...(purchaseOrderNumber && { purchaseOrderNumber }),
+    };
+  }
+
+  /**
+   * Give an issued invoice its due date when its order was billed on
+   * account. Orders paid at checkout are left alone.
+   */
+  async openReceivable(orderId: string): Promise<Date | null> {
+    const [invoice, payment] = await Promise.all([
+      this.prisma.invoice.findUnique({ where: { orderId } }),
+      this.prisma.payment.findFirst({ where: { orderId, method: 'INVOICE' } }),
+    ]);
+
+    if (!invoice || !payment) {
+      return null;
+    }
+
+    if (invoice.dueDate) {
+      return invoice.dueDate;
+    }
+
+    const terms = ((payment.metadata as Prisma.JsonObject | null)?.terms ?? 'NET_30') as PaymentTerms;
+    const dueDate = new Date(invoice.issuedAt.getTime() + TERMS_DAYS[terms] * DAY_MS);
+
+    await this.prisma.invoice.update({
+      where: { id: invoice.id },
+      data: { dueDate },
+    });
+
+    return dueDate;
+  }
+
+  /**
+   * Open invoices, most overdue first, with the ageing of every open
+   * balance matching the filters other than the bucket
+   */
+  async listReceivables(filters: ReceivableFilters): Promise<{ items: Receivable[]; total: number; ageing: ReceivablesAgeing[] }> {
+    const now = new Date();
+    const open: Prisma.InvoiceWhereInput = {
+      dueDate: { not: null },
+      paidAt: null,
+      ...(filters.userId && { order: { userId: filters.userId } }),
+    };
+    const where: Prisma.InvoiceWhereInput = filters.bucket
+      ? { AND: [open, { dueDate: this.bucketDueDates(filters.bucket, now) }] }
+      : open;
+
+    const [invoices, total, balances] = await Promise.all([
+      this.prisma.invoice.findMany({
+        where,
+        orderBy: { dueDate: 'asc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+        include: {
+          order: {
+            select: {
+              orderNumber: true,
+              userId: true,
+              user: { select: { b2bApplication: { select: { businessName: true } } } },
+              organization: { select: { name: true } },
+            },
+          },
+        },
+      }),
+      this.prisma.invoice.count({ where }),
+      this.prisma.invoice.findMany({
+        where: open,
+        select: { currency: true, totalAmount: true, amountPaid: true, dueDate: true },
+      }),
+    ]);
+
+    const ageing = new Map<string, ReceivablesAgeing>();
+    for (const balance of balances) {
+      const entry = ageing.get(balance.currency) ?? {
+        currency: balance.currency,
+        buckets: Object.fromEntries(AGEING_BUCKETS.map(bucket => [bucket, 0])) as Record<AgeingBucket, number>,
+        total: 0,
+      };
+      const amount = Number(balance.totalAmount) - Number(balance.amountPaid);
+      const bucket = ageingBucket(balance.dueDate!, now);
+
+      entry.buckets[bucket] = round(entry.buckets[bucket] + amount);
+      entry.total = round(entry.total + amount);
+      ageing.set(balance.currency, entry);
+    }
+
+    const items = invoices.map(invoice => ({
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      orderId: invoice.orderId,
+      orderNumber: invoice.order.orderNumber,
+      userId: invoice.order.userId,
+      businessName: invoice.order.organization?.name ?? invoice.order.user.b2bApplication?.businessName,
+      currency: invoice.currency,
+      totalAmount: Number(invoice.totalAmount),
+      amountPaid: Number(invoice.amountPaid),
+      balance: round(Number(invoice.totalAmount) - Number(invoice.amountPaid)),
+      issuedAt: invoice.issuedAt.toISOString(),
+      dueDate: invoice.dueDate!.toISOString(),
+      daysOverdue: Math.max(0, daysOverdue(invoice.dueDate!, now)),
+      bucket: ageingBucket(invoice.dueDate!, now),
+    }));
+
+    return { items, total, ageing: Array.from(ageing.values()) };
+  }
+
+  /**
+   * Record money received against an invoice billed on account. The
+   * invoice is settled, and its order's payment completed, once paid in
+   * full; the account comes off credit hold when nothing is left overdue.
+   */
+  async recordPayment(invoiceId: string, input: InvoicePaymentInput, adminId: string): Promise<InvoicePaymentRecord> {
+    const traceId = crypto.randomUUID();
+
+    const invoice = await this.prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      include: { order: { select: { id: true, userId: true } } },
+    });
+
+    if (!invoice) {
+      throw new NotFoundError('Invoice');
+    }
+
+    if (!invoice.dueDate) {
+      throw new ValidationError('Invoice was not billed on payment terms');
+    }
+
+    const balance = round(Number(invoice.totalAmount) - Number(invoice.amountPaid));
+    if (balance <= 0) {
+      throw new ConflictError('Invoice is already paid');
+    }
+
+    if (input.amount > balance) {
+      throw new ValidationError(`Payment exceeds the open balance of ${balance} ${invoice.currency}`, {
+        balance,
+      });
+    }
+
+    const receivedAt = input.receivedAt ? new Date(input.receivedAt) : new Date();
+    const remaining = round(balance - input.amount);
+
+    const payment = await this.prisma.$transaction(async tx => {
+      // Guarded on the amount read above so two payments recorded at once cannot overpay
+      const { count } = await tx.invoice.updateMany({
+        where: { id: invoiceId, amountPaid: invoice.amountPaid },
+        data: {
+          amountPaid: { increment: input.amount },
+          ...(remaining <= 0 && { paidAt: receivedAt }),
+        },
+      });
+
+      if (count === 0) {
+        throw new ConflictError('Invoice was updated by another payment, please retry');
+      }
+
+      if (remaining <= 0) {
+        await tx.payment.updateMany({
+          where: { orderId: invoice.orderId, method: 'INVOICE', status: 'PENDING' },
+          data: { status: 'COMPLETED' },
+        });
+      }
+
+      return tx.invoicePayment.create({
+        data: {
+          invoiceId,
+          amount: input.amount,
+          method: input.method,
+          reference: input.reference,
+          receivedAt,
+          recordedBy: adminId,
+          notes: input.notes,
+        },
+      });
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        userId: adminId,
+        entity: 'Invoice',
+        entityId: invoiceId,
+        action: 'PAYMENT_RECORDED',
+        metadata: {
+          invoiceNumber: invoice.invoiceNumber,
+          amount: input.amount,
+          method: input.method,
+          reference: input.reference,
+          balance: remaining,
+        },
+      },
+    });
+
+    await this.refreshHold(invoice.order.userId);
+
+    this.metrics.incrementCounter('payment.credit.received', 1, { currency: invoice.currency, settled: String(remaining <= 0) });
+    this.logger.info('Invoice payment recorded', {
+      traceId,
+      invoiceId,
+      invoiceNumber: invoice.invoiceNumber,
+      amount: input.amount,
+      balance: remaining,
+      adminId,
+    });
+
+    return {
+      id: payment.id,
+      invoiceId,
+      amount: input.amount,
+      method: payment.method,
+      reference: payment.reference ?? undefined,
+      receivedAt: payment.receivedAt.toISOString(),
+      balance: remaining,
+    };
+  }
+
+  /**
+   * Put accounts with overdue invoices on credit hold and release those
+   * that have caught up. An organization's account is held for any
+   * member's overdue invoice.
+   */
+  async applyCreditHolds(): Promise<{ held: number; released: number }> {
+    const overdue = await this.prisma.invoice.findMany({
+      where: { paidAt: null, dueDate: { lt: this.holdCutoff() } },
+      select: { order: { select: { userId: true, organizationId: true } } },
+    });
+    const overdueUsers = Array.from(new Set(overdue.map(invoice => invoice.order.userId)));
+    const overdueOrganizations = Array.from(new Set(
+      overdue.flatMap(invoice => invoice.order.organizationId ? [invoice.order.organizationId] : [])
+    ));
+
+    const [held, released] = await Promise.all([
+      this.prisma.b2BApplication.updateMany({
+        where: {
+          OR: [{ userId: { in: overdueUsers } }, { organizationId: { in: overdueOrganizations } }],
+          creditHold: false,
+        },
+        data: { creditHold: true, creditHoldAt: new Date() },
+      }),
+      this.prisma.b2BApplication.updateMany({
+        where: {
+          userId: { notIn: overdueUsers },
+          OR: [{ organizationId: null }, { organizationId: { notIn: overdueOrganizations } }],
+          creditHold: true,
+        },
+        data: { creditHold: false, creditHoldAt: null },
+      }),
+    ]);
+
+    if (held.count > 0 || released.count > 0) {
+      this.metrics.incrementCounter('payment.credit.holds', 1, { held: String(held.count), released: String(released.count) });
+      this.logger.info('Credit holds updated', { held: held.count, released: released.count });
+    }
+
+    return { held: held.count, released: released.count };
+  }
+
+  private async refreshHold(userId: string): Promise<void> {
+    const overdue = await this.countOverdue(userId);
+
+    // Only touches the account when its hold has to change
+    await this.prisma.b2BApplication.updateMany({
+      where: { ...accountScope(userId), creditHold: overdue === 0 },
+      data: overdue > 0
+        ? { creditHold: true, creditHoldAt: new Date() }
+        : { creditHold: false, creditHoldAt: null },
+    });
+  }
+
+  private countOverdue(userId: string): Promise<number> {
+    return this.prisma.invoice.count({
+      where: { paidAt: null, dueDate: { lt: this.holdCutoff() }, order: accountScope(userId) },
+    });
+  }
+
+  /**
+   * Everything billed on account and not yet paid in the currency: open
+   * invoices, plus confirmed orders that have not been invoiced yet, across
+   * the buyer's organization
+   */
+  private async getOutstanding(
+    userId: string,
+    currency: string,
+    client: Prisma.TransactionClient = this.prisma
+  ): Promise<number> {
+    const payments = await client.payment.findMany({
+      where: {
+        method: 'INVOICE',
+        status: 'PENDING',
+        currency,
+        order: { ...accountScope(userId), status: { notIn: ['CANCELLED', 'REFUNDED'] } },
+      },
+      select: { amount: true, order: { select: { invoice: { select: { amountPaid: true } } } } },
+    });
+
+    return round(payments.reduce(
+      (sum, payment) => sum + Number(payment.amount) - Number(payment.order.invoice?.amountPaid ?? 0),
+      0
+    ));
+  }
+
+  private holdCutoff(): Date {
+    return new Date(Date.now() - HOLD_GRACE_DAYS * DAY_MS);
+  }
+
+  /**
+   * Due dates whose whole days overdue fall in the bucket
+   */
+  private bucketDueDates(bucket: AgeingBucket, now: Date): Prisma.DateTimeNullableFilter {
+    const [minDays, maxDays] = BUCKET_DAYS[bucket];
+
+    return {
+      ...(Number.isFinite(maxDays) && { gt: new Date(now.getTime() - (maxDays + 1) * DAY_MS) }),
+      ...(Number.isFinite(minDays) && { lte: new Date(now.getTime() - minDays * DAY_MS) }),
+    };
+  }
+}
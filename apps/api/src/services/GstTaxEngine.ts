@@ -0,0 +1,236 @@
+import { ValidationError } from '@newhill/shared/types/api';
+
+/**
+ * Indian GST rules for goods. Pure functions only; InvoiceService loads the
+ * data and persists the results.
+ *
+ * - Shipping within the seller's state is an intra-state supply: the rate is
+ *   split equally into CGST and SGST.
+ * - Shipping to another state is an inter-state supply charged as IGST.
+ * - Shipping outside India is an export, zero-rated under LUT.
+ */
+
+export type GstSupplyType = 'INTRA_STATE' | 'INTER_STATE' | 'EXPORT';
+
+export interface GstLineInput {
+  id: string;
+  hsnCode: string | null;
+  productGstRate: number | null;
+  taxableValue: number;
+}
+
+export interface GstLineTax {
+  id: string;
+  hsnCode: string | null;
+  gstRate: number;
+  taxableValue: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  taxAmount: number;
+}
+
+export interface GstBreakdown {
+  supplyType: GstSupplyType;
+  sellerStateCode: string;
+  placeOfSupply: string;
+  lines: GstLineTax[];
+  taxableValue: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  totalTax: number;
+}
+
+// Rate used when a product has neither its own rate nor a known HSN code
+export const DEFAULT_GST_RATE = 18;
+
+// Spices fall under HSN chapter 09; longest matching prefix wins
+const HSN_GST_RATES: Record<string, number> = {
+  '0901': 5, // Coffee
+  '0902': 5, // Tea
+  '0904': 5, // Pepper, dried capsicum and chilli
+  '0905': 5, // Vanilla
+  '0906': 5, // Cinnamon
+  '0907': 5, // Cloves
+  '0908': 5, // Nutmeg, mace and cardamom
+  '0909': 5, // Anise, coriander, cumin, fennel and caraway seeds
+  '0910': 5, // Ginger, saffron, turmeric, thyme, bay leaves and curry
+};
+
+const GST_STATE_CODES: Record<string, string> = {
+  'jammu and kashmir': '01', jk: '01',
+  'himachal pradesh': '02', hp: '02',
+  punjab: '03', pb: '03',
+  chandigarh: '04', ch: '04',
+  uttarakhand: '05', uk: '05', ut: '05',
+  haryana: '06', hr: '06',
+  delhi: '07', 'new delhi': '07', dl: '07',
+  rajasthan: '08', rj: '08',
+  'uttar pradesh': '09', up: '09',
+  bihar: '10', br: '10',
+  sikkim: '11', sk: '11',
+  'arunachal pradesh': '12', ar: '12',
+  nagaland: '13', nl: '13',
+  manipur: '14', mn: '14',
+  mizoram: '15', mz: '15',
+  tripura: '16', tr: '16',
+  meghalaya: '17', ml: '17',
+  assam: '18', as: '18',
+  'west bengal': '19', wb: '19',
+  jharkhand: '20', jh: '20',
+  odisha: '21', orissa: '21', od: '21', or: '21',
+  chhattisgarh: '22', cg: '22', ct: '22',
+  'madhya pradesh': '23', mp: '23',
+  gujarat: '24', gj: '24',
+  'dadra and nagar haveli and daman and diu': '26', dn: '26', dd: '26',
+  maharashtra: '27', mh: '27',
+  karnataka: '29', ka: '29',
+  goa: '30', ga: '30',
+  lakshadweep: '31', ld: '31',
+  kerala: '32', kl: '32',
+  'tamil nadu': '33', tn: '33',
+  puducherry: '34', pondicherry: '34', py: '34',
+  'andaman and nicobar islands': '35', an: '35',
+  telangana: '36', ts: '36', tg: '36',
+  'andhra pradesh': '37', ap: '37',
+  ladakh: '38', la: '38',
+};
+
+export const SELLER_STATE = process.env.COMPANY_STATE || 'Kerala';
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * GST state code for a state name, abbreviation or two-digit code
+ */
+export function resolveStateCode(state: string): string {
+  const trimmed = state.trim();
+  if (/^\d{2}$/.test(trimmed) && Object.values(GST_STATE_CODES).includes(trimmed)) {
+    return trimmed;
+  }
+
+  const key = trimmed
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const code = GST_STATE_CODES[key];
+  if (!code) {
+    throw new ValidationError(`Unknown Indian state: ${state}`);
+  }
+
+  return code;
+}
+
+export function resolveGstRate(hsnCode: string | null, productGstRate: number | null): number {
+  if (productGstRate !== null && productGstRate !== undefined) {
+    return productGstRate;
+  }
+
+  if (hsnCode) {
+    const digits = hsnCode.replace(/\D/g, '');
+    for (let length = digits.length; length >= 4; length--) {
+      const rate = HSN_GST_RATES[digits.slice(0, length)];
+      if (rate !== undefined) {
+        return rate;
+      }
+    }
+  }
+
+  return DEFAULT_GST_RATE;
+}
+
+export function determineSupplyType(
+  sellerStateCode: string,
+  destination: { state: string; country: string }
+): { supplyType: GstSupplyType; placeOfSupply: string } {
+  const country = destination.country.trim().toUpperCase();
+  if (country !== 'IN') {
+    return { supplyType: 'EXPORT', placeOfSupply: country };
+  }
+
+  const placeOfSupply = resolveStateCode(destination.state);
+  return {
+    supplyType: placeOfSupply === sellerStateCode ? 'INTRA_STATE' : 'INTER_STATE',
+    placeOfSupply,
+  };
+}
+
+/**
+ * Tax each line separately and round per line, as printed on the invoice.
+ * CGST and SGST are each rounded from half the rate so they always match.
+ */
+export function calculateGst(
+  lines: GstLineInput[],
+  destination: { state: string; country: string },
+  sellerState: string = SELLER_STATE
+): GstBreakdown {
+  const sellerStateCode = resolveStateCode(sellerState);
+  const { supplyType, placeOfSupply } = determineSupplyType(sellerStateCode, destination);
+
+  const taxedLines = lines.map(line => {
+    const gstRate = supplyType === 'EXPORT' ? 0 : resolveGstRate(line.hsnCode, line.productGstRate);
+    const taxableValue = round(line.taxableValue);
+
+    let cgstAmount = 0;
+    let sgstAmount = 0;
+    let igstAmount = 0;
+
+    if (supplyType === 'INTRA_STATE') {
+      cgstAmount = round((taxableValue * gstRate) / 200);
+      sgstAmount = cgstAmount;
+    } else if (supplyType === 'INTER_STATE') {
+      igstAmount = round((taxableValue * gstRate) / 100);
+    }
+
+    return {
+      id: line.id,
+      hsnCode: line.hsnCode,
+      gstRate,
+      taxableValue,
+      cgstAmount,
+      sgstAmount,
+      igstAmount,
+      taxAmount: round(cgstAmount + sgstAmount + igstAmount),
+    };
+  });
+
+  const sum = (field: keyof Omit<GstLineTax, 'id' | 'hsnCode'>) =>
+    round(taxedLines.reduce((total, line) => total + line[field], 0));
+
+  return {
+    supplyType,
+    sellerStateCode,
+    placeOfSupply,
+    lines: taxedLines,
+    taxableValue: sum('taxableValue'),
+    cgstAmount: sum('cgstAmount'),
+    sgstAmount: sum('sgstAmount'),
+    igstAmount: sum('igstAmount'),
+    totalTax: sum('taxAmount'),
+  };
+}
+
+/**
+ * Indian financial year (April to March, IST) as used in invoice numbers, e.g. 24-25
+ */
+export function financialYearOf(date: Date): string {
+  const ist = new Date(date.getTime() + 330 * 60 * 1000);
+  const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  const pad = (year: number) => String(year % 100).padStart(2, '0');
+
+  return `${pad(startYear)}-${pad(startYear + 1)}`;
+}
+
+/**
+ * GST invoice numbers must be unique per financial year and at most 16
+ * characters of letters, digits, '-' and '/'
+ */
+export function formatInvoiceNumber(financialYear: string, sequence: number): string {
+  return `NH/${financialYear}/${String(sequence).padStart(6, '0')}`;
+}
@@ -0,0 +1,304 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { NotFoundError, ValidationError } from '@newhill/shared/types/api';
+import {
+  ShelfLifeRequirement,
+  getShelfLifeRequirement,
+  hasRequiredShelfLife,
+} from '@newhill/shared/types/inventory';
+import { Logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+
+// How long stock is held for an unpaid order before the worker sweep releases it
+export const RESERVATION_TTL_MINUTES = parseInt(process.env.RESERVATION_TTL_MINUTES || '30', 10);
+
+export interface LotAllocation {
+  orderItemId: string;
+  lots: Array<{ lotId: string; warehouseId: string | null; quantity: number; bestBefore: Date }>;
+}
+
+type LotCandidate = {
+  id: string;
+  warehouseId: string | null;
+  harvestedOn: Date;
+  bestBefore: Date;
+  qtyAvailable: number;
+};
+
+type Warehouse = { id: string; regionsServed: string[] };
+
+/**
+ * Order lots for reservation, first-expiry-first-out. The closest warehouse
+ * that can cover the whole quantity is used on its own so the line ships from
+ * a single location; otherwise lots are drawn warehouse by warehouse in order
+ * of closeness, still FEFO within each warehouse.
+ */
+export function planLots<T extends Pick<LotCandidate, 'warehouseId' | 'bestBefore' | 'qtyAvailable'>>(
+  lots: T[],
+  quantity: number,
+  warehouses: Warehouse[]
+): T[] {
+  const byBestBefore = [...lots].sort((a, b) => a.bestBefore.getTime() - b.bestBefore.getTime());
+  const rank = new Map<string | null, number>(warehouses.map((warehouse, index) => [warehouse.id, index]));
+  // Lots in inactive or unassigned warehouses are used last
+  const rankOf = (lot: T) => rank.get(lot.warehouseId) ?? warehouses.length;
+
+  for (const warehouse of warehouses) {
+    const warehouseLots = byBestBefore.filter(lot => lot.warehouseId === warehouse.id);
+    const available = warehouseLots.reduce((sum, lot) => sum + lot.qtyAvailable, 0);
+
+    if (available >= quantity) {
+      return warehouseLots;
+    }
+  }
+
+  return byBestBefore.sort((a, b) => rankOf(a) - rankOf(b));
+}
+
+/**
+ * Stock held for orders: reserves order lines on lots with enough shelf life
+ * for the destination, first-expiry-first-out, and records the chosen lots
+ * and their best-before dates on the order items
+ */
+export class InventoryService {
+  private prisma: PrismaClient;
+  private logger: Logger;
+  private metrics: typeof MetricsCollector;
+
+  constructor(prisma: PrismaClient, logger: Logger, metrics: typeof MetricsCollector) {
+    this.prisma = prisma;
+    this.logger = logger;
+    this.metrics = metrics;
+  }
+
+  reservationExpiry(now: Date = new Date()): Date {
+    return new Date(now.getTime() + RESERVATION_TTL_MINUTES * 60 * 1000);
+  }
+
+  async getShelfLifeRequirement(
+    country: string,
+    client: Prisma.TransactionClient = this.prisma
+  ): Promise<ShelfLifeRequirement> {
+    const policy = await client.shelfLifePolicy.findUnique({ where: { region: country.trim().toUpperCase() } });
+    return getShelfLifeRequirement(country, policy);
+  }
+
+  /**
+   * Reserve every line of an order inside the caller's transaction. Throws
+   * ValidationError when a line cannot be filled, so the order and everything
+   * reserved for it roll back together.
+   */
+  async allocateOrder(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    expiresAt: Date,
+    refType: 'ORDER' | 'B2B' = 'ORDER'
+  ): Promise<LotAllocation[]> {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      include: {
+        shippingAddress: { select: { country: true } },
+        items: { include: { variant: { include: { product: { select: { name: true } } } } } },
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundError('Order');
+    }
+
+    const country = order.shippingAddress.country;
+    const requirement = await this.getShelfLifeRequirement(country, tx);
+    const warehouses = await this.getWarehousesForRegion(tx, country);
+    const allocations: LotAllocation[] = [];
+
+    for (const item of order.items) {
+      const lots = await this.reserveLine(tx, item, requirement, warehouses);
+
+      for (const lot of lots) {
+        await tx.reservation.create({
+          data: {
+            variantId: item.variantId,
+            lotId: lot.lotId,
+            warehouseId: lot.warehouseId,
+            orderId,
+            quantity: lot.quantity,
+            expiresAt,
+          },
+        });
+
+        await tx.inventoryLedger.create({
+          data: {
+            variantId: item.variantId,
+            lotId: lot.lotId,
+            changeType: 'OUT',
+            refType,
+            quantity: lot.quantity,
+            reason: `Reserved for order ${orderId}`,
+            warehouseId: lot.warehouseId,
+            metadata: { orderId, destinationCountry: country, expiresAt },
+          },
+        });
+      }
+
+      await tx.orderItemLot.createMany({
+        data: lots.map(lot => ({
+          orderItemId: item.id,
+          lotId: lot.lotId,
+          quantity: lot.quantity,
+          bestBefore: lot.bestBefore,
+        })),
+      });
+
+      await tx.orderItem.update({
+        where: { id: item.id },
+        data: { lotId: lots[0].lotId },
+      });
+
+      allocations.push({ orderItemId: item.id, lots });
+    }
+
+    this.metrics.incrementCounter('inventory.order.allocated', 1, { region: requirement.region, refType });
+    this.logger.info('Order stock allocated', {
+      orderId,
+      region: requirement.region,
+      lines: allocations.length,
+      expiresAt,
+    });
+
+    return allocations;
+  }
+
+  /**
+   * Hold an order's stock for another full TTL while it is being paid for.
+   * Stock the worker sweep already returned, e.g. while the order waited for
+   * an approver, is reserved again from scratch; ValidationError when it is
+   * no longer there.
+   */
+  async holdForPayment(orderId: string): Promise<Date> {
+    const expiresAt = this.reservationExpiry();
+
+    await this.prisma.$transaction(async tx => {
+      const items = await tx.orderItem.findMany({ where: { orderId }, select: { id: true, quantity: true } });
+      const held = await tx.reservation.findMany({ where: { orderId, status: 'ACTIVE' } });
+
+      const required = items.reduce((sum, item) => sum + item.quantity, 0);
+      const heldQuantity = held.reduce((sum, reservation) => sum + reservation.quantity, 0);
+
+      if (heldQuantity === required) {
+        await tx.reservation.updateMany({
+          where: { orderId, status: 'ACTIVE' },
+          data: { expiresAt },
+        });
+        return;
+      }
+
+      // Part of the hold lapsed: give back what is left and allocate the order again
+      for (const reservation of held) {
+        const { count } = await tx.reservation.updateMany({
+          where: { id: reservation.id, status: 'ACTIVE' },
+          data: { status: 'RELEASED', releasedAt: new Date() },
+        });
+
+        if (count === 0) {
+          continue;
+        }
+
+        await tx.lot.update({
+          where: { id: reservation.lotId },
+          data: {
+            qtyAvailable: { increment: reservation.quantity },
+            qtyReserved: { decrement: reservation.quantity },
+          },
+        });
+
+        await tx.inventoryLedger.create({
+          data: {
+            variantId: reservation.variantId,
+            lotId: reservation.lotId,
+            changeType: 'IN',
+            refType: 'ORDER',
+            quantity: reservation.quantity,
+            reason: `Released to reallocate order ${orderId}`,
+            warehouseId: reservation.warehouseId,
+            metadata: { orderId, reservationId: reservation.id },
+          },
+        });
+      }
+
+      await tx.orderItemLot.deleteMany({ where: { orderItemId: { in: items.map(item => item.id) } } });
+      await this.allocateOrder(tx, orderId, expiresAt);
+
+      this.metrics.incrementCounter('inventory.order.reallocated', 1);
+      this.logger.info('Lapsed order stock reallocated', { orderId, held: heldQuantity, required });
+    });
+
+    return expiresAt;
+  }
+
+  /**
+   * Take one line's quantity from its planned lots. The decrement is guarded
+   * so a concurrent checkout cannot take a lot below zero.
+   */
+  private async reserveLine(
+    tx: Prisma.TransactionClient,
+    item: { variantId: string; quantity: number; variant: { weightInGrams: number; product: { name: string } } },
+    requirement: ShelfLifeRequirement,
+    warehouses: Warehouse[]
+  ): Promise<LotAllocation['lots']> {
+    const now = new Date();
+    const candidates: LotCandidate[] = await tx.lot.findMany({
+      where: { variantId: item.variantId, status: 'ACTIVE', qtyAvailable: { gt: 0 }, bestBefore: { gt: now } },
+      select: { id: true, warehouseId: true, harvestedOn: true, bestBefore: true, qtyAvailable: true },
+    });
+
+    const eligible = candidates.filter(lot => hasRequiredShelfLife(lot, requirement, now));
+    const reserved: LotAllocation['lots'] = [];
+    let remaining = item.quantity;
+
+    for (const lot of planLots(eligible, item.quantity, warehouses)) {
+      if (remaining <= 0) break;
+
+      const quantity = Math.min(remaining, lot.qtyAvailable);
+      const { count } = await tx.lot.updateMany({
+        where: { id: lot.id, qtyAvailable: { gte: quantity } },
+        data: {
+          qtyAvailable: { decrement: quantity },
+          qtyReserved: { increment: quantity },
+        },
+      });
+
+      if (count > 0) {
+        reserved.push({ lotId: lot.id, warehouseId: lot.warehouseId, quantity, bestBefore: lot.bestBefore });
+        remaining -= quantity;
+      }
+    }
+
+    if (remaining > 0) {
+      throw new ValidationError(
+        `Not enough stock for ${item.variant.product.name} (${item.variant.weightInGrams}g): ` +
+        `${item.quantity - remaining} of ${item.quantity} available`,
+        { variantId: item.variantId, requested: item.quantity, available: item.quantity - remaining }
+      );
+    }
+
+    return reserved;
+  }
+
+  /**
+   * Active warehouses ordered by how well they serve a destination country:
+   * warehouses listing the country in regionsServed come first, then the rest,
+   * each group by priority
+   */
+  private async getWarehousesForRegion(tx: Prisma.TransactionClient, country: string): Promise<Warehouse[]> {
+    const region = country.trim().toUpperCase();
+    const warehouses = await tx.warehouse.findMany({
+      where: { isActive: true },
+      orderBy: [{ priority: 'asc' }, { code: 'asc' }],
+      select: { id: true, regionsServed: true },
+    });
+
+    return [
+      ...warehouses.filter(warehouse => warehouse.regionsServed.includes(region)),
+      ...warehouses.filter(warehouse => !warehouse.regionsServed.includes(region)),
+    ];
+  }
+}
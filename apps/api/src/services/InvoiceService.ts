@@ -0,0 +1,483 @@
+import crypto from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ConflictError, NotFoundError } from '@newhill/shared/types/api';
+import {
+  GstSupplyType,
+  SELLER_STATE,
+  financialYearOf,
+  formatInvoiceNumber,
+  resolveStateCode,
+} from './GstTaxEngine';
+import { TaxResult, TaxRuleRegistry, defaultTaxRegistry } from './TaxRuleRegistry';
+import {
+  BrandedPdf,
+  COMPANY_DETAILS,
+  TableColumn,
+  formatDate,
+  formatMoney,
+  formatWeight,
+} from '../utils/pdf';
+import { accountScope } from './OrganizationService';
+import { Logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+
+export interface InvoicePdfLine {
+  description: string;
+  hsnCode: string | null;
+  weightInGrams: number;
+  quantity: number;
+  unitPrice: number;
+  taxableValue: number;
+  gstRate: number;
+  taxAmount: number;
+}
+
+export interface InvoicePdfData {
+  invoiceNumber: string;
+  issuedAt: Date;
+  orderNumber: string;
+  currency: string;
+  supplyType: GstSupplyType;
+  sellerGstin: string | null;
+  placeOfSupply: string;
+  buyer: {
+    name: string;
+    gstin: string | null;
+    billingLines: string[];
+    shippingLines: string[];
+  };
+  lines: InvoicePdfLine[];
+  taxableValue: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  vatAmount: number;
+  vatRate: number | null;
+  reverseCharge: boolean;
+  shippingAmount: number;
+  codFee: number;
+  totalAmount: number;
+}
+
+const INVOICEABLE_STATUSES = ['CONFIRMED', 'PROCESSING', 'PARTIALLY_SHIPPED', 'SHIPPED', 'PARTIALLY_DELIVERED', 'DELIVERED'];
+const MAX_SEQUENCE_ATTEMPTS = 3;
+
+const INVOICE_COLUMNS: TableColumn[] = [
+  { header: '#', width: 22 },
+  { header: 'Description', width: 150 },
+  { header: 'HSN', width: 45 },
+  { header: 'Qty', width: 32, align: 'right' },
+  { header: 'Rate', width: 60, align: 'right' },
+  { header: 'Taxable value', width: 73, align: 'right' },
+  { header: 'GST %', width: 40, align: 'right' },
+  { header: 'GST', width: 93, align: 'right' },
+];
+
+const orderInclude = {
+  items: {
+    orderBy: { createdAt: 'asc' as const },
+    include: {
+      variant: { include: { product: true } },
+    },
+  },
+  shippingAddress: true,
+  billingAddress: true,
+  user: { include: { b2bApplication: true } },
+  organization: { include: { application: true } },
+  invoice: true,
+};
+
+function addressLines(address: {
+  firstName: string;
+  lastName: string;
+  company: string | null;
+  address1: string;
+  address2: string | null;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string;
+}): string[] {
+  return [
+    `${address.firstName} ${address.lastName}`,
+    ...(address.company ? [address.company] : []),
+    address.address1,
+    ...(address.address2 ? [address.address2] : []),
+    `${address.city}, ${address.state} ${address.postalCode}`,
+    address.country,
+  ];
+}
+
+/**
+ * The B2B profile an order is billed to: its organization's when a member
+ * placed it, otherwise the buyer's own
+ */
+function buyerApplication(order: Prisma.OrderGetPayload<{ include: typeof orderInclude }>) {
+  return order.organization?.application ?? order.user.b2bApplication;
+}
+
+/**
+ * Render a tax invoice. Pure with respect to its input so an issued invoice
+ * always re-renders to the same bytes.
+ */
+export async function renderInvoicePdf(data: InvoicePdfData): Promise<Buffer> {
+  const pdf = new BrandedPdf({
+    title: `Tax Invoice ${data.invoiceNumber}`,
+    subject: `Tax invoice for order ${data.orderNumber}`,
+    createdAt: data.issuedAt,
+  });
+
+  pdf.header('TAX INVOICE', data.invoiceNumber);
+
+  pdf.detailColumns('Bill to', [
+    data.buyer.name,
+    ...data.buyer.billingLines.slice(1),
+    ...(data.buyer.gstin ? [`GSTIN: ${data.buyer.gstin}`] : []),
+  ], 'Invoice details', [
+    ['Invoice number', data.invoiceNumber],
+    ['Invoice date', formatDate(data.issuedAt)],
+    ['Order number', data.orderNumber],
+    ['Place of supply', data.placeOfSupply],
+    ['Currency', data.currency],
+  ]);
+
+  pdf.paragraph('Ship to', data.buyer.shippingLines.join(', '));
+
+  pdf.table(INVOICE_COLUMNS, data.lines.map((line, index) => [
+    String(index + 1),
+    `${line.description}\n${formatWeight(line.weightInGrams)}`,
+    line.hsnCode || '-',
+    String(line.quantity),
+    formatMoney(line.unitPrice, data.currency),
+    formatMoney(line.taxableValue, data.currency),
+    `${line.gstRate}%`,
+    formatMoney(line.taxAmount, data.currency),
+  ]));
+
+  const taxRows: Array<[string, string]> = data.supplyType === 'INTRA_STATE'
+    ? [
+        ['CGST', formatMoney(data.cgstAmount, data.currency)],
+        ['SGST', formatMoney(data.sgstAmount, data.currency)],
+      ]
+    : data.supplyType === 'INTER_STATE'
+      ? [['IGST', formatMoney(data.igstAmount, data.currency)]]
+      : [];
+
+  if (data.vatRate !== null) {
+    taxRows.push([
+      data.reverseCharge ? 'VAT (reverse charge)' : `VAT ${data.vatRate}%`,
+      formatMoney(data.vatAmount, data.currency),
+    ]);
+  }
+
+  pdf.totals([
+    ['Taxable value', formatMoney(data.taxableValue, data.currency)],
+    ...taxRows,
+    ...(data.shippingAmount > 0
+      ? [['Shipping', formatMoney(data.shippingAmount, data.currency)] as [string, string]]
+      : []),
+    ...(data.codFee > 0
+      ? [['Cash on delivery fee', formatMoney(data.codFee, data.currency)] as [string, string]]
+      : []),
+    ['Invoice total', formatMoney(data.totalAmount, data.currency)],
+  ]);
+
+  pdf.paragraph(
+    'Declaration',
+    [
+      data.supplyType === 'EXPORT'
+        ? 'Supply meant for export under LUT without payment of integrated tax.'
+        : 'Tax is not payable on reverse charge basis.',
+      data.reverseCharge
+        ? `VAT to be accounted for by the recipient under the reverse charge mechanism${data.buyer.gstin ? ` (VAT number ${data.buyer.gstin})` : ''}.`
+        : null,
+      data.sellerGstin ? `Supplier GSTIN: ${data.sellerGstin}.` : null,
+      'This is a computer generated invoice and does not require a signature.',
+    ].filter(Boolean).join(' ')
+  );
+
+  return pdf.finish(`${COMPANY_DETAILS.name} - ${data.invoiceNumber}`);
+}
+
+/**
+ * Computes GST for orders and issues sequentially numbered tax invoices
+ */
+export class InvoiceService {
+  private prisma: PrismaClient;
+  private logger: Logger;
+  private metrics: typeof MetricsCollector;
+
+  private taxRules: TaxRuleRegistry;
+
+  constructor(
+    prisma: PrismaClient,
+    logger: Logger,
+    metrics: typeof MetricsCollector,
+    taxRules: TaxRuleRegistry = defaultTaxRegistry
+  ) {
+    this.prisma = prisma;
+    this.logger = logger;
+    this.metrics = metrics;
+    this.taxRules = taxRules;
+  }
+
+  /**
+   * Compute tax for every line of an order with the rule in force for its
+   * destination on the order date, and record the result on the order items
+   * and the order. Shipping and any COD fee must already be set on the order.
+   * Amounts are in the order's currency, which is returned with them. Pass
+   * the caller's transaction to tax an order it is still creating.
+   */
+  async applyOrderTaxes(orderId: string, tx?: Prisma.TransactionClient): Promise<TaxResult & { currency: string }> {
+    const client: Prisma.TransactionClient = tx ?? this.prisma;
+    const order = await client.order.findUnique({
+      where: { id: orderId },
+      include: orderInclude,
+    });
+
+    if (!order) {
+      throw new NotFoundError('Order');
+    }
+
+    if (order.invoice) {
+      throw new ConflictError('Taxes cannot change after the invoice is issued');
+    }
+
+    const application = buyerApplication(order);
+    const buyerTaxNumber = application?.status === 'APPROVED' ? application.gstVatNumber : null;
+
+    const breakdown = this.taxRules.calculate({
+      region: order.shippingAddress.country,
+      state: order.shippingAddress.state,
+      orderDate: order.createdAt,
+      lines: order.items.map(item => ({
+        id: item.id,
+        hsnCode: item.variant.product.hsnCode,
+        productGstRate: item.variant.product.gstRate !== null ? Number(item.variant.product.gstRate) : null,
+        taxableValue: Number(item.totalPrice),
+      })),
+      // The COD fee is a delivery charge, so it is taxed like shipping
+      shipping: Number(order.shippingAmount) + Number(order.codFee),
+      buyerTaxNumber,
+    });
+
+    const updates = [
+      ...breakdown.lines.map(line =>
+        client.orderItem.update({
+          where: { id: line.id },
+          data: {
+            hsnCode: line.hsnCode,
+            gstRate: breakdown.taxName === 'GST' ? line.rate : 0,
+            taxableValue: line.taxableValue,
+            cgstAmount: line.cgstAmount,
+            sgstAmount: line.sgstAmount,
+            igstAmount: line.igstAmount,
+            vatAmount: line.vatAmount,
+            taxAmount: line.taxAmount,
+          },
+        })
+      ),
+      client.order.update({
+        where: { id: orderId },
+        data: {
+          taxAmount: breakdown.totalTax,
+          taxRegion: breakdown.region,
+          taxRuleId: breakdown.ruleId,
+          taxRate: breakdown.rate,
+          reverseCharge: breakdown.reverseCharge,
+          buyerTaxNumber,
+        },
+      }),
+    ];
+
+    if (tx) {
+      for (const update of updates) {
+        await update;
+      }
+    } else {
+      await this.prisma.$transaction(updates);
+    }
+
+    this.logger.info('Order taxes applied', {
+      orderId,
+      ruleId: breakdown.ruleId,
+      reverseCharge: breakdown.reverseCharge,
+      totalTax: breakdown.totalTax,
+      currency: order.currency,
+    });
+
+    return { ...breakdown, currency: order.currency };
+  }
+
+  /**
+   * Issue the tax invoice for a confirmed order. Idempotent: an order that
+   * already has an invoice gets the existing one back.
+   */
+  async issueInvoice(orderId: string) {
+    const traceId = crypto.randomUUID();
+
+    const existing = await this.prisma.invoice.findUnique({ where: { orderId } });
+    if (existing) {
+      return existing;
+    }
+
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      include: orderInclude,
+    });
+
+    if (!order) {
+      throw new NotFoundError('Order');
+    }
+
+    if (!INVOICEABLE_STATUSES.includes(order.status)) {
+      throw new ConflictError(`Cannot invoice an order in status ${order.status}`);
+    }
+
+    const breakdown = await this.applyOrderTaxes(orderId);
+    const issuedAt = new Date();
+    const financialYear = financialYearOf(issuedAt);
+    const application = buyerApplication(order);
+    const buyerGstin = application?.status === 'APPROVED'
+      ? application.gstVatNumber
+      : null;
+    const sellerStateCode = resolveStateCode(SELLER_STATE);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const invoice = await this.prisma.$transaction(async tx => {
+          // The row lock taken by the increment keeps numbers gap-free: a failed
+          // transaction rolls the counter back with the invoice
+          const sequence = await tx.invoiceSequence.upsert({
+            where: { financialYear },
+            create: { financialYear, lastNumber: 1 },
+            update: { lastNumber: { increment: 1 } },
+          });
+
+          return tx.invoice.create({
+            data: {
+              orderId,
+              invoiceNumber: formatInvoiceNumber(financialYear, sequence.lastNumber),
+              financialYear,
+              sequence: sequence.lastNumber,
+              supplyType: breakdown.supplyType,
+              sellerGstin: COMPANY_DETAILS.gstin || null,
+              sellerStateCode,
+              placeOfSupply: breakdown.placeOfSupply,
+              buyerGstin,
+              currency: order.currency,
+              taxableValue: breakdown.taxableValue,
+              cgstAmount: breakdown.cgstAmount,
+              sgstAmount: breakdown.sgstAmount,
+              igstAmount: breakdown.igstAmount,
+              vatAmount: breakdown.vatAmount,
+              vatRate: breakdown.taxName === 'VAT' ? breakdown.rate : null,
+              reverseCharge: breakdown.reverseCharge,
+              totalTax: breakdown.totalTax,
+              shippingAmount: order.shippingAmount,
+              codFee: order.codFee,
+              totalAmount: order.totalAmount,
+              issuedAt,
+            },
+          });
+        });
+
+        this.metrics.incrementCounter('invoice.issued', 1, { supplyType: breakdown.supplyType });
+        this.logger.info('Invoice issued', {
+          traceId,
+          orderId,
+          invoiceNumber: invoice.invoiceNumber,
+        });
+
+        return invoice;
+      } catch (error) {
+        const isUniqueViolation = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+        if (!isUniqueViolation || attempt >= MAX_SEQUENCE_ATTEMPTS) {
+          this.logger.error('Invoice issue failed', {
+            traceId,
+            orderId,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+          throw error;
+        }
+
+        // Either another request invoiced this order, or two requests created
+        // the financial year's sequence row at the same time
+        const concurrent = await this.prisma.invoice.findUnique({ where: { orderId } });
+        if (concurrent) {
+          return concurrent;
+        }
+      }
+    }
+  }
+
+  /**
+   * An invoice for the buyer, or for anyone in the organization the order was placed for
+   */
+  async getInvoice(orderId: string, userId: string) {
+    const invoice = await this.prisma.invoice.findFirst({
+      where: { orderId, order: accountScope(userId) },
+    });
+
+    if (!invoice) {
+      throw new NotFoundError('Invoice');
+    }
+
+    return invoice;
+  }
+
+  async generatePdf(orderId: string, userId: string): Promise<{ invoiceNumber: string; pdf: Buffer }> {
+    const startTime = Date.now();
+    const invoice = await this.getInvoice(orderId, userId);
+
+    const order = await this.prisma.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: orderInclude,
+    });
+
+    const billingLines = addressLines(order.billingAddress);
+    const application = buyerApplication(order);
+
+    const pdf = await renderInvoicePdf({
+      invoiceNumber: invoice.invoiceNumber,
+      issuedAt: invoice.issuedAt,
+      orderNumber: order.orderNumber,
+      currency: invoice.currency,
+      supplyType: invoice.supplyType,
+      sellerGstin: invoice.sellerGstin,
+      placeOfSupply: invoice.placeOfSupply,
+      buyer: {
+        name: application?.status === 'APPROVED'
+          ? application.businessName
+          : billingLines[0],
+        gstin: invoice.buyerGstin,
+        billingLines,
+        shippingLines: addressLines(order.shippingAddress),
+      },
+      lines: order.items.map(item => ({
+        description: item.variant.product.name,
+        hsnCode: item.hsnCode,
+        weightInGrams: item.variant.weightInGrams,
+        quantity: item.quantity,
+        unitPrice: Number(item.unitPrice),
+        taxableValue: Number(item.taxableValue),
+        gstRate: Number(item.gstRate),
+        taxAmount: Number(item.taxAmount),
+      })),
+      taxableValue: Number(invoice.taxableValue),
+      cgstAmount: Number(invoice.cgstAmount),
+      sgstAmount: Number(invoice.sgstAmount),
+      igstAmount: Number(invoice.igstAmount),
+      vatAmount: Number(invoice.vatAmount),
+      vatRate: invoice.vatRate !== null ? Number(invoice.vatRate) : null,
+      reverseCharge: invoice.reverseCharge,
+      shippingAmount: Number(invoice.shippingAmount),
+      codFee: Number(invoice.codFee),
+      totalAmount: Number(invoice.totalAmount),
+    });
+
+    this.metrics.recordTiming('invoice.pdf.duration', Date.now() - startTime, {});
+
+    return { invoiceNumber: invoice.invoiceNumber, pdf };
+  }
+}
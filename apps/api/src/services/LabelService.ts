@@ -0,0 +1,321 @@
+import crypto from 'crypto';
+import { Prisma, PrismaClient, ShipmentStatus } from '@prisma/client';
+import { PDFDocument } from 'pdf-lib';
+import { NotFoundError, ValidationError } from '@newhill/shared/types/api';
+import {
+  LabelFormat,
+  ShippingConnector,
+  ShippingLabel,
+  ShippingProvider,
+} from '@newhill/shared/types/shipping';
+import { ShippingAdapterFactory } from '../adapters/shipping/ShippingAdapterFactory';
+import { BrandedPdf, COMPANY_DETAILS, formatDate, formatWeight } from '../utils/pdf';
+import { Logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+
+export interface LabelData {
+  trackingNumber: string;
+  carrier: string;
+  orderNumber: string;
+  shipFrom: string[];
+  shipTo: string[];
+  weightInGrams: number;
+  units: number;
+  shipDate: Date;
+}
+
+type LabelShipment = Awaited<ReturnType<LabelService['loadShipments']>>[number];
+
+// Several labels printed as one document, in pick order
+export interface LabelBatch {
+  format: LabelFormat;
+  content: Buffer;
+  labelCount: number;
+}
+
+// 4x6 inch thermal label, in points and in dots at 203 dpi
+const LABEL_SIZE: [number, number] = [288, 432];
+const LABEL_MARGIN = 14;
+const ZPL_WIDTH = 812;
+const ZPL_LENGTH = 1218;
+
+const CARRIER_NAMES: Record<string, string> = {
+  shiprocket: 'Shiprocket',
+  gcc_logistics: 'GCC Logistics',
+  aramex: 'Aramex',
+  dhl: 'DHL Express',
+  blue_dart: 'Blue Dart',
+};
+
+// Shipments that will not be handed to a carrier again
+const INACTIVE_SHIPMENT_STATUSES: ShipmentStatus[] = ['FAILED', 'RETURNED'];
+
+export function carrierName(carrier: string): string {
+  return CARRIER_NAMES[carrier] || carrier.toUpperCase();
+}
+
+/**
+ * Render generic 4x6 labels, one per page, for carriers that do not print their own
+ */
+export async function renderLabelPdf(labels: LabelData[]): Promise<Buffer> {
+  const pdf = new BrandedPdf({
+    title: labels.length === 1 ? `Label ${labels[0].trackingNumber}` : `${labels.length} shipping labels`,
+    subject: 'Shipping labels',
+    createdAt: labels[0]?.shipDate || new Date(0),
+    size: LABEL_SIZE,
+    margin: LABEL_MARGIN,
+  });
+
+  labels.forEach((label, index) => {
+    if (index > 0) {
+      pdf.addPage();
+    }
+
+    const width = pdf.contentWidth;
+    let y = LABEL_MARGIN;
+
+    pdf.text('FROM', pdf.left, y, { size: 6, bold: true });
+    y += 9;
+    pdf.text(label.shipFrom.join('\n'), pdf.left, y, { width, size: 7 });
+    y += pdf.heightOf(label.shipFrom.join('\n'), width, 7) + 6;
+    pdf.y = y;
+    pdf.rule();
+
+    y += 6;
+    pdf.text('SHIP TO', pdf.left, y, { size: 6, bold: true });
+    y += 10;
+    label.shipTo.forEach((line, lineIndex) => {
+      pdf.text(line, pdf.left, y, { width, size: lineIndex === 0 ? 13 : 11, bold: lineIndex === 0 });
+      y += pdf.heightOf(line, width, lineIndex === 0 ? 13 : 11);
+    });
+    y += 6;
+    pdf.y = y;
+    pdf.rule();
+
+    y += 8;
+    pdf.text(carrierName(label.carrier).toUpperCase(), pdf.left, y, { size: 16, bold: true });
+    pdf.text(`Order ${label.orderNumber}`, pdf.left, y + 4, { width, align: 'right', size: 9 });
+    y += 24;
+    pdf.text(
+      `${formatWeight(label.weightInGrams)} | ${label.units} unit${label.units === 1 ? '' : 's'} | Shipped ${formatDate(label.shipDate)}`,
+      pdf.left,
+      y,
+      { size: 8 }
+    );
+
+    // Barcode and tracking number sit at the bottom, where scanners expect them
+    const barcodeTop = LABEL_SIZE[1] - LABEL_MARGIN - 110;
+    pdf.y = barcodeTop - 10;
+    pdf.rule();
+    pdf.barcode(label.trackingNumber, pdf.left, barcodeTop, width, 80);
+    pdf.text(label.trackingNumber, pdf.left, barcodeTop + 86, { width, align: 'center', size: 12, bold: true });
+  });
+
+  return pdf.finish();
+}
+
+function zplField(value: string): string {
+  // ^ and ~ start ZPL commands, so they cannot appear in field data
+  return value.replace(/[\^~]/g, ' ');
+}
+
+/**
+ * The same 4x6 label as ZPL for thermal printers; the printer draws the barcode
+ */
+export function renderLabelZpl(labels: LabelData[]): string {
+  return labels.map(label => [
+    '^XA',
+    '^CI28',
+    `^PW${ZPL_WIDTH}`,
+    `^LL${ZPL_LENGTH}`,
+    '^FO30,30^A0N,22,22^FDFROM^FS',
+    `^FO30,58^A0N,24,24^FB750,5,2^FD${label.shipFrom.map(zplField).join('\\&')}^FS`,
+    '^FO30,200^GB752,3,3^FS',
+    '^FO30,220^A0N,22,22^FDSHIP TO^FS',
+    `^FO30,250^A0N,40,40^FB750,7,4^FD${label.shipTo.map(zplField).join('\\&')}^FS`,
+    '^FO30,600^GB752,3,3^FS',
+    `^FO30,625^A0N,56,56^FD${zplField(carrierName(label.carrier).toUpperCase())}^FS`,
+    `^FO30,690^A0N,28,28^FDOrder ${zplField(label.orderNumber)}^FS`,
+    `^FO30,725^A0N,28,28^FD${formatWeight(label.weightInGrams)} | ${label.units} unit${label.units === 1 ? '' : 's'} | Shipped ${formatDate(label.shipDate)}^FS`,
+    '^FO30,780^GB752,3,3^FS',
+    `^FO60,830^BY3^BCN,240,Y,N,N^FD${zplField(label.trackingNumber)}^FS`,
+    '^XZ',
+  ].join('\n')).join('\n') + '\n';
+}
+
+export class LabelService {
+  private prisma: PrismaClient;
+  private logger: Logger;
+  private metrics: typeof MetricsCollector;
+
+  constructor(prisma: PrismaClient, logger: Logger, metrics: typeof MetricsCollector) {
+    this.prisma = prisma;
+    this.logger = logger;
+    this.metrics = metrics;
+  }
+
+  /**
+   * The label for one shipment: the carrier's own where its connector can
+   * print one, otherwise a generic label with the tracking number barcode
+   */
+  async getShipmentLabel(shipmentId: string, format: LabelFormat): Promise<ShippingLabel & { trackingNumber: string }> {
+    const traceId = crypto.randomUUID();
+
+    const [shipment] = await this.loadShipments({ id: shipmentId });
+
+    if (!shipment) {
+      throw new NotFoundError('Shipment');
+    }
+
+    if (!shipment.trackingNumber) {
+      throw new ValidationError('Shipment has no tracking number to label yet');
+    }
+
+    const label = await this.resolveLabel(shipment, format, traceId);
+
+    return { ...label, trackingNumber: shipment.trackingNumber };
+  }
+
+  /**
+   * Every open shipment's label for a pick wave, as one document in the
+   * order the orders were picked
+   */
+  async getPickWaveLabels(orderIds: string[], format: LabelFormat): Promise<LabelBatch> {
+    const traceId = crypto.randomUUID();
+    const startTime = Date.now();
+
+    const shipments = await this.loadShipments({
+      orderId: { in: orderIds },
+      status: { notIn: INACTIVE_SHIPMENT_STATUSES },
+      trackingNumber: { not: null },
+    });
+
+    if (shipments.length === 0) {
+      throw new ValidationError('None of the selected orders has a shipment to label');
+    }
+
+    shipments.sort((a, b) => orderIds.indexOf(a.orderId) - orderIds.indexOf(b.orderId));
+
+    // One at a time so a wave does not flood the carriers' label APIs
+    const labels: ShippingLabel[] = [];
+    for (const shipment of shipments) {
+      labels.push(await this.resolveLabel(shipment, format, traceId));
+    }
+
+    const content = format === 'zpl'
+      ? Buffer.concat(labels.map(label => label.content))
+      : await this.mergePdfs(labels.map(label => label.content));
+
+    this.metrics.recordTiming('fulfilment.pick_wave_labels.duration', Date.now() - startTime, { format });
+    this.logger.info('Pick wave labels generated', {
+      traceId,
+      orderCount: orderIds.length,
+      labelCount: labels.length,
+      carrierLabels: labels.filter(label => label.source === 'carrier').length,
+      format,
+    });
+
+    return { format, content, labelCount: labels.length };
+  }
+
+  private async loadShipments(where: Prisma.ShipmentWhereInput) {
+    return this.prisma.shipment.findMany({
+      where,
+      include: {
+        order: { include: { shippingAddress: true } },
+        items: { include: { orderItem: { include: { variant: true } } } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  private async resolveLabel(shipment: LabelShipment, format: LabelFormat, traceId: string): Promise<ShippingLabel> {
+    const adapter = this.getCarrierAdapter(shipment);
+
+    if (adapter?.getLabel) {
+      try {
+        const label = await adapter.getLabel(shipment.trackingNumber!, format);
+
+        if (label) {
+          this.metrics.incrementCounter('fulfilment.label', 1, { source: 'carrier', provider: adapter.provider, format });
+          return label;
+        }
+      } catch (error) {
+        // The tracking barcode still gets the parcel scanned in, so keep the warehouse printing
+        this.logger.warn('Carrier label unavailable, printing a generic label', {
+          traceId,
+          shipmentId: shipment.id,
+          provider: adapter.provider,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    const data = this.toLabelData(shipment);
+    this.metrics.incrementCounter('fulfilment.label', 1, { source: 'generic', provider: shipment.carrier || 'none', format });
+
+    return {
+      format,
+      source: 'generic',
+      content: format === 'zpl' ? Buffer.from(renderLabelZpl([data]), 'utf8') : await renderLabelPdf([data]),
+    };
+  }
+
+  private getCarrierAdapter(shipment: LabelShipment): ShippingConnector | null {
+    if (!shipment.carrier) {
+      return null;
+    }
+
+    const country = shipment.order.shippingAddress.country;
+    const region = ShippingAdapterFactory.getSupportedRegions().includes(country) ? country : 'IN';
+
+    try {
+      return ShippingAdapterFactory.getProviderAdapter(
+        shipment.carrier as ShippingProvider,
+        region,
+        process.env.NODE_ENV === 'production' ? 'live' : 'sandbox'
+      );
+    } catch (error) {
+      // Carriers without a connector get the generic label
+      return null;
+    }
+  }
+
+  private toLabelData(shipment: LabelShipment): LabelData {
+    const address = shipment.order.shippingAddress;
+
+    return {
+      trackingNumber: shipment.trackingNumber!,
+      carrier: shipment.carrier || 'own fleet',
+      orderNumber: shipment.order.orderNumber,
+      shipFrom: [COMPANY_DETAILS.name, ...COMPANY_DETAILS.addressLines],
+      shipTo: [
+        `${address.firstName} ${address.lastName}`,
+        ...(address.company ? [address.company] : []),
+        address.address1,
+        ...(address.address2 ? [address.address2] : []),
+        `${address.city}, ${address.state} ${address.postalCode}`,
+        address.country,
+        ...(address.phone ? [address.phone] : []),
+      ],
+      weightInGrams: shipment.items.reduce(
+        (sum, item) => sum + item.quantity * item.orderItem.variant.weightInGrams,
+        0
+      ),
+      units: shipment.items.reduce((sum, item) => sum + item.quantity, 0),
+      shipDate: shipment.createdAt,
+    };
+  }
+
+  private async mergePdfs(documents: Buffer[]): Promise<Buffer> {
+    const merged = await PDFDocument.create();
+
+    for (const document of documents) {
+      const source = await PDFDocument.load(document);
+      const pages = await merged.copyPages(source, source.getPageIndices());
+      pages.forEach(page => merged.addPage(page));
+    }
+
+    return Buffer.from(await merged.save());
+  }
+}
@@ -0,0 +1,390 @@
+import crypto from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ConflictError, NotFoundError } from '@newhill/shared/types/api';
+import {
+  OrderActorType,
+  OrderSideEffect,
+  OrderStatusCode,
+  OrderStatusHistoryEntry,
+  assertOrderTransition,
+  getTransitionEffects,
+  normalizeOrderStatus,
+} from '@newhill/shared/types/order';
+import { addOrderStatusEmailJob } from '../utils/emailQueue';
+import { Logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+
+const ABANDONED_BATCH_SIZE = 100;
+
+/**
+ * Applies the shared order state machine: every order status change in the
+ * API goes through transition(), which checks the transition and its guards,
+ * writes OrderStatusHistory in the same transaction and then runs the side
+ * effects (stock and customer notification).
+ */
+
+export interface OrderActor {
+  type: OrderActorType;
+  // User id for customers and admins, provider name for webhooks
+  id?: string;
+}
+
+export interface OrderTransitionOptions {
+  reason?: string;
+  metadata?: Record<string, any>;
+  // Leave the order alone unless it is still in this status
+  expectedStatus?: OrderStatusCode;
+}
+
+export interface OrderTransitionResult {
+  orderId: string;
+  from: OrderStatusCode;
+  to: OrderStatusCode;
+  changed: boolean;
+}
+
+export class OrderStatusService {
+  private prisma: PrismaClient;
+  private logger: Logger;
+  private metrics: typeof MetricsCollector;
+
+  constructor(prisma: PrismaClient, logger: Logger, metrics: typeof MetricsCollector) {
+    this.prisma = prisma;
+    this.logger = logger;
+    this.metrics = metrics;
+  }
+
+  /**
+   * Move an order to a new status. Repeating the current status is a no-op so
+   * webhook retries are harmless, as is moving an order that has left
+   * `expectedStatus`; anything the state machine does not allow
+   * throws OrderTransitionError.
+   */
+  async transition(
+    orderId: string,
+    status: string,
+    actor: OrderActor,
+    options: OrderTransitionOptions = {}
+  ): Promise<OrderTransitionResult> {
+    const traceId = crypto.randomUUID();
+    const to = normalizeOrderStatus(status);
+
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      include: { payments: { select: { status: true, method: true } } },
+    });
+
+    if (!order) {
+      throw new NotFoundError('Order');
+    }
+
+    const from = order.status as OrderStatusCode;
+    if (from === to || (options.expectedStatus && from !== options.expectedStatus)) {
+      return { orderId, from, to, changed: false };
+    }
+
+    assertOrderTransition(from, to, {
+      paid: order.payments.some(payment => payment.status === 'COMPLETED'),
+      refunded: order.payments.some(payment => payment.status === 'REFUNDED'),
+      cashOnDelivery: order.payments.some(payment => payment.method === 'COD' && payment.status === 'PENDING'),
+      onAccount: order.payments.some(payment => payment.method === 'INVOICE' && payment.status === 'PENDING'),
+    });
+
+    await this.prisma.$transaction(async (tx) => {
+      // Guard against a concurrent transition from the same status
+      const { count } = await tx.order.updateMany({
+        where: { id: orderId, status: from },
+        data: { status: to },
+      });
+
+      if (count === 0) {
+        throw new ConflictError('Order status was changed by someone else');
+      }
+
+      // A quote's order cancelled before it was paid for hands the quote back,
+      // so the buyer can convert it again while it is valid
+      const releasedQuoteId = from === 'PENDING' && to === 'CANCELLED' ? order.quoteId : null;
+      if (releasedQuoteId) {
+        await tx.order.update({ where: { id: orderId }, data: { quoteId: null } });
+        await tx.b2BQuote.updateMany({
+          where: { id: releasedQuoteId, status: 'CONVERTED' },
+          data: { status: 'APPROVED' },
+        });
+      }
+
+      await tx.orderStatusHistory.create({
+        data: {
+          orderId,
+          fromStatus: from,
+          toStatus: to,
+          actorType: actor.type,
+          actorId: actor.id,
+          reason: options.reason,
+          metadata: releasedQuoteId ? { ...options.metadata, quoteId: releasedQuoteId } : options.metadata,
+        },
+      });
+    });
+
+    this.metrics.incrementCounter('order.status.transition', 1, { from, to, actor: actor.type });
+    this.logger.info('Order status changed', { traceId, orderId, from, to, actor });
+
+    await this.runSideEffects(orderId, to, getTransitionEffects(from, to), options.reason, traceId);
+
+    return { orderId, from, to, changed: true };
+  }
+
+  async getHistory(orderId: string, userId?: string): Promise<OrderStatusHistoryEntry[]> {
+    const order = await this.prisma.order.findFirst({
+      where: { id: orderId, ...(userId && { userId }) },
+      select: { id: true },
+    });
+
+    if (!order) {
+      throw new NotFoundError('Order');
+    }
+
+    const history = await this.prisma.orderStatusHistory.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return history.map(entry => ({
+      id: entry.id,
+      fromStatus: entry.fromStatus as OrderStatusCode | null,
+      toStatus: entry.toStatus as OrderStatusCode,
+      actorType: entry.actorType as OrderActorType,
+      actorId: entry.actorId,
+      reason: entry.reason,
+      createdAt: entry.createdAt.toISOString(),
+    }));
+  }
+
+  /**
+   * Cancel pending orders whose stock hold lapsed before they were paid for,
+   * once the worker has released their stock. Orders waiting for an approver
+   * or with a payment still in flight are left alone: reconciliation settles
+   * the payment with the provider first, and a failed payment lets the order
+   * go on the next run.
+   */
+  async cancelAbandonedOrders(): Promise<string[]> {
+    const orders = await this.prisma.order.findMany({
+      where: {
+        status: 'PENDING',
+        reservations: { some: { status: 'EXPIRED' }, none: { status: 'ACTIVE' } },
+        payments: { none: { status: { in: ['PENDING', 'PROCESSING', 'COMPLETED'] } } },
+        OR: [{ approval: null }, { approval: { status: { not: 'PENDING' } } }],
+      },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+      take: ABANDONED_BATCH_SIZE,
+    });
+
+    const cancelled: string[] = [];
+    for (const order of orders) {
+      try {
+        const result = await this.transition(order.id, 'cancelled', { type: 'SYSTEM' }, {
+          reason: 'Stock hold expired before payment',
+          metadata: { action: 'RESERVATION_EXPIRED' },
+          expectedStatus: 'PENDING',
+        });
+
+        if (result.changed) {
+          cancelled.push(order.id);
+        }
+      } catch (error) {
+        // e.g. a concurrent change to the order; the next run looks again
+        this.logger.warn('Abandoned order not cancelled', {
+          orderId: order.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    if (cancelled.length > 0) {
+      this.metrics.incrementCounter('order.abandoned.cancelled', cancelled.length, {});
+      this.logger.info('Unpaid orders cancelled after their stock hold expired', { orderIds: cancelled });
+    }
+
+    return cancelled;
+  }
+
+  /**
+   * Side effects run after the status is committed. A failure is logged
+   * rather than undoing the transition, which has already happened; stock
+   * failures are also written to the order's history so staff can see the
+   * stock was not confirmed or released.
+   */
+  private async runSideEffects(
+    orderId: string,
+    to: OrderStatusCode,
+    effects: OrderSideEffect[],
+    reason: string | undefined,
+    traceId: string
+  ) {
+    for (const effect of effects) {
+      try {
+        switch (effect) {
+          case 'CONFIRM_STOCK':
+            await this.confirmReservations(orderId);
+            break;
+          case 'RELEASE_STOCK':
+            await this.releaseReservations(orderId);
+            break;
+          case 'NOTIFY_CUSTOMER':
+            await this.notifyCustomer(orderId, to, reason);
+            break;
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+
+        this.metrics.incrementCounter('order.status.side_effect.error', 1, { effect });
+        this.logger.error('Order status side effect failed', { traceId, orderId, effect, error: message });
+
+        if (effect !== 'NOTIFY_CUSTOMER') {
+          await this.recordSideEffectFailure(orderId, to, effect, message, traceId);
+        }
+      }
+    }
+  }
+
+  private async recordSideEffectFailure(
+    orderId: string,
+    status: OrderStatusCode,
+    effect: OrderSideEffect,
+    error: string,
+    traceId: string
+  ) {
+    try {
+      await this.prisma.orderStatusHistory.create({
+        data: {
+          orderId,
+          fromStatus: status,
+          toStatus: status,
+          actorType: 'SYSTEM',
+          reason: effect === 'CONFIRM_STOCK'
+            ? `Stock could not be confirmed: ${error}`
+            : `Stock could not be released: ${error}`,
+          metadata: { sideEffect: effect, error, traceId },
+        },
+      });
+    } catch (historyError) {
+      this.logger.error('Could not record failed side effect', {
+        traceId,
+        orderId,
+        effect,
+        error: historyError instanceof Error ? historyError.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Turn the stock held at checkout into an allocation. Fails when the order
+   * holds no stock at all, e.g. its hold lapsed before the payment arrived.
+   */
+  private async confirmReservations(orderId: string) {
+    const reservations = await this.prisma.reservation.findMany({
+      where: { orderId, status: 'ACTIVE' },
+    });
+
+    if (reservations.length === 0) {
+      const confirmed = await this.prisma.reservation.count({ where: { orderId, status: 'CONFIRMED' } });
+      if (confirmed === 0) {
+        throw new Error('No stock is held for this order');
+      }
+    }
+
+    for (const reservation of reservations) {
+      await this.prisma.$transaction(async (tx) => {
+        const { count } = await tx.reservation.updateMany({
+          where: { id: reservation.id, status: 'ACTIVE' },
+          data: { status: 'CONFIRMED', confirmedAt: new Date() },
+        });
+
+        if (count === 0) {
+          return;
+        }
+
+        await tx.lot.update({
+          where: { id: reservation.lotId },
+          data: { qtyReserved: { decrement: reservation.quantity } },
+        });
+
+        await tx.inventoryLedger.create({
+          data: this.ledgerEntry(reservation, 'OUT', `Confirmed allocation for order ${orderId}`),
+        });
+      });
+    }
+  }
+
+  /**
+   * Put an order's stock back: held stock is released from the reservation,
+   * allocated stock is returned to its lot
+   */
+  private async releaseReservations(orderId: string) {
+    const reservations = await this.prisma.reservation.findMany({
+      where: { orderId, status: { in: ['ACTIVE', 'CONFIRMED'] } },
+    });
+
+    for (const reservation of reservations) {
+      await this.prisma.$transaction(async (tx) => {
+        const { count } = await tx.reservation.updateMany({
+          where: { id: reservation.id, status: reservation.status },
+          data: { status: 'RELEASED', releasedAt: new Date() },
+        });
+
+        if (count === 0) {
+          return;
+        }
+
+        await tx.lot.update({
+          where: { id: reservation.lotId },
+          data: {
+            qtyAvailable: { increment: reservation.quantity },
+            ...(reservation.status === 'ACTIVE' && { qtyReserved: { decrement: reservation.quantity } }),
+          },
+        });
+
+        await tx.inventoryLedger.create({
+          data: this.ledgerEntry(reservation, 'IN', `Released from cancelled order ${orderId}`),
+        });
+      });
+    }
+  }
+
+  private ledgerEntry(
+    reservation: { id: string; variantId: string; lotId: string; warehouseId: string | null; orderId: string | null; quantity: number },
+    changeType: 'IN' | 'OUT',
+    reason: string
+  ): Prisma.InventoryLedgerUncheckedCreateInput {
+    return {
+      variantId: reservation.variantId,
+      lotId: reservation.lotId,
+      warehouseId: reservation.warehouseId,
+      changeType,
+      refType: 'ORDER',
+      quantity: reservation.quantity,
+      reason,
+      metadata: { orderId: reservation.orderId, reservationId: reservation.id },
+    };
+  }
+
+  private async notifyCustomer(orderId: string, status: OrderStatusCode, reason?: string) {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      include: { user: { select: { email: true, name: true } } },
+    });
+
+    if (!order?.user.email) {
+      return;
+    }
+
+    await addOrderStatusEmailJob({
+      email: order.user.email,
+      name: order.user.name,
+      orderId,
+      orderNumber: order.orderNumber,
+      status,
+      reason,
+    });
+  }
+}
@@ -0,0 +1,729 @@
+import crypto from 'crypto';
+import { OrderStatus, Prisma, PrismaClient } from '@prisma/client';
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '@newhill/shared/types/api';
+import {
+  OrderApproval,
+  OrderApprovalStatus,
+  Organization,
+  OrganizationAction,
+  OrganizationInvitation,
+  OrganizationMember,
+  OrganizationOrder,
+  OrganizationRole,
+} from '@newhill/shared/types/organization';
+import { OrderStatusService } from './OrderStatusService';
+import { Logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+import { addOrderApprovalEmailJob, addOrganizationInvitationEmailJob } from '../utils/emailQueue';
+
+export interface OrganizationSettingsInput {
+  name?: string;
+  approvalThreshold?: number | null;
+  approvalCurrency?: string;
+}
+
+export interface InvitationInput {
+  email: string;
+  role: OrganizationRole;
+}
+
+export interface OrganizationOrderFilters {
+  status?: string;
+  page: number;
+  limit: number;
+}
+
+// Days an invitation link stays valid
+const INVITATION_TTL_DAYS = parseInt(process.env.ORGANIZATION_INVITE_TTL_DAYS || '7', 10);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ROLE_ACTIONS: Record<OrganizationRole, OrganizationAction[]> = {
+  OWNER: ['BUY', 'APPROVE', 'MANAGE'],
+  APPROVER: ['BUY', 'APPROVE'],
+  BUYER: ['BUY'],
+  FINANCE_VIEWER: [],
+};
+
+export function canAct(role: OrganizationRole, action: OrganizationAction): boolean {
+  return ROLE_ACTIONS[role].includes(action);
+}
+
+/**
+ * Rows a user shares with the rest of their organization, or only their
+ * own when they buy alone. Orders, quotes, addresses and B2B profiles all
+ * hang off a user and an optional organization.
+ */
+export function accountScope(userId: string) {
+  return {
+    OR: [
+      { userId },
+      { organization: { members: { some: { userId } } } },
+    ],
+  };
+}
+
+/**
+ * Whether an order needs an approver before it is paid: only above the
+ * threshold, and always when it is in another currency than the threshold
+ */
+export function needsApproval(
+  order: { amount: number; currency: string },
+  organization: { approvalThreshold: number | null; approvalCurrency: string }
+): boolean {
+  if (organization.approvalThreshold === null) {
+    return false;
+  }
+
+  return order.currency.toUpperCase() !== organization.approvalCurrency ||
+    order.amount > organization.approvalThreshold;
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+type MembershipWithOrganization = Prisma.OrganizationMemberGetPayload<{
+  include: { organization: { include: { application: true } } };
+}>;
+
+/**
+ * B2B organizations: the members who buy on one business profile, their
+ * roles and invitations, and the approvals orders above the organization's
+ * threshold wait for
+ */
+export class OrganizationService {
+  private prisma: PrismaClient;
+  private logger: Logger;
+  private metrics: typeof MetricsCollector;
+  private orderStatus: OrderStatusService;
+
+  constructor(
+    prisma: PrismaClient,
+    logger: Logger,
+    metrics: typeof MetricsCollector,
+    orderStatus: OrderStatusService = new OrderStatusService(prisma, logger, metrics)
+  ) {
+    this.prisma = prisma;
+    this.logger = logger;
+    this.metrics = metrics;
+    this.orderStatus = orderStatus;
+  }
+
+  /**
+   * The user's organization, or null when they have no B2B profile. An
+   * approved application from before organizations existed becomes an
+   * organization owned by its applicant the first time it is needed.
+   */
+  async findMembership(userId: string): Promise<MembershipWithOrganization | null> {
+    const include = { organization: { include: { application: true } } };
+    const membership = await this.prisma.organizationMember.findUnique({ where: { userId }, include });
+
+    if (membership) {
+      return membership;
+    }
+
+    const application = await this.prisma.b2BApplication.findUnique({ where: { userId } });
+    if (!application || application.status !== 'APPROVED' || application.organizationId) {
+      return null;
+    }
+
+    const created = await this.prisma.$transaction(async tx => {
+      const organization = await tx.organization.create({
+        data: { name: application.businessName },
+      });
+
+      // Guarded so two first requests do not give the profile two organizations
+      const { count } = await tx.b2BApplication.updateMany({
+        where: { id: application.id, organizationId: null },
+        data: { organizationId: organization.id },
+      });
+
+      if (count === 0) {
+        throw new ConflictError('Organization was created by another request');
+      }
+
+      return tx.organizationMember.create({
+        data: { organizationId: organization.id, userId, role: 'OWNER' },
+        include,
+      });
+    });
+
+    this.metrics.incrementCounter('b2b.organization.created');
+    this.logger.info('Organization created for B2B account', {
+      organizationId: created.organizationId,
+      applicationId: application.id,
+      userId,
+    });
+
+    return created;
+  }
+
+  async getOrganization(userId: string): Promise<Organization> {
+    const membership = await this.requireMembership(userId);
+    const memberCount = await this.prisma.organizationMember.count({
+      where: { organizationId: membership.organizationId },
+    });
+
+    return this.serializeOrganization(membership, memberCount);
+  }
+
+  async updateSettings(userId: string, input: OrganizationSettingsInput): Promise<Organization> {
+    const membership = await this.requireMembership(userId, 'MANAGE');
+    const organization = membership.organization;
+
+    await this.prisma.organization.update({
+      where: { id: organization.id },
+      data: {
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.approvalThreshold !== undefined && { approvalThreshold: input.approvalThreshold }),
+        ...(input.approvalCurrency !== undefined && { approvalCurrency: input.approvalCurrency.toUpperCase() }),
+      },
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        userId,
+        entity: 'Organization',
+        entityId: organization.id,
+        action: 'SETTINGS_UPDATED',
+        metadata: {
+          from: {
+            name: organization.name,
+            approvalThreshold: organization.approvalThreshold ? Number(organization.approvalThreshold) : null,
+            approvalCurrency: organization.approvalCurrency,
+          },
+          to: { ...input },
+        },
+      },
+    });
+
+    return this.getOrganization(userId);
+  }
+
+  async listMembers(userId: string): Promise<OrganizationMember[]> {
+    const membership = await this.requireMembership(userId);
+
+    const members = await this.prisma.organizationMember.findMany({
+      where: { organizationId: membership.organizationId },
+      include: { user: { select: { name: true, email: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return members.map(member => ({
+      id: member.id,
+      userId: member.userId,
+      name: member.user.name ?? undefined,
+      email: member.user.email,
+      role: member.role as OrganizationRole,
+      joinedAt: member.createdAt.toISOString(),
+    }));
+  }
+
+  async changeRole(userId: string, memberId: string, role: OrganizationRole): Promise<void> {
+    const membership = await this.requireMembership(userId, 'MANAGE');
+    const member = await this.findMember(membership.organizationId, memberId);
+
+    if (member.role === 'OWNER' && role !== 'OWNER') {
+      await this.assertAnotherOwner(membership.organizationId, member.id);
+    }
+
+    await this.prisma.organizationMember.update({
+      where: { id: member.id },
+      data: { role },
+    });
+
+    await this.audit(userId, membership.organizationId, 'MEMBER_ROLE_CHANGED', {
+      memberId,
+      memberUserId: member.userId,
+      from: member.role,
+      to: role,
+    });
+  }
+
+  /**
+   * Take a member out of the organization. They lose B2B access unless
+   * they have an approved profile of their own.
+   */
+  async removeMember(userId: string, memberId: string): Promise<void> {
+    const membership = await this.requireMembership(userId, 'MANAGE');
+    const member = await this.findMember(membership.organizationId, memberId);
+
+    if (member.role === 'OWNER') {
+      await this.assertAnotherOwner(membership.organizationId, member.id);
+    }
+
+    const ownApplication = await this.prisma.b2BApplication.findFirst({
+      where: { userId: member.userId, status: 'APPROVED', organizationId: null },
+    });
+
+    await this.prisma.$transaction([
+      this.prisma.organizationMember.delete({ where: { id: member.id } }),
+      ...(ownApplication
+        ? []
+        : [this.prisma.user.updateMany({ where: { id: member.userId, role: 'B2B' }, data: { role: 'B2C' } })]),
+    ]);
+
+    await this.audit(userId, membership.organizationId, 'MEMBER_REMOVED', {
+      memberId,
+      memberUserId: member.userId,
+      role: member.role,
+    });
+  }
+
+  async listInvitations(userId: string): Promise<OrganizationInvitation[]> {
+    const membership = await this.requireMembership(userId, 'MANAGE');
+
+    const invitations = await this.prisma.organizationInvitation.findMany({
+      where: {
+        organizationId: membership.organizationId,
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return invitations.map(invitation => this.serializeInvitation(invitation));
+  }
+
+  /**
+   * Invite someone by email. The link in the email carries the only copy
+   * of the token; inviting the same address again replaces the earlier link.
+   */
+  async invite(userId: string, input: InvitationInput): Promise<OrganizationInvitation> {
+    const membership = await this.requireMembership(userId, 'MANAGE');
+    const email = input.email.trim().toLowerCase();
+
+    const existing = await this.prisma.organizationMember.findFirst({
+      where: { organizationId: membership.organizationId, user: { email } },
+    });
+
+    if (existing) {
+      throw new ConflictError(`${email} is already a member of this organization`);
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * DAY_MS);
+
+    const [, invitation] = await this.prisma.$transaction([
+      this.prisma.organizationInvitation.updateMany({
+        where: { organizationId: membership.organizationId, email, acceptedAt: null, revokedAt: null },
+        data: { revokedAt: new Date() },
+      }),
+      this.prisma.organizationInvitation.create({
+        data: {
+          organizationId: membership.organizationId,
+          email,
+          role: input.role,
+          tokenHash: hashToken(token),
+          invitedBy: userId,
+          expiresAt,
+        },
+      }),
+    ]);
+
+    const inviter = await this.prisma.user.findUnique({ where: { id: userId }, select: { name: true } });
+
+    await addOrganizationInvitationEmailJob({
+      email,
+      organizationName: membership.organization.name,
+      invitedByName: inviter?.name ?? null,
+      role: input.role,
+      acceptUrl: `${process.env.NEXT_PUBLIC_APP_URL}/account/b2b/join?token=${token}`,
+      expiresAt: expiresAt.toISOString(),
+    });
+
+    await this.audit(userId, membership.organizationId, 'MEMBER_INVITED', { email, role: input.role });
+    this.metrics.incrementCounter('b2b.organization.invited', 1, { role: input.role });
+
+    return this.serializeInvitation(invitation);
+  }
+
+  async revokeInvitation(userId: string, invitationId: string): Promise<void> {
+    const membership = await this.requireMembership(userId, 'MANAGE');
+
+    const { count } = await this.prisma.organizationInvitation.updateMany({
+      where: { id: invitationId, organizationId: membership.organizationId, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new NotFoundError('Invitation');
+    }
+
+    await this.audit(userId, membership.organizationId, 'INVITATION_REVOKED', { invitationId });
+  }
+
+  /**
+   * Join the organization an invitation is for. It has to be accepted by
+   * the account it was sent to, and only by someone not already buying for
+   * another B2B profile.
+   */
+  async acceptInvitation(userId: string, token: string): Promise<Organization> {
+    const invitation = await this.prisma.organizationInvitation.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    if (!invitation || invitation.revokedAt || invitation.acceptedAt || invitation.expiresAt <= new Date()) {
+      throw new ValidationError('This invitation is no longer valid');
+    }
+
+    const [user, membership, application] = await Promise.all([
+      this.prisma.user.findUnique({ where: { id: userId }, select: { email: true, role: true } }),
+      this.prisma.organizationMember.findUnique({ where: { userId } }),
+      this.prisma.b2BApplication.findUnique({ where: { userId } }),
+    ]);
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    if (user.email.toLowerCase() !== invitation.email) {
+      throw new AuthorizationError('This invitation was sent to a different email address');
+    }
+
+    if (membership || application) {
+      throw new ConflictError('Your account already has its own B2B profile or organization');
+    }
+
+    await this.prisma.$transaction(async tx => {
+      // Claiming the invitation first makes a second acceptance of it fail here
+      const { count } = await tx.organizationInvitation.updateMany({
+        where: { id: invitation.id, acceptedAt: null, revokedAt: null },
+        data: { acceptedAt: new Date(), acceptedBy: userId },
+      });
+
+      if (count === 0) {
+        throw new ConflictError('Invitation has already been used');
+      }
+
+      await tx.organizationMember.create({
+        data: {
+          organizationId: invitation.organizationId,
+          userId,
+          role: invitation.role,
+          invitedBy: invitation.invitedBy,
+        },
+      });
+
+      if (user.role === 'B2C') {
+        await tx.user.update({ where: { id: userId }, data: { role: 'B2B' } });
+      }
+    });
+
+    await this.audit(userId, invitation.organizationId, 'MEMBER_JOINED', {
+      invitationId: invitation.id,
+      role: invitation.role,
+    });
+    this.metrics.incrementCounter('b2b.organization.joined', 1, { role: invitation.role });
+
+    return this.getOrganization(userId);
+  }
+
+  /**
+   * Check whether the buyer may pay for an order now. Returns null when the
+   * order can go ahead, or its approval while it waits for an approver;
+   * the first time an order is over the threshold its approval is opened
+   * and the approvers are emailed.
+   */
+  async requireApproval(orderId: string, userId: string): Promise<OrderApproval | null> {
+    const order = await this.prisma.order.findFirst({
+      where: { id: orderId, userId },
+      include: { approval: true, organization: true },
+    });
+
+    if (!order) {
+      throw new NotFoundError('Order');
+    }
+
+    if (!order.organizationId || !order.organization) {
+      return null;
+    }
+
+    const membership = await this.prisma.organizationMember.findUnique({ where: { userId } });
+    const role = membership?.organizationId === order.organizationId ? membership.role as OrganizationRole : null;
+
+    if (!role || !canAct(role, 'BUY')) {
+      throw new AuthorizationError('Your role in this organization cannot place orders');
+    }
+
+    if (order.approval) {
+      if (order.approval.status === 'APPROVED') {
+        return null;
+      }
+
+      if (order.approval.status === 'REJECTED') {
+        throw new ValidationError('This order was rejected by an approver', { reason: order.approval.reason });
+      }
+
+      return this.serializeApproval({ ...order.approval, order });
+    }
+
+    // Approvers do not wait for each other
+    const amount = Number(order.totalAmount);
+    const threshold = order.organization.approvalThreshold;
+    if (canAct(role, 'APPROVE') || !needsApproval(
+      { amount, currency: order.currency },
+      { approvalThreshold: threshold === null ? null : Number(threshold), approvalCurrency: order.organization.approvalCurrency }
+    )) {
+      return null;
+    }
+
+    const approval = await this.prisma.orderApproval.create({
+      data: {
+        orderId,
+        organizationId: order.organizationId,
+        requestedBy: userId,
+        amount,
+        currency: order.currency,
+      },
+    });
+
+    const [requester, approvers] = await Promise.all([
+      this.prisma.user.findUnique({ where: { id: userId }, select: { name: true } }),
+      this.prisma.organizationMember.findMany({
+        where: { organizationId: order.organizationId, role: { in: ['OWNER', 'APPROVER'] } },
+        select: { user: { select: { email: true } } },
+      }),
+    ]);
+
+    await addOrderApprovalEmailJob({
+      emails: approvers.map(approver => approver.user.email),
+      organizationName: order.organization.name,
+      orderId,
+      orderNumber: order.orderNumber,
+      amount,
+      currency: order.currency,
+      requestedByName: requester?.name ?? null,
+    });
+
+    this.metrics.incrementCounter('b2b.approval.requested', 1, { currency: order.currency });
+    this.logger.info('Order waiting for approval', {
+      approvalId: approval.id,
+      orderId,
+      organizationId: order.organizationId,
+      amount,
+      currency: order.currency,
+    });
+
+    return this.serializeApproval({ ...approval, order });
+  }
+
+  async listApprovals(userId: string, status?: OrderApprovalStatus): Promise<OrderApproval[]> {
+    const membership = await this.requireMembership(userId);
+
+    const approvals = await this.prisma.orderApproval.findMany({
+      where: { organizationId: membership.organizationId, ...(status && { status }) },
+      include: { order: { select: { orderNumber: true, user: { select: { name: true } } } } },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+
+    return approvals.map(approval => this.serializeApproval(approval));
+  }
+
+  /**
+   * Approve or reject a waiting order. Approved orders are paid by their
+   * buyer as usual; rejected ones are cancelled and their stock released.
+   */
+  async decide(userId: string, approvalId: string, status: 'APPROVED' | 'REJECTED', reason?: string): Promise<OrderApproval> {
+    const membership = await this.requireMembership(userId, 'APPROVE');
+
+    const approval = await this.prisma.orderApproval.findFirst({
+      where: { id: approvalId, organizationId: membership.organizationId },
+    });
+
+    if (!approval) {
+      throw new NotFoundError('Approval');
+    }
+
+    // Guarded so two approvers deciding at once cannot both win
+    const { count } = await this.prisma.orderApproval.updateMany({
+      where: { id: approvalId, status: 'PENDING' },
+      data: { status, decidedBy: userId, decidedAt: new Date(), reason },
+    });
+
+    if (count === 0) {
+      throw new ConflictError('This order has already been decided');
+    }
+
+    if (status === 'REJECTED') {
+      await this.orderStatus.transition(approval.orderId, 'cancelled', { type: 'CUSTOMER', id: userId }, {
+        reason: reason ? `Rejected by approver: ${reason}` : 'Rejected by approver',
+        metadata: { approvalId },
+      });
+    }
+
+    await this.audit(userId, membership.organizationId, status === 'APPROVED' ? 'ORDER_APPROVED' : 'ORDER_REJECTED', {
+      approvalId,
+      orderId: approval.orderId,
+      amount: Number(approval.amount),
+      currency: approval.currency,
+      reason,
+    });
+    this.metrics.incrementCounter('b2b.approval.decided', 1, { status });
+
+    const decided = await this.prisma.orderApproval.findUniqueOrThrow({
+      where: { id: approvalId },
+      include: { order: { select: { orderNumber: true, user: { select: { name: true } } } } },
+    });
+
+    return this.serializeApproval(decided);
+  }
+
+  /**
+   * Every order placed for the organization, newest first, with who placed it
+   */
+  async listOrders(userId: string, filters: OrganizationOrderFilters): Promise<{ items: OrganizationOrder[]; total: number }> {
+    await this.requireMembership(userId);
+
+    const where: Prisma.OrderWhereInput = {
+      ...accountScope(userId),
+      softDeleted: false,
+      ...(filters.status && { status: filters.status.toUpperCase() as OrderStatus }),
+    };
+
+    const [orders, total] = await Promise.all([
+      this.prisma.order.findMany({
+        where,
+        include: {
+          user: { select: { name: true } },
+          quote: { select: { quoteNumber: true } },
+          approval: { select: { status: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      this.prisma.order.count({ where }),
+    ]);
+
+    return {
+      items: orders.map(order => ({
+        id: order.id,
+        orderNumber: order.orderNumber,
+        status: order.status.toLowerCase(),
+        total: Number(order.totalAmount),
+        currency: order.currency,
+        placedBy: order.userId,
+        placedByName: order.user.name ?? undefined,
+        quoteNumber: order.quote?.quoteNumber,
+        approvalStatus: order.approval?.status as OrderApprovalStatus | undefined,
+        createdAt: order.createdAt.toISOString(),
+      })),
+      total,
+    };
+  }
+
+  /**
+   * The user's membership, with the role the action needs
+   */
+  async requireMembership(userId: string, action?: OrganizationAction): Promise<MembershipWithOrganization> {
+    const membership = await this.findMembership(userId);
+
+    if (!membership) {
+      throw new NotFoundError('Organization');
+    }
+
+    if (action && !canAct(membership.role as OrganizationRole, action)) {
+      throw new AuthorizationError('Your role in this organization does not allow this');
+    }
+
+    return membership;
+  }
+
+  private async findMember(organizationId: string, memberId: string) {
+    const member = await this.prisma.organizationMember.findFirst({ where: { id: memberId, organizationId } });
+
+    if (!member) {
+      throw new NotFoundError('Member');
+    }
+
+    return member;
+  }
+
+  private async assertAnotherOwner(organizationId: string, memberId: string): Promise<void> {
+    const owners = await this.prisma.organizationMember.count({
+      where: { organizationId, role: 'OWNER', id: { not: memberId } },
+    });
+
+    if (owners === 0) {
+      throw new ValidationError('An organization needs at least one owner');
+    }
+  }
+
+  private async audit(userId: string, organizationId: string, action: string, metadata: Prisma.InputJsonObject) {
+    await this.prisma.auditLog.create({
+      data: { userId, entity: 'Organization', entityId: organizationId, action, metadata },
+    });
+
+    this.logger.info('Organization updated', { organizationId, action, userId });
+  }
+
+  private serializeOrganization(membership: MembershipWithOrganization, memberCount: number): Organization {
+    const { organization } = membership;
+
+    return {
+      id: organization.id,
+      name: organization.name,
+      applicationId: organization.application?.id,
+      applicationStatus: organization.application?.status,
+      approvalThreshold: organization.approvalThreshold ? Number(organization.approvalThreshold) : undefined,
+      approvalCurrency: organization.approvalCurrency,
+      memberCount,
+      role: membership.role as OrganizationRole,
+      createdAt: organization.createdAt.toISOString(),
+    };
+  }
+
+  private serializeInvitation(invitation: {
+    id: string;
+    email: string;
+    role: string;
+    invitedBy: string;
+    expiresAt: Date;
+    createdAt: Date;
+  }): OrganizationInvitation {
+    return {
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role as OrganizationRole,
+      invitedBy: invitation.invitedBy,
+      expiresAt: invitation.expiresAt.toISOString(),
+      createdAt: invitation.createdAt.toISOString(),
+    };
+  }
+
+  private serializeApproval(approval: {
+    id: string;
+    orderId: string;
+    status: string;
+    amount: Prisma.Decimal | number;
+    currency: string;
+    requestedBy: string;
+    decidedBy: string | null;
+    decidedAt: Date | null;
+    reason: string | null;
+    createdAt: Date;
+    order: { orderNumber: string; user?: { name: string | null } };
+  }): OrderApproval {
+    return {
+      id: approval.id,
+      orderId: approval.orderId,
+      orderNumber: approval.order.orderNumber,
+      status: approval.status as OrderApprovalStatus,
+      amount: Number(approval.amount),
+      currency: approval.currency,
+      requestedBy: approval.requestedBy,
+      requestedByName: approval.order.user?.name ?? undefined,
+      decidedBy: approval.decidedBy ?? undefined,
+      decidedAt: approval.decidedAt?.toISOString(),
+      reason: approval.reason ?? undefined,
+      createdAt: approval.createdAt.toISOString(),
+    };
+  }
+}
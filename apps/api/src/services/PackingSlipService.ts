@@ -0,0 +1,211 @@
+import crypto from 'crypto';
+import { PrismaClient, ShipmentStatus } from '@prisma/client';
+import { NotFoundError } from '@newhill/shared/types/api';
+import {
+  BrandedPdf,
+  TableColumn,
+  formatDate,
+  formatWeight,
+} from '../utils/pdf';
+import { Logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+import { carrierName } from './LabelService';
+
+export interface PackingSlipLot {
+  batchCode: string;
+  bestBefore: Date;
+  quantity: number;
+}
+
+export interface PackingSlipLine {
+  name: string;
+  weightInGrams: number;
+  quantity: number;
+  lots: PackingSlipLot[];
+}
+
+export interface PackingSlipData {
+  orderNumber: string;
+  orderDate: Date;
+  shipTo: string[];
+  carriers: string[];
+  notes?: string | null;
+  items: PackingSlipLine[];
+}
+
+const ITEM_COLUMNS: TableColumn[] = [
+  { header: '#', width: 24 },
+  { header: 'Product', width: 165 },
+  { header: 'Pack', width: 50, align: 'right' },
+  { header: 'Qty', width: 36, align: 'right' },
+  { header: 'Batch', width: 110 },
+  { header: 'Best before', width: 80 },
+  { header: 'Packed', width: 50, align: 'center' },
+];
+
+// Shipments that will not be handed to a carrier again
+const INACTIVE_SHIPMENT_STATUSES: ShipmentStatus[] = ['FAILED', 'RETURNED'];
+
+/**
+ * Render the packing slips for a pick wave, one order per page. Lots are
+ * listed with their best-before dates so packers can check what they pick
+ * against what was allocated.
+ */
+export async function renderPackingSlips(
+  slips: PackingSlipData[],
+  wave: { reference: string; generatedAt: Date }
+): Promise<Buffer> {
+  const pdf = new BrandedPdf({
+    title: `Packing slips ${wave.reference}`,
+    subject: `Packing slips for ${slips.length} order${slips.length === 1 ? '' : 's'}`,
+    createdAt: wave.generatedAt,
+  });
+
+  slips.forEach((slip, index) => {
+    if (index > 0) {
+      pdf.addPage();
+    }
+
+    pdf.header('PACKING SLIP', slip.orderNumber);
+
+    const units = slip.items.reduce((sum, item) => sum + item.quantity, 0);
+    const netWeight = slip.items.reduce((sum, item) => sum + item.weightInGrams * item.quantity, 0);
+
+    pdf.detailColumns('Ship to', slip.shipTo, 'Order details', [
+      ['Order number', slip.orderNumber],
+      ['Order date', formatDate(slip.orderDate)],
+      ['Units', String(units)],
+      ['Net weight', formatWeight(netWeight)],
+      ['Carrier', slip.carriers.length > 0 ? slip.carriers.join(', ') : 'Not booked'],
+    ]);
+
+    const rows = slip.items.map((item, itemIndex) => [
+      String(itemIndex + 1),
+      item.name,
+      formatWeight(item.weightInGrams),
+      String(item.quantity),
+      item.lots.length > 0
+        ? item.lots.map(lot => (item.lots.length > 1 ? `${lot.batchCode} x${lot.quantity}` : lot.batchCode)).join('\n')
+        : 'Not allocated',
+      item.lots.length > 0 ? item.lots.map(lot => formatDate(lot.bestBefore)).join('\n') : '-',
+      '[   ]',
+    ]);
+
+    pdf.table(ITEM_COLUMNS, rows);
+    pdf.paragraph('Order notes', slip.notes);
+  });
+
+  return pdf.finish(`Pick wave ${wave.reference} - generated ${formatDate(wave.generatedAt)}`);
+}
+
+export class PackingSlipService {
+  private prisma: PrismaClient;
+  private logger: Logger;
+  private metrics: typeof MetricsCollector;
+
+  constructor(prisma: PrismaClient, logger: Logger, metrics: typeof MetricsCollector) {
+    this.prisma = prisma;
+    this.logger = logger;
+    this.metrics = metrics;
+  }
+
+  /**
+   * Build one PDF with a packing slip per order, in the order given
+   */
+  async generate(orderIds: string[], generatedAt: Date = new Date()): Promise<{ reference: string; pdf: Buffer }> {
+    const traceId = crypto.randomUUID();
+    const startTime = Date.now();
+
+    const slips = await this.loadSlips(orderIds);
+
+    // Same orders on the same day give the same reference, so reprints match
+    const reference = `WAVE-${formatDate(generatedAt).replace(/-/g, '')}-${crypto
+      .createHash('sha256')
+      .update(orderIds.join(','))
+      .digest('hex')
+      .slice(0, 6)
+      .toUpperCase()}`;
+
+    const pdf = await renderPackingSlips(slips, { reference, generatedAt });
+
+    this.metrics.recordTiming('fulfilment.packing_slips.duration', Date.now() - startTime, {});
+    this.logger.info('Packing slips generated', {
+      traceId,
+      reference,
+      orderCount: slips.length,
+      bytes: pdf.length,
+    });
+
+    return { reference, pdf };
+  }
+
+  private async loadSlips(orderIds: string[]): Promise<PackingSlipData[]> {
+    const orders = await this.prisma.order.findMany({
+      where: { id: { in: orderIds }, softDeleted: false },
+      include: {
+        shippingAddress: true,
+        items: {
+          orderBy: { createdAt: 'asc' },
+          include: {
+            variant: { include: { product: true } },
+            lot: true,
+            lotAllocations: {
+              include: { lot: true },
+              orderBy: { bestBefore: 'asc' },
+            },
+          },
+        },
+        shipments: {
+          where: { status: { notIn: INACTIVE_SHIPMENT_STATUSES } },
+        },
+      },
+    });
+
+    const missing = orderIds.filter(id => !orders.some(order => order.id === id));
+    if (missing.length > 0) {
+      throw new NotFoundError(`Order ${missing.join(', ')}`);
+    }
+
+    orders.sort((a, b) => orderIds.indexOf(a.id) - orderIds.indexOf(b.id));
+
+    return orders.map(order => {
+      const address = order.shippingAddress;
+
+      return {
+        orderNumber: order.orderNumber,
+        orderDate: order.createdAt,
+        shipTo: [
+          `${address.firstName} ${address.lastName}`,
+          ...(address.company ? [address.company] : []),
+          address.address1,
+          ...(address.address2 ? [address.address2] : []),
+          `${address.city}, ${address.state} ${address.postalCode}`,
+          address.country,
+          ...(address.phone ? [address.phone] : []),
+        ],
+        carriers: Array.from(new Set(
+          order.shipments
+            .map(shipment => shipment.carrier)
+            .filter((carrier): carrier is string => Boolean(carrier))
+            .map(carrierName)
+        )),
+        notes: order.notes,
+        items: order.items.map(item => ({
+          name: item.variant.product.name,
+          weightInGrams: item.variant.weightInGrams,
+          quantity: item.quantity,
+          // Orders placed before FEFO allocation only recorded a single lot
+          lots: item.lotAllocations.length > 0
+            ? item.lotAllocations.map(allocation => ({
+                batchCode: allocation.lot.batchCode,
+                bestBefore: allocation.bestBefore,
+                quantity: allocation.quantity,
+              }))
+            : item.lot
+              ? [{ batchCode: item.lot.batchCode, bestBefore: item.lot.bestBefore, quantity: item.quantity }]
+              : [],
+        })),
+      };
+    });
+  }
+}
@@ -0,0 +1,675 @@
+import crypto from 'crypto';
+import { Payment, PaymentStatus as PaymentRecordStatus, PrismaClient } from '@prisma/client';
+import { ConflictError, ValidationError } from '@newhill/shared/types/api';
+import {
+  PaymentProvider,
+  PaymentStatus,
+  REGION_CONFIGS,
+} from '@newhill/shared/types/payment';
+import { ShippingProvider } from '@newhill/shared/types/shipping';
+import { PaymentAdapterFactory } from '../adapters/payment/PaymentAdapterFactory';
+import { OrderStatusService } from './OrderStatusService';
+import { parseCsv } from '../utils/csv';
+import { Logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+
+/**
+ * Catches Payment rows up with what the providers know. Stale pending
+ * payments are checked with each adapter's getPaymentStatus, and settlement
+ * reports are imported from CSV, as are the carriers' cash on delivery
+ * remittances; anything that disagrees with our records is stored as a
+ * ReconciliationIssue for finance to review.
+ */
+
+export type ReconciliationIssueType =
+  | 'AMOUNT_MISMATCH'
+  | 'CURRENCY_MISMATCH'
+  | 'STATUS_MISMATCH'
+  | 'UNKNOWN_PAYMENT';
+
+export interface ProviderPaymentState {
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+}
+
+export interface PaymentMismatch {
+  type: ReconciliationIssueType;
+  expected: string;
+  actual: string;
+}
+
+export interface StatusReconciliationResult {
+  checked: number;
+  updated: number;
+  issues: number;
+  errors: number;
+}
+
+export interface SettlementImport {
+  provider: PaymentProvider;
+  fileName: string;
+  csv: string;
+  // Some providers export amounts in paise/fils rather than rupees/dirhams
+  amountsInMinorUnits?: boolean;
+}
+
+export interface CodRemittanceImport {
+  carrier: ShippingProvider;
+  fileName: string;
+  csv: string;
+}
+
+export interface SettlementImportResult {
+  reportId: string;
+  lineCount: number;
+  matchedCount: number;
+  mismatchCount: number;
+}
+
+// Payments still pending after this long are assumed to have missed their webhook. Kept
+// well inside the stock hold (RESERVATION_TTL_MINUTES) so the provider is asked before the hold lapses.
+const STALE_AFTER_MINUTES = parseInt(process.env.PAYMENT_RECONCILIATION_STALE_MINUTES || '15', 10);
+
+// Pending payments older than this are abandoned checkouts and no longer polled
+const MAX_AGE_DAYS = parseInt(process.env.PAYMENT_RECONCILIATION_MAX_AGE_DAYS || '7', 10);
+
+const OPEN_STATUSES: PaymentRecordStatus[] = ['PENDING', 'PROCESSING'];
+
+// Header aliases across provider exports; the first column present wins
+const SETTLEMENT_COLUMNS: Record<
+  'paymentId' | 'amount' | 'currency' | 'status' | 'fee' | 'tax' | 'settlementRef' | 'settledAt',
+  string[]
+> = {
+  paymentId: ['payment_id', 'entity_id', 'transaction_id', 'tran_ref', 'reference', 'id'],
+  amount: ['amount', 'gross_amount', 'transaction_amount', 'credit'],
+  currency: ['currency', 'currency_code'],
+  status: ['status', 'payment_status', 'transaction_status', 'type'],
+  fee: ['fee', 'fees', 'mdr'],
+  tax: ['tax', 'fee_tax', 'vat', 'gst'],
+  settlementRef: ['settlement_id', 'settlement_utr', 'utr', 'settlement_reference', 'batch_id'],
+  settledAt: ['settled_at', 'settlement_date', 'settled_on'],
+};
+
+// Header aliases across carrier COD remittance exports
+const REMITTANCE_COLUMNS: Record<
+  'awb' | 'orderNumber' | 'amount' | 'currency' | 'remittanceRef' | 'remittedAt',
+  string[]
+> = {
+  awb: ['awb', 'awb_code', 'awb code', 'awb number', 'tracking_number'],
+  orderNumber: ['order_id', 'order id', 'channel_order_id', 'channel order id', 'order_number'],
+  amount: ['cod_amount', 'cod amount', 'remitted_amount', 'remitted amount', 'amount'],
+  currency: ['currency', 'currency_code'],
+  remittanceRef: ['utr', 'crf_id', 'crf id', 'remittance_id', 'remittance id'],
+  remittedAt: ['remittance_date', 'remittance date', 'remitted_on', 'remitted on'],
+};
+
+const SETTLEMENT_STATUSES: Record<string, PaymentStatus> = {
+  captured: 'completed',
+  settled: 'completed',
+  success: 'completed',
+  successful: 'completed',
+  paid: 'completed',
+  payment: 'completed',
+  completed: 'completed',
+  authorised: 'completed',
+  authorized: 'completed',
+  refund: 'refunded',
+  refunded: 'refunded',
+  failed: 'failed',
+  declined: 'failed',
+  pending: 'pending',
+  processing: 'processing',
+  cancelled: 'cancelled',
+  canceled: 'cancelled',
+  voided: 'cancelled',
+};
+
+function pick(record: Record<string, string>, aliases: string[]): string | undefined {
+  const column = aliases.find(alias => record[alias] !== undefined && record[alias] !== '');
+  return column ? record[column] : undefined;
+}
+
+function parseAmount(value: string | undefined, minorUnits: boolean): number {
+  const amount = Number((value || '0').replace(/[^0-9.-]/g, ''));
+  if (!Number.isFinite(amount)) {
+    return NaN;
+  }
+
+  return minorUnits ? amount / 100 : amount;
+}
+
+/**
+ * Differences between a Payment row and the provider's view of it. Amounts
+ * are compared to the cent; status is compared case-insensitively.
+ */
+export function comparePayment(
+  payment: Pick<Payment, 'amount' | 'currency' | 'status'>,
+  provider: ProviderPaymentState
+): PaymentMismatch[] {
+  const mismatches: PaymentMismatch[] = [];
+  const expectedAmount = Number(payment.amount);
+
+  if (Math.abs(expectedAmount - provider.amount) > 0.01) {
+    mismatches.push({
+      type: 'AMOUNT_MISMATCH',
+      expected: expectedAmount.toFixed(2),
+      actual: provider.amount.toFixed(2),
+    });
+  }
+
+  if (payment.currency.toUpperCase() !== provider.currency.toUpperCase()) {
+    mismatches.push({
+      type: 'CURRENCY_MISMATCH',
+      expected: payment.currency.toUpperCase(),
+      actual: provider.currency.toUpperCase(),
+    });
+  }
+
+  if (payment.status.toLowerCase() !== provider.status) {
+    mismatches.push({
+      type: 'STATUS_MISMATCH',
+      expected: payment.status.toLowerCase(),
+      actual: provider.status,
+    });
+  }
+
+  return mismatches;
+}
+
+export class PaymentReconciliationService {
+  private prisma: PrismaClient;
+  private logger: Logger;
+  private metrics: typeof MetricsCollector;
+  private orderStatus: OrderStatusService;
+
+  constructor(
+    prisma: PrismaClient,
+    logger: Logger,
+    metrics: typeof MetricsCollector,
+    orderStatus: OrderStatusService = new OrderStatusService(prisma, logger, metrics)
+  ) {
+    this.prisma = prisma;
+    this.logger = logger;
+    this.metrics = metrics;
+    this.orderStatus = orderStatus;
+  }
+
+  /**
+   * Ask the provider for the current state of payments stuck in PENDING or
+   * PROCESSING and move them to the provider's status. If the provider
+   * disagrees on amount or currency the status is left alone and the
+   * mismatch is recorded as an issue instead.
+   */
+  async reconcileStalePayments(limit: number = 100): Promise<StatusReconciliationResult> {
+    const traceId = crypto.randomUUID();
+    const startTime = Date.now();
+    const staleBefore = new Date(Date.now() - STALE_AFTER_MINUTES * 60 * 1000);
+    const result: StatusReconciliationResult = { checked: 0, updated: 0, issues: 0, errors: 0 };
+
+    const payments = await this.prisma.payment.findMany({
+      where: {
+        // Cash on delivery has no gateway to ask; it settles through carrier remittances
+        method: 'ONLINE',
+        status: { in: OPEN_STATUSES },
+        createdAt: {
+          lt: staleBefore,
+          gte: new Date(Date.now() - MAX_AGE_DAYS * 24 * 60 * 60 * 1000),
+        },
+        OR: [{ lastReconciledAt: null }, { lastReconciledAt: { lt: staleBefore } }],
+      },
+      include: { order: { include: { shippingAddress: true } } },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+
+    for (const payment of payments) {
+      result.checked++;
+      const provider = this.resolveProvider(payment, payment.order.shippingAddress.country);
+
+      try {
+        const adapter = PaymentAdapterFactory.getAdapter(
+          this.regionForProvider(provider),
+          process.env.NODE_ENV === 'production' ? 'live' : 'sandbox'
+        );
+        const remote = await adapter.getPaymentStatus(payment.providerId);
+        const mismatches = comparePayment(payment, remote);
+        const valueMismatches = mismatches.filter(mismatch => mismatch.type !== 'STATUS_MISMATCH');
+
+        if (valueMismatches.length > 0) {
+          // Never move a payment to a provider status that disagrees on what was paid
+          result.issues += await this.recordIssues(valueMismatches, {
+            paymentId: payment.id,
+            provider,
+            source: 'STATUS_CHECK',
+          });
+        } else if (mismatches.length > 0) {
+          result.issues += await this.applyProviderStatus(payment, remote.status, { provider, source: 'STATUS_CHECK' });
+          result.updated++;
+
+          this.logger.info('Payment status reconciled', {
+            traceId,
+            paymentId: payment.id,
+            from: payment.status,
+            to: remote.status,
+          });
+        }
+
+        await this.prisma.payment.update({
+          where: { id: payment.id },
+          data: { lastReconciledAt: new Date() },
+        });
+      } catch (error) {
+        result.errors++;
+        this.metrics.incrementCounter('payment.reconciliation.error', 1, { provider });
+        this.logger.error('Payment status check failed', {
+          traceId,
+          paymentId: payment.id,
+          provider,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    this.metrics.recordTiming('payment.reconciliation.duration', Date.now() - startTime, {});
+    this.logger.info('Payment reconciliation completed', { traceId, ...result });
+
+    return result;
+  }
+
+  /**
+   * Import a provider settlement report and match each line against our
+   * Payment rows by provider payment id
+   */
+  async importSettlementReport(input: SettlementImport, importedBy?: string): Promise<SettlementImportResult> {
+    const traceId = crypto.randomUUID();
+    const checksum = crypto.createHash('sha256').update(input.csv).digest('hex');
+
+    try {
+      const existing = await this.prisma.settlementReport.findUnique({ where: { checksum } });
+      if (existing) {
+        throw new ConflictError(`Settlement report already imported as ${existing.id}`);
+      }
+
+      const records = parseCsv(input.csv);
+      if (records.length === 0) {
+        throw new ValidationError('Settlement report has no rows');
+      }
+
+      const lines = records.map((record, index) => {
+        const providerPaymentId = pick(record, SETTLEMENT_COLUMNS.paymentId);
+        const amount = parseAmount(pick(record, SETTLEMENT_COLUMNS.amount), Boolean(input.amountsInMinorUnits));
+        const currency = pick(record, SETTLEMENT_COLUMNS.currency);
+        const rawStatus = (pick(record, SETTLEMENT_COLUMNS.status) || 'settled').toLowerCase();
+        const status = SETTLEMENT_STATUSES[rawStatus];
+
+        if (!providerPaymentId || Number.isNaN(amount) || !currency || !status) {
+          throw new ValidationError(`Settlement report row ${index + 2} is missing a payment id, amount, currency or known status`);
+        }
+
+        const settledAt = pick(record, SETTLEMENT_COLUMNS.settledAt);
+
+        return {
+          providerPaymentId,
+          amount,
+          currency: currency.toUpperCase(),
+          status,
+          fee: parseAmount(pick(record, SETTLEMENT_COLUMNS.fee), Boolean(input.amountsInMinorUnits)) || 0,
+          tax: parseAmount(pick(record, SETTLEMENT_COLUMNS.tax), Boolean(input.amountsInMinorUnits)) || 0,
+          settlementRef: pick(record, SETTLEMENT_COLUMNS.settlementRef) || null,
+          settledAt: settledAt && !Number.isNaN(Date.parse(settledAt)) ? new Date(settledAt) : null,
+          raw: record,
+        };
+      });
+
+      const payments = await this.prisma.payment.findMany({
+        where: { providerId: { in: lines.map(line => line.providerPaymentId) } },
+      });
+      const paymentsByProviderId = new Map(payments.map(payment => [payment.providerId, payment]));
+
+      const report = await this.prisma.settlementReport.create({
+        data: {
+          provider: input.provider,
+          fileName: input.fileName,
+          checksum,
+          lineCount: lines.length,
+          importedBy,
+        },
+      });
+
+      let matchedCount = 0;
+      let mismatchCount = 0;
+
+      for (const line of lines) {
+        const payment = paymentsByProviderId.get(line.providerPaymentId);
+
+        const settlementLine = await this.prisma.settlementLine.create({
+          data: {
+            reportId: report.id,
+            providerPaymentId: line.providerPaymentId,
+            paymentId: payment?.id,
+            status: line.status.toUpperCase() as PaymentRecordStatus,
+            amount: line.amount,
+            currency: line.currency,
+            fee: line.fee,
+            tax: line.tax,
+            settlementRef: line.settlementRef,
+            settledAt: line.settledAt,
+            raw: line.raw,
+          },
+        });
+
+        const mismatches: PaymentMismatch[] = payment
+          ? comparePayment(payment, line)
+          : [{ type: 'UNKNOWN_PAYMENT', expected: '', actual: line.providerPaymentId }];
+
+        if (mismatches.length === 0) {
+          matchedCount++;
+          continue;
+        }
+
+        mismatchCount++;
+        await this.recordIssues(mismatches, {
+          paymentId: payment?.id,
+          settlementLineId: settlementLine.id,
+          provider: input.provider,
+          source: 'SETTLEMENT',
+        });
+      }
+
+      await this.prisma.settlementReport.update({
+        where: { id: report.id },
+        data: { matchedCount, mismatchCount },
+      });
+
+      this.metrics.incrementCounter('payment.settlement.imported', 1, { provider: input.provider });
+      this.logger.info('Settlement report imported', {
+        traceId,
+        reportId: report.id,
+        provider: input.provider,
+        lineCount: lines.length,
+        matchedCount,
+        mismatchCount,
+      });
+
+      return { reportId: report.id, lineCount: lines.length, matchedCount, mismatchCount };
+    } catch (error) {
+      this.logger.error('Settlement report import failed', {
+        traceId,
+        provider: input.provider,
+        fileName: input.fileName,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Import a carrier's cash on delivery remittance report. Each line is
+   * matched to the COD payment of the shipment with that AWB, or of the
+   * order number when the AWB is unknown, and a remittance for the amount
+   * the shipment collected completes the payment.
+   */
+  async importCodRemittance(input: CodRemittanceImport, importedBy?: string): Promise<SettlementImportResult> {
+    const traceId = crypto.randomUUID();
+    const checksum = crypto.createHash('sha256').update(input.csv).digest('hex');
+
+    try {
+      const existing = await this.prisma.settlementReport.findUnique({ where: { checksum } });
+      if (existing) {
+        throw new ConflictError(`Remittance report already imported as ${existing.id}`);
+      }
+
+      const records = parseCsv(input.csv);
+      if (records.length === 0) {
+        throw new ValidationError('Remittance report has no rows');
+      }
+
+      const lines = records.map((record, index) => {
+        const awb = pick(record, REMITTANCE_COLUMNS.awb);
+        const orderNumber = pick(record, REMITTANCE_COLUMNS.orderNumber);
+        const amount = parseAmount(pick(record, REMITTANCE_COLUMNS.amount), false);
+
+        if ((!awb && !orderNumber) || Number.isNaN(amount)) {
+          throw new ValidationError(`Remittance report row ${index + 2} is missing an AWB or order number, or its amount`);
+        }
+
+        const remittedAt = pick(record, REMITTANCE_COLUMNS.remittedAt);
+
+        return {
+          awb,
+          orderNumber,
+          amount,
+          // Indian carriers remit in rupees and rarely include the column
+          currency: (pick(record, REMITTANCE_COLUMNS.currency) || 'INR').toUpperCase(),
+          remittanceRef: pick(record, REMITTANCE_COLUMNS.remittanceRef) || null,
+          remittedAt: remittedAt && !Number.isNaN(Date.parse(remittedAt)) ? new Date(remittedAt) : null,
+          raw: record,
+        };
+      });
+
+      const codOrderInclude = {
+        payments: { where: { method: 'COD' as const }, orderBy: { createdAt: 'desc' as const } },
+      };
+
+      const shipments = await this.prisma.shipment.findMany({
+        where: { trackingNumber: { in: lines.map(line => line.awb).filter((awb): awb is string => Boolean(awb)) } },
+        include: { order: { include: codOrderInclude } },
+      });
+      const shipmentsByAwb = new Map(shipments.map(shipment => [shipment.trackingNumber, shipment]));
+
+      const orders = await this.prisma.order.findMany({
+        where: { orderNumber: { in: lines.map(line => line.orderNumber).filter((number): number is string => Boolean(number)) } },
+        include: {
+          ...codOrderInclude,
+          shipments: { where: { codAmount: { not: null } }, orderBy: { createdAt: 'desc' } },
+        },
+      });
+      const ordersByNumber = new Map(orders.map(order => [order.orderNumber, order]));
+
+      const report = await this.prisma.settlementReport.create({
+        data: {
+          provider: input.carrier,
+          fileName: input.fileName,
+          checksum,
+          lineCount: lines.length,
+          importedBy,
+        },
+      });
+
+      let matchedCount = 0;
+      let mismatchCount = 0;
+
+      for (const line of lines) {
+        const shipment = line.awb ? shipmentsByAwb.get(line.awb) : undefined;
+        const orderByNumber = !shipment && line.orderNumber ? ordersByNumber.get(line.orderNumber) : undefined;
+        const payment = (shipment?.order || orderByNumber)?.payments[0];
+        // What the carrier was told to collect, falling back to the payment amount
+        const codAmount = shipment ? shipment.codAmount : orderByNumber?.shipments[0]?.codAmount;
+
+        const settlementLine = await this.prisma.settlementLine.create({
+          data: {
+            reportId: report.id,
+            providerPaymentId: line.awb || line.orderNumber!,
+            paymentId: payment?.id,
+            status: 'COMPLETED',
+            amount: line.amount,
+            currency: line.currency,
+            settlementRef: line.remittanceRef,
+            settledAt: line.remittedAt,
+            raw: line.raw,
+          },
+        });
+
+        const mismatches: PaymentMismatch[] = [];
+
+        if (!payment) {
+          mismatches.push({ type: 'UNKNOWN_PAYMENT', expected: '', actual: line.awb || line.orderNumber! });
+        } else {
+          mismatches.push(...comparePayment(
+            {
+              amount: codAmount ?? payment.amount,
+              currency: payment.currency,
+              status: 'COMPLETED',
+            },
+            { amount: line.amount, currency: line.currency, status: 'completed' }
+          ));
+
+          // Cash for a cancelled or failed order has to be refunded, not booked
+          if (!['PENDING', 'COMPLETED'].includes(payment.status)) {
+            mismatches.push({ type: 'STATUS_MISMATCH', expected: payment.status.toLowerCase(), actual: 'completed' });
+          }
+        }
+
+        if (mismatches.length === 0) {
+          if (payment!.status === 'PENDING') {
+            await this.applyProviderStatus(payment!, 'completed', { provider: input.carrier, source: 'COD_REMITTANCE' });
+          }
+
+          matchedCount++;
+          continue;
+        }
+
+        mismatchCount++;
+        await this.recordIssues(mismatches, {
+          paymentId: payment?.id,
+          settlementLineId: settlementLine.id,
+          provider: input.carrier,
+          source: 'COD_REMITTANCE',
+        });
+      }
+
+      await this.prisma.settlementReport.update({
+        where: { id: report.id },
+        data: { matchedCount, mismatchCount },
+      });
+
+      this.metrics.incrementCounter('payment.cod.remittance.imported', 1, { carrier: input.carrier });
+      this.logger.info('COD remittance report imported', {
+        traceId,
+        reportId: report.id,
+        carrier: input.carrier,
+        lineCount: lines.length,
+        matchedCount,
+        mismatchCount,
+      });
+
+      return { reportId: report.id, lineCount: lines.length, matchedCount, mismatchCount };
+    } catch (error) {
+      this.logger.error('COD remittance import failed', {
+        traceId,
+        carrier: input.carrier,
+        fileName: input.fileName,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Move the payment to the provider's status and confirm its order when it
+   * was paid. Money taken for an order that was cancelled in the meantime
+   * has to be refunded, so it is recorded as an issue; returns the number of
+   * issues recorded.
+   */
+  private async applyProviderStatus(
+    payment: Pick<Payment, 'id' | 'orderId'>,
+    status: PaymentStatus,
+    context: { provider: string; source: 'STATUS_CHECK' | 'COD_REMITTANCE' }
+  ): Promise<number> {
+    await this.prisma.payment.update({
+      where: { id: payment.id },
+      data: { status: status.toUpperCase() as PaymentRecordStatus },
+    });
+
+    if (status !== 'completed') {
+      return 0;
+    }
+
+    // Only pending orders move; anything further along was updated by another path
+    const order = await this.prisma.order.findUnique({ where: { id: payment.orderId }, select: { status: true } });
+    if (order?.status === 'PENDING') {
+      await this.orderStatus.transition(payment.orderId, 'confirmed', { type: 'SYSTEM' }, {
+        reason: 'Payment completed at provider (reconciliation)',
+        metadata: { paymentId: payment.id },
+      });
+    } else if (order?.status === 'CANCELLED') {
+      this.logger.warn('Payment captured on a cancelled order', { paymentId: payment.id, orderId: payment.orderId });
+
+      return this.recordIssues(
+        [{ type: 'STATUS_MISMATCH', expected: 'cancelled', actual: 'captured on a cancelled order' }],
+        { paymentId: payment.id, ...context }
+      );
+    }
+
+    return 0;
+  }
+
+  /**
+   * Store mismatches as issues, skipping any that are already open for the
+   * same payment or settlement line so repeated runs do not pile up duplicates
+   */
+  private async recordIssues(
+    mismatches: PaymentMismatch[],
+    context: {
+      paymentId?: string;
+      settlementLineId?: string;
+      provider: string;
+      source: 'STATUS_CHECK' | 'SETTLEMENT' | 'COD_REMITTANCE';
+    }
+  ): Promise<number> {
+    let recorded = 0;
+
+    for (const mismatch of mismatches) {
+      const open = await this.prisma.reconciliationIssue.findFirst({
+        where: {
+          paymentId: context.paymentId ?? null,
+          settlementLineId: context.settlementLineId ?? null,
+          source: context.source,
+          type: mismatch.type,
+          resolvedAt: null,
+        },
+      });
+
+      if (open) {
+        continue;
+      }
+
+      await this.prisma.reconciliationIssue.create({
+        data: {
+          paymentId: context.paymentId,
+          settlementLineId: context.settlementLineId,
+          provider: context.provider,
+          source: context.source,
+          type: mismatch.type,
+          expected: mismatch.expected || null,
+          actual: mismatch.actual,
+        },
+      });
+
+      this.metrics.incrementCounter('payment.reconciliation.issue', 1, { type: mismatch.type, source: context.source });
+      recorded++;
+    }
+
+    return recorded;
+  }
+
+  private resolveProvider(payment: Pick<Payment, 'provider' | 'metadata'>, country: string): PaymentProvider {
+    // Routed payments record their gateway; older ones only have it in metadata
+    const recorded = payment.provider || (payment.metadata as Record<string, any> | null)?.provider;
+    if (recorded && Object.values(REGION_CONFIGS).some(config => config.paymentProvider === recorded)) {
+      return recorded;
+    }
+
+    return (REGION_CONFIGS[country] || REGION_CONFIGS.IN).paymentProvider;
+  }
+
+  private regionForProvider(provider: PaymentProvider): string {
+    const region = Object.keys(REGION_CONFIGS).find(code => REGION_CONFIGS[code].paymentProvider === provider);
+    if (!region) {
+      throw new ValidationError(`No region uses payment provider ${provider}`);
+    }
+
+    return region;
+  }
+}
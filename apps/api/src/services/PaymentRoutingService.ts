@@ -0,0 +1,214 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { ValidationError } from '@newhill/shared/types/api';
+import {
+  PaymentError,
+  PaymentProvider,
+  PaymentProviderError,
+  PaymentProviderHealth,
+  PaymentRoutingRule,
+  PaymentTimeoutError,
+  REGION_CONFIGS,
+} from '@newhill/shared/types/payment';
+import { PaymentAdapterFactory } from '../adapters/payment/PaymentAdapterFactory';
+import { CircuitBreaker } from '../utils/circuitBreaker';
+import { Logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+
+// Consecutive gateway failures before checkout stops sending payments to it
+const FAILURE_THRESHOLD = parseInt(process.env.PAYMENT_CIRCUIT_FAILURE_THRESHOLD || '5', 10);
+
+// How long an open circuit waits before letting a trial payment through
+const RESET_SECONDS = parseInt(process.env.PAYMENT_CIRCUIT_RESET_SECONDS || '30', 10);
+
+// One breaker per gateway for the whole process, shared by every PaymentService
+const breakers = new Map<PaymentProvider, CircuitBreaker>();
+
+function breakerFor(provider: PaymentProvider): CircuitBreaker {
+  let breaker = breakers.get(provider);
+
+  if (!breaker) {
+    // Only outages and timeouts say the gateway is unhealthy; a declined card does not
+    breaker = new CircuitBreaker(
+      FAILURE_THRESHOLD,
+      RESET_SECONDS * 1000,
+      error => error instanceof PaymentProviderError || error instanceof PaymentTimeoutError
+    );
+    breakers.set(provider, breaker);
+  }
+
+  return breaker;
+}
+
+/**
+ * Order a region's active rules into the providers to try. Priorities are
+ * tried lowest first; within a priority the routing key picks a rule in
+ * proportion to its weight, so the same order always lands on the same
+ * gateway, and the rest of that priority follow as failover.
+ */
+export function orderRoutingRules(
+  rules: Pick<PaymentRoutingRule, 'provider' | 'priority' | 'weight'>[],
+  routingKey: string
+): PaymentProvider[] {
+  const priorities = Array.from(new Set(rules.map(rule => rule.priority))).sort((a, b) => a - b);
+  const bucket = crypto.createHash('sha256').update(routingKey).digest().readUInt32BE(0);
+
+  return priorities.flatMap(priority => {
+    const group = rules
+      .filter(rule => rule.priority === priority && rule.weight > 0)
+      .sort((a, b) => b.weight - a.weight || a.provider.localeCompare(b.provider));
+
+    const totalWeight = group.reduce((sum, rule) => sum + rule.weight, 0);
+    if (totalWeight === 0) {
+      return [];
+    }
+
+    let point = bucket % totalWeight;
+    const chosen = group.find(rule => {
+      point -= rule.weight;
+      return point < 0;
+    })!;
+
+    return [chosen, ...group.filter(rule => rule !== chosen)].map(rule => rule.provider);
+  });
+}
+
+/**
+ * Decides which gateway takes a payment. Routing rules per region and
+ * currency give primary and secondary providers and percentage splits;
+ * gateways whose circuit is open are skipped until they recover.
+ */
+export class PaymentRoutingService {
+  private prisma: PrismaClient;
+  private logger: Logger;
+  private metrics: typeof MetricsCollector;
+
+  constructor(prisma: PrismaClient, logger: Logger, metrics: typeof MetricsCollector) {
+    this.prisma = prisma;
+    this.logger = logger;
+    this.metrics = metrics;
+  }
+
+  /**
+   * Providers to try for a payment, in order. Without rules the region's
+   * default provider from REGION_CONFIGS is used, as before routing existed.
+   */
+  async selectProviders(region: string, currency: string, routingKey: string): Promise<PaymentProvider[]> {
+    const rules = await this.prisma.paymentRoutingRule.findMany({
+      where: { region, currency: currency.toUpperCase(), isActive: true },
+    });
+
+    const candidates = rules.length > 0
+      ? orderRoutingRules(rules as PaymentRoutingRule[], routingKey)
+          .filter(provider => PaymentAdapterFactory.supportsRegion(provider, region))
+      : [REGION_CONFIGS[region]?.paymentProvider].filter((provider): provider is PaymentProvider => Boolean(provider));
+
+    const healthy = candidates.filter(provider => breakerFor(provider).isAvailable());
+
+    if (healthy.length === 0) {
+      this.metrics.incrementCounter('payment.routing.unavailable', 1, { region });
+      throw new PaymentError(
+        'NO_PROVIDER_AVAILABLE',
+        candidates.length > 0
+          ? `Every payment provider for ${region} is unavailable`
+          : `No payment provider is routed for ${region} in ${currency}`
+      );
+    }
+
+    if (healthy.length < candidates.length) {
+      this.logger.warn('Skipping unhealthy payment providers', {
+        region,
+        currency,
+        skipped: candidates.filter(provider => !healthy.includes(provider)),
+      });
+    }
+
+    return healthy;
+  }
+
+  /**
+   * Call a gateway through its circuit breaker
+   */
+  async execute<T>(provider: PaymentProvider, operation: () => Promise<T>): Promise<T> {
+    const breaker = breakerFor(provider);
+    const before = breaker.getState();
+
+    try {
+      return await breaker.execute(operation);
+    } finally {
+      const after = breaker.getState();
+      if (after !== before) {
+        this.metrics.incrementCounter('payment.circuit.state_change', 1, { provider, state: after });
+        this.logger.warn('Payment provider circuit changed state', { provider, from: before, to: after });
+      }
+    }
+  }
+
+  async listRules(region?: string): Promise<PaymentRoutingRule[]> {
+    const rules = await this.prisma.paymentRoutingRule.findMany({
+      where: region ? { region } : undefined,
+      orderBy: [{ region: 'asc' }, { currency: 'asc' }, { priority: 'asc' }, { weight: 'desc' }],
+    });
+
+    return rules.map(rule => ({
+      region: rule.region,
+      currency: rule.currency,
+      provider: rule.provider as PaymentProvider,
+      priority: rule.priority,
+      weight: rule.weight,
+      isActive: rule.isActive,
+    }));
+  }
+
+  /**
+   * Replace every rule for a region and currency in one go, so a change
+   * never leaves checkout with half a routing table
+   */
+  async replaceRules(
+    region: string,
+    currency: string,
+    rules: Pick<PaymentRoutingRule, 'provider' | 'priority' | 'weight' | 'isActive'>[]
+  ): Promise<PaymentRoutingRule[]> {
+    const regionConfig = REGION_CONFIGS[region];
+    if (!regionConfig) {
+      throw new ValidationError(`Unsupported region: ${region}`);
+    }
+
+    if (currency.toUpperCase() !== regionConfig.currency) {
+      throw new ValidationError(`${region} takes payments in ${regionConfig.currency}, not ${currency}`);
+    }
+
+    const unsupported = rules.filter(rule => !PaymentAdapterFactory.supportsRegion(rule.provider, region));
+    if (unsupported.length > 0) {
+      throw new ValidationError(
+        `${unsupported.map(rule => rule.provider).join(', ')} cannot take payments in ${region}`
+      );
+    }
+
+    if (new Set(rules.map(rule => rule.provider)).size !== rules.length) {
+      throw new ValidationError('Each provider can appear only once per region and currency');
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.paymentRoutingRule.deleteMany({ where: { region, currency: regionConfig.currency } }),
+      this.prisma.paymentRoutingRule.createMany({
+        data: rules.map(rule => ({ ...rule, region, currency: regionConfig.currency })),
+      }),
+    ]);
+
+    this.logger.info('Payment routing rules replaced', {
+      region,
+      currency: regionConfig.currency,
+      providers: rules.map(rule => `${rule.provider}:${rule.priority}:${rule.weight}`),
+    });
+
+    return this.listRules(region);
+  }
+
+  getProviderHealth(): PaymentProviderHealth[] {
+    return PaymentAdapterFactory.getSupportedProviders().map(provider => {
+      const breaker = breakerFor(provider);
+      return { provider, state: breaker.getState(), failures: breaker.getFailures() };
+    });
+  }
+}
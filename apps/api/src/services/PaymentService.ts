@@ -1,5 +1,5 @@
 import crypto from 'crypto';
-import { PrismaClient } from '@prisma/client';
+import { PaymentStatus as PaymentRecordStatus, PrismaClient } from '@prisma/client';
 import {
   PaymentRequest,
   PaymentResponse,
@@ -12,19 +12,44 @@ import {
   PaymentProvider,
   REGION_CONFIGS,
 } from '@newhill/shared/types/payment';
+import { OrderTransitionError } from '@newhill/shared/types/order';
 import { PaymentAdapterFactory } from '../adapters/payment/PaymentAdapterFactory';
+import { OrderStatusService } from './OrderStatusService';
+import { PaymentRoutingService } from './PaymentRoutingService';
 import { Logger } from '../utils/logger';
 import { MetricsCollector } from '../utils/metrics';
 
+// The statuses a webhook may move a payment on from to reach each status.
+// Payments only go forward, so a late or replayed event cannot reopen a
+// payment that has since failed or been refunded.
+const WEBHOOK_STATUS_FROM: Record<PaymentRecordStatus, PaymentRecordStatus[]> = {
+  PENDING: [],
+  PROCESSING: ['PENDING'],
+  COMPLETED: ['PENDING', 'PROCESSING'],
+  FAILED: ['PENDING', 'PROCESSING'],
+  CANCELLED: ['PENDING', 'PROCESSING'],
+  REFUNDED: ['COMPLETED'],
+};
+
 export class PaymentService {
   private prisma: PrismaClient;
   private logger: Logger;
-  private metrics: MetricsCollector;
-
-  constructor(prisma: PrismaClient, logger: Logger, metrics: MetricsCollector) {
+  private metrics: typeof MetricsCollector;
+  private orderStatus: OrderStatusService;
+  private routing: PaymentRoutingService;
+
+  constructor(
+    prisma: PrismaClient,
+    logger: Logger,
+    metrics: typeof MetricsCollector,
+    orderStatus: OrderStatusService = new OrderStatusService(prisma, logger, metrics),
+    routing: PaymentRoutingService = new PaymentRoutingService(prisma, logger, metrics)
+  ) {
     this.prisma = prisma;
     this.logger = logger;
     this.metrics = metrics;
+    this.orderStatus = orderStatus;
+    this.routing = routing;
   }
 
   async initiatePayment(request: PaymentRequest): Promise<PaymentResponse> {
@@ -43,9 +68,7 @@ export class PaymentService {
       // Validate request
       await this.validatePaymentRequest(request);
 
-      // Get payment adapter based on region
       const region = this.detectRegion(request.billingAddress.country);
-      const adapter = this.getPaymentAdapter(region);
 
       // Check for duplicate payment (idempotency)
       const existingPayment = await this.findExistingPayment(request.idempotencyKey);
@@ -61,28 +84,37 @@ export class PaymentService {
           status: existingPayment.status as PaymentStatus,
           amount: Number(existingPayment.amount),
           currency: existingPayment.currency,
-          provider: adapter.provider,
+          provider: this.recordedProvider(existingPayment, region),
           metadata: existingPayment.metadata as any,
         };
       }
 
+      // Routing rules and provider health decide which gateways to try, in order
+      const providers = await this.routing.selectProviders(region, request.currency, request.orderId);
+
       // Create payment record in database
-      const paymentRecord = await this.createPaymentRecord(request, adapter.provider);
+      const paymentRecord = await this.createPaymentRecord(request, providers[0]);
 
-      // Create payment with provider
-      const paymentResponse = await this.createPaymentWithProvider(adapter, request, traceId);
+      // Create payment with the first gateway that answers
+      const { adapter, response: paymentResponse } = await this.createPaymentWithFailover(
+        providers,
+        region,
+        request,
+        paymentRecord.id,
+        traceId
+      );
 
       // Update payment record with provider response
       await this.updatePaymentRecord(paymentRecord.id, paymentResponse);
 
       // Log metrics
-      this.metrics.increment('payment.initiated', {
+      this.metrics.incrementCounter('payment.initiated', 1, {
         provider: adapter.provider,
         region,
         currency: request.currency,
       });
 
-      this.metrics.timing('payment.initiation.duration', Date.now() - startTime, {
+      this.metrics.recordTiming('payment.initiation.duration', Date.now() - startTime, {
         provider: adapter.provider,
         region,
       });
@@ -105,7 +137,7 @@ export class PaymentService {
         currency: request.currency,
       });
 
-      this.metrics.increment('payment.initiation.failed', {
+      this.metrics.incrementCounter('payment.initiation.failed', 1, {
         error: error instanceof Error ? error.constructor.name : 'UnknownError',
         region: this.detectRegion(request.billingAddress.country),
       });
@@ -126,16 +158,15 @@ export class PaymentService {
       // Find payment record
       const paymentRecord = await this.prisma.payment.findFirst({
         where: { providerId: paymentId },
-        include: { order: true },
+        include: { order: { include: { shippingAddress: true } } },
       });
 
       if (!paymentRecord) {
         throw new PaymentError('PAYMENT_NOT_FOUND', 'Payment not found');
       }
 
-      // Get payment adapter
-      const region = this.detectRegion(paymentRecord.order.shippingAddress.country);
-      const adapter = this.getPaymentAdapter(region);
+      // Verify with the gateway that took the payment
+      const adapter = this.getRecordedAdapter(paymentRecord);
 
       // Verify payment with provider
       const paymentResponse = await this.verifyPaymentWithProvider(adapter, paymentId, signature, traceId);
@@ -145,7 +176,7 @@ export class PaymentService {
 
       // Update order status if payment completed
       if (paymentResponse.status === 'completed') {
-        await this.updateOrderStatus(paymentRecord.orderId, 'confirmed');
+        await this.updateOrderStatus(paymentRecord.orderId, 'confirmed', 'Payment verified');
       }
 
       this.logger.info('Payment verified successfully', {
@@ -168,6 +199,24 @@ export class PaymentService {
   }
 
   async processWebhook(provider: PaymentProvider, payload: any, signature: string): Promise<PaymentWebhook> {
+    if (!this.verifyWebhook(provider, payload, signature)) {
+      throw new PaymentError('INVALID_WEBHOOK_SIGNATURE', 'Invalid webhook signature');
+    }
+
+    return this.applyWebhook(provider, payload);
+  }
+
+  verifyWebhook(provider: PaymentProvider, payload: any, signature: string): boolean {
+    const adapter = this.getPaymentAdapter(this.detectRegionFromProvider(provider), provider);
+    return adapter.validateWebhook(payload, signature);
+  }
+
+  /**
+   * Apply a webhook whose signature has already been checked. The webhook
+   * inbox calls this for new events, retries and replays, so applying the
+   * same payload twice must leave the payment and order as applying it once.
+   */
+  async applyWebhook(provider: PaymentProvider, payload: any): Promise<PaymentWebhook> {
     const traceId = crypto.randomUUID();
 
     try {
@@ -177,22 +226,9 @@ export class PaymentService {
         event: payload.event,
       });
 
-      // Get payment adapter
-      const region = this.detectRegionFromProvider(provider);
-      const adapter = this.getPaymentAdapter(region);
-
-      // Validate webhook signature
-      if (!adapter.validateWebhook(payload, signature)) {
-        throw new PaymentError('INVALID_WEBHOOK_SIGNATURE', 'Invalid webhook signature');
-      }
-
-      // Process webhook
+      const adapter = this.getPaymentAdapter(this.detectRegionFromProvider(provider), provider);
       const webhook = await adapter.processWebhook(payload);
 
-      // Store webhook in database
-      await this.storeWebhook(webhook);
-
-      // Process webhook event
       await this.processWebhookEvent(webhook, traceId);
 
       this.logger.info('Payment webhook processed successfully', {
@@ -215,6 +251,13 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Refund a payment in full, or partially when an amount is given. Partial
+   * refunds accumulate on the payment; the payment and order only become
+   * REFUNDED once the whole amount has been returned. The amount is claimed
+   * on the payment before the gateway is asked, so two refunds at once
+   * cannot both pass the refundable check.
+   */
   async refundPayment(paymentId: string, amount?: number, reason?: string): Promise<PaymentResponse> {
     const traceId = crypto.randomUUID();
 
@@ -229,25 +272,79 @@ export class PaymentService {
       // Find payment record
       const paymentRecord = await this.prisma.payment.findFirst({
         where: { providerId: paymentId },
-        include: { order: true },
+        include: { order: { include: { shippingAddress: true } } },
       });
 
       if (!paymentRecord) {
         throw new PaymentError('PAYMENT_NOT_FOUND', 'Payment not found');
       }
 
-      // Get payment adapter
-      const region = this.detectRegion(paymentRecord.order.shippingAddress.country);
-      const adapter = this.getPaymentAdapter(region);
+      const refundable = Math.round((Number(paymentRecord.amount) - Number(paymentRecord.refundedAmount)) * 100) / 100;
+      const refundAmount = amount ?? refundable;
 
-      // Process refund with provider
-      const refundResponse = await this.refundPaymentWithProvider(adapter, paymentId, amount, reason, traceId);
+      if (refundAmount <= 0 || refundAmount - refundable > 0.005) {
+        throw new PaymentError('INVALID_REFUND_AMOUNT', `Refund amount must be between 0 and ${refundable.toFixed(2)}`);
+      }
 
-      // Update payment record
-      await this.updatePaymentRecord(paymentRecord.id, refundResponse);
+      // Guarded on the amount read above so a concurrent refund cannot go over the payment
+      const { count } = await this.prisma.payment.updateMany({
+        where: { id: paymentRecord.id, refundedAmount: paymentRecord.refundedAmount },
+        data: { refundedAmount: { increment: refundAmount } },
+      });
 
-      // Update order status
-      await this.updateOrderStatus(paymentRecord.orderId, 'refunded');
+      if (count === 0) {
+        throw new PaymentError('REFUND_CONFLICT', 'Payment was refunded by another request, please retry');
+      }
+
+      // Refunds go back through the gateway that took the payment
+      const adapter = this.getRecordedAdapter(paymentRecord);
+
+      // Process refund with provider, giving the claimed amount back if it refuses
+      let refundResponse: PaymentResponse;
+      try {
+        refundResponse = await this.refundPaymentWithProvider(adapter, paymentId, refundAmount, reason, traceId);
+      } catch (error) {
+        await this.prisma.payment.update({
+          where: { id: paymentRecord.id },
+          data: { refundedAmount: { decrement: refundAmount } },
+        });
+        throw error;
+      }
+
+      // Record the refund without touching the provider payment id
+      const refundedAmount = Math.round((Number(paymentRecord.refundedAmount) + refundAmount) * 100) / 100;
+      const fullyRefunded = refundedAmount >= Number(paymentRecord.amount) - 0.005;
+
+      await this.prisma.$transaction(async tx => {
+        // Locked so refunds recorded at once keep each other's entries
+        await tx.$queryRaw`SELECT "id" FROM "Payment" WHERE "id" = ${paymentRecord.id} FOR UPDATE`;
+        const current = await tx.payment.findUniqueOrThrow({ where: { id: paymentRecord.id }, select: { metadata: true } });
+        const metadata = (current.metadata as Record<string, any> | null) || {};
+
+        await tx.payment.update({
+          where: { id: paymentRecord.id },
+          data: {
+            ...(fullyRefunded && { status: 'REFUNDED' }),
+            metadata: {
+              ...metadata,
+              refunds: [
+                ...(metadata.refunds || []),
+                {
+                  amount: refundAmount,
+                  reason,
+                  refundId: refundResponse.metadata?.refundId,
+                  createdAt: new Date().toISOString(),
+                },
+              ],
+            },
+          },
+        });
+      });
+
+      // Only a full refund refunds the order; partial refunds come from returns
+      if (fullyRefunded) {
+        await this.updateOrderStatus(paymentRecord.orderId, 'refunded', reason || 'Payment refunded in full');
+      }
 
       this.logger.info('Payment refund processed successfully', {
         traceId,
@@ -296,14 +393,41 @@ export class PaymentService {
     }
   }
 
-  private getPaymentAdapter(region: string): PaymentAdapter {
+  private getPaymentAdapter(region: string, provider: PaymentProvider = REGION_CONFIGS[region]?.paymentProvider): PaymentAdapter {
     try {
-      return PaymentAdapterFactory.getAdapter(region, process.env.NODE_ENV === 'production' ? 'live' : 'sandbox');
+      return PaymentAdapterFactory.getProviderAdapter(
+        provider,
+        region,
+        process.env.NODE_ENV === 'production' ? 'live' : 'sandbox'
+      );
     } catch (error) {
       throw new PaymentError('UNSUPPORTED_REGION', `Payment not supported for region: ${region}`);
     }
   }
 
+  /**
+   * The gateway recorded on a payment. Payments from before routing only
+   * have it in their metadata, or not at all when it was the region default.
+   */
+  private recordedProvider(
+    payment: { provider: string | null; metadata: unknown },
+    region: string
+  ): PaymentProvider {
+    const provider = payment.provider || (payment.metadata as Record<string, any> | null)?.provider;
+    return PaymentAdapterFactory.getSupportedProviders().includes(provider)
+      ? provider
+      : REGION_CONFIGS[region].paymentProvider;
+  }
+
+  private getRecordedAdapter(payment: {
+    provider: string | null;
+    metadata: unknown;
+    order: { shippingAddress: { country: string } };
+  }): PaymentAdapter {
+    const region = this.detectRegion(payment.order.shippingAddress.country);
+    return this.getPaymentAdapter(region, this.recordedProvider(payment, region));
+  }
+
   private detectRegion(countryCode: string): string {
     const regionMap: Record<string, string> = {
       'IN': 'IN',
@@ -347,6 +471,7 @@ export class PaymentService {
         amount: request.amount,
         currency: request.currency,
         status: 'PENDING',
+        provider,
         metadata: {
           idempotencyKey: request.idempotencyKey,
           customer: request.customer,
@@ -359,17 +484,66 @@ export class PaymentService {
     });
   }
 
+  /**
+   * Try each routed gateway in turn until one creates the payment. Only
+   * outages and timeouts fail over; a rejected request would be rejected
+   * by the next gateway too.
+   */
+  private async createPaymentWithFailover(
+    providers: PaymentProvider[],
+    region: string,
+    request: PaymentRequest,
+    paymentRecordId: string,
+    traceId: string
+  ): Promise<{ adapter: PaymentAdapter; response: PaymentResponse }> {
+    for (const [index, provider] of providers.entries()) {
+      const adapter = this.getPaymentAdapter(region, provider);
+
+      if (index > 0) {
+        // The row must name the gateway that actually holds the payment
+        await this.prisma.payment.update({
+          where: { id: paymentRecordId },
+          data: { provider },
+        });
+      }
+
+      try {
+        const response = await this.routing.execute(provider, () =>
+          this.createPaymentWithProvider(adapter, request, traceId)
+        );
+
+        return { adapter, response };
+      } catch (error) {
+        const canFailOver = error instanceof PaymentProviderError || error instanceof PaymentTimeoutError;
+        if (!canFailOver || index === providers.length - 1) {
+          throw error;
+        }
+
+        this.metrics.incrementCounter('payment.failover', 1, { from: provider, to: providers[index + 1] });
+        this.logger.warn('Payment provider failed, failing over', {
+          traceId,
+          orderId: request.orderId,
+          from: provider,
+          to: providers[index + 1],
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    throw new PaymentError('NO_PROVIDER_AVAILABLE', `No payment provider available for region: ${region}`);
+  }
+
   private async createPaymentWithProvider(adapter: PaymentAdapter, request: PaymentRequest, traceId: string): Promise<PaymentResponse> {
     try {
       return await adapter.createPayment(request);
     } catch (error) {
       if (error instanceof PaymentTimeoutError) {
-        this.metrics.increment('payment.provider.timeout', {
+        this.metrics.incrementCounter('payment.provider.timeout', 1, {
           provider: adapter.provider,
           region: adapter.region,
         });
       } else if (error instanceof PaymentProviderError) {
-        this.metrics.increment('payment.provider.error', {
+        this.metrics.incrementCounter('payment.provider.error', 1, {
           provider: adapter.provider,
           region: adapter.region,
           errorCode: error.code,
@@ -385,12 +559,12 @@ export class PaymentService {
       return await adapter.verifyPayment(paymentId, signature);
     } catch (error) {
       if (error instanceof PaymentTimeoutError) {
-        this.metrics.increment('payment.verification.timeout', {
+        this.metrics.incrementCounter('payment.verification.timeout', 1, {
           provider: adapter.provider,
           region: adapter.region,
         });
       } else if (error instanceof PaymentProviderError) {
-        this.metrics.increment('payment.verification.error', {
+        this.metrics.incrementCounter('payment.verification.error', 1, {
           provider: adapter.provider,
           region: adapter.region,
           errorCode: error.code,
@@ -406,12 +580,12 @@ export class PaymentService {
       return await adapter.refundPayment(paymentId, amount, reason);
     } catch (error) {
       if (error instanceof PaymentTimeoutError) {
-        this.metrics.increment('payment.refund.timeout', {
+        this.metrics.incrementCounter('payment.refund.timeout', 1, {
           provider: adapter.provider,
           region: adapter.region,
         });
       } else if (error instanceof PaymentProviderError) {
-        this.metrics.increment('payment.refund.error', {
+        this.metrics.incrementCounter('payment.refund.error', 1, {
           provider: adapter.provider,
           region: adapter.region,
           errorCode: error.code,
@@ -437,30 +611,76 @@ export class PaymentService {
     });
   }
 
-  private async updateOrderStatus(orderId: string, status: string) {
-    await this.prisma.order.update({
-      where: { id: orderId },
+  private async updateOrderStatus(orderId: string, status: string, reason: string) {
+    try {
+      await this.orderStatus.transition(orderId, status, { type: 'SYSTEM' }, { reason });
+    } catch (error) {
+      // The payment outcome stands even when the order has moved on; leave the order for an admin
+      if (!(error instanceof OrderTransitionError)) {
+        throw error;
+      }
+
+      this.logger.warn('Order status not updated after payment change', {
+        orderId,
+        status,
+        error: error.message,
+      });
+    }
+  }
+
+  private async processWebhookEvent(webhook: PaymentWebhook, traceId: string) {
+    // Events that are not about a payment leave every payment alone
+    if (!webhook.paymentId || !webhook.status) {
+      this.logger.info('Payment webhook names no payment status', {
+        traceId,
+        webhookId: webhook.id,
+        provider: webhook.provider,
+        event: webhook.event,
+      });
+      return;
+    }
+
+    const status = webhook.status.toUpperCase() as PaymentRecordStatus;
+
+    await this.prisma.payment.updateMany({
+      where: { providerId: webhook.paymentId, status: { in: WEBHOOK_STATUS_FROM[status] } },
       data: {
-        status: status.toUpperCase() as any,
+        status,
         updatedAt: new Date(),
       },
     });
-  }
 
-  private async storeWebhook(webhook: PaymentWebhook) {
-    // Store webhook in database for audit trail
-    // Implementation depends on your webhook storage strategy
-  }
+    if (status !== 'COMPLETED') {
+      return;
+    }
 
-  private async processWebhookEvent(webhook: PaymentWebhook, traceId: string) {
-    // Process webhook event based on event type
-    // This could include updating order status, sending notifications, etc.
-    this.logger.info('Processing webhook event', {
-      traceId,
-      webhookId: webhook.id,
-      event: webhook.event,
-      provider: webhook.provider,
+    // Confirm on what the payment is now, so a replay after a refund confirms nothing
+    const payment = await this.prisma.payment.findFirst({
+      where: { providerId: webhook.paymentId },
     });
+
+    if (!payment || payment.status !== 'COMPLETED') {
+      return;
+    }
+
+    // Webhooks arrive late and out of order; a transition the order has
+    // already moved past is logged and skipped instead of failing the webhook
+    try {
+      await this.orderStatus.transition(payment.orderId, 'confirmed', { type: 'WEBHOOK', id: webhook.provider }, {
+        reason: `${webhook.provider} webhook`,
+      });
+    } catch (error) {
+      if (!(error instanceof OrderTransitionError)) {
+        throw error;
+      }
+
+      this.logger.warn('Webhook order transition skipped', {
+        traceId,
+        orderId: payment.orderId,
+        provider: webhook.provider,
+        error: error.message,
+      });
+    }
   }
 }
 
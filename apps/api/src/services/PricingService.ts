@@ -0,0 +1,410 @@
+import { PrismaClient } from '@prisma/client';
+import { NotFoundError, ValidationError } from '@newhill/shared/types/api';
+import {
+  PriceList,
+  PriceListItem,
+  PriceSource,
+  PriceTierBreak,
+  ResolvedPrice,
+  VariantPriceSheet,
+} from '@newhill/shared/types/pricing';
+import { accountScope } from './OrganizationService';
+import { Logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+
+export interface PriceLineInput {
+  variantId: string;
+  quantity: number;
+}
+
+export interface PriceListInput {
+  name: string;
+  currency: string;
+  validFrom?: string;
+  validUntil?: string | null;
+  isActive: boolean;
+  notes?: string;
+  items: PriceListItem[];
+}
+
+// The contract prices an approved account has in one currency today
+type ContractPrices = {
+  priceListId: string;
+  prices: Map<string, number>;
+};
+
+type BuyerPricing = {
+  isB2B: boolean;
+  contract: ContractPrices | null;
+};
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * A variant's volume ladder, lowest break first. Each step runs up to the
+ * next step's minWeightKg.
+ */
+export function buildTierBreaks(tiers: Array<{ minWeightKg: number; unitPrice: number }>): PriceTierBreak[] {
+  const sorted = [...tiers].sort((a, b) => a.minWeightKg - b.minWeightKg);
+
+  return sorted.map((tier, index) => ({
+    minWeightKg: tier.minWeightKg,
+    ...(index < sorted.length - 1 ? { maxWeightKg: sorted[index + 1].minWeightKg } : {}),
+    unitPrice: tier.unitPrice,
+  }));
+}
+
+/**
+ * The unit price for a line: the lowest of the list price, the volume break
+ * the line's weight reaches and the buyer's contract price. On a tie the
+ * contract, then the tier, is named as the source.
+ */
+export function pickUnitPrice(
+  listPrice: number,
+  lineWeightKg: number,
+  tiers: PriceTierBreak[],
+  contractPrice?: number
+): { unitPrice: number; source: PriceSource } {
+  const tier = [...tiers]
+    .sort((a, b) => b.minWeightKg - a.minWeightKg)
+    .find(candidate => lineWeightKg >= candidate.minWeightKg);
+
+  const candidates: Array<{ unitPrice: number; source: PriceSource }> = [
+    ...(contractPrice !== undefined ? [{ unitPrice: contractPrice, source: 'CONTRACT' as const }] : []),
+    ...(tier ? [{ unitPrice: tier.unitPrice, source: 'TIER' as const }] : []),
+    { unitPrice: listPrice, source: 'LIST' },
+  ];
+
+  return candidates.reduce((best, candidate) => (candidate.unitPrice < best.unitPrice ? candidate : best));
+}
+
+/**
+ * Single place every sale is priced: products, cart, checkout and B2B
+ * quotes. Retail buyers pay the list price; approved B2B accounts also get
+ * volume tier breaks and the prices of their contract price list.
+ */
+export class PricingService {
+  private prisma: PrismaClient;
+  private logger: Logger;
+  private metrics: typeof MetricsCollector;
+
+  constructor(prisma: PrismaClient, logger: Logger, metrics: typeof MetricsCollector) {
+    this.prisma = prisma;
+    this.logger = logger;
+    this.metrics = metrics;
+  }
+
+  /**
+   * Unit prices for a set of lines, in the order given
+   */
+  async resolve(userId: string | undefined, lines: PriceLineInput[], currency: string): Promise<ResolvedPrice[]> {
+    if (lines.length === 0) {
+      return [];
+    }
+
+    const variantIds = Array.from(new Set(lines.map(line => line.variantId)));
+    const [variants, buyer, conversionRate] = await Promise.all([
+      this.loadVariants(variantIds),
+      this.getBuyerPricing(userId, variantIds, currency),
+      this.getConversionRate(currency),
+    ]);
+
+    return lines.map(line => {
+      const variant = variants.get(line.variantId);
+      if (!variant) {
+        throw new NotFoundError('Product variant');
+      }
+
+      const listPrice = this.listPrice(variant, currency, conversionRate);
+      const tiers = buyer.isB2B ? this.tiersInCurrency(variant, currency, conversionRate) : [];
+      const contractPrice = buyer.contract?.prices.get(line.variantId);
+      const lineWeightKg = (variant.weightInGrams * line.quantity) / 1000;
+      const { unitPrice, source } = pickUnitPrice(listPrice, lineWeightKg, tiers, contractPrice);
+
+      return {
+        variantId: line.variantId,
+        quantity: line.quantity,
+        currency,
+        unitPrice,
+        listPrice,
+        source,
+        ...(source === 'CONTRACT' ? { priceListId: buyer.contract!.priceListId } : {}),
+      };
+    });
+  }
+
+  /**
+   * What a buyer would pay for each variant before choosing a quantity
+   */
+  async getPriceSheets(userId: string | undefined, variantIds: string[], currency: string): Promise<VariantPriceSheet[]> {
+    const [variants, buyer, conversionRate] = await Promise.all([
+      this.loadVariants(variantIds),
+      this.getBuyerPricing(userId, variantIds, currency),
+      this.getConversionRate(currency),
+    ]);
+
+    return variantIds.filter(id => variants.has(id)).map(id => {
+      const variant = variants.get(id)!;
+      const contractPrice = buyer.contract?.prices.get(id);
+
+      return {
+        variantId: id,
+        weightInGrams: variant.weightInGrams,
+        currency,
+        listPrice: this.listPrice(variant, currency, conversionRate),
+        tiers: buyer.isB2B ? this.tiersInCurrency(variant, currency, conversionRate) : [],
+        ...(contractPrice !== undefined ? { contractPrice, priceListId: buyer.contract!.priceListId } : {}),
+      };
+    });
+  }
+
+  /**
+   * Replace a variant's volume breaks in one currency. An empty list removes them.
+   */
+  async replaceTiers(
+    variantId: string,
+    currency: string,
+    tiers: Array<{ minWeightKg: number; unitPrice: number }>
+  ): Promise<PriceTierBreak[]> {
+    const variant = await this.prisma.productVariant.findUnique({ where: { id: variantId } });
+    if (!variant) {
+      throw new NotFoundError('Product variant');
+    }
+
+    if (new Set(tiers.map(tier => tier.minWeightKg)).size !== tiers.length) {
+      throw new ValidationError('Each tier needs a different minimum weight');
+    }
+
+    // A bigger order must never cost more per unit than a smaller one
+    const ladder = buildTierBreaks(tiers);
+    const rising = ladder.find((tier, index) => index > 0 && tier.unitPrice > ladder[index - 1].unitPrice);
+    if (rising) {
+      throw new ValidationError(`The ${rising.minWeightKg} kg tier is priced above the tier before it`);
+    }
+
+    const code = currency.toUpperCase();
+    await this.prisma.$transaction([
+      this.prisma.priceTier.deleteMany({ where: { variantId, currency: code } }),
+      this.prisma.priceTier.createMany({
+        data: tiers.map(tier => ({ variantId, currency: code, ...tier })),
+      }),
+    ]);
+
+    this.logger.info('Price tiers replaced', {
+      variantId,
+      currency: code,
+      tiers: ladder.map(tier => `${tier.minWeightKg}kg:${tier.unitPrice}`),
+    });
+
+    return ladder;
+  }
+
+  async listPriceLists(): Promise<PriceList[]> {
+    const lists = await this.prisma.priceList.findMany({
+      include: { items: true, accounts: { select: { id: true } } },
+      orderBy: [{ isActive: 'desc' }, { name: 'asc' }],
+    });
+
+    return lists.map(list => this.serializePriceList(list));
+  }
+
+  /**
+   * Create a price list, or replace an existing one's window and prices
+   */
+  async savePriceList(id: string | undefined, input: PriceListInput): Promise<PriceList> {
+    const validFrom = input.validFrom ? new Date(input.validFrom) : new Date();
+    const validUntil = input.validUntil ? new Date(input.validUntil) : null;
+
+    if (validUntil && validUntil <= validFrom) {
+      throw new ValidationError('validUntil must be after validFrom');
+    }
+
+    if (new Set(input.items.map(item => item.variantId)).size !== input.items.length) {
+      throw new ValidationError('Each variant can appear only once in a price list');
+    }
+
+    const variantCount = await this.prisma.productVariant.count({
+      where: { id: { in: input.items.map(item => item.variantId) } },
+    });
+    if (variantCount !== input.items.length) {
+      throw new ValidationError('Price list contains unknown variants');
+    }
+
+    const data = {
+      name: input.name,
+      currency: input.currency.toUpperCase(),
+      validFrom,
+      validUntil,
+      isActive: input.isActive,
+      notes: input.notes,
+    };
+
+    const list = await this.prisma.$transaction(async tx => {
+      if (id) {
+        const existing = await tx.priceList.findUnique({ where: { id } });
+        if (!existing) {
+          throw new NotFoundError('Price list');
+        }
+
+        await tx.priceListItem.deleteMany({ where: { priceListId: id } });
+      }
+
+      const saved = id
+        ? await tx.priceList.update({ where: { id }, data })
+        : await tx.priceList.create({ data });
+
+      await tx.priceListItem.createMany({
+        data: input.items.map(item => ({ priceListId: saved.id, ...item })),
+      });
+
+      return tx.priceList.findUniqueOrThrow({
+        where: { id: saved.id },
+        include: { items: true, accounts: { select: { id: true } } },
+      });
+    });
+
+    this.logger.info('Price list saved', {
+      priceListId: list.id,
+      name: list.name,
+      currency: list.currency,
+      items: list.items.length,
+    });
+
+    return this.serializePriceList(list);
+  }
+
+  /**
+   * Put an approved B2B account on a price list, or take it off with null
+   */
+  async assignPriceList(applicationId: string, priceListId: string | null): Promise<void> {
+    const application = await this.prisma.b2BApplication.findUnique({ where: { id: applicationId } });
+    if (!application) {
+      throw new NotFoundError('B2B application');
+    }
+
+    if (priceListId && application.status !== 'APPROVED') {
+      throw new ValidationError('Only approved B2B accounts can have contract prices');
+    }
+
+    if (priceListId && !(await this.prisma.priceList.findUnique({ where: { id: priceListId } }))) {
+      throw new NotFoundError('Price list');
+    }
+
+    await this.prisma.b2BApplication.update({
+      where: { id: applicationId },
+      data: { priceListId },
+    });
+
+    this.metrics.incrementCounter('pricing.price_list.assigned', 1, { assigned: priceListId ? 'true' : 'false' });
+    this.logger.info('Price list assigned', { applicationId, priceListId });
+  }
+
+  private async loadVariants(variantIds: string[]) {
+    const variants = await this.prisma.productVariant.findMany({
+      where: { id: { in: variantIds } },
+      include: { currencyPrices: true, priceTiers: true },
+    });
+
+    return new Map(variants.map(variant => [variant.id, variant]));
+  }
+
+  /**
+   * Whether the buyer is an approved B2B account, and the prices of their
+   * contract list when it is active, in its validity window and in this currency
+   */
+  private async getBuyerPricing(userId: string | undefined, variantIds: string[], currency: string): Promise<BuyerPricing> {
+    if (!userId) {
+      return { isB2B: false, contract: null };
+    }
+
+    // Members buy on their organization's profile
+    const application = await this.prisma.b2BApplication.findFirst({
+      where: accountScope(userId),
+      include: {
+        priceList: {
+          include: { items: { where: { variantId: { in: variantIds } } } },
+        },
+      },
+    });
+
+    if (!application || application.status !== 'APPROVED') {
+      return { isB2B: false, contract: null };
+    }
+
+    const list = application.priceList;
+    const now = new Date();
+    const inForce = list &&
+      list.isActive &&
+      list.currency === currency &&
+      list.validFrom <= now &&
+      (!list.validUntil || list.validUntil > now);
+
+    return {
+      isB2B: true,
+      contract: inForce
+        ? {
+            priceListId: list.id,
+            prices: new Map(list.items.map(item => [item.variantId, Number(item.unitPrice)])),
+          }
+        : null,
+    };
+  }
+
+  private async getConversionRate(currency: string): Promise<number | null> {
+    if (currency === 'INR') {
+      return 1;
+    }
+
+    const rate = await this.prisma.currencyRate.findUnique({
+      where: { fromCurrency_toCurrency: { fromCurrency: 'INR', toCurrency: currency } },
+    });
+
+    return rate ? Number(rate.rate) : null;
+  }
+
+  private listPrice(variant: any, currency: string, conversionRate: number | null): number {
+    const currencyPrice = variant.currencyPrices.find((price: any) => price.currency === currency);
+    if (currencyPrice) {
+      return Number(currencyPrice.price);
+    }
+
+    if (conversionRate === null) {
+      throw new ValidationError(`Prices are not available in ${currency}`);
+    }
+
+    return round(Number(variant.basePriceINR) * conversionRate);
+  }
+
+  /**
+   * Tiers set in the currency, or else the INR tiers converted, as list prices are
+   */
+  private tiersInCurrency(variant: any, currency: string, conversionRate: number | null): PriceTierBreak[] {
+    const own = variant.priceTiers.filter((tier: any) => tier.currency === currency);
+    const tiers = own.length > 0 || conversionRate === null
+      ? own.map((tier: any) => ({ minWeightKg: Number(tier.minWeightKg), unitPrice: Number(tier.unitPrice) }))
+      : variant.priceTiers
+          .filter((tier: any) => tier.currency === 'INR')
+          .map((tier: any) => ({
+            minWeightKg: Number(tier.minWeightKg),
+            unitPrice: round(Number(tier.unitPrice) * conversionRate),
+          }));
+
+    return buildTierBreaks(tiers);
+  }
+
+  private serializePriceList(list: any): PriceList {
+    return {
+      id: list.id,
+      name: list.name,
+      currency: list.currency,
+      validFrom: list.validFrom.toISOString(),
+      validUntil: list.validUntil?.toISOString(),
+      isActive: list.isActive,
+      notes: list.notes ?? undefined,
+      items: list.items.map((item: any) => ({ variantId: item.variantId, unitPrice: Number(item.unitPrice) })),
+      accountIds: list.accounts.map((account: any) => account.id),
+      createdAt: list.createdAt.toISOString(),
+      updatedAt: list.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,234 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { NotFoundError, ValidationError } from '@newhill/shared/types/api';
+import { SearchService } from './SearchService';
+import { Logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+
+export interface ProductInput {
+  name: Record<string, string>;
+  description: Record<string, string>;
+  shortDescription?: Record<string, string>;
+  price: number;
+  currency: string;
+  category: string;
+  subcategory?: string;
+  weight: number;
+  unit: 'g' | 'kg' | 'ml' | 'l';
+  stockQuantity: number;
+  images: string[];
+  variants?: Array<{
+    name: string;
+    weight: number;
+    unit: string;
+    price: number;
+    sku: string;
+  }>;
+  certifications?: string[];
+  tags?: string[];
+  hsnCode?: string;
+  gstRate?: number;
+}
+
+const UNIT_TO_GRAMS: Record<string, number> = {
+  g: 1,
+  kg: 1000,
+  ml: 1,
+  l: 1000,
+};
+
+/**
+ * Admin-side product mutations. Every change is audited and pushed into the
+ * search index so results reflect it without waiting for a rebuild.
+ */
+export class ProductService {
+  private prisma: PrismaClient;
+  private logger: Logger;
+  private metrics: typeof MetricsCollector;
+  private searchService: SearchService;
+
+  constructor(prisma: PrismaClient, logger: Logger, metrics: typeof MetricsCollector) {
+    this.prisma = prisma;
+    this.logger = logger;
+    this.metrics = metrics;
+    this.searchService = new SearchService(prisma, logger, metrics);
+  }
+
+  async createProduct(input: ProductInput, actorId: string) {
+    const traceId = crypto.randomUUID();
+    const rate = await this.getRateFromINR(input.currency);
+
+    const variants = input.variants && input.variants.length > 0
+      ? input.variants
+      : [{ weight: input.weight, unit: input.unit, price: input.price }];
+
+    const product = await this.prisma.product.create({
+      data: {
+        name: this.primaryText(input.name),
+        description: this.primaryText(input.description) || null,
+        category: input.category,
+        images: input.images,
+        organicCertified: this.isOrganic(input.certifications),
+        defaultCurrency: input.currency,
+        hsnCode: input.hsnCode,
+        gstRate: input.gstRate,
+        translations: {
+          create: this.buildTranslations(input.name, input.description),
+        },
+        variants: {
+          create: variants.map(variant => ({
+            weightInGrams: this.toGrams(variant.weight, variant.unit),
+            basePriceINR: this.round(variant.price / rate),
+            stockQty: input.variants && input.variants.length > 0 ? 0 : input.stockQuantity,
+            currencyPrices: input.currency === 'INR'
+              ? undefined
+              : { create: [{ currency: input.currency, price: variant.price }] },
+          })),
+        },
+      },
+      include: { variants: true, translations: true },
+    });
+
+    await this.audit(actorId, product.id, 'PRODUCT_CREATED', { category: product.category });
+    await this.searchService.reindexProduct(product.id);
+
+    this.metrics.incrementCounter('product.created', 1, { category: product.category });
+    this.logger.info('Product created', { traceId, productId: product.id, actorId });
+
+    return product;
+  }
+
+  async updateProduct(productId: string, input: Partial<ProductInput>, actorId: string) {
+    const traceId = crypto.randomUUID();
+    const existing = await this.prisma.product.findFirst({
+      where: { id: productId, softDeleted: false },
+    });
+
+    if (!existing) {
+      throw new NotFoundError('Product');
+    }
+
+    const product = await this.prisma.$transaction(async tx => {
+      if (input.name || input.description) {
+        const translations = this.buildTranslations(input.name || {}, input.description || {});
+        for (const translation of translations) {
+          await tx.productTranslation.upsert({
+            where: { productId_language: { productId, language: translation.language } },
+            create: { productId, ...translation },
+            update: {
+              name: input.name?.[translation.language] ? translation.name : undefined,
+              description: input.description?.[translation.language] ?? undefined,
+            },
+          });
+        }
+      }
+
+      return tx.product.update({
+        where: { id: productId },
+        data: {
+          name: input.name ? this.primaryText(input.name) : undefined,
+          description: input.description ? this.primaryText(input.description) : undefined,
+          category: input.category,
+          images: input.images,
+          organicCertified: input.certifications ? this.isOrganic(input.certifications) : undefined,
+          hsnCode: input.hsnCode,
+          gstRate: input.gstRate,
+        },
+        include: { variants: true, translations: true },
+      });
+    });
+
+    await this.audit(actorId, productId, 'PRODUCT_UPDATED', { fields: Object.keys(input) });
+    await this.searchService.reindexProduct(productId);
+
+    this.metrics.incrementCounter('product.updated', 1, { category: product.category });
+    this.logger.info('Product updated', { traceId, productId, actorId });
+
+    return product;
+  }
+
+  async deleteProduct(productId: string, actorId: string): Promise<void> {
+    const traceId = crypto.randomUUID();
+    const existing = await this.prisma.product.findFirst({
+      where: { id: productId, softDeleted: false },
+    });
+
+    if (!existing) {
+      throw new NotFoundError('Product');
+    }
+
+    await this.prisma.product.update({
+      where: { id: productId },
+      data: { softDeleted: true, status: 'DISCONTINUED' },
+    });
+
+    await this.audit(actorId, productId, 'PRODUCT_DELETED', {});
+    this.searchService.removeProduct(productId);
+
+    this.metrics.incrementCounter('product.deleted', 1, { category: existing.category });
+    this.logger.info('Product deleted', { traceId, productId, actorId });
+  }
+
+  private async getRateFromINR(currency: string): Promise<number> {
+    if (currency === 'INR') {
+      return 1;
+    }
+
+    const rate = await this.prisma.currencyRate.findUnique({
+      where: { fromCurrency_toCurrency: { fromCurrency: 'INR', toCurrency: currency } },
+    });
+
+    if (!rate) {
+      throw new ValidationError(`No INR exchange rate configured for ${currency}`);
+    }
+
+    return Number(rate.rate);
+  }
+
+  private primaryText(values: Record<string, string>): string {
+    return values.en || Object.values(values)[0] || '';
+  }
+
+  private buildTranslations(
+    names: Record<string, string>,
+    descriptions: Record<string, string>
+  ): Array<{ language: string; name: string; description?: string }> {
+    const languages = new Set([...Object.keys(names), ...Object.keys(descriptions)]);
+    languages.delete('en');
+
+    return Array.from(languages).map(language => ({
+      language,
+      name: names[language] || this.primaryText(names),
+      description: descriptions[language],
+    }));
+  }
+
+  private isOrganic(certifications: string[] = []): boolean {
+    return certifications.some(certification => certification.toLowerCase() === 'organic');
+  }
+
+  private toGrams(weight: number, unit: string): number {
+    const multiplier = UNIT_TO_GRAMS[unit];
+    if (!multiplier) {
+      throw new ValidationError(`Unsupported unit: ${unit}`);
+    }
+
+    return Math.round(weight * multiplier);
+  }
+
+  private async audit(userId: string, productId: string, action: string, metadata: Record<string, any>): Promise<void> {
+    await this.prisma.auditLog.create({
+      data: {
+        userId,
+        entity: 'Product',
+        entityId: productId,
+        action,
+        metadata,
+      },
+    });
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
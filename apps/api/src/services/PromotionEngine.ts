@@ -0,0 +1,341 @@
+import {
+  AppliedPromotion,
+  BundlePriceAction,
+  BuyXGetYAction,
+  FreeSampleAction,
+  PromotionAction,
+  PromotionActionType,
+  PromotionConditions,
+  PromotionLineDiscount,
+  PromotionStacking,
+  TieredSpendAction,
+} from '@newhill/shared/types/promotion';
+
+/**
+ * Promotion rules. Pure functions only; PromotionService loads the
+ * promotions and the buyer, and records what an order redeemed.
+ *
+ * - Promotions run highest priority first. Each one discounts what the
+ *   promotions before it left to pay on a line, so a line never goes below zero.
+ * - Stackable promotions combine with each other. An exclusive promotion is
+ *   skipped once anything has applied, and when it applies nothing after it
+ *   does, discount codes included.
+ * - Promotions with a code only run when the buyer entered it.
+ */
+
+export interface PromotionLine {
+  variantId: string;
+  productId: string;
+  category: string;
+  weightInGrams: number;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface PromotionBuyer {
+  currency: string;
+  region?: string;
+  role?: string;
+  firstOrder: boolean;
+  codes: string[];
+}
+
+export interface PromotionRule {
+  id: string;
+  name: string;
+  code?: string;
+  actionType: PromotionActionType;
+  action: PromotionAction;
+  conditions: PromotionConditions;
+  currency: string;
+  priority: number;
+  stacking: PromotionStacking;
+}
+
+export interface PromotionSample {
+  promotionId: string;
+  variantId: string;
+  quantity: number;
+}
+
+export interface PromotionOutcome {
+  // In the order of the lines given
+  lines: Array<{ promotionDiscount: number; promotions: PromotionLineDiscount[] }>;
+  applied: AppliedPromotion[];
+  samples: PromotionSample[];
+  promotionDiscount: number;
+  // An exclusive promotion applied, so discount codes do not
+  exclusive: boolean;
+}
+
+// A covered line and what is still to pay on it
+type CoveredLine = {
+  index: number;
+  unitPrice: number;
+  quantity: number;
+  remaining: number;
+};
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Whether the buyer gets the promotion at all, whatever is in the cart
+ */
+export function appliesToBuyer(conditions: PromotionConditions, buyer: PromotionBuyer): boolean {
+  if (conditions.customerRoles?.length && !conditions.customerRoles.includes(buyer.role as 'B2C' | 'B2B')) {
+    return false;
+  }
+
+  // Regional promotions wait until the destination is known
+  if (conditions.regions?.length && (!buyer.region || !conditions.regions.includes(buyer.region.toUpperCase()))) {
+    return false;
+  }
+
+  if (conditions.currencies?.length && !conditions.currencies.includes(buyer.currency)) {
+    return false;
+  }
+
+  return !conditions.firstOrderOnly || buyer.firstOrder;
+}
+
+/**
+ * Whether a line counts towards the promotion and can be discounted by it
+ */
+export function coversLine(conditions: PromotionConditions, line: PromotionLine): boolean {
+  if (conditions.categories?.length && !conditions.categories.includes(line.category)) {
+    return false;
+  }
+
+  if (conditions.productIds?.length && !conditions.productIds.includes(line.productId)) {
+    return false;
+  }
+
+  if (conditions.variantIds?.length && !conditions.variantIds.includes(line.variantId)) {
+    return false;
+  }
+
+  if (conditions.minWeightInGrams !== undefined && line.weightInGrams < conditions.minWeightInGrams) {
+    return false;
+  }
+
+  return conditions.maxWeightInGrams === undefined || line.weightInGrams <= conditions.maxWeightInGrams;
+}
+
+/**
+ * Apply the promotions to the lines. Rules are given unfiltered; validity
+ * windows and usage limits are the caller's to check.
+ */
+export function evaluatePromotions(
+  rules: PromotionRule[],
+  lines: PromotionLine[],
+  buyer: PromotionBuyer
+): PromotionOutcome {
+  const remaining = lines.map(line => round(line.unitPrice * line.quantity));
+  const outcome: PromotionOutcome = {
+    lines: lines.map(() => ({ promotionDiscount: 0, promotions: [] })),
+    applied: [],
+    samples: [],
+    promotionDiscount: 0,
+    exclusive: false,
+  };
+
+  const ordered = [...rules].sort((a, b) => b.priority - a.priority || a.id.localeCompare(b.id));
+  const codes = buyer.codes.map(code => code.toUpperCase());
+
+  for (const rule of ordered) {
+    if (rule.code && !codes.includes(rule.code.toUpperCase())) {
+      continue;
+    }
+
+    if (rule.stacking === 'EXCLUSIVE' && outcome.applied.length > 0) {
+      continue;
+    }
+
+    // Amounts in the action are in the promotion's currency
+    if (usesAmounts(rule) && rule.currency !== buyer.currency) {
+      continue;
+    }
+
+    if (!appliesToBuyer(rule.conditions, buyer)) {
+      continue;
+    }
+
+    const covered: CoveredLine[] = lines
+      .map((line, index) => ({ line, index }))
+      .filter(({ line, index }) => remaining[index] > 0 && coversLine(rule.conditions, line))
+      .map(({ line, index }) => ({
+        index,
+        unitPrice: line.unitPrice,
+        quantity: line.quantity,
+        remaining: remaining[index],
+      }));
+
+    if (covered.length === 0) {
+      continue;
+    }
+
+    let sample: PromotionSample | null = null;
+    let discounts = new Map<number, number>();
+
+    switch (rule.actionType) {
+      case 'BUY_X_GET_Y':
+        discounts = buyXGetY(rule.action as BuyXGetYAction, covered);
+        break;
+      case 'BUNDLE_PRICE':
+        discounts = bundlePrice(rule.action as BundlePriceAction, covered);
+        break;
+      case 'TIERED_SPEND':
+        discounts = tieredSpend(rule.action as TieredSpendAction, covered);
+        break;
+      case 'FREE_SAMPLE': {
+        const action = rule.action as FreeSampleAction;
+        const spend = covered.reduce((sum, line) => sum + line.remaining, 0);
+        if (spend >= (action.minSpend || 0)) {
+          sample = { promotionId: rule.id, variantId: action.variantId, quantity: action.quantity || 1 };
+        }
+        break;
+      }
+    }
+
+    const applied: AppliedPromotion = {
+      promotionId: rule.id,
+      name: rule.name,
+      ...(rule.code ? { code: rule.code } : {}),
+      actionType: rule.actionType,
+      amount: 0,
+      lines: [],
+    };
+
+    for (const [index, proposed] of discounts) {
+      const amount = round(Math.min(proposed, remaining[index]));
+      if (amount <= 0) {
+        continue;
+      }
+
+      remaining[index] = round(remaining[index] - amount);
+      outcome.lines[index].promotionDiscount = round(outcome.lines[index].promotionDiscount + amount);
+      outcome.lines[index].promotions.push({ promotionId: rule.id, name: rule.name, amount });
+      applied.lines.push({ variantId: lines[index].variantId, amount });
+      applied.amount = round(applied.amount + amount);
+    }
+
+    if (applied.amount === 0 && !sample) {
+      continue;
+    }
+
+    outcome.applied.push(applied);
+    outcome.promotionDiscount = round(outcome.promotionDiscount + applied.amount);
+    if (sample) {
+      outcome.samples.push(sample);
+    }
+
+    if (rule.stacking === 'EXCLUSIVE') {
+      outcome.exclusive = true;
+      break;
+    }
+  }
+
+  return outcome;
+}
+
+function usesAmounts(rule: PromotionRule): boolean {
+  return rule.actionType === 'BUNDLE_PRICE' ||
+    rule.actionType === 'TIERED_SPEND' ||
+    (rule.actionType === 'FREE_SAMPLE' && !!(rule.action as FreeSampleAction).minSpend);
+}
+
+/**
+ * Every buyQuantity + getQuantity covered units, the cheapest getQuantity
+ * units are discounted
+ */
+function buyXGetY(action: BuyXGetYAction, covered: CoveredLine[]): Map<number, number> {
+  const units = covered.reduce((sum, line) => sum + line.quantity, 0);
+  let applications = Math.floor(units / (action.buyQuantity + action.getQuantity));
+  if (action.maxApplications !== undefined) {
+    applications = Math.min(applications, action.maxApplications);
+  }
+
+  const percentOff = action.percentOff ?? 100;
+  let discounted = applications * action.getQuantity;
+  const discounts = new Map<number, number>();
+
+  for (const line of [...covered].sort((a, b) => a.unitPrice - b.unitPrice)) {
+    if (discounted === 0) {
+      break;
+    }
+
+    const quantity = Math.min(line.quantity, discounted);
+    discounted -= quantity;
+    discounts.set(line.index, (line.unitPrice * quantity * percentOff) / 100);
+  }
+
+  return discounts;
+}
+
+/**
+ * Covered units sell in groups of quantity for the bundle price, most
+ * expensive units first; units left over pay their own price
+ */
+function bundlePrice(action: BundlePriceAction, covered: CoveredLine[]): Map<number, number> {
+  const units = covered.reduce((sum, line) => sum + line.quantity, 0);
+  let bundles = Math.floor(units / action.quantity);
+  if (action.maxApplications !== undefined) {
+    bundles = Math.min(bundles, action.maxApplications);
+  }
+
+  let bundled = bundles * action.quantity;
+  const taken: Array<{ line: CoveredLine; value: number }> = [];
+
+  for (const line of [...covered].sort((a, b) => b.unitPrice - a.unitPrice)) {
+    if (bundled === 0) {
+      break;
+    }
+
+    const quantity = Math.min(line.quantity, bundled);
+    bundled -= quantity;
+    taken.push({ line, value: line.unitPrice * quantity });
+  }
+
+  const value = taken.reduce((sum, entry) => sum + entry.value, 0);
+  const saving = value - bundles * action.price;
+
+  return saving > 0 ? spread(saving, taken.map(entry => ({ index: entry.line.index, weight: entry.value }))) : new Map();
+}
+
+/**
+ * Percentage or amount off the covered spend at the highest tier it reaches
+ */
+function tieredSpend(action: TieredSpendAction, covered: CoveredLine[]): Map<number, number> {
+  const spend = covered.reduce((sum, line) => sum + line.remaining, 0);
+  const tier = [...action.tiers]
+    .sort((a, b) => b.minSpend - a.minSpend)
+    .find(candidate => spend >= candidate.minSpend);
+
+  if (!tier) {
+    return new Map();
+  }
+
+  const saving = tier.percentOff !== undefined
+    ? (spend * tier.percentOff) / 100
+    : Math.min(tier.amountOff || 0, spend);
+
+  return spread(saving, covered.map(line => ({ index: line.index, weight: line.remaining })));
+}
+
+/**
+ * Split an amount across lines in proportion to their weight; the last
+ * line takes the rounding difference
+ */
+function spread(amount: number, entries: Array<{ index: number; weight: number }>): Map<number, number> {
+  const total = entries.reduce((sum, entry) => sum + entry.weight, 0);
+  const shares = new Map<number, number>();
+  let left = round(amount);
+
+  entries.forEach((entry, position) => {
+    const share = position === entries.length - 1 ? left : round((amount * entry.weight) / total);
+    shares.set(entry.index, share);
+    left = round(left - share);
+  });
+
+  return shares;
+}
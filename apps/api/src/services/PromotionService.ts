@@ -0,0 +1,366 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ConflictError, NotFoundError, ValidationError } from '@newhill/shared/types/api';
+import {
+  AppliedPromotion,
+  FreeSampleAction,
+  FreeSampleItem,
+  Promotion,
+  PromotionAction,
+  PromotionActionType,
+  PromotionConditions,
+  PromotionLineDiscount,
+  PromotionStacking,
+  TieredSpendAction,
+} from '@newhill/shared/types/promotion';
+import { evaluatePromotions, PromotionLine, PromotionRule } from './PromotionEngine';
+import { PricingService } from './PricingService';
+import { Logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+
+export interface PromotionRequest {
+  userId?: string;
+  currency: string;
+  // Destination country, when known
+  region?: string;
+  codes: string[];
+  lines: PromotionLine[];
+}
+
+export interface PromotionEvaluation {
+  lines: Array<{ promotionDiscount: number; promotions: PromotionLineDiscount[] }>;
+  applied: AppliedPromotion[];
+  freeItems: FreeSampleItem[];
+  promotionDiscount: number;
+  exclusive: boolean;
+}
+
+export interface PromotionInput {
+  name: string;
+  description?: string;
+  code?: string | null;
+  actionType: PromotionActionType;
+  action: PromotionAction;
+  conditions: PromotionConditions;
+  currency: string;
+  priority: number;
+  stacking: PromotionStacking;
+  usageLimit?: number | null;
+  validFrom?: string;
+  validUntil?: string | null;
+  isActive: boolean;
+}
+
+/**
+ * Automatic and code promotions for the cart and checkout. The rules live
+ * in PromotionEngine; this loads what is in force and who is buying, prices
+ * free samples and records redemptions.
+ */
+export class PromotionService {
+  private prisma: PrismaClient;
+  private logger: Logger;
+  private metrics: typeof MetricsCollector;
+  private pricing: PricingService;
+
+  constructor(
+    prisma: PrismaClient,
+    logger: Logger,
+    metrics: typeof MetricsCollector,
+    pricing: PricingService = new PricingService(prisma, logger, metrics)
+  ) {
+    this.prisma = prisma;
+    this.logger = logger;
+    this.metrics = metrics;
+    this.pricing = pricing;
+  }
+
+  async evaluate(request: PromotionRequest): Promise<PromotionEvaluation> {
+    if (request.lines.length === 0) {
+      return { lines: [], applied: [], freeItems: [], promotionDiscount: 0, exclusive: false };
+    }
+
+    const [rules, buyer] = await Promise.all([this.loadInForce(), this.getBuyer(request.userId)]);
+
+    const outcome = evaluatePromotions(rules, request.lines, {
+      currency: request.currency,
+      region: request.region,
+      role: buyer.role,
+      firstOrder: buyer.firstOrder,
+      codes: request.codes,
+    });
+
+    const freeItems = await this.resolveSamples(outcome.samples, request);
+    const granted = new Set(freeItems.map(item => item.promotionId));
+
+    // A sample that is out of stock leaves its promotion with nothing to show
+    const applied = outcome.applied.filter(promotion => promotion.amount > 0 || granted.has(promotion.promotionId));
+
+    return {
+      lines: outcome.lines,
+      applied,
+      freeItems,
+      promotionDiscount: outcome.promotionDiscount,
+      exclusive: outcome.exclusive,
+    };
+  }
+
+  /**
+   * The promotion a code belongs to, or null when it is not a promotion code
+   */
+  async findByCode(code: string): Promise<{ id: string; code: string } | null> {
+    const promotion = await this.prisma.promotion.findUnique({
+      where: { code: code.toUpperCase() },
+    });
+
+    if (!promotion) {
+      return null;
+    }
+
+    const now = new Date();
+    if (!promotion.isActive || promotion.validFrom > now) {
+      throw new ValidationError('Promotion is not active');
+    }
+
+    if (promotion.validUntil && promotion.validUntil < now) {
+      throw new ValidationError('Promotion has expired');
+    }
+
+    if (promotion.usageLimit && promotion.usedCount >= promotion.usageLimit) {
+      throw new ValidationError('Promotion usage limit reached');
+    }
+
+    return { id: promotion.id, code: promotion.code! };
+  }
+
+  /**
+   * Count an order's promotions against their usage limits, inside the
+   * transaction that creates the order
+   */
+  async redeem(tx: Prisma.TransactionClient, orderId: string, applied: AppliedPromotion[]): Promise<void> {
+    for (const promotion of applied) {
+      const current = await tx.promotion.findUniqueOrThrow({ where: { id: promotion.promotionId } });
+
+      const claimed = await tx.promotion.updateMany({
+        where: {
+          id: promotion.promotionId,
+          ...(current.usageLimit ? { usedCount: { lt: current.usageLimit } } : {}),
+        },
+        data: { usedCount: { increment: 1 } },
+      });
+
+      if (claimed.count === 0) {
+        throw new ConflictError(`Promotion "${promotion.name}" is no longer available`);
+      }
+
+      await tx.promotionRedemption.create({
+        data: { promotionId: promotion.promotionId, orderId, amount: promotion.amount },
+      });
+
+      this.metrics.incrementCounter('promotion.redeemed', 1, { actionType: promotion.actionType });
+    }
+  }
+
+  async listPromotions(): Promise<Promotion[]> {
+    const promotions = await this.prisma.promotion.findMany({
+      orderBy: [{ isActive: 'desc' }, { priority: 'desc' }, { name: 'asc' }],
+    });
+
+    return promotions.map(promotion => this.serialize(promotion));
+  }
+
+  /**
+   * Create a promotion, or replace an existing one's rule and window
+   */
+  async savePromotion(id: string | undefined, input: PromotionInput): Promise<Promotion> {
+    const validFrom = input.validFrom ? new Date(input.validFrom) : new Date();
+    const validUntil = input.validUntil ? new Date(input.validUntil) : null;
+
+    if (validUntil && validUntil <= validFrom) {
+      throw new ValidationError('validUntil must be after validFrom');
+    }
+
+    const code = input.code ? input.code.toUpperCase() : null;
+    if (code) {
+      // A code must mean one thing when a shopper enters it
+      const [promotion, discountCode] = await Promise.all([
+        this.prisma.promotion.findUnique({ where: { code } }),
+        this.prisma.discountCode.findUnique({ where: { code } }),
+      ]);
+
+      if ((promotion && promotion.id !== id) || discountCode) {
+        throw new ConflictError(`Code ${code} is already in use`);
+      }
+    }
+
+    await this.validateAction(input.actionType, input.action);
+
+    const data = {
+      name: input.name,
+      description: input.description,
+      code,
+      actionType: input.actionType,
+      action: input.action as unknown as Prisma.InputJsonObject,
+      conditions: input.conditions as Prisma.InputJsonObject,
+      currency: input.currency.toUpperCase(),
+      priority: input.priority,
+      stacking: input.stacking,
+      usageLimit: input.usageLimit ?? null,
+      validFrom,
+      validUntil,
+      isActive: input.isActive,
+    };
+
+    if (id && !(await this.prisma.promotion.findUnique({ where: { id } }))) {
+      throw new NotFoundError('Promotion');
+    }
+
+    const promotion = id
+      ? await this.prisma.promotion.update({ where: { id }, data })
+      : await this.prisma.promotion.create({ data });
+
+    this.logger.info('Promotion saved', {
+      promotionId: promotion.id,
+      name: promotion.name,
+      actionType: promotion.actionType,
+      stacking: promotion.stacking,
+      priority: promotion.priority,
+    });
+
+    return this.serialize(promotion);
+  }
+
+  private async validateAction(actionType: PromotionActionType, action: PromotionAction): Promise<void> {
+    if (actionType === 'TIERED_SPEND') {
+      const tiers = (action as TieredSpendAction).tiers;
+      if (new Set(tiers.map(tier => tier.minSpend)).size !== tiers.length) {
+        throw new ValidationError('Each tier needs a different minimum spend');
+      }
+    }
+
+    if (actionType === 'FREE_SAMPLE') {
+      const variant = await this.prisma.productVariant.findUnique({
+        where: { id: (action as FreeSampleAction).variantId },
+      });
+      if (!variant) {
+        throw new ValidationError('Free sample variant does not exist');
+      }
+    }
+  }
+
+  /**
+   * Active promotions in their window with uses left
+   */
+  private async loadInForce(): Promise<PromotionRule[]> {
+    const now = new Date();
+    const promotions = await this.prisma.promotion.findMany({
+      where: {
+        isActive: true,
+        validFrom: { lte: now },
+        OR: [{ validUntil: null }, { validUntil: { gt: now } }],
+      },
+    });
+
+    return promotions
+      .filter(promotion => !promotion.usageLimit || promotion.usedCount < promotion.usageLimit)
+      .map(promotion => ({
+        id: promotion.id,
+        name: promotion.name,
+        code: promotion.code ?? undefined,
+        actionType: promotion.actionType as PromotionActionType,
+        action: promotion.action as unknown as PromotionAction,
+        conditions: promotion.conditions as PromotionConditions,
+        currency: promotion.currency,
+        priority: promotion.priority,
+        stacking: promotion.stacking as PromotionStacking,
+      }));
+  }
+
+  /**
+   * The buyer's role, and whether they have yet to complete an order.
+   * Guests are treated as first-time buyers; checkout checks again once signed in.
+   */
+  private async getBuyer(userId: string | undefined): Promise<{ role: string; firstOrder: boolean }> {
+    if (!userId) {
+      return { role: 'B2C', firstOrder: true };
+    }
+
+    const [user, orders] = await Promise.all([
+      this.prisma.user.findUnique({ where: { id: userId }, select: { role: true } }),
+      this.prisma.order.count({
+        where: { userId, status: { notIn: ['PENDING', 'CANCELLED'] } },
+      }),
+    ]);
+
+    return { role: user?.role || 'B2C', firstOrder: orders === 0 };
+  }
+
+  /**
+   * Price the samples the promotions granted, leaving out any that cannot ship
+   */
+  private async resolveSamples(
+    samples: Array<{ promotionId: string; variantId: string; quantity: number }>,
+    request: PromotionRequest
+  ): Promise<FreeSampleItem[]> {
+    if (samples.length === 0) {
+      return [];
+    }
+
+    const variants = await this.prisma.productVariant.findMany({
+      where: { id: { in: samples.map(sample => sample.variantId) }, status: 'ACTIVE', softDeleted: false },
+      include: { product: true, lots: { where: { status: 'ACTIVE' } } },
+    });
+
+    const available = samples.filter(sample => {
+      const variant = variants.find(candidate => candidate.id === sample.variantId);
+      return variant &&
+        variant.product.status === 'ACTIVE' &&
+        variant.lots.reduce((sum, lot) => sum + lot.qtyAvailable, 0) >= sample.quantity;
+    });
+
+    if (available.length < samples.length) {
+      this.logger.warn('Free samples unavailable', {
+        variantIds: samples.filter(sample => !available.includes(sample)).map(sample => sample.variantId),
+      });
+    }
+
+    const prices = await this.pricing.resolve(
+      undefined,
+      available.map(sample => ({ variantId: sample.variantId, quantity: sample.quantity })),
+      request.currency
+    );
+
+    return available.map((sample, index) => {
+      const variant = variants.find(candidate => candidate.id === sample.variantId)!;
+
+      return {
+        promotionId: sample.promotionId,
+        productId: variant.productId,
+        variantId: variant.id,
+        name: variant.product.name,
+        quantity: sample.quantity,
+        value: Math.round(prices[index].listPrice * sample.quantity * 100) / 100,
+      };
+    });
+  }
+
+  private serialize(promotion: any): Promotion {
+    return {
+      id: promotion.id,
+      name: promotion.name,
+      description: promotion.description ?? undefined,
+      code: promotion.code ?? undefined,
+      actionType: promotion.actionType,
+      action: promotion.action,
+      conditions: promotion.conditions,
+      currency: promotion.currency,
+      priority: promotion.priority,
+      stacking: promotion.stacking,
+      usageLimit: promotion.usageLimit ?? undefined,
+      usedCount: promotion.usedCount,
+      validFrom: promotion.validFrom.toISOString(),
+      validUntil: promotion.validUntil?.toISOString(),
+      isActive: promotion.isActive,
+      createdAt: promotion.createdAt.toISOString(),
+      updatedAt: promotion.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,252 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { NotFoundError } from '@newhill/shared/types/api';
+import {
+  BrandedPdf,
+  TableColumn,
+  formatDate,
+  formatMoney,
+  formatWeight,
+} from '../utils/pdf';
+import { accountScope } from './OrganizationService';
+import { Logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+
+export interface QuotePdfLine {
+  name: string;
+  localizedName?: string;
+  weightInGrams: number;
+  origins: string[];
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  notes?: string | null;
+}
+
+export interface QuotePdfData {
+  quoteNumber: string;
+  status: string;
+  currency: string;
+  createdAt: Date;
+  validUntil: Date | null;
+  customerNotes?: string | null;
+  buyer: {
+    businessName: string;
+    contactName?: string | null;
+    email: string;
+    phone?: string | null;
+    addressLines: string[];
+    gstVatNumber?: string | null;
+    taxId?: string | null;
+  };
+  items: QuotePdfLine[];
+  totalAmount: number;
+}
+
+const ITEM_COLUMNS: TableColumn[] = [
+  { header: '#', width: 24 },
+  { header: 'Product', width: 175 },
+  { header: 'Pack', width: 50, align: 'right' },
+  { header: 'Origin', width: 96 },
+  { header: 'Qty', width: 40, align: 'right' },
+  { header: 'Unit price', width: 65, align: 'right' },
+  { header: 'Amount', width: 65, align: 'right' },
+];
+
+/**
+ * Render a quote document. Pure with respect to its input so the same quote
+ * always produces the same bytes.
+ */
+export async function renderQuotePdf(data: QuotePdfData): Promise<Buffer> {
+  const pdf = new BrandedPdf({
+    title: `Quotation ${data.quoteNumber}`,
+    subject: `Quotation for ${data.buyer.businessName}`,
+    createdAt: data.createdAt,
+  });
+
+  pdf.header('QUOTATION', data.quoteNumber);
+
+  const buyerLines = [
+    data.buyer.businessName,
+    ...(data.buyer.contactName ? [`Attn: ${data.buyer.contactName}`] : []),
+    ...data.buyer.addressLines,
+    data.buyer.email,
+    ...(data.buyer.phone ? [data.buyer.phone] : []),
+    ...(data.buyer.gstVatNumber ? [`GSTIN/VAT: ${data.buyer.gstVatNumber}`] : []),
+    ...(data.buyer.taxId ? [`Tax ID: ${data.buyer.taxId}`] : []),
+  ];
+
+  pdf.detailColumns('Prepared for', buyerLines, 'Quote details', [
+    ['Quote number', data.quoteNumber],
+    ['Issue date', formatDate(data.createdAt)],
+    ['Valid until', data.validUntil ? formatDate(data.validUntil) : 'On request'],
+    ['Status', data.status],
+    ['Currency', data.currency],
+  ]);
+
+  const rows = data.items.map((item, index) => [
+    String(index + 1),
+    [
+      item.name,
+      ...(item.localizedName && item.localizedName !== item.name ? [item.localizedName] : []),
+      ...(item.notes ? [item.notes] : []),
+    ].join('\n'),
+    formatWeight(item.weightInGrams),
+    item.origins.length > 0 ? item.origins.join(', ') : '-',
+    String(item.quantity),
+    formatMoney(item.unitPrice, data.currency),
+    formatMoney(item.totalPrice, data.currency),
+  ]);
+
+  pdf.table(ITEM_COLUMNS, rows);
+
+  const subtotal = data.items.reduce((sum, item) => sum + item.totalPrice, 0);
+  const netWeight = data.items.reduce((sum, item) => sum + item.weightInGrams * item.quantity, 0);
+
+  pdf.totals([
+    ['Total net weight', formatWeight(netWeight)],
+    ['Subtotal', formatMoney(subtotal, data.currency)],
+    ['Quoted total', formatMoney(data.totalAmount, data.currency)],
+  ]);
+
+  pdf.paragraph('Customer notes', data.customerNotes);
+  pdf.paragraph(
+    'Terms',
+    [
+      data.validUntil
+        ? `Prices are valid until ${formatDate(data.validUntil)} and subject to stock availability at the time of order.`
+        : 'Prices are subject to confirmation and stock availability at the time of order.',
+      'Taxes, duties and freight are charged as applicable on the final invoice.',
+      'Lot origins reflect current stock and may change if the quoted lots sell out.',
+    ].join(' ')
+  );
+
+  return pdf.finish(`${data.quoteNumber} - generated ${formatDate(data.createdAt)}`);
+}
+
+export class QuotePdfService {
+  private prisma: PrismaClient;
+  private logger: Logger;
+  private metrics: typeof MetricsCollector;
+
+  constructor(prisma: PrismaClient, logger: Logger, metrics: typeof MetricsCollector) {
+    this.prisma = prisma;
+    this.logger = logger;
+    this.metrics = metrics;
+  }
+
+  /**
+   * Build the PDF for a quote owned by the given user
+   */
+  async generate(quoteId: string, userId: string): Promise<{ quoteNumber: string; pdf: Buffer }> {
+    const traceId = crypto.randomUUID();
+    const startTime = Date.now();
+
+    try {
+      const data = await this.loadQuote(quoteId, userId);
+      const pdf = await renderQuotePdf(data);
+
+      this.metrics.recordTiming('b2b.quote_pdf.duration', Date.now() - startTime, {});
+      this.logger.info('Quote PDF generated', { traceId, quoteId, bytes: pdf.length });
+
+      return { quoteNumber: data.quoteNumber, pdf };
+    } catch (error) {
+      this.logger.error('Quote PDF generation failed', {
+        traceId,
+        quoteId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  private async loadQuote(quoteId: string, userId: string): Promise<QuotePdfData> {
+    const quote = await this.prisma.b2BQuote.findFirst({
+      where: { id: quoteId, ...accountScope(userId) },
+      include: {
+        items: {
+          orderBy: { createdAt: 'asc' },
+          include: {
+            variant: {
+              include: {
+                product: { include: { translations: true } },
+                lots: {
+                  where: { status: 'ACTIVE' },
+                  orderBy: { bestBefore: 'asc' },
+                },
+              },
+            },
+          },
+        },
+        user: {
+          include: { profile: true, b2bApplication: true },
+        },
+        organization: {
+          include: { application: true },
+        },
+      },
+    });
+
+    if (!quote) {
+      throw new NotFoundError('Quote');
+    }
+
+    const { user } = quote;
+    const profile = user.profile;
+    // Quotes requested for an organization are addressed to its profile, not the member's
+    const application = quote.organization?.application ?? user.b2bApplication;
+    const language = profile?.preferredLanguage || 'en';
+
+    const contactName = application?.contactPerson
+      || [profile?.firstName, profile?.lastName].filter(Boolean).join(' ')
+      || user.name;
+
+    const addressLines = application
+      ? [
+          application.businessAddress,
+          `${application.businessCity}, ${application.businessState} ${application.businessPostalCode}`,
+          application.businessCountry,
+        ]
+      : [
+          profile?.address,
+          [profile?.city, profile?.state, profile?.postalCode].filter(Boolean).join(', '),
+          profile?.country,
+        ].filter((line): line is string => Boolean(line));
+
+    return {
+      quoteNumber: quote.quoteNumber,
+      status: quote.status,
+      currency: quote.currency,
+      createdAt: quote.createdAt,
+      validUntil: quote.validUntil,
+      customerNotes: quote.customerNotes,
+      buyer: {
+        businessName: application?.businessName || user.name || user.email,
+        contactName,
+        email: user.email,
+        phone: application?.contactPhone || profile?.phone,
+        addressLines,
+        gstVatNumber: application?.gstVatNumber,
+        taxId: application?.taxId,
+      },
+      items: quote.items.map(item => {
+        const product = item.variant.product;
+        const translation = product.translations.find(entry => entry.language === language);
+
+        return {
+          name: product.name,
+          localizedName: translation?.name,
+          weightInGrams: item.variant.weightInGrams,
+          origins: Array.from(new Set(item.variant.lots.map(lot => lot.originEstate))),
+          quantity: item.quantity,
+          unitPrice: Number(item.unitPrice),
+          totalPrice: Number(item.totalPrice),
+          notes: item.notes,
+        };
+      }),
+      totalAmount: quote.totalAmount !== null
+        ? Number(quote.totalAmount)
+        : quote.items.reduce((sum, item) => sum + Number(item.totalPrice), 0),
+    };
+  }
+}
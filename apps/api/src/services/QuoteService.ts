@@ -0,0 +1,238 @@
+import crypto from 'crypto';
+import { Address, PrismaClient } from '@prisma/client';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '@newhill/shared/types/api';
+import { OrganizationRole } from '@newhill/shared/types/organization';
+import { InventoryService } from './InventoryService';
+import { InvoiceService } from './InvoiceService';
+import { accountScope, canAct } from './OrganizationService';
+import { Logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+
+export interface QuoteConversionRequest {
+  shippingAddressId: string;
+  billingAddressId?: string;
+  notes?: string;
+}
+
+export interface QuoteConversionResult {
+  orderId: string;
+  orderNumber: string;
+  quoteNumber: string;
+  currency: string;
+  subtotal: number;
+  tax: number;
+  total: number;
+  reservationExpiresAt: string;
+}
+
+/**
+ * B2B quotes after approval: turns an accepted quote into an order at the
+ * quoted prices, with its stock held on lots first-expiry-first-out
+ */
+export class QuoteService {
+  private prisma: PrismaClient;
+  private logger: Logger;
+  private metrics: typeof MetricsCollector;
+  private invoices: InvoiceService;
+  private inventory: InventoryService;
+
+  constructor(
+    prisma: PrismaClient,
+    logger: Logger,
+    metrics: typeof MetricsCollector,
+    invoices: InvoiceService = new InvoiceService(prisma, logger, metrics),
+    inventory: InventoryService = new InventoryService(prisma, logger, metrics)
+  ) {
+    this.prisma = prisma;
+    this.logger = logger;
+    this.metrics = metrics;
+    this.invoices = invoices;
+    this.inventory = inventory;
+  }
+
+  /**
+   * Create the order for an approved, unexpired quote. The quote is claimed,
+   * the order written, every line's stock reserved and the order taxed in
+   * one transaction, so a shortfall on any line or a tax failure leaves the
+   * quote APPROVED and nothing reserved.
+   * Any buyer in the organization a quote was requested for may order it.
+   */
+  async convertToOrder(quoteId: string, userId: string, request: QuoteConversionRequest): Promise<QuoteConversionResult> {
+    const traceId = crypto.randomUUID();
+
+    const quote = await this.prisma.b2BQuote.findFirst({
+      where: { id: quoteId, ...accountScope(userId) },
+      include: {
+        items: {
+          orderBy: { createdAt: 'asc' },
+          include: { variant: { include: { product: true } } },
+        },
+      },
+    });
+
+    if (!quote) {
+      throw new NotFoundError('Quote');
+    }
+
+    if (quote.organizationId) {
+      const membership = await this.prisma.organizationMember.findUnique({ where: { userId } });
+
+      if (membership?.organizationId !== quote.organizationId || !canAct(membership.role as OrganizationRole, 'BUY')) {
+        throw new AuthorizationError('Your role in this organization cannot place orders');
+      }
+    }
+
+    if (quote.status === 'CONVERTED') {
+      throw new ConflictError('Quote has already been converted to an order');
+    }
+
+    if (quote.status !== 'APPROVED') {
+      throw new ValidationError('Only approved quotes can be converted to orders');
+    }
+
+    if (quote.validUntil && quote.validUntil.getTime() < Date.now()) {
+      await this.prisma.b2BQuote.updateMany({
+        where: { id: quoteId, status: 'APPROVED' },
+        data: { status: 'EXPIRED' },
+      });
+
+      throw new ValidationError(`Quote expired on ${quote.validUntil.toISOString().slice(0, 10)}`);
+    }
+
+    if (quote.items.length === 0) {
+      throw new ValidationError('Quote has no items');
+    }
+
+    const unavailable = quote.items.filter(item =>
+      item.variant.status !== 'ACTIVE' || item.variant.softDeleted ||
+      item.variant.product.status !== 'ACTIVE' || item.variant.product.softDeleted
+    );
+    if (unavailable.length > 0) {
+      throw new ValidationError('Some quoted products are no longer sold', {
+        variantIds: unavailable.map(item => item.variantId),
+      });
+    }
+
+    const addresses = await this.prisma.address.findMany({
+      where: {
+        ...accountScope(userId),
+        id: { in: [request.shippingAddressId, request.billingAddressId || request.shippingAddressId] },
+      },
+    });
+    const shippingAddress = addresses.find(address => address.id === request.shippingAddressId);
+    const billingAddress = addresses.find(address => address.id === (request.billingAddressId || request.shippingAddressId));
+
+    if (!shippingAddress || !billingAddress) {
+      throw new NotFoundError('Address');
+    }
+
+    const orderNumber = `NH-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
+    // Same hold as a checkout: the buyer pays within this window or the stock goes back on sale
+    // and the quote can be converted again
+    const expiresAt = this.inventory.reservationExpiry();
+
+    const { order, tax, total } = await this.prisma.$transaction(async tx => {
+      // Claiming the quote first makes a second conversion of it fail here
+      const { count } = await tx.b2BQuote.updateMany({
+        where: { id: quoteId, status: 'APPROVED' },
+        data: { status: 'CONVERTED' },
+      });
+
+      if (count === 0) {
+        throw new ConflictError('Quote has already been converted to an order');
+      }
+
+      // Orders keep their own copy of the addresses, as at checkout, owned by the buyer and not shared
+      const copyAddress = (address: Address, type: 'SHIPPING' | 'BILLING') => {
+        const { id, createdAt, updatedAt, isDefault, organizationId, ...fields } = address;
+        return tx.address.create({ data: { ...fields, userId, type } });
+      };
+
+      const orderShippingAddress = await copyAddress(shippingAddress, 'SHIPPING');
+      const orderBillingAddress = await copyAddress(billingAddress, 'BILLING');
+
+      const created = await tx.order.create({
+        data: {
+          userId,
+          orderNumber,
+          quoteId,
+          organizationId: quote.organizationId,
+          status: 'PENDING',
+          totalAmount: 0, // Calculated once taxes are known
+          currency: quote.currency,
+          shippingAddressId: orderShippingAddress.id,
+          billingAddressId: orderBillingAddress.id,
+          notes: request.notes ?? quote.customerNotes,
+          items: {
+            // Quoted prices, not today's list prices
+            create: quote.items.map(item => ({
+              variantId: item.variantId,
+              quantity: item.quantity,
+              unitPrice: item.unitPrice,
+              totalPrice: item.totalPrice,
+            })),
+          },
+          statusHistory: {
+            create: {
+              toStatus: 'PENDING',
+              actorType: 'CUSTOMER',
+              actorId: userId,
+              reason: `Converted from quote ${quote.quoteNumber}`,
+            },
+          },
+        },
+      });
+
+      // Lots with enough shelf life for the destination, first-expiry-first-out
+      await this.inventory.allocateOrder(tx, created.id, expiresAt, 'B2B');
+
+      // Freight is arranged with the buyer, so only taxes are added to the quoted lines
+      const tax = await this.invoices.applyOrderTaxes(created.id, tx);
+      const total = Math.round((tax.taxableValue + tax.totalTax) * 100) / 100;
+
+      await tx.order.update({
+        where: { id: created.id },
+        data: { totalAmount: total },
+      });
+
+      return { order: created, tax, total };
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        userId,
+        entity: 'B2BQuote',
+        entityId: quoteId,
+        action: 'CONVERT',
+        metadata: {
+          quoteNumber: quote.quoteNumber,
+          orderId: order.id,
+          orderNumber,
+          total,
+          currency: quote.currency,
+        },
+      },
+    });
+
+    this.metrics.incrementCounter('b2b.quote.converted', 1, { currency: quote.currency });
+    this.logger.info('Quote converted to order', {
+      traceId,
+      quoteId,
+      quoteNumber: quote.quoteNumber,
+      orderId: order.id,
+      orderNumber,
+      total,
+    });
+
+    return {
+      orderId: order.id,
+      orderNumber,
+      quoteNumber: quote.quoteNumber,
+      currency: quote.currency,
+      subtotal: tax.taxableValue,
+      tax: tax.totalTax,
+      total,
+      reservationExpiresAt: expiresAt.toISOString(),
+    };
+  }
+}
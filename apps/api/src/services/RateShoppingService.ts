@@ -0,0 +1,257 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import {
+  RateShoppingResult,
+  ShippingConnector,
+  ShippingProvider,
+  ShippingQuote,
+  ShippingRequest,
+  ShippingTimeoutError,
+} from '@newhill/shared/types/shipping';
+import { ShippingAdapterFactory } from '../adapters/shipping/ShippingAdapterFactory';
+import { Logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+
+/**
+ * Asks every carrier that ships to the destination for rates at once and
+ * merges the answers, so checkout can offer the cheapest and fastest option
+ * whichever carrier it comes from. Carriers quote in their own currency, so
+ * every quote is converted to the shopper's currency before ranking. A
+ * carrier that errors or is slower than the timeout is left out rather than
+ * holding up checkout.
+ */
+
+// How long to wait for each carrier's rates
+const RATE_TIMEOUT_MS = parseInt(process.env.SHIPPING_RATE_TIMEOUT_MS || '5000', 10);
+
+// How long a set of quotes is reused for the same destination and weight bucket
+const RATE_CACHE_TTL_SECONDS = parseInt(process.env.SHIPPING_RATE_CACHE_TTL_SECONDS || '900', 10);
+
+// Carriers price in weight slabs; quotes are fetched for the top of the slab
+const WEIGHT_BUCKET_GRAMS = 500;
+
+// Destinations and weights vary without limit; the oldest entry makes way past this
+const MAX_CACHED_RESULTS = parseInt(process.env.SHIPPING_RATE_CACHE_SIZE || '1000', 10);
+
+interface CachedQuotes {
+  result: RateShoppingResult;
+  expiresAt: number;
+}
+
+// Shared across instances, like the adapter cache
+const quoteCache = new Map<string, CachedQuotes>();
+
+/**
+ * Rank quotes by price, then by delivery time. The quotes must all be in one currency.
+ */
+export function rankQuotes(quotes: ShippingQuote[]): ShippingQuote[] {
+  return [...quotes].sort((a, b) => a.cost - b.cost || a.estimatedDays - b.estimatedDays);
+}
+
+export function findFastestQuote(quotes: ShippingQuote[]): ShippingQuote | null {
+  return [...quotes].sort((a, b) => a.estimatedDays - b.estimatedDays || a.cost - b.cost)[0] || null;
+}
+
+export class RateShoppingService {
+  private prisma: PrismaClient;
+  private logger: Logger;
+  private metrics: typeof MetricsCollector;
+
+  constructor(prisma: PrismaClient, logger: Logger, metrics: typeof MetricsCollector) {
+    this.prisma = prisma;
+    this.logger = logger;
+    this.metrics = metrics;
+  }
+
+  async shopRates(request: Partial<ShippingRequest>): Promise<RateShoppingResult> {
+    const traceId = crypto.randomUUID();
+    const region = this.detectRegion(request.destination?.country || 'IN');
+    const weight = this.bucketWeight(request.weight || 0);
+    const currency = (request.currency || 'INR').toUpperCase();
+    const cacheKey = this.cacheKey(request, weight, currency);
+
+    const cached = this.readCache(cacheKey);
+    if (cached) {
+      this.metrics.incrementCounter('shipping.rates.cache_hit', 1, { region });
+      return { ...cached, cached: true };
+    }
+
+    const adapters = ShippingAdapterFactory.getAdaptersForRegion(
+      region,
+      process.env.NODE_ENV === 'production' ? 'live' : 'sandbox'
+    );
+
+    const settled = await Promise.allSettled(
+      adapters.map(adapter => this.getCarrierQuotes(adapter, { ...request, weight }))
+    );
+
+    const quotes: ShippingQuote[] = [];
+    const unavailable: ShippingProvider[] = [];
+
+    settled.forEach((outcome, index) => {
+      const provider = adapters[index].provider;
+
+      if (outcome.status === 'fulfilled') {
+        quotes.push(...outcome.value);
+        return;
+      }
+
+      unavailable.push(provider);
+      this.metrics.incrementCounter('shipping.rates.carrier_failed', 1, {
+        provider,
+        region,
+        error: outcome.reason instanceof ShippingTimeoutError ? 'timeout' : 'error',
+      });
+      this.logger.warn('Carrier rates unavailable', {
+        traceId,
+        provider,
+        region,
+        error: outcome.reason instanceof Error ? outcome.reason.message : 'Unknown error',
+      });
+    });
+
+    const ranked = rankQuotes(await this.convertQuotes(quotes, currency, traceId));
+    const result: RateShoppingResult = {
+      quotes: ranked,
+      cheapest: ranked[0] || null,
+      fastest: findFastestQuote(ranked),
+      unavailable,
+      cached: false,
+    };
+
+    // A carrier that failed this time should be asked again next time
+    if (unavailable.length === 0 && ranked.length > 0) {
+      this.writeCache(cacheKey, result);
+    }
+
+    this.metrics.incrementCounter('shipping.rates.shopped', 1, { region, carriers: String(adapters.length) });
+    this.logger.info('Shipping rates shopped', {
+      traceId,
+      region,
+      weight,
+      quoteCount: ranked.length,
+      unavailable,
+    });
+
+    return result;
+  }
+
+  static clearCache(): void {
+    quoteCache.clear();
+  }
+
+  private async getCarrierQuotes(
+    adapter: ShippingConnector,
+    request: Partial<ShippingRequest>
+  ): Promise<ShippingQuote[]> {
+    const startTime = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new ShippingTimeoutError(adapter.provider, RATE_TIMEOUT_MS)), RATE_TIMEOUT_MS);
+    });
+
+    try {
+      const rates = await Promise.race([adapter.getShippingRates(request), timeout]);
+
+      this.metrics.recordTiming('shipping.rates.carrier.duration', Date.now() - startTime, {
+        provider: adapter.provider,
+      });
+
+      return rates
+        .filter(rate => rate.isAvailable)
+        .map(rate => ({ ...rate, id: `${adapter.provider}:${rate.method}`, provider: adapter.provider }));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Quotes in `currency`, converted through the INR exchange rates. A quote
+   * in a currency without a rate cannot be compared or charged and is left out.
+   */
+  private async convertQuotes(quotes: ShippingQuote[], currency: string, traceId: string): Promise<ShippingQuote[]> {
+    const currencies = Array.from(new Set([currency, ...quotes.map(quote => quote.currency.toUpperCase())]))
+      .filter(code => code !== 'INR');
+
+    const rates = currencies.length > 0
+      ? await this.prisma.currencyRate.findMany({
+        where: { fromCurrency: 'INR', toCurrency: { in: currencies } },
+      })
+      : [];
+    const fromINR = new Map<string, number>([['INR', 1]]);
+    rates.forEach(rate => fromINR.set(rate.toCurrency, Number(rate.rate)));
+
+    return quotes.flatMap(quote => {
+      const quoteCurrency = quote.currency.toUpperCase();
+      if (quoteCurrency === currency) {
+        return [quote];
+      }
+
+      const toINR = fromINR.get(quoteCurrency);
+      const toCurrency = fromINR.get(currency);
+      if (!toINR || !toCurrency) {
+        this.logger.warn('Shipping quote left out, no exchange rate', {
+          traceId,
+          quote: quote.id,
+          from: quoteCurrency,
+          to: currency,
+        });
+        return [];
+      }
+
+      return [{ ...quote, cost: Math.round((quote.cost / toINR) * toCurrency * 100) / 100, currency }];
+    });
+  }
+
+  private readCache(key: string): RateShoppingResult | null {
+    const cached = quoteCache.get(key);
+    if (!cached) {
+      return null;
+    }
+
+    if (cached.expiresAt <= Date.now()) {
+      quoteCache.delete(key);
+      return null;
+    }
+
+    return cached.result;
+  }
+
+  private writeCache(key: string, result: RateShoppingResult): void {
+    const now = Date.now();
+
+    if (quoteCache.size >= MAX_CACHED_RESULTS) {
+      for (const [cachedKey, cached] of quoteCache) {
+        if (cached.expiresAt <= now) {
+          quoteCache.delete(cachedKey);
+        }
+      }
+    }
+
+    // Maps keep insertion order, so the first entry is the oldest
+    while (quoteCache.size >= MAX_CACHED_RESULTS) {
+      quoteCache.delete(quoteCache.keys().next().value!);
+    }
+
+    quoteCache.set(key, { result, expiresAt: now + RATE_CACHE_TTL_SECONDS * 1000 });
+  }
+
+  private bucketWeight(weight: number): number {
+    return Math.max(1, Math.ceil(weight / WEIGHT_BUCKET_GRAMS)) * WEIGHT_BUCKET_GRAMS;
+  }
+
+  private cacheKey(request: Partial<ShippingRequest>, weight: number, currency: string): string {
+    return [
+      request.origin?.country || 'IN',
+      request.destination?.country || 'IN',
+      request.destination?.postalCode || '',
+      weight,
+      currency,
+    ].join(':');
+  }
+
+  private detectRegion(countryCode: string): string {
+    return ShippingAdapterFactory.getSupportedRegions().includes(countryCode) ? countryCode : 'IN';
+  }
+}
@@ -0,0 +1,531 @@
+import crypto from 'crypto';
+import { Prisma, PrismaClient, ReturnStatus } from '@prisma/client';
+import { ConflictError, NotFoundError, ValidationError } from '@newhill/shared/types/api';
+import { PaymentService } from './PaymentService';
+import { Logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+
+/**
+ * Returns (RMA) for individual order lines.
+ *
+ * REQUESTED -> APPROVED -> RECEIVED -> REFUNDED, or REQUESTED -> REJECTED.
+ * Inspection on receipt decides per line how many units go back into stock
+ * and into which lot; the refund is then issued for exactly the approved
+ * lines through the original payment.
+ */
+
+export type ReturnReason =
+  | 'UNOPENED_UNWANTED'
+  | 'DAMAGED_IN_TRANSIT'
+  | 'WRONG_ITEM'
+  | 'NOT_AS_DESCRIBED'
+  | 'DEFECTIVE';
+
+export type ReturnItemCondition = 'RESTOCKABLE' | 'DAMAGED' | 'OPENED';
+
+export interface ReturnRequestInput {
+  items: Array<{
+    orderItemId: string;
+    quantity: number;
+    reason: ReturnReason;
+    notes?: string;
+    photoUrls?: string[];
+  }>;
+  notes?: string;
+}
+
+export interface ReturnInspectionInput {
+  items: Array<{
+    returnItemId: string;
+    condition: ReturnItemCondition;
+    restockQuantity?: number;
+    // Defaults to the first lot the order line was allocated from
+    lotId?: string;
+    // Defaults to the full value of the returned units
+    refundAmount?: number;
+  }>;
+  notes?: string;
+}
+
+// Returns must be requested within this many days of delivery
+export const RETURN_WINDOW_DAYS = parseInt(process.env.RETURN_WINDOW_DAYS || '30', 10);
+
+const RETURNABLE_ORDER_STATUSES = ['PARTIALLY_DELIVERED', 'DELIVERED'];
+
+// RMA numbers count an order's returns; a number taken by a concurrent request is retried with the next one
+const MAX_RMA_ATTEMPTS = 5;
+
+const returnInclude = {
+  items: {
+    include: {
+      orderItem: {
+        include: {
+          variant: { include: { product: { select: { name: true } } } },
+          lotAllocations: { orderBy: { createdAt: 'asc' as const } },
+        },
+      },
+    },
+  },
+  order: { select: { id: true, orderNumber: true, userId: true, payments: true } },
+};
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * What the customer paid for some units of an order line: the discounted
+ * line price plus its tax, pro rata. Shipping is not refunded on returns.
+ */
+export function calculateLineRefund(
+  orderItem: { quantity: number; totalPrice: Prisma.Decimal | number; taxAmount: Prisma.Decimal | number },
+  quantity: number
+): number {
+  const lineTotal = Number(orderItem.totalPrice) + Number(orderItem.taxAmount);
+  return round((lineTotal * quantity) / orderItem.quantity);
+}
+
+/**
+ * Plain JSON shape of a return for API responses
+ */
+export function serializeReturn(returnRecord: any) {
+  return {
+    id: returnRecord.id,
+    rmaNumber: returnRecord.rmaNumber,
+    orderId: returnRecord.orderId,
+    orderNumber: returnRecord.order?.orderNumber,
+    status: returnRecord.status,
+    customerNotes: returnRecord.customerNotes,
+    adminNotes: returnRecord.adminNotes,
+    rejectionReason: returnRecord.rejectionReason,
+    refundAmount: Number(returnRecord.refundAmount),
+    refundReference: returnRecord.refundReference,
+    items: returnRecord.items.map((item: any) => ({
+      id: item.id,
+      orderItemId: item.orderItemId,
+      productName: item.orderItem?.variant?.product?.name,
+      weightInGrams: item.orderItem?.variant?.weightInGrams,
+      quantity: item.quantity,
+      reason: item.reason,
+      notes: item.notes,
+      photoUrls: item.photoUrls,
+      condition: item.condition,
+      restockQuantity: item.restockQuantity,
+      restockLotId: item.restockLotId,
+      refundAmount: Number(item.refundAmount),
+    })),
+    approvedAt: returnRecord.approvedAt?.toISOString() ?? null,
+    receivedAt: returnRecord.receivedAt?.toISOString() ?? null,
+    refundedAt: returnRecord.refundedAt?.toISOString() ?? null,
+    createdAt: returnRecord.createdAt.toISOString(),
+  };
+}
+
+export class ReturnService {
+  private prisma: PrismaClient;
+  private logger: Logger;
+  private metrics: typeof MetricsCollector;
+  private paymentService: PaymentService;
+
+  constructor(
+    prisma: PrismaClient,
+    logger: Logger,
+    metrics: typeof MetricsCollector,
+    paymentService: PaymentService = new PaymentService(prisma, logger, metrics)
+  ) {
+    this.prisma = prisma;
+    this.logger = logger;
+    this.metrics = metrics;
+    this.paymentService = paymentService;
+  }
+
+  /**
+   * Open a return for delivered lines of an order
+   */
+  async requestReturn(orderId: string, userId: string, input: ReturnRequestInput) {
+    const traceId = crypto.randomUUID();
+
+    try {
+      const order = await this.prisma.order.findFirst({
+        where: { id: orderId, userId },
+        include: {
+          items: {
+            include: {
+              returnItems: { where: { return: { status: { not: 'REJECTED' } } } },
+              shipmentItems: { where: { shipment: { status: 'DELIVERED' } } },
+            },
+          },
+          shipments: true,
+          returns: { select: { id: true } },
+        },
+      });
+
+      if (!order) {
+        throw new NotFoundError('Order');
+      }
+
+      if (!RETURNABLE_ORDER_STATUSES.includes(order.status)) {
+        throw new ConflictError('Only delivered items can be returned');
+      }
+
+      const deliveredAt = order.shipments
+        .map(shipment => shipment.deliveredAt)
+        .filter((date): date is Date => Boolean(date))
+        .sort((a, b) => b.getTime() - a.getTime())[0] || order.updatedAt;
+
+      if (Date.now() - deliveredAt.getTime() > RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000) {
+        throw new ConflictError(`Returns must be requested within ${RETURN_WINDOW_DAYS} days of delivery`);
+      }
+
+      const requested = new Map<string, number>();
+      for (const item of input.items) {
+        requested.set(item.orderItemId, (requested.get(item.orderItemId) || 0) + item.quantity);
+      }
+
+      for (const [orderItemId, quantity] of requested) {
+        const orderItem = order.items.find(item => item.id === orderItemId);
+        if (!orderItem) {
+          throw new ValidationError(`Order item ${orderItemId} is not part of this order`);
+        }
+
+        // Orders delivered before split shipments have no shipment items; all of their units were delivered
+        const delivered = order.status === 'DELIVERED' && orderItem.shipmentItems.length === 0
+          ? orderItem.quantity
+          : orderItem.shipmentItems.reduce((sum, item) => sum + item.quantity, 0);
+        const alreadyReturned = orderItem.returnItems.reduce((sum, item) => sum + item.quantity, 0);
+        if (quantity > delivered - alreadyReturned) {
+          throw new ValidationError(
+            `Only ${Math.max(delivered - alreadyReturned, 0)} of order item ${orderItemId} can still be returned`
+          );
+        }
+      }
+
+      const returnRecord = await this.createReturn(orderId, userId, order.orderNumber, order.returns.length, input);
+
+      this.metrics.incrementCounter('returns.requested', 1, {});
+      this.logger.info('Return requested', { traceId, orderId, returnId: returnRecord.id });
+
+      return returnRecord;
+    } catch (error) {
+      this.logger.error('Return request failed', {
+        traceId,
+        orderId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  async listForOrder(orderId: string, userId: string) {
+    return this.prisma.return.findMany({
+      where: { orderId, userId },
+      include: returnInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async listReturns(filters: { status?: ReturnStatus; page: number; limit: number }) {
+    const where = filters.status ? { status: filters.status } : {};
+
+    const [items, total] = await Promise.all([
+      this.prisma.return.findMany({
+        where,
+        include: returnInclude,
+        orderBy: { createdAt: 'desc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      this.prisma.return.count({ where }),
+    ]);
+
+    return { items, total };
+  }
+
+  async approve(returnId: string, adminId: string, notes?: string) {
+    await this.transition(returnId, 'REQUESTED', {
+      status: 'APPROVED',
+      approvedAt: new Date(),
+      adminNotes: notes,
+    });
+
+    this.logger.info('Return approved', { returnId, adminId });
+    return this.getReturn(returnId);
+  }
+
+  async reject(returnId: string, adminId: string, reason: string) {
+    await this.transition(returnId, 'REQUESTED', {
+      status: 'REJECTED',
+      rejectionReason: reason,
+    });
+
+    this.logger.info('Return rejected', { returnId, adminId });
+    return this.getReturn(returnId);
+  }
+
+  /**
+   * Record inspection of the received items. Restockable units go back into
+   * the lot they were shipped from, with a ledger entry; everything else is
+   * written off in the ledger without touching stock.
+   */
+  async receive(returnId: string, adminId: string, input: ReturnInspectionInput) {
+    const traceId = crypto.randomUUID();
+    const returnRecord = await this.getReturn(returnId);
+
+    if (returnRecord.status !== 'APPROVED') {
+      throw new ConflictError(`Return is ${returnRecord.status.toLowerCase()}, expected approved`);
+    }
+
+    const inspections = new Map(input.items.map(item => [item.returnItemId, item]));
+    const missing = returnRecord.items.filter(item => !inspections.has(item.id));
+    if (missing.length > 0 || inspections.size !== returnRecord.items.length) {
+      throw new ValidationError('Every returned item must be inspected exactly once');
+    }
+
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        let refundAmount = 0;
+
+        for (const item of returnRecord.items) {
+          const inspection = inspections.get(item.id)!;
+          const orderItem = item.orderItem;
+          const maxRefund = calculateLineRefund(orderItem, item.quantity);
+          const lineRefund = inspection.refundAmount ?? maxRefund;
+
+          if (lineRefund < 0 || lineRefund - maxRefund > 0.005) {
+            throw new ValidationError(`Refund for return item ${item.id} must be between 0 and ${maxRefund.toFixed(2)}`);
+          }
+
+          const restockQuantity = inspection.condition === 'RESTOCKABLE'
+            ? inspection.restockQuantity ?? item.quantity
+            : 0;
+
+          if (restockQuantity < 0 || restockQuantity > item.quantity) {
+            throw new ValidationError(`Restock quantity for return item ${item.id} exceeds the returned quantity`);
+          }
+
+          const shippedLotIds = [
+            ...orderItem.lotAllocations.map(allocation => allocation.lotId),
+            ...(orderItem.lotId ? [orderItem.lotId] : []),
+          ];
+          const lotId = inspection.lotId || shippedLotIds[0];
+          const lot = lotId ? await tx.lot.findUnique({ where: { id: lotId } }) : null;
+
+          if (restockQuantity > 0) {
+            if (!lotId || !shippedLotIds.includes(lotId)) {
+              throw new ValidationError(`Return item ${item.id} must be restocked into a lot the order shipped from`);
+            }
+
+            if (!lot || lot.status !== 'ACTIVE' || lot.bestBefore <= new Date()) {
+              throw new ConflictError(`Lot ${lot?.batchCode || lotId} can no longer take returned stock`);
+            }
+
+            await tx.lot.update({
+              where: { id: lotId },
+              data: { qtyAvailable: { increment: restockQuantity } },
+            });
+          }
+
+          const writtenOff = item.quantity - restockQuantity;
+          const ledgerEntries = [
+            ...(restockQuantity > 0 ? [{ changeType: 'IN' as const, quantity: restockQuantity, reason: `Restocked from ${returnRecord.rmaNumber}` }] : []),
+            ...(writtenOff > 0 ? [{ changeType: 'DAMAGED' as const, quantity: writtenOff, reason: `Written off from ${returnRecord.rmaNumber} (${inspection.condition.toLowerCase()})` }] : []),
+          ];
+
+          for (const entry of ledgerEntries) {
+            await tx.inventoryLedger.create({
+              data: {
+                variantId: orderItem.variantId,
+                lotId: lotId || null,
+                warehouseId: lot?.warehouseId ?? null,
+                changeType: entry.changeType,
+                refType: 'ORDER',
+                quantity: entry.quantity,
+                reason: entry.reason,
+                metadata: {
+                  returnId,
+                  returnItemId: item.id,
+                  orderId: returnRecord.orderId,
+                  condition: inspection.condition,
+                  inspectedBy: adminId,
+                },
+              },
+            });
+          }
+
+          await tx.returnItem.update({
+            where: { id: item.id },
+            data: {
+              condition: inspection.condition,
+              restockQuantity,
+              restockLotId: restockQuantity > 0 ? lotId : null,
+              refundAmount: lineRefund,
+            },
+          });
+
+          refundAmount += lineRefund;
+        }
+
+        // Guard against a concurrent inspection of the same return
+        const { count } = await tx.return.updateMany({
+          where: { id: returnId, status: 'APPROVED' },
+          data: {
+            status: 'RECEIVED',
+            receivedAt: new Date(),
+            refundAmount: round(refundAmount),
+            ...(input.notes && { adminNotes: input.notes }),
+          },
+        });
+
+        if (count === 0) {
+          throw new ConflictError('Return was updated by someone else');
+        }
+      });
+
+      this.metrics.incrementCounter('returns.received', 1, {});
+      this.logger.info('Return received and inspected', { traceId, returnId, adminId });
+
+      return this.getReturn(returnId);
+    } catch (error) {
+      this.logger.error('Return inspection failed', {
+        traceId,
+        returnId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Refund the inspected return's amount to the order's payment
+   */
+  async refund(returnId: string, adminId: string) {
+    const traceId = crypto.randomUUID();
+    const returnRecord = await this.getReturn(returnId);
+
+    if (returnRecord.status !== 'RECEIVED') {
+      throw new ConflictError(`Return is ${returnRecord.status.toLowerCase()}, expected received`);
+    }
+
+    const payment = returnRecord.order.payments
+      .filter(entry => entry.status === 'COMPLETED')
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+
+    if (!payment) {
+      throw new ConflictError('Order has no completed payment to refund');
+    }
+
+    const amount = Number(returnRecord.refundAmount);
+
+    try {
+      // Claim the return first so a double click cannot refund twice
+      const { count } = await this.prisma.return.updateMany({
+        where: { id: returnId, status: 'RECEIVED' },
+        data: { status: 'REFUNDED', refundedAt: new Date() },
+      });
+
+      if (count === 0) {
+        throw new ConflictError('Return was updated by someone else');
+      }
+
+      let refundReference: string | undefined;
+
+      if (amount > 0) {
+        try {
+          const refund = await this.paymentService.refundPayment(
+            payment.providerId,
+            amount,
+            `${returnRecord.rmaNumber} for order ${returnRecord.order.orderNumber}`
+          );
+          refundReference = refund.metadata?.refundId;
+        } catch (error) {
+          await this.prisma.return.update({
+            where: { id: returnId },
+            data: { status: 'RECEIVED', refundedAt: null },
+          });
+          throw error;
+        }
+      }
+
+      await this.prisma.return.update({
+        where: { id: returnId },
+        data: { refundReference },
+      });
+
+      this.metrics.incrementCounter('returns.refunded', 1, {});
+      this.logger.info('Return refunded', { traceId, returnId, adminId, amount });
+
+      return this.getReturn(returnId);
+    } catch (error) {
+      this.logger.error('Return refund failed', {
+        traceId,
+        returnId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  async getReturn(returnId: string) {
+    const returnRecord = await this.prisma.return.findUnique({
+      where: { id: returnId },
+      include: returnInclude,
+    });
+
+    if (!returnRecord) {
+      throw new NotFoundError('Return');
+    }
+
+    return returnRecord;
+  }
+
+  private async createReturn(
+    orderId: string,
+    userId: string,
+    orderNumber: string,
+    existingReturns: number,
+    input: ReturnRequestInput
+  ) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.prisma.return.create({
+          data: {
+            rmaNumber: `RMA-${orderNumber}-${existingReturns + attempt}`,
+            orderId,
+            userId,
+            customerNotes: input.notes,
+            items: {
+              create: input.items.map(item => ({
+                orderItemId: item.orderItemId,
+                quantity: item.quantity,
+                reason: item.reason,
+                notes: item.notes,
+                photoUrls: item.photoUrls || [],
+              })),
+            },
+          },
+          include: returnInclude,
+        });
+      } catch (error) {
+        const isUniqueViolation = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+        if (!isUniqueViolation || attempt >= MAX_RMA_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private async transition(returnId: string, from: ReturnStatus, data: Prisma.ReturnUpdateManyMutationInput) {
+    const { count } = await this.prisma.return.updateMany({
+      where: { id: returnId, status: from },
+      data,
+    });
+
+    if (count === 0) {
+      const existing = await this.prisma.return.findUnique({ where: { id: returnId }, select: { status: true } });
+      if (!existing) {
+        throw new NotFoundError('Return');
+      }
+      throw new ConflictError(`Return is ${existing.status.toLowerCase()}, expected ${from.toLowerCase()}`);
+    }
+  }
+}
@@ -0,0 +1,606 @@
+/**
+ * In-process product search index.
+ *
+ * Maintains an inverted index over product names (every translation), categories,
+ * lot origins and descriptions. Query terms match exactly, by prefix (for the term
+ * being typed) or within a small edit distance, so "tumeric" still finds turmeric.
+ * The index holds no database handles; SearchService feeds it documents.
+ */
+
+export interface IndexedLot {
+  id: string;
+  variantId: string;
+  batchCode: string;
+  originEstate: string;
+  harvestedOn: Date;
+  bestBefore: Date;
+  qtyAvailable: number;
+  qtyReserved: number;
+}
+
+export interface IndexedVariant {
+  id: string;
+  weightInGrams: number;
+  basePriceINR: number;
+  prices: Record<string, number>;
+  availableQuantity: number;
+  isActive: boolean;
+}
+
+export interface IndexedProduct {
+  id: string;
+  names: Record<string, string>;
+  descriptions: Record<string, string>;
+  category: string;
+  certifications: string[];
+  images: string[];
+  variants: IndexedVariant[];
+  lots: IndexedLot[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SearchIndexFilters {
+  category?: string;
+  certification?: string;
+  weight?: number;
+  priceMin?: number;
+  priceMax?: number;
+  inStock?: boolean;
+}
+
+export interface SearchIndexQuery {
+  text: string;
+  language?: string;
+  currency: string;
+  // INR to `currency` rate used when a variant has no explicit CurrencyPrice
+  conversionRate: number | null;
+  filters?: SearchIndexFilters;
+  sortBy?: 'relevance' | 'name' | 'price' | 'createdAt' | 'popularity';
+  order?: 'asc' | 'desc';
+  offset?: number;
+  limit?: number;
+}
+
+export interface SearchIndexHit {
+  product: IndexedProduct;
+  score: number;
+  price: number | null;
+}
+
+export interface FacetCount {
+  name: string;
+  count: number;
+}
+
+export interface SearchIndexFacets {
+  categories: FacetCount[];
+  certifications: FacetCount[];
+  weights: Array<{ value: number; count: number }>;
+  priceRange: { min: number; max: number };
+  priceBuckets: Array<{ min: number; max: number; count: number }>;
+}
+
+export interface SearchIndexResult {
+  hits: SearchIndexHit[];
+  total: number;
+  didYouMean?: string[];
+  facets: SearchIndexFacets;
+}
+
+interface TermMatch {
+  term: string;
+  similarity: number;
+  fuzzy: boolean;
+}
+
+const FIELD_WEIGHTS = {
+  name: 3,
+  category: 2,
+  origin: 1.5,
+  description: 1,
+};
+
+// Matches in the shopper's own language rank above matches in other translations
+const LANGUAGE_BOOST = 1.25;
+const PREFIX_SIMILARITY = 0.9;
+const PRICE_BUCKET_COUNT = 4;
+const ARABIC_ARTICLE = /^(?:\u0648|\u0628|\u0641|\u0643)?\u0627\u0644/;
+
+/**
+ * Normalize text for matching: folds case, Latin diacritics, Arabic diacritics and
+ * letter variants, and Devanagari nukta/chandrabindu so equivalent spellings collide.
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Latin combining marks
+    .replace(/[\u064b-\u065f\u0670\u0640]/g, '') // Arabic harakat, hamza marks and tatweel
+    .replace(/\u093c/g, '') // Devanagari nukta
+    .normalize('NFC')
+    .replace(/[\u0622\u0623\u0625\u0671]/g, '\u0627') // alef variants -> bare alef
+    .replace(/\u0649/g, '\u064a') // alef maqsura -> ya
+    .replace(/\u0629/g, '\u0647') // ta marbuta -> ha
+    .replace(/\u0901/g, '\u0902') // chandrabindu -> anusvara
+    .toLowerCase();
+}
+
+/**
+ * Split text into normalized terms. Marks are kept so Devanagari vowel signs
+ * stay attached to their consonants, and the Arabic definite article is dropped
+ * so "الكركم" and "كركم" index to the same term.
+ */
+export function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .split(/[^\p{L}\p{N}\p{M}]+/u)
+    .map(term => (term.length > 3 ? term.replace(ARABIC_ARTICLE, '') : term))
+    .filter(term => term.length > 0);
+}
+
+/**
+ * Damerau-Levenshtein (optimal string alignment) distance over code points,
+ * giving up as soon as the distance is known to exceed `max`.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  const source = Array.from(a);
+  const target = Array.from(b);
+
+  if (Math.abs(source.length - target.length) > max) {
+    return max + 1;
+  }
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: target.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= source.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= target.length; j++) {
+      const cost = source[i - 1] === target[j - 1] ? 0 : 1;
+      let value = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+
+      if (
+        i > 1 &&
+        j > 1 &&
+        source[i - 1] === target[j - 2] &&
+        source[i - 2] === target[j - 1]
+      ) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) {
+      return max + 1;
+    }
+
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[target.length];
+}
+
+/**
+ * Price of a variant in `currency`: the explicit CurrencyPrice when one exists,
+ * otherwise the INR base price converted at `conversionRate`.
+ */
+export function resolveVariantPrice(
+  variant: IndexedVariant,
+  currency: string,
+  conversionRate: number | null
+): number | null {
+  if (variant.prices[currency] !== undefined) {
+    return variant.prices[currency];
+  }
+
+  if (conversionRate === null) {
+    return null;
+  }
+
+  return round(variant.basePriceINR * conversionRate);
+}
+
+function allowedDistance(term: string): number {
+  const length = Array.from(term).length;
+  if (length < 4) return 0;
+  if (length < 8) return 1;
+  return 2;
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function niceStep(range: number): number {
+  if (range <= 0) return 1;
+
+  const magnitude = Math.pow(10, Math.floor(Math.log10(range)));
+  for (const multiplier of [1, 2, 5, 10]) {
+    if (multiplier * magnitude >= range) {
+      return multiplier * magnitude;
+    }
+  }
+
+  return 10 * magnitude;
+}
+
+export class SearchIndex {
+  private documents = new Map<string, IndexedProduct>();
+  private postings = new Map<string, Map<string, number>>();
+  private documentTerms = new Map<string, Set<string>>();
+  private nameTermsByLanguage = new Map<string, Map<string, Set<string>>>();
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  has(productId: string): boolean {
+    return this.documents.has(productId);
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.documentTerms.clear();
+    this.nameTermsByLanguage.clear();
+  }
+
+  /**
+   * Add a product, replacing any previously indexed version of it
+   */
+  upsert(product: IndexedProduct): void {
+    this.remove(product.id);
+
+    const termWeights = new Map<string, number>();
+    const addTerms = (text: string | undefined, weight: number): string[] => {
+      const terms = text ? tokenize(text) : [];
+      for (const term of terms) {
+        termWeights.set(term, Math.max(termWeights.get(term) || 0, weight));
+      }
+      return terms;
+    };
+
+    const languageTerms = new Map<string, Set<string>>();
+    for (const [language, name] of Object.entries(product.names)) {
+      languageTerms.set(language, new Set(addTerms(name, FIELD_WEIGHTS.name)));
+    }
+
+    addTerms(product.category, FIELD_WEIGHTS.category);
+    for (const certification of product.certifications) {
+      addTerms(certification, FIELD_WEIGHTS.category);
+    }
+
+    for (const lot of product.lots) {
+      addTerms(lot.originEstate, FIELD_WEIGHTS.origin);
+    }
+
+    for (const description of Object.values(product.descriptions)) {
+      addTerms(description, FIELD_WEIGHTS.description);
+    }
+
+    for (const [term, weight] of termWeights) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(product.id, weight);
+    }
+
+    this.documents.set(product.id, product);
+    this.documentTerms.set(product.id, new Set(termWeights.keys()));
+    this.nameTermsByLanguage.set(product.id, languageTerms);
+  }
+
+  remove(productId: string): void {
+    const terms = this.documentTerms.get(productId);
+    if (terms) {
+      for (const term of terms) {
+        const posting = this.postings.get(term);
+        posting?.delete(productId);
+        if (posting && posting.size === 0) {
+          this.postings.delete(term);
+        }
+      }
+    }
+
+    this.documents.delete(productId);
+    this.documentTerms.delete(productId);
+    this.nameTermsByLanguage.delete(productId);
+  }
+
+  search(query: SearchIndexQuery): SearchIndexResult {
+    const queryTerms = tokenize(query.text);
+    const corrections: string[] = [];
+    let corrected = false;
+
+    let scores: Map<string, number>;
+
+    if (queryTerms.length === 0) {
+      scores = new Map(Array.from(this.documents.keys()).map(id => [id, 0]));
+    } else {
+      scores = new Map();
+
+      queryTerms.forEach((queryTerm, index) => {
+        const matches = this.expandTerm(queryTerm, index === queryTerms.length - 1);
+        const termScores = new Map<string, number>();
+
+        for (const match of matches) {
+          for (const [productId, weight] of this.postings.get(match.term) || []) {
+            const languageBoost =
+              query.language && this.nameTermsByLanguage.get(productId)?.get(query.language)?.has(match.term)
+                ? LANGUAGE_BOOST
+                : 1;
+            const score = match.similarity * weight * languageBoost;
+            termScores.set(productId, Math.max(termScores.get(productId) || 0, score));
+          }
+        }
+
+        // Every query term has to match somewhere in the product
+        if (index === 0) {
+          scores = termScores;
+        } else {
+          for (const [productId, score] of scores) {
+            const termScore = termScores.get(productId);
+            if (termScore === undefined) {
+              scores.delete(productId);
+            } else {
+              scores.set(productId, score + termScore);
+            }
+          }
+        }
+
+        const bestFuzzy = matches.every(match => match.fuzzy) ? matches[0] : undefined;
+        if (bestFuzzy) {
+          corrected = true;
+          corrections.push(bestFuzzy.term);
+        } else {
+          corrections.push(queryTerm);
+        }
+      });
+    }
+
+    const matched: SearchIndexHit[] = Array.from(scores.entries()).map(([productId, score]) => {
+      const product = this.documents.get(productId)!;
+      return {
+        product,
+        score,
+        price: this.lowestPrice(product, query.currency, query.conversionRate),
+      };
+    });
+
+    const facets = this.buildFacets(matched, query.currency, query.conversionRate);
+    const filtered = matched.filter(hit => this.matchesFilters(hit, query));
+    const sorted = this.sortHits(filtered, query);
+
+    const offset = query.offset || 0;
+    const limit = query.limit || sorted.length;
+
+    return {
+      hits: sorted.slice(offset, offset + limit),
+      total: sorted.length,
+      didYouMean: corrected ? [corrections.join(' ')] : undefined,
+      facets,
+    };
+  }
+
+  /**
+   * Product names matching a partial query, best match first
+   */
+  suggest(text: string, language: string, limit: number): string[] {
+    const result = this.search({
+      text,
+      language,
+      currency: 'INR',
+      conversionRate: 1,
+      sortBy: 'relevance',
+    });
+
+    const suggestions: string[] = [];
+    for (const hit of result.hits) {
+      const name = hit.product.names[language] || hit.product.names.en;
+      if (name && !suggestions.includes(name)) {
+        suggestions.push(name);
+      }
+      if (suggestions.length >= limit) {
+        break;
+      }
+    }
+
+    return suggestions;
+  }
+
+  private expandTerm(queryTerm: string, isLast: boolean): TermMatch[] {
+    const matches = new Map<string, TermMatch>();
+
+    if (this.postings.has(queryTerm)) {
+      matches.set(queryTerm, { term: queryTerm, similarity: 1, fuzzy: false });
+    }
+
+    const maxDistance = allowedDistance(queryTerm);
+    const allowPrefix = isLast && Array.from(queryTerm).length >= 2;
+
+    for (const term of this.postings.keys()) {
+      if (matches.has(term)) {
+        continue;
+      }
+
+      if (allowPrefix && term.startsWith(queryTerm)) {
+        matches.set(term, { term, similarity: PREFIX_SIMILARITY, fuzzy: false });
+        continue;
+      }
+
+      if (maxDistance > 0) {
+        const distance = editDistance(queryTerm, term, maxDistance);
+        if (distance <= maxDistance) {
+          matches.set(term, { term, similarity: 1 - distance * 0.25, fuzzy: true });
+        }
+      }
+    }
+
+    // Highest similarity first, then the more common term, then alphabetical for stable output
+    return Array.from(matches.values()).sort(
+      (a, b) =>
+        b.similarity - a.similarity ||
+        (this.postings.get(b.term)?.size || 0) - (this.postings.get(a.term)?.size || 0) ||
+        a.term.localeCompare(b.term)
+    );
+  }
+
+  private lowestPrice(product: IndexedProduct, currency: string, conversionRate: number | null): number | null {
+    const prices = product.variants
+      .filter(variant => variant.isActive)
+      .map(variant => resolveVariantPrice(variant, currency, conversionRate))
+      .filter((price): price is number => price !== null);
+
+    return prices.length > 0 ? Math.min(...prices) : null;
+  }
+
+  private matchesFilters(hit: SearchIndexHit, query: SearchIndexQuery): boolean {
+    const filters = query.filters;
+    if (!filters) {
+      return true;
+    }
+
+    const product = hit.product;
+
+    if (filters.category && normalizeText(product.category) !== normalizeText(filters.category)) {
+      return false;
+    }
+
+    if (
+      filters.certification &&
+      !product.certifications.some(cert => normalizeText(cert) === normalizeText(filters.certification!))
+    ) {
+      return false;
+    }
+
+    if (filters.inStock && !product.variants.some(variant => variant.isActive && variant.availableQuantity > 0)) {
+      return false;
+    }
+
+    if (filters.weight !== undefined || filters.priceMin !== undefined || filters.priceMax !== undefined) {
+      // Weight and price must be satisfied by the same variant
+      return product.variants.some(variant => {
+        if (!variant.isActive) return false;
+        if (filters.weight !== undefined && variant.weightInGrams !== filters.weight) return false;
+
+        const price = resolveVariantPrice(variant, query.currency, query.conversionRate);
+        if (filters.priceMin !== undefined && (price === null || price < filters.priceMin)) return false;
+        if (filters.priceMax !== undefined && (price === null || price > filters.priceMax)) return false;
+
+        return true;
+      });
+    }
+
+    return true;
+  }
+
+  private sortHits(hits: SearchIndexHit[], query: SearchIndexQuery): SearchIndexHit[] {
+    const direction = query.order === 'asc' ? 1 : -1;
+    const language = query.language || 'en';
+    const nameOf = (hit: SearchIndexHit) => hit.product.names[language] || hit.product.names.en || '';
+
+    const byRelevance = (a: SearchIndexHit, b: SearchIndexHit) =>
+      b.score - a.score || nameOf(a).localeCompare(nameOf(b)) || a.product.id.localeCompare(b.product.id);
+
+    return [...hits].sort((a, b) => {
+      switch (query.sortBy) {
+        case 'name':
+          return direction * nameOf(a).localeCompare(nameOf(b)) || byRelevance(a, b);
+        case 'price':
+          // Products without a price in this currency always sort last
+          if (a.price === null || b.price === null) {
+            return (a.price === null ? 1 : 0) - (b.price === null ? 1 : 0) || byRelevance(a, b);
+          }
+          return direction * (a.price - b.price) || byRelevance(a, b);
+        case 'createdAt':
+          return direction * (a.product.createdAt.getTime() - b.product.createdAt.getTime()) || byRelevance(a, b);
+        default:
+          return byRelevance(a, b);
+      }
+    });
+  }
+
+  private buildFacets(hits: SearchIndexHit[], currency: string, conversionRate: number | null): SearchIndexFacets {
+    const categories = new Map<string, number>();
+    const certifications = new Map<string, number>();
+    const weights = new Map<number, number>();
+    const prices: number[] = [];
+
+    for (const hit of hits) {
+      const product = hit.product;
+      categories.set(product.category, (categories.get(product.category) || 0) + 1);
+
+      for (const certification of product.certifications) {
+        certifications.set(certification, (certifications.get(certification) || 0) + 1);
+      }
+
+      const productWeights = new Set(
+        product.variants.filter(variant => variant.isActive).map(variant => variant.weightInGrams)
+      );
+      for (const weight of productWeights) {
+        weights.set(weight, (weights.get(weight) || 0) + 1);
+      }
+
+      for (const variant of product.variants) {
+        const price = variant.isActive ? resolveVariantPrice(variant, currency, conversionRate) : null;
+        if (price !== null) {
+          prices.push(price);
+        }
+      }
+    }
+
+    const toFacetCounts = (counts: Map<string, number>): FacetCount[] =>
+      Array.from(counts.entries())
+        .map(([name, count]) => ({ name, count }))
+        .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+
+    const min = prices.length > 0 ? Math.min(...prices) : 0;
+    const max = prices.length > 0 ? Math.max(...prices) : 0;
+
+    return {
+      categories: toFacetCounts(categories),
+      certifications: toFacetCounts(certifications),
+      weights: Array.from(weights.entries())
+        .map(([value, count]) => ({ value, count }))
+        .sort((a, b) => a.value - b.value),
+      priceRange: { min, max },
+      priceBuckets: this.buildPriceBuckets(hits, min, max),
+    };
+  }
+
+  private buildPriceBuckets(
+    hits: SearchIndexHit[],
+    min: number,
+    max: number
+  ): Array<{ min: number; max: number; count: number }> {
+    const priced = hits.filter(hit => hit.price !== null);
+    if (priced.length === 0) {
+      return [];
+    }
+
+    const step = niceStep((max - min) / PRICE_BUCKET_COUNT);
+    const start = Math.floor(min / step) * step;
+    const buckets: Array<{ min: number; max: number; count: number }> = [];
+
+    for (let lower = start; lower <= max; lower += step) {
+      buckets.push({ min: round(lower), max: round(lower + step), count: 0 });
+    }
+
+    for (const hit of priced) {
+      const index = Math.min(Math.floor((hit.price! - start) / step), buckets.length - 1);
+      buckets[index].count++;
+    }
+
+    return buckets.filter(bucket => bucket.count > 0);
+  }
+}
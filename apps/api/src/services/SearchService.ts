@@ -0,0 +1,341 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { Product, SearchFilters, SearchResult } from '@newhill/shared/types/api';
+import {
+  IndexedProduct,
+  SearchIndex,
+  SearchIndexHit,
+  resolveVariantPrice,
+} from './SearchIndex';
+import { Logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+
+export interface ProductSearchParams {
+  query: string;
+  filters?: SearchFilters;
+  language: string;
+  currency: string;
+  page?: number;
+  limit?: number;
+}
+
+const productInclude = {
+  translations: true,
+  variants: {
+    where: { softDeleted: false },
+    orderBy: { weightInGrams: 'asc' as const },
+    include: {
+      currencyPrices: true,
+      lots: {
+        where: { status: 'ACTIVE' as const },
+      },
+    },
+  },
+};
+
+// Mutations made outside this process (e.g. the web admin) are picked up on the next rebuild
+const INDEX_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_TRACKED_QUERIES = 1000;
+
+export class SearchService {
+  // Shared by every SearchService instance so admin mutations update the index search reads
+  private static index = new SearchIndex();
+  private static builtAt: number | null = null;
+  private static building: Promise<void> | null = null;
+  private static queryCounts = new Map<string, number>();
+
+  private prisma: PrismaClient;
+  private logger: Logger;
+  private metrics: typeof MetricsCollector;
+
+  constructor(prisma: PrismaClient, logger: Logger, metrics: typeof MetricsCollector) {
+    this.prisma = prisma;
+    this.logger = logger;
+    this.metrics = metrics;
+  }
+
+  async search(params: ProductSearchParams): Promise<SearchResult> {
+    const startTime = Date.now();
+    await this.ensureIndex();
+
+    const currency = params.currency.toUpperCase();
+    const conversionRate = await this.getConversionRate(currency);
+    const limit = params.limit || 20;
+    const page = params.page || 1;
+
+    const result = SearchService.index.search({
+      text: params.query,
+      language: params.language,
+      currency,
+      conversionRate,
+      filters: params.filters,
+      sortBy: params.filters?.sortBy || 'relevance',
+      order: params.filters?.order,
+      offset: (page - 1) * limit,
+      limit,
+    });
+
+    if (result.total > 0) {
+      this.recordQuery(params.query);
+    }
+
+    this.metrics.recordTiming('search.query.duration', Date.now() - startTime, {
+      language: params.language,
+    });
+
+    return {
+      products: result.hits.map(hit => this.toProduct(hit, currency, conversionRate)),
+      suggestions: SearchService.index.suggest(params.query, params.language, 5),
+      didYouMean: result.didYouMean,
+      total: result.total,
+      filters: {
+        categories: result.facets.categories,
+        priceRange: result.facets.priceRange,
+        certifications: result.facets.certifications,
+        weights: result.facets.weights,
+        priceBuckets: result.facets.priceBuckets,
+      },
+    };
+  }
+
+  async suggest(query: string, language: string, limit: number): Promise<string[]> {
+    await this.ensureIndex();
+    return SearchService.index.suggest(query, language, limit);
+  }
+
+  /**
+   * Most frequent queries that returned results since the process started
+   */
+  getPopularTerms(limit: number): Array<{ term: string; count: number }> {
+    return Array.from(SearchService.queryCounts.entries())
+      .map(([term, count]) => ({ term, count }))
+      .sort((a, b) => b.count - a.count || a.term.localeCompare(b.term))
+      .slice(0, limit);
+  }
+
+  /**
+   * Re-read a single product and replace it in the index. Inactive or deleted
+   * products are dropped from the index.
+   */
+  async reindexProduct(productId: string): Promise<void> {
+    if (SearchService.builtAt === null) {
+      // Nothing to update yet; the first search builds the full index
+      return;
+    }
+
+    const product = await this.prisma.product.findUnique({
+      where: { id: productId },
+      include: productInclude,
+    });
+
+    if (!product || product.softDeleted || product.status !== 'ACTIVE') {
+      SearchService.index.remove(productId);
+    } else {
+      SearchService.index.upsert(this.toIndexedProduct(product));
+    }
+
+    this.metrics.incrementCounter('search.index.product_updated', 1, {});
+    this.logger.info('Search index updated', { productId, indexed: SearchService.index.has(productId) });
+  }
+
+  removeProduct(productId: string): void {
+    SearchService.index.remove(productId);
+  }
+
+  /**
+   * Rebuild the whole index from the database
+   */
+  async rebuild(): Promise<void> {
+    const traceId = crypto.randomUUID();
+    const startTime = Date.now();
+
+    try {
+      const products = await this.prisma.product.findMany({
+        where: { status: 'ACTIVE', softDeleted: false },
+        include: productInclude,
+      });
+
+      const index = new SearchIndex();
+      for (const product of products) {
+        index.upsert(this.toIndexedProduct(product));
+      }
+
+      SearchService.index = index;
+      SearchService.builtAt = Date.now();
+
+      this.metrics.recordTiming('search.index.rebuild.duration', Date.now() - startTime, {});
+      this.logger.info('Search index rebuilt', {
+        traceId,
+        products: index.size,
+        durationMs: Date.now() - startTime,
+      });
+    } catch (error) {
+      this.logger.error('Search index rebuild failed', {
+        traceId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  private async ensureIndex(): Promise<void> {
+    const stale =
+      SearchService.builtAt === null ||
+      Date.now() - SearchService.builtAt > INDEX_REFRESH_INTERVAL_MS;
+
+    if (!stale) {
+      return;
+    }
+
+    // Concurrent searches share one rebuild
+    if (!SearchService.building) {
+      SearchService.building = this.rebuild().finally(() => {
+        SearchService.building = null;
+      });
+    }
+
+    // Serve the previous index while refreshing; only the first build is awaited
+    if (SearchService.builtAt === null) {
+      await SearchService.building;
+      return;
+    }
+
+    // rebuild() has logged a failed refresh; searches keep the previous index
+    SearchService.building.catch(() => undefined);
+  }
+
+  private async getConversionRate(currency: string): Promise<number | null> {
+    if (currency === 'INR') {
+      return 1;
+    }
+
+    const rate = await this.prisma.currencyRate.findUnique({
+      where: { fromCurrency_toCurrency: { fromCurrency: 'INR', toCurrency: currency } },
+    });
+
+    return rate ? Number(rate.rate) : null;
+  }
+
+  private recordQuery(query: string): void {
+    const term = query.trim().toLowerCase();
+    const counts = SearchService.queryCounts;
+
+    if (!counts.has(term) && counts.size >= MAX_TRACKED_QUERIES) {
+      // Drop the least frequent term to keep memory bounded
+      const [leastFrequent] = Array.from(counts.entries()).sort((a, b) => a[1] - b[1])[0];
+      counts.delete(leastFrequent);
+    }
+
+    counts.set(term, (counts.get(term) || 0) + 1);
+  }
+
+  private toIndexedProduct(product: any): IndexedProduct {
+    const names: Record<string, string> = { en: product.name };
+    const descriptions: Record<string, string> = product.description ? { en: product.description } : {};
+
+    for (const translation of product.translations) {
+      names[translation.language] = translation.name;
+      if (translation.description) {
+        descriptions[translation.language] = translation.description;
+      }
+    }
+
+    const lots = product.variants.flatMap((variant: any) =>
+      variant.lots.map((lot: any) => ({
+        id: lot.id,
+        variantId: variant.id,
+        batchCode: lot.batchCode,
+        originEstate: lot.originEstate,
+        harvestedOn: lot.harvestedOn,
+        bestBefore: lot.bestBefore,
+        qtyAvailable: lot.qtyAvailable,
+        qtyReserved: lot.qtyReserved,
+      }))
+    );
+
+    return {
+      id: product.id,
+      names,
+      descriptions,
+      category: product.category,
+      certifications: product.organicCertified ? ['organic'] : [],
+      images: product.images,
+      variants: product.variants.map((variant: any) => ({
+        id: variant.id,
+        weightInGrams: variant.weightInGrams,
+        basePriceINR: Number(variant.basePriceINR),
+        prices: Object.fromEntries(
+          variant.currencyPrices.map((price: any) => [price.currency, Number(price.price)])
+        ),
+        availableQuantity: variant.lots.reduce((sum: number, lot: any) => sum + lot.qtyAvailable, 0),
+        isActive: variant.status !== 'INACTIVE',
+      })),
+      lots,
+      createdAt: product.createdAt,
+      updatedAt: product.updatedAt,
+    };
+  }
+
+  private toProduct(hit: SearchIndexHit, currency: string, conversionRate: number | null): Product {
+    const product = hit.product;
+    const activeVariants = product.variants.filter(variant => variant.isActive);
+    const stockQuantity = activeVariants.reduce((sum, variant) => sum + variant.availableQuantity, 0);
+    const slug = this.slugify(product.names.en || product.id);
+
+    const shortDescription: Record<string, string> = {};
+    for (const [language, description] of Object.entries(product.descriptions)) {
+      shortDescription[language] = description.split(/(?<=[.!?।؟])\s/)[0];
+    }
+
+    return {
+      id: product.id,
+      slug,
+      name: product.names,
+      description: product.descriptions,
+      shortDescription,
+      price: hit.price ?? 0,
+      currency,
+      category: product.category,
+      weight: activeVariants[0]?.weightInGrams || 0,
+      unit: 'g',
+      inStock: stockQuantity > 0,
+      stockQuantity,
+      images: product.images,
+      variants: activeVariants.map(variant => ({
+        id: variant.id,
+        productId: product.id,
+        name: `${variant.weightInGrams}g`,
+        weight: variant.weightInGrams,
+        unit: 'g',
+        price: resolveVariantPrice(variant, currency, conversionRate) ?? 0,
+        sku: `${slug}-${variant.weightInGrams}g`,
+        isActive: variant.isActive,
+      })),
+      lots: product.lots.map(lot => ({
+        id: lot.id,
+        productId: product.id,
+        lotNumber: lot.batchCode,
+        quantity: lot.qtyAvailable,
+        reservedQuantity: lot.qtyReserved,
+        expiryDate: lot.bestBefore.toISOString(),
+        batchDate: lot.harvestedOn.toISOString(),
+        isActive: true,
+        metadata: { originEstate: lot.originEstate },
+      })),
+      certifications: product.certifications,
+      tags: [product.category],
+      isActive: true,
+      createdAt: product.createdAt.toISOString(),
+      updatedAt: product.updatedAt.toISOString(),
+    };
+  }
+
+  private slugify(value: string): string {
+    return value
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+}
@@ -1,6 +1,9 @@
 import crypto from 'crypto';
-import { PrismaClient } from '@prisma/client';
+import { OrderStatus, PrismaClient, ShipmentStatus as ShipmentRecordStatus } from '@prisma/client';
+import { NotFoundError } from '@newhill/shared/types/api';
 import {
+  OrderShipment,
+  OrderTracking,
   ShippingRequest,
   ShippingResponse,
   ShippingUpdate,
@@ -11,21 +14,71 @@ import {
   ShippingTimeoutError,
   ShipmentStatus,
   ShippingProvider,
+  ShippingMethod,
   REGION_CONFIGS,
+  SHIPMENT_STATUS_LABELS,
+  normalizeShipmentStatus,
 } from '@newhill/shared/types/shipping';
+import { FulfilmentLine, OrderTransitionError, deriveFulfilmentStatus } from '@newhill/shared/types/order';
 import { ShippingAdapterFactory } from '../adapters/shipping/ShippingAdapterFactory';
+import { OrderActor, OrderStatusService } from './OrderStatusService';
 import { Logger } from '../utils/logger';
 import { MetricsCollector } from '../utils/metrics';
 
+// Order lines (and how many units of each) to put in one shipment
+export interface ShipmentLineRequest {
+  orderItemId: string;
+  quantity: number;
+}
+
+// Shipments whose units are back with us and can be shipped again
+const INACTIVE_SHIPMENT_STATUSES: ShipmentRecordStatus[] = ['FAILED', 'RETURNED'];
+
+// Carrier statuses at which a shipment has left the warehouse
+const SHIPPED_STATUSES: ShipmentRecordStatus[] = ['IN_TRANSIT', 'OUT_FOR_DELIVERY', 'DELIVERED'];
+
+// Order statuses that can still have units waiting to ship
+const SHIPPABLE_ORDER_STATUSES: OrderStatus[] = ['CONFIRMED', 'PROCESSING', 'PARTIALLY_SHIPPED', 'PARTIALLY_DELIVERED'];
+
+// Shipments the carrier still has events to report for
+const TRACKABLE_SHIPMENT_STATUSES: ShipmentRecordStatus[] = ['PENDING', 'PACKED', 'IN_TRANSIT', 'OUT_FOR_DELIVERY'];
+
+// Shipments are polled again once their last poll is this old
+const TRACKING_STALE_MINUTES = parseInt(process.env.SHIPMENT_TRACKING_STALE_MINUTES || '60', 10);
+
+// Shipments still open after this long are stuck with the carrier and no longer polled
+const TRACKING_MAX_AGE_DAYS = parseInt(process.env.SHIPMENT_TRACKING_MAX_AGE_DAYS || '30', 10);
+
+export type ShipmentEventSource = 'WEBHOOK' | 'POLL';
+
+export interface TrackingPollResult {
+  checked: number;
+  events: number;
+  updated: number;
+  errors: number;
+}
+
+// The shared (lowercase) shipment status as the database spells it
+function toRecordStatus(status: ShipmentStatus): ShipmentRecordStatus {
+  return status.toUpperCase() as ShipmentRecordStatus;
+}
+
 export class ShippingService {
   private prisma: PrismaClient;
   private logger: Logger;
-  private metrics: MetricsCollector;
-
-  constructor(prisma: PrismaClient, logger: Logger, metrics: MetricsCollector) {
+  private metrics: typeof MetricsCollector;
+  private orderStatus: OrderStatusService;
+
+  constructor(
+    prisma: PrismaClient,
+    logger: Logger,
+    metrics: typeof MetricsCollector,
+    orderStatus: OrderStatusService = new OrderStatusService(prisma, logger, metrics)
+  ) {
     this.prisma = prisma;
     this.logger = logger;
     this.metrics = metrics;
+    this.orderStatus = orderStatus;
   }
 
   async createShipment(request: ShippingRequest): Promise<ShippingResponse> {
@@ -42,12 +95,19 @@ export class ShippingService {
       });
 
       // Validate request
-      await this.validateShippingRequest(request);
+      const order = await this.validateShippingRequest(request);
 
       // Get shipping adapter based on region
       const region = this.detectRegion(request.destination.country);
       const adapter = this.getShippingAdapter(region);
 
+      // Move the order to processing with its first shipment so an unpaid order never reaches a carrier
+      if (order.status === 'CONFIRMED') {
+        await this.orderStatus.transition(request.orderId, 'processing', { type: 'SYSTEM' }, {
+          reason: 'Shipment created',
+        });
+      }
+
       // Create shipment record in database
       const shipmentRecord = await this.createShipmentRecord(request, adapter.provider);
 
@@ -57,17 +117,17 @@ export class ShippingService {
       // Update shipment record with provider response
       await this.updateShipmentRecord(shipmentRecord.id, shipmentResponse);
 
-      // Update order status
-      await this.updateOrderStatus(request.orderId, 'processing');
+      // Some carriers pick up as soon as the shipment is booked
+      await this.syncOrderFulfilment(request.orderId, { type: 'SYSTEM' });
 
       // Log metrics
-      this.metrics.increment('shipment.created', {
+      this.metrics.incrementCounter('shipment.created', 1, {
         provider: adapter.provider,
         region,
         method: request.method,
       });
 
-      this.metrics.timing('shipment.creation.duration', Date.now() - startTime, {
+      this.metrics.recordTiming('shipment.creation.duration', Date.now() - startTime, {
         provider: adapter.provider,
         region,
       });
@@ -91,7 +151,7 @@ export class ShippingService {
         method: request.method,
       });
 
-      this.metrics.increment('shipment.creation.failed', {
+      this.metrics.incrementCounter('shipment.creation.failed', 1, {
         error: error instanceof Error ? error.constructor.name : 'UnknownError',
         region: this.detectRegion(request.destination.country),
       });
@@ -100,6 +160,408 @@ export class ShippingService {
     }
   }
 
+  /**
+   * Ship some of an order's lines from the warehouse. Without items, every
+   * unit not already in a shipment goes into this one.
+   */
+  async createOrderShipment(
+    orderId: string,
+    items?: ShipmentLineRequest[],
+    method: ShippingMethod = 'standard'
+  ): Promise<ShippingResponse> {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      include: {
+        shippingAddress: true,
+        items: {
+          include: {
+            variant: {
+              include: {
+                product: true,
+              },
+            },
+          },
+        },
+        payments: {
+          where: { method: 'COD', status: 'PENDING' },
+        },
+        shipments: {
+          where: { codAmount: { not: null }, status: { notIn: INACTIVE_SHIPMENT_STATUSES } },
+        },
+      },
+    });
+
+    if (!order) {
+      throw new ShippingError('ORDER_NOT_FOUND', 'Order not found');
+    }
+
+    // The first shipment of a cash on delivery order collects the whole order total
+    const codAmount = order.payments.length > 0 && order.shipments.length === 0
+      ? Number(order.totalAmount)
+      : undefined;
+
+    const unshipped = await this.getUnshippedQuantities(orderId);
+    const lines = items || order.items.map(item => ({
+      orderItemId: item.id,
+      quantity: unshipped.get(item.id) || 0,
+    })).filter(line => line.quantity > 0);
+
+    const shippingItems = lines.map(line => {
+      const item = order.items.find(orderItem => orderItem.id === line.orderItemId);
+
+      if (!item) {
+        throw new ShippingError('INVALID_ITEM', `Order item ${line.orderItemId} is not part of this order`);
+      }
+
+      return {
+        id: item.id,
+        name: item.variant.product.name,
+        sku: item.variant.id,
+        quantity: line.quantity,
+        weight: item.variant.weightInGrams,
+        value: Number(item.unitPrice),
+        description: `Spice: ${item.variant.product.name}`,
+      };
+    });
+
+    return this.createShipment({
+      orderId: order.id,
+      items: shippingItems,
+      origin: {
+        name: 'Newhill Spices Warehouse',
+        address1: 'Warehouse Address',
+        city: 'Mumbai',
+        state: 'Maharashtra',
+        country: 'IN',
+        postalCode: '400001',
+        phone: '+91-9876543210',
+      },
+      destination: {
+        name: `${order.shippingAddress.firstName} ${order.shippingAddress.lastName}`,
+        address1: order.shippingAddress.address1,
+        address2: order.shippingAddress.address2,
+        city: order.shippingAddress.city,
+        state: order.shippingAddress.state,
+        country: order.shippingAddress.country,
+        postalCode: order.shippingAddress.postalCode,
+        phone: order.shippingAddress.phone || '',
+      },
+      method,
+      weight: shippingItems.reduce((sum, item) => sum + item.weight * item.quantity, 0),
+      dimensions: {
+        length: 30,
+        width: 20,
+        height: 15,
+      },
+      value: shippingItems.reduce((sum, item) => sum + item.value * item.quantity, 0),
+      currency: order.currency,
+      instructions: order.notes || 'Handle with care - Spices',
+      codAmount,
+    });
+  }
+
+  /**
+   * Record a carrier status for a shipment, looked up by id or tracking
+   * number, and move the order to the status its fulfilment now implies
+   */
+  async applyCarrierStatus(shipmentRef: string, status: string, actor: OrderActor): Promise<boolean> {
+    const shipment = await this.prisma.shipment.findFirst({
+      where: {
+        OR: [
+          { id: shipmentRef },
+          { trackingNumber: shipmentRef },
+        ],
+      },
+    });
+
+    if (!shipment) {
+      return false;
+    }
+
+    const normalized = normalizeShipmentStatus(status);
+    if (!normalized) {
+      this.logger.warn('Unknown carrier status ignored', { shipmentId: shipment.id, status });
+      return false;
+    }
+
+    const shipmentStatus = toRecordStatus(normalized);
+    await this.prisma.shipment.update({
+      where: { id: shipment.id },
+      data: {
+        status: shipmentStatus,
+        ...this.fulfilmentTimestamps(shipment, shipmentStatus),
+      },
+    });
+
+    await this.syncOrderFulfilment(shipment.orderId, actor);
+
+    return true;
+  }
+
+  /**
+   * Derive the order status from how many units of each line are in shipments
+   * the carrier has picked up or delivered. Carrier updates arrive late and
+   * out of order, so a status the order has moved past is logged and skipped.
+   */
+  async syncOrderFulfilment(orderId: string, actor: OrderActor): Promise<void> {
+    const items = await this.prisma.orderItem.findMany({
+      where: { orderId },
+      include: {
+        shipmentItems: {
+          include: { shipment: { select: { status: true } } },
+        },
+      },
+    });
+
+    const lines: FulfilmentLine[] = items.map(item => ({
+      quantity: item.quantity,
+      shippedQuantity: item.shipmentItems
+        .filter(shipmentItem => SHIPPED_STATUSES.includes(shipmentItem.shipment.status))
+        .reduce((sum, shipmentItem) => sum + shipmentItem.quantity, 0),
+      deliveredQuantity: item.shipmentItems
+        .filter(shipmentItem => shipmentItem.shipment.status === 'DELIVERED')
+        .reduce((sum, shipmentItem) => sum + shipmentItem.quantity, 0),
+    }));
+
+    const status = deriveFulfilmentStatus(lines);
+    if (!status) {
+      return;
+    }
+
+    try {
+      await this.orderStatus.transition(orderId, status, actor, {
+        reason: actor.type === 'WEBHOOK' ? `${actor.id} webhook` : 'Shipment status updated',
+      });
+    } catch (error) {
+      if (!(error instanceof OrderTransitionError)) {
+        throw error;
+      }
+
+      this.logger.warn('Fulfilment order transition skipped', {
+        orderId,
+        status,
+        actor,
+        error: error.message,
+      });
+    }
+  }
+
+  async getOrderShipments(orderId: string, userId?: string): Promise<OrderShipment[]> {
+    const order = await this.prisma.order.findFirst({
+      where: { id: orderId, ...(userId && { userId }) },
+      select: { id: true },
+    });
+
+    if (!order) {
+      throw new NotFoundError('Order');
+    }
+
+    const shipments = await this.prisma.shipment.findMany({
+      where: { orderId },
+      include: {
+        items: {
+          include: {
+            orderItem: {
+              include: { variant: { include: { product: { select: { name: true } } } } },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return shipments.map(shipment => ({
+      id: shipment.id,
+      carrier: shipment.carrier,
+      trackingNumber: shipment.trackingNumber,
+      trackingUrl: shipment.trackingUrl,
+      status: shipment.status.toLowerCase() as ShipmentStatus,
+      shippedAt: shipment.shippedAt?.toISOString() ?? null,
+      deliveredAt: shipment.deliveredAt?.toISOString() ?? null,
+      createdAt: shipment.createdAt.toISOString(),
+      items: shipment.items.map(item => ({
+        orderItemId: item.orderItemId,
+        productName: item.orderItem.variant.product.name,
+        quantity: item.quantity,
+      })),
+    }));
+  }
+
+  /**
+   * Store carrier events on a shipment's timeline. Events already stored,
+   * e.g. a scan pushed by webhook and then seen again by polling, are skipped.
+   * Returns how many new events were stored.
+   */
+  async recordTrackingEvents(shipmentRef: string, updates: ShippingUpdate[], source: ShipmentEventSource): Promise<number> {
+    const shipment = await this.prisma.shipment.findFirst({
+      where: {
+        OR: [
+          { id: shipmentRef },
+          { trackingNumber: shipmentRef },
+        ],
+      },
+      select: { id: true },
+    });
+
+    if (!shipment) {
+      return 0;
+    }
+
+    const events = updates.flatMap(update => {
+      const status = normalizeShipmentStatus(update.status);
+      const occurredAt = new Date(update.timestamp);
+
+      if (!status || isNaN(occurredAt.getTime())) {
+        this.logger.warn('Unusable carrier event skipped', {
+          shipmentId: shipment.id,
+          status: update.status,
+          timestamp: update.timestamp,
+        });
+        return [];
+      }
+
+      return [{
+        shipmentId: shipment.id,
+        status: toRecordStatus(status),
+        carrierCode: update.carrierCode || null,
+        description: update.description || SHIPMENT_STATUS_LABELS[status],
+        location: update.location || null,
+        occurredAt,
+        source,
+      }];
+    });
+
+    if (events.length === 0) {
+      return 0;
+    }
+
+    const { count } = await this.prisma.shipmentEvent.createMany({
+      data: events,
+      skipDuplicates: true,
+    });
+
+    if (count > 0) {
+      this.metrics.incrementCounter('shipping.tracking_events', 1, { source });
+    }
+
+    return count;
+  }
+
+  /**
+   * Poll carriers for open shipments whose events have not been fetched
+   * recently. Catches shipments whose webhooks never arrived and carriers
+   * that do not push at all.
+   */
+  async pollActiveShipments(limit: number = 100): Promise<TrackingPollResult> {
+    const traceId = crypto.randomUUID();
+    const startTime = Date.now();
+    const staleBefore = new Date(Date.now() - TRACKING_STALE_MINUTES * 60 * 1000);
+    const result: TrackingPollResult = { checked: 0, events: 0, updated: 0, errors: 0 };
+
+    const shipments = await this.prisma.shipment.findMany({
+      where: {
+        status: { in: TRACKABLE_SHIPMENT_STATUSES },
+        trackingNumber: { not: null },
+        carrier: { not: null },
+        createdAt: { gte: new Date(Date.now() - TRACKING_MAX_AGE_DAYS * 24 * 60 * 60 * 1000) },
+        OR: [{ lastTrackedAt: null }, { lastTrackedAt: { lt: staleBefore } }],
+      },
+      include: { order: { include: { shippingAddress: true } } },
+      orderBy: { lastTrackedAt: { sort: 'asc', nulls: 'first' } },
+      take: limit,
+    });
+
+    for (const shipment of shipments) {
+      result.checked++;
+
+      try {
+        const adapter = ShippingAdapterFactory.getProviderAdapter(
+          shipment.carrier as ShippingProvider,
+          this.detectRegion(shipment.order.shippingAddress.country),
+          process.env.NODE_ENV === 'production' ? 'live' : 'sandbox'
+        );
+        const updates = await adapter.trackShipment(shipment.trackingNumber!);
+
+        result.events += await this.recordTrackingEvents(shipment.id, updates, 'POLL');
+
+        const latest = updates.reduce<ShippingUpdate | null>(
+          (newest, update) => (!newest || update.timestamp > newest.timestamp ? update : newest),
+          null
+        );
+
+        if (latest && latest.status.toUpperCase() !== shipment.status) {
+          if (await this.applyCarrierStatus(shipment.id, latest.status, { type: 'SYSTEM' })) {
+            result.updated++;
+          }
+        }
+
+        await this.prisma.shipment.update({
+          where: { id: shipment.id },
+          data: { lastTrackedAt: new Date() },
+        });
+      } catch (error) {
+        result.errors++;
+        this.metrics.incrementCounter('shipping.tracking_poll.error', 1, { provider: shipment.carrier || 'unknown' });
+        this.logger.error('Shipment tracking poll failed', {
+          traceId,
+          shipmentId: shipment.id,
+          provider: shipment.carrier,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    this.metrics.recordTiming('shipping.tracking_poll.duration', Date.now() - startTime, {});
+    this.logger.info('Shipment tracking poll completed', { traceId, ...result });
+
+    return result;
+  }
+
+  /**
+   * An order's shipments and their timelines for the public tracking page.
+   * The order number and the email it was placed with must both match, and
+   * a mismatch looks the same as an unknown order.
+   */
+  async getOrderTracking(orderNumber: string, email: string): Promise<OrderTracking> {
+    const order = await this.prisma.order.findFirst({
+      where: {
+        orderNumber,
+        softDeleted: false,
+        user: { email: { equals: email.trim(), mode: 'insensitive' } },
+      },
+      include: {
+        shipments: {
+          include: { events: { orderBy: { occurredAt: 'desc' } } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundError('Order');
+    }
+
+    return {
+      orderNumber: order.orderNumber,
+      orderStatus: order.status,
+      placedAt: order.createdAt.toISOString(),
+      shipments: order.shipments.map(shipment => ({
+        carrier: shipment.carrier,
+        trackingNumber: shipment.trackingNumber,
+        trackingUrl: shipment.trackingUrl,
+        status: shipment.status.toLowerCase() as ShipmentStatus,
+        shippedAt: shipment.shippedAt?.toISOString() ?? null,
+        deliveredAt: shipment.deliveredAt?.toISOString() ?? null,
+        events: shipment.events.map(event => ({
+          status: event.status.toLowerCase() as ShipmentStatus,
+          description: event.description,
+          location: event.location,
+          occurredAt: event.occurredAt.toISOString(),
+        })),
+      })),
+    };
+  }
+
   async getShipmentStatus(shipmentId: string): Promise<ShippingResponse> {
     const traceId = crypto.randomUUID();
 
@@ -128,6 +590,7 @@ export class ShippingService {
 
       // Update shipment record
       await this.updateShipmentRecord(shipmentRecord.id, statusResponse);
+      await this.syncOrderFulfilment(shipmentRecord.orderId, { type: 'SYSTEM' });
 
       this.logger.info('Shipment status retrieved successfully', {
         traceId,
@@ -174,8 +637,7 @@ export class ShippingService {
       // Track shipment with provider
       const trackingUpdates = await this.trackShipmentWithProvider(adapter, trackingNumber, traceId);
 
-      // Store tracking updates
-      await this.storeTrackingUpdates(shipmentRecord.id, trackingUpdates);
+      await this.recordTrackingEvents(shipmentRecord.id, trackingUpdates, 'POLL');
 
       this.logger.info('Shipment tracking completed', {
         traceId,
@@ -228,7 +690,9 @@ export class ShippingService {
         await this.updateShipmentStatus(shipmentId, 'cancelled');
 
         // Update order status
-        await this.updateOrderStatus(shipmentRecord.orderId, 'cancelled');
+        await this.orderStatus.transition(shipmentRecord.orderId, 'cancelled', { type: 'SYSTEM' }, {
+          reason: reason || 'Shipment cancelled',
+        });
 
         this.logger.info('Shipment cancelled successfully', {
           traceId,
@@ -285,6 +749,25 @@ export class ShippingService {
   }
 
   async processWebhook(provider: ShippingProvider, payload: any, signature: string): Promise<ShippingWebhook> {
+    if (!this.verifyWebhook(provider, payload, signature)) {
+      throw new ShippingError('INVALID_WEBHOOK_SIGNATURE', 'Invalid webhook signature');
+    }
+
+    return this.applyWebhook(provider, payload);
+  }
+
+  verifyWebhook(provider: ShippingProvider, payload: any, signature: string): boolean {
+    const adapter = this.getShippingAdapter(this.detectRegionFromProvider(provider));
+    return adapter.validateWebhook(payload, signature);
+  }
+
+  /**
+   * Apply a webhook whose signature has already been checked. The webhook
+   * inbox calls this for new events, retries and replays; tracking events are
+   * stored once per time and status, so a second run adds nothing as long as
+   * it is given the time the webhook was first received.
+   */
+  async applyWebhook(provider: ShippingProvider, payload: any, receivedAt: Date = new Date()): Promise<ShippingWebhook> {
     const traceId = crypto.randomUUID();
 
     try {
@@ -294,23 +777,10 @@ export class ShippingService {
         event: payload.event,
       });
 
-      // Get shipping adapter
-      const region = this.detectRegionFromProvider(provider);
-      const adapter = this.getShippingAdapter(region);
-
-      // Validate webhook signature
-      if (!adapter.validateWebhook(payload, signature)) {
-        throw new ShippingError('INVALID_WEBHOOK_SIGNATURE', 'Invalid webhook signature');
-      }
-
-      // Process webhook
+      const adapter = this.getShippingAdapter(this.detectRegionFromProvider(provider));
       const webhook = await adapter.processWebhook(payload);
 
-      // Store webhook in database
-      await this.storeWebhook(webhook);
-
-      // Process webhook event
-      await this.processWebhookEvent(webhook, traceId);
+      await this.processWebhookEvent(webhook, receivedAt);
 
       this.logger.info('Shipping webhook processed successfully', {
         traceId,
@@ -332,7 +802,7 @@ export class ShippingService {
     }
   }
 
-  private async validateShippingRequest(request: ShippingRequest): Promise<void> {
+  private async validateShippingRequest(request: ShippingRequest) {
     // Validate weight
     if (request.weight <= 0) {
       throw new ShippingError('INVALID_WEIGHT', 'Weight must be greater than 0');
@@ -358,14 +828,56 @@ export class ShippingService {
       throw new ShippingError('ORDER_NOT_FOUND', 'Order not found');
     }
 
-    // Check if shipment already exists for this order
-    const existingShipment = await this.prisma.shipment.findFirst({
-      where: { orderId: request.orderId },
-    });
+    if (!SHIPPABLE_ORDER_STATUSES.includes(order.status)) {
+      throw new ShippingError('ORDER_NOT_SHIPPABLE', `Cannot ship an order that is ${order.status.toLowerCase()}`);
+    }
 
-    if (existingShipment) {
-      throw new ShippingError('SHIPMENT_EXISTS', 'Shipment already exists for this order');
+    // Validate items against what is still waiting to ship
+    if (request.items.length === 0) {
+      throw new ShippingError('NO_ITEMS', 'Shipment must contain at least one item');
     }
+
+    const unshipped = await this.getUnshippedQuantities(request.orderId);
+    for (const item of request.items) {
+      const remaining = unshipped.get(item.id);
+
+      if (remaining === undefined) {
+        throw new ShippingError('INVALID_ITEM', `Order item ${item.id} is not part of this order`);
+      }
+
+      if (item.quantity <= 0 || item.quantity > remaining) {
+        throw new ShippingError(
+          'INVALID_QUANTITY',
+          `Order item ${item.id} has ${remaining} unit(s) left to ship, cannot ship ${item.quantity}`
+        );
+      }
+
+      unshipped.set(item.id, remaining - item.quantity);
+    }
+
+    return order;
+  }
+
+  /**
+   * Units of each order line not yet in a shipment. Failed and returned
+   * shipments give their units back.
+   */
+  private async getUnshippedQuantities(orderId: string): Promise<Map<string, number>> {
+    const items = await this.prisma.orderItem.findMany({
+      where: { orderId },
+      include: {
+        shipmentItems: {
+          include: { shipment: { select: { status: true } } },
+        },
+      },
+    });
+
+    return new Map(items.map(item => [
+      item.id,
+      item.quantity - item.shipmentItems
+        .filter(shipmentItem => !INACTIVE_SHIPMENT_STATUSES.includes(shipmentItem.shipment.status))
+        .reduce((sum, shipmentItem) => sum + shipmentItem.quantity, 0),
+    ]));
   }
 
   private getShippingAdapter(region: string): ShippingConnector {
@@ -407,7 +919,14 @@ export class ShippingService {
         trackingNumber: crypto.randomUUID(), // Temporary tracking number
         carrier: provider,
         status: 'PENDING',
+        codAmount: request.codAmount,
         notes: request.instructions,
+        items: {
+          create: request.items.map(item => ({
+            orderItemId: item.id,
+            quantity: item.quantity,
+          })),
+        },
         metadata: {
           weight: request.weight,
           dimensions: request.dimensions,
@@ -428,12 +947,12 @@ export class ShippingService {
       return await adapter.createShipment(request);
     } catch (error) {
       if (error instanceof ShippingTimeoutError) {
-        this.metrics.increment('shipment.provider.timeout', {
+        this.metrics.incrementCounter('shipment.provider.timeout', 1, {
           provider: adapter.provider,
           region: adapter.region,
         });
       } else if (error instanceof ShippingProviderError) {
-        this.metrics.increment('shipment.provider.error', {
+        this.metrics.incrementCounter('shipment.provider.error', 1, {
           provider: adapter.provider,
           region: adapter.region,
           errorCode: error.code,
@@ -449,12 +968,12 @@ export class ShippingService {
       return await adapter.getShipmentStatus(shipmentId);
     } catch (error) {
       if (error instanceof ShippingTimeoutError) {
-        this.metrics.increment('shipment.status.timeout', {
+        this.metrics.incrementCounter('shipment.status.timeout', 1, {
           provider: adapter.provider,
           region: adapter.region,
         });
       } else if (error instanceof ShippingProviderError) {
-        this.metrics.increment('shipment.status.error', {
+        this.metrics.incrementCounter('shipment.status.error', 1, {
           provider: adapter.provider,
           region: adapter.region,
           errorCode: error.code,
@@ -470,12 +989,12 @@ export class ShippingService {
       return await adapter.trackShipment(trackingNumber);
     } catch (error) {
       if (error instanceof ShippingTimeoutError) {
-        this.metrics.increment('shipment.tracking.timeout', {
+        this.metrics.incrementCounter('shipment.tracking.timeout', 1, {
           provider: adapter.provider,
           region: adapter.region,
         });
       } else if (error instanceof ShippingProviderError) {
-        this.metrics.increment('shipment.tracking.error', {
+        this.metrics.incrementCounter('shipment.tracking.error', 1, {
           provider: adapter.provider,
           region: adapter.region,
           errorCode: error.code,
@@ -491,12 +1010,12 @@ export class ShippingService {
       return await adapter.cancelShipment(shipmentId, reason);
     } catch (error) {
       if (error instanceof ShippingTimeoutError) {
-        this.metrics.increment('shipment.cancellation.timeout', {
+        this.metrics.incrementCounter('shipment.cancellation.timeout', 1, {
           provider: adapter.provider,
           region: adapter.region,
         });
       } else if (error instanceof ShippingProviderError) {
-        this.metrics.increment('shipment.cancellation.error', {
+        this.metrics.incrementCounter('shipment.cancellation.error', 1, {
           provider: adapter.provider,
           region: adapter.region,
           errorCode: error.code,
@@ -512,12 +1031,12 @@ export class ShippingService {
       return await adapter.getShippingRates(request);
     } catch (error) {
       if (error instanceof ShippingTimeoutError) {
-        this.metrics.increment('shipment.rates.timeout', {
+        this.metrics.incrementCounter('shipment.rates.timeout', 1, {
           provider: adapter.provider,
           region: adapter.region,
         });
       } else if (error instanceof ShippingProviderError) {
-        this.metrics.increment('shipment.rates.error', {
+        this.metrics.incrementCounter('shipment.rates.error', 1, {
           provider: adapter.provider,
           region: adapter.region,
           errorCode: error.code,
@@ -529,12 +1048,19 @@ export class ShippingService {
   }
 
   private async updateShipmentRecord(shipmentId: string, response: ShippingResponse) {
+    const shipment = await this.prisma.shipment.findUniqueOrThrow({
+      where: { id: shipmentId },
+    });
+    const status = toRecordStatus(response.status);
+
     await this.prisma.shipment.update({
       where: { id: shipmentId },
       data: {
         trackingNumber: response.trackingNumber,
+        trackingUrl: response.trackingUrl,
         carrier: response.provider,
-        status: response.status.toUpperCase() as any,
+        status,
+        ...this.fulfilmentTimestamps(shipment, status),
         metadata: {
           ...response.metadata,
           updatedAt: new Date().toISOString(),
@@ -543,6 +1069,22 @@ export class ShippingService {
     });
   }
 
+  /**
+   * Stamp when a shipment was picked up and delivered, keeping the first time
+   * the carrier reported it
+   */
+  private fulfilmentTimestamps(
+    shipment: { shippedAt: Date | null; deliveredAt: Date | null },
+    status: ShipmentRecordStatus
+  ) {
+    const now = new Date();
+
+    return {
+      ...(SHIPPED_STATUSES.includes(status) && !shipment.shippedAt && { shippedAt: now }),
+      ...(status === 'DELIVERED' && !shipment.deliveredAt && { deliveredAt: now }),
+    };
+  }
+
   private async updateShipmentStatus(shipmentId: string, status: string) {
     await this.prisma.shipment.update({
       where: { id: shipmentId },
@@ -553,38 +1095,22 @@ export class ShippingService {
     });
   }
 
-  private async updateOrderStatus(orderId: string, status: string) {
-    await this.prisma.order.update({
-      where: { id: orderId },
-      data: {
-        status: status.toUpperCase() as any,
-        updatedAt: new Date(),
-      },
-    });
-  }
+  private async processWebhookEvent(webhook: ShippingWebhook, receivedAt: Date) {
+    // Update shipment status based on webhook data; the order status follows from all of its shipments
+    const shipmentId = webhook.data?.shipment?.id || webhook.data?.order_id;
+    const status = webhook.data?.shipment?.status || webhook.data?.status;
 
-  private async storeTrackingUpdates(shipmentId: string, updates: ShippingUpdate[]) {
-    // Store tracking updates in database
-    // This could be a separate tracking_updates table
-    for (const update of updates) {
-      // Store each update
+    if (!shipmentId || !status) {
+      return;
     }
-  }
 
-  private async storeWebhook(webhook: ShippingWebhook) {
-    // Store webhook in database for audit trail
-    // Implementation depends on your webhook storage strategy
-  }
+    // Carriers that push only the new status get a single event on the timeline
+    const updates: ShippingUpdate[] = webhook.data?.updates?.length
+      ? webhook.data.updates
+      : [{ shipmentId, trackingNumber: shipmentId, status, timestamp: receivedAt.toISOString() }];
 
-  private async processWebhookEvent(webhook: ShippingWebhook, traceId: string) {
-    // Process webhook event based on event type
-    // This could include updating shipment status, sending notifications, etc.
-    this.logger.info('Processing shipping webhook event', {
-      traceId,
-      webhookId: webhook.id,
-      event: webhook.event,
-      provider: webhook.provider,
-    });
+    await this.recordTrackingEvents(shipmentId, updates, 'WEBHOOK');
+    await this.applyCarrierStatus(shipmentId, status, { type: 'WEBHOOK', id: webhook.provider });
   }
 }
 
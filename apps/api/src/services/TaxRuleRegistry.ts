@@ -0,0 +1,274 @@
+import { ValidationError } from '@newhill/shared/types/api';
+import { GstLineInput, GstSupplyType, SELLER_STATE, calculateGst } from './GstTaxEngine';
+
+/**
+ * Destination tax rules keyed by region (ISO country) code. Each region can
+ * have several rules over time; the one in force on the order date applies.
+ * New regions are added by registering another rule, not by touching checkout.
+ */
+
+export interface TaxContext {
+  region: string;
+  state: string;
+  orderDate: Date;
+  lines: GstLineInput[];
+  shipping: number;
+  // Verified GST/VAT registration of an approved B2B buyer
+  buyerTaxNumber: string | null;
+}
+
+export interface TaxLine {
+  id: string;
+  hsnCode: string | null;
+  rate: number;
+  taxableValue: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  vatAmount: number;
+  taxAmount: number;
+}
+
+export interface TaxResult {
+  ruleId: string;
+  region: string;
+  taxName: 'GST' | 'VAT' | 'NONE';
+  rate: number | null;
+  reverseCharge: boolean;
+  // How the supply is classified for Indian GST; every non-Indian destination is an export
+  supplyType: GstSupplyType;
+  placeOfSupply: string;
+  lines: TaxLine[];
+  taxableValue: number;
+  shippingTax: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  vatAmount: number;
+  totalTax: number;
+}
+
+export interface TaxRule {
+  id: string;
+  region: string;
+  effectiveFrom: Date;
+  // Exclusive; open-ended when omitted
+  effectiveTo?: Date;
+  calculate(context: TaxContext): TaxResult;
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function sumLines(lines: TaxLine[], field: 'taxableValue' | 'cgstAmount' | 'sgstAmount' | 'igstAmount' | 'vatAmount'): number {
+  return round(lines.reduce((total, line) => total + line[field], 0));
+}
+
+/**
+ * Indian GST on domestic orders; see GstTaxEngine for the state rules
+ */
+export function createGstRule(id: string, effectiveFrom: Date, sellerState: string = SELLER_STATE): TaxRule {
+  return {
+    id,
+    region: 'IN',
+    effectiveFrom,
+    calculate(context) {
+      const gst = calculateGst(context.lines, { state: context.state, country: 'IN' }, sellerState);
+      const lines = gst.lines.map(line => ({
+        id: line.id,
+        hsnCode: line.hsnCode,
+        rate: line.gstRate,
+        taxableValue: line.taxableValue,
+        cgstAmount: line.cgstAmount,
+        sgstAmount: line.sgstAmount,
+        igstAmount: line.igstAmount,
+        vatAmount: 0,
+        taxAmount: line.taxAmount,
+      }));
+
+      return {
+        ruleId: id,
+        region: 'IN',
+        taxName: 'GST',
+        rate: null, // Varies per HSN code
+        reverseCharge: false,
+        supplyType: gst.supplyType,
+        placeOfSupply: gst.placeOfSupply,
+        lines,
+        taxableValue: gst.taxableValue,
+        shippingTax: 0,
+        cgstAmount: gst.cgstAmount,
+        sgstAmount: gst.sgstAmount,
+        igstAmount: gst.igstAmount,
+        vatAmount: 0,
+        totalTax: gst.totalTax,
+      };
+    },
+  };
+}
+
+/**
+ * Single-rate VAT charged on goods and shipping. A buyer with a VAT
+ * registration accounts for the tax themselves (reverse charge), so nothing
+ * is charged but the rule is still recorded on the order.
+ */
+export function createVatRule(
+  id: string,
+  region: string,
+  rate: number,
+  effectiveFrom: Date,
+  effectiveTo?: Date
+): TaxRule {
+  return {
+    id,
+    region,
+    effectiveFrom,
+    effectiveTo,
+    calculate(context) {
+      const reverseCharge = rate > 0 && Boolean(context.buyerTaxNumber);
+      const chargedRate = reverseCharge ? 0 : rate;
+
+      const lines = context.lines.map(line => {
+        const taxableValue = round(line.taxableValue);
+        const vatAmount = round((taxableValue * chargedRate) / 100);
+
+        return {
+          id: line.id,
+          hsnCode: line.hsnCode,
+          rate: chargedRate,
+          taxableValue,
+          cgstAmount: 0,
+          sgstAmount: 0,
+          igstAmount: 0,
+          vatAmount,
+          taxAmount: vatAmount,
+        };
+      });
+
+      const shippingTax = round((context.shipping * chargedRate) / 100);
+      const vatAmount = round(sumLines(lines, 'vatAmount') + shippingTax);
+
+      return {
+        ruleId: id,
+        region,
+        taxName: 'VAT',
+        rate,
+        reverseCharge,
+        supplyType: 'EXPORT',
+        placeOfSupply: region,
+        lines,
+        taxableValue: sumLines(lines, 'taxableValue'),
+        shippingTax,
+        cgstAmount: 0,
+        sgstAmount: 0,
+        igstAmount: 0,
+        vatAmount,
+        totalTax: vatAmount,
+      };
+    },
+  };
+}
+
+function untaxed(context: TaxContext): TaxResult {
+  const lines = context.lines.map(line => ({
+    id: line.id,
+    hsnCode: line.hsnCode,
+    rate: 0,
+    taxableValue: round(line.taxableValue),
+    cgstAmount: 0,
+    sgstAmount: 0,
+    igstAmount: 0,
+    vatAmount: 0,
+    taxAmount: 0,
+  }));
+
+  return {
+    ruleId: 'NONE',
+    region: context.region,
+    taxName: 'NONE',
+    rate: 0,
+    reverseCharge: false,
+    supplyType: 'EXPORT',
+    placeOfSupply: context.region,
+    lines,
+    taxableValue: sumLines(lines, 'taxableValue'),
+    shippingTax: 0,
+    cgstAmount: 0,
+    sgstAmount: 0,
+    igstAmount: 0,
+    vatAmount: 0,
+    totalTax: 0,
+  };
+}
+
+export class TaxRuleRegistry {
+  private rules = new Map<string, TaxRule[]>();
+
+  register(rule: TaxRule): void {
+    const region = rule.region.toUpperCase();
+    const existing = this.rules.get(region) || [];
+
+    const overlapping = existing.find(other =>
+      rule.effectiveFrom < (other.effectiveTo || new Date(8.64e15)) &&
+      other.effectiveFrom < (rule.effectiveTo || new Date(8.64e15))
+    );
+    if (overlapping) {
+      throw new ValidationError(`Tax rule ${rule.id} overlaps ${overlapping.id} for ${region}`);
+    }
+
+    this.rules.set(
+      region,
+      [...existing, rule].sort((a, b) => a.effectiveFrom.getTime() - b.effectiveFrom.getTime())
+    );
+  }
+
+  /**
+   * Rule in force for a region on a given date, or null when the region has none
+   */
+  resolve(region: string, date: Date): TaxRule | null {
+    const rules = this.rules.get(region.toUpperCase()) || [];
+
+    return rules.find(rule =>
+      rule.effectiveFrom <= date && (!rule.effectiveTo || date < rule.effectiveTo)
+    ) || null;
+  }
+
+  /**
+   * Apply the rule in force for the destination. Regions without a rule are
+   * zero-rated exports with no destination tax collected at checkout.
+   */
+  calculate(context: TaxContext): TaxResult {
+    const region = context.region.trim().toUpperCase();
+    const rule = this.resolve(region, context.orderDate);
+
+    return rule ? rule.calculate({ ...context, region }) : untaxed({ ...context, region });
+  }
+
+  getRules(region?: string): TaxRule[] {
+    if (region) {
+      return [...(this.rules.get(region.toUpperCase()) || [])];
+    }
+
+    return Array.from(this.rules.values()).flat();
+  }
+}
+
+export const defaultTaxRegistry = new TaxRuleRegistry();
+
+defaultTaxRegistry.register(createGstRule('IN-GST', new Date('2017-07-01T00:00:00+05:30')));
+
+// UAE introduced VAT at 5% on 1 January 2018
+defaultTaxRegistry.register(createVatRule('AE-VAT', 'AE', 5, new Date('2018-01-01T00:00:00+04:00')));
+
+// Saudi Arabia started at 5% and raised the rate to 15% from 1 July 2020
+defaultTaxRegistry.register(
+  createVatRule('SA-VAT-2018', 'SA', 5, new Date('2018-01-01T00:00:00+03:00'), new Date('2020-07-01T00:00:00+03:00'))
+);
+defaultTaxRegistry.register(createVatRule('SA-VAT-2020', 'SA', 15, new Date('2020-07-01T00:00:00+03:00')));
+
+// Oman introduced VAT at 5% on 16 April 2021
+defaultTaxRegistry.register(createVatRule('OM-VAT', 'OM', 5, new Date('2021-04-16T00:00:00+04:00')));
+
+// Qatar has not implemented VAT; the zero-rate rule records that explicitly
+defaultTaxRegistry.register(createVatRule('QA-VAT', 'QA', 0, new Date('2018-01-01T00:00:00+03:00')));
@@ -0,0 +1,379 @@
+import crypto from 'crypto';
+import { Prisma, PrismaClient, WebhookEvent } from '@prisma/client';
+import { ConflictError, NotFoundError } from '@newhill/shared/types/api';
+import { PaymentError, PaymentProvider } from '@newhill/shared/types/payment';
+import { ShippingError, ShippingProvider } from '@newhill/shared/types/shipping';
+import {
+  WebhookEventDetail,
+  WebhookEventStatus,
+  WebhookEventSummary,
+  WebhookReceipt,
+  WebhookRetryResult,
+  WebhookSource,
+} from '@newhill/shared/types/webhook';
+import { PaymentService } from './PaymentService';
+import { ShippingService } from './ShippingService';
+import { Logger } from '../utils/logger';
+import { MetricsCollector } from '../utils/metrics';
+
+// Delay before the first retry; each further retry waits twice as long
+const RETRY_BASE_SECONDS = parseInt(process.env.WEBHOOK_RETRY_BASE_SECONDS || '60', 10);
+
+// Attempts before an event is parked as DEAD for an admin to look at
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10);
+
+// An event still PROCESSING after this long was left behind by a crashed process
+const PROCESSING_TIMEOUT_MINUTES = parseInt(process.env.WEBHOOK_PROCESSING_TIMEOUT_MINUTES || '10', 10);
+
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// Events picked up by one retry run
+const RETRY_BATCH_SIZE = 50;
+
+// Payload fields providers put their event ID in, in the order they are tried
+const EVENT_ID_FIELDS = ['event_id', 'eventId', 'webhook_id', 'id'];
+
+// Request headers that are never stored with the event
+const REDACTED_HEADERS = ['authorization', 'cookie', 'x-api-key'];
+
+export interface WebhookEventFilters {
+  source?: WebhookSource;
+  provider?: string;
+  status?: WebhookEventStatus;
+  page: number;
+  limit: number;
+}
+
+/**
+ * The provider's ID for an event, so a redelivery of the same event is
+ * recognised. Providers that send none get a hash of the payload: an
+ * identical retry matches, a genuinely new event does not.
+ */
+export function webhookEventId(payload: any, headers: Record<string, string | string[] | undefined>): string {
+  const headerId = headers['x-razorpay-event-id'] || headers['x-webhook-id'] || headers['x-event-id'];
+  if (typeof headerId === 'string' && headerId) {
+    return headerId;
+  }
+
+  for (const field of EVENT_ID_FIELDS) {
+    const value = payload?.[field];
+    if ((typeof value === 'string' && value) || typeof value === 'number') {
+      return String(value);
+    }
+  }
+
+  return `sha256:${crypto.createHash('sha256').update(JSON.stringify(payload ?? null)).digest('hex')}`;
+}
+
+/**
+ * Milliseconds to wait before the next attempt, after `attempts` failed ones
+ */
+export function nextRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_SECONDS * 1000 * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+export function serializeWebhookEvent(event: WebhookEvent): WebhookEventSummary {
+  return {
+    id: event.id,
+    source: event.source,
+    provider: event.provider,
+    eventId: event.eventId,
+    eventType: event.eventType || undefined,
+    status: event.status,
+    attempts: event.attempts,
+    lastError: event.lastError || undefined,
+    nextAttemptAt: event.nextAttemptAt?.toISOString(),
+    processedAt: event.processedAt?.toISOString(),
+    receivedAt: event.receivedAt.toISOString(),
+  };
+}
+
+/**
+ * Durable inbox for payment and shipping webhooks. Every verified delivery
+ * is stored before it is applied; a provider retry of a stored event is
+ * acknowledged without being applied again, failures are retried with
+ * backoff by the webhook retry job, and admins can replay any event.
+ */
+export class WebhookInboxService {
+  private prisma: PrismaClient;
+  private logger: Logger;
+  private metrics: typeof MetricsCollector;
+  private payments: PaymentService;
+  private shipping: ShippingService;
+
+  constructor(
+    prisma: PrismaClient,
+    logger: Logger,
+    metrics: typeof MetricsCollector,
+    payments: PaymentService = new PaymentService(prisma, logger, metrics),
+    shipping: ShippingService = new ShippingService(prisma, logger, metrics)
+  ) {
+    this.prisma = prisma;
+    this.logger = logger;
+    this.metrics = metrics;
+    this.payments = payments;
+    this.shipping = shipping;
+  }
+
+  /**
+   * Store a delivery and apply it once. A failure to apply is recorded for
+   * the retry job rather than thrown, so the provider is not asked to resend
+   * an event we already hold.
+   */
+  async receive(
+    source: WebhookSource,
+    provider: string,
+    payload: any,
+    headers: Record<string, string | string[] | undefined>,
+    signature: string
+  ): Promise<WebhookReceipt> {
+    // Unsigned or forged deliveries are rejected, not stored
+    this.verify(source, provider, payload, signature);
+
+    const eventId = webhookEventId(payload, headers);
+
+    let event: WebhookEvent;
+    try {
+      event = await this.prisma.webhookEvent.create({
+        data: {
+          source,
+          provider,
+          eventId,
+          eventType: typeof payload?.event === 'string' ? payload.event : payload?.type,
+          payload,
+          headers: this.storedHeaders(headers),
+        },
+      });
+    } catch (error) {
+      const isDuplicate = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+      if (!isDuplicate) {
+        throw error;
+      }
+
+      const existing = await this.prisma.webhookEvent.findUniqueOrThrow({
+        where: { provider_eventId: { provider, eventId } },
+      });
+
+      this.metrics.incrementCounter('webhook.duplicate', 1, { source, provider });
+      this.logger.info('Duplicate webhook delivery acknowledged', {
+        webhookId: existing.id,
+        provider,
+        eventId,
+        status: existing.status,
+      });
+
+      return this.receipt(existing, true);
+    }
+
+    this.metrics.incrementCounter('webhook.received', 1, { source, provider });
+
+    return this.receipt(await this.process(event.id, ['RECEIVED']), false);
+  }
+
+  /**
+   * Retry failed events whose backoff has passed, and pick up events a
+   * crashed process left RECEIVED or PROCESSING
+   */
+  async retryDue(): Promise<WebhookRetryResult> {
+    const now = new Date();
+    const stale = new Date(now.getTime() - PROCESSING_TIMEOUT_MINUTES * 60 * 1000);
+
+    const abandoned = await this.prisma.webhookEvent.updateMany({
+      where: { status: 'PROCESSING', updatedAt: { lt: stale } },
+      data: { status: 'FAILED', lastError: 'Processing did not finish', nextAttemptAt: now },
+    });
+
+    if (abandoned.count > 0) {
+      this.logger.warn('Abandoned webhook events returned for retry', { count: abandoned.count });
+    }
+
+    const due = await this.prisma.webhookEvent.findMany({
+      where: {
+        OR: [
+          { status: 'FAILED', nextAttemptAt: { lte: now } },
+          { status: 'RECEIVED', receivedAt: { lt: stale } },
+        ],
+      },
+      select: { id: true },
+      orderBy: { receivedAt: 'asc' },
+      take: RETRY_BATCH_SIZE,
+    });
+
+    const result: WebhookRetryResult = { attempted: 0, processed: 0, failed: 0 };
+
+    for (const { id } of due) {
+      const event = await this.process(id, ['FAILED', 'RECEIVED']);
+      result.attempted++;
+      if (event.status === 'PROCESSED') {
+        result.processed++;
+      } else {
+        result.failed++;
+      }
+    }
+
+    if (result.attempted > 0) {
+      this.logger.info('Webhook retry run finished', { ...result });
+    }
+
+    return result;
+  }
+
+  /**
+   * Apply a stored event again, whatever its status, unless it is being
+   * processed right now
+   */
+  async replay(id: string, adminId: string): Promise<WebhookEventDetail> {
+    const event = await this.prisma.webhookEvent.findUnique({ where: { id } });
+
+    if (!event) {
+      throw new NotFoundError('Webhook event');
+    }
+
+    if (event.status === 'PROCESSING') {
+      throw new ConflictError('Webhook event is being processed');
+    }
+
+    this.logger.info('Webhook event replayed', {
+      webhookId: id,
+      provider: event.provider,
+      eventId: event.eventId,
+      previousStatus: event.status,
+      adminId,
+    });
+    this.metrics.incrementCounter('webhook.replayed', 1, { source: event.source, provider: event.provider });
+
+    const processed = await this.process(id, ['RECEIVED', 'PROCESSED', 'FAILED', 'DEAD']);
+    if (processed.status === 'PROCESSING') {
+      throw new ConflictError('Webhook event is being processed');
+    }
+
+    return this.serializeDetail(processed);
+  }
+
+  async listEvents(filters: WebhookEventFilters): Promise<{ items: WebhookEventSummary[]; total: number }> {
+    const where: Prisma.WebhookEventWhereInput = {
+      ...(filters.source && { source: filters.source }),
+      ...(filters.provider && { provider: filters.provider }),
+      ...(filters.status && { status: filters.status }),
+    };
+
+    const [items, total] = await Promise.all([
+      this.prisma.webhookEvent.findMany({
+        where,
+        orderBy: { receivedAt: 'desc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      this.prisma.webhookEvent.count({ where }),
+    ]);
+
+    return { items: items.map(serializeWebhookEvent), total };
+  }
+
+  async getEvent(id: string): Promise<WebhookEventDetail> {
+    const event = await this.prisma.webhookEvent.findUnique({ where: { id } });
+
+    if (!event) {
+      throw new NotFoundError('Webhook event');
+    }
+
+    return this.serializeDetail(event);
+  }
+
+  /**
+   * Claim an event in one of the given statuses and apply it. The claim is a
+   * conditional update, so two processes never apply the same event at once;
+   * the loser gets the event back unchanged.
+   */
+  private async process(id: string, claimable: WebhookEventStatus[]): Promise<WebhookEvent> {
+    const claimed = await this.prisma.webhookEvent.updateMany({
+      where: { id, status: { in: claimable } },
+      data: { status: 'PROCESSING', attempts: { increment: 1 } },
+    });
+
+    const event = await this.prisma.webhookEvent.findUniqueOrThrow({ where: { id } });
+
+    if (claimed.count === 0) {
+      return event;
+    }
+
+    const startTime = Date.now();
+
+    try {
+      if (event.source === 'PAYMENT') {
+        await this.payments.applyWebhook(event.provider as PaymentProvider, event.payload);
+      } else {
+        await this.shipping.applyWebhook(event.provider as ShippingProvider, event.payload, event.receivedAt);
+      }
+
+      this.metrics.incrementCounter('webhook.processed', 1, { source: event.source, provider: event.provider });
+      this.metrics.recordTiming('webhook.processing.duration', Date.now() - startTime, {});
+
+      return await this.prisma.webhookEvent.update({
+        where: { id },
+        data: { status: 'PROCESSED', processedAt: new Date(), lastError: null, nextAttemptAt: null },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const dead = event.attempts >= MAX_ATTEMPTS;
+
+      this.metrics.incrementCounter(dead ? 'webhook.dead' : 'webhook.failed', 1, {
+        source: event.source,
+        provider: event.provider,
+      });
+      this.logger.error('Webhook event processing failed', {
+        webhookId: id,
+        provider: event.provider,
+        eventId: event.eventId,
+        attempts: event.attempts,
+        dead,
+        error: message,
+      });
+
+      return this.prisma.webhookEvent.update({
+        where: { id },
+        data: {
+          status: dead ? 'DEAD' : 'FAILED',
+          lastError: message,
+          nextAttemptAt: dead ? null : new Date(Date.now() + nextRetryDelay(event.attempts)),
+        },
+      });
+    }
+  }
+
+  private verify(source: WebhookSource, provider: string, payload: any, signature: string): void {
+    if (source === 'PAYMENT') {
+      if (!this.payments.verifyWebhook(provider as PaymentProvider, payload, signature)) {
+        throw new PaymentError('INVALID_WEBHOOK_SIGNATURE', 'Invalid webhook signature');
+      }
+    } else if (!this.shipping.verifyWebhook(provider as ShippingProvider, payload, signature)) {
+      throw new ShippingError('INVALID_WEBHOOK_SIGNATURE', 'Invalid webhook signature');
+    }
+  }
+
+  private storedHeaders(headers: Record<string, string | string[] | undefined>): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(headers)
+        .filter(([name, value]) => value !== undefined && !REDACTED_HEADERS.includes(name.toLowerCase()))
+        .map(([name, value]) => [name.toLowerCase(), Array.isArray(value) ? value.join(', ') : value!])
+    );
+  }
+
+  private receipt(event: WebhookEvent, duplicate: boolean): WebhookReceipt {
+    return {
+      webhookId: event.id,
+      eventId: event.eventId,
+      status: event.status,
+      duplicate,
+      processed: event.status === 'PROCESSED',
+    };
+  }
+
+  private serializeDetail(event: WebhookEvent): WebhookEventDetail {
+    return {
+      ...serializeWebhookEvent(event),
+      payload: event.payload,
+      headers: event.headers as Record<string, string>,
+    };
+  }
+}
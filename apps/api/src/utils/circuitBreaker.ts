@@ -0,0 +1,70 @@
+import { CircuitState } from '@newhill/shared/types/payment';
+
+/**
+ * The web app's circuit breaker (apps/web/src/lib/observability.ts) for the
+ * API. After `threshold` consecutive failures the circuit opens and calls
+ * fail fast; once `resetTimeout` has passed one trial call is let through,
+ * and its outcome closes or reopens the circuit.
+ */
+export class CircuitBreaker {
+  private failures: number = 0;
+  private lastFailureTime: number = 0;
+  private state: CircuitState = 'CLOSED';
+
+  constructor(
+    private threshold: number = 5,
+    private resetTimeout: number = 30000, // 30 seconds
+    // Errors that say nothing about the dependency's health, e.g. a declined card, do not count
+    private isFailure: (error: unknown) => boolean = () => true
+  ) {}
+
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    if (!this.isAvailable()) {
+      throw new Error('Circuit breaker is OPEN');
+    }
+
+    if (this.state === 'OPEN') {
+      this.state = 'HALF_OPEN';
+    }
+
+    try {
+      const result = await operation();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (this.isFailure(error)) {
+        this.onFailure();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a call would be attempted right now
+   */
+  isAvailable(): boolean {
+    return this.state !== 'OPEN' || Date.now() - this.lastFailureTime > this.resetTimeout;
+  }
+
+  private onSuccess(): void {
+    this.failures = 0;
+    this.state = 'CLOSED';
+  }
+
+  private onFailure(): void {
+    this.failures++;
+    this.lastFailureTime = Date.now();
+
+    if (this.state === 'HALF_OPEN' || this.failures >= this.threshold) {
+      this.state = 'OPEN';
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  getFailures(): number {
+    return this.failures;
+  }
+}
@@ -0,0 +1,69 @@
+import Bull from 'bull';
+
+/**
+ * Producer side of the worker's email queue. Jobs are processed by the
+ * worker; the API only enqueues them.
+ */
+
+const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+
+export const emailQueue = new Bull('email', redisUrl, {
+  defaultJobOptions: {
+    removeOnComplete: 10,
+    removeOnFail: 5,
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 2000,
+    },
+  },
+});
+
+export interface OrderStatusEmailJob {
+  email: string;
+  name: string | null;
+  orderId: string;
+  orderNumber: string;
+  status: string;
+  reason?: string;
+}
+
+export const addOrderStatusEmailJob = (data: OrderStatusEmailJob) => {
+  return emailQueue.add('send-order-status-update', data, {
+    priority: 2,
+    delay: 0,
+  });
+};
+
+export interface OrganizationInvitationEmailJob {
+  email: string;
+  organizationName: string;
+  invitedByName: string | null;
+  role: string;
+  acceptUrl: string;
+  expiresAt: string;
+}
+
+export const addOrganizationInvitationEmailJob = (data: OrganizationInvitationEmailJob) => {
+  return emailQueue.add('send-organization-invitation', data, {
+    priority: 2,
+    delay: 0,
+  });
+};
+
+export interface OrderApprovalEmailJob {
+  emails: string[];
+  organizationName: string;
+  orderId: string;
+  orderNumber: string;
+  amount: number;
+  currency: string;
+  requestedByName: string | null;
+}
+
+export const addOrderApprovalEmailJob = (data: OrderApprovalEmailJob) => {
+  return emailQueue.add('send-order-approval-request', data, {
+    priority: 2,
+    delay: 0,
+  });
+};
@@ -20,6 +20,9 @@ export const logger = winston.createLogger({
   ],
 });
 
+// Services take the logger as a dependency typed with this
+export type Logger = winston.Logger;
+
 // Add CloudWatch logs in production
 if (process.env.NODE_ENV === 'production') {
   logger.add(
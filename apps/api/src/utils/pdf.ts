@@ -0,0 +1,434 @@
+import PDFDocument from 'pdfkit';
+import { QUIET_ZONE_MODULES, encodeCode128 } from './barcode';
+
+/**
+ * Branded PDF utilities shared by quote, invoice and fulfilment documents.
+ *
+ * Output is deterministic for the same input: the creation date comes from the
+ * caller, fonts are bundled (no system font lookup) and nothing reads the clock,
+ * so generated files can be compared byte for byte in snapshot tests.
+ */
+
+export const COMPANY_DETAILS = {
+  name: process.env.COMPANY_NAME || 'Newhill Spices',
+  addressLines: (process.env.COMPANY_ADDRESS || 'Munnar, Kerala 685612, India').split('\n'),
+  email: process.env.COMPANY_B2B_EMAIL || 'b2b@newhillspices.com',
+  website: 'newhillspices.com',
+  gstin: process.env.COMPANY_GSTIN || '',
+};
+
+const BRAND_COLOR = '#14532d';
+const MUTED_COLOR = '#6b7280';
+const TEXT_COLOR = '#111827';
+const RULE_COLOR = '#d1d5db';
+
+const PAGE_MARGIN = 40;
+const FOOTER_HEIGHT = 30;
+
+type Script = 'latin' | 'devanagari' | 'arabic';
+
+const FONT_FILES: Record<Script, { regular: string; bold: string }> = {
+  latin: {
+    regular: '@fontsource/noto-sans/files/noto-sans-latin-400-normal.woff',
+    bold: '@fontsource/noto-sans/files/noto-sans-latin-700-normal.woff',
+  },
+  devanagari: {
+    regular: '@fontsource/noto-sans/files/noto-sans-devanagari-400-normal.woff',
+    bold: '@fontsource/noto-sans/files/noto-sans-devanagari-700-normal.woff',
+  },
+  arabic: {
+    regular: '@fontsource/noto-sans-arabic/files/noto-sans-arabic-arabic-400-normal.woff',
+    bold: '@fontsource/noto-sans-arabic/files/noto-sans-arabic-arabic-700-normal.woff',
+  },
+};
+
+const ARABIC_PATTERN = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/;
+const DEVANAGARI_PATTERN = /[\u0900-\u097F\uA8E0-\uA8FF\u1CD0-\u1CFF]/;
+
+export interface TextRun {
+  text: string;
+  script: Script;
+}
+
+export interface TextOptions {
+  width?: number;
+  align?: 'left' | 'right' | 'center';
+  size?: number;
+  bold?: boolean;
+  color?: string;
+}
+
+export interface DocumentOptions {
+  title: string;
+  subject: string;
+  createdAt: Date;
+  // Page size in points; A4 unless given, e.g. [288, 432] for a 4x6 inch label
+  size?: 'A4' | [number, number];
+  margin?: number;
+}
+
+export interface TableColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'right' | 'center';
+}
+
+function scriptOf(char: string): Script | null {
+  if (ARABIC_PATTERN.test(char)) return 'arabic';
+  if (DEVANAGARI_PATTERN.test(char)) return 'devanagari';
+  if (/\s/.test(char)) return null;
+  return 'latin';
+}
+
+/**
+ * Split text into runs that can each be drawn with a single font. Whitespace
+ * stays with the run it follows so words are not split across fonts.
+ */
+export function splitScriptRuns(text: string): TextRun[] {
+  const runs: TextRun[] = [];
+
+  for (const char of Array.from(text)) {
+    const script = scriptOf(char);
+    const last = runs[runs.length - 1];
+
+    if (last && (script === null || script === last.script)) {
+      last.text += char;
+    } else {
+      runs.push({ text: char, script: script || 'latin' });
+    }
+  }
+
+  return runs;
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  const formatted = amount.toLocaleString(currency === 'INR' ? 'en-IN' : 'en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+  return `${currency} ${formatted}`;
+}
+
+export function formatDate(date: Date): string {
+  // ISO date keeps output independent of the server's timezone and locale
+  return date.toISOString().slice(0, 10);
+}
+
+export function formatWeight(grams: number): string {
+  return grams >= 1000 ? `${Number((grams / 1000).toFixed(2))} kg` : `${grams} g`;
+}
+
+export class BrandedPdf {
+  private doc: PDFKit.PDFDocument;
+  private chunks: Buffer[] = [];
+  private finished: Promise<Buffer>;
+  private margin: number;
+
+  constructor(options: DocumentOptions) {
+    this.margin = options.margin ?? PAGE_MARGIN;
+    this.doc = new PDFDocument({
+      size: options.size || 'A4',
+      margin: this.margin,
+      bufferPages: true,
+      info: {
+        Title: options.title,
+        Subject: options.subject,
+        Author: COMPANY_DETAILS.name,
+        Producer: COMPANY_DETAILS.name,
+        Creator: COMPANY_DETAILS.name,
+        CreationDate: options.createdAt,
+      },
+    });
+
+    for (const [script, files] of Object.entries(FONT_FILES)) {
+      this.doc.registerFont(`${script}-regular`, require.resolve(files.regular));
+      this.doc.registerFont(`${script}-bold`, require.resolve(files.bold));
+    }
+
+    this.finished = new Promise(resolve => {
+      this.doc.on('data', (chunk: Buffer) => this.chunks.push(chunk));
+      this.doc.on('end', () => resolve(Buffer.concat(this.chunks)));
+    });
+  }
+
+  get contentWidth(): number {
+    return this.doc.page.width - this.margin * 2;
+  }
+
+  get left(): number {
+    return this.margin;
+  }
+
+  get y(): number {
+    return this.doc.y;
+  }
+
+  set y(value: number) {
+    this.doc.y = value;
+  }
+
+  /**
+   * Brand band with the company block on the left and the document title on the right
+   */
+  header(title: string, reference: string): void {
+    const top = this.margin;
+
+    this.doc.rect(0, 0, this.doc.page.width, 8).fill(BRAND_COLOR);
+
+    this.text(COMPANY_DETAILS.name, this.left, top, { size: 20, bold: true, color: BRAND_COLOR });
+    let companyY = top + 28;
+    for (const line of [
+      ...COMPANY_DETAILS.addressLines,
+      `${COMPANY_DETAILS.email} | ${COMPANY_DETAILS.website}`,
+      ...(COMPANY_DETAILS.gstin ? [`GSTIN: ${COMPANY_DETAILS.gstin}`] : []),
+    ]) {
+      this.text(line, this.left, companyY, { size: 9, color: MUTED_COLOR });
+      companyY += 13;
+    }
+
+    this.text(title, this.left, top, { width: this.contentWidth, align: 'right', size: 18, bold: true });
+    this.text(reference, this.left, top + 26, { width: this.contentWidth, align: 'right', size: 10, color: MUTED_COLOR });
+
+    this.y = Math.max(companyY, top + 60) + 12;
+    this.rule();
+  }
+
+  /**
+   * Two-column label/value block, e.g. quote metadata next to the buyer's details
+   */
+  detailColumns(leftTitle: string, leftLines: string[], rightTitle: string, rightRows: Array<[string, string]>): void {
+    const top = this.y + 8;
+    const columnWidth = this.contentWidth / 2 - 10;
+    const rightX = this.left + this.contentWidth / 2 + 10;
+
+    this.text(leftTitle.toUpperCase(), this.left, top, { size: 8, bold: true, color: MUTED_COLOR });
+    let leftY = top + 14;
+    leftLines.forEach((line, index) => {
+      this.text(line, this.left, leftY, { width: columnWidth, size: 10, bold: index === 0 });
+      leftY += this.heightOf(line, columnWidth, 10) + 2;
+    });
+
+    this.text(rightTitle.toUpperCase(), rightX, top, { size: 8, bold: true, color: MUTED_COLOR });
+    let rightY = top + 14;
+    for (const [label, value] of rightRows) {
+      this.text(label, rightX, rightY, { width: 110, size: 10, color: MUTED_COLOR });
+      this.text(value, rightX + 110, rightY, { width: columnWidth - 110, size: 10 });
+      rightY += 15;
+    }
+
+    this.y = Math.max(leftY, rightY) + 10;
+  }
+
+  /**
+   * Table with a shaded header row; rows break onto a new page (with the header
+   * repeated) when they would run into the footer
+   */
+  table(columns: TableColumn[], rows: string[][]): void {
+    const drawHeader = () => {
+      const top = this.y;
+      this.doc.rect(this.left, top, this.contentWidth, 20).fill('#f3f4f6');
+
+      let x = this.left;
+      for (const column of columns) {
+        this.text(column.header, x + 4, top + 6, {
+          width: column.width - 8,
+          align: column.align,
+          size: 8,
+          bold: true,
+          color: MUTED_COLOR,
+        });
+        x += column.width;
+      }
+
+      this.y = top + 24;
+    };
+
+    drawHeader();
+
+    for (const row of rows) {
+      const rowHeight = Math.max(
+        ...row.map((cell, index) => this.heightOf(cell, columns[index].width - 8, 9))
+      ) + 8;
+
+      if (this.y + rowHeight > this.doc.page.height - this.margin - FOOTER_HEIGHT) {
+        this.addPage();
+        drawHeader();
+      }
+
+      const top = this.y;
+      let x = this.left;
+      row.forEach((cell, index) => {
+        const column = columns[index];
+        this.text(cell, x + 4, top + 2, { width: column.width - 8, align: column.align, size: 9 });
+        x += column.width;
+      });
+
+      this.y = top + rowHeight;
+      this.rule(0.5);
+    }
+  }
+
+  /**
+   * Right-aligned label/value rows; the last row is emphasised as the grand total
+   */
+  totals(rows: Array<[string, string]>): void {
+    const labelX = this.left + this.contentWidth - 260;
+    let top = this.y + 8;
+
+    rows.forEach(([label, value], index) => {
+      const isTotal = index === rows.length - 1;
+      this.text(label, labelX, top, { width: 140, align: 'right', size: isTotal ? 11 : 10, bold: isTotal });
+      this.text(value, labelX + 150, top, { width: 110, align: 'right', size: isTotal ? 11 : 10, bold: isTotal });
+      top += isTotal ? 18 : 15;
+    });
+
+    this.y = top + 6;
+  }
+
+  /**
+   * Titled paragraph block, skipped entirely when there is nothing to say
+   */
+  paragraph(title: string, body: string | null | undefined): void {
+    if (!body) return;
+
+    const height = this.heightOf(body, this.contentWidth, 9) + 20;
+    if (this.y + height > this.doc.page.height - this.margin - FOOTER_HEIGHT) {
+      this.addPage();
+    }
+
+    const top = this.y + 6;
+    this.text(title.toUpperCase(), this.left, top, { size: 8, bold: true, color: MUTED_COLOR });
+    this.text(body, this.left, top + 14, { width: this.contentWidth, size: 9 });
+    this.y = top + height;
+  }
+
+  addPage(): void {
+    this.doc.addPage();
+    this.y = this.margin;
+  }
+
+  /**
+   * Code 128 barcode scaled to fill the given width, quiet zones included
+   */
+  barcode(value: string, x: number, y: number, width: number, height: number): void {
+    const bars = encodeCode128(value);
+    const modules = bars.reduce((sum, bar) => sum + bar, 0) + QUIET_ZONE_MODULES * 2;
+    const moduleWidth = width / modules;
+
+    let cursorX = x + QUIET_ZONE_MODULES * moduleWidth;
+    bars.forEach((bar, index) => {
+      // Even positions are bars, odd positions the spaces between them
+      if (index % 2 === 0) {
+        this.doc.rect(cursorX, y, bar * moduleWidth, height);
+      }
+      cursorX += bar * moduleWidth;
+    });
+
+    this.doc.fill(TEXT_COLOR);
+  }
+
+  rule(weight: number = 1): void {
+    this.doc
+      .moveTo(this.left, this.y)
+      .lineTo(this.left + this.contentWidth, this.y)
+      .lineWidth(weight)
+      .strokeColor(RULE_COLOR)
+      .stroke();
+  }
+
+  /**
+   * Draw text, switching fonts per script. Each line is laid out on its own;
+   * a line whose first strong character is Arabic is drawn right-to-left by
+   * reversing its runs.
+   */
+  text(value: string, x: number, y: number, options: TextOptions = {}): void {
+    const weight = options.bold ? 'bold' : 'regular';
+    const size = options.size || 10;
+    let lineY = y;
+
+    this.doc.fillColor(options.color || TEXT_COLOR).fontSize(size);
+
+    for (const line of value.split('\n')) {
+      const runs = splitScriptRuns(line);
+      const isRtl = runs.find(run => run.text.trim().length > 0)?.script === 'arabic';
+      const align = options.align || (isRtl ? 'right' : 'left');
+
+      if (runs.length <= 1) {
+        this.doc.font(`${runs[0]?.script || 'latin'}-${weight}`).text(line, x, lineY, {
+          width: options.width,
+          align,
+          lineBreak: options.width !== undefined,
+        });
+      } else {
+        const ordered = isRtl ? [...runs].reverse() : runs;
+        const totalWidth = ordered.reduce(
+          (sum, run) => sum + this.doc.font(`${run.script}-${weight}`).widthOfString(run.text),
+          0
+        );
+
+        let cursorX = x;
+        if (options.width !== undefined && totalWidth < options.width) {
+          if (align === 'right') cursorX = x + options.width - totalWidth;
+          if (align === 'center') cursorX = x + (options.width - totalWidth) / 2;
+        }
+
+        for (const run of ordered) {
+          this.doc.font(`${run.script}-${weight}`).text(run.text, cursorX, lineY, { lineBreak: false });
+          cursorX += this.doc.widthOfString(run.text);
+        }
+      }
+
+      lineY += this.lineHeight(line, options.width, size);
+    }
+  }
+
+  heightOf(value: string, width: number, size: number): number {
+    return value
+      .split('\n')
+      .reduce((sum, line) => sum + this.lineHeight(line, width, size), 0);
+  }
+
+  private lineHeight(line: string, width: number | undefined, size: number): number {
+    const runs = splitScriptRuns(line);
+    this.doc.fontSize(size);
+
+    // Mixed-script lines are drawn without wrapping, so they take a single line
+    if (runs.length > 1 || width === undefined) {
+      return Math.max(...runs.map(run => this.doc.font(`${run.script}-regular`).currentLineHeight(true)), 0)
+        || this.doc.font('latin-regular').currentLineHeight(true);
+    }
+
+    return this.doc.font(`${runs[0]?.script || 'latin'}-regular`).heightOfString(line || ' ', { width });
+  }
+
+  /**
+   * Stamp the footer note and "Page x of y" on every page, then finish the
+   * document. Without a note (e.g. on labels) pages are left as drawn.
+   */
+  async finish(footerNote?: string): Promise<Buffer> {
+    const range = this.doc.bufferedPageRange();
+
+    for (let index = range.start; footerNote !== undefined && index < range.start + range.count; index++) {
+      this.doc.switchToPage(index);
+      const footerY = this.doc.page.height - this.margin;
+
+      // Writing below the bottom margin would otherwise trigger an automatic page break
+      const bottomMargin = this.doc.page.margins.bottom;
+      this.doc.page.margins.bottom = 0;
+
+      this.text(footerNote, this.left, footerY, { size: 8, color: MUTED_COLOR });
+      this.text(`Page ${index + 1} of ${range.count}`, this.left, footerY, {
+        width: this.contentWidth,
+        align: 'right',
+        size: 8,
+        color: MUTED_COLOR,
+      });
+
+      this.doc.page.margins.bottom = bottomMargin;
+    }
+
+    this.doc.end();
+    return this.finished;
+  }
+}
@@ -0,0 +1,287 @@
+import crypto from 'crypto';
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { ShippingConfig, ShippingRequest, ShippingError } from '@newhill/shared/types/shipping';
+import { AramexAdapter } from '../../../src/adapters/shipping/AramexAdapter';
+import { startFixtureServer, FixtureServer } from '../../support/fixtureServer';
+
+const SHIPPING_PATH = '/Shipping/Service_1_0.svc/json';
+const TRACKING_PATH = '/Tracking/Service_1_0.svc/json/TrackShipments';
+const RATE_PATH = '/RateCalculator/Service_1_0.svc/json/CalculateRate';
+
+const shippingRequest: ShippingRequest = {
+  orderId: 'order_123',
+  origin: {
+    name: 'Newhill Spices Warehouse',
+    company: 'Newhill Spices',
+    address1: 'Al Quoz Industrial Area 3',
+    city: 'Dubai',
+    state: 'DU',
+    postalCode: '00000',
+    country: 'AE',
+    phone: '+971500000000',
+  },
+  destination: {
+    name: 'Fatima Al Thani',
+    address1: 'Building 12, Street 840',
+    city: 'Doha',
+    state: 'DA',
+    postalCode: '00000',
+    country: 'QA',
+    phone: '+97455000000',
+    email: 'fatima@example.com',
+  },
+  items: [{
+    id: 'item_1',
+    name: 'Cardamom 250g',
+    sku: 'CARD-250',
+    quantity: 2,
+    weight: 250,
+    value: 125,
+  }],
+  weight: 1500,
+  dimensions: { length: 30, width: 20, height: 15 },
+  value: 250,
+  currency: 'AED',
+  method: 'express',
+};
+
+function createConfig(baseUrl: string, timeout = 2000): ShippingConfig {
+  return {
+    provider: 'aramex',
+    region: 'AE',
+    mode: 'sandbox',
+    baseUrl,
+    credentials: {
+      apiKey: 'testingapi@aramex.com',
+      apiSecret: 'aramex_test_password',
+      webhookSecret: 'aramex_test_webhook_secret',
+      accountNumber: '20016',
+      accountPin: '331421',
+    },
+    settings: {
+      timeout,
+      retryAttempts: 0,
+      retryDelay: 0,
+      maxWeight: 50000,
+      maxDimensions: { length: 120, width: 80, height: 60 },
+    },
+  };
+}
+
+describe('AramexAdapter', () => {
+  let server: FixtureServer;
+  let adapter: AramexAdapter;
+
+  beforeAll(async () => {
+    server = await startFixtureServer('aramex', {
+      [`POST ${SHIPPING_PATH}/CreateShipments`]: { fixture: 'create-shipment' },
+      [`POST ${SHIPPING_PATH}/CancelShipment`]: { fixture: 'cancel-shipment' },
+      [`POST ${TRACKING_PATH}`]: { fixture: 'track-shipments' },
+      [`POST ${RATE_PATH}`]: request => ({
+        fixture: request.body.ShipmentDetails.ProductType === 'PPX' ? 'calculate-rate-express' : 'calculate-rate',
+      }),
+    });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+    adapter = new AramexAdapter(createConfig(server.baseUrl));
+  });
+
+  describe('createShipment', () => {
+    it('creates an international shipment and returns the waybill', async () => {
+      const shipment = await adapter.createShipment(shippingRequest);
+
+      expect(shipment).toMatchObject({
+        shipmentId: '44012345678',
+        trackingNumber: '44012345678',
+        status: 'pending',
+        provider: 'aramex',
+        method: 'express',
+        currency: 'AED',
+        labelUrl: 'https://ws.dev.aramex.net/content/rpt_cache/44012345678.pdf',
+        trackingUrl: 'https://www.aramex.com/track/results?ShipmentNumber=44012345678',
+      });
+      expect(shipment.metadata?.productType).toBe('PPX');
+    });
+
+    it('sends the account credentials and shipment details', async () => {
+      await adapter.createShipment(shippingRequest);
+
+      const { body } = server.requests[0];
+      expect(body.ClientInfo).toMatchObject({
+        UserName: 'testingapi@aramex.com',
+        AccountNumber: '20016',
+        AccountPin: '331421',
+        AccountEntity: 'DXB',
+        AccountCountryCode: 'AE',
+      });
+      expect(body.Shipments[0].Consignee.PartyAddress.CountryCode).toBe('QA');
+      expect(body.Shipments[0].Details).toMatchObject({
+        ActualWeight: { Unit: 'KG', Value: 1.5 },
+        ProductGroup: 'EXP',
+        ProductType: 'PPX',
+        CustomsValueAmount: { CurrencyCode: 'AED', Value: 250 },
+      });
+    });
+
+    it('surfaces the shipment notifications when Aramex rejects it', async () => {
+      server.route(`POST ${SHIPPING_PATH}/CreateShipments`, { fixture: 'create-shipment-error' });
+
+      try {
+        await expect(adapter.createShipment(shippingRequest)).rejects.toMatchObject({
+          code: 'PROVIDER_ERROR',
+          provider: 'aramex',
+          message: 'ERR04: Consignee.PartyAddress.City - Invalid City Name',
+        });
+      } finally {
+        server.route(`POST ${SHIPPING_PATH}/CreateShipments`, { fixture: 'create-shipment' });
+      }
+    });
+  });
+
+  describe('tracking', () => {
+    it('returns updates newest first', async () => {
+      const updates = await adapter.trackShipment('44012345678');
+
+      expect(updates.map(update => update.status)).toEqual(['out_for_delivery', 'in_transit', 'pending']);
+      expect(updates[0]).toMatchObject({
+        trackingNumber: '44012345678',
+        carrierCode: 'SH003',
+        location: 'Doha, Qatar',
+        description: 'Out for Delivery',
+        timestamp: '2024-01-18T09:00:00.000Z',
+      });
+      expect(server.requests[0].body.Shipments).toEqual(['44012345678']);
+    });
+
+    it('reports the status of the latest update', async () => {
+      const status = await adapter.getShipmentStatus('44012345678');
+
+      expect(status).toMatchObject({
+        shipmentId: '44012345678',
+        status: 'out_for_delivery',
+        metadata: { updateCode: 'SH003' },
+      });
+    });
+
+    it('throws SHIPMENT_NOT_FOUND for an unknown waybill', async () => {
+      server.route(`POST ${TRACKING_PATH}`, { fixture: 'track-shipments-unknown' });
+
+      try {
+        await expect(adapter.trackShipment('44099999999')).rejects.toMatchObject({
+          code: 'SHIPMENT_NOT_FOUND',
+        });
+      } finally {
+        server.route(`POST ${TRACKING_PATH}`, { fixture: 'track-shipments' });
+      }
+    });
+  });
+
+  describe('cancelShipment', () => {
+    it('cancels by waybill number', async () => {
+      await expect(adapter.cancelShipment('44012345678', 'Address changed')).resolves.toBe(true);
+
+      expect(server.requests[0].body).toMatchObject({
+        ShipmentNumber: '44012345678',
+        Comments: 'Address changed',
+      });
+    });
+  });
+
+  describe('getShippingRates', () => {
+    it('quotes deferred and priority products', async () => {
+      const rates = await adapter.getShippingRates(shippingRequest);
+
+      expect(rates).toEqual([
+        expect.objectContaining({ method: 'standard', cost: 86.5, currency: 'AED', estimatedDays: 5, isAvailable: true }),
+        expect.objectContaining({ method: 'express', cost: 124, currency: 'AED', estimatedDays: 3, isAvailable: true }),
+      ]);
+      expect(server.requests.map(request => request.body.ShipmentDetails.ActualWeight.Value)).toEqual([1.5, 1.5]);
+    });
+
+    it('maps rejected credentials to a provider error', async () => {
+      server.route(`POST ${RATE_PATH}`, { fixture: 'authentication-error' });
+
+      try {
+        const error = await adapter.getShippingRates(shippingRequest).catch(caught => caught);
+
+        expect(error).toBeInstanceOf(ShippingError);
+        expect(error.message).toBe('ERR01: Invalid username or password');
+      } finally {
+        server.route(`POST ${RATE_PATH}`, request => ({
+          fixture: request.body.ShipmentDetails.ProductType === 'PPX' ? 'calculate-rate-express' : 'calculate-rate',
+        }));
+      }
+    });
+
+    it('times out when Aramex is slower than the configured timeout', async () => {
+      const slowAdapter = new AramexAdapter(createConfig(server.baseUrl, 50));
+      server.route(`POST ${RATE_PATH}`, { fixture: 'calculate-rate', delayMs: 200 });
+
+      try {
+        await expect(slowAdapter.getShippingRates(shippingRequest)).rejects.toMatchObject({
+          code: 'TIMEOUT_ERROR',
+        });
+      } finally {
+        server.route(`POST ${RATE_PATH}`, request => ({
+          fixture: request.body.ShipmentDetails.ProductType === 'PPX' ? 'calculate-rate-express' : 'calculate-rate',
+        }));
+      }
+    });
+  });
+
+  describe('webhooks', () => {
+    const payload = {
+      WaybillNumber: '44012345678',
+      UpdateCode: 'SH005',
+      UpdateDescription: 'Delivered',
+      UpdateDateTime: '/Date(1705575600000+0300)/',
+    };
+
+    it('accepts a payload signed with the webhook secret', () => {
+      const signature = crypto
+        .createHmac('sha256', 'aramex_test_webhook_secret')
+        .update(JSON.stringify(payload))
+        .digest('hex');
+
+      expect(adapter.validateWebhook(payload, signature)).toBe(true);
+    });
+
+    it('rejects a payload signed with another secret', () => {
+      const signature = crypto.createHmac('sha256', 'wrong').update(JSON.stringify(payload)).digest('hex');
+
+      expect(adapter.validateWebhook(payload, signature)).toBe(false);
+      expect(adapter.validateWebhook(payload, '')).toBe(false);
+    });
+
+    it('normalises the update to a shipment status', async () => {
+      const webhook = await adapter.processWebhook(payload);
+
+      expect(webhook).toMatchObject({
+        provider: 'aramex',
+        event: 'shipment.updated',
+        data: { shipment: { id: '44012345678', status: 'delivered' } },
+        timestamp: '2024-01-18T11:00:00.000Z',
+      });
+    });
+
+    it('carries the pushed update as a tracking event', async () => {
+      const webhook = await adapter.processWebhook(payload);
+
+      expect(webhook.data.updates).toEqual([
+        expect.objectContaining({
+          trackingNumber: '44012345678',
+          status: 'delivered',
+          carrierCode: 'SH005',
+          description: 'Delivered',
+          timestamp: '2024-01-18T11:00:00.000Z',
+        }),
+      ]);
+    });
+  });
+});
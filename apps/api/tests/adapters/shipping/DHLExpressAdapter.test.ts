@@ -0,0 +1,301 @@
+import crypto from 'crypto';
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { ShippingConfig, ShippingRequest } from '@newhill/shared/types/shipping';
+import { DHLExpressAdapter } from '../../../src/adapters/shipping/DHLExpressAdapter';
+import { startFixtureServer, FixtureServer } from '../../support/fixtureServer';
+
+const shippingRequest: ShippingRequest = {
+  orderId: 'order_456',
+  origin: {
+    name: 'Newhill Spices Warehouse',
+    company: 'Newhill Spices',
+    address1: 'Plot 14, Kakkanad SEZ',
+    city: 'Kochi',
+    state: 'KL',
+    postalCode: '682037',
+    country: 'IN',
+    phone: '+919800000000',
+  },
+  destination: {
+    name: 'Ahmed Al Mansoori',
+    address1: 'Villa 7, Street 23, Al Barsha 2',
+    city: 'Dubai',
+    state: 'DU',
+    postalCode: '00000',
+    country: 'AE',
+    phone: '+971500000000',
+  },
+  items: [{
+    id: 'item_1',
+    name: 'Black Pepper 500g',
+    quantity: 3,
+    weight: 500,
+    value: 1200,
+  }],
+  weight: 1500,
+  dimensions: { length: 30, width: 20, height: 15 },
+  value: 3600,
+  currency: 'INR',
+  method: 'express',
+};
+
+function createConfig(baseUrl: string): ShippingConfig {
+  return {
+    provider: 'dhl',
+    region: 'IN',
+    mode: 'sandbox',
+    baseUrl,
+    credentials: {
+      apiKey: 'dhl_test_api_key',
+      apiSecret: 'dhl_test_api_secret',
+      webhookSecret: 'dhl_test_webhook_secret',
+      accountNumber: '123456789',
+    },
+    settings: {
+      timeout: 2000,
+      retryAttempts: 0,
+      retryDelay: 0,
+      maxWeight: 50000,
+      maxDimensions: { length: 120, width: 80, height: 60 },
+    },
+  };
+}
+
+describe('DHLExpressAdapter', () => {
+  let server: FixtureServer;
+  let adapter: DHLExpressAdapter;
+
+  beforeAll(async () => {
+    server = await startFixtureServer('dhl', {
+      'POST /shipments': { fixture: 'create-shipment', status: 201 },
+      'GET /shipments/1234567890/tracking': { fixture: 'tracking' },
+      'GET /shipments/0000000000/tracking': { fixture: 'tracking-not-found', status: 404 },
+      'DELETE /shipments/1234567890': { fixture: 'cancel-shipment' },
+      'GET /rates': { fixture: 'rates' },
+      'GET /shipments/1234567890/get-image': { fixture: 'get-image' },
+    });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+    adapter = new DHLExpressAdapter(createConfig(server.baseUrl));
+  });
+
+  describe('createShipment', () => {
+    it('creates an Express Worldwide shipment billed to the account', async () => {
+      const shipment = await adapter.createShipment(shippingRequest);
+
+      expect(shipment).toMatchObject({
+        shipmentId: '1234567890',
+        trackingNumber: '1234567890',
+        status: 'pending',
+        provider: 'dhl',
+        cost: 4250.5,
+        currency: 'INR',
+        estimatedDelivery: '2024-01-20',
+        metadata: {
+          dispatchConfirmationNumber: 'PRG240117000123',
+          packageTrackingNumbers: ['JD014600006281230704'],
+          labelFormat: 'PDF',
+        },
+      });
+    });
+
+    it('authenticates with basic auth and declares the contents for customs', async () => {
+      await adapter.createShipment(shippingRequest);
+
+      const { headers, body } = server.requests[0];
+      expect(headers.authorization).toBe(
+        `Basic ${Buffer.from('dhl_test_api_key:dhl_test_api_secret').toString('base64')}`
+      );
+      expect(body.productCode).toBe('P');
+      expect(body.accounts).toEqual([{ typeCode: 'shipper', number: '123456789' }]);
+      expect(body.content).toMatchObject({
+        isCustomsDeclarable: true,
+        declaredValue: 3600,
+        declaredValueCurrency: 'INR',
+        packages: [expect.objectContaining({ weight: 1.5 })],
+      });
+      expect(body.content.exportDeclaration.lineItems[0]).toMatchObject({
+        description: 'Black Pepper 500g',
+        quantity: { value: 3, unitOfMeasurement: 'PCS' },
+        weight: { netValue: 1.5, grossValue: 1.5 },
+      });
+    });
+
+    it('uses the domestic product within a country', async () => {
+      await adapter.createShipment({
+        ...shippingRequest,
+        destination: { ...shippingRequest.destination, city: 'Mumbai', postalCode: '400001', country: 'IN' },
+      });
+
+      expect(server.requests[0].body.productCode).toBe('N');
+      expect(server.requests[0].body.content.isCustomsDeclarable).toBe(false);
+    });
+
+    it('passes on the reason DHL rejected the shipment', async () => {
+      server.route('POST /shipments', { fixture: 'validation-error', status: 400 });
+
+      try {
+        await expect(adapter.createShipment(shippingRequest)).rejects.toMatchObject({
+          code: 'PROVIDER_ERROR',
+          provider: 'dhl',
+          message: 'Receiver postal code is invalid for the destination country',
+        });
+      } finally {
+        server.route('POST /shipments', { fixture: 'create-shipment', status: 201 });
+      }
+    });
+  });
+
+  describe('tracking', () => {
+    it('returns checkpoints newest first', async () => {
+      const updates = await adapter.trackShipment('1234567890');
+
+      expect(updates.map(update => update.status)).toEqual(['out_for_delivery', 'in_transit', 'in_transit']);
+      expect(updates[0]).toMatchObject({
+        trackingNumber: '1234567890',
+        carrierCode: 'WC',
+        location: 'Dubai-AE',
+        description: 'Shipment is out with courier for delivery',
+        timestamp: new Date('2024-01-19T08:15:00').toISOString(),
+      });
+      expect(server.requests[0].query).toMatchObject({ trackingView: 'all-checkpoints' });
+    });
+
+    it('takes the status from the latest checkpoint', async () => {
+      const status = await adapter.getShipmentStatus('1234567890');
+
+      expect(status).toMatchObject({
+        trackingNumber: '1234567890',
+        status: 'out_for_delivery',
+        estimatedDelivery: '2024-01-20',
+        metadata: { status: 'transit' },
+      });
+    });
+
+    it('throws SHIPMENT_NOT_FOUND for an unknown tracking number', async () => {
+      await expect(adapter.trackShipment('0000000000')).rejects.toMatchObject({
+        code: 'SHIPMENT_NOT_FOUND',
+      });
+    });
+  });
+
+  describe('cancelShipment', () => {
+    it('cancels the pickup with a reason', async () => {
+      await expect(adapter.cancelShipment('1234567890', 'Duplicate order')).resolves.toBe(true);
+
+      expect(server.requests[0]).toMatchObject({
+        method: 'DELETE',
+        query: { reason: 'Duplicate order' },
+      });
+    });
+  });
+
+  describe('getShippingRates', () => {
+    it('offers one rate per method from the billed prices', async () => {
+      const rates = await adapter.getShippingRates(shippingRequest);
+
+      expect(rates).toEqual([
+        expect.objectContaining({ method: 'express', cost: 4250.5, currency: 'INR', estimatedDays: 3 }),
+        expect.objectContaining({ method: 'priority', cost: 5120, currency: 'INR', estimatedDays: 2 }),
+        expect.objectContaining({ method: 'economy', cost: 2890, currency: 'INR', estimatedDays: 6 }),
+      ]);
+      expect(server.requests[0].query).toMatchObject({
+        accountNumber: '123456789',
+        originCountryCode: 'IN',
+        destinationCountryCode: 'AE',
+        weight: '1.5',
+        isCustomsDeclarable: 'true',
+      });
+    });
+
+    it('maps rejected credentials to a provider error', async () => {
+      server.route('GET /rates', { fixture: 'unauthorized', status: 401 });
+
+      try {
+        await expect(adapter.getShippingRates(shippingRequest)).rejects.toMatchObject({
+          code: 'PROVIDER_ERROR',
+          message: 'Invalid Credentials',
+        });
+      } finally {
+        server.route('GET /rates', { fixture: 'rates' });
+      }
+    });
+  });
+
+  describe('getLabel', () => {
+    it('decodes the PDF label DHL printed for the shipment', async () => {
+      const label = await adapter.getLabel('1234567890', 'pdf');
+
+      expect(label).toMatchObject({ format: 'pdf', source: 'carrier' });
+      expect(label!.content.toString('latin1')).toMatch(/^%PDF-/);
+      expect(server.requests[0].query).toMatchObject({
+        shipperAccountNumber: '123456789',
+        typeCode: 'label',
+      });
+    });
+
+    it('has no ZPL label to offer', async () => {
+      await expect(adapter.getLabel('1234567890', 'zpl')).resolves.toBeNull();
+      expect(server.requests).toHaveLength(0);
+    });
+  });
+
+  describe('webhooks', () => {
+    const payload = {
+      id: 'evt_1',
+      shipments: [{
+        shipmentTrackingNumber: '1234567890',
+        status: 'delivered',
+        events: [
+          { date: '2024-01-19', time: '13:02:00', typeCode: 'OK', description: 'Delivered' },
+          { date: '2024-01-19', time: '08:15:00', typeCode: 'WC', description: 'With delivery courier' },
+        ],
+      }],
+    };
+
+    it('accepts a payload signed with the webhook secret', () => {
+      const signature = crypto
+        .createHmac('sha256', 'dhl_test_webhook_secret')
+        .update(JSON.stringify(payload))
+        .digest('base64');
+
+      expect(adapter.validateWebhook(payload, signature)).toBe(true);
+    });
+
+    it('rejects a hex signature or another secret', () => {
+      const hexSignature = crypto
+        .createHmac('sha256', 'dhl_test_webhook_secret')
+        .update(JSON.stringify(payload))
+        .digest('hex');
+      const otherSignature = crypto.createHmac('sha256', 'wrong').update(JSON.stringify(payload)).digest('base64');
+
+      expect(adapter.validateWebhook(payload, hexSignature)).toBe(false);
+      expect(adapter.validateWebhook(payload, otherSignature)).toBe(false);
+    });
+
+    it('normalises the push to a shipment status', async () => {
+      const webhook = await adapter.processWebhook(payload);
+
+      expect(webhook).toMatchObject({
+        id: 'evt_1',
+        provider: 'dhl',
+        data: { shipment: { id: '1234567890', status: 'delivered' } },
+      });
+    });
+
+    it('carries every pushed checkpoint as a tracking event, newest first', async () => {
+      const webhook = await adapter.processWebhook(payload);
+
+      expect(webhook.data.updates.map((update: any) => [update.carrierCode, update.status])).toEqual([
+        ['OK', 'delivered'],
+        ['WC', 'out_for_delivery'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Request, Response } from 'express';
+
+// The secret is read once, when the middleware class loads
+async function loadMiddleware(secret?: string) {
+  vi.resetModules();
+  vi.stubEnv('GUEST_CART_SECRET', secret ?? '');
+  vi.stubEnv('JWT_SECRET', '');
+  const { GuestCartMiddleware } = await import('../../src/middleware/guestCart');
+  return GuestCartMiddleware;
+}
+
+describe('guest cart cookie', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('reads back the token it signed', async () => {
+    const middleware = await loadMiddleware('test-secret');
+
+    expect(middleware.unsign(middleware.sign('abc123'))).toBe('abc123');
+  });
+
+  it('ignores tampered and foreign cookies', async () => {
+    const ours = await loadMiddleware('test-secret');
+    const signed = ours.sign('abc123');
+    const theirs = (await loadMiddleware('other-secret')).sign('abc123');
+
+    const middleware = await loadMiddleware('test-secret');
+    expect(middleware.unsign(signed.replace('abc123', 'abc124'))).toBeNull();
+    expect(middleware.unsign(theirs)).toBeNull();
+    expect(middleware.unsign('abc123')).toBeNull();
+    expect(middleware.unsign('abc123.not-hex')).toBeNull();
+  });
+
+  it('refuses to start without a signing secret', async () => {
+    await expect(loadMiddleware()).rejects.toThrow('GUEST_CART_SECRET environment variable is required');
+  });
+
+  it('issues a signed cookie to new guests and keeps returning ones on their cart', async () => {
+    const middleware = await loadMiddleware('test-secret');
+    const next = vi.fn();
+
+    const guest = { cookies: {} } as Request;
+    const res = { cookie: vi.fn() } as unknown as Response;
+    middleware.identify(guest, res, next);
+
+    expect(guest.guestCartToken).toMatch(/^[0-9a-f]{48}$/);
+    expect(res.cookie).toHaveBeenCalledWith(
+      middleware.cookieName,
+      middleware.sign(guest.guestCartToken!),
+      expect.objectContaining({ httpOnly: true, sameSite: 'lax' })
+    );
+
+    const returning = { cookies: { [middleware.cookieName]: middleware.sign('abc123') } } as unknown as Request;
+    const again = { cookie: vi.fn() } as unknown as Response;
+    middleware.identify(returning, again, next);
+
+    expect(returning.guestCartToken).toBe('abc123');
+    expect(again.cookie).not.toHaveBeenCalled();
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+});
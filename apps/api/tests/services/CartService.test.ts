@@ -0,0 +1,193 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { CartService } from '../../src/services/CartService';
+import { PricingService } from '../../src/services/PricingService';
+import { PromotionService } from '../../src/services/PromotionService';
+import { createLogger, createMetrics } from '../support/services';
+
+// A 100 g pack with the given units in stock across two lots
+function variant(id: string, stock: number, overrides: object = {}) {
+  return {
+    id,
+    productId: `product-${id}`,
+    status: 'ACTIVE',
+    softDeleted: false,
+    weightInGrams: 100,
+    minOrderQty: 1,
+    maxOrderQty: 10,
+    product: { name: `Spice ${id}`, category: 'whole-spices', status: 'ACTIVE', softDeleted: false, hsnCode: '0904', gstRate: 5 },
+    lots: [{ qtyAvailable: stock - 1 }, { qtyAvailable: 1 }],
+    ...overrides,
+  };
+}
+
+function cartItem(id: string, quantity: number, cartVariant = variant(id, 20), addedAt = new Date('2024-06-01T10:00:00Z')) {
+  return { id: `item-${id}`, variantId: cartVariant.id, quantity, addedAt, variant: cartVariant };
+}
+
+function cartRow(id: string, items: ReturnType<typeof cartItem>[], overrides: object = {}) {
+  return {
+    id,
+    userId: 'user-1',
+    sessionToken: null,
+    currency: 'INR',
+    discountCode: null,
+    items,
+    createdAt: new Date('2024-06-01T00:00:00Z'),
+    updatedAt: new Date('2024-06-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function createService(items: ReturnType<typeof cartItem>[] = []) {
+  const cart = cartRow('cart-1', items);
+  const prisma = {
+    cart: {
+      findUnique: vi.fn().mockResolvedValue(cart),
+      create: vi.fn(),
+      update: vi.fn(({ data }) => ({ ...cart, ...data })),
+      delete: vi.fn(),
+    },
+    cartItem: {
+      findUnique: vi.fn().mockResolvedValue(null),
+      findMany: vi.fn().mockResolvedValue([]),
+      upsert: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    productVariant: { findFirst: vi.fn() },
+    address: { findFirst: vi.fn().mockResolvedValue(null) },
+    discountCode: { findUnique: vi.fn().mockResolvedValue(null) },
+    $transaction: vi.fn(),
+  };
+  // List price 100 a unit, whatever the variant
+  const pricing = {
+    resolve: vi.fn((_userId: string | undefined, lines: Array<{ variantId: string; quantity: number }>) =>
+      Promise.resolve(lines.map(line => ({ ...line, unitPrice: 100, listPrice: 100, source: 'LIST' })))),
+  };
+  const promotions = {
+    evaluate: vi.fn(({ lines }: { lines: unknown[] }) => Promise.resolve({
+      lines: lines.map(() => ({ promotionDiscount: 0, promotions: [] })),
+      applied: [],
+      freeItems: [],
+      promotionDiscount: 0,
+      exclusive: false,
+    })),
+  };
+
+  const service = new CartService(
+    prisma as unknown as PrismaClient,
+    createLogger(),
+    createMetrics(),
+    pricing as unknown as PricingService,
+    promotions as unknown as PromotionService
+  );
+
+  return { prisma, pricing, service };
+}
+
+describe('cart pricing', () => {
+  it('prices lines from the buyer\'s resolved prices with indicative GST', async () => {
+    const { pricing, service } = createService([cartItem('pepper', 3)]);
+
+    const cart = await service.getCart({ userId: 'user-1' }, 'INR');
+
+    expect(pricing.resolve).toHaveBeenCalledWith('user-1', [{ variantId: 'pepper', quantity: 3 }], 'INR');
+    expect(cart.items[0]).toMatchObject({ price: 100, quantity: 3, inStock: true, availableQuantity: 20 });
+    expect(cart).toMatchObject({ subtotal: 300, tax: 15, shipping: 0, total: 315 });
+  });
+
+  it('leaves GST out of carts in other currencies', async () => {
+    const { service } = createService([cartItem('pepper', 3)]);
+
+    expect(await service.getCart({ userId: 'user-1' }, 'AED')).toMatchObject({ subtotal: 300, tax: 0, total: 300 });
+  });
+});
+
+describe('adding to the cart', () => {
+  it('adds to the quantity already in the cart', async () => {
+    const { prisma, service } = createService();
+    prisma.productVariant.findFirst.mockResolvedValue(variant('pepper', 20));
+    prisma.cartItem.findUnique.mockResolvedValue({ quantity: 2 });
+
+    await service.addItem({ userId: 'user-1' }, { productId: 'product-pepper', quantity: 3 }, 'INR');
+
+    expect(prisma.cartItem.upsert).toHaveBeenCalledWith(expect.objectContaining({ update: { quantity: 5 } }));
+  });
+
+  it('refuses more than the order limit or the stock', async () => {
+    const { prisma, service } = createService();
+    prisma.productVariant.findFirst.mockResolvedValue(variant('pepper', 4));
+
+    await expect(service.addItem({ userId: 'user-1' }, { productId: 'product-pepper', quantity: 11 }, 'INR'))
+      .rejects.toThrow('Maximum order quantity is 10');
+    await expect(service.addItem({ userId: 'user-1' }, { productId: 'product-pepper', quantity: 5 }, 'INR'))
+      .rejects.toThrow('Only 4 units of this item are in stock');
+    expect(prisma.cartItem.upsert).not.toHaveBeenCalled();
+  });
+
+  it('refuses variants that are no longer sold', async () => {
+    const { prisma, service } = createService();
+    prisma.productVariant.findFirst.mockResolvedValue(variant('pepper', 20, { status: 'INACTIVE' }));
+
+    await expect(service.addItem({ userId: 'user-1' }, { productId: 'product-pepper', quantity: 1 }, 'INR'))
+      .rejects.toThrow('Product variant is not available');
+  });
+
+  it('needs a user or a guest cart token', async () => {
+    const { service } = createService();
+
+    await expect(service.getCart({}, 'INR')).rejects.toThrow('Cart owner is required');
+  });
+});
+
+describe('merging a guest cart on sign-in', () => {
+  function createMerge(guestItems: ReturnType<typeof cartItem>[], userQuantities: Record<string, number> = {}) {
+    const context = createService();
+    const guest = cartRow('guest-cart', guestItems, { userId: null, sessionToken: 'guest-token', discountCode: 'WELCOME' });
+    context.prisma.cart.findUnique.mockImplementation(({ where }) =>
+      Promise.resolve(where.sessionToken ? guest : cartRow('cart-1', [])));
+    context.prisma.cartItem.findMany.mockResolvedValue(
+      Object.entries(userQuantities).map(([variantId, quantity]) => ({ variantId, quantity })));
+    context.prisma.$transaction.mockResolvedValue([]);
+    return context;
+  }
+
+  it('adds guest lines to the user\'s cart and takes over the guest\'s code', async () => {
+    const { prisma, service } = createMerge([cartItem('pepper', 2)], { pepper: 3 });
+
+    const result = await service.mergeGuestCart('user-1', 'guest-token', 'INR');
+
+    expect(result.conflicts).toEqual([]);
+    expect(prisma.cartItem.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { cartId_variantId: { cartId: 'cart-1', variantId: 'pepper' } },
+      update: { quantity: 5 },
+    }));
+    expect(prisma.cart.update).toHaveBeenCalledWith({ where: { id: 'cart-1' }, data: { discountCode: 'WELCOME' } });
+    expect(prisma.cart.delete).toHaveBeenCalledWith({ where: { id: 'guest-cart' } });
+  });
+
+  it('clamps merged quantities to the order limit and the stock and reports why', async () => {
+    const { service } = createMerge([
+      cartItem('pepper', 8),
+      cartItem('clove', 6, variant('clove', 4), new Date('2024-06-01T11:00:00Z')),
+    ], { pepper: 5 });
+
+    const result = await service.mergeGuestCart('user-1', 'guest-token', 'INR');
+
+    expect(result.conflicts).toEqual([
+      { productId: 'product-pepper', variantId: 'pepper', reason: 'MAX_ORDER_QTY', requestedQuantity: 13, mergedQuantity: 10 },
+      { productId: 'product-clove', variantId: 'clove', reason: 'INSUFFICIENT_STOCK', requestedQuantity: 6, mergedQuantity: 4 },
+    ]);
+  });
+
+  it('leaves out lines that are no longer sold', async () => {
+    const { prisma, service } = createMerge([cartItem('saffron', 1, variant('saffron', 5, { softDeleted: true }))]);
+
+    const result = await service.mergeGuestCart('user-1', 'guest-token', 'INR');
+
+    expect(result.conflicts).toEqual([
+      { productId: 'product-saffron', variantId: 'saffron', reason: 'UNAVAILABLE', requestedQuantity: 1, mergedQuantity: 0 },
+    ]);
+    expect(prisma.cartItem.upsert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { checkOrderTransition } from '@newhill/shared/types/order';
+import { CodEligibilityRequest, CodService, calculateCodFee } from '../../src/services/CodService';
+import { OrderStatusService } from '../../src/services/OrderStatusService';
+import { ShippingAdapterFactory } from '../../src/adapters/shipping/ShippingAdapterFactory';
+import { createLogger, createMetrics } from '../support/services';
+
+describe('cash on delivery', () => {
+  it('charges the flat fee on small orders and the percentage on large ones', () => {
+    expect(calculateCodFee(500)).toBe(49);
+    expect(calculateCodFee(2450)).toBe(49);
+    expect(calculateCodFee(4000)).toBe(80);
+    expect(calculateCodFee(3333.33)).toBe(66.67);
+  });
+
+  it('lets unpaid COD orders ship but still holds back other unpaid orders', () => {
+    expect(checkOrderTransition('CONFIRMED', 'PROCESSING', { paid: false, refunded: false, cashOnDelivery: true })).toBeNull();
+    expect(checkOrderTransition('PROCESSING', 'DELIVERED', { paid: false, refunded: false, cashOnDelivery: true })).toBeNull();
+    expect(checkOrderTransition('CONFIRMED', 'PROCESSING', { paid: false, refunded: false, cashOnDelivery: false }))
+      .toBe('Order cannot be processed before it is paid');
+  });
+});
+
+// A customer with the given number of COD parcels refused or returned
+function createService(returnedShipments = 0, serviceable = true) {
+  const checkCodServiceability = vi.fn().mockResolvedValue(serviceable);
+  vi.spyOn(ShippingAdapterFactory, 'getProviderAdapter').mockReturnValue(
+    { checkCodServiceability } as unknown as ReturnType<typeof ShippingAdapterFactory.getProviderAdapter>
+  );
+
+  const prisma = {
+    shipment: { count: vi.fn().mockResolvedValue(returnedShipments) },
+    order: {
+      findUnique: vi.fn().mockResolvedValue({ orderNumber: 'NH-1', totalAmount: 2049, codFee: 49, currency: 'INR' }),
+    },
+    payment: { create: vi.fn().mockImplementation(({ data }) => ({ id: 'payment-1', ...data })) },
+  };
+  const orderStatus = { transition: vi.fn() };
+
+  const service = new CodService(
+    prisma as unknown as PrismaClient,
+    createLogger(),
+    createMetrics(),
+    orderStatus as unknown as OrderStatusService
+  );
+
+  return { prisma, orderStatus, checkCodServiceability, service };
+}
+
+const request: CodEligibilityRequest = {
+  userId: 'user-1',
+  destination: { country: 'IN', postalCode: '682001' },
+  orderValue: 2000,
+  currency: 'INR',
+  weight: 500,
+};
+
+describe('cash on delivery eligibility', () => {
+  it('offers COD on Indian orders the carrier can collect for', async () => {
+    const { checkCodServiceability, service } = createService();
+
+    expect(await service.checkEligibility(request)).toEqual({ eligible: true, fee: 49, currency: 'INR', reasons: [] });
+    expect(checkCodServiceability).toHaveBeenCalledWith(expect.objectContaining({
+      destination: { postalCode: '682001' },
+      weight: 500,
+    }));
+  });
+
+  it('refuses orders outside India without asking the carrier', async () => {
+    const { checkCodServiceability, service } = createService();
+
+    const eligibility = await service.checkEligibility({ ...request, destination: { country: 'AE', postalCode: '00000' }, currency: 'AED' });
+
+    expect(eligibility.reasons).toEqual(['REGION']);
+    expect(checkCodServiceability).not.toHaveBeenCalled();
+  });
+
+  it('refuses large orders, unserviceable pincodes and customers who refused COD parcels', async () => {
+    expect((await createService().service.checkEligibility({ ...request, orderValue: 15000 })).reasons).toEqual(['ORDER_VALUE']);
+    expect((await createService(0, false).service.checkEligibility(request)).reasons).toEqual(['PINCODE']);
+    expect((await createService(2).service.checkEligibility(request)).reasons).toEqual(['RTO_HISTORY']);
+  });
+
+  it('does not promise COD when the carrier cannot be reached', async () => {
+    const { checkCodServiceability, service } = createService();
+    checkCodServiceability.mockRejectedValue(new Error('Carrier timeout'));
+
+    expect((await service.checkEligibility(request)).reasons).toEqual(['PINCODE']);
+  });
+});
+
+describe('placing COD orders', () => {
+  it('records the pending payment and confirms the order so it can ship', async () => {
+    const { prisma, orderStatus, service } = createService();
+
+    const payment = await service.placeOrder('order-1', 'user-1');
+
+    expect(prisma.payment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ orderId: 'order-1', providerId: 'COD-NH-1', method: 'COD', status: 'PENDING', amount: 2049 }),
+    });
+    expect(orderStatus.transition).toHaveBeenCalledWith('order-1', 'confirmed', { type: 'CUSTOMER', id: 'user-1' }, expect.anything());
+    expect(payment).toEqual({ paymentId: 'COD-NH-1', method: 'cod', status: 'pending', amount: 2049, fee: 49, currency: 'INR' });
+  });
+
+  it('refuses an order whose totals were not priced with the COD fee', async () => {
+    const { prisma, orderStatus, service } = createService();
+    prisma.order.findUnique.mockResolvedValue({ orderNumber: 'NH-1', totalAmount: 2000, codFee: 0, currency: 'INR' });
+
+    await expect(service.placeOrder('order-1', 'user-1')).rejects.toThrow('Order totals do not include the cash on delivery fee');
+    expect(prisma.payment.create).not.toHaveBeenCalled();
+    expect(orderStatus.transition).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { checkOrderTransition } from '@newhill/shared/types/order';
+import { CreditService, ageingBucket, daysOverdue } from '../../src/services/CreditService';
+import { OrderStatusService } from '../../src/services/OrderStatusService';
+import { createLogger, createMetrics } from '../support/services';
+
+const account = {
+  id: 'b2b-1',
+  status: 'APPROVED',
+  paymentTerms: 'NET_30',
+  creditLimit: 10000,
+  creditCurrency: 'AED',
+  creditHold: false,
+};
+
+// An account with invoices of the given amounts still open
+function createService(outstanding: number[], order = { orderNumber: 'NH-1', totalAmount: 3000, currency: 'AED' }) {
+  const openPayments = outstanding.map(amount => ({ amount, order: { invoice: null } }));
+  const tx = {
+    $queryRaw: vi.fn().mockResolvedValue([{ id: account.id }]),
+    b2BApplication: { findUniqueOrThrow: vi.fn().mockResolvedValue(account) },
+    payment: {
+      findMany: vi.fn().mockResolvedValue(openPayments),
+      create: vi.fn().mockImplementation(({ data }) => ({ id: 'payment-1', ...data })),
+    },
+  };
+  const prisma = {
+    order: { findUnique: vi.fn().mockResolvedValue(order) },
+    b2BApplication: { findFirst: vi.fn().mockResolvedValue(account) },
+    payment: { findMany: vi.fn().mockResolvedValue(openPayments) },
+    invoice: { count: vi.fn().mockResolvedValue(0) },
+    $transaction: vi.fn((run: (client: typeof tx) => Promise<unknown>) => run(tx)),
+  };
+  const orderStatus = { transition: vi.fn() };
+
+  const service = new CreditService(
+    prisma as unknown as PrismaClient,
+    createLogger(),
+    createMetrics(),
+    orderStatus as unknown as OrderStatusService
+  );
+
+  return { tx, prisma, orderStatus, service };
+}
+
+describe('orders on account', () => {
+  it('ship before they are paid', () => {
+    const context = { paid: false, refunded: false, cashOnDelivery: false, onAccount: true };
+
+    expect(checkOrderTransition('CONFIRMED', 'PROCESSING', context)).toBeNull();
+    expect(checkOrderTransition('PROCESSING', 'SHIPPED', context)).toBeNull();
+  });
+});
+
+describe('receivables ageing', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+  const due = (daysAgo: number) => new Date(now.getTime() - daysAgo * 24 * 60 * 60 * 1000);
+
+  it('counts whole days past the due date', () => {
+    expect(daysOverdue(due(0.5), now)).toBe(0);
+    expect(daysOverdue(due(1), now)).toBe(1);
+    expect(daysOverdue(due(-3), now)).toBe(-3);
+  });
+
+  it('puts invoices not yet a day overdue in the current bucket', () => {
+    expect(ageingBucket(due(-10), now)).toBe('CURRENT');
+    expect(ageingBucket(due(0.9), now)).toBe('CURRENT');
+  });
+
+  it('ages overdue invoices into 30-day buckets', () => {
+    expect(ageingBucket(due(1), now)).toBe('DAYS_1_30');
+    expect(ageingBucket(due(30), now)).toBe('DAYS_1_30');
+    expect(ageingBucket(due(31), now)).toBe('DAYS_31_60');
+    expect(ageingBucket(due(90), now)).toBe('DAYS_61_90');
+    expect(ageingBucket(due(91), now)).toBe('DAYS_90_PLUS');
+    expect(ageingBucket(due(400), now)).toBe('DAYS_90_PLUS');
+  });
+});
+
+describe('credit eligibility', () => {
+  it('lets an approved account with room on its limit pay on account', async () => {
+    const { service } = createService([4000, 1500]);
+
+    expect(await service.checkEligibility('user-1', 4500, 'aed')).toEqual({
+      eligible: true,
+      terms: 'NET_30',
+      currency: 'AED',
+      creditLimit: 10000,
+      outstanding: 5500,
+      available: 4500,
+      reasons: [],
+    });
+  });
+
+  it('counts what is already paid on an open invoice as available again', async () => {
+    const { prisma, service } = createService([]);
+    prisma.payment.findMany.mockResolvedValue([{ amount: 8000, order: { invoice: { amountPaid: 6000 } } }]);
+
+    const eligibility = await service.checkEligibility('user-1', 8000, 'AED');
+
+    expect(eligibility).toMatchObject({ eligible: true, outstanding: 2000, available: 8000 });
+  });
+
+  it('refuses orders above the available credit or in another currency', async () => {
+    const { service } = createService([9000]);
+
+    expect((await service.checkEligibility('user-1', 1500, 'AED')).reasons).toEqual(['CREDIT_LIMIT']);
+    expect((await service.checkEligibility('user-1', 500, 'INR')).reasons).toEqual(['CURRENCY']);
+  });
+
+  it('holds credit while an invoice is overdue, even before the hold job has run', async () => {
+    const { prisma, service } = createService([]);
+    prisma.invoice.count.mockResolvedValue(1);
+
+    expect((await service.checkEligibility('user-1', 100, 'AED')).reasons).toEqual(['CREDIT_HOLD']);
+  });
+
+  it('refuses retail buyers and accounts without terms', async () => {
+    const { prisma, service } = createService([]);
+    prisma.b2BApplication.findFirst.mockResolvedValueOnce(null);
+
+    expect(await service.checkEligibility('user-1', 100, 'AED')).toMatchObject({
+      eligible: false,
+      terms: 'PREPAID',
+      available: 0,
+      reasons: ['NOT_B2B', 'CREDIT_LIMIT'],
+    });
+
+    prisma.b2BApplication.findFirst.mockResolvedValueOnce({ ...account, paymentTerms: 'PREPAID' });
+    expect((await service.checkEligibility('user-1', 100, 'AED')).reasons).toEqual(['NO_TERMS']);
+  });
+});
+
+describe('placing orders on account', () => {
+  it('locks the account and records the pending payment in the account currency', async () => {
+    const { tx, orderStatus, service } = createService([4000]);
+
+    const payment = await service.placeOrder('order-1', 'user-1', 'PO-77');
+
+    expect(tx.$queryRaw).toHaveBeenCalled();
+    expect(tx.payment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ orderId: 'order-1', method: 'INVOICE', status: 'PENDING', currency: 'AED' }),
+    });
+    expect(orderStatus.transition).toHaveBeenCalledWith('order-1', 'confirmed', { type: 'CUSTOMER', id: 'user-1' }, expect.anything());
+    expect(payment).toMatchObject({ method: 'invoice', amount: 3000, currency: 'AED', terms: 'NET_30', purchaseOrderNumber: 'PO-77' });
+  });
+
+  it('refuses an order that a concurrent checkout left no credit for', async () => {
+    // 7,500 was placed on account after this checkout checked eligibility
+    const { tx, orderStatus, service } = createService([7500]);
+
+    await expect(service.placeOrder('order-1', 'user-1')).rejects.toThrow('The order exceeds the credit available on this account');
+    expect(tx.payment.create).not.toHaveBeenCalled();
+    expect(orderStatus.transition).not.toHaveBeenCalled();
+  });
+
+  it('refuses an order in another currency than the credit line', async () => {
+    const { tx, service } = createService([], { orderNumber: 'NH-1', totalAmount: 3000, currency: 'INR' });
+
+    await expect(service.placeOrder('order-1', 'user-1')).rejects.toThrow('Orders on account must be in AED');
+    expect(tx.payment.create).not.toHaveBeenCalled();
+  });
+});
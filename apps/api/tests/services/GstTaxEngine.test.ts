@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_GST_RATE,
+  GstLineInput,
+  calculateGst,
+  financialYearOf,
+  formatInvoiceNumber,
+  resolveGstRate,
+  resolveStateCode,
+} from '../../src/services/GstTaxEngine';
+
+const lines: GstLineInput[] = [
+  { id: 'pepper', hsnCode: '0904', productGstRate: null, taxableValue: 333.33 },
+  { id: 'masala', hsnCode: '2103', productGstRate: 12, taxableValue: 200 },
+];
+
+describe('supply type', () => {
+  it('splits the rate into CGST and SGST within the seller\'s state', () => {
+    const gst = calculateGst(lines, { state: 'Kerala', country: 'IN' }, 'Kerala');
+
+    expect(gst).toMatchObject({ supplyType: 'INTRA_STATE', sellerStateCode: '32', placeOfSupply: '32', igstAmount: 0 });
+    // 2.5% of 333.33 is 8.33 each way, rounded per line
+    expect(gst.lines[0]).toMatchObject({ gstRate: 5, cgstAmount: 8.33, sgstAmount: 8.33, igstAmount: 0, taxAmount: 16.66 });
+    expect(gst.lines[1]).toMatchObject({ gstRate: 12, cgstAmount: 12, sgstAmount: 12 });
+    expect(gst).toMatchObject({ taxableValue: 533.33, cgstAmount: 20.33, sgstAmount: 20.33, totalTax: 40.66 });
+  });
+
+  it('charges IGST on supplies to another state', () => {
+    const gst = calculateGst(lines, { state: 'Tamil Nadu', country: 'IN' }, 'Kerala');
+
+    expect(gst).toMatchObject({ supplyType: 'INTER_STATE', placeOfSupply: '33', cgstAmount: 0, sgstAmount: 0 });
+    expect(gst.lines.map(line => line.igstAmount)).toEqual([16.67, 24]);
+    expect(gst.totalTax).toBe(40.67);
+  });
+
+  it('zero-rates exports', () => {
+    const gst = calculateGst(lines, { state: 'Dubai', country: 'ae' }, 'Kerala');
+
+    expect(gst).toMatchObject({ supplyType: 'EXPORT', placeOfSupply: 'AE', taxableValue: 533.33, totalTax: 0 });
+    expect(gst.lines.every(line => line.gstRate === 0)).toBe(true);
+  });
+
+  it('reads states by name, abbreviation or code and rejects unknown ones', () => {
+    expect(resolveStateCode(' tamil  nadu ')).toBe('33');
+    expect(resolveStateCode('TN')).toBe('33');
+    expect(resolveStateCode('33')).toBe('33');
+    expect(resolveStateCode('Jammu & Kashmir')).toBe(resolveStateCode('Jammu and Kashmir'));
+    expect(() => resolveStateCode('Tamilnadu')).toThrow('Unknown Indian state: Tamilnadu');
+    expect(() => resolveStateCode('99')).toThrow('Unknown Indian state');
+  });
+});
+
+describe('GST rates', () => {
+  it('prefers the product\'s own rate over its HSN code', () => {
+    expect(resolveGstRate('0904', 12)).toBe(12);
+    expect(resolveGstRate('0904', 0)).toBe(0);
+  });
+
+  it('looks up the HSN code by its longest known prefix', () => {
+    expect(resolveGstRate('09041130', null)).toBe(5);
+    expect(resolveGstRate('0910.30', null)).toBe(5);
+  });
+
+  it('falls back to the default rate for unknown or missing codes', () => {
+    expect(resolveGstRate('2103', null)).toBe(DEFAULT_GST_RATE);
+    expect(resolveGstRate('09', null)).toBe(DEFAULT_GST_RATE);
+    expect(resolveGstRate(null, null)).toBe(DEFAULT_GST_RATE);
+  });
+});
+
+describe('invoice numbering', () => {
+  it('starts the financial year on 1 April in India', () => {
+    // 18:29 UTC on 31 March is 23:59 IST, 18:30 UTC is midnight IST
+    expect(financialYearOf(new Date('2024-03-31T18:29:59Z'))).toBe('23-24');
+    expect(financialYearOf(new Date('2024-03-31T18:30:00Z'))).toBe('24-25');
+    expect(financialYearOf(new Date('2025-01-15T00:00:00Z'))).toBe('24-25');
+    expect(financialYearOf(new Date('2099-06-01T00:00:00Z'))).toBe('99-00');
+  });
+
+  it('numbers invoices within the financial year in at most 16 characters', () => {
+    const invoiceNumber = formatInvoiceNumber('24-25', 42);
+
+    expect(invoiceNumber).toBe('NH/24-25/000042');
+    expect(invoiceNumber.length).toBeLessThanOrEqual(16);
+    expect(invoiceNumber).toMatch(/^[A-Za-z0-9/-]+$/);
+  });
+});
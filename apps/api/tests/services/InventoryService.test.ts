@@ -0,0 +1,176 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { hasRequiredShelfLife } from '@newhill/shared/types/inventory';
+import { InventoryService, planLots } from '../../src/services/InventoryService';
+import { createLogger, createMetrics } from '../support/services';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2024-06-01T00:00:00Z');
+
+// A lot harvested a year before its best-before date with the given days left
+function lot(id: string, warehouseId: string | null, daysLeft: number, qtyAvailable: number) {
+  const bestBefore = new Date(Date.now() + daysLeft * DAY_MS);
+  return { id, warehouseId, harvestedOn: new Date(bestBefore.getTime() - 365 * DAY_MS), bestBefore, qtyAvailable };
+}
+
+function createTx(lots: ReturnType<typeof lot>[], country = 'AE') {
+  return {
+    order: {
+      findUnique: vi.fn().mockResolvedValue({
+        id: 'order-1',
+        shippingAddress: { country },
+        items: [
+          { id: 'item-1', variantId: 'variant-1', quantity: 5, variant: { weightInGrams: 100, product: { name: 'Cardamom' } } },
+        ],
+      }),
+    },
+    shelfLifePolicy: { findUnique: vi.fn().mockResolvedValue(null) },
+    warehouse: {
+      findMany: vi.fn().mockResolvedValue([
+        { id: 'wh-kochi', regionsServed: ['IN'] },
+        { id: 'wh-dubai', regionsServed: ['AE', 'OM'] },
+      ]),
+    },
+    lot: {
+      findMany: vi.fn().mockResolvedValue(lots),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      update: vi.fn(),
+    },
+    reservation: {
+      create: vi.fn(),
+      findMany: vi.fn().mockResolvedValue([]),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+    },
+    inventoryLedger: { create: vi.fn() },
+    orderItemLot: { createMany: vi.fn(), deleteMany: vi.fn() },
+    orderItem: {
+      update: vi.fn(),
+      findMany: vi.fn().mockResolvedValue([{ id: 'item-1', quantity: 5 }]),
+    },
+  };
+}
+
+function createService(tx: object = {}) {
+  const prisma = { $transaction: vi.fn((run: (client: object) => Promise<unknown>) => run(tx)) };
+  return new InventoryService(prisma as unknown as PrismaClient, createLogger(), createMetrics());
+}
+
+describe('shelf life', () => {
+  it('requires the regional share of shelf life to be left', () => {
+    const bestBefore = new Date(now.getTime() + 100 * DAY_MS);
+    const fresh = { harvestedOn: new Date(bestBefore.getTime() - 180 * DAY_MS), bestBefore };
+    const old = { harvestedOn: new Date(bestBefore.getTime() - 365 * DAY_MS), bestBefore };
+    const requirement = { minRemainingPercent: 50, minRemainingDays: 0 };
+
+    expect(hasRequiredShelfLife(fresh, requirement, now)).toBe(true);
+    expect(hasRequiredShelfLife(old, requirement, now)).toBe(false);
+    expect(hasRequiredShelfLife(old, undefined, now)).toBe(true);
+    expect(hasRequiredShelfLife(old, undefined, new Date(bestBefore.getTime() + 1))).toBe(false);
+  });
+});
+
+describe('lot planning', () => {
+  const warehouses = [
+    { id: 'wh-dubai', regionsServed: ['AE'] },
+    { id: 'wh-kochi', regionsServed: ['IN'] },
+  ];
+
+  it('ships from the closest warehouse that covers the whole line', () => {
+    const lots = [lot('kochi-early', 'wh-kochi', 200, 10), lot('dubai-late', 'wh-dubai', 300, 10)];
+
+    expect(planLots(lots, 5, warehouses).map(planned => planned.id)).toEqual(['dubai-late']);
+  });
+
+  it('falls back to all lots by closeness, FEFO within each warehouse', () => {
+    const lots = [
+      lot('kochi-early', 'wh-kochi', 200, 10),
+      lot('dubai-late', 'wh-dubai', 300, 2),
+      lot('dubai-early', 'wh-dubai', 250, 2),
+    ];
+
+    expect(planLots(lots, 12, warehouses).map(planned => planned.id)).toEqual(['dubai-early', 'dubai-late', 'kochi-early']);
+  });
+});
+
+describe('order allocation', () => {
+  it('reserves lines FEFO and records the lots on the order items', async () => {
+    const tx = createTx([lot('dubai-late', 'wh-dubai', 300, 3), lot('dubai-early', 'wh-dubai', 250, 3)]);
+    const expiresAt = new Date(Date.now() + 30 * 60 * 1000);
+
+    const allocations = await createService().allocateOrder(tx as unknown as Prisma.TransactionClient, 'order-1', expiresAt);
+
+    expect(allocations[0].lots.map(allocated => [allocated.lotId, allocated.quantity])).toEqual([
+      ['dubai-early', 3],
+      ['dubai-late', 2],
+    ]);
+    expect(tx.reservation.create).toHaveBeenCalledTimes(2);
+    expect(tx.reservation.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ orderId: 'order-1', lotId: 'dubai-early', quantity: 3, expiresAt }),
+    });
+    expect(tx.orderItemLot.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ orderItemId: 'item-1', lotId: 'dubai-early', quantity: 3 }),
+        expect.objectContaining({ orderItemId: 'item-1', lotId: 'dubai-late', quantity: 2 }),
+      ],
+    });
+    expect(tx.orderItem.update).toHaveBeenCalledWith({ where: { id: 'item-1' }, data: { lotId: 'dubai-early' } });
+  });
+
+  it('skips lots without the GCC shelf life and fails the order when stock runs short', async () => {
+    // 60 of 365 days left is under the 50% the GCC requires
+    const tx = createTx([lot('short-dated', 'wh-dubai', 60, 10), lot('fresh', 'wh-dubai', 300, 3)]);
+
+    await expect(
+      createService().allocateOrder(tx as unknown as Prisma.TransactionClient, 'order-1', new Date())
+    ).rejects.toThrow('Not enough stock for Cardamom (100g): 3 of 5 available');
+    expect(tx.lot.updateMany).toHaveBeenCalledTimes(1);
+    expect(tx.reservation.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('payment holds', () => {
+  const held = (id: string, lotId: string, quantity: number) => ({
+    id, variantId: 'variant-1', lotId, warehouseId: 'wh-dubai', orderId: 'order-1', quantity,
+  });
+
+  it('extends a complete hold for another TTL', async () => {
+    const tx = createTx([]);
+    tx.reservation.findMany.mockResolvedValue([held('res-1', 'dubai-early', 3), held('res-2', 'dubai-late', 2)]);
+
+    const expiresAt = await createService(tx).holdForPayment('order-1');
+
+    expect(expiresAt.getTime()).toBeGreaterThan(Date.now());
+    expect(tx.reservation.updateMany).toHaveBeenCalledWith({
+      where: { orderId: 'order-1', status: 'ACTIVE' },
+      data: { expiresAt },
+    });
+    expect(tx.lot.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('reserves an order again once the sweep returned part of its stock', async () => {
+    const tx = createTx([lot('fresh', 'wh-dubai', 300, 10)]);
+    tx.reservation.findMany.mockResolvedValue([held('res-2', 'dubai-late', 2)]);
+
+    await createService(tx).holdForPayment('order-1');
+
+    // What was left of the hold goes back before the order is allocated again
+    expect(tx.reservation.updateMany).toHaveBeenCalledWith({
+      where: { id: 'res-2', status: 'ACTIVE' },
+      data: expect.objectContaining({ status: 'RELEASED' }),
+    });
+    expect(tx.lot.update).toHaveBeenCalledWith({
+      where: { id: 'dubai-late' },
+      data: { qtyAvailable: { increment: 2 }, qtyReserved: { decrement: 2 } },
+    });
+    expect(tx.orderItemLot.deleteMany).toHaveBeenCalledWith({ where: { orderItemId: { in: ['item-1'] } } });
+    expect(tx.reservation.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ orderId: 'order-1', lotId: 'fresh', quantity: 5 }),
+    });
+  });
+
+  it('fails when the stock of a lapsed hold has been sold since', async () => {
+    const tx = createTx([lot('fresh', 'wh-dubai', 300, 1)]);
+
+    await expect(createService(tx).holdForPayment('order-1')).rejects.toThrow('Not enough stock for Cardamom');
+  });
+});
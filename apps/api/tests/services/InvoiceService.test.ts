@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { getRegionCurrency } from '@newhill/shared/types/payment';
+import { InvoiceService } from '../../src/services/InvoiceService';
+import { createLogger, createMetrics } from '../support/services';
+
+// An order as checkout creates it for the destination
+function orderTo(country: string) {
+  return {
+    id: 'order-1',
+    currency: getRegionCurrency(country),
+    createdAt: new Date('2024-05-01T10:00:00Z'),
+    shippingAmount: 50,
+    codFee: 0,
+    shippingAddress: { country, state: 'Capital' },
+    items: [
+      { id: 'item-1', totalPrice: 200, variant: { product: { hsnCode: '0904', gstRate: null } } },
+      { id: 'item-2', totalPrice: 100, variant: { product: { hsnCode: '0910', gstRate: null } } },
+    ],
+    user: { b2bApplication: null },
+    organization: null,
+    invoice: null as { id: string } | null,
+  };
+}
+
+function createService(order: ReturnType<typeof orderTo>) {
+  const prisma = {
+    order: {
+      findUnique: vi.fn().mockResolvedValue(order),
+      update: vi.fn(),
+    },
+    orderItem: { update: vi.fn() },
+    $transaction: vi.fn().mockResolvedValue([]),
+  };
+
+  return { prisma, service: new InvoiceService(prisma as unknown as PrismaClient, createLogger(), createMetrics()) };
+}
+
+describe('order taxes', () => {
+  it('charges orders in the currency of the region they ship to', () => {
+    expect(getRegionCurrency('SA')).toBe('SAR');
+    expect(getRegionCurrency('ae')).toBe('AED');
+    expect(getRegionCurrency('IN')).toBe('INR');
+    expect(getRegionCurrency('DE')).toBe('INR');
+  });
+
+  it('taxes a Saudi order in riyals at the VAT rate in force', async () => {
+    const { prisma, service } = createService(orderTo('SA'));
+
+    const tax = await service.applyOrderTaxes('order-1');
+
+    expect(tax.currency).toBe('SAR');
+    expect(tax.ruleId).toBe('SA-VAT-2020');
+    expect(tax.taxableValue).toBe(300);
+    // 15% on the goods and on shipping
+    expect(tax.vatAmount).toBe(52.5);
+    expect(prisma.order.update).toHaveBeenCalledWith({
+      where: { id: 'order-1' },
+      data: expect.objectContaining({ taxAmount: 52.5, taxRegion: 'SA', taxRate: 15 }),
+    });
+  });
+
+  it('taxes a UAE order in dirhams at 5%', async () => {
+    const { service } = createService(orderTo('AE'));
+
+    const tax = await service.applyOrderTaxes('order-1');
+
+    expect(tax.currency).toBe('AED');
+    expect(tax.ruleId).toBe('AE-VAT');
+    expect(tax.totalTax).toBe(17.5);
+  });
+
+  it('refuses to change taxes once the order is invoiced', async () => {
+    const { service } = createService({ ...orderTo('AE'), invoice: { id: 'inv-1' } });
+
+    await expect(service.applyOrderTaxes('order-1')).rejects.toThrow('Taxes cannot change after the invoice is issued');
+  });
+});
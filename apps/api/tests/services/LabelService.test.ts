@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { LabelData, carrierName, renderLabelPdf, renderLabelZpl } from '../../src/services/LabelService';
+
+const label: LabelData = {
+  trackingNumber: '75123456789',
+  carrier: 'blue_dart',
+  orderNumber: 'NH-20240117-0042',
+  shipFrom: ['Newhill Spices', 'Plot 14, Kakkanad SEZ', 'Kochi, KL 682037'],
+  shipTo: ['Priya Sharma', '402, Sea Breeze Apartments', 'Mumbai, MH 400053', 'IN'],
+  weightInGrams: 1500,
+  units: 3,
+  shipDate: new Date('2024-01-17T10:00:00Z'),
+};
+
+describe('generic labels', () => {
+  it('names known carriers and falls back to the code', () => {
+    expect(carrierName('blue_dart')).toBe('Blue Dart');
+    expect(carrierName('delhivery')).toBe('DELHIVERY');
+  });
+
+  it('prints one ZPL label per shipment with a Code 128 tracking barcode', () => {
+    const zpl = renderLabelZpl([label, { ...label, trackingNumber: '75123456790' }]);
+
+    expect(zpl.match(/\^XA/g)).toHaveLength(2);
+    expect(zpl.match(/\^XZ/g)).toHaveLength(2);
+    expect(zpl).toContain('^BCN,240,Y,N,N^FD75123456789^FS');
+    expect(zpl).toContain('^FDBLUE DART^FS');
+    expect(zpl).toContain('Priya Sharma\\&402, Sea Breeze Apartments');
+  });
+
+  it('keeps command characters out of ZPL field data', () => {
+    const zpl = renderLabelZpl([{ ...label, shipTo: ['Flat ^2~A', 'Mumbai'] }]);
+
+    expect(zpl).toContain('^FDFlat  2 A\\&Mumbai^FS');
+  });
+
+  it('renders a 4x6 PDF page per label', async () => {
+    const pdf = await renderLabelPdf([label, label]);
+    const source = pdf.toString('latin1');
+
+    expect(source.startsWith('%PDF-')).toBe(true);
+    expect(source.match(/\/Type \/Page\b/g)).toHaveLength(2);
+    expect(source).toContain('/MediaBox [0 0 288 432]');
+  });
+});
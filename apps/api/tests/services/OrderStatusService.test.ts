@@ -0,0 +1,224 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { checkOrderTransition, deriveFulfilmentStatus, getTransitionEffects } from '@newhill/shared/types/order';
+import { OrderStatusService } from '../../src/services/OrderStatusService';
+import { createLogger, createMetrics } from '../support/services';
+
+// The email queue connects to Redis when imported
+vi.mock('../../src/utils/emailQueue', () => ({ addOrderStatusEmailJob: vi.fn() }));
+
+const unpaid = { paid: false, refunded: false, cashOnDelivery: false };
+const paid = { paid: true, refunded: false, cashOnDelivery: false };
+
+function createService(status: string, payments = [{ status: 'COMPLETED', method: 'CARD' }]) {
+  const tx = {
+    order: {
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      update: vi.fn(),
+    },
+    b2BQuote: { updateMany: vi.fn().mockResolvedValue({ count: 1 }) },
+    orderStatusHistory: { create: vi.fn() },
+  };
+  const prisma = {
+    order: {
+      findUnique: vi.fn().mockResolvedValue({
+        id: 'order-1',
+        orderNumber: 'NH-1',
+        status,
+        payments,
+        user: { email: 'buyer@example.com', name: 'Buyer' },
+      }),
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    reservation: {
+      findMany: vi.fn().mockResolvedValue([]),
+      count: vi.fn().mockResolvedValue(0),
+    },
+    orderStatusHistory: { create: vi.fn() },
+    $transaction: vi.fn((run: (client: typeof tx) => Promise<unknown>) => run(tx)),
+  };
+
+  const service = new OrderStatusService(prisma as unknown as PrismaClient, createLogger(), createMetrics());
+
+  return { tx, prisma, service };
+}
+
+describe('order transition guards', () => {
+  it('never ships or processes an order before it is paid', () => {
+    expect(checkOrderTransition('CONFIRMED', 'PROCESSING', unpaid)).toBe('Order cannot be processed before it is paid');
+    expect(checkOrderTransition('PROCESSING', 'SHIPPED', unpaid)).toBe('Order cannot be shipped before it is paid');
+    expect(checkOrderTransition('CONFIRMED', 'PROCESSING', paid)).toBeNull();
+  });
+
+  it('never reopens a cancelled or refunded order', () => {
+    expect(checkOrderTransition('CANCELLED', 'PENDING', paid)).toBe('Order cannot move from cancelled to pending');
+    expect(checkOrderTransition('CANCELLED', 'CONFIRMED', paid)).toBe('Order cannot move from cancelled to confirmed');
+    expect(checkOrderTransition('REFUNDED', 'CONFIRMED', paid)).toBe('Order cannot move from refunded to confirmed');
+  });
+
+  it('only moves fulfilment forward and stops cancelling once goods have left', () => {
+    expect(checkOrderTransition('SHIPPED', 'PROCESSING', paid)).toBe('Order cannot move from shipped to processing');
+    expect(checkOrderTransition('PENDING', 'SHIPPED', paid)).toBe('Order cannot move from pending to shipped');
+    expect(checkOrderTransition('SHIPPED', 'CANCELLED', paid)).toBe('Order cannot move from shipped to cancelled');
+    expect(checkOrderTransition('PROCESSING', 'DELIVERED', paid)).toBeNull();
+  });
+
+  it('marks an order refunded only once its payment is', () => {
+    expect(checkOrderTransition('DELIVERED', 'REFUNDED', paid))
+      .toBe('Order can only be marked refunded once its payment has been refunded');
+    expect(checkOrderTransition('DELIVERED', 'REFUNDED', { ...paid, refunded: true })).toBeNull();
+  });
+
+  it('derives the fulfilment status from shipped and delivered quantities', () => {
+    expect(deriveFulfilmentStatus([
+      { quantity: 2, shippedQuantity: 2, deliveredQuantity: 0 },
+      { quantity: 1, shippedQuantity: 0, deliveredQuantity: 0 },
+    ])).toBe('PARTIALLY_SHIPPED');
+    expect(deriveFulfilmentStatus([{ quantity: 2, shippedQuantity: 2, deliveredQuantity: 1 }])).toBe('PARTIALLY_DELIVERED');
+    expect(deriveFulfilmentStatus([{ quantity: 2, shippedQuantity: 0, deliveredQuantity: 0 }])).toBeNull();
+  });
+
+  it('confirms stock on confirmation and releases it on cancellation', () => {
+    expect(getTransitionEffects('PENDING', 'CONFIRMED')).toEqual(['CONFIRM_STOCK', 'NOTIFY_CUSTOMER']);
+    expect(getTransitionEffects('CONFIRMED', 'CANCELLED')).toEqual(['RELEASE_STOCK', 'NOTIFY_CUSTOMER']);
+    expect(getTransitionEffects('CONFIRMED', 'PROCESSING')).toEqual([]);
+  });
+
+  it('refuses a transition the guards reject without writing anything', async () => {
+    const { tx, service } = createService('CONFIRMED', [{ status: 'PENDING', method: 'CARD' }]);
+
+    await expect(service.transition('order-1', 'processing', { type: 'ADMIN', id: 'admin-1' }))
+      .rejects.toMatchObject({ status: 409, code: 'INVALID_ORDER_TRANSITION' });
+    expect(tx.order.updateMany).not.toHaveBeenCalled();
+    expect(tx.orderStatusHistory.create).not.toHaveBeenCalled();
+  });
+
+  it('leaves a repeated status alone', async () => {
+    const { tx, service } = createService('CONFIRMED');
+
+    expect(await service.transition('order-1', 'confirmed', { type: 'WEBHOOK', id: 'razorpay' }))
+      .toEqual({ orderId: 'order-1', from: 'CONFIRMED', to: 'CONFIRMED', changed: false });
+    expect(tx.order.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('order status side effects', () => {
+  it('records stock that could not be confirmed on the order history', async () => {
+    const { tx, prisma, service } = createService('PENDING');
+
+    const result = await service.transition('order-1', 'CONFIRMED', { type: 'WEBHOOK', id: 'razorpay' });
+
+    // The transition itself stands
+    expect(result).toEqual({ orderId: 'order-1', from: 'PENDING', to: 'CONFIRMED', changed: true });
+    expect(tx.orderStatusHistory.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ fromStatus: 'PENDING', toStatus: 'CONFIRMED', actorType: 'WEBHOOK' }),
+    });
+    expect(prisma.orderStatusHistory.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        orderId: 'order-1',
+        fromStatus: 'CONFIRMED',
+        toStatus: 'CONFIRMED',
+        actorType: 'SYSTEM',
+        reason: 'Stock could not be confirmed: No stock is held for this order',
+        metadata: expect.objectContaining({ sideEffect: 'CONFIRM_STOCK' }),
+      }),
+    });
+  });
+
+  it('records stock that could not be released on the order history', async () => {
+    const { prisma, service } = createService('CONFIRMED');
+    prisma.reservation.findMany.mockRejectedValue(new Error('Connection lost'));
+
+    await service.transition('order-1', 'CANCELLED', { type: 'ADMIN', id: 'admin-1' });
+
+    expect(prisma.orderStatusHistory.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        toStatus: 'CANCELLED',
+        reason: 'Stock could not be released: Connection lost',
+        metadata: expect.objectContaining({ sideEffect: 'RELEASE_STOCK', error: 'Connection lost' }),
+      }),
+    });
+  });
+});
+
+
+describe('abandoned checkouts', () => {
+  it('only looks at unpaid orders whose hold expired with no payment in flight', async () => {
+    const { prisma, service } = createService('PENDING');
+
+    await service.cancelAbandonedOrders();
+
+    expect(prisma.order.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        status: 'PENDING',
+        reservations: { some: { status: 'EXPIRED' }, none: { status: 'ACTIVE' } },
+        payments: { none: { status: { in: ['PENDING', 'PROCESSING', 'COMPLETED'] } } },
+        OR: [{ approval: null }, { approval: { status: { not: 'PENDING' } } }],
+      },
+    }));
+  });
+
+  it('cancels through the state machine and skips orders that moved on', async () => {
+    const { tx, prisma, service } = createService('PENDING');
+    prisma.order.findMany.mockResolvedValue([{ id: 'order-1' }, { id: 'order-2' }]);
+    prisma.order.findUnique.mockImplementation(({ where }) => Promise.resolve({
+      id: where.id,
+      orderNumber: `NH-${where.id}`,
+      status: where.id === 'order-1' ? 'PENDING' : 'CONFIRMED',
+      payments: [],
+      user: { email: 'buyer@example.com', name: 'Buyer' },
+    }));
+
+    expect(await service.cancelAbandonedOrders()).toEqual(['order-1']);
+    expect(tx.orderStatusHistory.create).toHaveBeenCalledTimes(1);
+    expect(tx.orderStatusHistory.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        orderId: 'order-1',
+        fromStatus: 'PENDING',
+        toStatus: 'CANCELLED',
+        actorType: 'SYSTEM',
+        reason: 'Stock hold expired before payment',
+      }),
+    });
+  });
+
+  it('hands a quote back for conversion when its order is cancelled before payment', async () => {
+    const { tx, prisma, service } = createService('PENDING', []);
+    prisma.order.findUnique.mockResolvedValue({
+      id: 'order-1',
+      orderNumber: 'NH-1',
+      status: 'PENDING',
+      quoteId: 'quote-1',
+      payments: [],
+      user: { email: 'buyer@example.com', name: 'Buyer' },
+    });
+
+    await service.transition('order-1', 'cancelled', { type: 'SYSTEM' }, { reason: 'Stock hold expired before payment' });
+
+    expect(tx.order.update).toHaveBeenCalledWith({ where: { id: 'order-1' }, data: { quoteId: null } });
+    expect(tx.b2BQuote.updateMany).toHaveBeenCalledWith({
+      where: { id: 'quote-1', status: 'CONVERTED' },
+      data: { status: 'APPROVED' },
+    });
+    expect(tx.orderStatusHistory.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ toStatus: 'CANCELLED', metadata: { quoteId: 'quote-1' } }),
+    });
+  });
+
+  it('keeps the quote converted once its order has been paid', async () => {
+    const { tx, prisma, service } = createService('CONFIRMED');
+    prisma.order.findUnique.mockResolvedValue({
+      id: 'order-1',
+      orderNumber: 'NH-1',
+      status: 'CONFIRMED',
+      quoteId: 'quote-1',
+      payments: [{ status: 'COMPLETED', method: 'CARD' }],
+      user: { email: 'buyer@example.com', name: 'Buyer' },
+    });
+
+    await service.transition('order-1', 'cancelled', { type: 'ADMIN', id: 'admin-1' });
+
+    expect(tx.order.update).not.toHaveBeenCalled();
+    expect(tx.b2BQuote.updateMany).not.toHaveBeenCalled();
+  });
+});
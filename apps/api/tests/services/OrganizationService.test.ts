@@ -0,0 +1,199 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { OrganizationService, accountScope, canAct, needsApproval } from '../../src/services/OrganizationService';
+import { OrderStatusService } from '../../src/services/OrderStatusService';
+import { addOrderApprovalEmailJob } from '../../src/utils/emailQueue';
+import { createLogger, createMetrics } from '../support/services';
+
+// The email queue connects to Redis when imported
+vi.mock('../../src/utils/emailQueue', () => ({
+  addOrderApprovalEmailJob: vi.fn(),
+  addOrganizationInvitationEmailJob: vi.fn(),
+}));
+
+describe('organization roles', () => {
+  it('lets only owners manage the organization', () => {
+    expect(canAct('OWNER', 'MANAGE')).toBe(true);
+    expect(canAct('APPROVER', 'MANAGE')).toBe(false);
+    expect(canAct('BUYER', 'MANAGE')).toBe(false);
+  });
+
+  it('lets owners and approvers approve orders', () => {
+    expect(canAct('OWNER', 'APPROVE')).toBe(true);
+    expect(canAct('APPROVER', 'APPROVE')).toBe(true);
+    expect(canAct('BUYER', 'APPROVE')).toBe(false);
+  });
+
+  it('keeps finance viewers from buying', () => {
+    expect(canAct('BUYER', 'BUY')).toBe(true);
+    expect(canAct('FINANCE_VIEWER', 'BUY')).toBe(false);
+    expect(canAct('FINANCE_VIEWER', 'APPROVE')).toBe(false);
+  });
+});
+
+describe('order approvals', () => {
+  const organization = { approvalThreshold: 50000, approvalCurrency: 'INR' };
+
+  it('are off without a threshold', () => {
+    expect(needsApproval({ amount: 1000000, currency: 'INR' }, { approvalThreshold: null, approvalCurrency: 'INR' })).toBe(false);
+  });
+
+  it('hold orders above the threshold only', () => {
+    expect(needsApproval({ amount: 49999, currency: 'INR' }, organization)).toBe(false);
+    expect(needsApproval({ amount: 50000, currency: 'inr' }, organization)).toBe(false);
+    expect(needsApproval({ amount: 50000.01, currency: 'INR' }, organization)).toBe(true);
+  });
+
+  it('hold orders in another currency whatever their amount', () => {
+    expect(needsApproval({ amount: 10, currency: 'USD' }, organization)).toBe(true);
+  });
+});
+
+describe('account scope', () => {
+  it('matches the user\'s own rows and their organization\'s', () => {
+    expect(accountScope('user-1')).toEqual({
+      OR: [
+        { userId: 'user-1' },
+        { organization: { members: { some: { userId: 'user-1' } } } },
+      ],
+    });
+  });
+});
+
+// A buyer's order in an organization that approves anything above 50,000 INR
+function createService(role: string, order: { totalAmount: number; currency: string; approval?: object | null }) {
+  const organization = { id: 'org-1', name: 'Spice Traders', approvalThreshold: 50000, approvalCurrency: 'INR' };
+  const approval = {
+    id: 'approval-1',
+    orderId: 'order-1',
+    status: 'PENDING',
+    amount: order.totalAmount,
+    currency: order.currency,
+    requestedBy: 'buyer-1',
+    decidedBy: null,
+    decidedAt: null,
+    reason: null,
+    createdAt: new Date(),
+  };
+  const prisma = {
+    order: {
+      findFirst: vi.fn().mockResolvedValue({
+        id: 'order-1',
+        orderNumber: 'NH-1',
+        organizationId: 'org-1',
+        organization,
+        approval: null,
+        ...order,
+      }),
+    },
+    organizationMember: {
+      findUnique: vi.fn().mockResolvedValue({ userId: 'user-1', organizationId: 'org-1', role, organization }),
+      findMany: vi.fn().mockResolvedValue([{ user: { email: 'approver@example.com' } }]),
+    },
+    orderApproval: {
+      create: vi.fn().mockResolvedValue(approval),
+      findFirst: vi.fn().mockResolvedValue(approval),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      findUniqueOrThrow: vi.fn().mockResolvedValue({ ...approval, order: { orderNumber: 'NH-1' } }),
+    },
+    user: { findUnique: vi.fn().mockResolvedValue({ name: 'Buyer' }) },
+    auditLog: { create: vi.fn() },
+  };
+  const orderStatus = { transition: vi.fn() };
+
+  const service = new OrganizationService(
+    prisma as unknown as PrismaClient,
+    createLogger(),
+    createMetrics(),
+    orderStatus as unknown as OrderStatusService
+  );
+
+  return { prisma, orderStatus, service };
+}
+
+describe('requesting approval', () => {
+  it('holds a buyer\'s order above the threshold and emails the approvers', async () => {
+    const { prisma, service } = createService('BUYER', { totalAmount: 80000, currency: 'INR' });
+
+    const approval = await service.requireApproval('order-1', 'user-1');
+
+    expect(approval).toMatchObject({ id: 'approval-1', orderNumber: 'NH-1', status: 'PENDING', amount: 80000 });
+    expect(prisma.orderApproval.create).toHaveBeenCalledWith({
+      data: { orderId: 'order-1', organizationId: 'org-1', requestedBy: 'user-1', amount: 80000, currency: 'INR' },
+    });
+    expect(addOrderApprovalEmailJob).toHaveBeenCalledWith(expect.objectContaining({
+      emails: ['approver@example.com'],
+      orderNumber: 'NH-1',
+      requestedByName: 'Buyer',
+    }));
+  });
+
+  it('lets orders under the threshold and orders by approvers through', async () => {
+    const small = createService('BUYER', { totalAmount: 20000, currency: 'INR' });
+    const byApprover = createService('APPROVER', { totalAmount: 80000, currency: 'INR' });
+
+    expect(await small.service.requireApproval('order-1', 'user-1')).toBeNull();
+    expect(await byApprover.service.requireApproval('order-1', 'user-1')).toBeNull();
+    expect(small.prisma.orderApproval.create).not.toHaveBeenCalled();
+    expect(byApprover.prisma.orderApproval.create).not.toHaveBeenCalled();
+  });
+
+  it('keeps finance viewers from placing orders', async () => {
+    const { service } = createService('FINANCE_VIEWER', { totalAmount: 100, currency: 'INR' });
+
+    await expect(service.requireApproval('order-1', 'user-1')).rejects.toThrow('Your role in this organization cannot place orders');
+  });
+
+  it('refuses to take payment for a rejected order', async () => {
+    const { service } = createService('BUYER', {
+      totalAmount: 80000,
+      currency: 'INR',
+      approval: { status: 'REJECTED', reason: 'Over budget' },
+    });
+
+    await expect(service.requireApproval('order-1', 'user-1')).rejects.toThrow('This order was rejected by an approver');
+  });
+});
+
+describe('deciding approvals', () => {
+  it('cancels a rejected order with the approver\'s reason', async () => {
+    const { prisma, orderStatus, service } = createService('APPROVER', { totalAmount: 80000, currency: 'INR' });
+
+    await service.decide('user-1', 'approval-1', 'REJECTED', 'Over budget');
+
+    expect(prisma.orderApproval.updateMany).toHaveBeenCalledWith({
+      where: { id: 'approval-1', status: 'PENDING' },
+      data: expect.objectContaining({ status: 'REJECTED', decidedBy: 'user-1', reason: 'Over budget' }),
+    });
+    expect(orderStatus.transition).toHaveBeenCalledWith('order-1', 'cancelled', { type: 'CUSTOMER', id: 'user-1' }, {
+      reason: 'Rejected by approver: Over budget',
+      metadata: { approvalId: 'approval-1' },
+    });
+  });
+
+  it('leaves an approved order for its buyer to pay', async () => {
+    const { prisma, orderStatus, service } = createService('OWNER', { totalAmount: 80000, currency: 'INR' });
+
+    await service.decide('user-1', 'approval-1', 'APPROVED');
+
+    expect(orderStatus.transition).not.toHaveBeenCalled();
+    expect(prisma.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'ORDER_APPROVED', entityId: 'org-1' }),
+    });
+  });
+
+  it('lets only one of two approvers deciding at once win', async () => {
+    const { prisma, orderStatus, service } = createService('APPROVER', { totalAmount: 80000, currency: 'INR' });
+    prisma.orderApproval.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.decide('user-1', 'approval-1', 'REJECTED')).rejects.toThrow('This order has already been decided');
+    expect(orderStatus.transition).not.toHaveBeenCalled();
+  });
+
+  it('keeps buyers from deciding', async () => {
+    const { prisma, service } = createService('BUYER', { totalAmount: 80000, currency: 'INR' });
+
+    await expect(service.decide('user-1', 'approval-1', 'APPROVED')).rejects.toThrow('does not allow this');
+    expect(prisma.orderApproval.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { PaymentAdapterFactory } from '../../src/adapters/payment/PaymentAdapterFactory';
+import { PaymentReconciliationService } from '../../src/services/PaymentReconciliationService';
+import { OrderStatusService } from '../../src/services/OrderStatusService';
+import { createLogger, createMetrics } from '../support/services';
+
+// A Razorpay payment stuck in PENDING whose order is in the given status
+function createService(orderStatus: string) {
+  const getPaymentStatus = vi.fn().mockResolvedValue({ amount: 1050, currency: 'INR', status: 'completed' });
+  vi.spyOn(PaymentAdapterFactory, 'getAdapter').mockReturnValue(
+    { getPaymentStatus } as unknown as ReturnType<typeof PaymentAdapterFactory.getAdapter>
+  );
+
+  const prisma = {
+    payment: {
+      findMany: vi.fn().mockResolvedValue([{
+        id: 'payment-1',
+        orderId: 'order-1',
+        providerId: 'pay_123',
+        provider: 'razorpay',
+        metadata: null,
+        method: 'ONLINE',
+        status: 'PENDING',
+        amount: 1050,
+        currency: 'INR',
+        order: { shippingAddress: { country: 'IN' } },
+      }]),
+      update: vi.fn(),
+    },
+    order: { findUnique: vi.fn().mockResolvedValue({ status: orderStatus }) },
+    reconciliationIssue: {
+      findFirst: vi.fn().mockResolvedValue(null),
+      create: vi.fn(),
+    },
+  };
+  const orderStatusService = { transition: vi.fn() };
+
+  const service = new PaymentReconciliationService(
+    prisma as unknown as PrismaClient,
+    createLogger(),
+    createMetrics(),
+    orderStatusService as unknown as OrderStatusService
+  );
+
+  return { prisma, orderStatusService, service };
+}
+
+describe('stale payment reconciliation', () => {
+  it('confirms the order of a payment the provider captured', async () => {
+    const { prisma, orderStatusService, service } = createService('PENDING');
+
+    const result = await service.reconcileStalePayments();
+
+    expect(result).toEqual({ checked: 1, updated: 1, issues: 0, errors: 0 });
+    expect(prisma.payment.update).toHaveBeenCalledWith({ where: { id: 'payment-1' }, data: { status: 'COMPLETED' } });
+    expect(orderStatusService.transition).toHaveBeenCalledWith('order-1', 'confirmed', { type: 'SYSTEM' }, expect.anything());
+  });
+
+  it('records a capture on an order cancelled in the meantime for a refund', async () => {
+    const { prisma, orderStatusService, service } = createService('CANCELLED');
+
+    const result = await service.reconcileStalePayments();
+
+    expect(result).toEqual({ checked: 1, updated: 1, issues: 1, errors: 0 });
+    expect(orderStatusService.transition).not.toHaveBeenCalled();
+    expect(prisma.reconciliationIssue.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        paymentId: 'payment-1',
+        provider: 'razorpay',
+        source: 'STATUS_CHECK',
+        type: 'STATUS_MISMATCH',
+        expected: 'cancelled',
+        actual: 'captured on a cancelled order',
+      }),
+    });
+  });
+
+  it('only polls payments that have been open longer than the stale window', async () => {
+    const { prisma, service } = createService('PENDING');
+    const now = Date.now();
+
+    await service.reconcileStalePayments();
+
+    const { where } = prisma.payment.findMany.mock.calls[0][0];
+    expect(where.status).toEqual({ in: ['PENDING', 'PROCESSING'] });
+    // Well inside the 30 minute stock hold
+    expect(now - where.createdAt.lt.getTime()).toBeGreaterThanOrEqual(15 * 60 * 1000);
+    expect(now - where.createdAt.lt.getTime()).toBeLessThan(16 * 60 * 1000);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { PaymentProviderError } from '@newhill/shared/types/payment';
+import { orderRoutingRules } from '../../src/services/PaymentRoutingService';
+import { CircuitBreaker } from '../../src/utils/circuitBreaker';
+
+describe('payment routing', () => {
+  it('tries lower priorities first and keeps the rest of a priority as failover', () => {
+    const providers = orderRoutingRules(
+      [
+        { provider: 'moyasar', priority: 2, weight: 100 },
+        { provider: 'telr', priority: 1, weight: 100 },
+      ],
+      'order-1'
+    );
+
+    expect(providers).toEqual(['telr', 'moyasar']);
+  });
+
+  it('splits payments by weight and sends the same order to the same gateway', () => {
+    const rules = [
+      { provider: 'telr' as const, priority: 1, weight: 80 },
+      { provider: 'dibsy' as const, priority: 1, weight: 20 },
+    ];
+
+    const first = Array.from({ length: 1000 }, (_, i) => orderRoutingRules(rules, `order-${i}`)[0]);
+    const telrShare = first.filter(provider => provider === 'telr').length / first.length;
+
+    expect(telrShare).toBeGreaterThan(0.75);
+    expect(telrShare).toBeLessThan(0.85);
+    expect(orderRoutingRules(rules, 'order-7')).toEqual(orderRoutingRules(rules, 'order-7'));
+    expect(orderRoutingRules(rules, 'order-7')).toHaveLength(2);
+  });
+
+  it('drops rules with no weight', () => {
+    expect(orderRoutingRules([{ provider: 'telr', priority: 1, weight: 0 }], 'order-1')).toEqual([]);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  const outage = () => Promise.reject(new PaymentProviderError('telr', 'Gateway down'));
+
+  it('opens after consecutive failures and ignores errors that are not failures', async () => {
+    const breaker = new CircuitBreaker(2, 60000, error => error instanceof PaymentProviderError);
+
+    await expect(breaker.execute(() => Promise.reject(new Error('Card declined')))).rejects.toThrow('Card declined');
+    expect(breaker.getFailures()).toBe(0);
+
+    await expect(breaker.execute(outage)).rejects.toThrow('Gateway down');
+    await expect(breaker.execute(outage)).rejects.toThrow('Gateway down');
+
+    expect(breaker.getState()).toBe('OPEN');
+    expect(breaker.isAvailable()).toBe(false);
+    await expect(breaker.execute(() => Promise.resolve('ok'))).rejects.toThrow('Circuit breaker is OPEN');
+  });
+
+  it('lets a trial call through after the reset timeout', async () => {
+    const breaker = new CircuitBreaker(1, 0);
+
+    await expect(breaker.execute(outage)).rejects.toThrow();
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    await expect(breaker.execute(() => Promise.resolve('ok'))).resolves.toBe('ok');
+    expect(breaker.getState()).toBe('CLOSED');
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { PricingService, buildTierBreaks, pickUnitPrice } from '../../src/services/PricingService';
+import { createLogger, createMetrics } from '../support/services';
+
+describe('B2B pricing', () => {
+  const tiers = buildTierBreaks([
+    { minWeightKg: 50, unitPrice: 240 },
+    { minWeightKg: 1, unitPrice: 290 },
+    { minWeightKg: 10, unitPrice: 265 },
+  ]);
+
+  it('builds the volume ladder lowest break first', () => {
+    expect(tiers).toEqual([
+      { minWeightKg: 1, maxWeightKg: 10, unitPrice: 290 },
+      { minWeightKg: 10, maxWeightKg: 50, unitPrice: 265 },
+      { minWeightKg: 50, unitPrice: 240 },
+    ]);
+  });
+
+  it('applies the highest tier the line weight reaches', () => {
+    expect(pickUnitPrice(299, 0.5, tiers)).toEqual({ unitPrice: 299, source: 'LIST' });
+    expect(pickUnitPrice(299, 9.9, tiers)).toEqual({ unitPrice: 290, source: 'TIER' });
+    expect(pickUnitPrice(299, 10, tiers)).toEqual({ unitPrice: 265, source: 'TIER' });
+    expect(pickUnitPrice(299, 120, tiers)).toEqual({ unitPrice: 240, source: 'TIER' });
+  });
+
+  it('charges the lowest of the contract, tier and list prices', () => {
+    expect(pickUnitPrice(299, 2, tiers, 250)).toEqual({ unitPrice: 250, source: 'CONTRACT' });
+    expect(pickUnitPrice(299, 60, tiers, 250)).toEqual({ unitPrice: 240, source: 'TIER' });
+    expect(pickUnitPrice(299, 60, tiers, 240)).toEqual({ unitPrice: 240, source: 'CONTRACT' });
+  });
+});
+
+// A 500 g pack listed at 299 INR with INR volume breaks from 10 kg
+const variant = {
+  id: 'variant-1',
+  weightInGrams: 500,
+  basePriceINR: 299,
+  currencyPrices: [{ currency: 'USD', price: 4.5 }],
+  priceTiers: [
+    { currency: 'INR', minWeightKg: 10, unitPrice: 265 },
+    { currency: 'INR', minWeightKg: 50, unitPrice: 240 },
+  ],
+};
+
+function createService(application: object | null) {
+  const prisma = {
+    productVariant: { findMany: vi.fn().mockResolvedValue([variant]) },
+    b2BApplication: { findFirst: vi.fn().mockResolvedValue(application) },
+    currencyRate: { findUnique: vi.fn().mockResolvedValue({ rate: 0.044 }) },
+  };
+
+  return { prisma, service: new PricingService(prisma as unknown as PrismaClient, createLogger(), createMetrics()) };
+}
+
+function approvedAccount(priceList: object | null = null) {
+  return { status: 'APPROVED', priceList };
+}
+
+function contractList(currency: string, unitPrice: number) {
+  return {
+    id: 'list-1',
+    isActive: true,
+    currency,
+    validFrom: new Date(Date.now() - 86400000),
+    validUntil: null,
+    items: [{ variantId: 'variant-1', unitPrice }],
+  };
+}
+
+describe('price resolution', () => {
+  it('charges retail buyers the list price whatever the quantity', async () => {
+    const { prisma, service } = createService(null);
+
+    const [price] = await service.resolve('user-1', [{ variantId: 'variant-1', quantity: 40 }], 'INR');
+
+    expect(price).toMatchObject({ unitPrice: 299, listPrice: 299, source: 'LIST', currency: 'INR' });
+    expect(prisma.currencyRate.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('gives approved accounts the volume tier of the line weight', async () => {
+    const { service } = createService(approvedAccount());
+
+    const prices = await service.resolve('user-1', [
+      { variantId: 'variant-1', quantity: 10 },
+      { variantId: 'variant-1', quantity: 20 },
+    ], 'INR');
+
+    expect(prices.map(price => [price.unitPrice, price.source])).toEqual([[299, 'LIST'], [265, 'TIER']]);
+  });
+
+  it('charges the contract price of an in-force list and names the list', async () => {
+    const { service } = createService(approvedAccount(contractList('INR', 250)));
+
+    const [price] = await service.resolve('user-1', [{ variantId: 'variant-1', quantity: 2 }], 'INR');
+
+    expect(price).toMatchObject({ unitPrice: 250, source: 'CONTRACT', priceListId: 'list-1' });
+  });
+
+  it('ignores a contract list in another currency than the order', async () => {
+    const { service } = createService(approvedAccount(contractList('USD', 3)));
+
+    const [price] = await service.resolve('user-1', [{ variantId: 'variant-1', quantity: 2 }], 'INR');
+
+    expect(price).toMatchObject({ unitPrice: 299, source: 'LIST' });
+    expect(price.priceListId).toBeUndefined();
+  });
+
+  it('converts INR list prices and tiers when the currency has none of its own', async () => {
+    const { service } = createService(approvedAccount());
+
+    const [price] = await service.resolve('user-1', [{ variantId: 'variant-1', quantity: 20 }], 'AED');
+
+    expect(price).toMatchObject({ listPrice: 13.16, unitPrice: 11.66, source: 'TIER', currency: 'AED' });
+  });
+
+  it('uses a price set in the currency over a converted one', async () => {
+    const { prisma, service } = createService(null);
+    prisma.currencyRate.findUnique.mockResolvedValue(null);
+
+    const [price] = await service.resolve(undefined, [{ variantId: 'variant-1', quantity: 1 }], 'USD');
+
+    expect(price).toMatchObject({ unitPrice: 4.5, source: 'LIST' });
+    await expect(service.resolve(undefined, [{ variantId: 'variant-1', quantity: 1 }], 'SAR'))
+      .rejects.toThrow('Prices are not available in SAR');
+  });
+});
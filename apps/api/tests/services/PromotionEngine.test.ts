@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { evaluatePromotions, PromotionBuyer, PromotionLine, PromotionRule } from '../../src/services/PromotionEngine';
+
+const line = (variantId: string, unitPrice: number, quantity: number, overrides: Partial<PromotionLine> = {}): PromotionLine => ({
+  variantId,
+  productId: `product-${variantId}`,
+  category: 'whole-spices',
+  weightInGrams: 100,
+  quantity,
+  unitPrice,
+  ...overrides,
+});
+
+const rule = (id: string, overrides: Partial<PromotionRule>): PromotionRule => ({
+  id,
+  name: id,
+  actionType: 'TIERED_SPEND',
+  action: { tiers: [] },
+  conditions: {},
+  currency: 'INR',
+  priority: 0,
+  stacking: 'STACKABLE',
+  ...overrides,
+});
+
+const buyer: PromotionBuyer = { currency: 'INR', region: 'IN', role: 'B2C', firstOrder: false, codes: [] };
+
+describe('promotion actions', () => {
+  it('discounts the cheapest units on buy X get Y', () => {
+    const outcome = evaluatePromotions(
+      [rule('b2g1', { actionType: 'BUY_X_GET_Y', action: { buyQuantity: 2, getQuantity: 1 } })],
+      [line('pepper', 300, 2), line('clove', 200, 4)],
+      buyer
+    );
+
+    // 6 units make two groups of three; the two cheapest units are free
+    expect(outcome.lines.map(result => result.promotionDiscount)).toEqual([0, 400]);
+    expect(outcome.promotionDiscount).toBe(400);
+  });
+
+  it('prices bundles from the most expensive units and spreads the saving', () => {
+    const outcome = evaluatePromotions(
+      [rule('any3', { actionType: 'BUNDLE_PRICE', action: { quantity: 3, price: 600 } })],
+      [line('saffron', 400, 1), line('pepper', 250, 3)],
+      buyer
+    );
+
+    // Saffron and two packs of pepper (900) sell for 600; one pepper pays full price
+    expect(outcome.promotionDiscount).toBe(300);
+    expect(outcome.lines.map(result => result.promotionDiscount)).toEqual([133.33, 166.67]);
+  });
+
+  it('applies the highest spend tier reached', () => {
+    const tiers = rule('spend', {
+      action: { tiers: [{ minSpend: 1000, percentOff: 5 }, { minSpend: 2500, percentOff: 10 }] },
+    });
+
+    expect(evaluatePromotions([tiers], [line('pepper', 300, 3)], buyer).promotionDiscount).toBe(0);
+    expect(evaluatePromotions([tiers], [line('pepper', 300, 4)], buyer).promotionDiscount).toBe(60);
+    expect(evaluatePromotions([tiers], [line('pepper', 300, 10)], buyer).promotionDiscount).toBe(300);
+  });
+
+  it('grants a free sample once the spend is reached', () => {
+    const sample = rule('sachet', { actionType: 'FREE_SAMPLE', action: { variantId: 'sachet', minSpend: 500 } });
+
+    expect(evaluatePromotions([sample], [line('pepper', 300, 1)], buyer).samples).toEqual([]);
+    expect(evaluatePromotions([sample], [line('pepper', 300, 2)], buyer).samples).toEqual([
+      { promotionId: 'sachet', variantId: 'sachet', quantity: 1 },
+    ]);
+  });
+});
+
+describe('promotion conditions', () => {
+  const tenPercent = { action: { tiers: [{ minSpend: 0, percentOff: 10 }] } };
+
+  it('only discounts the lines a promotion covers', () => {
+    const outcome = evaluatePromotions(
+      [rule('bulk', { ...tenPercent, conditions: { categories: ['whole-spices'], minWeightInGrams: 500 } })],
+      [line('pepper-1kg', 1000, 1, { weightInGrams: 1000 }), line('pepper-100g', 150, 1), line('blend', 500, 1, { category: 'blends', weightInGrams: 1000 })],
+      buyer
+    );
+
+    expect(outcome.lines.map(result => result.promotionDiscount)).toEqual([100, 0, 0]);
+  });
+
+  it('checks the buyer\'s role, region, currency and first order', () => {
+    const lines = [line('pepper', 1000, 1)];
+    const promotion = rule('welcome', {
+      ...tenPercent,
+      conditions: { customerRoles: ['B2C'], regions: ['AE'], firstOrderOnly: true },
+    });
+
+    expect(evaluatePromotions([promotion], lines, { ...buyer, region: 'AE', firstOrder: true }).promotionDiscount).toBe(100);
+    expect(evaluatePromotions([promotion], lines, { ...buyer, region: 'AE' }).promotionDiscount).toBe(0);
+    expect(evaluatePromotions([promotion], lines, { ...buyer, firstOrder: true }).promotionDiscount).toBe(0);
+    expect(evaluatePromotions([promotion], lines, { ...buyer, region: undefined, firstOrder: true }).promotionDiscount).toBe(0);
+    expect(evaluatePromotions([promotion], lines, { ...buyer, role: 'B2B', region: 'AE', firstOrder: true }).promotionDiscount).toBe(0);
+    expect(evaluatePromotions([promotion], lines, { ...buyer, currency: 'AED', region: 'AE', firstOrder: true }).promotionDiscount).toBe(0);
+  });
+
+  it('needs the code for code promotions', () => {
+    const promotion = rule('code', { ...tenPercent, code: 'MONSOON10' });
+    const lines = [line('pepper', 1000, 1)];
+
+    expect(evaluatePromotions([promotion], lines, buyer).promotionDiscount).toBe(0);
+    expect(evaluatePromotions([promotion], lines, { ...buyer, codes: ['monsoon10'] }).promotionDiscount).toBe(100);
+  });
+});
+
+describe('promotion stacking', () => {
+  const lines = [line('pepper', 1000, 1)];
+  const percent = (id: string, percentOff: number, overrides: Partial<PromotionRule> = {}) =>
+    rule(id, { action: { tiers: [{ minSpend: 0, percentOff }] }, ...overrides });
+
+  it('runs stackable promotions by priority on what is left to pay', () => {
+    const outcome = evaluatePromotions(
+      [percent('low', 50, { priority: 1 }), percent('high', 10, { priority: 5 })],
+      lines,
+      buyer
+    );
+
+    expect(outcome.applied.map(applied => [applied.promotionId, applied.amount])).toEqual([['high', 100], ['low', 450]]);
+    expect(outcome.lines[0].promotions).toHaveLength(2);
+    expect(outcome.exclusive).toBe(false);
+  });
+
+  it('applies an exclusive promotion alone and stops the rest', () => {
+    const outcome = evaluatePromotions(
+      [percent('exclusive', 20, { priority: 5, stacking: 'EXCLUSIVE' }), percent('other', 10)],
+      lines,
+      buyer
+    );
+
+    expect(outcome.applied.map(applied => applied.promotionId)).toEqual(['exclusive']);
+    expect(outcome.exclusive).toBe(true);
+  });
+
+  it('skips an exclusive promotion once another has applied', () => {
+    const outcome = evaluatePromotions(
+      [percent('first', 10, { priority: 5 }), percent('exclusive', 50, { stacking: 'EXCLUSIVE' })],
+      lines,
+      buyer
+    );
+
+    expect(outcome.applied.map(applied => applied.promotionId)).toEqual(['first']);
+    expect(outcome.exclusive).toBe(false);
+  });
+
+  it('never discounts a line below zero', () => {
+    const outcome = evaluatePromotions([percent('a', 80, { priority: 1 }), percent('b', 100)], lines, buyer);
+
+    expect(outcome.promotionDiscount).toBe(1000);
+    expect(outcome.lines[0].promotions.map(share => share.amount)).toEqual([800, 200]);
+  });
+});
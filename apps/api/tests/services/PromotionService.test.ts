@@ -0,0 +1,142 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AppliedPromotion } from '@newhill/shared/types/promotion';
+import { PromotionService } from '../../src/services/PromotionService';
+import { PricingService } from '../../src/services/PricingService';
+import { PromotionLine } from '../../src/services/PromotionEngine';
+import { createLogger, createMetrics } from '../support/services';
+
+const lines: PromotionLine[] = [{
+  variantId: 'pepper',
+  productId: 'product-pepper',
+  category: 'whole-spices',
+  weightInGrams: 500,
+  quantity: 2,
+  unitPrice: 500,
+}];
+
+// A promotion row as stored, taking a percentage off any spend
+function promotionRow(id: string, percentOff: number, overrides: object = {}) {
+  return {
+    id,
+    name: id,
+    code: null,
+    actionType: 'TIERED_SPEND',
+    action: { tiers: [{ minSpend: 0, percentOff }] },
+    conditions: {},
+    currency: 'INR',
+    priority: 0,
+    stacking: 'STACKABLE',
+    usageLimit: null,
+    usedCount: 0,
+    ...overrides,
+  };
+}
+
+function createService(promotions: object[], completedOrders = 1) {
+  const prisma = {
+    promotion: { findMany: vi.fn().mockResolvedValue(promotions) },
+    user: { findUnique: vi.fn().mockResolvedValue({ role: 'B2C' }) },
+    order: { count: vi.fn().mockResolvedValue(completedOrders) },
+    productVariant: { findMany: vi.fn().mockResolvedValue([]) },
+  };
+  const pricing = { resolve: vi.fn().mockResolvedValue([]) };
+
+  const service = new PromotionService(
+    prisma as unknown as PrismaClient,
+    createLogger(),
+    createMetrics(),
+    pricing as unknown as PricingService
+  );
+
+  return { prisma, pricing, service };
+}
+
+describe('evaluating promotions', () => {
+  it('stacks the promotions in force and the code the buyer entered by priority', async () => {
+    const { service } = createService([
+      promotionRow('automatic', 10, { priority: 1 }),
+      promotionRow('code', 20, { code: 'MONSOON20', priority: 5 }),
+      promotionRow('used-up', 50, { usageLimit: 100, usedCount: 100 }),
+    ]);
+
+    const evaluation = await service.evaluate({ userId: 'user-1', currency: 'INR', codes: ['MONSOON20'], lines });
+
+    expect(evaluation.applied.map(applied => [applied.promotionId, applied.amount])).toEqual([['code', 200], ['automatic', 80]]);
+    expect(evaluation.promotionDiscount).toBe(280);
+  });
+
+  it('only offers first-order promotions until the buyer has an order', async () => {
+    const welcome = promotionRow('welcome', 10, { conditions: { firstOrderOnly: true } });
+
+    const returning = createService([welcome], 1);
+    const firstTime = createService([welcome], 0);
+
+    expect((await returning.service.evaluate({ userId: 'user-1', currency: 'INR', codes: [], lines })).applied).toEqual([]);
+    expect((await firstTime.service.evaluate({ userId: 'user-1', currency: 'INR', codes: [], lines })).promotionDiscount).toBe(100);
+    expect(firstTime.prisma.order.count).toHaveBeenCalledWith({
+      where: { userId: 'user-1', status: { notIn: ['PENDING', 'CANCELLED'] } },
+    });
+  });
+
+  it('drops a free sample promotion when the sample is out of stock', async () => {
+    const { prisma, service } = createService([
+      promotionRow('sachet', 0, { actionType: 'FREE_SAMPLE', action: { variantId: 'sachet', minSpend: 500 } }),
+    ]);
+    prisma.productVariant.findMany.mockResolvedValue([{
+      id: 'sachet',
+      productId: 'product-sachet',
+      product: { name: 'Saffron sachet', status: 'ACTIVE' },
+      lots: [{ qtyAvailable: 0 }],
+    }]);
+
+    const evaluation = await service.evaluate({ currency: 'INR', codes: [], lines });
+
+    expect(evaluation.freeItems).toEqual([]);
+    expect(evaluation.applied).toEqual([]);
+  });
+});
+
+describe('redeeming promotions', () => {
+  const applied: AppliedPromotion[] = [{
+    promotionId: 'code',
+    name: 'Monsoon',
+    code: 'MONSOON20',
+    actionType: 'TIERED_SPEND',
+    amount: 200,
+    lines: [{ variantId: 'pepper', amount: 200 }],
+  }];
+
+  function createTx(usedCount: number) {
+    return {
+      promotion: {
+        findUniqueOrThrow: vi.fn().mockResolvedValue(promotionRow('code', 20, { usageLimit: 100, usedCount })),
+        updateMany: vi.fn().mockResolvedValue({ count: usedCount < 100 ? 1 : 0 }),
+      },
+      promotionRedemption: { create: vi.fn() },
+    };
+  }
+
+  it('counts the use against the limit and records the redemption', async () => {
+    const tx = createTx(99);
+
+    await createService([]).service.redeem(tx as unknown as Prisma.TransactionClient, 'order-1', applied);
+
+    expect(tx.promotion.updateMany).toHaveBeenCalledWith({
+      where: { id: 'code', usedCount: { lt: 100 } },
+      data: { usedCount: { increment: 1 } },
+    });
+    expect(tx.promotionRedemption.create).toHaveBeenCalledWith({
+      data: { promotionId: 'code', orderId: 'order-1', amount: 200 },
+    });
+  });
+
+  it('fails the order when a concurrent checkout took the last use', async () => {
+    const tx = createTx(100);
+
+    await expect(
+      createService([]).service.redeem(tx as unknown as Prisma.TransactionClient, 'order-1', applied)
+    ).rejects.toThrow('Promotion "Monsoon" is no longer available');
+    expect(tx.promotionRedemption.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { QuotePdfData, renderQuotePdf } from '../../src/services/QuotePdfService';
+
+const quote: QuotePdfData = {
+  quoteNumber: 'QT-20240601-0007',
+  status: 'APPROVED',
+  currency: 'AED',
+  createdAt: new Date('2024-06-01T09:30:00Z'),
+  validUntil: new Date('2024-06-30T00:00:00Z'),
+  customerNotes: 'Deliver to the Al Quoz warehouse.',
+  buyer: {
+    businessName: 'Gulf Fine Foods LLC',
+    contactName: 'Omar Haddad',
+    email: 'buying@gulffinefoods.ae',
+    phone: '+971 4 555 0100',
+    addressLines: ['Warehouse 12, Al Quoz 3', 'Dubai', 'AE'],
+    gstVatNumber: '100234567800003',
+  },
+  items: [
+    {
+      name: 'Turmeric Powder',
+      localizedName: 'हल्दी पाउडर',
+      weightInGrams: 1000,
+      origins: ['Erode'],
+      quantity: 20,
+      unitPrice: 42,
+      totalPrice: 840,
+    },
+    {
+      name: 'Green Cardamom',
+      weightInGrams: 500,
+      origins: ['Idukki', 'Bodinayakanur'],
+      quantity: 10,
+      unitPrice: 180,
+      totalPrice: 1800,
+      notes: '8 mm bold grade',
+    },
+  ],
+  totalAmount: 2640,
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('quote PDFs', () => {
+  it('renders the same quote to the same bytes whenever it is rendered', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-06-01T10:00:00Z'));
+    const first = await renderQuotePdf(quote);
+
+    vi.setSystemTime(new Date('2024-07-15T18:45:00Z'));
+    const second = await renderQuotePdf(structuredClone(quote));
+
+    expect(first.toString('latin1').startsWith('%PDF-')).toBe(true);
+    expect(second.equals(first)).toBe(true);
+  });
+
+  it('changes the document when the quote changes', async () => {
+    const revised = await renderQuotePdf({ ...quote, totalAmount: 2500 });
+
+    expect(revised.equals(await renderQuotePdf(quote))).toBe(false);
+  });
+});
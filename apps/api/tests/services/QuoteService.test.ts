@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { hasRequiredShelfLife } from '@newhill/shared/types/inventory';
+import { QuoteService } from '../../src/services/QuoteService';
+import { InventoryService } from '../../src/services/InventoryService';
+import { InvoiceService } from '../../src/services/InvoiceService';
+import { createLogger, createMetrics } from '../support/services';
+
+describe('quote conversion shelf life', () => {
+  const now = new Date('2024-06-01T00:00:00Z');
+  const lot = {
+    harvestedOn: new Date('2024-01-01T00:00:00Z'),
+    bestBefore: new Date('2024-12-31T00:00:00Z'),
+  };
+
+  it('accepts lots with the required share of shelf life left', () => {
+    expect(hasRequiredShelfLife(lot, { minRemainingPercent: 50, minRemainingDays: 0 }, now)).toBe(true);
+    expect(hasRequiredShelfLife(lot, { minRemainingPercent: 60, minRemainingDays: 0 }, now)).toBe(false);
+  });
+
+  it('applies the minimum days on top of the percentage', () => {
+    expect(hasRequiredShelfLife(lot, { minRemainingPercent: 0, minRemainingDays: 200 }, now)).toBe(true);
+    expect(hasRequiredShelfLife(lot, { minRemainingPercent: 0, minRemainingDays: 240 }, now)).toBe(false);
+  });
+
+  it('never allocates expired lots', () => {
+    expect(hasRequiredShelfLife(lot, { minRemainingPercent: 0, minRemainingDays: 0 }, new Date('2025-01-01T00:00:00Z'))).toBe(false);
+  });
+});
+
+describe('quote conversion', () => {
+  const address = { id: 'addr-1', country: 'AE', createdAt: new Date(), updatedAt: new Date(), isDefault: true, organizationId: null };
+
+  function createService(taxes: () => Promise<unknown>) {
+    const tx = {
+      b2BQuote: { updateMany: vi.fn().mockResolvedValue({ count: 1 }) },
+      address: { create: vi.fn().mockImplementation(({ data }) => ({ id: `order-${data.type}`, ...data })) },
+      order: {
+        create: vi.fn().mockResolvedValue({ id: 'order-1' }),
+        update: vi.fn(),
+      },
+    };
+    const prisma = {
+      b2BQuote: {
+        findFirst: vi.fn().mockResolvedValue({
+          id: 'quote-1',
+          quoteNumber: 'Q-1',
+          status: 'APPROVED',
+          organizationId: null,
+          currency: 'AED',
+          validUntil: null,
+          customerNotes: null,
+          items: [{
+            variantId: 'variant-1',
+            quantity: 20,
+            unitPrice: 15,
+            totalPrice: 300,
+            variant: { status: 'ACTIVE', softDeleted: false, product: { status: 'ACTIVE', softDeleted: false } },
+          }],
+        }),
+      },
+      address: { findMany: vi.fn().mockResolvedValue([address]) },
+      auditLog: { create: vi.fn() },
+      $transaction: vi.fn((run: (client: typeof tx) => Promise<unknown>) => run(tx)),
+    };
+    const invoices = { applyOrderTaxes: vi.fn(taxes) };
+    const inventory = {
+      reservationExpiry: vi.fn().mockReturnValue(new Date('2024-06-01T00:30:00Z')),
+      allocateOrder: vi.fn(),
+    };
+
+    const service = new QuoteService(
+      prisma as unknown as PrismaClient,
+      createLogger(),
+      createMetrics(),
+      invoices as unknown as InvoiceService,
+      inventory as unknown as InventoryService
+    );
+
+    return { tx, prisma, invoices, inventory, service };
+  }
+
+  it('reserves, taxes and totals the order inside the conversion transaction', async () => {
+    const { tx, prisma, invoices, inventory, service } = createService(async () => ({ taxableValue: 300, totalTax: 15 }));
+
+    const result = await service.convertToOrder('quote-1', 'user-1', { shippingAddressId: 'addr-1' });
+
+    expect(inventory.allocateOrder).toHaveBeenCalledWith(tx, 'order-1', expect.any(Date), 'B2B');
+    expect(invoices.applyOrderTaxes).toHaveBeenCalledWith('order-1', tx);
+    expect(tx.order.update).toHaveBeenCalledWith({ where: { id: 'order-1' }, data: { totalAmount: 315 } });
+    expect(prisma.auditLog.create).toHaveBeenCalled();
+    expect(result).toMatchObject({ orderId: 'order-1', currency: 'AED', subtotal: 300, tax: 15, total: 315 });
+  });
+
+  it('fails the whole conversion when the order cannot be taxed', async () => {
+    const { tx, prisma, service } = createService(async () => {
+      throw new Error('No tax rule for AE');
+    });
+
+    await expect(service.convertToOrder('quote-1', 'user-1', { shippingAddressId: 'addr-1' })).rejects.toThrow('No tax rule for AE');
+    // The quote claim rolls back with the transaction, so it stays APPROVED
+    expect(tx.b2BQuote.updateMany).toHaveBeenCalled();
+    expect(tx.order.update).not.toHaveBeenCalled();
+    expect(prisma.auditLog.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { ShippingConnector, ShippingProvider, ShippingRate } from '@newhill/shared/types/shipping';
+import { ShippingAdapterFactory } from '../../src/adapters/shipping/ShippingAdapterFactory';
+import { RateShoppingService, rankQuotes } from '../../src/services/RateShoppingService';
+import { createLogger, createMetrics } from '../support/services';
+
+// Room for three destinations in the quote cache
+vi.hoisted(() => {
+  process.env.SHIPPING_RATE_CACHE_SIZE = '3';
+});
+
+function rate(method: ShippingRate['method'], cost: number, currency: string, estimatedDays: number): ShippingRate {
+  return { method, cost, currency, estimatedDays, description: `${method} delivery`, isAvailable: true };
+}
+
+function carrier(provider: ShippingProvider, getShippingRates: ShippingConnector['getShippingRates']) {
+  return { provider, getShippingRates: vi.fn(getShippingRates) };
+}
+
+function createService(carriers: Array<ReturnType<typeof carrier>>) {
+  vi.spyOn(ShippingAdapterFactory, 'getAdaptersForRegion').mockReturnValue(
+    carriers as unknown as ReturnType<typeof ShippingAdapterFactory.getAdaptersForRegion>
+  );
+
+  const logger = createLogger();
+  const prisma = {
+    currencyRate: {
+      findMany: vi.fn().mockResolvedValue([
+        { fromCurrency: 'INR', toCurrency: 'USD', rate: 0.012 },
+        { fromCurrency: 'INR', toCurrency: 'AED', rate: 0.044 },
+      ]),
+    },
+  };
+  const service = new RateShoppingService(prisma as unknown as PrismaClient, logger, createMetrics());
+
+  return { logger, prisma, service };
+}
+
+function request(postalCode: string, currency = 'INR') {
+  return {
+    destination: {
+      firstName: 'Asha',
+      lastName: 'Menon',
+      address1: '12 MG Road',
+      city: 'Kochi',
+      state: 'Kerala',
+      country: 'IN',
+      postalCode,
+    },
+    weight: 1200,
+    currency,
+  };
+}
+
+beforeEach(() => {
+  RateShoppingService.clearCache();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe('rate ranking', () => {
+  it('ranks quotes by cost, then by delivery time', () => {
+    const ranked = rankQuotes([
+      { ...rate('standard', 90, 'INR', 6), id: 'a:standard', provider: 'aramex' },
+      { ...rate('express', 60, 'INR', 3), id: 'b:express', provider: 'bluedart' },
+      { ...rate('standard', 60, 'INR', 5), id: 'b:standard', provider: 'bluedart' },
+    ]);
+
+    expect(ranked.map(quote => quote.id)).toEqual(['b:express', 'b:standard', 'a:standard']);
+  });
+
+  it('converts every carrier\'s quote to the shopper\'s currency before ranking', async () => {
+    const { service } = createService([
+      // 1.20 USD is 100 INR, dearer than the 80 INR quote once converted
+      carrier('dhl', async () => [rate('express', 1.2, 'USD', 2)]),
+      carrier('bluedart', async () => [rate('express', 80, 'INR', 3)]),
+    ]);
+
+    const result = await service.shopRates(request('682001'));
+
+    expect(result.quotes.map(quote => [quote.id, quote.cost, quote.currency])).toEqual([
+      ['bluedart:express', 80, 'INR'],
+      ['dhl:express', 100, 'INR'],
+    ]);
+    expect(result.cheapest?.id).toBe('bluedart:express');
+    expect(result.fastest?.id).toBe('dhl:express');
+  });
+
+  it('converts between two foreign currencies through INR', async () => {
+    const { service } = createService([carrier('aramex', async () => [rate('standard', 1.2, 'USD', 4)])]);
+
+    const result = await service.shopRates(request('682001', 'AED'));
+
+    // 1.20 USD is 100 INR is 4.40 AED
+    expect(result.quotes[0]).toMatchObject({ cost: 4.4, currency: 'AED' });
+  });
+
+  it('leaves out quotes in a currency without an exchange rate', async () => {
+    const { logger, service } = createService([
+      carrier('dhl', async () => [rate('express', 10, 'EUR', 2)]),
+      carrier('bluedart', async () => [rate('express', 80, 'INR', 3)]),
+    ]);
+
+    const result = await service.shopRates(request('682001'));
+
+    expect(result.quotes.map(quote => quote.id)).toEqual(['bluedart:express']);
+    expect(logger.warn).toHaveBeenCalledWith('Shipping quote left out, no exchange rate', expect.objectContaining({
+      quote: 'dhl:express',
+      from: 'EUR',
+    }));
+  });
+});
+
+describe('carrier timeouts', () => {
+  it('leaves out a carrier slower than the timeout and answers with the rest', async () => {
+    vi.useFakeTimers();
+    const { service } = createService([
+      carrier('dhl', () => new Promise(() => undefined)),
+      carrier('bluedart', async () => [rate('express', 80, 'INR', 3)]),
+    ]);
+
+    const pending = service.shopRates(request('682001'));
+    await vi.advanceTimersByTimeAsync(5000);
+    const result = await pending;
+
+    expect(result.unavailable).toEqual(['dhl']);
+    expect(result.quotes.map(quote => quote.id)).toEqual(['bluedart:express']);
+  });
+});
+
+describe('quote cache', () => {
+  it('reuses quotes for the same destination and weight bucket', async () => {
+    const bluedart = carrier('bluedart', async () => [rate('express', 80, 'INR', 3)]);
+    const { service } = createService([bluedart]);
+
+    await service.shopRates(request('682001'));
+    const second = await service.shopRates({ ...request('682001'), weight: 1400 });
+
+    expect(second.cached).toBe(true);
+    expect(bluedart.getShippingRates).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks again when a carrier failed last time', async () => {
+    const dhl = carrier('dhl', async () => {
+      throw new Error('Service unavailable');
+    });
+    const { service } = createService([dhl, carrier('bluedart', async () => [rate('express', 80, 'INR', 3)])]);
+
+    await service.shopRates(request('682001'));
+    const second = await service.shopRates(request('682001'));
+
+    expect(second.cached).toBe(false);
+    expect(dhl.getShippingRates).toHaveBeenCalledTimes(2);
+  });
+
+  it('asks again once the quotes have expired', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-06-01T10:00:00Z'));
+    const bluedart = carrier('bluedart', async () => [rate('express', 80, 'INR', 3)]);
+    const { service } = createService([bluedart]);
+
+    await service.shopRates(request('682001'));
+    vi.setSystemTime(new Date('2024-06-01T10:15:00Z'));
+    const second = await service.shopRates(request('682001'));
+
+    expect(second.cached).toBe(false);
+    expect(bluedart.getShippingRates).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops the oldest destination once the cache is full', async () => {
+    const bluedart = carrier('bluedart', async () => [rate('express', 80, 'INR', 3)]);
+    const { service } = createService([bluedart]);
+
+    for (const postalCode of ['682001', '682002', '682003', '682004']) {
+      await service.shopRates(request(postalCode));
+    }
+
+    expect((await service.shopRates(request('682004'))).cached).toBe(true);
+    expect((await service.shopRates(request('682002'))).cached).toBe(true);
+    expect((await service.shopRates(request('682001'))).cached).toBe(false);
+    expect(bluedart.getShippingRates).toHaveBeenCalledTimes(5);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ReturnService, calculateLineRefund } from '../../src/services/ReturnService';
+import { PaymentService } from '../../src/services/PaymentService';
+import { createLogger, createMetrics } from '../support/services';
+
+// A received return of 3 of the 5 units of an order line shipped from lot-1
+function returnRecord(status: string) {
+  return {
+    id: 'return-1',
+    rmaNumber: 'RMA-NH-1-1',
+    orderId: 'order-1',
+    status,
+    refundAmount: 66,
+    items: [{
+      id: 'return-item-1',
+      quantity: 3,
+      orderItem: {
+        id: 'item-1',
+        variantId: 'variant-1',
+        quantity: 5,
+        totalPrice: 100,
+        taxAmount: 10,
+        lotId: 'lot-1',
+        lotAllocations: [{ lotId: 'lot-1' }],
+      },
+    }],
+    order: {
+      id: 'order-1',
+      orderNumber: 'NH-1',
+      payments: [{ providerId: 'pay_1', status: 'COMPLETED', createdAt: new Date('2024-05-01T00:00:00Z') }],
+    },
+  };
+}
+
+function createService(status: string) {
+  const tx = {
+    lot: {
+      findUnique: vi.fn().mockResolvedValue({ id: 'lot-1', warehouseId: 'kochi', status: 'ACTIVE', batchCode: 'B-1', bestBefore: new Date(Date.now() + 86400000) }),
+      update: vi.fn(),
+    },
+    inventoryLedger: { create: vi.fn() },
+    returnItem: { update: vi.fn() },
+    return: { updateMany: vi.fn().mockResolvedValue({ count: 1 }) },
+  };
+  const prisma = {
+    return: {
+      findUnique: vi.fn().mockResolvedValue(returnRecord(status)),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      update: vi.fn(),
+      create: vi.fn(),
+    },
+    order: { findFirst: vi.fn() },
+    $transaction: vi.fn((run: (client: typeof tx) => Promise<unknown>) => run(tx)),
+  };
+  const payments = { refundPayment: vi.fn().mockResolvedValue({ metadata: { refundId: 'rfnd_1' } }) };
+
+  const service = new ReturnService(
+    prisma as unknown as PrismaClient,
+    createLogger(),
+    createMetrics(),
+    payments as unknown as PaymentService
+  );
+
+  return { tx, prisma, payments, service };
+}
+
+describe('return refunds', () => {
+  it('refunds the returned units pro rata with their tax', () => {
+    expect(calculateLineRefund({ quantity: 5, totalPrice: 100, taxAmount: 10 }, 3)).toBe(66);
+    expect(calculateLineRefund({ quantity: 3, totalPrice: 100, taxAmount: 0 }, 1)).toBe(33.33);
+  });
+});
+
+describe('return transitions', () => {
+  it('approves only requested returns', async () => {
+    const { prisma, service } = createService('RECEIVED');
+    prisma.return.updateMany.mockResolvedValue({ count: 0 });
+    prisma.return.findUnique.mockResolvedValue({ status: 'RECEIVED' });
+
+    await expect(service.approve('return-1', 'admin-1')).rejects.toThrow('Return is received, expected requested');
+  });
+
+  it('restocks restockable units into the lot they shipped from and writes off the rest', async () => {
+    const { tx, service } = createService('APPROVED');
+
+    await service.receive('return-1', 'admin-1', {
+      items: [{ returnItemId: 'return-item-1', condition: 'RESTOCKABLE', restockQuantity: 2 }],
+    });
+
+    expect(tx.lot.update).toHaveBeenCalledWith({ where: { id: 'lot-1' }, data: { qtyAvailable: { increment: 2 } } });
+    expect(tx.inventoryLedger.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ changeType: 'IN', quantity: 2, lotId: 'lot-1', warehouseId: 'kochi' }),
+    });
+    expect(tx.inventoryLedger.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ changeType: 'DAMAGED', quantity: 1, warehouseId: 'kochi' }),
+    });
+    expect(tx.return.updateMany).toHaveBeenCalledWith({
+      where: { id: 'return-1', status: 'APPROVED' },
+      data: expect.objectContaining({ status: 'RECEIVED', refundAmount: 66 }),
+    });
+  });
+
+  it('never restocks into a lot the order did not ship from', async () => {
+    const { tx, service } = createService('APPROVED');
+
+    await expect(service.receive('return-1', 'admin-1', {
+      items: [{ returnItemId: 'return-item-1', condition: 'RESTOCKABLE', lotId: 'lot-9' }],
+    })).rejects.toThrow('must be restocked into a lot the order shipped from');
+    expect(tx.lot.update).not.toHaveBeenCalled();
+  });
+
+  it('refunds a received return through the order payment', async () => {
+    const { prisma, payments, service } = createService('RECEIVED');
+
+    await service.refund('return-1', 'admin-1');
+
+    expect(prisma.return.updateMany).toHaveBeenCalledWith({
+      where: { id: 'return-1', status: 'RECEIVED' },
+      data: expect.objectContaining({ status: 'REFUNDED' }),
+    });
+    expect(payments.refundPayment).toHaveBeenCalledWith('pay_1', 66, 'RMA-NH-1-1 for order NH-1');
+    expect(prisma.return.update).toHaveBeenCalledWith({ where: { id: 'return-1' }, data: { refundReference: 'rfnd_1' } });
+  });
+
+  it('puts the return back to received when the gateway refuses the refund', async () => {
+    const { prisma, payments, service } = createService('RECEIVED');
+    payments.refundPayment.mockRejectedValue(new Error('Gateway timeout'));
+
+    await expect(service.refund('return-1', 'admin-1')).rejects.toThrow('Gateway timeout');
+    expect(prisma.return.update).toHaveBeenCalledWith({
+      where: { id: 'return-1' },
+      data: { status: 'RECEIVED', refundedAt: null },
+    });
+  });
+});
+
+describe('return requests', () => {
+  it('takes the next RMA number when a concurrent request got there first', async () => {
+    const { prisma, service } = createService('REQUESTED');
+    prisma.order.findFirst.mockResolvedValue({
+      id: 'order-1',
+      orderNumber: 'NH-1',
+      status: 'DELIVERED',
+      updatedAt: new Date(),
+      shipments: [],
+      returns: [{ id: 'return-0' }],
+      items: [{ id: 'item-1', quantity: 5, returnItems: [], shipmentItems: [] }],
+    });
+    prisma.return.create
+      .mockRejectedValueOnce(new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: '5' }))
+      .mockResolvedValueOnce({ id: 'return-2' });
+
+    await service.requestReturn('order-1', 'user-1', {
+      items: [{ orderItemId: 'item-1', quantity: 1, reason: 'WRONG_ITEM' }],
+    });
+
+    expect(prisma.return.create.mock.calls.map(([args]) => args.data.rmaNumber)).toEqual(['RMA-NH-1-2', 'RMA-NH-1-3']);
+  });
+});
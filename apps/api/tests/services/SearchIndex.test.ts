@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { editDistance, IndexedProduct, IndexedVariant, SearchIndex, tokenize } from '../../src/services/SearchIndex';
+
+const pack = (id: string, weightInGrams: number, basePriceINR: number, overrides: Partial<IndexedVariant> = {}): IndexedVariant => ({
+  id,
+  weightInGrams,
+  basePriceINR,
+  prices: {},
+  availableQuantity: 10,
+  isActive: true,
+  ...overrides,
+});
+
+const product = (id: string, overrides: Partial<IndexedProduct>): IndexedProduct => ({
+  id,
+  names: { en: id },
+  descriptions: {},
+  category: 'whole-spices',
+  certifications: [],
+  images: [],
+  variants: [],
+  lots: [],
+  createdAt: new Date('2024-06-01T00:00:00Z'),
+  updatedAt: new Date('2024-06-01T00:00:00Z'),
+  ...overrides,
+});
+
+function createIndex(): SearchIndex {
+  const index = new SearchIndex();
+
+  index.upsert(product('turmeric', {
+    names: { en: 'Turmeric Powder', hi: 'हल्दी पाउडर', ar: 'الكركم المطحون' },
+    category: 'ground-spices',
+    certifications: ['organic'],
+    variants: [pack('turmeric-100', 100, 120), pack('turmeric-250', 250, 280)],
+  }));
+  index.upsert(product('pepper', {
+    names: { en: 'Black Pepper', hi: 'काली मिर्च', ar: 'فلفل أسود' },
+    variants: [pack('pepper-100', 100, 150, { prices: { AED: 7 } })],
+  }));
+  index.upsert(product('cardamom', {
+    names: { en: 'Green Cardamom' },
+    certifications: ['organic'],
+    variants: [pack('cardamom-50', 50, 400)],
+  }));
+
+  return index;
+}
+
+const search = (index: SearchIndex, text: string, overrides: object = {}) =>
+  index.search({ text, currency: 'INR', conversionRate: 1, ...overrides });
+
+describe('typo tolerance', () => {
+  it('finds products through a misspelling and suggests the right spelling', () => {
+    const result = search(createIndex(), 'tumeric');
+
+    expect(result.hits.map(hit => hit.product.id)).toEqual(['turmeric']);
+    expect(result.didYouMean).toEqual(['turmeric']);
+  });
+
+  it('ranks an exact match above a misspelt one and offers no correction for it', () => {
+    const result = search(createIndex(), 'pepper');
+
+    expect(result.hits[0].product.id).toBe('pepper');
+    expect(result.didYouMean).toBeUndefined();
+  });
+
+  it('allows more typos in longer words and none in short ones', () => {
+    expect(editDistance('cardmaom', 'cardamom', 2)).toBe(1);
+    expect(search(createIndex(), 'kardmaom').hits.map(hit => hit.product.id)).toEqual(['cardamom']);
+    expect(search(createIndex(), 'pep').hits.map(hit => hit.product.id)).toEqual(['pepper']);
+    expect(search(createIndex(), 'ppe').total).toBe(0);
+  });
+});
+
+describe('multilingual matching', () => {
+  it('finds a product by any of its translated names', () => {
+    expect(search(createIndex(), 'हल्दी', { language: 'hi' }).hits[0].product.id).toBe('turmeric');
+    expect(search(createIndex(), 'मिर्च', { language: 'hi' }).hits[0].product.id).toBe('pepper');
+  });
+
+  it('ignores the Arabic article and letter variants', () => {
+    expect(tokenize('الكركم')).toEqual(tokenize('كركم'));
+    expect(tokenize('أسود')).toEqual(tokenize('اسود'));
+    expect(search(createIndex(), 'كركم', { language: 'ar' }).hits[0].product.id).toBe('turmeric');
+    expect(search(createIndex(), 'فلفل اسود', { language: 'ar' }).hits[0].product.id).toBe('pepper');
+  });
+
+  it('folds Latin accents and case', () => {
+    expect(search(createIndex(), 'TURMÉRIC').hits[0].product.id).toBe('turmeric');
+  });
+});
+
+describe('facets', () => {
+  it('counts facets over every match, before filters narrow the hits', () => {
+    const result = search(createIndex(), '', { filters: { category: 'whole-spices' } });
+
+    expect(result.hits.map(hit => hit.product.id).sort()).toEqual(['cardamom', 'pepper']);
+    expect(result.facets.categories).toEqual([
+      { name: 'whole-spices', count: 2 },
+      { name: 'ground-spices', count: 1 },
+    ]);
+    expect(result.facets.certifications).toEqual([{ name: 'organic', count: 2 }]);
+    expect(result.facets.weights).toEqual([
+      { value: 50, count: 1 },
+      { value: 100, count: 2 },
+      { value: 250, count: 1 },
+    ]);
+    expect(result.facets.priceRange).toEqual({ min: 120, max: 400 });
+    expect(result.facets.priceBuckets).toEqual([
+      { min: 100, max: 200, count: 2 },
+      { min: 400, max: 500, count: 1 },
+    ]);
+  });
+
+  it('prices facets and filters in the shopper\'s currency', () => {
+    const result = search(createIndex(), '', { currency: 'AED', conversionRate: 0.05, filters: { priceMax: 7 } });
+
+    // Pepper has an explicit AED price; the others are converted from INR
+    expect(result.facets.priceRange).toEqual({ min: 6, max: 20 });
+    expect(result.hits.map(hit => [hit.product.id, hit.price]).sort()).toEqual([['pepper', 7], ['turmeric', 6]]);
+  });
+});
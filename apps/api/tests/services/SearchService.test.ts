@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { SearchService } from '../../src/services/SearchService';
+import { createLogger, createMetrics } from '../support/services';
+
+const pepperRow = {
+  id: 'pepper',
+  name: 'Black Pepper',
+  description: 'Tellicherry peppercorns.',
+  translations: [],
+  category: 'whole-spices',
+  organicCertified: false,
+  images: [],
+  variants: [{
+    id: 'pepper-100',
+    weightInGrams: 100,
+    basePriceINR: 150,
+    status: 'ACTIVE',
+    currencyPrices: [],
+    lots: [],
+  }],
+  createdAt: new Date('2024-06-01T00:00:00Z'),
+  updatedAt: new Date('2024-06-01T00:00:00Z'),
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('search index refresh', () => {
+  it('keeps serving the previous index when a background refresh fails', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-06-01T10:00:00Z'));
+
+    const logger = createLogger();
+    const prisma = {
+      product: {
+        findMany: vi.fn()
+          .mockResolvedValueOnce([pepperRow])
+          .mockRejectedValue(new Error('Connection lost')),
+      },
+    };
+    const service = new SearchService(prisma as unknown as PrismaClient, logger, createMetrics());
+
+    expect((await service.search({ query: 'pepper', language: 'en', currency: 'INR' })).total).toBe(1);
+
+    // Past the refresh interval the index is rebuilt in the background
+    vi.setSystemTime(new Date('2024-06-01T10:06:00Z'));
+    const result = await service.search({ query: 'pepper', language: 'en', currency: 'INR' });
+    await vi.waitFor(() => expect(logger.error).toHaveBeenCalledWith(
+      'Search index rebuild failed',
+      expect.objectContaining({ error: 'Connection lost' })
+    ));
+
+    expect(result.total).toBe(1);
+    expect((await service.search({ query: 'pepper', language: 'en', currency: 'INR' })).total).toBe(1);
+    expect(prisma.product.findMany).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { PaymentService } from '../../src/services/PaymentService';
+import { OrderStatusService } from '../../src/services/OrderStatusService';
+import { WebhookInboxService, nextRetryDelay, webhookEventId } from '../../src/services/WebhookInboxService';
+import { createLogger, createMetrics } from '../support/services';
+
+// Razorpay wraps the payment an event is about in payload.payment.entity
+function razorpayEvent(event: string, payment?: { id: string; status: string }) {
+  return {
+    event,
+    payload: payment ? { payment: { entity: { ...payment, amount: 105000, currency: 'INR' } } } : {},
+  };
+}
+
+// An inbox holding one stored Razorpay event, over a single payment
+function createInbox(payload: any) {
+  const payment = { id: 'payment-1', orderId: 'order-1', providerId: 'pay_123', status: 'PENDING' };
+  const stored = {
+    id: 'event-1',
+    source: 'PAYMENT',
+    provider: 'razorpay',
+    eventId: 'evt_1',
+    eventType: payload.event,
+    status: 'RECEIVED',
+    attempts: 0,
+    payload,
+    headers: {},
+    receivedAt: new Date('2024-06-01T10:00:00Z'),
+  };
+
+  const prisma = {
+    webhookEvent: {
+      findUnique: vi.fn(async () => stored),
+      findUniqueOrThrow: vi.fn(async () => stored),
+      updateMany: vi.fn(async () => ({ count: 1 })),
+      update: vi.fn(async ({ data }) => Object.assign(stored, data)),
+    },
+    payment: {
+      updateMany: vi.fn(async ({ where, data }) => {
+        const matches = (!where.providerId || where.providerId === payment.providerId)
+          && (!where.status || where.status.in.includes(payment.status));
+        if (matches) {
+          Object.assign(payment, data);
+        }
+        return { count: matches ? 1 : 0 };
+      }),
+      findFirst: vi.fn(async () => ({ ...payment })),
+    },
+  };
+  const orderStatus = { transition: vi.fn() };
+  const logger = createLogger();
+  const metrics = createMetrics();
+  const payments = new PaymentService(
+    prisma as unknown as PrismaClient,
+    logger,
+    metrics,
+    orderStatus as unknown as OrderStatusService
+  );
+  const inbox = new WebhookInboxService(prisma as unknown as PrismaClient, logger, metrics, payments);
+
+  return { inbox, payment, prisma, orderStatus };
+}
+
+describe('webhook inbox', () => {
+  it('keys events on the provider event ID, from a header or the payload', () => {
+    expect(webhookEventId({ event: 'payment.captured' }, { 'x-razorpay-event-id': 'evt_Hd8' })).toBe('evt_Hd8');
+    expect(webhookEventId({ event_id: 'evt_1', id: 'pay_1' }, {})).toBe('evt_1');
+    expect(webhookEventId({ id: 4711, type: 'payment_paid' }, {})).toBe('4711');
+  });
+
+  it('hashes payloads without an event ID so only identical redeliveries match', () => {
+    const delivered = webhookEventId({ order_id: 'NH-1', status: 'DELIVERED' }, {});
+
+    expect(delivered).toMatch(/^sha256:[0-9a-f]{64}$/);
+    expect(webhookEventId({ order_id: 'NH-1', status: 'DELIVERED' }, {})).toBe(delivered);
+    expect(webhookEventId({ order_id: 'NH-1', status: 'RETURNED' }, {})).not.toBe(delivered);
+  });
+
+  it('doubles the retry delay after each failure, up to six hours', () => {
+    expect(nextRetryDelay(1)).toBe(60 * 1000);
+    expect(nextRetryDelay(2)).toBe(120 * 1000);
+    expect(nextRetryDelay(4)).toBe(480 * 1000);
+    expect(nextRetryDelay(20)).toBe(6 * 60 * 60 * 1000);
+  });
+});
+
+describe('payment webhooks', () => {
+  it('reads the payment a Razorpay event is about and confirms its order', async () => {
+    const { inbox, payment, orderStatus } = createInbox(razorpayEvent('payment.captured', { id: 'pay_123', status: 'captured' }));
+
+    await inbox.replay('event-1', 'admin-1');
+
+    expect(payment.status).toBe('COMPLETED');
+    expect(orderStatus.transition).toHaveBeenCalledWith('order-1', 'confirmed', { type: 'WEBHOOK', id: 'razorpay' }, expect.anything());
+  });
+
+  it('leaves a refunded payment and its order alone when a capture is replayed', async () => {
+    const { inbox, payment, prisma, orderStatus } = createInbox(razorpayEvent('payment.captured', { id: 'pay_123', status: 'captured' }));
+    payment.status = 'REFUNDED';
+
+    const replayed = await inbox.replay('event-1', 'admin-1');
+
+    expect(replayed.status).toBe('PROCESSED');
+    expect(payment.status).toBe('REFUNDED');
+    expect(prisma.payment.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { providerId: 'pay_123', status: { in: ['PENDING', 'PROCESSING'] } },
+    }));
+    expect(orderStatus.transition).not.toHaveBeenCalled();
+  });
+
+  it('never moves a failed payment on', async () => {
+    const { inbox, payment } = createInbox(razorpayEvent('payment.authorized', { id: 'pay_123', status: 'authorized' }));
+    payment.status = 'FAILED';
+
+    await inbox.replay('event-1', 'admin-1');
+
+    expect(payment.status).toBe('FAILED');
+  });
+
+  it('updates no payment for an event that names none', async () => {
+    const { inbox, prisma } = createInbox(razorpayEvent('order.paid'));
+
+    await inbox.replay('event-1', 'admin-1');
+
+    expect(prisma.payment.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,104 @@
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { AddressInfo } from 'net';
+
+/**
+ * Local stand-in for a carrier API. Answers each "METHOD /path" with a
+ * recorded response from tests/fixtures/<carrier>/ and keeps every request
+ * it received so tests can check what the adapter sent.
+ */
+
+export interface FixtureResponse {
+  // File name under the carrier's fixture directory, without .json
+  fixture: string;
+  status?: number;
+  // Hold the response back, e.g. to trip a client timeout
+  delayMs?: number;
+}
+
+export type FixtureRoute = FixtureResponse | ((request: RecordedRequest) => FixtureResponse);
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+export interface FixtureServer {
+  baseUrl: string;
+  requests: RecordedRequest[];
+  // Replace or add routes between tests
+  route(key: string, route: FixtureRoute): void;
+  close(): Promise<void>;
+}
+
+const FIXTURES_DIR = path.resolve(__dirname, '../fixtures');
+
+export function loadFixture(carrier: string, name: string): any {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, carrier, `${name}.json`), 'utf8'));
+}
+
+export async function startFixtureServer(
+  carrier: string,
+  routes: Record<string, FixtureRoute>
+): Promise<FixtureServer> {
+  const table = new Map(Object.entries(routes));
+  const requests: RecordedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+
+    req.on('data', chunk => {
+      raw += chunk;
+    });
+
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://127.0.0.1');
+      const recorded: RecordedRequest = {
+        method: req.method || 'GET',
+        path: url.pathname,
+        query: Object.fromEntries(url.searchParams),
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : undefined,
+      };
+      requests.push(recorded);
+
+      const route = table.get(`${recorded.method} ${recorded.path}`);
+      if (!route) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ message: `No fixture for ${recorded.method} ${recorded.path}` }));
+        return;
+      }
+
+      const response = typeof route === 'function' ? route(recorded) : route;
+      const send = () => {
+        res.writeHead(response.status || 200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(loadFixture(carrier, response.fixture)));
+      };
+
+      if (response.delayMs) {
+        setTimeout(send, response.delayMs);
+      } else {
+        send();
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    route(key, route) {
+      table.set(key, route);
+    },
+    close() {
+      server.closeAllConnections();
+      return new Promise((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+    },
+  };
+}
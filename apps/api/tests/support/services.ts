@@ -0,0 +1,25 @@
+import { vi } from 'vitest';
+import { Logger } from '../../src/utils/logger';
+import { MetricsCollector } from '../../src/utils/metrics';
+
+/**
+ * Stand-ins for the logger and metrics every service takes, so service tests
+ * stay quiet and can check what was recorded.
+ */
+
+export function createLogger(): Logger {
+  return {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  } as unknown as Logger;
+}
+
+export function createMetrics(): typeof MetricsCollector {
+  return {
+    incrementCounter: vi.fn(),
+    recordTiming: vi.fn(),
+    setGauge: vi.fn(),
+  } as unknown as typeof MetricsCollector;
+}
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { code128Symbols, code128Width, encodeCode128 } from '../../src/utils/barcode';
+
+describe('Code 128', () => {
+  it('wraps the data in start B, checksum and stop symbols', () => {
+    // 104 + 1*33 ('A') + 2*34 ('B') = 205, 205 % 103 = 102
+    expect(code128Symbols('AB')).toEqual([104, 33, 34, 102, 106]);
+  });
+
+  it('encodes each symbol as 11 modules and the stop as 13', () => {
+    const value = '1234567890';
+
+    expect(code128Width(value)).toBe((value.length + 2) * 11 + 13);
+    expect(encodeCode128(value)).toHaveLength((value.length + 2) * 6 + 7);
+  });
+
+  it('rejects values that code set B cannot carry', () => {
+    expect(() => code128Symbols('')).toThrow('empty');
+    expect(() => code128Symbols('AWBé')).toThrow('cannot be encoded');
+  });
+});
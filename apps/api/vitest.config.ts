@@ -0,0 +1,28 @@
+import { defineConfig } from 'vitest/config';
+import path from 'path';
+
+export default defineConfig({
+  test: {
+    globals: true,
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+    coverage: {
+      provider: 'v8',
+      reporter: ['text', 'json', 'html'],
+      exclude: [
+        'node_modules/',
+        'tests/',
+        '**/*.d.ts',
+        '**/*.config.*',
+        '**/coverage/**',
+      ],
+    },
+  },
+  resolve: {
+    alias: {
+      // Test against the shared sources rather than its build output
+      '@newhill/shared': path.resolve(__dirname, '../../packages/shared/src'),
+      '@': path.resolve(__dirname, './src'),
+    },
+  },
+});
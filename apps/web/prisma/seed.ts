@@ -174,6 +174,15 @@ async function main() {
     });
   }
 
+  // Shelf-life requirements for lot allocation; GCC importers expect at least half remaining
+  for (const region of ['AE', 'SA', 'QA', 'OM']) {
+    await prisma.shelfLifePolicy.upsert({
+      where: { region },
+      update: {},
+      create: { region, minRemainingPercent: 50 },
+    });
+  }
+
   // 5. Create Products and Variants
   const spices = [
     {
@@ -307,7 +316,31 @@ async function main() {
     }
   }
 
-  // 7. Create Lots for each variant
+  // 7. Create Warehouses and Lots for each variant
+  const keralaWarehouse = await prisma.warehouse.create({
+    data: {
+      code: 'IN-KL-MUNNAR',
+      name: 'Munnar Estate Warehouse',
+      city: 'Munnar',
+      state: 'Kerala',
+      country: 'IN',
+      postalCode: '685612',
+      regionsServed: ['IN'],
+      priority: 10,
+    },
+  });
+
+  const dubaiWarehouse = await prisma.warehouse.create({
+    data: {
+      code: 'AE-DXB',
+      name: 'Dubai Stock Point',
+      city: 'Dubai',
+      country: 'AE',
+      regionsServed: ['AE', 'QA', 'SA', 'OM'],
+      priority: 10,
+    },
+  });
+
   for (const product of createdProducts) {
     for (const variant of product.variants) {
       const lots = [
@@ -319,6 +352,7 @@ async function main() {
           qcNotes: 'Premium quality, passed all tests',
           qtyAvailable: Math.floor(variant.stockQty * 0.6),
           qtyReserved: 0,
+          warehouseId: keralaWarehouse.id,
         },
         {
           batchCode: `BATCH-${variant.id.slice(-8).toUpperCase()}-002`,
@@ -328,6 +362,7 @@ async function main() {
           qcNotes: 'Excellent aroma and flavor',
           qtyAvailable: Math.floor(variant.stockQty * 0.4),
           qtyReserved: 0,
+          warehouseId: dubaiWarehouse.id,
         },
       ];
 
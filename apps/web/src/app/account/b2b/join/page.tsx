@@ -0,0 +1,113 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useSession, signOut } from 'next-auth/react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { CheckCircle, XCircle, Users } from 'lucide-react';
+import { Organization } from '@newhill/shared';
+
+export default function JoinOrganizationPage() {
+  const { data: session, status } = useSession();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [joining, setJoining] = useState(false);
+
+  useEffect(() => {
+    if (!token) {
+      setError('This invitation link is incomplete. Open the link from your invitation email again.');
+    }
+  }, [token]);
+
+  const handleJoin = async () => {
+    setJoining(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/v1/b2b/invitations/accept', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        },
+        body: JSON.stringify({ token }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setOrganization(data.data);
+      } else {
+        setError(data.error?.message || 'The invitation could not be accepted');
+      }
+    } catch (error) {
+      setError('An error occurred while accepting the invitation');
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen bg-neutral-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-600"></div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen bg-neutral-50 flex items-center justify-center">
+        <div className="text-center max-w-md">
+          <h1 className="text-2xl font-bold text-neutral-900 mb-4">Sign in to join your team</h1>
+          <p className="text-neutral-600 mb-6">
+            Sign in or create an account with the email address the invitation was sent to, then open the link again.
+          </p>
+          <Link href="/auth/signin" className="btn-primary">
+            Sign In
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-neutral-50 flex items-center justify-center">
+      <div className="bg-white rounded-lg border border-neutral-200 p-8 max-w-md w-full text-center">
+        {organization ? (
+          <>
+            <CheckCircle className="w-12 h-12 text-emerald-600 mx-auto mb-4" />
+            <h1 className="font-heading text-2xl font-bold text-neutral-900 mb-2">
+              Welcome to {organization.name}
+            </h1>
+            <p className="text-neutral-600 mb-6">
+              You can now use your organization&apos;s pricing, quotes and addresses. Sign in again to open the B2B dashboard.
+            </p>
+            <button onClick={() => signOut({ callbackUrl: '/auth/signin' })} className="btn-primary">
+              Sign in again
+            </button>
+          </>
+        ) : (
+          <>
+            {error ? (
+              <XCircle className="w-12 h-12 text-red-600 mx-auto mb-4" />
+            ) : (
+              <Users className="w-12 h-12 text-emerald-600 mx-auto mb-4" />
+            )}
+            <h1 className="font-heading text-2xl font-bold text-neutral-900 mb-2">Join your team</h1>
+            <p className="text-neutral-600 mb-6">
+              You have been invited to buy for a B2B account as {session.user?.email}.
+            </p>
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 mb-6 text-sm">{error}</div>
+            )}
+            <button onClick={handleJoin} disabled={!token || joining} className="btn-primary disabled:opacity-50">
+              {joining ? 'Joining...' : 'Accept invitation'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -127,17 +127,38 @@ export default function B2BDashboard() {
   };
 
   const handleConvertToOrder = async (quoteId: string) => {
-    if (!confirm('Convert this quote to an order?')) return;
-
     try {
+      // Orders ship to the default address in the address book, which is listed first
+      const addressesRes = await fetch('/api/v1/addresses', {
+        headers: { 'Authorization': `Bearer ${localStorage.getItem('token')}` }
+      });
+      const addresses = addressesRes.ok ? (await addressesRes.json()).data || [] : [];
+
+      if (addresses.length === 0) {
+        alert('Add a delivery address to your account before ordering this quote.');
+        return;
+      }
+
+      const address = addresses[0];
+      if (!confirm(`Convert this quote to an order for delivery to ${address.address1}, ${address.city}?`)) return;
+
       const response = await fetch(`/api/v1/b2b/quotes/${quoteId}/convert`, {
         method: 'POST',
-        headers: { 'Authorization': `Bearer ${localStorage.getItem('token')}` }
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        },
+        body: JSON.stringify({ shippingAddressId: address.id })
       });
+      const data = await response.json();
 
       if (response.ok) {
-        fetchB2BData();
+        alert(`Order ${data.data.orderNumber} created. Stock is held until ${new Date(data.data.reservationExpiresAt).toLocaleTimeString()}, please complete payment before then.`);
+      } else {
+        alert(data.error?.message || 'This quote could not be converted to an order.');
       }
+
+      fetchB2BData();
     } catch (error) {
       console.error('Error converting quote:', error);
     }
@@ -308,7 +329,7 @@ export default function B2BDashboard() {
         {/* Quick Actions */}
         <div className="bg-white rounded-lg border border-neutral-200 p-6 mb-8">
           <h2 className="font-heading text-xl font-bold text-neutral-900 mb-4">Quick Actions</h2>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <button
               onClick={() => setShowQuoteForm(true)}
               className="p-4 border border-neutral-200 rounded-lg hover:border-emerald-300 transition-colors text-left"
@@ -339,6 +360,16 @@ export default function B2BDashboard() {
               </div>
               <p className="text-sm text-neutral-600">View and manage your bulk orders</p>
             </Link>
+            <Link
+              href="/account/b2b/team"
+              className="p-4 border border-neutral-200 rounded-lg hover:border-emerald-300 transition-colors text-left"
+            >
+              <div className="flex items-center gap-3 mb-2">
+                <Users className="w-5 h-5 text-orange-600" />
+                <h3 className="font-medium text-neutral-900">Team & Approvals</h3>
+              </div>
+              <p className="text-sm text-neutral-600">Invite colleagues, set roles and approve orders</p>
+            </Link>
           </div>
         </div>
 
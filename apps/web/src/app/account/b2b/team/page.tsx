@@ -0,0 +1,619 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { ArrowLeft, CheckCircle, Clock, Mail, Trash2, Users, XCircle } from 'lucide-react';
+import {
+  OrderApproval,
+  Organization,
+  OrganizationInvitation,
+  OrganizationMember,
+  OrganizationOrder,
+  OrganizationRole,
+} from '@newhill/shared';
+
+type Tab = 'members' | 'approvals' | 'orders';
+
+const ROLES: Array<{ value: OrganizationRole; label: string; description: string }> = [
+  { value: 'OWNER', label: 'Owner', description: 'Manages members and settings, buys and approves' },
+  { value: 'APPROVER', label: 'Approver', description: 'Buys and approves orders over the threshold' },
+  { value: 'BUYER', label: 'Buyer', description: 'Requests quotes and places orders' },
+  { value: 'FINANCE_VIEWER', label: 'Finance viewer', description: 'Sees orders, quotes and invoices' },
+];
+
+const roleLabel = (role: OrganizationRole) => ROLES.find(option => option.value === role)?.label || role;
+
+const formatCurrency = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency }).format(amount);
+
+const authHeaders = () => ({
+  'Authorization': `Bearer ${localStorage.getItem('token')}`,
+});
+
+export default function B2BTeamPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [invitations, setInvitations] = useState<OrganizationInvitation[]>([]);
+  const [approvals, setApprovals] = useState<OrderApproval[]>([]);
+  const [orders, setOrders] = useState<OrganizationOrder[]>([]);
+  const [ordersPage, setOrdersPage] = useState(1);
+  const [ordersPages, setOrdersPages] = useState(1);
+  const [tab, setTab] = useState<Tab>((searchParams.get('tab') as Tab) || 'members');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<OrganizationRole>('BUYER');
+  const [threshold, setThreshold] = useState('');
+  const [thresholdCurrency, setThresholdCurrency] = useState('INR');
+
+  const pendingOrderNumber = searchParams.get('pending');
+  const canManage = organization?.role === 'OWNER';
+  const canApprove = organization?.role === 'OWNER' || organization?.role === 'APPROVER';
+  const myUserId = members.find(member => member.email === session?.user?.email)?.userId;
+
+  useEffect(() => {
+    if (status === 'authenticated' && session?.user?.role === 'B2B') {
+      fetchOrganization();
+    }
+  }, [status, session]);
+
+  useEffect(() => {
+    if (!organization) return;
+
+    if (tab === 'approvals') fetchApprovals();
+    if (tab === 'orders') fetchOrders();
+  }, [organization, tab, ordersPage]);
+
+  const fetchOrganization = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/v1/b2b/organization', { headers: authHeaders() });
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.error?.message || 'Failed to load your organization');
+        return;
+      }
+
+      setOrganization(data.data);
+      setThreshold(data.data.approvalThreshold?.toString() || '');
+      setThresholdCurrency(data.data.approvalCurrency);
+
+      const [membersRes, invitationsRes] = await Promise.all([
+        fetch('/api/v1/b2b/organization/members', { headers: authHeaders() }),
+        data.data.role === 'OWNER'
+          ? fetch('/api/v1/b2b/organization/invitations', { headers: authHeaders() })
+          : Promise.resolve(null),
+      ]);
+
+      if (membersRes.ok) {
+        setMembers((await membersRes.json()).data || []);
+      }
+
+      if (invitationsRes?.ok) {
+        setInvitations((await invitationsRes.json()).data || []);
+      }
+    } catch (error) {
+      setError('An error occurred while loading your organization');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchApprovals = async () => {
+    try {
+      const response = await fetch('/api/v1/b2b/approvals', { headers: authHeaders() });
+      const data = await response.json();
+      if (data.success) {
+        setApprovals(data.data);
+      }
+    } catch (error) {
+      console.error('Error fetching approvals:', error);
+    }
+  };
+
+  const fetchOrders = async () => {
+    try {
+      const response = await fetch(`/api/v1/b2b/orders?page=${ordersPage}&limit=20`, { headers: authHeaders() });
+      const data = await response.json();
+      if (data.success) {
+        setOrders(data.data.items);
+        setOrdersPages(data.data.pagination.pages || 1);
+      }
+    } catch (error) {
+      console.error('Error fetching orders:', error);
+    }
+  };
+
+  // Every change goes through here so a failure is shown the same way
+  const send = async (url: string, method: string, body?: unknown) => {
+    setError(null);
+    const response = await fetch(url, {
+      method,
+      headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+    const data = await response.json();
+
+    if (!data.success) {
+      setError(data.error?.message || 'The change could not be saved');
+      return null;
+    }
+
+    return data;
+  };
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await send('/api/v1/b2b/organization', 'PUT', {
+      approvalThreshold: threshold ? Number(threshold) : null,
+      approvalCurrency: thresholdCurrency,
+    });
+    if (data) setOrganization(data.data);
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await send('/api/v1/b2b/organization/invitations', 'POST', { email: inviteEmail, role: inviteRole });
+    if (data) {
+      setInviteEmail('');
+      setInvitations([data.data, ...invitations.filter(invitation => invitation.email !== data.data.email)]);
+    }
+  };
+
+  const handleRevoke = async (invitationId: string) => {
+    if (await send(`/api/v1/b2b/organization/invitations/${invitationId}`, 'DELETE')) {
+      setInvitations(invitations.filter(invitation => invitation.id !== invitationId));
+    }
+  };
+
+  const handleRoleChange = async (memberId: string, role: OrganizationRole) => {
+    if (await send(`/api/v1/b2b/organization/members/${memberId}`, 'PUT', { role })) {
+      setMembers(members.map(member => (member.id === memberId ? { ...member, role } : member)));
+    }
+  };
+
+  const handleRemove = async (member: OrganizationMember) => {
+    if (!confirm(`Remove ${member.name || member.email} from ${organization?.name}?`)) return;
+
+    if (await send(`/api/v1/b2b/organization/members/${member.id}`, 'DELETE')) {
+      setMembers(members.filter(other => other.id !== member.id));
+    }
+  };
+
+  const handleApprove = async (approval: OrderApproval) => {
+    if (await send(`/api/v1/b2b/approvals/${approval.id}/approve`, 'POST', {})) {
+      fetchApprovals();
+    }
+  };
+
+  const handleReject = async (approval: OrderApproval) => {
+    const reason = prompt(`Why is order ${approval.orderNumber} rejected?`);
+    if (!reason) return;
+
+    if (await send(`/api/v1/b2b/approvals/${approval.id}/reject`, 'POST', { reason })) {
+      fetchApprovals();
+    }
+  };
+
+  // Approved orders are paid by whoever placed them, online or on the organization's account
+  const handlePay = async (order: OrganizationOrder, onAccount: boolean) => {
+    const data = await send('/api/v1/checkout/resume', 'POST', {
+      orderId: order.id,
+      paymentMethod: { type: onAccount ? 'invoice' : 'card', provider: 'razorpay' },
+      idempotencyKey: crypto.randomUUID(),
+    });
+    if (!data) return;
+
+    if (onAccount) {
+      const confirmed = await send('/api/v1/checkout/confirm', 'POST', {
+        orderId: order.id,
+        paymentId: data.data.payment.paymentId,
+      });
+      if (!confirmed) return;
+    }
+
+    router.push(`/checkout/success?orderId=${order.id}`);
+  };
+
+  const getApprovalColor = (approvalStatus?: string) => {
+    switch (approvalStatus) {
+      case 'APPROVED':
+        return 'text-emerald-600 bg-emerald-100';
+      case 'REJECTED':
+        return 'text-red-600 bg-red-100';
+      case 'PENDING':
+        return 'text-yellow-600 bg-yellow-100';
+      default:
+        return 'text-neutral-600 bg-neutral-100';
+    }
+  };
+
+  if (status === 'loading' || (loading && !error)) {
+    return (
+      <div className="min-h-screen bg-neutral-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-600 mx-auto mb-4"></div>
+          <p className="text-neutral-600">Loading your team...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (session?.user?.role !== 'B2B') {
+    return (
+      <div className="min-h-screen bg-neutral-50 flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-neutral-900 mb-4">B2B Access Required</h1>
+          <p className="text-neutral-600 mb-6">This page is only available for B2B customers.</p>
+          <Link href="/account" className="btn-primary">
+            Back to Account
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <div className="container-max py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="font-heading text-3xl font-bold text-neutral-900">{organization?.name || 'Team'}</h1>
+              <p className="text-neutral-600 mt-2">
+                {organization
+                  ? `${organization.memberCount} member${organization.memberCount === 1 ? '' : 's'} · You are ${roleLabel(organization.role).toLowerCase()}`
+                  : 'Members, approvals and shared order history'}
+              </p>
+            </div>
+            <Link href="/account/b2b" className="btn-secondary flex items-center gap-2">
+              <ArrowLeft className="w-4 h-4" />
+              Back to B2B Dashboard
+            </Link>
+          </div>
+        </div>
+
+        {pendingOrderNumber && (
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg p-4 mb-6 flex items-center gap-3">
+            <Clock className="w-5 h-5" />
+            Order {pendingOrderNumber} is over your organization&apos;s approval limit and has been sent to your approvers. You can pay for it here once it is approved.
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-4 mb-6">{error}</div>
+        )}
+
+        {organization && (
+          <>
+            {/* Approval settings */}
+            <div className="bg-white rounded-lg border border-neutral-200 p-6 mb-8">
+              <h2 className="font-heading text-xl font-bold text-neutral-900 mb-2">Order approvals</h2>
+              {canManage ? (
+                <form onSubmit={handleSaveSettings} className="flex flex-wrap items-end gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-neutral-700 mb-1">Approve orders above</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={threshold}
+                      onChange={(e) => setThreshold(e.target.value)}
+                      placeholder="No approvals"
+                      className="border border-neutral-300 rounded-md px-3 py-2 w-48"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-neutral-700 mb-1">Currency</label>
+                    <input
+                      type="text"
+                      maxLength={3}
+                      value={thresholdCurrency}
+                      onChange={(e) => setThresholdCurrency(e.target.value.toUpperCase())}
+                      className="border border-neutral-300 rounded-md px-3 py-2 w-24"
+                    />
+                  </div>
+                  <button type="submit" className="btn-primary">Save</button>
+                  <p className="text-sm text-neutral-600 w-full">
+                    Orders by buyers above this amount wait for an owner or approver before they can be paid. Leave it empty to turn approvals off.
+                  </p>
+                </form>
+              ) : (
+                <p className="text-neutral-600">
+                  {organization.approvalThreshold
+                    ? `Orders above ${formatCurrency(organization.approvalThreshold, organization.approvalCurrency)} wait for an owner or approver.`
+                    : 'Orders do not need approval.'}
+                </p>
+              )}
+            </div>
+
+            {/* Tabs */}
+            <div className="border-b border-neutral-200 mb-6 flex gap-6">
+              {([
+                { value: 'members', label: 'Members' },
+                { value: 'approvals', label: 'Approvals' },
+                { value: 'orders', label: 'Order history' },
+              ] as Array<{ value: Tab; label: string }>).map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setTab(option.value)}
+                  className={`pb-3 text-sm font-medium border-b-2 ${
+                    tab === option.value
+                      ? 'border-emerald-600 text-emerald-700'
+                      : 'border-transparent text-neutral-600 hover:text-neutral-900'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {tab === 'members' && (
+              <div className="space-y-8">
+                <div className="bg-white rounded-lg border border-neutral-200 overflow-hidden">
+                  <table className="min-w-full divide-y divide-neutral-200">
+                    <thead className="bg-neutral-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-neutral-500 uppercase">Member</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-neutral-500 uppercase">Role</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-neutral-500 uppercase">Joined</th>
+                        {canManage && <th className="px-6 py-3"></th>}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-neutral-200">
+                      {members.map(member => (
+                        <tr key={member.id}>
+                          <td className="px-6 py-4">
+                            <div className="font-medium text-neutral-900">{member.name || member.email}</div>
+                            {member.name && <div className="text-sm text-neutral-500">{member.email}</div>}
+                          </td>
+                          <td className="px-6 py-4">
+                            {canManage ? (
+                              <select
+                                value={member.role}
+                                onChange={(e) => handleRoleChange(member.id, e.target.value as OrganizationRole)}
+                                className="border border-neutral-300 rounded-md px-2 py-1 text-sm"
+                              >
+                                {ROLES.map(role => (
+                                  <option key={role.value} value={role.value}>{role.label}</option>
+                                ))}
+                              </select>
+                            ) : (
+                              <span className="text-sm text-neutral-700">{roleLabel(member.role)}</span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-neutral-600">
+                            {new Date(member.joinedAt).toLocaleDateString()}
+                          </td>
+                          {canManage && (
+                            <td className="px-6 py-4 text-right">
+                              <button
+                                onClick={() => handleRemove(member)}
+                                className="text-red-600 hover:text-red-800"
+                                title="Remove member"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </td>
+                          )}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {canManage && (
+                  <div className="bg-white rounded-lg border border-neutral-200 p-6">
+                    <h2 className="font-heading text-xl font-bold text-neutral-900 mb-4 flex items-center gap-2">
+                      <Users className="w-5 h-5 text-emerald-600" />
+                      Invite a colleague
+                    </h2>
+                    <form onSubmit={handleInvite} className="flex flex-wrap items-end gap-4 mb-6">
+                      <div>
+                        <label className="block text-sm font-medium text-neutral-700 mb-1">Email</label>
+                        <input
+                          type="email"
+                          required
+                          value={inviteEmail}
+                          onChange={(e) => setInviteEmail(e.target.value)}
+                          className="border border-neutral-300 rounded-md px-3 py-2 w-72"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-neutral-700 mb-1">Role</label>
+                        <select
+                          value={inviteRole}
+                          onChange={(e) => setInviteRole(e.target.value as OrganizationRole)}
+                          className="border border-neutral-300 rounded-md px-3 py-2"
+                        >
+                          {ROLES.map(role => (
+                            <option key={role.value} value={role.value}>{role.label}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <button type="submit" className="btn-primary flex items-center gap-2">
+                        <Mail className="w-4 h-4" />
+                        Send invitation
+                      </button>
+                      <p className="text-sm text-neutral-600 w-full">
+                        {ROLES.find(role => role.value === inviteRole)?.description}
+                      </p>
+                    </form>
+
+                    {invitations.length > 0 && (
+                      <div>
+                        <h3 className="font-medium text-neutral-900 mb-2">Open invitations</h3>
+                        <ul className="divide-y divide-neutral-200">
+                          {invitations.map(invitation => (
+                            <li key={invitation.id} className="py-3 flex items-center justify-between">
+                              <div>
+                                <span className="text-neutral-900">{invitation.email}</span>
+                                <span className="text-sm text-neutral-500 ml-2">
+                                  {roleLabel(invitation.role)} · expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                                </span>
+                              </div>
+                              <button
+                                onClick={() => handleRevoke(invitation.id)}
+                                className="text-sm text-red-600 hover:text-red-800"
+                              >
+                                Revoke
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {tab === 'approvals' && (
+              <div className="bg-white rounded-lg border border-neutral-200 overflow-hidden">
+                {approvals.length === 0 ? (
+                  <p className="p-6 text-neutral-600">No orders have needed approval yet.</p>
+                ) : (
+                  <table className="min-w-full divide-y divide-neutral-200">
+                    <thead className="bg-neutral-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-neutral-500 uppercase">Order</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-neutral-500 uppercase">Requested by</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-neutral-500 uppercase">Amount</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-neutral-500 uppercase">Status</th>
+                        <th className="px-6 py-3"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-neutral-200">
+                      {approvals.map(approval => (
+                        <tr key={approval.id}>
+                          <td className="px-6 py-4">
+                            <div className="font-medium text-neutral-900">{approval.orderNumber}</div>
+                            <div className="text-sm text-neutral-500">{new Date(approval.createdAt).toLocaleString()}</div>
+                          </td>
+                          <td className="px-6 py-4 text-sm text-neutral-700">{approval.requestedByName || '—'}</td>
+                          <td className="px-6 py-4 text-right font-medium">{formatCurrency(approval.amount, approval.currency)}</td>
+                          <td className="px-6 py-4">
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${getApprovalColor(approval.status)}`}>
+                              {approval.status}
+                            </span>
+                            {approval.reason && <div className="text-sm text-neutral-500 mt-1">{approval.reason}</div>}
+                          </td>
+                          <td className="px-6 py-4 text-right">
+                            {canApprove && approval.status === 'PENDING' && (
+                              <div className="flex justify-end gap-2">
+                                <button
+                                  onClick={() => handleApprove(approval)}
+                                  className="flex items-center gap-1 text-sm text-emerald-700 hover:text-emerald-900"
+                                >
+                                  <CheckCircle className="w-4 h-4" />
+                                  Approve
+                                </button>
+                                <button
+                                  onClick={() => handleReject(approval)}
+                                  className="flex items-center gap-1 text-sm text-red-600 hover:text-red-800"
+                                >
+                                  <XCircle className="w-4 h-4" />
+                                  Reject
+                                </button>
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+
+            {tab === 'orders' && (
+              <div className="bg-white rounded-lg border border-neutral-200 overflow-hidden">
+                {orders.length === 0 ? (
+                  <p className="p-6 text-neutral-600">Your organization has not placed any orders yet.</p>
+                ) : (
+                  <>
+                    <table className="min-w-full divide-y divide-neutral-200">
+                      <thead className="bg-neutral-50">
+                        <tr>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-neutral-500 uppercase">Order</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-neutral-500 uppercase">Placed by</th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-neutral-500 uppercase">Total</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-neutral-500 uppercase">Status</th>
+                          <th className="px-6 py-3"></th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-neutral-200">
+                        {orders.map(order => (
+                          <tr key={order.id}>
+                            <td className="px-6 py-4">
+                              <div className="font-medium text-neutral-900">{order.orderNumber}</div>
+                              <div className="text-sm text-neutral-500">
+                                {new Date(order.createdAt).toLocaleDateString()}
+                                {order.quoteNumber && ` · from quote ${order.quoteNumber}`}
+                              </div>
+                            </td>
+                            <td className="px-6 py-4 text-sm text-neutral-700">{order.placedByName || '—'}</td>
+                            <td className="px-6 py-4 text-right font-medium">{formatCurrency(order.total, order.currency)}</td>
+                            <td className="px-6 py-4">
+                              <span className="text-sm text-neutral-700 capitalize">{order.status.replace(/_/g, ' ')}</span>
+                              {order.approvalStatus && (
+                                <span className={`ml-2 px-2 py-1 rounded-full text-xs font-medium ${getApprovalColor(order.approvalStatus)}`}>
+                                  {order.approvalStatus}
+                                </span>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 text-right">
+                              {order.status === 'pending' && order.approvalStatus === 'APPROVED' && order.placedBy === myUserId && (
+                                <div className="flex justify-end gap-3">
+                                  <button onClick={() => handlePay(order, false)} className="text-sm text-emerald-700 hover:text-emerald-900">
+                                    Pay online
+                                  </button>
+                                  <button onClick={() => handlePay(order, true)} className="text-sm text-blue-700 hover:text-blue-900">
+                                    Bill to account
+                                  </button>
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {ordersPages > 1 && (
+                      <div className="px-6 py-3 flex items-center justify-between border-t border-neutral-200">
+                        <button
+                          onClick={() => setOrdersPage(ordersPage - 1)}
+                          disabled={ordersPage === 1}
+                          className="btn-secondary disabled:opacity-50"
+                        >
+                          Previous
+                        </button>
+                        <span className="text-sm text-neutral-600">Page {ordersPage} of {ordersPages}</span>
+                        <button
+                          onClick={() => setOrdersPage(ordersPage + 1)}
+                          disabled={ordersPage === ordersPages}
+                          className="btn-secondary disabled:opacity-50"
+                        >
+                          Next
+                        </button>
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
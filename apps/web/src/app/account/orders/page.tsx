@@ -54,6 +54,28 @@ interface Order {
   canReturn: boolean;
 }
 
+interface OrderStatusHistoryEntry {
+  id: string;
+  toStatus: string;
+  reason: string | null;
+  createdAt: string;
+}
+
+interface OrderShipment {
+  id: string;
+  carrier: string | null;
+  trackingNumber: string | null;
+  trackingUrl: string | null;
+  status: string;
+  shippedAt: string | null;
+  deliveredAt: string | null;
+  items: Array<{
+    orderItemId: string;
+    productName: string;
+    quantity: number;
+  }>;
+}
+
 interface OrderFilters {
   status: string;
   search: string;
@@ -76,6 +98,8 @@ export default function OrdersPage() {
   const [showFilters, setShowFilters] = useState(false);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [showOrderDetail, setShowOrderDetail] = useState(false);
+  const [statusHistory, setStatusHistory] = useState<OrderStatusHistoryEntry[]>([]);
+  const [shipments, setShipments] = useState<OrderShipment[]>([]);
 
   useEffect(() => {
     if (status === 'authenticated') {
@@ -111,8 +135,14 @@ export default function OrdersPage() {
     switch (status.toLowerCase()) {
       case 'delivered':
         return 'text-emerald-600 bg-emerald-100';
+      case 'partially_delivered':
+        return 'text-emerald-600 bg-emerald-50';
       case 'shipped':
+      case 'in_transit':
+      case 'out_for_delivery':
         return 'text-blue-600 bg-blue-100';
+      case 'partially_shipped':
+        return 'text-blue-600 bg-blue-50';
       case 'processing':
         return 'text-yellow-600 bg-yellow-100';
       case 'cancelled':
@@ -127,8 +157,12 @@ export default function OrdersPage() {
   const getStatusIcon = (status: string) => {
     switch (status.toLowerCase()) {
       case 'delivered':
+      case 'partially_delivered':
         return <CheckCircle className="w-4 h-4" />;
       case 'shipped':
+      case 'partially_shipped':
+      case 'in_transit':
+      case 'out_for_delivery':
         return <Truck className="w-4 h-4" />;
       case 'processing':
         return <Clock className="w-4 h-4" />;
@@ -139,6 +173,33 @@ export default function OrdersPage() {
     }
   };
 
+  const openOrderDetail = async (order: Order) => {
+    setSelectedOrder(order);
+    setShowOrderDetail(true);
+    setStatusHistory([]);
+    setShipments([]);
+
+    try {
+      const headers = { 'Authorization': `Bearer ${localStorage.getItem('token')}` };
+      const [historyResponse, shipmentsResponse] = await Promise.all([
+        fetch(`/api/v1/orders/${order.id}/history`, { headers }),
+        fetch(`/api/v1/orders/${order.id}/shipments`, { headers })
+      ]);
+
+      if (historyResponse.ok) {
+        const data = await historyResponse.json();
+        setStatusHistory(data.data || []);
+      }
+
+      if (shipmentsResponse.ok) {
+        const data = await shipmentsResponse.json();
+        setShipments(data.data || []);
+      }
+    } catch (error) {
+      console.error('Error fetching order history:', error);
+    }
+  };
+
   const handleReorder = async (order: Order) => {
     try {
       const response = await fetch('/api/v1/cart/reorder', {
@@ -276,7 +337,9 @@ export default function OrdersPage() {
                   <option value="pending">Pending</option>
                   <option value="confirmed">Confirmed</option>
                   <option value="processing">Processing</option>
+                  <option value="partially_shipped">Partially Shipped</option>
                   <option value="shipped">Shipped</option>
+                  <option value="partially_delivered">Partially Delivered</option>
                   <option value="delivered">Delivered</option>
                   <option value="cancelled">Cancelled</option>
                 </select>
@@ -369,10 +432,7 @@ export default function OrdersPage() {
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2">
                     <button
-                      onClick={() => {
-                        setSelectedOrder(order);
-                        setShowOrderDetail(true);
-                      }}
+                      onClick={() => openOrderDetail(order)}
                       className="btn-secondary text-sm flex items-center gap-2"
                     >
                       <Eye className="w-4 h-4" />
@@ -455,14 +515,87 @@ export default function OrdersPage() {
                   <div className="flex items-center gap-2">
                     <span className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(selectedOrder.status)}`}>
                       {getStatusIcon(selectedOrder.status)}
-                      {selectedOrder.status}
+                      {selectedOrder.status.replace(/_/g, ' ')}
                     </span>
                     <span className="text-sm text-neutral-600">
                       Estimated delivery: {selectedOrder.estimatedDelivery}
                     </span>
                   </div>
+                  {statusHistory.length > 0 && (
+                    <ol className="mt-4 space-y-3 border-l-2 border-neutral-200 pl-4">
+                      {statusHistory.map((entry) => (
+                        <li key={entry.id}>
+                          <div className="flex items-center gap-2">
+                            <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(entry.toStatus)}`}>
+                              {getStatusIcon(entry.toStatus)}
+                              {entry.toStatus.toLowerCase().replace(/_/g, ' ')}
+                            </span>
+                            <span className="text-xs text-neutral-500">
+                              {new Date(entry.createdAt).toLocaleString()}
+                            </span>
+                          </div>
+                          {entry.reason && (
+                            <p className="text-sm text-neutral-600 mt-1">{entry.reason}</p>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
                 </div>
 
+                {/* Shipments */}
+                {shipments.length > 0 && (
+                  <div>
+                    <h3 className="font-medium text-neutral-900 mb-4">
+                      {shipments.length > 1 ? `Shipments (${shipments.length})` : 'Shipment'}
+                    </h3>
+                    <div className="space-y-4">
+                      {shipments.map((shipment, index) => (
+                        <div key={shipment.id} className="border border-neutral-200 rounded-lg p-4">
+                          <div className="flex items-center justify-between mb-2">
+                            <span className="text-sm font-medium text-neutral-900">
+                              Package {index + 1}{shipment.carrier && ` via ${shipment.carrier}`}
+                            </span>
+                            <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(shipment.status)}`}>
+                              {getStatusIcon(shipment.status)}
+                              {shipment.status.replace(/_/g, ' ')}
+                            </span>
+                          </div>
+                          <ul className="text-sm text-neutral-600 space-y-1">
+                            {shipment.items.map((item) => (
+                              <li key={item.orderItemId}>
+                                {item.productName} &times; {item.quantity}
+                              </li>
+                            ))}
+                          </ul>
+                          <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-neutral-500">
+                            {shipment.shippedAt && (
+                              <span>Shipped {new Date(shipment.shippedAt).toLocaleDateString()}</span>
+                            )}
+                            {shipment.deliveredAt && (
+                              <span>Delivered {new Date(shipment.deliveredAt).toLocaleDateString()}</span>
+                            )}
+                            {shipment.trackingNumber && (
+                              shipment.trackingUrl ? (
+                                <a
+                                  href={shipment.trackingUrl}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-emerald-600 hover:text-emerald-700 font-medium"
+                                >
+                                  Track {shipment.trackingNumber}
+                                </a>
+                              ) : (
+                                <span>Tracking: {shipment.trackingNumber}</span>
+                              )
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Order Items */}
                 <div>
                   <h3 className="font-medium text-neutral-900 mb-4">Order Items</h3>
@@ -115,8 +115,12 @@ export default function AccountDashboard() {
     switch (status.toLowerCase()) {
       case 'delivered':
         return 'text-emerald-600 bg-emerald-100';
+      case 'partially_delivered':
+        return 'text-emerald-600 bg-emerald-50';
       case 'shipped':
         return 'text-blue-600 bg-blue-100';
+      case 'partially_shipped':
+        return 'text-blue-600 bg-blue-50';
       case 'processing':
         return 'text-yellow-600 bg-yellow-100';
       case 'cancelled':
@@ -129,8 +133,10 @@ export default function AccountDashboard() {
   const getStatusIcon = (status: string) => {
     switch (status.toLowerCase()) {
       case 'delivered':
+      case 'partially_delivered':
         return <CheckCircle className="w-4 h-4" />;
       case 'shipped':
+      case 'partially_shipped':
         return <Package className="w-4 h-4" />;
       case 'processing':
         return <Clock className="w-4 h-4" />;
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import AdminLayout from '@/components/admin/AdminLayout';
+import { AgeingBucket, PaginationMeta, Receivable, ReceivablesAgeing } from '@newhill/shared';
 
 interface FinanceMetrics {
   totalRevenue: number;
@@ -38,6 +39,18 @@ interface RefundData {
   createdAt: string;
 }
 
+const AGEING_BUCKETS: Array<{ value: AgeingBucket; label: string }> = [
+  { value: 'CURRENT', label: 'Not yet due' },
+  { value: 'DAYS_1_30', label: '1-30 days' },
+  { value: 'DAYS_31_60', label: '31-60 days' },
+  { value: 'DAYS_61_90', label: '61-90 days' },
+  { value: 'DAYS_90_PLUS', label: '90+ days' },
+];
+
+const authHeaders = () => ({
+  'Authorization': `Bearer ${localStorage.getItem('token')}`,
+});
+
 export default function FinancePage() {
   const [metrics, setMetrics] = useState<FinanceMetrics | null>(null);
   const [revenueData, setRevenueData] = useState<RevenueData[]>([]);
@@ -46,11 +59,26 @@ export default function FinancePage() {
   const [loading, setLoading] = useState(true);
   const [dateRange, setDateRange] = useState('30');
   const [activeTab, setActiveTab] = useState('overview');
+  const [receivables, setReceivables] = useState<Receivable[]>([]);
+  const [ageing, setAgeing] = useState<ReceivablesAgeing[]>([]);
+  const [receivablesPagination, setReceivablesPagination] = useState<PaginationMeta | null>(null);
+  const [receivablesPage, setReceivablesPage] = useState(1);
+  const [bucketFilter, setBucketFilter] = useState('');
+  const [payingReceivable, setPayingReceivable] = useState<Receivable | null>(null);
+  const [paymentForm, setPaymentForm] = useState({ amount: '', method: 'BANK_TRANSFER', reference: '' });
+  const [paymentError, setPaymentError] = useState('');
+  const [recording, setRecording] = useState(false);
 
   useEffect(() => {
     fetchFinanceData();
   }, [dateRange]);
 
+  useEffect(() => {
+    if (activeTab === 'receivables') {
+      fetchReceivables();
+    }
+  }, [activeTab, bucketFilter, receivablesPage]);
+
   const fetchFinanceData = async () => {
     try {
       const response = await fetch(`/api/admin/finance?period=${dateRange}`);
@@ -68,6 +96,53 @@ export default function FinancePage() {
     }
   };
 
+  const fetchReceivables = async () => {
+    try {
+      const params = new URLSearchParams({ page: String(receivablesPage), limit: '20' });
+      if (bucketFilter) params.set('bucket', bucketFilter);
+
+      const response = await fetch(`/api/v1/admin/finance/receivables?${params}`, { headers: authHeaders() });
+      if (response.ok) {
+        const data = await response.json();
+        setReceivables(data.data.items);
+        setReceivablesPagination(data.data.pagination);
+        setAgeing(data.data.ageing);
+      }
+    } catch (error) {
+      console.error('Error fetching receivables:', error);
+    }
+  };
+
+  const recordPayment = async () => {
+    if (!payingReceivable) return;
+
+    setRecording(true);
+    setPaymentError('');
+    try {
+      const response = await fetch(`/api/v1/admin/finance/invoices/${payingReceivable.invoiceId}/payments`, {
+        method: 'POST',
+        headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          amount: Number(paymentForm.amount),
+          method: paymentForm.method,
+          ...(paymentForm.reference && { reference: paymentForm.reference }),
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setPayingReceivable(null);
+        fetchReceivables();
+      } else {
+        setPaymentError(data.error?.message || 'Could not record the payment');
+      }
+    } catch (error) {
+      console.error('Error recording invoice payment:', error);
+    } finally {
+      setRecording(false);
+    }
+  };
+
   const exportReport = async (format: 'csv' | 'xlsx') => {
     try {
       const response = await fetch(`/api/admin/finance/export?format=${format}&period=${dateRange}`, {
@@ -197,6 +272,16 @@ export default function FinancePage() {
             >
               Refunds
             </button>
+            <button
+              onClick={() => setActiveTab('receivables')}
+              className={`${
+                activeTab === 'receivables'
+                  ? 'border-emerald-500 text-emerald-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              } whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm`}
+            >
+              Receivables
+            </button>
           </nav>
         </div>
 
@@ -549,6 +634,210 @@ export default function FinancePage() {
             </div>
           </div>
         )}
+
+        {/* Receivables Tab */}
+        {activeTab === 'receivables' && (
+          <div className="space-y-6">
+            {/* Ageing */}
+            {ageing.map((row) => (
+              <div key={row.currency} className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-6">
+                {AGEING_BUCKETS.map(({ value, label }) => (
+                  <div key={value} className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+                    <p className="text-sm font-medium text-gray-600">{label}</p>
+                    <p className={`text-xl font-bold ${value === 'CURRENT' ? 'text-gray-900' : 'text-red-600'}`}>
+                      {formatCurrency(row.buckets[value], row.currency)}
+                    </p>
+                  </div>
+                ))}
+                <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+                  <p className="text-sm font-medium text-gray-600">Total open ({row.currency})</p>
+                  <p className="text-xl font-bold text-gray-900">{formatCurrency(row.total, row.currency)}</p>
+                </div>
+              </div>
+            ))}
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-gray-900">Open Invoices</h3>
+                <select
+                  value={bucketFilter}
+                  onChange={(e) => {
+                    setBucketFilter(e.target.value);
+                    setReceivablesPage(1);
+                  }}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+                >
+                  <option value="">All ages</option>
+                  {AGEING_BUCKETS.map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Invoice
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Customer
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Due
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Total
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Balance
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {receivables.map((receivable) => (
+                      <tr key={receivable.invoiceId} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 text-sm">
+                          <div className="font-medium text-gray-900">{receivable.invoiceNumber}</div>
+                          <div className="text-gray-500">#{receivable.orderNumber}</div>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-900">
+                          {receivable.businessName || receivable.userId}
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          <div className="text-gray-900">{new Date(receivable.dueDate).toLocaleDateString()}</div>
+                          {receivable.daysOverdue > 0 && (
+                            <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                              {receivable.daysOverdue} days overdue
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-900">
+                          {formatCurrency(receivable.totalAmount, receivable.currency)}
+                        </td>
+                        <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                          {formatCurrency(receivable.balance, receivable.currency)}
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          <button
+                            onClick={() => {
+                              setPayingReceivable(receivable);
+                              setPaymentForm({ amount: String(receivable.balance), method: 'BANK_TRANSFER', reference: '' });
+                              setPaymentError('');
+                            }}
+                            className="text-emerald-600 hover:text-emerald-900 font-medium"
+                          >
+                            Record payment
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                    {receivables.length === 0 && (
+                      <tr>
+                        <td colSpan={6} className="px-6 py-8 text-center text-sm text-gray-500">
+                          No open invoices
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+              {receivablesPagination && receivablesPagination.pages > 1 && (
+                <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+                  <span className="text-sm text-gray-500">
+                    Page {receivablesPagination.page} of {receivablesPagination.pages}
+                  </span>
+                  <div className="space-x-2">
+                    <button
+                      onClick={() => setReceivablesPage(receivablesPage - 1)}
+                      disabled={!receivablesPagination.hasPrev}
+                      className="px-3 py-1 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+                    >
+                      Previous
+                    </button>
+                    <button
+                      onClick={() => setReceivablesPage(receivablesPage + 1)}
+                      disabled={!receivablesPagination.hasNext}
+                      className="px-3 py-1 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+                    >
+                      Next
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Record Payment Modal */}
+        {payingReceivable && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">
+                Record payment for {payingReceivable.invoiceNumber}
+              </h3>
+              <p className="text-sm text-gray-500 mb-4">
+                Open balance {formatCurrency(payingReceivable.balance, payingReceivable.currency)}
+              </p>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={paymentForm.amount}
+                    onChange={(e) => setPaymentForm({ ...paymentForm, amount: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Method</label>
+                  <select
+                    value={paymentForm.method}
+                    onChange={(e) => setPaymentForm({ ...paymentForm, method: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+                  >
+                    <option value="BANK_TRANSFER">Bank transfer</option>
+                    <option value="CHEQUE">Cheque</option>
+                    <option value="CARD">Card</option>
+                    <option value="CASH">Cash</option>
+                    <option value="OTHER">Other</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Reference</label>
+                  <input
+                    type="text"
+                    value={paymentForm.reference}
+                    onChange={(e) => setPaymentForm({ ...paymentForm, reference: e.target.value })}
+                    placeholder="UTR or cheque number"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+                  />
+                </div>
+                {paymentError && <p className="text-sm text-red-600">{paymentError}</p>}
+              </div>
+              <div className="mt-6 flex justify-end space-x-3">
+                <button
+                  onClick={() => setPayingReceivable(null)}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={recordPayment}
+                  disabled={recording}
+                  className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors disabled:opacity-50"
+                >
+                  {recording ? 'Saving...' : 'Record payment'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
       </div>
     </AdminLayout>
   );
@@ -2,6 +2,13 @@
 
 import { useState, useEffect } from 'react';
 import AdminLayout from '@/components/admin/AdminLayout';
+import {
+  BundlePriceAction,
+  BuyXGetYAction,
+  FreeSampleAction,
+  Promotion,
+  TieredSpendAction,
+} from '@newhill/shared';
 
 interface Coupon {
   id: string;
@@ -34,9 +41,38 @@ interface Banner {
   createdAt: string;
 }
 
+const authHeaders = () => ({
+  'Authorization': `Bearer ${localStorage.getItem('token')}`,
+});
+
+// One line describing what a promotion gives
+const describeAction = (promotion: Promotion) => {
+  switch (promotion.actionType) {
+    case 'BUY_X_GET_Y': {
+      const action = promotion.action as BuyXGetYAction;
+      return `Buy ${action.buyQuantity} get ${action.getQuantity}${action.percentOff && action.percentOff < 100 ? ` at ${action.percentOff}% off` : ' free'}`;
+    }
+    case 'BUNDLE_PRICE': {
+      const action = promotion.action as BundlePriceAction;
+      return `Any ${action.quantity} for ${action.price} ${promotion.currency}`;
+    }
+    case 'TIERED_SPEND':
+      return (promotion.action as TieredSpendAction).tiers
+        .map(tier => `${tier.minSpend}+: ${tier.percentOff !== undefined ? `${tier.percentOff}%` : `${tier.amountOff} ${promotion.currency}`} off`)
+        .join(', ');
+    case 'FREE_SAMPLE': {
+      const action = promotion.action as FreeSampleAction;
+      return `Free sample${action.minSpend ? ` over ${action.minSpend} ${promotion.currency}` : ''}`;
+    }
+    default:
+      return promotion.actionType;
+  }
+};
+
 export default function MarketingPage() {
   const [coupons, setCoupons] = useState<Coupon[]>([]);
   const [banners, setBanners] = useState<Banner[]>([]);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('coupons');
   const [showCouponModal, setShowCouponModal] = useState(false);
@@ -50,9 +86,10 @@ export default function MarketingPage() {
 
   const fetchMarketingData = async () => {
     try {
-      const [couponsRes, bannersRes] = await Promise.all([
+      const [couponsRes, bannersRes, promotionsRes] = await Promise.all([
         fetch('/api/admin/marketing/coupons'),
-        fetch('/api/admin/marketing/banners')
+        fetch('/api/admin/marketing/banners'),
+        fetch('/api/v1/admin/promotions', { headers: authHeaders() })
       ]);
 
       if (couponsRes.ok) {
@@ -64,6 +101,11 @@ export default function MarketingPage() {
         const bannersData = await bannersRes.json();
         setBanners(bannersData.banners);
       }
+
+      if (promotionsRes.ok) {
+        const promotionsData = await promotionsRes.json();
+        setPromotions(promotionsData.data);
+      }
     } catch (error) {
       console.error('Error fetching marketing data:', error);
     } finally {
@@ -99,6 +141,24 @@ export default function MarketingPage() {
     }
   };
 
+  // Promotions are replaced whole, so the toggle sends the rest of the rule back unchanged
+  const handlePromotionToggle = async (promotion: Promotion) => {
+    const { id, usedCount, createdAt, updatedAt, ...rule } = promotion;
+    try {
+      const response = await fetch(`/api/v1/admin/promotions/${id}`, {
+        method: 'PUT',
+        headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...rule, isActive: !promotion.isActive }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setPromotions(promotions.map(other => (other.id === id ? data.data : other)));
+      }
+    } catch (error) {
+      console.error('Error updating promotion:', error);
+    }
+  };
+
   const getTypeColor = (type: string) => {
     switch (type) {
       case 'PERCENTAGE': return 'bg-blue-100 text-blue-800';
@@ -197,9 +257,96 @@ export default function MarketingPage() {
             >
               Banners ({banners.filter(b => b.isActive).length})
             </button>
+            <button
+              onClick={() => setActiveTab('promotions')}
+              className={`${
+                activeTab === 'promotions'
+                  ? 'border-emerald-500 text-emerald-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              } whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm`}
+            >
+              Promotions ({promotions.filter(p => p.isActive).length})
+            </button>
           </nav>
         </div>
 
+        {/* Promotions Tab */}
+        {activeTab === 'promotions' && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            <div className="px-6 py-3 text-sm text-gray-600 border-b border-gray-200">
+              Promotions run highest priority first. Automatic ones apply in the cart and at checkout without a code; an exclusive promotion only applies on its own.
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Promotion
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Offer
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Priority
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Usage
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Validity
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {promotions.map((promotion) => (
+                    <tr key={promotion.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4">
+                        <div className="text-sm font-medium text-gray-900">{promotion.name}</div>
+                        <div className="text-sm text-gray-500">{promotion.code || 'Automatic'}</div>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {describeAction(promotion)}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        <div>{promotion.priority}</div>
+                        <div className="text-gray-500">{promotion.stacking === 'EXCLUSIVE' ? 'Exclusive' : 'Stackable'}</div>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {promotion.usedCount} / {promotion.usageLimit || '∞'}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        <div>{new Date(promotion.validFrom).toLocaleDateString()}</div>
+                        <div>{promotion.validUntil ? `to ${new Date(promotion.validUntil).toLocaleDateString()}` : 'No end date'}</div>
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                          promotion.isActive ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                        }`}>
+                          {promotion.isActive ? 'Active' : 'Inactive'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm font-medium">
+                        <button
+                          onClick={() => handlePromotionToggle(promotion)}
+                          className={promotion.isActive ? 'text-red-600 hover:text-red-900' : 'text-green-600 hover:text-green-900'}
+                        >
+                          {promotion.isActive ? 'Deactivate' : 'Activate'}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
         {/* Coupons Tab */}
         {activeTab === 'coupons' && (
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
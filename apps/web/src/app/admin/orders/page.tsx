@@ -2,11 +2,12 @@
 
 import { useState, useEffect } from 'react';
 import AdminLayout from '@/components/admin/AdminLayout';
+import { getAllowedTransitions } from '@newhill/shared';
 
 interface Order {
   id: string;
   orderNumber: string;
-  status: 'PENDING' | 'CONFIRMED' | 'PROCESSING' | 'SHIPPED' | 'DELIVERED' | 'CANCELLED' | 'REFUNDED';
+  status: 'PENDING' | 'CONFIRMED' | 'PROCESSING' | 'PARTIALLY_SHIPPED' | 'SHIPPED' | 'PARTIALLY_DELIVERED' | 'DELIVERED' | 'CANCELLED' | 'REFUNDED';
   totalAmount: number;
   currency: string;
   createdAt: string;
@@ -17,6 +18,16 @@ interface Order {
   items: OrderItem[];
   shippingAddress: Address;
   billingAddress: Address;
+  statusHistory: StatusHistoryEntry[];
+}
+
+interface StatusHistoryEntry {
+  id: string;
+  fromStatus: Order['status'] | null;
+  toStatus: Order['status'];
+  actorType: 'CUSTOMER' | 'ADMIN' | 'SYSTEM' | 'WEBHOOK';
+  reason: string | null;
+  createdAt: string;
 }
 
 interface OrderItem {
@@ -50,6 +61,12 @@ export default function OrdersPage() {
   const [dateFilter, setDateFilter] = useState('');
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [showOrderModal, setShowOrderModal] = useState(false);
+  const [statusNote, setStatusNote] = useState('');
+  const [statusError, setStatusError] = useState('');
+  const [selectedOrderIds, setSelectedOrderIds] = useState<string[]>([]);
+  const [labelFormat, setLabelFormat] = useState<'pdf' | 'zpl'>('pdf');
+  const [pickWaveDownload, setPickWaveDownload] = useState<'labels' | 'packing-slips' | null>(null);
+  const [pickWaveError, setPickWaveError] = useState('');
 
   useEffect(() => {
     fetchOrders();
@@ -71,21 +88,74 @@ export default function OrdersPage() {
 
   const updateOrderStatus = async (orderId: string, status: string) => {
     try {
-      const response = await fetch(`/api/admin/orders/${orderId}/status`, {
+      const response = await fetch(`/api/v1/admin/orders/${orderId}/status`, {
         method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status })
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        },
+        body: JSON.stringify({ status, notes: statusNote || undefined })
       });
 
       if (response.ok) {
         fetchOrders();
         setShowOrderModal(false);
+        setStatusNote('');
+        setStatusError('');
+      } else {
+        const data = await response.json();
+        setStatusError(data.error?.message || 'Could not update status');
       }
     } catch (error) {
       console.error('Error updating order status:', error);
     }
   };
 
+  // Labels and packing slips come back in the order the orders were ticked
+  const toggleOrderSelection = (orderId: string) => {
+    setSelectedOrderIds(current =>
+      current.includes(orderId) ? current.filter(id => id !== orderId) : [...current, orderId]
+    );
+  };
+
+  const downloadPickWave = async (kind: 'labels' | 'packing-slips') => {
+    setPickWaveDownload(kind);
+    setPickWaveError('');
+    try {
+      const response = await fetch(`/api/v1/admin/pick-waves/${kind}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        },
+        body: JSON.stringify(
+          kind === 'labels'
+            ? { orderIds: selectedOrderIds, format: labelFormat }
+            : { orderIds: selectedOrderIds }
+        ),
+      });
+
+      if (response.ok) {
+        const blob = await response.blob();
+        const url = window.URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${kind}-${new Date().toISOString().slice(0, 10)}.${kind === 'labels' ? labelFormat : 'pdf'}`;
+        document.body.appendChild(a);
+        a.click();
+        window.URL.revokeObjectURL(url);
+        document.body.removeChild(a);
+      } else {
+        const data = await response.json();
+        setPickWaveError(data.error?.message || 'Could not generate the pick wave documents');
+      }
+    } catch (error) {
+      console.error('Error downloading pick wave documents:', error);
+    } finally {
+      setPickWaveDownload(null);
+    }
+  };
+
   const filteredOrders = orders.filter(order => {
     const matchesSearch = 
       order.orderNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -101,7 +171,9 @@ export default function OrdersPage() {
       case 'PENDING': return 'bg-yellow-100 text-yellow-800';
       case 'CONFIRMED': return 'bg-blue-100 text-blue-800';
       case 'PROCESSING': return 'bg-purple-100 text-purple-800';
+      case 'PARTIALLY_SHIPPED': return 'bg-indigo-50 text-indigo-700';
       case 'SHIPPED': return 'bg-indigo-100 text-indigo-800';
+      case 'PARTIALLY_DELIVERED': return 'bg-green-50 text-green-700';
       case 'DELIVERED': return 'bg-green-100 text-green-800';
       case 'CANCELLED': return 'bg-red-100 text-red-800';
       case 'REFUNDED': return 'bg-gray-100 text-gray-800';
@@ -150,13 +222,34 @@ export default function OrdersPage() {
                 Export CSV
               </button>
               <button
-                onClick={() => {/* TODO: Implement bulk actions */}}
-                className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors"
+                onClick={() => downloadPickWave('packing-slips')}
+                disabled={selectedOrderIds.length === 0 || pickWaveDownload !== null}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
               >
-                Bulk Actions
+                {pickWaveDownload === 'packing-slips' ? 'Generating...' : `Packing Slips (${selectedOrderIds.length})`}
               </button>
+              <div className="flex items-center">
+                <select
+                  value={labelFormat}
+                  onChange={(e) => setLabelFormat(e.target.value as 'pdf' | 'zpl')}
+                  className="px-3 py-2 border border-gray-300 border-r-0 rounded-l-lg text-gray-700 focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+                >
+                  <option value="pdf">PDF</option>
+                  <option value="zpl">ZPL</option>
+                </select>
+                <button
+                  onClick={() => downloadPickWave('labels')}
+                  disabled={selectedOrderIds.length === 0 || pickWaveDownload !== null}
+                  className="px-4 py-2 bg-emerald-600 text-white rounded-r-lg hover:bg-emerald-700 transition-colors disabled:opacity-50"
+                >
+                  {pickWaveDownload === 'labels' ? 'Generating...' : `Labels (${selectedOrderIds.length})`}
+                </button>
+              </div>
             </div>
           </div>
+          {pickWaveError && (
+            <p className="mt-4 text-sm text-red-600">{pickWaveError}</p>
+          )}
         </div>
 
         {/* Filters */}
@@ -187,7 +280,9 @@ export default function OrdersPage() {
                 <option value="PENDING">Pending</option>
                 <option value="CONFIRMED">Confirmed</option>
                 <option value="PROCESSING">Processing</option>
+                <option value="PARTIALLY_SHIPPED">Partially Shipped</option>
                 <option value="SHIPPED">Shipped</option>
+                <option value="PARTIALLY_DELIVERED">Partially Delivered</option>
                 <option value="DELIVERED">Delivered</option>
                 <option value="CANCELLED">Cancelled</option>
                 <option value="REFUNDED">Refunded</option>
@@ -225,6 +320,15 @@ export default function OrdersPage() {
             <table className="min-w-full divide-y divide-gray-200">
               <thead className="bg-gray-50">
                 <tr>
+                  <th className="pl-6 py-3 text-left">
+                    <input
+                      type="checkbox"
+                      aria-label="Select all orders"
+                      checked={filteredOrders.length > 0 && filteredOrders.every(order => selectedOrderIds.includes(order.id))}
+                      onChange={(e) => setSelectedOrderIds(e.target.checked ? filteredOrders.map(order => order.id) : [])}
+                      className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+                    />
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Order
                   </th>
@@ -251,6 +355,15 @@ export default function OrdersPage() {
               <tbody className="bg-white divide-y divide-gray-200">
                 {filteredOrders.map((order) => (
                   <tr key={order.id} className="hover:bg-gray-50">
+                    <td className="pl-6 py-4">
+                      <input
+                        type="checkbox"
+                        aria-label={`Select order ${order.orderNumber}`}
+                        checked={selectedOrderIds.includes(order.id)}
+                        onChange={() => toggleOrderSelection(order.id)}
+                        className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+                      />
+                    </td>
                     <td className="px-6 py-4">
                       <div>
                         <div className="text-sm font-medium text-gray-900">
@@ -374,14 +487,43 @@ export default function OrdersPage() {
                             onChange={(e) => updateOrderStatus(selectedOrder.id, e.target.value)}
                             className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
                           >
-                            <option value="PENDING">Pending</option>
-                            <option value="CONFIRMED">Confirmed</option>
-                            <option value="PROCESSING">Processing</option>
-                            <option value="SHIPPED">Shipped</option>
-                            <option value="DELIVERED">Delivered</option>
-                            <option value="CANCELLED">Cancelled</option>
-                            <option value="REFUNDED">Refunded</option>
+                            {[selectedOrder.status, ...getAllowedTransitions(selectedOrder.status)].map((status) => (
+                              <option key={status} value={status}>
+                                {status.charAt(0) + status.slice(1).toLowerCase().replace('_', ' ')}
+                              </option>
+                            ))}
                           </select>
+                          <input
+                            type="text"
+                            value={statusNote}
+                            onChange={(e) => setStatusNote(e.target.value)}
+                            placeholder="Reason for the change (optional)"
+                            className="mt-2 block w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 text-sm"
+                          />
+                          {statusError && (
+                            <p className="mt-1 text-sm text-red-600">{statusError}</p>
+                          )}
+                        </div>
+
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700">Status History</label>
+                          <ol className="mt-2 space-y-2">
+                            {selectedOrder.statusHistory.map((entry) => (
+                              <li key={entry.id} className="text-sm">
+                                <div className="flex items-center gap-2">
+                                  <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${getStatusColor(entry.toStatus)}`}>
+                                    {entry.toStatus}
+                                  </span>
+                                  <span className="text-gray-500">
+                                    {new Date(entry.createdAt).toLocaleString()} by {entry.actorType.toLowerCase()}
+                                  </span>
+                                </div>
+                                {entry.reason && (
+                                  <div className="text-gray-600 mt-0.5">{entry.reason}</div>
+                                )}
+                              </li>
+                            ))}
+                          </ol>
                         </div>
 
                         <div>
@@ -0,0 +1,365 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import AdminLayout from '@/components/admin/AdminLayout';
+import { PaginationMeta, WebhookEventDetail, WebhookEventStatus, WebhookEventSummary } from '@newhill/shared';
+
+const STATUS_COLORS: Record<WebhookEventStatus, string> = {
+  RECEIVED: 'bg-blue-100 text-blue-800',
+  PROCESSING: 'bg-yellow-100 text-yellow-800',
+  PROCESSED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-orange-100 text-orange-800',
+  DEAD: 'bg-red-100 text-red-800',
+};
+
+const authHeaders = () => ({
+  'Authorization': `Bearer ${localStorage.getItem('token')}`,
+});
+
+export default function WebhooksPage() {
+  const [events, setEvents] = useState<WebhookEventSummary[]>([]);
+  const [pagination, setPagination] = useState<PaginationMeta | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [sourceFilter, setSourceFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState('');
+  const [providerFilter, setProviderFilter] = useState('');
+  const [page, setPage] = useState(1);
+  const [selectedEvent, setSelectedEvent] = useState<WebhookEventDetail | null>(null);
+  const [replaying, setReplaying] = useState(false);
+  const [replayError, setReplayError] = useState('');
+
+  useEffect(() => {
+    fetchEvents();
+  }, [sourceFilter, statusFilter, providerFilter, page]);
+
+  const fetchEvents = async () => {
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: '20' });
+      if (sourceFilter) params.set('source', sourceFilter);
+      if (statusFilter) params.set('status', statusFilter);
+      if (providerFilter) params.set('provider', providerFilter);
+
+      const response = await fetch(`/api/v1/admin/webhooks?${params}`, { headers: authHeaders() });
+      if (response.ok) {
+        const data = await response.json();
+        setEvents(data.data.items);
+        setPagination(data.data.pagination);
+      }
+    } catch (error) {
+      console.error('Error fetching webhook events:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openEvent = async (id: string) => {
+    setReplayError('');
+    try {
+      const response = await fetch(`/api/v1/admin/webhooks/${id}`, { headers: authHeaders() });
+      if (response.ok) {
+        const data = await response.json();
+        setSelectedEvent(data.data);
+      }
+    } catch (error) {
+      console.error('Error fetching webhook event:', error);
+    }
+  };
+
+  const replayEvent = async (id: string) => {
+    setReplaying(true);
+    setReplayError('');
+    try {
+      const response = await fetch(`/api/v1/admin/webhooks/${id}/replay`, {
+        method: 'POST',
+        headers: authHeaders(),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setSelectedEvent(data.data);
+        setEvents(current => current.map(event => (event.id === id ? { ...event, ...data.data } : event)));
+        if (data.data.status !== 'PROCESSED') {
+          setReplayError(data.data.lastError || 'The event could not be applied');
+        }
+      } else {
+        setReplayError(data.error?.message || 'Could not replay the event');
+      }
+    } catch (error) {
+      console.error('Error replaying webhook event:', error);
+    } finally {
+      setReplaying(false);
+    }
+  };
+
+  const changeFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  if (loading) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center min-h-96">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-600"></div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout>
+      <div className="p-6">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 font-heading">
+            Webhooks
+          </h1>
+          <p className="mt-2 text-gray-600">
+            Payment and shipping events received from providers, with their processing status
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Source
+              </label>
+              <select
+                value={sourceFilter}
+                onChange={(e) => changeFilter(setSourceFilter)(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+              >
+                <option value="">All Sources</option>
+                <option value="PAYMENT">Payments</option>
+                <option value="SHIPPING">Shipping</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Status
+              </label>
+              <select
+                value={statusFilter}
+                onChange={(e) => changeFilter(setStatusFilter)(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+              >
+                <option value="">All Status</option>
+                <option value="RECEIVED">Received</option>
+                <option value="PROCESSING">Processing</option>
+                <option value="PROCESSED">Processed</option>
+                <option value="FAILED">Failed (retrying)</option>
+                <option value="DEAD">Dead (out of retries)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Provider
+              </label>
+              <input
+                type="text"
+                value={providerFilter}
+                onChange={(e) => changeFilter(setProviderFilter)(e.target.value)}
+                placeholder="razorpay, shiprocket..."
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+              />
+            </div>
+            <div className="flex items-end">
+              <button
+                onClick={() => {
+                  setSourceFilter('');
+                  setStatusFilter('');
+                  setProviderFilter('');
+                  setPage(1);
+                }}
+                className="w-full px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Clear Filters
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Events Table */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Received
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Provider
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Event
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Attempts
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {events.map((event) => (
+                  <tr key={event.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {new Date(event.receivedAt).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">{event.provider}</div>
+                      <div className="text-sm text-gray-500">{event.source.toLowerCase()}</div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="text-sm text-gray-900">{event.eventType || '—'}</div>
+                      <div className="text-xs text-gray-500 font-mono truncate max-w-xs">{event.eventId}</div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_COLORS[event.status]}`}>
+                        {event.status}
+                      </span>
+                      {event.status === 'FAILED' && event.nextAttemptAt && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          Next try {new Date(event.nextAttemptAt).toLocaleTimeString()}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {event.attempts}
+                    </td>
+                    <td className="px-6 py-4 text-sm font-medium">
+                      <button
+                        onClick={() => openEvent(event.id)}
+                        className="text-emerald-600 hover:text-emerald-900"
+                      >
+                        View
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {events.length === 0 && (
+            <div className="text-center py-12">
+              <div className="text-gray-400 text-6xl mb-4">📨</div>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No webhook events found</h3>
+              <p className="text-gray-500">
+                {sourceFilter || statusFilter || providerFilter
+                  ? 'Try adjusting your filters to see more events.'
+                  : 'No webhooks have been received yet.'}
+              </p>
+            </div>
+          )}
+
+          {pagination && pagination.pages > 1 && (
+            <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200">
+              <p className="text-sm text-gray-600">
+                Page {pagination.page} of {pagination.pages} ({pagination.total} events)
+              </p>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={!pagination.hasPrev}
+                  className="px-3 py-1 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={!pagination.hasNext}
+                  className="px-3 py-1 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Event Detail Modal */}
+        {selectedEvent && (
+          <div className="fixed inset-0 z-50 overflow-y-auto">
+            <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+              <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={() => setSelectedEvent(null)}></div>
+
+              <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-4xl sm:w-full">
+                <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+                  <div className="flex items-center justify-between mb-6">
+                    <div>
+                      <h3 className="text-lg font-medium text-gray-900">
+                        {selectedEvent.provider} {selectedEvent.eventType || 'webhook'}
+                      </h3>
+                      <p className="text-sm text-gray-500 font-mono">{selectedEvent.eventId}</p>
+                    </div>
+                    <button
+                      onClick={() => setSelectedEvent(null)}
+                      className="text-gray-400 hover:text-gray-600"
+                    >
+                      <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-gray-600">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_COLORS[selectedEvent.status]}`}>
+                      {selectedEvent.status}
+                    </span>
+                    <span>Received {new Date(selectedEvent.receivedAt).toLocaleString()}</span>
+                    <span>{selectedEvent.attempts} attempt{selectedEvent.attempts === 1 ? '' : 's'}</span>
+                    {selectedEvent.processedAt && (
+                      <span>Processed {new Date(selectedEvent.processedAt).toLocaleString()}</span>
+                    )}
+                  </div>
+
+                  {selectedEvent.lastError && selectedEvent.status !== 'PROCESSED' && (
+                    <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                      {selectedEvent.lastError}
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    <div>
+                      <h4 className="text-md font-medium text-gray-900 mb-2">Payload</h4>
+                      <pre className="p-3 bg-gray-50 rounded-lg text-xs text-gray-800 overflow-auto max-h-96">
+                        {JSON.stringify(selectedEvent.payload, null, 2)}
+                      </pre>
+                    </div>
+                    <div>
+                      <h4 className="text-md font-medium text-gray-900 mb-2">Headers</h4>
+                      <pre className="p-3 bg-gray-50 rounded-lg text-xs text-gray-800 overflow-auto max-h-96">
+                        {JSON.stringify(selectedEvent.headers, null, 2)}
+                      </pre>
+                    </div>
+                  </div>
+
+                  <div className="mt-6 flex items-center justify-end space-x-4">
+                    {replayError && (
+                      <p className="text-sm text-red-600">{replayError}</p>
+                    )}
+                    <button
+                      onClick={() => replayEvent(selectedEvent.id)}
+                      disabled={replaying || selectedEvent.status === 'PROCESSING'}
+                      className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors disabled:opacity-50"
+                    >
+                      {replaying ? 'Replaying...' : 'Replay'}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
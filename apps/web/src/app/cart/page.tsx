@@ -16,6 +16,7 @@ import {
   Truck,
   Lock
 } from 'lucide-react';
+import { AppliedPromotion, FreeSampleItem, PromotionLineDiscount } from '@newhill/shared';
 import { useCurrency } from '@/hooks/useCurrency';
 
 interface CartItem {
@@ -24,6 +25,8 @@ interface CartItem {
   variantId?: string;
   quantity: number;
   price: number;
+  promotionDiscount?: number;
+  promotions?: PromotionLineDiscount[];
   product: {
     id: string;
     name: { en: string };
@@ -43,20 +46,17 @@ interface Cart {
   id: string;
   items: CartItem[];
   subtotal: number;
+  promotionDiscount?: number;
+  promotions?: AppliedPromotion[];
+  freeItems?: FreeSampleItem[];
   tax: number;
   shipping: number;
   discount: number;
+  couponCode?: string;
   total: number;
   currency: string;
 }
 
-interface PromoCode {
-  code: string;
-  type: 'percentage' | 'fixed';
-  value: number;
-  description: string;
-}
-
 export default function CartPage() {
   const router = useRouter();
   const { currency, formatPrice } = useCurrency();
@@ -67,7 +67,6 @@ export default function CartPage() {
   const [promoCode, setPromoCode] = useState('');
   const [promoLoading, setPromoLoading] = useState(false);
   const [promoError, setPromoError] = useState<string | null>(null);
-  const [appliedPromo, setAppliedPromo] = useState<PromoCode | null>(null);
   const [updatingItems, setUpdatingItems] = useState<Set<string>>(new Set());
 
   useEffect(() => {
@@ -161,30 +160,21 @@ export default function CartPage() {
     setPromoError(null);
 
     try {
-      const response = await fetch('/api/v1/discounts/validate', {
+      // Discount codes and promotion codes both attach to the cart
+      const response = await fetch('/api/v1/cart/coupon', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${localStorage.getItem('token')}`,
         },
-        body: JSON.stringify({
-          code: promoCode,
-          orderAmount: cart?.subtotal || 0,
-          type: 'discount',
-        }),
+        body: JSON.stringify({ code: promoCode.trim() }),
       });
 
       const data = await response.json();
 
       if (data.success) {
-        setAppliedPromo({
-          code: promoCode,
-          type: data.data.type,
-          value: data.data.value,
-          description: data.data.description,
-        });
+        setCart(data.data);
         setPromoCode('');
-        await fetchCart(); // Refresh cart with discount applied
       } else {
         setPromoError(data.error?.message || 'Invalid promo code');
       }
@@ -196,7 +186,12 @@ export default function CartPage() {
   };
 
   const removePromoCode = async () => {
-    setAppliedPromo(null);
+    await fetch('/api/v1/cart/coupon', {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${localStorage.getItem('token')}`,
+      },
+    });
     await fetchCart(); // Refresh cart without discount
   };
 
@@ -349,6 +344,11 @@ export default function CartPage() {
                     <div className="text-sm text-neutral-500">
                       {formatPrice(item.price, currency)} each
                     </div>
+                    {item.promotions?.map((promotion) => (
+                      <div key={promotion.promotionId} className="text-sm text-emerald-600">
+                        {promotion.name}: -{formatPrice(promotion.amount, currency)}
+                      </div>
+                    ))}
                   </div>
 
                   {/* Remove Button */}
@@ -394,12 +394,12 @@ export default function CartPage() {
                 <label className="block text-sm font-medium text-neutral-700 mb-2">
                   Promo Code
                 </label>
-                {appliedPromo ? (
+                {cart.couponCode ? (
                   <div className="flex items-center justify-between p-3 bg-emerald-50 rounded-lg">
                     <div className="flex items-center gap-2">
                       <CheckCircle className="w-4 h-4 text-emerald-600" />
                       <span className="text-sm font-medium text-emerald-800">
-                        {appliedPromo.code}
+                        {cart.couponCode}
                       </span>
                     </div>
                     <button
@@ -442,9 +442,23 @@ export default function CartPage() {
                   <span>{formatPrice(cart.subtotal, currency)}</span>
                 </div>
                 
-                {appliedPromo && (
+                {cart.promotions?.filter((promotion) => promotion.amount > 0).map((promotion) => (
+                  <div key={promotion.promotionId} className="flex justify-between text-sm text-emerald-600">
+                    <span>{promotion.name}</span>
+                    <span>-{formatPrice(promotion.amount, currency)}</span>
+                  </div>
+                ))}
+
+                {cart.freeItems?.map((item) => (
+                  <div key={item.promotionId} className="flex justify-between text-sm text-emerald-600">
+                    <span>Free sample: {item.name}{item.quantity > 1 ? ` × ${item.quantity}` : ''}</span>
+                    <span>Free</span>
+                  </div>
+                ))}
+
+                {cart.discount > 0 && (
                   <div className="flex justify-between text-sm text-emerald-600">
-                    <span>Discount ({appliedPromo.code})</span>
+                    <span>Discount ({cart.couponCode})</span>
                     <span>-{formatPrice(cart.discount, currency)}</span>
                   </div>
                 )}
@@ -20,6 +20,16 @@ import {
   ChevronUp
 } from 'lucide-react';
 import { useCurrency } from '@/hooks/useCurrency';
+import {
+  AppliedPromotion,
+  CodEligibility,
+  CodIneligibleReason,
+  CreditEligibility,
+  CreditIneligibleReason,
+  FreeSampleItem,
+  PromotionLineDiscount,
+  RateShoppingResult,
+} from '@newhill/shared';
 
 interface Address {
   id?: string;
@@ -41,6 +51,8 @@ interface CartItem {
   variantId?: string;
   quantity: number;
   price: number;
+  promotionDiscount?: number;
+  promotions?: PromotionLineDiscount[];
   product: {
     id: string;
     name: { en: string };
@@ -59,9 +71,13 @@ interface Cart {
   id: string;
   items: CartItem[];
   subtotal: number;
+  promotionDiscount?: number;
+  promotions?: AppliedPromotion[];
+  freeItems?: FreeSampleItem[];
   tax: number;
   shipping: number;
   discount: number;
+  couponCode?: string;
   total: number;
   currency: string;
 }
@@ -72,16 +88,45 @@ interface ShippingMethod {
   description: string;
   cost: number;
   estimatedDays: string;
+  badges: string[];
 }
 
+const CARRIER_NAMES: Record<string, string> = {
+  shiprocket: 'Shiprocket',
+  gcc_logistics: 'GCC Logistics',
+  aramex: 'Aramex',
+  dhl: 'DHL',
+  blue_dart: 'Blue Dart',
+};
+
 interface PaymentMethod {
   id: string;
-  type: 'card' | 'upi' | 'netbanking' | 'wallet';
+  type: 'card' | 'upi' | 'netbanking' | 'wallet' | 'cod' | 'invoice';
   name: string;
   icon: string;
   isPopular?: boolean;
 }
 
+// Offered only when the order passes the COD rules
+const COD_METHOD: PaymentMethod = { id: 'cod', type: 'cod', name: 'Cash on Delivery', icon: '💵' };
+
+const COD_UNAVAILABLE_REASONS: Record<CodIneligibleReason, string> = {
+  REGION: 'Cash on delivery is only available for orders delivered in India.',
+  ORDER_VALUE: 'This order is above the cash on delivery limit.',
+  PINCODE: 'Our couriers cannot collect cash at this pincode.',
+  RTO_HISTORY: 'Cash on delivery is not available on this account.',
+};
+
+// Offered to business accounts with payment terms and enough credit left
+const INVOICE_METHOD: PaymentMethod = { id: 'invoice', type: 'invoice', name: 'Invoice / Purchase Order', icon: '🧾' };
+
+// Only shown to accounts that have terms; retail buyers never see the option
+const CREDIT_UNAVAILABLE_REASONS: Partial<Record<CreditIneligibleReason, string>> = {
+  CURRENCY: 'Your account is billed in a different currency.',
+  CREDIT_HOLD: 'Your account is on hold until overdue invoices are paid.',
+  CREDIT_LIMIT: 'This order is above the credit available on your account.',
+};
+
 export default function CheckoutPage() {
   const router = useRouter();
   const { data: session, status } = useSession();
@@ -112,6 +157,19 @@ export default function CheckoutPage() {
     { id: 'razorpay-netbanking', type: 'netbanking', name: 'Net Banking', icon: '🏦' },
     { id: 'razorpay-wallet', type: 'wallet', name: 'Wallet', icon: '👛' },
   ]);
+  const [codEligibility, setCodEligibility] = useState<CodEligibility | null>(null);
+  const [creditEligibility, setCreditEligibility] = useState<CreditEligibility | null>(null);
+  const [purchaseOrderNumber, setPurchaseOrderNumber] = useState('');
+  const availablePaymentMethods = [
+    ...paymentMethods,
+    ...(codEligibility?.eligible ? [COD_METHOD] : []),
+    ...(creditEligibility?.eligible ? [INVOICE_METHOD] : []),
+  ];
+  const isCod = selectedPaymentMethod === COD_METHOD.id;
+  const isInvoice = selectedPaymentMethod === INVOICE_METHOD.id;
+  const creditUnavailableReason = creditEligibility && !creditEligibility.eligible
+    ? creditEligibility.reasons.map(reason => CREDIT_UNAVAILABLE_REASONS[reason]).find(Boolean)
+    : undefined;
   
   // Form states
   const [formData, setFormData] = useState<Address>({
@@ -188,6 +246,11 @@ export default function CheckoutPage() {
     }
   };
 
+  const cartWeight = () =>
+    cart?.items.reduce((sum, item) =>
+      sum + (item.variant?.weightInGrams || item.product.weight) * item.quantity, 0
+    ) || 0;
+
   const fetchShippingMethods = async () => {
     if (!shippingAddress) return;
 
@@ -200,18 +263,28 @@ export default function CheckoutPage() {
         },
         body: JSON.stringify({
           destination: shippingAddress,
-          weight: cart?.items.reduce((sum, item) => 
-            sum + (item.variant?.weightInGrams || item.product.weight) * item.quantity, 0
-          ) || 0,
+          weight: cartWeight(),
           currency,
         }),
       });
 
       const data = await response.json();
       if (data.success) {
-        setShippingMethods(data.data);
-        if (data.data.length > 0) {
-          setSelectedShippingMethod(data.data[0].id);
+        // Quotes from every carrier, cheapest first
+        const { quotes, cheapest, fastest } = data.data as RateShoppingResult;
+        setShippingMethods(quotes.map((quote) => ({
+          id: quote.id,
+          name: `${CARRIER_NAMES[quote.provider] || quote.provider} ${quote.method.charAt(0).toUpperCase() + quote.method.slice(1)}`,
+          description: quote.description,
+          cost: quote.cost,
+          estimatedDays: `${quote.estimatedDays} day${quote.estimatedDays === 1 ? '' : 's'}`,
+          badges: [
+            ...(quote.id === cheapest?.id ? ['Cheapest'] : []),
+            ...(quote.id === fastest?.id ? ['Fastest'] : []),
+          ],
+        })));
+        if (cheapest) {
+          setSelectedShippingMethod(cheapest.id);
         }
       }
     } catch (error) {
@@ -219,6 +292,67 @@ export default function CheckoutPage() {
     }
   };
 
+  const fetchCodEligibility = async () => {
+    if (!shippingAddress || !cart) return;
+
+    try {
+      const response = await fetch('/api/v1/checkout/cod-eligibility', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        },
+        body: JSON.stringify({
+          destination: {
+            country: shippingAddress.country,
+            postalCode: shippingAddress.postalCode,
+          },
+          orderValue: cart.total,
+          currency: cart.currency,
+          weight: cartWeight(),
+        }),
+      });
+
+      const data = await response.json();
+      const eligibility: CodEligibility | null = data.success ? data.data : null;
+      setCodEligibility(eligibility);
+      if (!eligibility?.eligible && selectedPaymentMethod === COD_METHOD.id) {
+        setSelectedPaymentMethod('');
+      }
+    } catch (error) {
+      // Online payment still works; just do not offer COD
+      setCodEligibility(null);
+    }
+  };
+
+  const fetchCreditEligibility = async () => {
+    if (!cart) return;
+
+    try {
+      const response = await fetch('/api/v1/checkout/credit-eligibility', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        },
+        body: JSON.stringify({
+          orderValue: cart.total,
+          currency: cart.currency,
+        }),
+      });
+
+      const data = await response.json();
+      const eligibility: CreditEligibility | null = data.success ? data.data : null;
+      setCreditEligibility(eligibility);
+      if (!eligibility?.eligible && selectedPaymentMethod === INVOICE_METHOD.id) {
+        setSelectedPaymentMethod('');
+      }
+    } catch (error) {
+      // Online payment still works; just do not offer payment on account
+      setCreditEligibility(null);
+    }
+  };
+
   const handleAddressSelect = (address: Address) => {
     setShippingAddress(address);
     if (useSameAddress) {
@@ -296,9 +430,12 @@ export default function CheckoutPage() {
           shippingAddress,
           billingAddress,
           paymentMethod: {
-            type: selectedPaymentMethod.split('-')[1],
+            type: isCod ? COD_METHOD.type : isInvoice ? INVOICE_METHOD.type : selectedPaymentMethod.split('-')[1],
             provider: 'razorpay',
           },
+          ...(isInvoice && purchaseOrderNumber && { purchaseOrderNumber }),
+          // Automatic promotions are applied again at checkout; a promotion code has to come along
+          ...(cart?.promotions?.some(promotion => promotion.code === cart.couponCode) && { promotionCode: cart?.couponCode }),
           shippingMethod: selectedShippingMethod,
           notes: '',
           idempotencyKey: `checkout-${Date.now()}`,
@@ -306,7 +443,30 @@ export default function CheckoutPage() {
       });
 
       const data = await response.json();
-      if (data.success) {
+      if (data.success && data.data.approval) {
+        // Over the organization's approval limit: payment waits for an approver
+        router.push(`/account/b2b/team?tab=orders&pending=${data.data.order.orderNumber}`);
+      } else if (data.success && (isCod || isInvoice)) {
+        // Nothing to pay now, so book the shipment straight away
+        const confirmResponse = await fetch('/api/v1/checkout/confirm', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${localStorage.getItem('token')}`,
+          },
+          body: JSON.stringify({
+            orderId: data.data.order.id,
+            paymentId: data.data.payment.paymentId,
+          }),
+        });
+
+        const confirmData = await confirmResponse.json();
+        if (confirmData.success) {
+          router.push(`/checkout/success?orderId=${data.data.order.id}`);
+        } else {
+          setError(confirmData.error?.message || 'Failed to place order');
+        }
+      } else if (data.success) {
         // Redirect to payment gateway or show payment form
         console.log('Checkout started:', data.data);
         // In a real implementation, you would redirect to the payment gateway
@@ -338,6 +498,10 @@ export default function CheckoutPage() {
     if (currentStep === 1) {
       fetchShippingMethods();
     }
+    if (currentStep === 2) {
+      fetchCodEligibility();
+      fetchCreditEligibility();
+    }
     if (canProceedToNextStep()) {
       setCurrentStep(prev => Math.min(3, prev + 1));
     }
@@ -661,7 +825,14 @@ export default function CheckoutPage() {
                     >
                       <div className="flex items-center justify-between">
                         <div>
-                          <h3 className="font-medium text-neutral-900">{method.name}</h3>
+                          <h3 className="font-medium text-neutral-900 flex items-center gap-2">
+                            {method.name}
+                            {method.badges.map((badge) => (
+                              <span key={badge} className="px-2 py-0.5 rounded-full text-xs font-medium text-emerald-700 bg-emerald-100">
+                                {badge}
+                              </span>
+                            ))}
+                          </h3>
                           <p className="text-sm text-neutral-600">{method.description}</p>
                           <p className="text-sm text-neutral-500">Estimated delivery: {method.estimatedDays}</p>
                         </div>
@@ -686,7 +857,7 @@ export default function CheckoutPage() {
                 </h2>
 
                 <div className="space-y-3">
-                  {paymentMethods.map((method) => (
+                  {availablePaymentMethods.map((method) => (
                     <div
                       key={method.id}
                       onClick={() => setSelectedPaymentMethod(method.id)}
@@ -706,6 +877,17 @@ export default function CheckoutPage() {
                                 Popular
                               </span>
                             )}
+                            {method.type === 'cod' && codEligibility && (
+                              <p className="text-sm text-neutral-600">
+                                Pay the courier in cash. A {formatPrice(codEligibility.fee, codEligibility.currency)} fee applies.
+                              </p>
+                            )}
+                            {method.type === 'invoice' && creditEligibility && (
+                              <p className="text-sm text-neutral-600">
+                                Billed on {creditEligibility.terms.replace('_', ' ')} terms.{' '}
+                                {formatPrice(creditEligibility.available, creditEligibility.currency)} credit available.
+                              </p>
+                            )}
                           </div>
                         </div>
                         <div className="text-emerald-600">
@@ -716,6 +898,31 @@ export default function CheckoutPage() {
                   ))}
                 </div>
 
+                {codEligibility && !codEligibility.eligible && shippingAddress?.country === 'IN' && (
+                  <p className="mt-4 text-sm text-neutral-600">
+                    {COD_UNAVAILABLE_REASONS[codEligibility.reasons[0]]}
+                  </p>
+                )}
+
+                {creditUnavailableReason && (
+                  <p className="mt-4 text-sm text-neutral-600">{creditUnavailableReason}</p>
+                )}
+
+                {isInvoice && (
+                  <div className="mt-4">
+                    <label className="block text-sm font-medium text-neutral-700 mb-1">
+                      Purchase order number (optional)
+                    </label>
+                    <input
+                      type="text"
+                      maxLength={50}
+                      value={purchaseOrderNumber}
+                      onChange={(e) => setPurchaseOrderNumber(e.target.value)}
+                      className="w-full px-3 py-2 border border-neutral-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+                    />
+                  </div>
+                )}
+
                 <div className="mt-6 p-4 bg-neutral-50 rounded-lg">
                   <div className="flex items-center gap-2 text-sm text-neutral-600">
                     <Lock className="w-4 h-4" />
@@ -780,6 +987,11 @@ export default function CheckoutPage() {
                       <p className="text-xs text-neutral-500">
                         Qty: {item.quantity} × {formatPrice(item.price, currency)}
                       </p>
+                      {item.promotions?.map((promotion) => (
+                        <p key={promotion.promotionId} className="text-xs text-emerald-600">
+                          {promotion.name}: -{formatPrice(promotion.amount, currency)}
+                        </p>
+                      ))}
                     </div>
                     <div className="text-sm font-medium text-neutral-900">
                       {formatPrice(item.price * item.quantity, currency)}
@@ -794,6 +1006,18 @@ export default function CheckoutPage() {
                   <span>Subtotal</span>
                   <span>{formatPrice(cart.subtotal, currency)}</span>
                 </div>
+                {cart.promotions?.filter((promotion) => promotion.amount > 0).map((promotion) => (
+                  <div key={promotion.promotionId} className="flex justify-between text-sm text-emerald-600">
+                    <span>{promotion.name}</span>
+                    <span>-{formatPrice(promotion.amount, currency)}</span>
+                  </div>
+                ))}
+                {cart.freeItems?.map((item) => (
+                  <div key={item.promotionId} className="flex justify-between text-sm text-emerald-600">
+                    <span>Free sample: {item.name}{item.quantity > 1 ? ` × ${item.quantity}` : ''}</span>
+                    <span>Free</span>
+                  </div>
+                ))}
                 <div className="flex justify-between text-sm">
                   <span>Tax (GST)</span>
                   <span>{formatPrice(cart.tax, currency)}</span>
@@ -808,6 +1032,12 @@ export default function CheckoutPage() {
                     )}
                   </span>
                 </div>
+                {isCod && codEligibility && (
+                  <div className="flex justify-between text-sm">
+                    <span>Cash on delivery fee</span>
+                    <span>{formatPrice(codEligibility.fee, currency)}</span>
+                  </div>
+                )}
                 {cart.discount > 0 && (
                   <div className="flex justify-between text-sm text-emerald-600">
                     <span>Discount</span>
@@ -819,7 +1049,7 @@ export default function CheckoutPage() {
               <div className="border-t border-neutral-200 pt-4">
                 <div className="flex justify-between font-bold text-lg">
                   <span>Total</span>
-                  <span>{formatPrice(cart.total, currency)}</span>
+                  <span>{formatPrice(cart.total + (isCod && codEligibility ? codEligibility.fee : 0), currency)}</span>
                 </div>
               </div>
             </div>
@@ -171,7 +171,7 @@ export default function ProductDetailPage({ params }: ProductDetailPageProps) {
 
       const data = await response.json();
       if (data.success) {
-        setShippingEstimate(data.data[0]); // Get first shipping option
+        setShippingEstimate(data.data.cheapest); // Cheapest option across carriers
       }
     } catch (error) {
       console.error('Error getting shipping estimate:', error);
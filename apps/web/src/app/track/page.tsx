@@ -0,0 +1,227 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Package, Truck, CheckCircle, MapPin, AlertCircle, Search } from 'lucide-react';
+import { OrderTracking, SHIPMENT_STATUS_LABELS, ShipmentStatus } from '@newhill/shared';
+
+const STATUS_STYLES: Record<ShipmentStatus, string> = {
+  pending: 'bg-neutral-100 text-neutral-700',
+  packed: 'bg-blue-100 text-blue-800',
+  in_transit: 'bg-indigo-100 text-indigo-800',
+  out_for_delivery: 'bg-amber-100 text-amber-800',
+  delivered: 'bg-emerald-100 text-emerald-800',
+  failed: 'bg-red-100 text-red-800',
+  returned: 'bg-red-100 text-red-800',
+};
+
+export default function TrackOrder() {
+  const [orderNumber, setOrderNumber] = useState('');
+  const [email, setEmail] = useState('');
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState('');
+  const [tracking, setTracking] = useState<OrderTracking | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSearching(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/v1/tracking', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orderNumber, email }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setTracking(data.data);
+      } else {
+        setTracking(null);
+        setError(
+          response.status === 404
+            ? 'We could not find an order with that number and email address.'
+            : data.error?.message || 'Tracking is unavailable right now. Please try again later.'
+        );
+      }
+    } catch (err) {
+      setTracking(null);
+      setError('Tracking is unavailable right now. Please try again later.');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const formatDateTime = (value: string) =>
+    new Date(value).toLocaleString(undefined, {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  return (
+    <div className="min-h-screen">
+      {/* Hero Section */}
+      <section className="relative py-20 bg-gradient-to-br from-emerald-600 to-emerald-700 text-white">
+        <div className="container-max">
+          <div className="max-w-4xl mx-auto text-center">
+            <h1 className="font-heading text-4xl md:text-6xl font-bold mb-6">
+              Track Your Order
+            </h1>
+            <p className="text-xl text-emerald-100 leading-relaxed">
+              Enter your order number and the email address you ordered with to follow your spices
+              from our warehouse to your door.
+            </p>
+          </div>
+        </div>
+      </section>
+
+      <section className="section-padding bg-white">
+        <div className="container-max">
+          <div className="max-w-3xl mx-auto">
+            <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <label htmlFor="orderNumber" className="form-label">
+                  Order Number *
+                </label>
+                <input
+                  type="text"
+                  id="orderNumber"
+                  value={orderNumber}
+                  onChange={(e) => setOrderNumber(e.target.value)}
+                  required
+                  className="form-input"
+                  placeholder="NH-20240117-0042"
+                />
+              </div>
+              <div>
+                <label htmlFor="email" className="form-label">
+                  Email Address *
+                </label>
+                <input
+                  type="email"
+                  id="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className="form-input"
+                  placeholder="your.email@example.com"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isSearching}
+                className="btn-primary flex items-center justify-center space-x-2 disabled:opacity-50"
+              >
+                <Search className="w-4 h-4" />
+                <span>{isSearching ? 'Searching...' : 'Track'}</span>
+              </button>
+            </form>
+
+            {error && (
+              <div className="mt-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-3">
+                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            )}
+
+            {tracking && (
+              <div className="mt-10 space-y-8">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h2 className="font-heading text-2xl font-bold text-neutral-900">
+                      Order #{tracking.orderNumber}
+                    </h2>
+                    <p className="text-sm text-neutral-600">
+                      Placed {new Date(tracking.placedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <span className="px-3 py-1 text-sm font-medium rounded-full bg-emerald-100 text-emerald-800">
+                    {tracking.orderStatus.replace(/_/g, ' ')}
+                  </span>
+                </div>
+
+                {tracking.shipments.length === 0 && (
+                  <div className="p-6 bg-neutral-50 border border-neutral-200 rounded-lg flex items-center space-x-3">
+                    <Package className="w-5 h-5 text-neutral-500 flex-shrink-0" />
+                    <p className="text-neutral-700">
+                      Your order is being prepared. Tracking will appear here once it is handed to the courier.
+                    </p>
+                  </div>
+                )}
+
+                {tracking.shipments.map((shipment, index) => (
+                  <div key={shipment.trackingNumber || index} className="border border-neutral-200 rounded-xl p-6">
+                    <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                      <div className="flex items-center space-x-3">
+                        <Truck className="w-6 h-6 text-emerald-600" />
+                        <div>
+                          <h3 className="font-semibold text-neutral-900">
+                            {tracking.shipments.length > 1 ? `Shipment ${index + 1}` : 'Shipment'}
+                            {shipment.carrier && ` via ${shipment.carrier.replace(/_/g, ' ').toUpperCase()}`}
+                          </h3>
+                          {shipment.trackingNumber && (
+                            <p className="text-sm text-neutral-600">
+                              Tracking number{' '}
+                              {shipment.trackingUrl ? (
+                                <a
+                                  href={shipment.trackingUrl}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-emerald-600 hover:text-emerald-700 underline"
+                                >
+                                  {shipment.trackingNumber}
+                                </a>
+                              ) : (
+                                shipment.trackingNumber
+                              )}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                      <span className={`px-3 py-1 text-sm font-medium rounded-full ${STATUS_STYLES[shipment.status]}`}>
+                        {SHIPMENT_STATUS_LABELS[shipment.status]}
+                      </span>
+                    </div>
+
+                    {shipment.events.length === 0 ? (
+                      <p className="text-sm text-neutral-600">
+                        No scans from the courier yet. Check back soon.
+                      </p>
+                    ) : (
+                      <ol className="relative border-l border-neutral-200 ml-3">
+                        {shipment.events.map((event, eventIndex) => (
+                          <li key={`${event.occurredAt}-${event.status}`} className="mb-6 ml-6 last:mb-0">
+                            <span
+                              className={`absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full ring-4 ring-white ${
+                                eventIndex === 0 ? 'bg-emerald-600' : 'bg-neutral-300'
+                              }`}
+                            >
+                              {event.status === 'delivered' && <CheckCircle className="w-4 h-4 text-white" />}
+                            </span>
+                            <h4 className="font-medium text-neutral-900">{event.description}</h4>
+                            <div className="flex flex-wrap items-center gap-x-4 text-sm text-neutral-600">
+                              <time dateTime={event.occurredAt}>{formatDateTime(event.occurredAt)}</time>
+                              {event.location && (
+                                <span className="flex items-center space-x-1">
+                                  <MapPin className="w-3 h-3" />
+                                  <span>{event.location}</span>
+                                </span>
+                              )}
+                            </div>
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </section>
+    </div>
+  );
+}
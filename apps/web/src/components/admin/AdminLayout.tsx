@@ -95,6 +95,13 @@ const adminModules = [
     icon: '📈',
     href: '/admin/analytics',
     description: 'Insights and monitoring'
+  },
+  {
+    id: 'webhooks',
+    name: 'Webhooks',
+    icon: '📨',
+    href: '/admin/webhooks',
+    description: 'Provider events and replays'
   }
 ];
 
@@ -186,6 +186,14 @@ export default function Footer({
                   Contact Us
                 </Link>
               </li>
+              <li>
+                <Link
+                  href="/track"
+                  className="text-neutral-300 hover:text-emerald-400 transition-colors duration-200 text-sm"
+                >
+                  Track Your Order
+                </Link>
+              </li>
               <li>
                 <Link
                   href="/faq"
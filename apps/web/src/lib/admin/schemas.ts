@@ -48,16 +48,37 @@ export const LotSchema = z.object({
   warehouseId: z.string().optional()
 });
 
+export const WarehouseSchema = z.object({
+  code: z.string().min(1, 'Warehouse code is required').max(32),
+  name: z.string().min(1, 'Warehouse name is required'),
+  address1: z.string().optional(),
+  city: z.string().min(1, 'City is required'),
+  state: z.string().optional(),
+  country: z.string().length(2, 'Use a two-letter country code'),
+  postalCode: z.string().optional(),
+  phone: z.string().optional(),
+  regionsServed: z.array(z.string().length(2)).default([]),
+  priority: z.number().int().min(0).default(100),
+  isActive: z.boolean().default(true)
+});
+
+export const StockTransferSchema = z.object({
+  lotId: z.string().min(1, 'Lot is required'),
+  toWarehouseId: z.string().min(1, 'Destination warehouse is required'),
+  quantity: z.number().int().positive('Quantity must be positive'),
+  reason: z.string().optional()
+});
+
 // ===== ORDER SCHEMAS =====
 
 export const OrderStatusUpdateSchema = z.object({
-  status: z.enum(['PENDING', 'CONFIRMED', 'PROCESSING', 'SHIPPED', 'DELIVERED', 'CANCELLED', 'REFUNDED']),
+  status: z.enum(['PENDING', 'CONFIRMED', 'PROCESSING', 'PARTIALLY_SHIPPED', 'SHIPPED', 'PARTIALLY_DELIVERED', 'DELIVERED', 'CANCELLED', 'REFUNDED']),
   notes: z.string().optional()
 });
 
 export const OrderFiltersSchema = z.object({
   search: z.string().optional(),
-  status: z.enum(['PENDING', 'CONFIRMED', 'PROCESSING', 'SHIPPED', 'DELIVERED', 'CANCELLED', 'REFUNDED']).optional(),
+  status: z.enum(['PENDING', 'CONFIRMED', 'PROCESSING', 'PARTIALLY_SHIPPED', 'SHIPPED', 'PARTIALLY_DELIVERED', 'DELIVERED', 'CANCELLED', 'REFUNDED']).optional(),
   date: z.string().optional(),
   page: z.number().min(1).default(1),
   limit: z.number().min(1).max(100).default(20)
@@ -119,6 +140,19 @@ export const RefundSchema = z.object({
   notes: z.string().optional()
 });
 
+export const ReconciliationFiltersSchema = z.object({
+  provider: z.enum(['razorpay', 'dibsy', 'telr', 'moyasar', 'oman_net']).optional(),
+  type: z.enum(['AMOUNT_MISMATCH', 'CURRENCY_MISMATCH', 'STATUS_MISMATCH', 'UNKNOWN_PAYMENT']).optional(),
+  status: z.enum(['open', 'resolved', 'all']).default('open'),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50)
+});
+
+export const ReconciliationResolveSchema = z.object({
+  issueId: z.string().min(1, 'Issue ID is required'),
+  resolution: z.string().min(1, 'Resolution note is required').max(1000)
+});
+
 // ===== MARKETING SCHEMAS =====
 
 export const CouponSchema = z.object({
@@ -134,6 +134,25 @@ export interface Lot {
   updatedAt: string;
 }
 
+export interface Warehouse {
+  id: string;
+  code: string;
+  name: string;
+  address1?: string;
+  city: string;
+  state?: string;
+  country: string;
+  postalCode?: string;
+  phone?: string;
+  regionsServed: string[];
+  priority: number;
+  isActive: boolean;
+  availableStock?: number;
+  reservedStock?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface CurrencyPrice {
   id: string;
   variantId: string;
@@ -147,7 +166,7 @@ export interface CurrencyPrice {
 export interface AdminOrder {
   id: string;
   orderNumber: string;
-  status: 'PENDING' | 'CONFIRMED' | 'PROCESSING' | 'SHIPPED' | 'DELIVERED' | 'CANCELLED' | 'REFUNDED';
+  status: 'PENDING' | 'CONFIRMED' | 'PROCESSING' | 'PARTIALLY_SHIPPED' | 'SHIPPED' | 'PARTIALLY_DELIVERED' | 'DELIVERED' | 'CANCELLED' | 'REFUNDED';
   totalAmount: number;
   currency: string;
   createdAt: string;
@@ -159,6 +178,17 @@ export interface AdminOrder {
   items: OrderItem[];
   shippingAddress: Address;
   billingAddress: Address;
+  statusHistory: OrderStatusHistory[];
+}
+
+export interface OrderStatusHistory {
+  id: string;
+  fromStatus: AdminOrder['status'] | null;
+  toStatus: AdminOrder['status'];
+  actorType: 'CUSTOMER' | 'ADMIN' | 'SYSTEM' | 'WEBHOOK';
+  actorId: string | null;
+  reason: string | null;
+  createdAt: string;
 }
 
 export interface OrderItem {
@@ -307,6 +337,49 @@ export interface RefundData {
   createdAt: string;
 }
 
+export interface ReconciliationIssue {
+  id: string;
+  provider: string;
+  source: 'STATUS_CHECK' | 'SETTLEMENT';
+  type: 'AMOUNT_MISMATCH' | 'CURRENCY_MISMATCH' | 'STATUS_MISMATCH' | 'UNKNOWN_PAYMENT';
+  expected: string | null;
+  actual: string | null;
+  paymentId: string | null;
+  providerPaymentId: string | null;
+  orderNumber: string | null;
+  settlementReportId: string | null;
+  resolvedAt: string | null;
+  resolution: string | null;
+  createdAt: string;
+}
+
+export interface SettlementReportSummary {
+  id: string;
+  provider: string;
+  fileName: string;
+  lineCount: number;
+  matchedCount: number;
+  mismatchCount: number;
+  createdAt: string;
+}
+
+export interface ReconciliationReport {
+  summary: {
+    openIssues: number;
+    byType: Record<string, number>;
+    stalePayments: number;
+    lastReconciledAt: string | null;
+  };
+  issues: ReconciliationIssue[];
+  settlementReports: SettlementReportSummary[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
 // ===== MARKETING TYPES =====
 
 export interface Coupon {
@@ -1,13 +1,23 @@
+import { randomUUID } from 'crypto';
 import { PrismaClient } from '@prisma/client';
+import {
+  ShelfLifeRequirement,
+  getShelfLifeRequirement as shelfLifeRequirementFor,
+  hasRequiredShelfLife,
+} from '@newhill/shared';
 
 const prisma = new PrismaClient();
 
+// How long reserved stock is held for a checkout before the worker sweep releases it
+const RESERVATION_TTL_MINUTES = parseInt(process.env.RESERVATION_TTL_MINUTES || '30', 10);
+
 export interface StockInfo {
   variantId: string;
   totalStock: number;
   availableStock: number;
   reservedStock: number;
   lots: LotStockInfo[];
+  warehouses: WarehouseStockInfo[];
 }
 
 export interface LotStockInfo {
@@ -16,8 +26,25 @@ export interface LotStockInfo {
   qtyAvailable: number;
   qtyReserved: number;
   status: string;
+  harvestedOn: Date;
   bestBefore: Date;
   originEstate: string;
+  warehouseId: string | null;
+}
+
+export interface WarehouseStockInfo {
+  warehouseId: string | null;
+  code: string | null;
+  name: string | null;
+  availableStock: number;
+  reservedStock: number;
+}
+
+export interface ReservedLot {
+  lotId: string;
+  quantity: number;
+  warehouseId?: string | null;
+  reservationId?: string;
 }
 
 export interface InventoryChange {
@@ -27,7 +54,8 @@ export interface InventoryChange {
   refType: 'ORDER' | 'B2B' | 'ADMIN' | 'SYSTEM' | 'TRANSFER';
   quantity: number;
   reason?: string;
-  warehouseId?: string;
+  warehouseId?: string | null;
+  transferId?: string;
   metadata?: any;
 }
 
@@ -42,6 +70,7 @@ export async function getStockInfo(variantId: string): Promise<StockInfo> {
         lots: {
           where: { status: 'ACTIVE' },
           orderBy: { bestBefore: 'asc' },
+          include: { warehouse: true },
         },
       },
     });
@@ -56,10 +85,27 @@ export async function getStockInfo(variantId: string): Promise<StockInfo> {
       qtyAvailable: lot.qtyAvailable,
       qtyReserved: lot.qtyReserved,
       status: lot.status,
+      harvestedOn: lot.harvestedOn,
       bestBefore: lot.bestBefore,
       originEstate: lot.originEstate,
+      warehouseId: lot.warehouseId,
     }));
 
+    // Lots without a warehouse are grouped under a null entry
+    const warehouses = new Map<string | null, WarehouseStockInfo>();
+    for (const lot of variant.lots) {
+      const entry = warehouses.get(lot.warehouseId) || {
+        warehouseId: lot.warehouseId,
+        code: lot.warehouse?.code || null,
+        name: lot.warehouse?.name || null,
+        availableStock: 0,
+        reservedStock: 0,
+      };
+      entry.availableStock += lot.qtyAvailable;
+      entry.reservedStock += lot.qtyReserved;
+      warehouses.set(lot.warehouseId, entry);
+    }
+
     const totalStock = lots.reduce((sum, lot) => sum + lot.qtyAvailable + lot.qtyReserved, 0);
     const availableStock = lots.reduce((sum, lot) => sum + lot.qtyAvailable, 0);
     const reservedStock = lots.reduce((sum, lot) => sum + lot.qtyReserved, 0);
@@ -70,6 +116,7 @@ export async function getStockInfo(variantId: string): Promise<StockInfo> {
       availableStock,
       reservedStock,
       lots,
+      warehouses: Array.from(warehouses.values()),
     };
   } catch (error) {
     console.error('Error getting stock info:', error);
@@ -83,11 +130,28 @@ export async function getStockInfo(variantId: string): Promise<StockInfo> {
 export async function checkStockAvailability(
   variantId: string,
   quantity: number,
-  lotId?: string
+  lotId?: string,
+  warehouseId?: string
 ): Promise<{ available: boolean; availableQty: number; message?: string }> {
   try {
     const stockInfo = await getStockInfo(variantId);
 
+    if (warehouseId && !lotId) {
+      // Check a single warehouse
+      const warehouse = stockInfo.warehouses.find(w => w.warehouseId === warehouseId);
+      const availableQty = warehouse?.availableStock || 0;
+
+      if (availableQty < quantity) {
+        return {
+          available: false,
+          availableQty,
+          message: `Insufficient stock in warehouse ${warehouse?.code || warehouseId}. Available: ${availableQty}`
+        };
+      }
+
+      return { available: true, availableQty };
+    }
+
     if (lotId) {
       // Check specific lot
       const lot = stockInfo.lots.find(l => l.lotId === lotId);
@@ -126,6 +190,67 @@ export async function checkStockAvailability(
   }
 }
 
+/**
+ * Active warehouses ordered by how well they serve a destination country:
+ * warehouses listing the country in regionsServed come first, then the rest,
+ * each group by priority
+ */
+export async function getWarehousesForRegion(country: string) {
+  const region = country.trim().toUpperCase();
+  const warehouses = await prisma.warehouse.findMany({
+    where: { isActive: true },
+    orderBy: [{ priority: 'asc' }, { code: 'asc' }],
+  });
+
+  return [
+    ...warehouses.filter(warehouse => warehouse.regionsServed.includes(region)),
+    ...warehouses.filter(warehouse => !warehouse.regionsServed.includes(region)),
+  ];
+}
+
+/**
+ * Minimum remaining shelf life a lot needs to ship to a destination country
+ */
+export async function getShelfLifeRequirement(country: string): Promise<ShelfLifeRequirement> {
+  const policy = await prisma.shelfLifePolicy.findUnique({ where: { region: country.trim().toUpperCase() } });
+  return shelfLifeRequirementFor(country, policy);
+}
+
+/**
+ * Order lots for reservation, first-expiry-first-out. Without a destination
+ * lots are taken purely by best-before date. With one, the closest warehouse
+ * that can cover the whole quantity is used on its own so the order ships
+ * from a single location; otherwise lots are drawn warehouse by warehouse in
+ * order of closeness, still FEFO within each warehouse.
+ */
+async function planReservation(
+  lots: LotStockInfo[],
+  quantity: number,
+  destinationCountry?: string
+): Promise<LotStockInfo[]> {
+  const byBestBefore = [...lots].sort((a, b) => a.bestBefore.getTime() - b.bestBefore.getTime());
+
+  if (!destinationCountry) {
+    return byBestBefore;
+  }
+
+  const warehouses = await getWarehousesForRegion(destinationCountry);
+  const rank = new Map<string | null, number>(warehouses.map((warehouse, index) => [warehouse.id, index]));
+  // Lots in inactive or unassigned warehouses are used last
+  const rankOf = (lot: LotStockInfo) => rank.get(lot.warehouseId) ?? warehouses.length;
+
+  for (const warehouse of warehouses) {
+    const warehouseLots = byBestBefore.filter(lot => lot.warehouseId === warehouse.id);
+    const available = warehouseLots.reduce((sum, lot) => sum + lot.qtyAvailable, 0);
+
+    if (available >= quantity) {
+      return warehouseLots;
+    }
+  }
+
+  return byBestBefore.sort((a, b) => rankOf(a) - rankOf(b));
+}
+
 /**
  * Reserve stock for an order
  */
@@ -133,54 +258,81 @@ export async function reserveStock(
   variantId: string,
   quantity: number,
   lotId?: string,
-  orderId?: string
-): Promise<{ success: boolean; reservedLots: Array<{ lotId: string; quantity: number }>; message?: string }> {
+  orderId?: string,
+  destinationCountry?: string,
+  ttlMinutes: number = RESERVATION_TTL_MINUTES
+): Promise<{ success: boolean; reservedLots: ReservedLot[]; expiresAt?: Date; message?: string }> {
   try {
     const stockInfo = await getStockInfo(variantId);
-    const reservedLots: Array<{ lotId: string; quantity: number }> = [];
+    const reservedLots: ReservedLot[] = [];
     let remainingQty = quantity;
+    const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+    const requirement = destinationCountry ? await getShelfLifeRequirement(destinationCountry) : undefined;
+    const now = new Date();
+    const availableLots = stockInfo.lots.filter(lot =>
+      lot.status === 'ACTIVE' && lot.qtyAvailable > 0 && hasRequiredShelfLife(lot, requirement, now)
+    );
+
+    // Guarded so a concurrent reservation cannot take a lot below zero. The
+    // Reservation row is written in the same transaction so every reserved
+    // unit can be released again, even if the caller never does.
+    const reserveFromLot = async (lot: LotStockInfo, reserveQty: number): Promise<string | null> => {
+      return prisma.$transaction(async (tx) => {
+        const { count } = await tx.lot.updateMany({
+          where: { id: lot.lotId, qtyAvailable: { gte: reserveQty } },
+          data: {
+            qtyAvailable: { decrement: reserveQty },
+            qtyReserved: { increment: reserveQty },
+          },
+        });
 
-    // Sort lots by best before date (FIFO)
-    const sortedLots = stockInfo.lots
-      .filter(lot => lot.status === 'ACTIVE' && lot.qtyAvailable > 0)
-      .sort((a, b) => a.bestBefore.getTime() - b.bestBefore.getTime());
+        if (count === 0) {
+          return null;
+        }
+
+        const reservation = await tx.reservation.create({
+          data: {
+            variantId,
+            lotId: lot.lotId,
+            warehouseId: lot.warehouseId,
+            orderId,
+            quantity: reserveQty,
+            expiresAt,
+          },
+        });
+
+        return reservation.id;
+      });
+    };
 
     if (lotId) {
       // Reserve from specific lot
-      const lot = sortedLots.find(l => l.lotId === lotId);
+      const lot = availableLots.find(l => l.lotId === lotId);
       if (!lot) {
-        return { success: false, reservedLots: [], message: 'Lot not found or not available' };
+        return { success: false, reservedLots: [], message: 'Lot not found, not available or too close to expiry' };
       }
 
       const reserveQty = Math.min(remainingQty, lot.qtyAvailable);
-      
-      await prisma.lot.update({
-        where: { id: lotId },
-        data: {
-          qtyAvailable: lot.qtyAvailable - reserveQty,
-          qtyReserved: lot.qtyReserved + reserveQty,
-        },
-      });
+      const reservationId = await reserveFromLot(lot, reserveQty);
 
-      reservedLots.push({ lotId, quantity: reserveQty });
-      remainingQty -= reserveQty;
+      if (reservationId) {
+        reservedLots.push({ lotId, quantity: reserveQty, warehouseId: lot.warehouseId, reservationId });
+        remainingQty -= reserveQty;
+      }
     } else {
-      // Reserve from multiple lots (FIFO)
-      for (const lot of sortedLots) {
+      const plannedLots = await planReservation(availableLots, quantity, destinationCountry);
+
+      for (const lot of plannedLots) {
         if (remainingQty <= 0) break;
 
         const reserveQty = Math.min(remainingQty, lot.qtyAvailable);
-        
-        await prisma.lot.update({
-          where: { id: lot.lotId },
-          data: {
-            qtyAvailable: lot.qtyAvailable - reserveQty,
-            qtyReserved: lot.qtyReserved + reserveQty,
-          },
-        });
+        const reservationId = await reserveFromLot(lot, reserveQty);
 
-        reservedLots.push({ lotId: lot.lotId, quantity: reserveQty });
-        remainingQty -= reserveQty;
+        if (reservationId) {
+          reservedLots.push({ lotId: lot.lotId, quantity: reserveQty, warehouseId: lot.warehouseId, reservationId });
+          remainingQty -= reserveQty;
+        }
       }
     }
 
@@ -188,22 +340,29 @@ export async function reserveStock(
       return { 
         success: false, 
         reservedLots, 
+        expiresAt,
         message: `Could not reserve full quantity. Remaining: ${remainingQty}` 
       };
     }
 
-    // Log the reservation
-    await logInventoryChange({
-      variantId,
-      lotId: lotId || reservedLots[0]?.lotId,
-      changeType: 'OUT',
-      refType: 'ORDER',
-      quantity,
-      reason: `Reserved for order ${orderId || 'pending'}`,
-      metadata: { orderId, reservedLots },
-    });
+    // Log the reservation, one entry per warehouse the stock was taken from
+    const warehouseIds = Array.from(new Set(reservedLots.map(lot => lot.warehouseId ?? null)));
+    for (const warehouseId of warehouseIds) {
+      const warehouseLots = reservedLots.filter(lot => (lot.warehouseId ?? null) === warehouseId);
+
+      await logInventoryChange({
+        variantId,
+        lotId: lotId || warehouseLots[0]?.lotId,
+        changeType: 'OUT',
+        refType: 'ORDER',
+        quantity: warehouseLots.reduce((sum, lot) => sum + lot.quantity, 0),
+        reason: `Reserved for order ${orderId || 'pending'}`,
+        warehouseId,
+        metadata: { orderId, destinationCountry, expiresAt, reservedLots: warehouseLots },
+      });
+    }
 
-    return { success: true, reservedLots };
+    return { success: true, reservedLots, expiresAt };
   } catch (error) {
     console.error('Error reserving stock:', error);
     return { success: false, reservedLots: [], message: 'Error reserving stock' };
@@ -211,32 +370,168 @@ export async function reserveStock(
 }
 
 /**
- * Release reserved stock
+ * Move available stock of a lot to another warehouse. The destination gets a
+ * lot with the same batch code, and the ledger records a TRANSFER leg for each
+ * warehouse (negative out of the source, positive into the destination)
+ * sharing one transferId.
+ */
+export async function transferStock(
+  lotId: string,
+  toWarehouseId: string,
+  quantity: number,
+  reason: string = 'Inter-warehouse transfer',
+  metadata?: any
+): Promise<{ success: boolean; transferId?: string; destinationLotId?: string; message?: string }> {
+  try {
+    const lot = await prisma.lot.findUnique({ where: { id: lotId } });
+
+    if (!lot) {
+      return { success: false, message: 'Lot not found' };
+    }
+
+    if (lot.warehouseId === toWarehouseId) {
+      return { success: false, message: 'Lot is already in the destination warehouse' };
+    }
+
+    if (quantity <= 0 || lot.qtyAvailable < quantity) {
+      return { success: false, message: `Insufficient stock in lot ${lot.batchCode}. Available: ${lot.qtyAvailable}` };
+    }
+
+    const destination = await prisma.warehouse.findUnique({ where: { id: toWarehouseId } });
+    if (!destination || !destination.isActive) {
+      return { success: false, message: 'Destination warehouse not found or inactive' };
+    }
+
+    const transferId = randomUUID();
+
+    const destinationLot = await prisma.$transaction(async tx => {
+      // Guarded decrement so a concurrent reservation cannot take the source negative
+      const { count } = await tx.lot.updateMany({
+        where: { id: lotId, qtyAvailable: { gte: quantity } },
+        data: { qtyAvailable: { decrement: quantity } },
+      });
+
+      if (count === 0) {
+        throw new Error(`Insufficient stock in lot ${lot.batchCode}`);
+      }
+
+      const existing = await tx.lot.findFirst({
+        where: { batchCode: lot.batchCode, warehouseId: toWarehouseId },
+      });
+
+      const target = existing
+        ? await tx.lot.update({
+            where: { id: existing.id },
+            data: { qtyAvailable: { increment: quantity } },
+          })
+        : await tx.lot.create({
+            data: {
+              variantId: lot.variantId,
+              batchCode: lot.batchCode,
+              originEstate: lot.originEstate,
+              harvestedOn: lot.harvestedOn,
+              bestBefore: lot.bestBefore,
+              qcNotes: lot.qcNotes,
+              status: lot.status,
+              qtyAvailable: quantity,
+              warehouseId: toWarehouseId,
+            },
+          });
+
+      const legMetadata = { ...metadata, fromWarehouseId: lot.warehouseId, toWarehouseId };
+
+      await tx.inventoryLedger.createMany({
+        data: [
+          {
+            variantId: lot.variantId,
+            lotId: lot.id,
+            changeType: 'TRANSFER',
+            refType: 'TRANSFER',
+            quantity: -quantity,
+            reason,
+            warehouseId: lot.warehouseId,
+            transferId,
+            metadata: legMetadata,
+          },
+          {
+            variantId: lot.variantId,
+            lotId: target.id,
+            changeType: 'TRANSFER',
+            refType: 'TRANSFER',
+            quantity,
+            reason,
+            warehouseId: toWarehouseId,
+            transferId,
+            metadata: legMetadata,
+          },
+        ],
+      });
+
+      return target;
+    });
+
+    return { success: true, transferId, destinationLotId: destinationLot.id };
+  } catch (error) {
+    console.error('Error transferring stock:', error);
+    return { success: false, message: 'Error transferring stock' };
+  }
+}
+
+/**
+ * Release reserved stock. Lots carrying a reservationId are only released
+ * while that reservation is still active, so a hold the sweep already
+ * expired is never returned to stock twice.
  */
 export async function releaseStock(
   variantId: string,
-  reservedLots: Array<{ lotId: string; quantity: number }>,
+  reservedLots: Array<{ lotId: string; quantity: number; reservationId?: string }>,
   orderId?: string
 ): Promise<{ success: boolean; message?: string }> {
   try {
-    for (const { lotId, quantity } of reservedLots) {
-      await prisma.lot.update({
-        where: { id: lotId },
-        data: {
-          qtyReserved: { decrement: quantity },
-          qtyAvailable: { increment: quantity },
-        },
+    const releasedLots: Array<{ lotId: string; quantity: number; reservationId?: string }> = [];
+
+    for (const reservedLot of reservedLots) {
+      const released = await prisma.$transaction(async (tx) => {
+        if (reservedLot.reservationId) {
+          const { count } = await tx.reservation.updateMany({
+            where: { id: reservedLot.reservationId, status: 'ACTIVE' },
+            data: { status: 'RELEASED', releasedAt: new Date() },
+          });
+
+          if (count === 0) {
+            return false;
+          }
+        }
+
+        await tx.lot.update({
+          where: { id: reservedLot.lotId },
+          data: {
+            qtyReserved: { decrement: reservedLot.quantity },
+            qtyAvailable: { increment: reservedLot.quantity },
+          },
+        });
+
+        return true;
       });
+
+      if (released) {
+        releasedLots.push(reservedLot);
+      }
+    }
+
+    if (releasedLots.length === 0) {
+      return { success: true, message: 'Nothing left to release' };
     }
 
     // Log the release
     await logInventoryChange({
       variantId,
+      lotId: releasedLots[0].lotId,
       changeType: 'IN',
       refType: 'ORDER',
-      quantity: reservedLots.reduce((sum, lot) => sum + lot.quantity, 0),
+      quantity: releasedLots.reduce((sum, lot) => sum + lot.quantity, 0),
       reason: `Released from order ${orderId || 'cancelled'}`,
-      metadata: { orderId, releasedLots: reservedLots },
+      metadata: { orderId, releasedLots },
     });
 
     return { success: true };
@@ -251,17 +546,37 @@ export async function releaseStock(
  */
 export async function confirmStockAllocation(
   variantId: string,
-  allocatedLots: Array<{ lotId: string; quantity: number }>,
+  allocatedLots: Array<{ lotId: string; quantity: number; reservationId?: string }>,
   orderId: string
 ): Promise<{ success: boolean; message?: string }> {
   try {
-    for (const { lotId, quantity } of allocatedLots) {
-      await prisma.lot.update({
-        where: { id: lotId },
-        data: {
-          qtyReserved: { decrement: quantity },
-        },
+    for (const allocatedLot of allocatedLots) {
+      const confirmed = await prisma.$transaction(async (tx) => {
+        if (allocatedLot.reservationId) {
+          const { count } = await tx.reservation.updateMany({
+            where: { id: allocatedLot.reservationId, status: 'ACTIVE' },
+            data: { status: 'CONFIRMED', confirmedAt: new Date() },
+          });
+
+          if (count === 0) {
+            return false;
+          }
+        }
+
+        await tx.lot.update({
+          where: { id: allocatedLot.lotId },
+          data: {
+            qtyReserved: { decrement: allocatedLot.quantity },
+          },
+        });
+
+        return true;
       });
+
+      if (!confirmed) {
+        // The hold lapsed before payment completed; the stock is no longer held for this order
+        return { success: false, message: `Reservation ${allocatedLot.reservationId} is no longer active` };
+      }
     }
 
     // Log the allocation
@@ -423,6 +738,7 @@ async function logInventoryChange(change: InventoryChange): Promise<void> {
         quantity: change.quantity,
         reason: change.reason,
         warehouseId: change.warehouseId,
+        transferId: change.transferId,
         metadata: change.metadata,
       },
     });
@@ -450,6 +766,12 @@ export async function getInventoryHistory(
             originEstate: true,
           },
         },
+        warehouse: {
+          select: {
+            code: true,
+            name: true,
+          },
+        },
       },
     });
 
@@ -23,7 +23,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       const orders = await prisma.order.findMany({
         where: {
           createdAt: { gte: startDate },
-          status: { in: ['CONFIRMED', 'PROCESSING', 'SHIPPED', 'DELIVERED'] }
+          status: { in: ['CONFIRMED', 'PROCESSING', 'PARTIALLY_SHIPPED', 'SHIPPED', 'PARTIALLY_DELIVERED', 'DELIVERED'] }
         },
         include: {
           payments: true
@@ -39,7 +39,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       const estimatedCOGS = totalRevenue * 0.6; // 60% COGS
       const profitMargin = totalRevenue > 0 ? ((totalRevenue - estimatedCOGS) / totalRevenue * 100) : 0;
       const refunds = totalRevenue * 0.02; // 2% refund rate
-      const taxes = totalRevenue * 0.18; // 18% GST
+      const taxes = orders.reduce((sum, order) => sum + Number(order.taxAmount), 0);
       const netRevenue = totalRevenue - refunds;
 
       // Generate revenue data for chart
@@ -0,0 +1,147 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../../auth/[...nextauth]';
+import { PrismaClient } from '@prisma/client';
+import { ReconciliationFiltersSchema, ReconciliationResolveSchema } from '../../../../lib/admin/schemas';
+import { ReconciliationReport } from '../../../../lib/admin/types';
+
+const prisma = new PrismaClient();
+
+// Matches the API's PAYMENT_RECONCILIATION_STALE_MINUTES default
+const STALE_AFTER_MINUTES = 30;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const session = await getServerSession(req, res, authOptions);
+
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+
+    if (req.method === 'GET') {
+      const parsed = ReconciliationFiltersSchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid filters', errors: parsed.error.flatten() });
+      }
+
+      const { provider, type, status, page, limit } = parsed.data;
+      const where: any = {
+        ...(provider && { provider }),
+        ...(type && { type }),
+        ...(status === 'open' && { resolvedAt: null }),
+        ...(status === 'resolved' && { resolvedAt: { not: null } }),
+      };
+
+      const [issues, total, openByType, stalePayments, lastReconciled, settlementReports] = await Promise.all([
+        prisma.reconciliationIssue.findMany({
+          where,
+          include: {
+            payment: { include: { order: { select: { orderNumber: true } } } },
+            settlementLine: { select: { providerPaymentId: true, reportId: true } },
+          },
+          orderBy: { createdAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.reconciliationIssue.count({ where }),
+        prisma.reconciliationIssue.groupBy({
+          by: ['type'],
+          where: { resolvedAt: null },
+          _count: { _all: true },
+        }),
+        prisma.payment.count({
+          where: {
+            status: { in: ['PENDING', 'PROCESSING'] },
+            createdAt: { lt: new Date(Date.now() - STALE_AFTER_MINUTES * 60 * 1000) },
+          },
+        }),
+        prisma.payment.aggregate({ _max: { lastReconciledAt: true } }),
+        prisma.settlementReport.findMany({
+          orderBy: { createdAt: 'desc' },
+          take: 10,
+        }),
+      ]);
+
+      const byType = Object.fromEntries(openByType.map(group => [group.type, group._count._all]));
+
+      const report: ReconciliationReport = {
+        summary: {
+          openIssues: Object.values(byType).reduce((sum, count) => sum + count, 0),
+          byType,
+          stalePayments,
+          lastReconciledAt: lastReconciled._max.lastReconciledAt?.toISOString() ?? null,
+        },
+        issues: issues.map(issue => ({
+          id: issue.id,
+          provider: issue.provider,
+          source: issue.source,
+          type: issue.type,
+          expected: issue.expected,
+          actual: issue.actual,
+          paymentId: issue.paymentId,
+          providerPaymentId: issue.payment?.providerId ?? issue.settlementLine?.providerPaymentId ?? null,
+          orderNumber: issue.payment?.order.orderNumber ?? null,
+          settlementReportId: issue.settlementLine?.reportId ?? null,
+          resolvedAt: issue.resolvedAt?.toISOString() ?? null,
+          resolution: issue.resolution,
+          createdAt: issue.createdAt.toISOString(),
+        })),
+        settlementReports: settlementReports.map(report => ({
+          id: report.id,
+          provider: report.provider,
+          fileName: report.fileName,
+          lineCount: report.lineCount,
+          matchedCount: report.matchedCount,
+          mismatchCount: report.mismatchCount,
+          createdAt: report.createdAt.toISOString(),
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      };
+
+      return res.status(200).json(report);
+    }
+
+    if (req.method === 'PATCH') {
+      const parsed = ReconciliationResolveSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid resolution', errors: parsed.error.flatten() });
+      }
+
+      const { issueId, resolution } = parsed.data;
+      const { count } = await prisma.reconciliationIssue.updateMany({
+        where: { id: issueId, resolvedAt: null },
+        data: { resolvedAt: new Date(), resolvedBy: session.user.id, resolution },
+      });
+
+      if (count === 0) {
+        return res.status(404).json({ message: 'Open issue not found' });
+      }
+
+      await prisma.auditLog.create({
+        data: {
+          userId: session.user.id,
+          entity: 'ReconciliationIssue',
+          entityId: issueId,
+          action: 'RESOLVE',
+          metadata: { resolution }
+        }
+      });
+
+      return res.status(200).json({ success: true });
+    }
+
+    res.status(405).json({ message: 'Method not allowed' });
+  } catch (error) {
+    console.error('Error handling reconciliation request:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
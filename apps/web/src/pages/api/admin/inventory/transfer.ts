@@ -0,0 +1,54 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../../auth/[...nextauth]';
+import { PrismaClient } from '@prisma/client';
+import { StockTransferSchema } from '../../../../lib/admin/schemas';
+import { transferStock } from '../../../../lib/inventory';
+
+const prisma = new PrismaClient();
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    const session = await getServerSession(req, res, authOptions);
+
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+
+    const parsed = StockTransferSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid transfer', errors: parsed.error.flatten() });
+    }
+
+    const { lotId, toWarehouseId, quantity, reason } = parsed.data;
+    const result = await transferStock(lotId, toWarehouseId, quantity, reason, {
+      requestedBy: session.user.id,
+    });
+
+    if (!result.success) {
+      return res.status(409).json({ message: result.message });
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        entity: 'Lot',
+        entityId: lotId,
+        action: 'TRANSFER',
+        metadata: { toWarehouseId, quantity, transferId: result.transferId }
+      }
+    });
+
+    res.status(200).json(result);
+  } catch (error) {
+    console.error('Error transferring stock:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
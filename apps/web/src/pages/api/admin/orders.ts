@@ -65,7 +65,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             }
           },
           shippingAddress: true,
-          billingAddress: true
+          billingAddress: true,
+          statusHistory: {
+            orderBy: { createdAt: 'asc' }
+          }
         },
         orderBy: { createdAt: 'desc' },
         skip: (Number(page) - 1) * Number(limit),
@@ -0,0 +1,75 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../auth/[...nextauth]';
+import { PrismaClient } from '@prisma/client';
+import { WarehouseSchema } from '../../../lib/admin/schemas';
+
+const prisma = new PrismaClient();
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getServerSession(req, res, authOptions);
+
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const warehouses = await prisma.warehouse.findMany({
+        orderBy: [{ priority: 'asc' }, { code: 'asc' }],
+      });
+
+      // Stock held in each warehouse across all active lots
+      const stock = await prisma.lot.groupBy({
+        by: ['warehouseId'],
+        where: { status: 'ACTIVE' },
+        _sum: { qtyAvailable: true, qtyReserved: true },
+      });
+
+      res.status(200).json({
+        warehouses: warehouses.map(warehouse => {
+          const totals = stock.find(entry => entry.warehouseId === warehouse.id);
+          return {
+            ...warehouse,
+            availableStock: totals?._sum.qtyAvailable || 0,
+            reservedStock: totals?._sum.qtyReserved || 0,
+          };
+        }),
+        unassignedStock: stock.find(entry => entry.warehouseId === null)?._sum.qtyAvailable || 0,
+      });
+    } else if (req.method === 'POST') {
+      const parsed = WarehouseSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid warehouse', errors: parsed.error.flatten() });
+      }
+
+      const warehouse = await prisma.warehouse.create({
+        data: {
+          ...parsed.data,
+          country: parsed.data.country.toUpperCase(),
+          regionsServed: parsed.data.regionsServed.map(region => region.toUpperCase()),
+        },
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          userId: session.user.id,
+          entity: 'Warehouse',
+          entityId: warehouse.id,
+          action: 'CREATE',
+          metadata: { code: warehouse.code, regionsServed: warehouse.regionsServed }
+        }
+      });
+
+      res.status(201).json({ warehouse });
+    } else {
+      res.status(405).json({ message: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Error handling warehouses request:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -27,7 +27,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const validationResults = [];
 
     for (const item of items) {
-      const { variantId, quantity, lotId } = item;
+      const { variantId, quantity, lotId, warehouseId } = item;
 
       if (!variantId || !quantity) {
         validationResults.push({
@@ -41,12 +41,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       const stockCheck = await checkStockAvailability(
         variantId,
         quantity,
-        lotId
+        lotId,
+        warehouseId
       );
 
       validationResults.push({
         variantId,
         lotId,
+        warehouseId,
         quantity,
         valid: stockCheck.available,
         availableQty: stockCheck.availableQty,
@@ -35,6 +35,25 @@ export default function SignIn() {
     resolver: zodResolver(otpSchema),
   });
 
+  // Fold any cart built while signed out into the account cart
+  const mergeGuestCart = async () => {
+    try {
+      const response = await fetch('/api/v1/cart/merge', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        },
+      });
+      const data = await response.json();
+
+      if (data.success && data.data.conflicts.length > 0) {
+        toast('Some cart items were adjusted to match available stock');
+      }
+    } catch (error) {
+      console.error('Failed to merge guest cart:', error);
+    }
+  };
+
   const onSignIn = async (data: SignInForm) => {
     setIsLoading(true);
     try {
@@ -47,6 +66,7 @@ export default function SignIn() {
       if (result?.error) {
         toast.error('Invalid credentials');
       } else {
+        await mergeGuestCart();
         toast.success('Signed in successfully');
         router.push('/dashboard');
       }
@@ -91,6 +111,7 @@ export default function SignIn() {
       if (result?.error) {
         toast.error('Invalid OTP');
       } else {
+        await mergeGuestCart();
         toast.success('Signed in successfully');
         router.push('/dashboard');
       }
@@ -3,9 +3,12 @@ import { logger } from './utils/logger';
 import { emailQueue } from './queues/emailQueue';
 import { imageProcessingQueue } from './queues/imageProcessingQueue';
 import { cleanupQueue } from './queues/cleanupQueue';
+import { inventoryQueue } from './queues/inventoryQueue';
+import { releaseExpiredReservations } from './jobs/releaseExpiredReservations';
+import { pool } from './utils/database';
 
 // Initialize queues
-const queues = [emailQueue, imageProcessingQueue, cleanupQueue];
+const queues = [emailQueue, imageProcessingQueue, cleanupQueue, inventoryQueue];
 
 // Process email jobs
 emailQueue.process('send-welcome-email', async (job) => {
@@ -28,6 +31,39 @@ emailQueue.process('send-order-confirmation', async (job) => {
   logger.info('Order confirmation email sent successfully', { email, orderId });
 });
 
+// Enqueued by the API's order state machine on customer-facing status changes
+emailQueue.process('send-order-status-update', async (job) => {
+  const { email, orderId, orderNumber, status } = job.data;
+  logger.info('Processing order status email', { email, orderId, orderNumber, status });
+  
+  // Simulate email sending
+  await new Promise(resolve => setTimeout(resolve, 1000));
+  
+  logger.info('Order status email sent successfully', { email, orderId, status });
+});
+
+// Enqueued by the API when a B2B organization invites a member
+emailQueue.process('send-organization-invitation', async (job) => {
+  const { email, organizationName, role } = job.data;
+  logger.info('Processing organization invitation email', { email, organizationName, role });
+  
+  // Simulate email sending
+  await new Promise(resolve => setTimeout(resolve, 1000));
+  
+  logger.info('Organization invitation email sent successfully', { email, organizationName });
+});
+
+// Enqueued by the API when an order is over its organization's approval threshold
+emailQueue.process('send-order-approval-request', async (job) => {
+  const { emails, orderId, orderNumber } = job.data;
+  logger.info('Processing order approval request email', { recipients: emails.length, orderId, orderNumber });
+  
+  // Simulate email sending
+  await new Promise(resolve => setTimeout(resolve, 1000));
+  
+  logger.info('Order approval request email sent successfully', { orderId, orderNumber });
+});
+
 // Process image processing jobs
 imageProcessingQueue.process('resize-image', async (job) => {
   const { imageUrl, sizes } = job.data;
@@ -68,6 +104,11 @@ cleanupQueue.process('cleanup-temp-files', async (job) => {
   logger.info('Temp files cleaned up successfully');
 });
 
+// Process inventory jobs
+inventoryQueue.process('release-expired-reservations', async () => {
+  return releaseExpiredReservations();
+});
+
 // Queue event handlers
 queues.forEach(queue => {
   queue.on('completed', (job) => {
@@ -101,6 +142,7 @@ process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully');
   
   await Promise.all(queues.map(queue => queue.close()));
+  await pool.end();
   
   process.exit(0);
 });
@@ -109,6 +151,7 @@ process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully');
   
   await Promise.all(queues.map(queue => queue.close()));
+  await pool.end();
   
   process.exit(0);
 });
@@ -0,0 +1,108 @@
+import { randomUUID } from 'crypto';
+import { pool } from '../utils/database';
+import { logger } from '../utils/logger';
+
+const BATCH_SIZE = parseInt(process.env.RESERVATION_SWEEP_BATCH_SIZE || '200', 10);
+
+interface ExpiredReservation {
+  id: string;
+  variantId: string;
+  lotId: string;
+  warehouseId: string | null;
+  orderId: string | null;
+  paymentId: string | null;
+  quantity: number;
+  expiresAt: Date;
+}
+
+/**
+ * Return one batch of lapsed reservations to available stock. Each batch is
+ * a single transaction: the reservations are marked EXPIRED, their lots are
+ * credited back and a ledger entry is written per reservation, or nothing
+ * happens at all. SKIP LOCKED lets concurrent sweeps work on different rows.
+ */
+async function releaseBatch(): Promise<number> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const { rows } = await client.query<ExpiredReservation>(
+      `UPDATE "Reservation"
+          SET "status" = 'EXPIRED', "releasedAt" = NOW(), "updatedAt" = NOW()
+        WHERE "id" IN (
+          SELECT "id" FROM "Reservation"
+           WHERE "status" = 'ACTIVE' AND "expiresAt" <= NOW()
+           ORDER BY "expiresAt"
+           LIMIT $1
+           FOR UPDATE SKIP LOCKED
+        )
+        RETURNING "id", "variantId", "lotId", "warehouseId", "orderId", "paymentId", "quantity", "expiresAt"`,
+      [BATCH_SIZE]
+    );
+
+    for (const reservation of rows) {
+      await client.query(
+        `UPDATE "Lot"
+            SET "qtyReserved" = GREATEST("qtyReserved" - $2, 0),
+                "qtyAvailable" = "qtyAvailable" + $2,
+                "updatedAt" = NOW()
+          WHERE "id" = $1`,
+        [reservation.lotId, reservation.quantity]
+      );
+
+      await client.query(
+        `INSERT INTO "InventoryLedger"
+           ("id", "variantId", "lotId", "changeType", "refType", "quantity", "reason", "warehouseId", "metadata", "createdAt")
+         VALUES ($1, $2, $3, 'IN', 'SYSTEM', $4, $5, $6, $7, NOW())`,
+        [
+          randomUUID(),
+          reservation.variantId,
+          reservation.lotId,
+          reservation.quantity,
+          `Reservation expired${reservation.orderId ? ` for order ${reservation.orderId}` : ''}`,
+          reservation.warehouseId,
+          JSON.stringify({
+            action: 'RESERVATION_EXPIRED',
+            reservationId: reservation.id,
+            orderId: reservation.orderId,
+            paymentId: reservation.paymentId,
+            expiresAt: reservation.expiresAt,
+          }),
+        ]
+      );
+    }
+
+    await client.query('COMMIT');
+    return rows.length;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Release every reservation whose hold has lapsed, e.g. abandoned checkouts
+ * and payments that never completed. The API cancels the orders left without
+ * stock through its order state machine once their payments have settled.
+ */
+export async function releaseExpiredReservations(): Promise<{ releasedCount: number }> {
+  let releasedCount = 0;
+
+  for (;;) {
+    const released = await releaseBatch();
+    releasedCount += released;
+
+    if (released < BATCH_SIZE) {
+      break;
+    }
+  }
+
+  if (releasedCount > 0) {
+    logger.info('Expired reservations released', { releasedCount });
+  }
+
+  return { releasedCount };
+}
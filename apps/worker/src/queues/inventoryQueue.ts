@@ -0,0 +1,39 @@
+import Bull from 'bull';
+import { logger } from '../utils/logger';
+
+const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+
+export const inventoryQueue = new Bull('inventory', redisUrl, {
+  defaultJobOptions: {
+    removeOnComplete: 10,
+    removeOnFail: 5,
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 5000,
+    },
+  },
+});
+
+// Add jobs to queue
+export const addReservationSweepJob = () => {
+  return inventoryQueue.add('release-expired-reservations', {}, {
+    priority: 1,
+    delay: 0,
+  });
+};
+
+// Schedule recurring inventory jobs
+inventoryQueue.add('release-expired-reservations', {}, {
+  repeat: { cron: '* * * * *' }, // Every minute
+  jobId: 'reservation-sweep',
+});
+
+// Queue monitoring
+inventoryQueue.on('failed', (job, err) => {
+  logger.error('Inventory job failed', {
+    jobId: job.id,
+    jobName: job.name,
+    error: err.message,
+  });
+});
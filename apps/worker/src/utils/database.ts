@@ -0,0 +1,11 @@
+import { Pool } from 'pg';
+import { logger } from './logger';
+
+export const pool = new Pool({
+  connectionString: process.env.DATABASE_URL,
+  max: parseInt(process.env.WORKER_DB_POOL_SIZE || '5', 10),
+});
+
+pool.on('error', (err) => {
+  logger.error('Unexpected database pool error', { error: err.message });
+});
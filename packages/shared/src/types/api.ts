@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { PriceSource } from './pricing';
+import { AppliedPromotion, FreeSampleItem, PromotionLineDiscount } from './promotion';
 
 // Base API Response Types
 export interface ApiResponse<T = any> {
@@ -109,7 +111,16 @@ export interface CartItem {
   variantId?: string;
   quantity: number;
   price: number;
+  listPrice?: number;
+  priceSource?: PriceSource;
+  // Promotion discounts on the line, already included in the cart's promotionDiscount
+  promotionDiscount?: number;
+  promotions?: PromotionLineDiscount[];
   addedAt: string;
+  name?: string;
+  weightInGrams?: number;
+  availableQuantity?: number;
+  inStock?: boolean;
 }
 
 export interface Cart {
@@ -117,6 +128,11 @@ export interface Cart {
   userId: string;
   items: CartItem[];
   subtotal: number;
+  promotionDiscount?: number;
+  promotions?: AppliedPromotion[];
+  freeItems?: FreeSampleItem[];
+  discount?: number;
+  couponCode?: string;
   tax: number;
   shipping: number;
   total: number;
@@ -125,6 +141,21 @@ export interface Cart {
   updatedAt: string;
 }
 
+export type CartMergeConflictReason = 'MAX_ORDER_QTY' | 'INSUFFICIENT_STOCK' | 'UNAVAILABLE';
+
+export interface CartMergeConflict {
+  productId: string;
+  variantId: string;
+  reason: CartMergeConflictReason;
+  requestedQuantity: number;
+  mergedQuantity: number;
+}
+
+export interface CartMergeResult {
+  cart: Cart;
+  conflicts: CartMergeConflict[];
+}
+
 // Order Types
 export interface Order {
   id: string;
@@ -161,7 +192,7 @@ export interface OrderItem {
   productSnapshot: Partial<Product>;
 }
 
-export type OrderStatus = 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'refunded';
+export type OrderStatus = 'pending' | 'confirmed' | 'processing' | 'partially_shipped' | 'shipped' | 'partially_delivered' | 'delivered' | 'cancelled' | 'refunded';
 export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'refunded' | 'partially_refunded';
 
 export interface Address {
@@ -220,7 +251,7 @@ export interface SearchFilters {
   inStock?: boolean;
   certification?: string;
   tags?: string[];
-  sortBy?: 'name' | 'price' | 'createdAt' | 'popularity';
+  sortBy?: 'relevance' | 'name' | 'price' | 'createdAt' | 'popularity';
   order?: 'asc' | 'desc';
 }
 
@@ -228,10 +259,13 @@ export interface SearchResult {
   products: Product[];
   suggestions: string[];
   didYouMean?: string[];
+  total?: number;
   filters: {
     categories: Array<{ name: string; count: number }>;
     priceRange: { min: number; max: number };
     certifications: Array<{ name: string; count: number }>;
+    weights?: Array<{ value: number; count: number }>;
+    priceBuckets?: Array<{ min: number; max: number; count: number }>;
   };
 }
 
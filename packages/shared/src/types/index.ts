@@ -2,6 +2,12 @@
 export * from './api';
 export * from './payment';
 export * from './shipping';
+export * from './order';
+export * from './webhook';
+export * from './pricing';
+export * from './organization';
+export * from './promotion';
+export * from './inventory';
 
 // Legacy types for backward compatibility
 export interface LegacyProduct {
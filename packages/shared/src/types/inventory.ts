@@ -0,0 +1,60 @@
+// Lot shelf-life rules shared by checkout allocation, quote conversion and the web inventory tools
+
+export interface ShelfLifeRequirement {
+  region: string;
+  minRemainingPercent: number;
+  minRemainingDays: number;
+}
+
+// Used when a region has no ShelfLifePolicy row; GCC importers reject lots
+// with less than half of their shelf life left
+export const DEFAULT_MIN_SHELF_LIFE_PERCENT: Record<string, number> = {
+  AE: 50,
+  SA: 50,
+  QA: 50,
+  OM: 50,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Shelf life a lot needs to ship to a destination country, from its
+ * ShelfLifePolicy row when there is one
+ */
+export function getShelfLifeRequirement(
+  country: string,
+  policy?: { minRemainingPercent: number; minRemainingDays: number } | null
+): ShelfLifeRequirement {
+  const region = country.trim().toUpperCase();
+
+  return {
+    region,
+    minRemainingPercent: policy?.minRemainingPercent ?? DEFAULT_MIN_SHELF_LIFE_PERCENT[region] ?? 0,
+    minRemainingDays: policy?.minRemainingDays ?? 0,
+  };
+}
+
+/**
+ * Whether a lot is unexpired and has the required share and number of days
+ * of its harvest-to-best-before shelf life left
+ */
+export function hasRequiredShelfLife(
+  lot: { harvestedOn: Date; bestBefore: Date },
+  requirement?: Pick<ShelfLifeRequirement, 'minRemainingPercent' | 'minRemainingDays'>,
+  now: Date = new Date()
+): boolean {
+  const remainingMs = lot.bestBefore.getTime() - now.getTime();
+  if (remainingMs <= 0) {
+    return false;
+  }
+
+  if (!requirement) {
+    return true;
+  }
+
+  const totalMs = lot.bestBefore.getTime() - lot.harvestedOn.getTime();
+  const remainingPercent = totalMs > 0 ? (remainingMs / totalMs) * 100 : 0;
+
+  return remainingPercent >= requirement.minRemainingPercent &&
+    remainingMs >= requirement.minRemainingDays * DAY_MS;
+}
@@ -0,0 +1,199 @@
+import { ApiError } from './api';
+
+// Order status as stored in the database
+export type OrderStatusCode =
+  | 'PENDING'
+  | 'CONFIRMED'
+  | 'PROCESSING'
+  | 'PARTIALLY_SHIPPED'
+  | 'SHIPPED'
+  | 'PARTIALLY_DELIVERED'
+  | 'DELIVERED'
+  | 'CANCELLED'
+  | 'REFUNDED';
+
+// Who moved an order to a new status
+export type OrderActorType = 'CUSTOMER' | 'ADMIN' | 'SYSTEM' | 'WEBHOOK';
+
+// Work each app must do after a transition is committed
+export type OrderSideEffect = 'CONFIRM_STOCK' | 'RELEASE_STOCK' | 'NOTIFY_CUSTOMER';
+
+export interface OrderTransitionContext {
+  // The order has a completed payment (or is otherwise settled)
+  paid: boolean;
+  // The order's payment has been refunded in full
+  refunded: boolean;
+  // The customer pays the carrier on delivery, so fulfilment comes before payment
+  cashOnDelivery: boolean;
+  // A B2B account is invoiced on its payment terms, so fulfilment comes before payment
+  onAccount?: boolean;
+}
+
+// Fulfilment coverage of one order line across its shipments
+export interface FulfilmentLine {
+  quantity: number;
+  // Units in shipments the carrier has picked up
+  shippedQuantity: number;
+  deliveredQuantity: number;
+}
+
+export interface OrderStatusHistoryEntry {
+  id: string;
+  fromStatus: OrderStatusCode | null;
+  toStatus: OrderStatusCode;
+  actorType: OrderActorType;
+  actorId: string | null;
+  actorName?: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+// State machine: the only status changes an order can make
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatusCode, OrderStatusCode[]> = {
+  PENDING: ['CONFIRMED', 'CANCELLED'],
+  CONFIRMED: ['PROCESSING', 'CANCELLED', 'REFUNDED'],
+  // Fulfilment only moves forward, but carrier updates can skip steps
+  PROCESSING: ['PARTIALLY_SHIPPED', 'SHIPPED', 'PARTIALLY_DELIVERED', 'DELIVERED', 'CANCELLED'],
+  PARTIALLY_SHIPPED: ['SHIPPED', 'PARTIALLY_DELIVERED', 'DELIVERED'],
+  SHIPPED: ['PARTIALLY_DELIVERED', 'DELIVERED'],
+  PARTIALLY_DELIVERED: ['DELIVERED'],
+  DELIVERED: ['REFUNDED'],
+  CANCELLED: ['REFUNDED'],
+  REFUNDED: [],
+};
+
+// Statuses the customer is emailed about
+const NOTIFIED_STATUSES: OrderStatusCode[] = [
+  'CONFIRMED',
+  'PARTIALLY_SHIPPED',
+  'SHIPPED',
+  'PARTIALLY_DELIVERED',
+  'DELIVERED',
+  'CANCELLED',
+  'REFUNDED',
+];
+
+// Statuses that mean goods are being packed or have left the warehouse
+const FULFILMENT_STATUSES: OrderStatusCode[] = [
+  'PROCESSING',
+  'PARTIALLY_SHIPPED',
+  'SHIPPED',
+  'PARTIALLY_DELIVERED',
+  'DELIVERED',
+];
+
+// Error Types
+export class OrderTransitionError extends ApiError {
+  constructor(public from: OrderStatusCode, public to: OrderStatusCode, reason?: string) {
+    super(
+      409,
+      'INVALID_ORDER_TRANSITION',
+      reason || `Order cannot move from ${from.toLowerCase()} to ${to.toLowerCase()}`,
+      { from, to }
+    );
+  }
+}
+
+export function isOrderStatus(status: string): status is OrderStatusCode {
+  return status in ORDER_STATUS_TRANSITIONS;
+}
+
+/**
+ * Accepts the lowercase API spelling as well as the database enum
+ */
+export function normalizeOrderStatus(status: string): OrderStatusCode {
+  const normalized = status.trim().toUpperCase();
+  if (!isOrderStatus(normalized)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', `Unknown order status: ${status}`);
+  }
+  return normalized;
+}
+
+export function getAllowedTransitions(from: OrderStatusCode): OrderStatusCode[] {
+  return [...ORDER_STATUS_TRANSITIONS[from]];
+}
+
+/**
+ * Why a transition is not allowed, or null when it is. Checks the
+ * transition table first, then the guards that depend on the order's payment.
+ */
+export function checkOrderTransition(
+  from: OrderStatusCode,
+  to: OrderStatusCode,
+  context: OrderTransitionContext
+): string | null {
+  if (!ORDER_STATUS_TRANSITIONS[from].includes(to)) {
+    return `Order cannot move from ${from.toLowerCase()} to ${to.toLowerCase()}`;
+  }
+
+  if (FULFILMENT_STATUSES.includes(to) && !context.paid && !context.cashOnDelivery && !context.onAccount) {
+    return `Order cannot be ${to === 'PROCESSING' ? 'processed' : 'shipped'} before it is paid`;
+  }
+
+  if (to === 'REFUNDED' && !context.refunded) {
+    return 'Order can only be marked refunded once its payment has been refunded';
+  }
+
+  return null;
+}
+
+export function assertOrderTransition(
+  from: OrderStatusCode,
+  to: OrderStatusCode,
+  context: OrderTransitionContext
+): void {
+  const reason = checkOrderTransition(from, to, context);
+  if (reason) {
+    throw new OrderTransitionError(from, to, reason);
+  }
+}
+
+/**
+ * Order status implied by how much of each line has shipped and been
+ * delivered, or null while nothing has left the warehouse
+ */
+export function deriveFulfilmentStatus(lines: FulfilmentLine[]): OrderStatusCode | null {
+  if (lines.length === 0) {
+    return null;
+  }
+
+  if (lines.every(line => line.deliveredQuantity >= line.quantity)) {
+    return 'DELIVERED';
+  }
+
+  if (lines.some(line => line.deliveredQuantity > 0)) {
+    return 'PARTIALLY_DELIVERED';
+  }
+
+  if (lines.every(line => line.shippedQuantity >= line.quantity)) {
+    return 'SHIPPED';
+  }
+
+  if (lines.some(line => line.shippedQuantity > 0)) {
+    return 'PARTIALLY_SHIPPED';
+  }
+
+  return null;
+}
+
+/**
+ * Side effects of a committed transition. Confirming turns the stock held at
+ * checkout into an allocation; cancelling puts it back.
+ */
+export function getTransitionEffects(from: OrderStatusCode, to: OrderStatusCode): OrderSideEffect[] {
+  const effects: OrderSideEffect[] = [];
+
+  if (to === 'CONFIRMED') {
+    effects.push('CONFIRM_STOCK');
+  }
+
+  if (to === 'CANCELLED') {
+    effects.push('RELEASE_STOCK');
+  }
+
+  if (NOTIFIED_STATUSES.includes(to)) {
+    effects.push('NOTIFY_CUSTOMER');
+  }
+
+  return effects;
+}
@@ -0,0 +1,69 @@
+// B2B organization types
+
+export type OrganizationRole = 'OWNER' | 'BUYER' | 'APPROVER' | 'FINANCE_VIEWER';
+
+// What a role lets a member do; every member can see the organization's quotes, orders and addresses
+export type OrganizationAction = 'BUY' | 'APPROVE' | 'MANAGE';
+
+export type OrderApprovalStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export interface Organization {
+  id: string;
+  name: string;
+  applicationId?: string;
+  applicationStatus?: string;
+  // Orders above this amount wait for an approver; absent when none do
+  approvalThreshold?: number;
+  approvalCurrency: string;
+  memberCount: number;
+  // The signed-in member's role
+  role: OrganizationRole;
+  createdAt: string;
+}
+
+export interface OrganizationMember {
+  id: string;
+  userId: string;
+  name?: string;
+  email: string;
+  role: OrganizationRole;
+  joinedAt: string;
+}
+
+export interface OrganizationInvitation {
+  id: string;
+  email: string;
+  role: OrganizationRole;
+  invitedBy: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface OrderApproval {
+  id: string;
+  orderId: string;
+  orderNumber: string;
+  status: OrderApprovalStatus;
+  amount: number;
+  currency: string;
+  requestedBy: string;
+  requestedByName?: string;
+  decidedBy?: string;
+  decidedAt?: string;
+  reason?: string;
+  createdAt: string;
+}
+
+// An order in the organization's shared history, with who placed it
+export interface OrganizationOrder {
+  id: string;
+  orderNumber: string;
+  status: string;
+  total: number;
+  currency: string;
+  placedBy: string;
+  placedByName?: string;
+  quoteNumber?: string;
+  approvalStatus?: OrderApprovalStatus;
+  createdAt: string;
+}
@@ -3,7 +3,71 @@ import { z } from 'zod';
 // Payment Provider Types
 export type PaymentProvider = 'razorpay' | 'dibsy' | 'telr' | 'moyasar' | 'oman_net';
 export type PaymentStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'refunded';
-export type PaymentMethod = 'card' | 'upi' | 'netbanking' | 'wallet' | 'cod' | 'apple_pay' | 'google_pay';
+export type PaymentMethod = 'card' | 'upi' | 'netbanking' | 'wallet' | 'cod' | 'invoice' | 'apple_pay' | 'google_pay';
+
+// Why an order cannot be paid cash on delivery
+export type CodIneligibleReason = 'REGION' | 'ORDER_VALUE' | 'PINCODE' | 'RTO_HISTORY';
+
+export interface CodEligibility {
+  eligible: boolean;
+  fee: number;
+  currency: string;
+  reasons: CodIneligibleReason[];
+}
+
+// Payment terms of an approved B2B account; PREPAID accounts pay at checkout
+export type PaymentTerms = 'PREPAID' | 'NET_15' | 'NET_30' | 'NET_60';
+
+// Why an order cannot be billed to the buyer's account
+export type CreditIneligibleReason = 'NOT_B2B' | 'NO_TERMS' | 'CURRENCY' | 'CREDIT_HOLD' | 'CREDIT_LIMIT';
+
+export interface CreditEligibility {
+  eligible: boolean;
+  terms: PaymentTerms;
+  currency: string;
+  creditLimit: number;
+  outstanding: number;
+  available: number;
+  reasons: CreditIneligibleReason[];
+}
+
+// Days past the due date, as finance reports them
+export type AgeingBucket = 'CURRENT' | 'DAYS_1_30' | 'DAYS_31_60' | 'DAYS_61_90' | 'DAYS_90_PLUS';
+
+// An invoice billed on payment terms that is not yet fully paid
+export interface Receivable {
+  invoiceId: string;
+  invoiceNumber: string;
+  orderId: string;
+  orderNumber: string;
+  userId: string;
+  businessName?: string;
+  currency: string;
+  totalAmount: number;
+  amountPaid: number;
+  balance: number;
+  issuedAt: string;
+  dueDate: string;
+  daysOverdue: number;
+  bucket: AgeingBucket;
+}
+
+// Open balances per ageing bucket in one currency
+export interface ReceivablesAgeing {
+  currency: string;
+  buckets: Record<AgeingBucket, number>;
+  total: number;
+}
+
+export interface InvoicePaymentRecord {
+  id: string;
+  invoiceId: string;
+  amount: number;
+  method: string;
+  reference?: string;
+  receivedAt: string;
+  balance: number;
+}
 
 // Region Configuration
 export interface RegionConfig {
@@ -15,6 +79,25 @@ export interface RegionConfig {
   isActive: boolean;
 }
 
+// Gateway routing for a region and currency; lower priority numbers are tried first
+export interface PaymentRoutingRule {
+  region: string;
+  currency: string;
+  provider: PaymentProvider;
+  priority: number;
+  // Share of traffic among active rules with the same priority
+  weight: number;
+  isActive: boolean;
+}
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export interface PaymentProviderHealth {
+  provider: PaymentProvider;
+  state: CircuitState;
+  failures: number;
+}
+
 // Payment Request/Response Types
 export interface PaymentRequest {
   orderId: string;
@@ -74,6 +157,9 @@ export interface PaymentWebhook {
   provider: PaymentProvider;
   event: string;
   data: any;
+  // The payment the event is about, read from wherever the provider puts it
+  paymentId?: string;
+  status?: PaymentStatus;
   signature: string;
   timestamp: string;
   processed: boolean;
@@ -244,3 +330,8 @@ export const REGION_CONFIGS: Record<string, RegionConfig> = {
   },
 };
 
+// Orders are charged, taxed and invoiced in the currency of the region they ship to;
+// destinations outside the configured regions are charged in INR
+export function getRegionCurrency(country: string): string {
+  return REGION_CONFIGS[country.trim().toUpperCase()]?.currency || 'INR';
+}
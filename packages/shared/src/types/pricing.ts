@@ -0,0 +1,51 @@
+// B2B price list types
+
+// Where a line's unit price came from
+export type PriceSource = 'LIST' | 'TIER' | 'CONTRACT';
+
+export interface ResolvedPrice {
+  variantId: string;
+  quantity: number;
+  currency: string;
+  unitPrice: number;
+  listPrice: number;
+  source: PriceSource;
+  priceListId?: string;
+}
+
+// One step of a variant's volume ladder; maxWeightKg is absent on the last step
+export interface PriceTierBreak {
+  minWeightKg: number;
+  maxWeightKg?: number;
+  unitPrice: number;
+}
+
+// What a buyer pays for a variant: list price, their volume ladder and any contract price
+export interface VariantPriceSheet {
+  variantId: string;
+  weightInGrams: number;
+  currency: string;
+  listPrice: number;
+  tiers: PriceTierBreak[];
+  contractPrice?: number;
+  priceListId?: string;
+}
+
+export interface PriceListItem {
+  variantId: string;
+  unitPrice: number;
+}
+
+export interface PriceList {
+  id: string;
+  name: string;
+  currency: string;
+  validFrom: string;
+  validUntil?: string;
+  isActive: boolean;
+  notes?: string;
+  items: PriceListItem[];
+  accountIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
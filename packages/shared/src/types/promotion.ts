@@ -0,0 +1,101 @@
+// Promotion engine types
+
+export type PromotionActionType = 'BUY_X_GET_Y' | 'BUNDLE_PRICE' | 'TIERED_SPEND' | 'FREE_SAMPLE';
+
+// Stackable promotions combine; an exclusive one applies only when nothing else has, and then stops the rest
+export type PromotionStacking = 'STACKABLE' | 'EXCLUSIVE';
+
+// Every condition set must hold. Category, product, variant and weight pick the lines a promotion covers;
+// the rest decide whether the buyer gets it at all.
+export interface PromotionConditions {
+  categories?: string[];
+  productIds?: string[];
+  variantIds?: string[];
+  minWeightInGrams?: number;
+  maxWeightInGrams?: number;
+  customerRoles?: Array<'B2C' | 'B2B'>;
+  // Destination country codes
+  regions?: string[];
+  currencies?: string[];
+  firstOrderOnly?: boolean;
+}
+
+// Every buyQuantity + getQuantity units, the cheapest getQuantity are percentOff (100 = free)
+export interface BuyXGetYAction {
+  buyQuantity: number;
+  getQuantity: number;
+  percentOff?: number;
+  maxApplications?: number;
+}
+
+// Any quantity covered units for price, most expensive units first
+export interface BundlePriceAction {
+  quantity: number;
+  price: number;
+  maxApplications?: number;
+}
+
+export interface SpendTier {
+  minSpend: number;
+  percentOff?: number;
+  amountOff?: number;
+}
+
+// The highest tier the covered spend reaches applies
+export interface TieredSpendAction {
+  tiers: SpendTier[];
+}
+
+export interface FreeSampleAction {
+  variantId: string;
+  quantity?: number;
+  minSpend?: number;
+}
+
+export type PromotionAction = BuyXGetYAction | BundlePriceAction | TieredSpendAction | FreeSampleAction;
+
+export interface Promotion {
+  id: string;
+  name: string;
+  description?: string;
+  // Absent on automatic promotions
+  code?: string;
+  actionType: PromotionActionType;
+  action: PromotionAction;
+  conditions: PromotionConditions;
+  currency: string;
+  priority: number;
+  stacking: PromotionStacking;
+  usageLimit?: number;
+  usedCount: number;
+  validFrom: string;
+  validUntil?: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A promotion's share of one cart or order line
+export interface PromotionLineDiscount {
+  promotionId: string;
+  name: string;
+  amount: number;
+}
+
+export interface FreeSampleItem {
+  promotionId: string;
+  productId: string;
+  variantId: string;
+  name?: string;
+  quantity: number;
+  value: number;
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  code?: string;
+  actionType: PromotionActionType;
+  amount: number;
+  lines: Array<{ variantId: string; amount: number }>;
+}
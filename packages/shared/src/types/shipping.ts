@@ -4,6 +4,7 @@ import { z } from 'zod';
 export type ShippingProvider = 'shiprocket' | 'gcc_logistics' | 'aramex' | 'dhl' | 'blue_dart';
 export type ShipmentStatus = 'pending' | 'packed' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'failed' | 'returned';
 export type ShippingMethod = 'standard' | 'express' | 'overnight' | 'economy' | 'priority';
+export type LabelFormat = 'pdf' | 'zpl';
 
 // Shipping Request/Response Types
 export interface ShippingRequest {
@@ -21,6 +22,8 @@ export interface ShippingRequest {
   value: number; // declared value for insurance
   currency: string;
   instructions?: string;
+  // Cash the carrier collects on delivery; omitted for prepaid shipments
+  codAmount?: number;
   metadata?: Record<string, any>;
 }
 
@@ -34,6 +37,23 @@ export interface ShippingItem {
   description?: string;
 }
 
+// A shipment as shown on its order, with the lines it carries
+export interface OrderShipment {
+  id: string;
+  carrier: string | null;
+  trackingNumber: string | null;
+  trackingUrl: string | null;
+  status: ShipmentStatus;
+  shippedAt: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+  items: Array<{
+    orderItemId: string;
+    productName: string;
+    quantity: number;
+  }>;
+}
+
 export interface ShippingAddress {
   name: string;
   company?: string;
@@ -61,16 +81,94 @@ export interface ShippingResponse {
   metadata?: Record<string, any>;
 }
 
+// A printable shipping label: the carrier's own where it provides one, otherwise ours
+export interface ShippingLabel {
+  format: LabelFormat;
+  source: 'carrier' | 'generic';
+  content: Buffer;
+}
+
 export interface ShippingUpdate {
   shipmentId: string;
   trackingNumber: string;
   status: ShipmentStatus;
+  // The carrier's own event code that status was mapped from
+  carrierCode?: string;
   location?: string;
   timestamp: string;
   description?: string;
   metadata?: Record<string, any>;
 }
 
+// One carrier scan on a shipment's tracking timeline
+export interface ShipmentTimelineEvent {
+  status: ShipmentStatus;
+  description: string;
+  location: string | null;
+  occurredAt: string;
+}
+
+// An order's shipments and their timelines, as shown on the public tracking page
+export interface OrderTracking {
+  orderNumber: string;
+  orderStatus: string;
+  placedAt: string;
+  shipments: Array<{
+    carrier: string | null;
+    trackingNumber: string | null;
+    trackingUrl: string | null;
+    status: ShipmentStatus;
+    shippedAt: string | null;
+    deliveredAt: string | null;
+    // Newest first
+    events: ShipmentTimelineEvent[];
+  }>;
+}
+
+export const SHIPMENT_STATUS_LABELS: Record<ShipmentStatus, string> = {
+  pending: 'Label created',
+  packed: 'Packed',
+  in_transit: 'In transit',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  failed: 'Delivery failed',
+  returned: 'Returned to sender',
+};
+
+// Words carriers without their own status map use for our statuses
+const SHIPMENT_STATUS_ALIASES: Record<string, ShipmentStatus> = {
+  created: 'pending',
+  manifested: 'pending',
+  picked_up: 'in_transit',
+  shipped: 'in_transit',
+  dispatched: 'in_transit',
+  in_transit: 'in_transit',
+  out_for_delivery: 'out_for_delivery',
+  delivered: 'delivered',
+  undelivered: 'failed',
+  lost: 'failed',
+  rto: 'returned',
+  rto_delivered: 'returned',
+};
+
+/**
+ * A carrier status as one of ours, or null when it is not one we track.
+ * Connectors map their own event codes; this catches the statuses passed
+ * through from carriers that do not.
+ */
+export function normalizeShipmentStatus(value: string | null | undefined): ShipmentStatus | null {
+  if (!value) {
+    return null;
+  }
+
+  const key = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if (key in SHIPMENT_STATUS_LABELS) {
+    return key as ShipmentStatus;
+  }
+
+  return SHIPMENT_STATUS_ALIASES[key] || null;
+}
+
 export interface ShippingWebhook {
   id: string;
   provider: ShippingProvider;
@@ -94,6 +192,10 @@ export interface ShippingConnector {
   validateWebhook(payload: any, signature: string): boolean;
   processWebhook(payload: any): Promise<ShippingWebhook>;
   getShippingRates(request: Partial<ShippingRequest>): Promise<ShippingRate[]>;
+  // Carrier-printed label, or null when the carrier cannot supply one in this format
+  getLabel?(shipmentId: string, format: LabelFormat): Promise<ShippingLabel | null>;
+  // Whether a courier will collect cash on delivery between the two pincodes
+  checkCodServiceability?(request: Partial<ShippingRequest>): Promise<boolean>;
 }
 
 export interface ShippingRate {
@@ -105,15 +207,38 @@ export interface ShippingRate {
   isAvailable: boolean;
 }
 
+// A carrier's rate for one method, as offered by rate shopping
+export interface ShippingQuote extends ShippingRate {
+  // "<provider>:<method>", sent back as the checkout's shipping method
+  id: string;
+  provider: ShippingProvider;
+}
+
+export interface RateShoppingResult {
+  // Available quotes across carriers, cheapest first
+  quotes: ShippingQuote[];
+  cheapest: ShippingQuote | null;
+  fastest: ShippingQuote | null;
+  // Carriers that failed or timed out; their quotes are missing
+  unavailable: ShippingProvider[];
+  cached: boolean;
+}
+
 // Shipping Configuration
 export interface ShippingConfig {
   provider: ShippingProvider;
   region: string;
   mode: 'sandbox' | 'live';
+  // Overrides the carrier's API endpoint, e.g. with a local stand-in server
+  baseUrl?: string;
   credentials: {
     apiKey: string;
     apiSecret: string;
     webhookSecret: string;
+    // Carrier account for APIs that bill against one (Aramex, DHL, Blue Dart)
+    accountNumber?: string;
+    // Aramex account PIN or Blue Dart licence key
+    accountPin?: string;
   };
   settings: {
     timeout: number;
@@ -0,0 +1,39 @@
+// Webhook inbox types
+
+export type WebhookSource = 'PAYMENT' | 'SHIPPING';
+
+export type WebhookEventStatus = 'RECEIVED' | 'PROCESSING' | 'PROCESSED' | 'FAILED' | 'DEAD';
+
+export interface WebhookEventSummary {
+  id: string;
+  source: WebhookSource;
+  provider: string;
+  eventId: string;
+  eventType?: string;
+  status: WebhookEventStatus;
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt?: string;
+  processedAt?: string;
+  receivedAt: string;
+}
+
+export interface WebhookEventDetail extends WebhookEventSummary {
+  payload: any;
+  headers: Record<string, string>;
+}
+
+// What the provider is told about a delivery once it is safely stored
+export interface WebhookReceipt {
+  webhookId: string;
+  eventId: string;
+  status: WebhookEventStatus;
+  duplicate: boolean;
+  processed: boolean;
+}
+
+export interface WebhookRetryResult {
+  attempted: number;
+  processed: number;
+  failed: number;
+}
@@ -1,11 +1,24 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Used when a region has no ShelfLifePolicy row; keep in sync with packages/shared/src/types/inventory.ts
+const DEFAULT_MIN_SHELF_LIFE_PERCENT: Record<string, number> = {
+  AE: 50,
+  SA: 50,
+  QA: 50,
+  OM: 50,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Unpaid holds are released by the worker's reservation sweep after this long
+const RESERVATION_TTL_MINUTES = parseInt(Deno.env.get('RESERVATION_TTL_MINUTES') ?? '30', 10);
+
 interface OrderItem {
   id: string;
   variantId: string;
@@ -13,6 +26,281 @@ interface OrderItem {
   quantity: number;
 }
 
+interface Lot {
+  id: string;
+  warehouseId: string | null;
+  harvestedOn: string;
+  bestBefore: string;
+  qtyAvailable: number;
+  qtyReserved: number;
+}
+
+interface Allocation {
+  lotId: string;
+  quantity: number;
+  bestBefore?: string;
+}
+
+interface ShelfLifeRequirement {
+  minRemainingPercent: number;
+  minRemainingDays: number;
+}
+
+async function getShelfLifeRequirement(
+  supabaseClient: SupabaseClient,
+  country: string
+): Promise<ShelfLifeRequirement> {
+  const region = country.trim().toUpperCase();
+  const { data: policy } = await supabaseClient
+    .from('ShelfLifePolicy')
+    .select('minRemainingPercent, minRemainingDays')
+    .eq('region', region)
+    .maybeSingle();
+
+  return {
+    minRemainingPercent: policy?.minRemainingPercent ?? DEFAULT_MIN_SHELF_LIFE_PERCENT[region] ?? 0,
+    minRemainingDays: policy?.minRemainingDays ?? 0,
+  };
+}
+
+function hasRequiredShelfLife(lot: Lot, requirement: ShelfLifeRequirement, now: Date): boolean {
+  const bestBefore = new Date(lot.bestBefore).getTime();
+  const remainingMs = bestBefore - now.getTime();
+  if (remainingMs <= 0) {
+    return false;
+  }
+
+  const totalMs = bestBefore - new Date(lot.harvestedOn).getTime();
+  const remainingPercent = totalMs > 0 ? (remainingMs / totalMs) * 100 : 0;
+
+  return remainingPercent >= requirement.minRemainingPercent &&
+    remainingMs >= requirement.minRemainingDays * DAY_MS;
+}
+
+/**
+ * Move quantity between a lot's available and reserved stock. Only applies if
+ * the lot still holds the values we read, so concurrent orders cannot
+ * oversell; returns false when the lot changed underneath us.
+ */
+async function adjustLot(
+  supabaseClient: SupabaseClient,
+  lot: Pick<Lot, 'id' | 'qtyAvailable' | 'qtyReserved'>,
+  availableChange: number,
+  reservedChange: number
+): Promise<boolean> {
+  const { data, error } = await supabaseClient
+    .from('Lot')
+    .update({
+      qtyAvailable: lot.qtyAvailable + availableChange,
+      qtyReserved: lot.qtyReserved + reservedChange,
+    })
+    .eq('id', lot.id)
+    .eq('qtyAvailable', lot.qtyAvailable)
+    .eq('qtyReserved', lot.qtyReserved)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to update lot ${lot.id}: ${error.message}`);
+  }
+
+  return Boolean(data && data.length > 0);
+}
+
+/**
+ * Mark the order's active hold on a lot as confirmed or released. Returns
+ * false when there is none, e.g. the sweep already expired it and returned
+ * the stock, so the caller must not adjust the lot again.
+ */
+async function settleReservation(
+  supabaseClient: SupabaseClient,
+  orderId: string,
+  lotId: string,
+  status: 'CONFIRMED' | 'RELEASED'
+): Promise<boolean> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseClient
+    .from('Reservation')
+    .update({
+      status,
+      ...(status === 'CONFIRMED' ? { confirmedAt: now } : { releasedAt: now }),
+      updatedAt: now,
+    })
+    .eq('orderId', orderId)
+    .eq('lotId', lotId)
+    .eq('status', 'ACTIVE')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to update reservation for lot ${lotId}: ${error.message}`);
+  }
+
+  return Boolean(data && data.length > 0);
+}
+
+/**
+ * Reserve an order item first-expiry-first-out from the lots that still have
+ * enough shelf life left for the destination
+ */
+async function reserveItem(
+  supabaseClient: SupabaseClient,
+  orderId: string,
+  item: OrderItem,
+  requirement: ShelfLifeRequirement
+): Promise<Allocation[]> {
+  const { data: lots, error: lotsError } = await supabaseClient
+    .from('Lot')
+    .select('id, warehouseId, harvestedOn, bestBefore, qtyAvailable, qtyReserved')
+    .eq('variantId', item.variantId)
+    .eq('status', 'ACTIVE')
+    .gt('qtyAvailable', 0)
+    .order('bestBefore', { ascending: true });
+
+  if (lotsError) {
+    throw new Error(`Failed to fetch lots for item ${item.id}: ${lotsError.message}`);
+  }
+
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + RESERVATION_TTL_MINUTES * 60 * 1000).toISOString();
+  const eligibleLots = (lots as Lot[] || []).filter(lot => hasRequiredShelfLife(lot, requirement, now));
+  const allocations: Allocation[] = [];
+  let remainingQty = item.quantity;
+
+  for (const lot of eligibleLots) {
+    if (remainingQty <= 0) break;
+
+    const reserveQty = Math.min(remainingQty, lot.qtyAvailable);
+    if (await adjustLot(supabaseClient, lot, -reserveQty, reserveQty)) {
+      allocations.push({ lotId: lot.id, quantity: reserveQty, bestBefore: lot.bestBefore });
+      remainingQty -= reserveQty;
+
+      await supabaseClient
+        .from('Reservation')
+        .insert({
+          id: crypto.randomUUID(),
+          variantId: item.variantId,
+          lotId: lot.id,
+          warehouseId: lot.warehouseId,
+          orderId,
+          quantity: reserveQty,
+          status: 'ACTIVE',
+          expiresAt,
+          updatedAt: now.toISOString(),
+        });
+
+      await supabaseClient
+        .from('InventoryLedger')
+        .insert({
+          id: crypto.randomUUID(),
+          variantId: item.variantId,
+          lotId: lot.id,
+          warehouseId: lot.warehouseId,
+          changeType: 'OUT',
+          refType: 'ORDER',
+          quantity: reserveQty,
+          reason: `Reserved for order item ${item.id}`,
+          metadata: { orderItemId: item.id, action: 'RESERVE' },
+        });
+    }
+  }
+
+  if (remainingQty > 0) {
+    // Put back what we took so the item is either fully reserved or not at all
+    await releaseAllocations(supabaseClient, orderId, item, allocations);
+    throw new Error(`Insufficient stock with enough shelf life for item ${item.id}`);
+  }
+
+  return allocations;
+}
+
+async function releaseAllocations(
+  supabaseClient: SupabaseClient,
+  orderId: string,
+  item: OrderItem,
+  allocations: Allocation[]
+): Promise<void> {
+  for (const allocation of allocations) {
+    if (!(await settleReservation(supabaseClient, orderId, allocation.lotId, 'RELEASED'))) {
+      continue;
+    }
+
+    const { data: lot } = await supabaseClient
+      .from('Lot')
+      .select('id, warehouseId, qtyAvailable, qtyReserved')
+      .eq('id', allocation.lotId)
+      .single();
+
+    if (!lot || !(await adjustLot(supabaseClient, lot, allocation.quantity, -allocation.quantity))) {
+      console.error(`Error releasing lot ${allocation.lotId} for item ${item.id}`);
+      continue;
+    }
+
+    await supabaseClient
+      .from('InventoryLedger')
+      .insert({
+        id: crypto.randomUUID(),
+        variantId: item.variantId,
+        lotId: allocation.lotId,
+        warehouseId: lot.warehouseId,
+        changeType: 'IN',
+        refType: 'ORDER',
+        quantity: allocation.quantity,
+        reason: `Released from order item ${item.id}`,
+        metadata: { orderItemId: item.id, action: 'RELEASE' },
+      });
+  }
+}
+
+async function confirmAllocations(
+  supabaseClient: SupabaseClient,
+  orderId: string,
+  item: OrderItem,
+  allocations: Allocation[]
+): Promise<void> {
+  for (const allocation of allocations) {
+    if (!(await settleReservation(supabaseClient, orderId, allocation.lotId, 'CONFIRMED'))) {
+      continue;
+    }
+
+    const { data: lot } = await supabaseClient
+      .from('Lot')
+      .select('id, warehouseId, qtyAvailable, qtyReserved')
+      .eq('id', allocation.lotId)
+      .single();
+
+    if (!lot || !(await adjustLot(supabaseClient, lot, 0, -allocation.quantity))) {
+      console.error(`Error confirming lot ${allocation.lotId} for item ${item.id}`);
+      continue;
+    }
+
+    await supabaseClient
+      .from('InventoryLedger')
+      .insert({
+        id: crypto.randomUUID(),
+        variantId: item.variantId,
+        lotId: allocation.lotId,
+        warehouseId: lot.warehouseId,
+        changeType: 'OUT',
+        refType: 'ORDER',
+        quantity: allocation.quantity,
+        reason: `Confirmed allocation for order item ${item.id}`,
+        metadata: { orderItemId: item.id, action: 'CONFIRM' },
+      });
+  }
+}
+
+async function getAllocations(supabaseClient: SupabaseClient, orderItemId: string): Promise<Allocation[]> {
+  const { data, error } = await supabaseClient
+    .from('OrderItemLot')
+    .select('lotId, quantity')
+    .eq('orderItemId', orderItemId);
+
+  if (error) {
+    throw new Error(`Failed to fetch allocations for item ${orderItemId}: ${error.message}`);
+  }
+
+  return data || [];
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -26,6 +314,10 @@ serve(async (req) => {
       throw new Error('Missing required parameters: orderId and action');
     }
 
+    if (!['reserve', 'confirm', 'release'].includes(action)) {
+      throw new Error(`Unknown action: ${action}`);
+    }
+
     // Initialize Supabase client
     const supabaseClient = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
@@ -55,94 +347,110 @@ serve(async (req) => {
       );
     }
 
+    let requirement: ShelfLifeRequirement = { minRemainingPercent: 0, minRemainingDays: 0 };
+
+    if (action === 'reserve') {
+      // Shelf-life rules depend on where the order ships
+      const { data: order, error: orderError } = await supabaseClient
+        .from('Order')
+        .select('shippingAddressId')
+        .eq('id', orderId)
+        .single();
+
+      if (orderError || !order) {
+        throw new Error(`Failed to fetch order: ${orderError?.message ?? 'not found'}`);
+      }
+
+      const { data: address } = await supabaseClient
+        .from('Address')
+        .select('country')
+        .eq('id', order.shippingAddressId)
+        .single();
+
+      if (address?.country) {
+        requirement = await getShelfLifeRequirement(supabaseClient, address.country);
+      }
+    }
+
     const processedItems = [];
+    const failedItems: string[] = [];
+    // Items this call reserved, so a later failure can put them back
+    const reservedItems: Array<{ item: OrderItem; allocations: Allocation[] }> = [];
+    const variantUpdates = new Map<string, number>();
 
-    for (const item of orderItems) {
-      if (action === 'reserve') {
-        // Reserve stock
-        const { error: reserveError } = await supabaseClient
-          .from('Lot')
-          .update({
-            qtyAvailable: item.lotId ? 
-              `qtyAvailable - ${item.quantity}` : 
-              `qtyAvailable - ${item.quantity}`,
-            qtyReserved: `qtyReserved + ${item.quantity}`,
-          })
-          .eq('id', item.lotId || 'none')
-          .eq('status', 'ACTIVE');
-
-        if (reserveError) {
-          console.error(`Error reserving stock for item ${item.id}:`, reserveError);
-          continue;
-        }
+    for (const item of orderItems as OrderItem[]) {
+      const existing = await getAllocations(supabaseClient, item.id);
+      let allocations = existing;
+
+      try {
+        if (action === 'reserve') {
+          if (existing.length > 0) {
+            // Already reserved, e.g. a retried call
+            continue;
+          }
+
+          allocations = await reserveItem(supabaseClient, orderId, item, requirement);
+
+          const { error: allocationError } = await supabaseClient
+            .from('OrderItemLot')
+            .insert(allocations.map(allocation => ({
+              id: crypto.randomUUID(),
+              orderItemId: item.id,
+              lotId: allocation.lotId,
+              quantity: allocation.quantity,
+              bestBefore: allocation.bestBefore,
+            })));
+
+          if (allocationError) {
+            await releaseAllocations(supabaseClient, orderId, item, allocations);
+            throw new Error(`Failed to record allocations: ${allocationError.message}`);
+          }
 
-        // Log inventory change
-        await supabaseClient
-          .from('InventoryLedger')
-          .insert({
-            variantId: item.variantId,
-            lotId: item.lotId,
-            changeType: 'OUT',
-            refType: 'ORDER',
-            quantity: item.quantity,
-            reason: `Reserved for order ${orderId}`,
-            metadata: { orderId, action: 'RESERVE' },
-          });
-
-      } else if (action === 'confirm') {
-        // Confirm allocation (remove from reserved)
-        const { error: confirmError } = await supabaseClient
-          .from('Lot')
-          .update({
-            qtyReserved: `qtyReserved - ${item.quantity}`,
-          })
-          .eq('id', item.lotId || 'none');
-
-        if (confirmError) {
-          console.error(`Error confirming allocation for item ${item.id}:`, confirmError);
-          continue;
+          await supabaseClient
+            .from('OrderItem')
+            .update({ lotId: allocations[0].lotId })
+            .eq('id', item.id);
+
+          variantUpdates.set(item.variantId, (variantUpdates.get(item.variantId) || 0) - item.quantity);
+          reservedItems.push({ item, allocations });
+        } else if (action === 'confirm') {
+          await confirmAllocations(supabaseClient, orderId, item, existing);
+        } else {
+          await releaseAllocations(supabaseClient, orderId, item, existing);
+
+          await supabaseClient
+            .from('OrderItemLot')
+            .delete()
+            .eq('orderItemId', item.id);
+
+          variantUpdates.set(item.variantId, (variantUpdates.get(item.variantId) || 0) + item.quantity);
         }
+      } catch (itemError) {
+        console.error(`Error processing ${action} for item ${item.id}:`, itemError);
+        failedItems.push(item.id);
+
+        if (action === 'reserve') {
+          // An order is reserved whole or not at all: put back the items reserved before this one
+          for (const reserved of reservedItems) {
+            await releaseAllocations(supabaseClient, orderId, reserved.item, reserved.allocations);
+
+            await supabaseClient
+              .from('OrderItemLot')
+              .delete()
+              .eq('orderItemId', reserved.item.id);
+
+            await supabaseClient
+              .from('OrderItem')
+              .update({ lotId: null })
+              .eq('id', reserved.item.id);
+          }
 
-        // Log inventory change
-        await supabaseClient
-          .from('InventoryLedger')
-          .insert({
-            variantId: item.variantId,
-            lotId: item.lotId,
-            changeType: 'OUT',
-            refType: 'ORDER',
-            quantity: item.quantity,
-            reason: `Confirmed allocation for order ${orderId}`,
-            metadata: { orderId, action: 'CONFIRM' },
-          });
-
-      } else if (action === 'release') {
-        // Release reserved stock
-        const { error: releaseError } = await supabaseClient
-          .from('Lot')
-          .update({
-            qtyReserved: `qtyReserved - ${item.quantity}`,
-            qtyAvailable: `qtyAvailable + ${item.quantity}`,
-          })
-          .eq('id', item.lotId || 'none');
-
-        if (releaseError) {
-          console.error(`Error releasing stock for item ${item.id}:`, releaseError);
-          continue;
+          processedItems.length = 0;
+          variantUpdates.clear();
+          break;
         }
 
-        // Log inventory change
-        await supabaseClient
-          .from('InventoryLedger')
-          .insert({
-            variantId: item.variantId,
-            lotId: item.lotId,
-            changeType: 'IN',
-            refType: 'ORDER',
-            quantity: item.quantity,
-            reason: `Released from order ${orderId}`,
-            metadata: { orderId, action: 'RELEASE' },
-          });
+        continue;
       }
 
       processedItems.push({
@@ -150,25 +458,21 @@ serve(async (req) => {
         variantId: item.variantId,
         quantity: item.quantity,
         action,
+        lots: allocations,
       });
     }
 
-    // Update variant stock quantities
-    const variantUpdates = new Map<string, number>();
-    
-    for (const item of orderItems) {
-      const currentChange = variantUpdates.get(item.variantId) || 0;
-      const change = action === 'reserve' || action === 'confirm' ? -item.quantity : item.quantity;
-      variantUpdates.set(item.variantId, currentChange + change);
-    }
-
-    // Update each variant's stock quantity
+    // Update each variant's stock quantity; confirming only settles reserved stock
     for (const [variantId, stockChange] of variantUpdates) {
+      const { data: variant } = await supabaseClient
+        .from('ProductVariant')
+        .select('stockQty')
+        .eq('id', variantId)
+        .single();
+
       const { error: stockError } = await supabaseClient
         .from('ProductVariant')
-        .update({ 
-          stockQty: `stockQty + ${stockChange}`
-        })
+        .update({ stockQty: Math.max(0, (variant?.stockQty ?? 0) + stockChange) })
         .eq('id', variantId);
 
       if (stockError) {
@@ -178,10 +482,11 @@ serve(async (req) => {
 
     return new Response(
       JSON.stringify({
-        success: true,
+        success: failedItems.length === 0,
         message: `Successfully processed ${processedItems.length} items for order ${orderId}`,
         action,
         processedItems,
+        failedItems,
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -190,7 +495,7 @@ serve(async (req) => {
     );
   } catch (error) {
     console.error('Error updating stock on order:', error);
-    
+
     return new Response(
       JSON.stringify({
         success: false,